@@ -30,6 +30,9 @@ import AuthCallback from './pages/AuthCallback';
 import Accounts from './pages/Accounts';
 import Subscription from './pages/Subscription';
 import Assignments from './pages/Assignments';
+import Schedule from './pages/Schedule';
+import Trash from './pages/Trash';
+import QuotationPortal from './pages/QuotationPortal';
 import NotFound from './pages/NotFound';
 
 
@@ -61,6 +64,7 @@ function App() {
                     <Route path="/" element={<Index />} />
                     <Route path="/auth" element={<SimpleAuth />} />
                     <Route path="/auth-callback" element={<AuthCallback />} />
+                    <Route path="/q/:token" element={<QuotationPortal />} />
                     
                     
                     {/* Protected routes */}
@@ -88,6 +92,14 @@ function App() {
                         </SubscriptionBlocker>
                       </ProtectedRoute>
                     } />
+                    <Route path="/schedule" element={
+                      <ProtectedRoute>
+                        <SubscriptionBlocker>
+                          <ExpiredSubscriptionNotice />
+                          <Schedule />
+                        </SubscriptionBlocker>
+                      </ProtectedRoute>
+                    } />
                     <Route path="/clients" element={
                       <ProtectedRoute>
                         <SubscriptionBlocker>
@@ -183,6 +195,14 @@ function App() {
                         </SubscriptionBlocker>
                       </ProtectedRoute>
                     } />
+                    <Route path="/trash" element={
+                      <ProtectedRoute adminOnly>
+                        <SubscriptionBlocker>
+                          <ExpiredSubscriptionNotice />
+                          <Trash />
+                        </SubscriptionBlocker>
+                      </ProtectedRoute>
+                    } />
                     <Route path="/subscription" element={
                       <ProtectedRoute adminOnly>
                         <Subscription />
@@ -3,12 +3,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Loading03Icon, Upload01Icon, Image01Icon, Delete02Icon } from 'hugeicons-react';
+import type { Json } from '@/integrations/supabase/types';
+import { Loading03Icon, Upload01Icon, Image01Icon, Delete02Icon, Add01Icon } from 'hugeicons-react';
 import { BUSINESS_DEFAULTS } from '@/config/business-defaults';
+import { DEFAULT_SAC_CODE, GST_STATES, TAX_PRICING_LABELS, getStateCodeFromGstin, isValidGstin } from '@/lib/gst-utils';
+import { DEFAULT_CANCELLATION_POLICY, parseCancellationPolicy } from '@/lib/refund-utils';
+import { CancellationPolicyTier, TaxPricing } from '@/types/studio';
 
 interface FirmDetailsDialogProps {
   open: boolean;
@@ -29,6 +34,12 @@ const FirmDetailsDialog = ({ open, onOpenChange, firmId, onSuccess }: FirmDetail
   const [bankAccountNumber, setBankAccountNumber] = useState('');
   const [bankIfscCode, setBankIfscCode] = useState('');
   const [bankName, setBankName] = useState('');
+  const [travelBufferMinutes, setTravelBufferMinutes] = useState(60);
+  const [gstin, setGstin] = useState('');
+  const [gstStateCode, setGstStateCode] = useState('');
+  const [taxPricingDefault, setTaxPricingDefault] = useState<TaxPricing>('exclusive');
+  const [defaultSacCode, setDefaultSacCode] = useState(DEFAULT_SAC_CODE);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicyTier[]>(DEFAULT_CANCELLATION_POLICY);
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
   const [currentLogoUrl, setCurrentLogoUrl] = useState<string | null>(null);
@@ -74,6 +85,12 @@ const FirmDetailsDialog = ({ open, onOpenChange, firmId, onSuccess }: FirmDetail
         setBankAccountNumber((firm as any).bank_account_number || '');
         setBankIfscCode((firm as any).bank_ifsc_code || '');
         setBankName((firm as any).bank_name || '');
+        setTravelBufferMinutes(firm.crew_travel_buffer_minutes ?? 60);
+        setGstin(firm.gstin || '');
+        setGstStateCode(firm.gst_state_code || '');
+        setTaxPricingDefault(firm.tax_pricing_default === 'inclusive' ? 'inclusive' : 'exclusive');
+        setDefaultSacCode(firm.default_sac_code || DEFAULT_SAC_CODE);
+        setCancellationPolicy(parseCancellationPolicy(firm.cancellation_policy));
         setCurrentLogoUrl(firm.logo_url);
         setLogoPreview(null); // Reset preview for new upload
         setLogoFile(null);
@@ -212,6 +229,16 @@ const FirmDetailsDialog = ({ open, onOpenChange, firmId, onSuccess }: FirmDetail
       return;
     }
 
+    const normalizedGstin = gstin.trim().toUpperCase();
+    if (normalizedGstin && !isValidGstin(normalizedGstin)) {
+      toast({
+        title: "Invalid GSTIN",
+        description: "Enter the 15 character GSTIN, e.g. 27ABCDE1234F1Z5",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -241,7 +268,13 @@ const FirmDetailsDialog = ({ open, onOpenChange, firmId, onSuccess }: FirmDetail
           bank_account_name: bankAccountName.trim(),
           bank_account_number: bankAccountNumber.trim(),
           bank_ifsc_code: bankIfscCode.trim(),
-          bank_name: bankName.trim()
+          bank_name: bankName.trim(),
+          crew_travel_buffer_minutes: travelBufferMinutes,
+          gstin: normalizedGstin || null,
+          gst_state_code: gstStateCode || getStateCodeFromGstin(normalizedGstin),
+          tax_pricing_default: taxPricingDefault,
+          default_sac_code: defaultSacCode.trim() || DEFAULT_SAC_CODE,
+          cancellation_policy: parseCancellationPolicy(cancellationPolicy) as unknown as Json
         })
         .eq('id', firmId);
 
@@ -266,6 +299,10 @@ const FirmDetailsDialog = ({ open, onOpenChange, firmId, onSuccess }: FirmDetail
     }
   };
 
+  const updateCancellationTier = (index: number, changes: Partial<CancellationPolicyTier>) => {
+    setCancellationPolicy(current => current.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+  };
+
   const getCurrentLogo = () => {
     if (logoPreview) return logoPreview;
     if (currentLogoUrl) return currentLogoUrl;
@@ -547,6 +584,145 @@ const FirmDetailsDialog = ({ open, onOpenChange, firmId, onSuccess }: FirmDetail
               </div>
             </div>
 
+            {/* GST & Tax Section */}
+            <div className="space-y-4 border-t pt-6">
+              <h3 className="text-lg font-semibold text-foreground">GST & Tax</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="gstin" className="text-xs sm:text-sm font-medium">GSTIN</Label>
+                  <Input
+                    id="gstin"
+                    placeholder="27ABCDE1234F1Z5"
+                    value={gstin}
+                    maxLength={15}
+                    onChange={(e) => {
+                      const value = e.target.value.toUpperCase();
+                      setGstin(value);
+                      const stateCode = getStateCodeFromGstin(value);
+                      if (stateCode) setGstStateCode(stateCode);
+                    }}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-xs sm:text-sm font-medium">Registered State</Label>
+                  <Select value={gstStateCode || undefined} onValueChange={setGstStateCode} disabled={isLoading}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_STATES.map(state => (
+                        <SelectItem key={state.code} value={state.code}>{state.name} ({state.code})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-xs sm:text-sm font-medium">Default Pricing</Label>
+                  <Select value={taxPricingDefault} onValueChange={(value) => setTaxPricingDefault(value as TaxPricing)} disabled={isLoading}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TAX_PRICING_LABELS) as TaxPricing[]).map(pricing => (
+                        <SelectItem key={pricing} value={pricing}>{TAX_PRICING_LABELS[pricing]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="defaultSacCode" className="text-xs sm:text-sm font-medium">Default SAC Code</Label>
+                  <Input
+                    id="defaultSacCode"
+                    placeholder={DEFAULT_SAC_CODE}
+                    value={defaultSacCode}
+                    maxLength={8}
+                    onChange={(e) => setDefaultSacCode(e.target.value.replace(/\D/g, ''))}
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave GSTIN empty if the firm is not registered. Quotations, invoices and the finance report show GST only for registered firms.
+              </p>
+            </div>
+
+            {/* Cancellation Policy Section */}
+            <div className="space-y-4 border-t pt-6">
+              <h3 className="text-lg font-semibold text-foreground">Cancellation Policy</h3>
+              <div className="space-y-2">
+                {cancellationPolicy.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2 text-xs sm:text-sm">
+                    <span className="text-muted-foreground">Cancelled</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20"
+                      value={tier.days_before}
+                      onChange={(e) => updateCancellationTier(index, { days_before: Math.max(0, parseInt(e.target.value) || 0) })}
+                      disabled={isLoading}
+                    />
+                    <span className="text-muted-foreground">+ days before, keep</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-20"
+                      value={tier.retention_percent}
+                      onChange={(e) => updateCancellationTier(index, { retention_percent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                      disabled={isLoading}
+                    />
+                    <span className="text-muted-foreground">%</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCancellationPolicy(current => current.filter((_, i) => i !== index))}
+                      disabled={isLoading}
+                    >
+                      <Delete02Icon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCancellationPolicy(current => [...current, { days_before: 0, retention_percent: 100 }])}
+                  disabled={isLoading}
+                >
+                  <Add01Icon className="h-4 w-4 mr-1" />
+                  Add Tier
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Share of the event total kept when a client cancels, by notice given. Anything paid beyond it is refunded with a credit note.
+              </p>
+            </div>
+
+            {/* Crew Scheduling Section */}
+            <div className="space-y-4 border-t pt-6">
+              <h3 className="text-lg font-semibold text-foreground">Crew Scheduling</h3>
+              <div className="space-y-2">
+                <Label htmlFor="travelBufferMinutes" className="text-xs sm:text-sm font-medium">Travel Buffer Between Venues (minutes)</Label>
+                <Input
+                  id="travelBufferMinutes"
+                  type="number"
+                  min={0}
+                  max={720}
+                  value={travelBufferMinutes}
+                  onChange={(e) => setTravelBufferMinutes(Math.min(720, Math.max(0, parseInt(e.target.value) || 0)))}
+                  disabled={isLoading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Crew booked for timed sessions at different venues are flagged when the gap between them is shorter than this.
+                </p>
+              </div>
+            </div>
+
             {/* Form Actions */}
             <div className="flex justify-end gap-2 pt-4 border-t">
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
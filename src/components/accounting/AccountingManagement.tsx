@@ -9,13 +9,14 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Edit01Icon, Delete02Icon, File01Icon, MoneyBag01Icon, MoneyReceive01Icon, WalletAdd01Icon, Building06Icon, Add01Icon } from 'hugeicons-react';
+import { Edit01Icon, Delete02Icon, File01Icon, MoneyBag01Icon, MoneyReceive01Icon, WalletAdd01Icon, Building06Icon, Add01Icon, BankIcon } from 'hugeicons-react';
 import { useAccountingEntries } from '@/hooks/useAccountingEntries';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { PageSkeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
 import { AccountingEntryDialog } from './AccountingEntryDialog';
+import BankReconciliationDialog from './BankReconciliationDialog';
 import { UnifiedDialog } from '@/components/ui/unified-dialog';
 import StatsGrid from '@/components/ui/stats-grid';
 import { EmptyState } from '@/components/ui/empty-state';
@@ -66,6 +67,7 @@ export const AccountingManagement = () => {
   const isMobile = useIsMobile();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<any>(null);
+  const [isReconciliationOpen, setIsReconciliationOpen] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState({
     open: false,
     title: '',
@@ -176,6 +178,14 @@ export const AccountingManagement = () => {
               config={accountingExportConfig}
             />
           )}
+          <Button
+            variant="outline"
+            onClick={() => setIsReconciliationOpen(true)}
+            className="h-10 rounded-full"
+          >
+            <BankIcon className="h-4 w-4 mr-2" />
+            Reconcile
+          </Button>
           <Button
             onClick={() => setIsDialogOpen(true)}
             size="icon"
@@ -199,6 +209,11 @@ export const AccountingManagement = () => {
         trigger={<span style={{ display: 'none' }} />}
       />
 
+      <BankReconciliationDialog
+        open={isReconciliationOpen}
+        onOpenChange={setIsReconciliationOpen}
+      />
+
       <StatsGrid stats={stats} />
 
       <UniversalFilterBar
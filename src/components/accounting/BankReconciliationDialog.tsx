@@ -0,0 +1,477 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+import { BankIcon, Upload01Icon, Link01Icon, Unlink01Icon, MagicWand01Icon, ViewOffIcon, ViewIcon, Add01Icon } from 'hugeicons-react';
+import { BankStatementImport, BankStatementLine, ExpenseCategory } from '@/types/studio';
+import { parseBankStatement } from '@/lib/bank-statement-utils';
+import {
+  RECONCILABLE_TABLE_LABELS,
+  ReconciliationCandidate,
+  autoMatchLines,
+  createExpenseFromLine,
+  createPaymentFromLine,
+  fetchReconciliationCandidates,
+  getLineCandidates,
+  importBankStatement,
+  reconcileLine,
+  unreconcileLine
+} from '@/lib/bank-reconciliation-utils';
+
+interface BankReconciliationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type LineFilter = 'unmatched' | 'matched' | 'ignored' | 'all';
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'Equipment', 'Travel', 'Accommodation', 'Food', 'Marketing', 'Software', 'Maintenance', 'Salary', 'Other'
+];
+
+const candidateKey = (candidate: ReconciliationCandidate) => `${candidate.table}:${candidate.id}`;
+
+const formatAmount = (amount: number) => `₹${Number(amount).toLocaleString('en-IN')}`;
+
+const BankReconciliationDialog = ({ open, onOpenChange }: BankReconciliationDialogProps) => {
+  const { toast } = useToast();
+  const { currentFirmId, profile } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [autoMatching, setAutoMatching] = useState(false);
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  const [imports, setImports] = useState<BankStatementImport[]>([]);
+  const [selectedImportId, setSelectedImportId] = useState<string>('');
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [candidates, setCandidates] = useState<ReconciliationCandidate[]>([]);
+  const [openEvents, setOpenEvents] = useState<{ value: string; label: string }[]>([]);
+  const [filter, setFilter] = useState<LineFilter>('unmatched');
+  // Record chosen to match each line with, or event / category to create one in
+  const [matchChoices, setMatchChoices] = useState<Record<string, string>>({});
+  const [createChoices, setCreateChoices] = useState<Record<string, string>>({});
+
+  const selectedImport = useMemo(
+    () => imports.find(item => item.id === selectedImportId),
+    [imports, selectedImportId]
+  );
+
+  const showError = useCallback((title: string, error: unknown, fallback: string) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : (error as { message?: string })?.message || fallback,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Refreshing the list also reloads the selected statement, as its import record is replaced
+  const loadImports = useCallback(async (selectId?: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('bank_statement_imports')
+        .select('*')
+        .eq('firm_id', currentFirmId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+
+      setImports(data || []);
+      setSelectedImportId(current => selectId
+        || (data?.some(item => item.id === current) ? current : data?.[0]?.id)
+        || '');
+    } catch (error) {
+      showError("Error loading statements", error, 'Failed to load bank statements');
+    }
+  }, [currentFirmId, showError]);
+
+  const loadStatement = useCallback(async (statementImport: BankStatementImport) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('bank_statement_lines')
+        .select('*')
+        .eq('import_id', statementImport.id)
+        .order('line_date', { ascending: true });
+
+      if (error) throw error;
+
+      const statementLines = (data || []) as BankStatementLine[];
+      const dates = statementLines.map(line => line.line_date).sort();
+      const periodFrom = statementImport.period_from || dates[0];
+      const periodTo = statementImport.period_to || dates[dates.length - 1];
+
+      const [records, eventsResult] = await Promise.all([
+        periodFrom && periodTo ? fetchReconciliationCandidates(currentFirmId, periodFrom, periodTo) : Promise.resolve([]),
+        supabase
+          .from('events')
+          .select('id, title, event_date, client:clients(name)')
+          .eq('firm_id', currentFirmId)
+          .gt('balance_amount', 0)
+          .order('event_date', { ascending: false })
+      ]);
+
+      if (eventsResult.error) throw eventsResult.error;
+
+      setLines(statementLines);
+      setCandidates(records);
+      setOpenEvents((eventsResult.data || []).map(event => ({
+        value: event.id,
+        label: [event.title, event.client?.name, event.event_date && format(new Date(event.event_date), 'dd MMM yyyy')]
+          .filter(Boolean)
+          .join(' • ')
+      })));
+      setMatchChoices({});
+      setCreateChoices({});
+    } catch (error) {
+      showError("Error loading statement", error, 'Failed to load statement lines');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFirmId, showError]);
+
+  useEffect(() => {
+    if (open && currentFirmId) {
+      loadImports();
+    }
+  }, [open, currentFirmId, loadImports]);
+
+  useEffect(() => {
+    if (open && selectedImport) {
+      loadStatement(selectedImport);
+    }
+  }, [open, selectedImport, loadStatement]);
+
+  // Records already reconciled, by the statement line they are matched with
+  const matchedRecords = useMemo(() => {
+    const byLine = new Map<string, ReconciliationCandidate>();
+    candidates.forEach(candidate => {
+      if (candidate.bank_statement_line_id) byLine.set(candidate.bank_statement_line_id, candidate);
+    });
+    return byLine;
+  }, [candidates]);
+
+  const counts = useMemo(() => ({
+    matched: lines.filter(line => matchedRecords.has(line.id)).length,
+    ignored: lines.filter(line => line.ignored && !matchedRecords.has(line.id)).length,
+    unmatched: lines.filter(line => !line.ignored && !matchedRecords.has(line.id)).length,
+    all: lines.length
+  }), [lines, matchedRecords]);
+
+  const visibleLines = lines.filter(line => {
+    const matched = matchedRecords.has(line.id);
+    if (filter === 'matched') return matched;
+    if (filter === 'ignored') return line.ignored && !matched;
+    if (filter === 'unmatched') return !line.ignored && !matched;
+    return true;
+  });
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const statement = parseBankStatement(await file.text());
+      if (!statement.lines.length) {
+        throw new Error('No transactions were found in this file');
+      }
+
+      const result = await importBankStatement(currentFirmId, file.name, statement, profile?.id);
+
+      toast({
+        title: "Statement imported",
+        description: `${result.imported} transactions from ${statement.bankFormat}`
+          + (result.duplicates ? `, ${result.duplicates} already imported earlier` : ''),
+      });
+
+      await loadImports(result.statementImport.id);
+    } catch (error) {
+      showError("Error importing statement", error, 'Failed to import the bank statement');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    const matches = autoMatchLines(lines, candidates, new Set(matchedRecords.keys()));
+    if (!matches.length) {
+      toast({
+        title: "No matches found",
+        description: "Match the remaining lines by hand or create records from them",
+      });
+      return;
+    }
+
+    setAutoMatching(true);
+    let reconciled = 0;
+    try {
+      for (const { line, candidate } of matches) {
+        await reconcileLine(line.id, candidate.table, candidate.id);
+        reconciled++;
+      }
+    } catch (error) {
+      showError("Error matching lines", error, 'Failed to reconcile statement lines');
+    } finally {
+      setAutoMatching(false);
+    }
+
+    if (reconciled) {
+      toast({
+        title: "Lines matched",
+        description: `${reconciled} statement ${reconciled === 1 ? 'line' : 'lines'} reconciled`,
+      });
+    }
+    if (selectedImport) loadStatement(selectedImport);
+  };
+
+  const runLineAction = async (lineId: string, action: () => Promise<void>, errorTitle: string) => {
+    setBusyLineId(lineId);
+    try {
+      await action();
+      if (selectedImport) await loadStatement(selectedImport);
+    } catch (error) {
+      showError(errorTitle, error, 'Failed to update the statement line');
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const handleMatch = (line: BankStatementLine) => {
+    const candidate = candidates.find(option => candidateKey(option) === matchChoices[line.id]);
+    if (!candidate) return;
+    runLineAction(line.id, () => reconcileLine(line.id, candidate.table, candidate.id), "Error matching line");
+  };
+
+  const handleCreate = (line: BankStatementLine) => {
+    const choice = createChoices[line.id];
+    if (!choice) return;
+    runLineAction(
+      line.id,
+      () => line.direction === 'credit'
+        ? createPaymentFromLine(line, choice)
+        : createExpenseFromLine(line, choice as ExpenseCategory),
+      line.direction === 'credit' ? "Error adding payment" : "Error adding expense"
+    );
+  };
+
+  const handleToggleIgnored = (line: BankStatementLine) => {
+    runLineAction(line.id, async () => {
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({ ignored: !line.ignored })
+        .eq('id', line.id);
+      if (error) throw error;
+    }, "Error updating line");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BankIcon className="h-5 w-5 text-primary" />
+            Bank Reconciliation
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV statement exported from net banking. Credits are matched to payments and client receipts,
+            debits to expenses, salaries and freelancer payments, by amount, date and reference number.
+          </p>
+
+          <div className="flex flex-col md:flex-row gap-3">
+            <Select value={selectedImportId} onValueChange={setSelectedImportId} disabled={!imports.length}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="No statements imported yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {imports.map(item => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.file_name} • {item.bank_format}
+                    {item.period_from && item.period_to
+                      ? ` • ${format(new Date(item.period_from), 'dd MMM')} – ${format(new Date(item.period_to), 'dd MMM yyyy')}`
+                      : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+              <Upload01Icon className="h-4 w-4 mr-2" />
+              {importing ? "Importing..." : "Upload Statement"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+
+          {selectedImport && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2">
+                  {(['unmatched', 'matched', 'ignored', 'all'] as LineFilter[]).map(option => (
+                    <Button
+                      key={option}
+                      size="sm"
+                      variant={filter === option ? 'default' : 'outline'}
+                      onClick={() => setFilter(option)}
+                      className="capitalize"
+                    >
+                      {option} ({counts[option]})
+                    </Button>
+                  ))}
+                </div>
+                <Button onClick={handleAutoMatch} disabled={autoMatching || loading || !counts.unmatched}>
+                  <MagicWand01Icon className="h-4 w-4 mr-2" />
+                  {autoMatching ? "Matching..." : "Auto-match"}
+                </Button>
+              </div>
+
+              {loading ? (
+                <div className="flex items-center justify-center p-8">
+                  <div className="text-center">
+                    <BankIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+                    <p className="text-muted-foreground">Loading statement...</p>
+                  </div>
+                </div>
+              ) : visibleLines.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No {filter === 'all' ? '' : `${filter} `}lines</p>
+              ) : (
+                <div className="space-y-3">
+                  {visibleLines.map(line => {
+                    const matched = matchedRecords.get(line.id);
+                    const lineCandidates = matched || line.ignored ? [] : getLineCandidates(line, candidates);
+                    const busy = busyLineId === line.id;
+
+                    return (
+                      <div key={line.id} className="p-4 border rounded-xl bg-muted/20 space-y-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium break-words">{line.description || 'No narration'}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(line.line_date), 'dd MMM yyyy')}
+                              {line.reference ? ` • Ref ${line.reference}` : ''}
+                            </p>
+                          </div>
+                          <span className={`font-semibold whitespace-nowrap ${line.direction === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                            {line.direction === 'credit' ? '+' : '−'}{formatAmount(line.amount)}
+                          </span>
+                        </div>
+
+                        {matched ? (
+                          <div className="flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Reconciled</Badge>
+                              <span className="text-sm truncate">
+                                {RECONCILABLE_TABLE_LABELS[matched.table]} • {matched.label}
+                                {matched.detail ? ` • ${matched.detail}` : ''}
+                              </span>
+                            </div>
+                            <Button size="sm" variant="outline" onClick={() => runLineAction(line.id, () => unreconcileLine(line.id), "Error unmatching line")} disabled={busy}>
+                              <Unlink01Icon className="h-4 w-4 mr-1" />
+                              Unmatch
+                            </Button>
+                          </div>
+                        ) : line.ignored ? (
+                          <div className="flex items-center justify-between gap-3">
+                            <Badge variant="secondary">Ignored</Badge>
+                            <Button size="sm" variant="outline" onClick={() => handleToggleIgnored(line)} disabled={busy}>
+                              <ViewIcon className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div className="flex gap-2">
+                              <Select
+                                value={matchChoices[line.id] || ''}
+                                onValueChange={(value) => setMatchChoices(prev => ({ ...prev, [line.id]: value }))}
+                                disabled={!lineCandidates.length}
+                              >
+                                <SelectTrigger className="flex-1 min-w-0">
+                                  <SelectValue placeholder={lineCandidates.length ? 'Match with...' : 'No record with this amount'} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {lineCandidates.map(candidate => (
+                                    <SelectItem key={candidateKey(candidate)} value={candidateKey(candidate)}>
+                                      {format(new Date(candidate.date), 'dd MMM')} • {RECONCILABLE_TABLE_LABELS[candidate.table]} • {candidate.label}
+                                      {candidate.detail ? ` • ${candidate.detail}` : ''}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button size="sm" className="h-10" onClick={() => handleMatch(line)} disabled={busy || !matchChoices[line.id]}>
+                                <Link01Icon className="h-4 w-4 mr-1" />
+                                Match
+                              </Button>
+                            </div>
+
+                            <div className="flex gap-2">
+                              <div className="flex-1 min-w-0">
+                                {line.direction === 'credit' ? (
+                                  <SearchableSelect
+                                    value={createChoices[line.id] || ''}
+                                    onValueChange={(value) => setCreateChoices(prev => ({ ...prev, [line.id]: value }))}
+                                    options={openEvents}
+                                    placeholder="New payment for event..."
+                                    searchPlaceholder="Search events..."
+                                  />
+                                ) : (
+                                  <Select
+                                    value={createChoices[line.id] || ''}
+                                    onValueChange={(value) => setCreateChoices(prev => ({ ...prev, [line.id]: value }))}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="New expense in..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {EXPENSE_CATEGORIES.map(category => (
+                                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                              </div>
+                              <Button size="sm" variant="outline" className="h-10" onClick={() => handleCreate(line)} disabled={busy || !createChoices[line.id]}>
+                                <Add01Icon className="h-4 w-4 mr-1" />
+                                Create
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-10"
+                                onClick={() => handleToggleIgnored(line)}
+                                disabled={busy}
+                                title="Ignore this line, e.g. a transfer between the firm's own accounts"
+                              >
+                                <ViewOffIcon className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankReconciliationDialog;
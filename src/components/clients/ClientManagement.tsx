@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { Add01Icon, Call02Icon, Mail01Icon, Location01Icon } from 'hugeicons-react';
@@ -24,6 +26,8 @@ import { UniversalFilterBar } from '@/components/common/UniversalFilterBar';
 import { UniversalPagination } from '@/components/common/UniversalPagination';
 import { useBackendFilters } from '@/hooks/useBackendFilters';
 import { FILTER_CONFIGS } from '@/config/filter-configs';
+import { moveToTrash } from '@/lib/trash-utils';
+import { GST_STATES, getStateCodeFromGstin, isValidGstin } from '@/lib/gst-utils';
 
 interface ClientFormData {
   name: string;
@@ -31,6 +35,9 @@ interface ClientFormData {
   email: string;
   address: string;
   notes: string;
+  gstin: string;
+  state_code: string;
+  payment_reminders_opt_out: boolean;
 }
 
 const ClientManagement = () => {
@@ -59,7 +66,10 @@ const ClientManagement = () => {
     phone: '',
     email: '',
     address: '',
-    notes: ''
+    notes: '',
+    gstin: '',
+    state_code: '',
+    payment_reminders_opt_out: false
   });
   const { toast } = useToast();
   const { validateClientDeletion } = useDeletionValidation();
@@ -136,6 +146,15 @@ const ClientManagement = () => {
       return;
     }
 
+    if (formData.gstin.trim() && !isValidGstin(formData.gstin)) {
+      toast({
+        title: "Validation Error",
+        description: "GSTIN must be 15 characters, e.g. 27ABCDE1234F1Z5",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!currentFirmId) {
       toast({
         title: "Error",
@@ -151,6 +170,8 @@ const ClientManagement = () => {
     try {
       const clientData = {
         ...formData,
+        gstin: formData.gstin.trim().toUpperCase() || null,
+        state_code: formData.state_code || null,
         firm_id: currentFirmId,
       };
 
@@ -231,7 +252,10 @@ const ClientManagement = () => {
       phone: client.phone,
       email: client.email || '',
       address: client.address || '',
-      notes: client.notes || ''
+      notes: client.notes || '',
+      gstin: client.gstin || '',
+      state_code: client.state_code || '',
+      payment_reminders_opt_out: client.payment_reminders_opt_out ?? false
     });
     setIsDialogOpen(true);
   };
@@ -259,7 +283,7 @@ const ClientManagement = () => {
       setConfirmDialog({
         open: true,
         title: validation.title,
-        description: `You are about to permanently delete "${client.name}". This action cannot be undone and will permanently remove all client information including contact details and history.`,
+        description: `You are about to delete "${client.name}". The client moves to Trash, where it can be restored until it is purged.`,
         variant: 'destructive',
         requireTextConfirmation: false,
         confirmationKeyword: '',
@@ -285,19 +309,12 @@ const ClientManagement = () => {
               }
             }
 
-            // STEP 2: Delete from database
-            const { error: dbError } = await supabase
-              .from('clients')
-              .delete()
-              .eq('id', client.id);
-
-            if (dbError) {
-              throw dbError;
-            }
+            // STEP 2: Move to Trash
+            await moveToTrash('clients', client.id);
 
             toast({
-              title: "Client Deleted",
-              description: "Client has been deleted from both database and Google Sheets",
+              title: "Client Moved to Trash",
+              description: "Client was removed from Google Sheets and can be restored from Trash",
             });
             filterState.refetch();
           } catch (error: any) {
@@ -327,7 +344,10 @@ const ClientManagement = () => {
       phone: '',
       email: '',
       address: '',
-      notes: ''
+      notes: '',
+      gstin: '',
+      state_code: '',
+      payment_reminders_opt_out: false
     });
     setEditingClient(null);
   };
@@ -341,7 +361,10 @@ const ClientManagement = () => {
         phone: '',
         email: '',
         address: '',
-        notes: ''
+        notes: '',
+        gstin: '',
+        state_code: '',
+        payment_reminders_opt_out: false
       });
     } else if (editingClient && isDialogOpen) {
       // Only populate form when dialog is open and client is being edited
@@ -350,7 +373,10 @@ const ClientManagement = () => {
         phone: editingClient.phone,
         email: editingClient.email || '',
         address: editingClient.address || '',
-        notes: editingClient.notes || ''
+        notes: editingClient.notes || '',
+        gstin: editingClient.gstin || '',
+        state_code: editingClient.state_code || '',
+        payment_reminders_opt_out: editingClient.payment_reminders_opt_out ?? false
       });
     }
   }, [isDialogOpen, editingClient]);
@@ -448,6 +474,43 @@ const ClientManagement = () => {
                         onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="gstin">GSTIN</Label>
+                      <Input
+                        id="gstin"
+                        placeholder="For business clients"
+                        value={formData.gstin}
+                        maxLength={15}
+                        onChange={(e) => {
+                          const gstin = e.target.value.toUpperCase();
+                          setFormData({ ...formData, gstin, state_code: getStateCodeFromGstin(gstin) || formData.state_code });
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>State</Label>
+                      <Select value={formData.state_code || undefined} onValueChange={(value) => setFormData({ ...formData, state_code: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Place of supply for GST" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GST_STATES.map(state => (
+                            <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center justify-between gap-3 rounded-lg border p-3 md:col-span-2">
+                      <div>
+                        <Label htmlFor="payment-reminders">Payment reminders</Label>
+                        <p className="text-xs text-muted-foreground">Send automatic WhatsApp reminders when a payment is due</p>
+                      </div>
+                      <Switch
+                        id="payment-reminders"
+                        checked={!formData.payment_reminders_opt_out}
+                        onCheckedChange={(checked) => setFormData({ ...formData, payment_reminders_opt_out: !checked })}
+                      />
+                    </div>
                     <div className="space-y-2 md:col-span-2">
                       <Label htmlFor="notes">Notes</Label>
                       <Textarea
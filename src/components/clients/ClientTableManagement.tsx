@@ -21,6 +21,7 @@ import { EmptyState } from '@/components/ui/empty-state';
 import { useDeletionValidation } from '@/hooks/useDeletionValidation';
 import { useSubscriptionAccess } from '@/hooks/useSubscriptionAccess';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { moveToTrash } from '@/lib/trash-utils';
 
 interface ClientFormData {
   name: string;
@@ -283,7 +284,7 @@ const ClientTableManagement = () => {
       setConfirmDialog({
         open: true,
         title: validation.title,
-        description: `You are about to permanently delete "${client.name}". This action cannot be undone and will permanently remove all client information including contact details and history.`,
+        description: `You are about to delete "${client.name}". The client moves to Trash, where it can be restored until it is purged.`,
         variant: 'destructive',
         requireTextConfirmation: true,
         confirmationKeyword: 'DELETE',
@@ -309,19 +310,12 @@ const ClientTableManagement = () => {
               }
             }
 
-            // STEP 2: Delete from database
-            const { error: dbError } = await supabase
-              .from('clients')
-              .delete()
-              .eq('id', client.id);
-
-            if (dbError) {
-              throw dbError;
-            }
+            // STEP 2: Move to Trash
+            await moveToTrash('clients', client.id);
 
             toast({
-              title: "Client Deleted",
-              description: "Client has been deleted from both database and Google Sheets",
+              title: "Client Moved to Trash",
+              description: "Client was removed from Google Sheets and can be restored from Trash",
             });
             loadClients();
           } catch (error: any) {
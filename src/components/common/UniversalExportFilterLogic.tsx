@@ -1,6 +1,7 @@
 import { FILTER_CONFIGS } from '@/config/filter-configs';
 import { quotationRequiresRole } from '@/lib/event-quotation-utils';
 import { isCrewIncomplete } from '@/lib/crew-completeness-utils';
+import { parseEventTypeFilterKey } from '@/lib/event-type-utils';
 
 /**
  * Universal filter logic that uses the same backend filter configurations
@@ -116,6 +117,11 @@ const applyEventRoleFilter = (data: any[], selectedValue: string): any[] => {
 // Removed - now handled directly in applyUniversalFilter using isCrewIncomplete
 
 const applyEventTypeFilter = (data: any[], selectedValue: string): any[] => {
+  const catalogueEventType = parseEventTypeFilterKey(selectedValue);
+  if (catalogueEventType !== null) {
+    return data.filter(item => item.event_type === catalogueEventType);
+  }
+
   switch (selectedValue) {
     case 'wedding':
       return data.filter(item => item.event_type === 'Wedding');
@@ -140,6 +146,11 @@ const applyBackendFilter = (data: any[], filterType: string, selectedValue: stri
 const applyStatusFilter = (item: any, filterKey: string): boolean => {
   const today = new Date();
   const todayStr = today.toISOString().split('T')[0];
+
+  const catalogueEventType = parseEventTypeFilterKey(filterKey);
+  if (catalogueEventType !== null) {
+    return item.event_type === catalogueEventType;
+  }
   
   switch (filterKey) {
     // Client filters
@@ -170,6 +181,15 @@ const applyStatusFilter = (item: any, filterKey: string): boolean => {
     case 'others':
       return item.event_type === 'Others';
 
+    // Event lifecycle status filters
+    case 'status_quotation':
+    case 'status_confirmed':
+    case 'status_shooting':
+    case 'status_editing':
+    case 'status_delivered':
+    case 'status_cancelled':
+      return (item.status || 'Confirmed').toLowerCase() === filterKey.replace('status_', '');
+
     // Event status filters
     case 'upcoming':
       if (item.event_date) {
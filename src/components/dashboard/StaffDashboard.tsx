@@ -18,6 +18,7 @@ import {
   Download
 } from 'lucide-react';
 import StaffDetailedStatCard from './StaffDetailedStatCard';
+import StaffLeaveCard from './StaffLeaveCard';
 import { generateStaffDashboardPDF } from './StaffDashboardPDF';
 import { useToast } from '@/hooks/use-toast';
 
@@ -355,6 +356,9 @@ const StaffDashboard = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Leave requests */}
+      <StaffLeaveCard />
     </div>
   );
 };
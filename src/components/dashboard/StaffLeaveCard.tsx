@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useStaffUnavailability } from '@/hooks/useStaffUnavailability';
+import { deleteUnavailability } from '@/lib/staff-unavailability-utils';
+import { formatSessionDate } from '@/lib/event-session-utils';
+import UnavailabilityRequestDialog from '@/components/staff/UnavailabilityRequestDialog';
+
+/**
+ * The signed-in staff member's leave requests, with a button to request more
+ */
+const StaffLeaveCard = () => {
+  const { toast } = useToast();
+  const { blocks, refetch } = useStaffUnavailability();
+  const [requestOpen, setRequestOpen] = useState(false);
+
+  const handleWithdraw = async (id: string) => {
+    try {
+      await deleteUnavailability(id);
+      toast({ title: "Leave request withdrawn" });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error withdrawing request",
+        description: error instanceof Error ? error.message : 'Failed to withdraw the request',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="rounded-3xl">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg font-bold">
+          <CalendarOff className="h-5 w-5" />
+          Leave
+        </CardTitle>
+        <Button size="sm" variant="outline" className="rounded-full" onClick={() => setRequestOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Request Leave
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {blocks.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8 text-sm">No leave requested</p>
+        ) : (
+          <div className="space-y-2">
+            {blocks.slice(0, 5).map(block => (
+              <div key={block.id} className="p-3 border rounded-2xl flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm">
+                    {formatSessionDate(block.start_date)}
+                    {block.end_date !== block.start_date && ` – ${formatSessionDate(block.end_date)}`}
+                  </p>
+                  {block.reason && <p className="text-xs text-muted-foreground truncate">{block.reason}</p>}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge variant={block.approved ? 'default' : 'secondary'}>
+                    {block.approved ? 'Approved' : 'Pending'}
+                  </Badge>
+                  {!block.approved && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleWithdraw(block.id)}
+                      aria-label="Withdraw request"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <UnavailabilityRequestDialog open={requestOpen} onOpenChange={setRequestOpen} onSuccess={refetch} />
+    </Card>
+  );
+};
+
+export default StaffLeaveCard;
@@ -15,26 +15,44 @@ import { Calendar03Icon, UserGroupIcon, Camera02Icon, VideoReplayIcon, AdobePrem
 import { Switch } from '@/components/ui/switch';
 import { InlineDatePicker } from '@/components/ui/inline-date-picker';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Event, Client, EventFormData, Quotation } from '@/types/studio';
+import { Event, Client, EventFormData, Quotation, EventType, EventTypeCrewTemplate } from '@/types/studio';
 import { sanitizeUuidFields } from '@/lib/uuid-utils';
 import { EnhancedWarningDialog } from '@/components/ui/enhanced-warning-dialog';
 import { UnifiedDialog } from '@/components/ui/unified-dialog';
 import { getQuotationSameDayEditing, parseQuotationDetails } from '@/lib/type-utils';
 import { devError } from '@/lib/cleanup-console-logs';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import { getEventTaxFieldsFromQuotation } from '@/lib/gst-utils';
 
-import type { Database } from '@/integrations/supabase/types';
 import { useGoogleSheetsSync } from '@/hooks/useGoogleSheetsSync';
 import { useStaffAssignments } from './hooks/useStaffAssignments';
 import SmartClientQuotationSelector from './SmartClientQuotationSelector';
 import { DEFAULT_PAYMENT_METHOD, getPaymentMethodOptions, PaymentMethod } from '@/lib/payment-method-validator';
 import { useEventUpdateNotifications } from '@/hooks/useEventUpdateNotifications';
-import { getPersonConflictDetails, calculateEventDateRange } from '@/lib/staff-availability-utils';
+import { getPersonConflictDetails, calculateEventDateRange, SessionWindow } from '@/lib/staff-availability-utils';
 import { useRealTimeConflictDetection } from '@/hooks/useRealTimeConflictDetection';
 import { StaffAssignmentConflictDialog } from '@/components/ui/staff-assignment-conflict-dialog';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { findEventType, getEventTypeOptions } from '@/lib/event-type-utils';
+import EventSessionsEditor from './EventSessionsEditor';
+import {
+  EventSessionDraft,
+  getSessionDayNumber,
+  getSessionLabel,
+  saveEventSessions,
+  sortSessions
+} from '@/lib/event-session-utils';
+import {
+  SeriesEditScope,
+  applySeriesUpdate,
+  getSeriesSharedChanges,
+  markSeriesException,
+  syncSeriesOccurrences
+} from '@/lib/event-series-utils';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 
 
 
-type EventType = Database['public']['Enums']['event_type'];
 
 interface Staff {
   id: string;
@@ -51,20 +69,13 @@ interface CleanEventFormDialogProps {
   onSuccess: () => void;
 }
 
-const EVENT_TYPES: { value: EventType; label: string }[] = [
-  { value: 'Ring-Ceremony', label: 'Ring-Ceremony' },
-  { value: 'Pre-Wedding', label: 'Pre-Wedding' },
-  { value: 'Wedding', label: 'Wedding' },
-  { value: 'Maternity Photography', label: 'Maternity Photography' },
-  { value: 'Others', label: 'Others' }
-];
-
 const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSuccess }: CleanEventFormDialogProps) => {
   const currentEvent = editingEvent || event;
   const { profile, currentFirmId } = useAuth();
   const { toast } = useToast();
   const { sendEventUpdateNotifications } = useEventUpdateNotifications();
   const { syncItemToSheets } = useGoogleSheetsSync();
+  const { eventTypes } = useFirmEventTypes();
   
   const [loading, setLoading] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
@@ -103,6 +114,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
   const [duplicateEventInfo, setDuplicateEventInfo] = useState<{ eventType: string; clientName: string } | null>(null);
   const [pendingSubmit, setPendingSubmit] = useState(false);
   const [confirmUpdateOpen, setConfirmUpdateOpen] = useState(false);
+  const [seriesEditScope, setSeriesEditScope] = useState<SeriesEditScope>('occurrence');
   // Check if quotation has same day editing enabled
   const quotationHasSameDayEditing = getQuotationSameDayEditing(selectedQuotation?.quotation_details as string);
 
@@ -112,8 +124,12 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
     currentEvent?.id
   );
 
+  const [sessions, setSessions] = useState<EventSessionDraft[]>([]);
+
+  // Crew blocks are per day, or per session when the event is split into sessions
   const [multiDayAssignments, setMultiDayAssignments] = useState<Array<{
     day: number;
+    session_id?: string;
     photographer_ids: string[];
     cinematographer_ids: string[];
     drone_pilot_ids: string[];
@@ -121,6 +137,80 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
     other_crew_ids: string[];
   }>>([]);
 
+  // Empty slots for a manual event day, sized from the event type's default crew template
+  const buildManualDaySlots = (day: number, crew: EventTypeCrewTemplate = {}) => ({
+    day,
+    photographer_ids: Array(Math.max(1, crew.photographers || 0)).fill(''),
+    cinematographer_ids: Array(Math.max(1, crew.cinematographers || 0)).fill(''),
+    drone_pilot_ids: Array(crew.drone || 0).fill(''),
+    same_day_editor_ids: Array(crew.sameDayEditors || 0).fill(''),
+    other_crew_ids: [] as string[]
+  });
+
+  const handleEventTypeChange = (value: EventType) => {
+    setFormData(prev => ({ ...prev, event_type: value }));
+
+    // Only pre-fill crew for new manual events that have no one assigned yet
+    const hasAssignedCrew = multiDayAssignments.some(day =>
+      [...day.photographer_ids, ...day.cinematographer_ids, ...day.drone_pilot_ids, ...day.same_day_editor_ids, ...day.other_crew_ids]
+        .some(id => id)
+    );
+    if (currentEvent || selectedQuotation || hasAssignedCrew) return;
+
+    const crew = findEventType(eventTypes, value)?.default_crew;
+    if (crew?.sameDayEditors) {
+      setExtendedData(prev => ({ ...prev, same_day_editor: true }));
+    }
+    setMultiDayAssignments(
+      Array.from({ length: Math.max(1, extendedData.total_days) }, (_, i) => buildManualDaySlots(i + 1, crew))
+    );
+  };
+
+  const getBlockSession = (block: { session_id?: string }) =>
+    block.session_id ? sessions.find(session => session.id === block.session_id) : undefined;
+
+  const getBlockTitle = (block: { day: number; session_id?: string }) => {
+    const session = getBlockSession(block);
+    return session ? getSessionLabel(session) : `Day ${block.day}`;
+  };
+
+  const handleSessionsChange = (nextSessions: EventSessionDraft[]) => {
+    setSessions(nextSessions);
+
+    if (nextSessions.length === 0) {
+      setMultiDayAssignments(prev => buildDayAssignments(extendedData.total_days, prev.filter(block => !block.session_id)));
+      return;
+    }
+
+    const crew = findEventType(eventTypes, formData.event_type)?.default_crew;
+    setMultiDayAssignments(prev => {
+      const hasSessionBlocks = prev.some(block => block.session_id);
+      return sortSessions(nextSessions).map((session, index) => {
+        // The first session on a day inherits crew already picked for that day
+        const existing = prev.find(block => block.session_id === session.id) ||
+          (!hasSessionBlocks ? prev.find(block => block.day === getSessionDayNumber(formData.event_date, session.session_date)) : undefined);
+        return { ...(existing || buildManualDaySlots(index + 1, crew)), day: index + 1, session_id: session.id };
+      });
+    });
+  };
+
+  const handleEventDateChange = (eventDate: string) => {
+    const previousDate = formData.event_date;
+    setFormData(prev => ({ ...prev, event_date: eventDate }));
+
+    // Keep sessions on the same event day when the event moves
+    if (previousDate && eventDate && sessions.length > 0) {
+      const shift = new Date(`${eventDate}T00:00:00`).getTime() - new Date(`${previousDate}T00:00:00`).getTime();
+      setSessions(prev => prev.map(session => {
+        const date = new Date(new Date(`${session.session_date}T00:00:00`).getTime() + shift);
+        return {
+          ...session,
+          session_date: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+        };
+      }));
+    }
+  };
+
   // Combine staff and freelancers, then filter by role - more inclusive filtering
   const allCombinedPeople = useMemo(() => [
     ...(allStaff || []).map(s => ({ ...s, source: 'staff' })),
@@ -320,6 +410,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
         .select(`
           *,
           client:clients(*),
+          event_sessions(*),
           event_staff_assignments(
             *,
             staff:profiles(id, full_name, role),
@@ -383,6 +474,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
         advance_payment_method: (completeEvent as any).advance_payment_method || (DEFAULT_PAYMENT_METHOD as PaymentMethod),
       });
 
+      setSessions(sortSessions(completeEvent.event_sessions || []));
+
       // Store quotation details in currentEvent for use in assignment processing
       if (quotationDetails) {
         (completeEvent as any).quotation_details = quotationDetails;
@@ -413,6 +506,15 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
 
   const processExistingStaffAssignments = async (assignments: any[], eventData?: any) => {
     // Processing existing staff assignments
+
+    // Session-based events get one crew block per session
+    if (eventData?.event_sessions?.length > 0) {
+      setMultiDayAssignments(buildSessionAssignments(sortSessions(eventData.event_sessions), assignments));
+      if (assignments.some(a => a.role === 'Same Day Editor')) {
+        setExtendedData(prev => ({ ...prev, same_day_editor: true }));
+      }
+      return;
+    }
     
     // Group assignments by day and role, handling both staff and freelancers
     const groupedByDay = new Map();
@@ -556,6 +658,44 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
         }
   };
 
+  const buildSessionAssignments = (
+    orderedSessions: EventSessionDraft[],
+    assignments: Array<{ session_id?: string | null; staff_id?: string | null; freelancer_id?: string | null; role: string }>
+  ) => {
+    const roleKeys: Record<string, 'photographer_ids' | 'cinematographer_ids' | 'drone_pilot_ids' | 'same_day_editor_ids' | 'other_crew_ids'> = {
+      'Photographer': 'photographer_ids',
+      'Cinematographer': 'cinematographer_ids',
+      'Drone Pilot': 'drone_pilot_ids',
+      'Editor': 'same_day_editor_ids',
+      'Same Day Editor': 'same_day_editor_ids',
+      'Other': 'other_crew_ids'
+    };
+
+    return orderedSessions.map((session, index) => {
+      const block = {
+        day: index + 1,
+        session_id: session.id,
+        photographer_ids: [] as string[],
+        cinematographer_ids: [] as string[],
+        drone_pilot_ids: [] as string[],
+        same_day_editor_ids: [] as string[],
+        other_crew_ids: [] as string[]
+      };
+
+      assignments
+        .filter(assignment => assignment.session_id === session.id)
+        .forEach(assignment => {
+          const assigneeId = assignment.staff_id || assignment.freelancer_id;
+          const key = roleKeys[assignment.role];
+          if (assigneeId && key) block[key].push(assigneeId);
+        });
+
+      if (block.photographer_ids.length === 0) block.photographer_ids.push('');
+      if (block.cinematographer_ids.length === 0) block.cinematographer_ids.push('');
+      return block;
+    });
+  };
+
   const loadEventStaffAssignments = async (eventId: string) => {
     try {
       const { data, error } = await supabase
@@ -675,8 +815,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
       advance_payment_method: DEFAULT_PAYMENT_METHOD as PaymentMethod,
     });
     
+    setSessions([]);
     setMultiDayAssignments([
-      { day: 1, photographer_ids: [''], cinematographer_ids: [''], drone_pilot_ids: [''], same_day_editor_ids: [], other_crew_ids: [] }
+      buildManualDaySlots(1, findEventType(eventTypes, 'Wedding')?.default_crew || { drone: 1 })
     ]);
   };
 
@@ -726,9 +867,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
         event_date: quotation.event_date,
         venue: quotation.venue || '',
         description: quotation.description || '',
-        total_amount: (quotation.discount_amount && quotation.discount_amount > 0) 
-          ? (quotation.amount - quotation.discount_amount) 
-          : quotation.amount,
+        total_amount: getQuotationFinalAmount(quotation),
       }));
 
       setExtendedData(prev => ({
@@ -758,6 +897,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
           other_crew_ids: [],
         });
       }
+      setSessions([]);
       setMultiDayAssignments(dayAssignments);
     }
   };
@@ -794,6 +934,15 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
       return false;
     }
 
+    if (sessions.some(session => !session.name.trim())) {
+      toast({
+        title: "Validation Error",
+        description: "Every session needs a name",
+        variant: "destructive",
+      });
+      return false;
+    }
+
     // Validate advance amount vs total bill
     if (extendedData.advance_amount > formData.total_amount) {
       setShowAdvanceWarning(true);
@@ -849,6 +998,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
 
     // Show confirmation dialog only when editing
     if (currentEvent) {
+      setSeriesEditScope('occurrence');
       setConfirmUpdateOpen(true);
       return;
     }
@@ -883,11 +1033,14 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
           (selectedQuotation?.id || existingQuotation?.id || (currentEvent as any)?.quotation_source_id || null) :
           (selectedQuotation?.id || null),
         total_days: extendedData.total_days,
+        // GST carried over from the quotation a new event is created from
+        ...(!currentEvent && selectedQuotation ? getEventTaxFieldsFromQuotation(selectedQuotation) : {}),
         // Same day editor is now handled within staff assignments
         advance_payment_method: extendedData.advance_payment_method,
       };
 
       let result;
+      let seriesEventIds: string[] = [];
       if (currentEvent) {
         const { data, error } = await supabase
           .from('events')
@@ -918,9 +1071,27 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
           });
         }
         
+        // Sessions first - removed sessions cascade to their crew assignments
+        await saveEventSessions(result.id, currentFirmId, sessions);
+
         // Save integrated staff assignments (including same day editors)
         
         await saveStaffAssignments(result.id);
+
+        // Recurring occurrence: carry shared edits to later occurrences, or detach this one
+        if (currentEvent.series_id) {
+          const seriesChanges = getSeriesSharedChanges(currentEvent, eventData);
+          if (seriesEditScope !== 'occurrence') {
+            seriesEventIds = await applySeriesUpdate(
+              currentEvent.series_id,
+              seriesEditScope === 'following' ? currentEvent.event_date : null,
+              seriesChanges,
+              currentEvent.id
+            );
+          } else if (Object.keys(seriesChanges).length > 0 || currentEvent.event_date !== eventData.event_date) {
+            await markSeriesException(currentEvent.id);
+          }
+        }
         
       } else {
         const { data, error } = await supabase
@@ -932,6 +1103,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
         if (error) throw error;
         result = data;
 
+        // Sessions must exist before assignments can reference them
+        await saveEventSessions(result.id, currentFirmId, sessions);
+
         // Critical operations only - staff assignments and quotation conversion
         await Promise.all([
           saveStaffAssignments(result.id),
@@ -1013,7 +1187,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             import('@/services/syncCoordinator').then(({ syncEvent }) => {
               syncEvent(result.id, result.firm_id, currentEvent ? 'update' : 'create', 'event-form');
             }),
-            sendEventNotifications(result.id, formData.title)
+            sendEventNotifications(result.id, formData.title),
+            syncSeriesOccurrences(seriesEventIds, result.firm_id)
           ]);
           
           // Background operations completed
@@ -1207,6 +1382,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
           freelancer_id, 
           role, 
           day_number,
+          session_id,
           staff:profiles(id, full_name, role, mobile_number),
           freelancer:freelancers(id, full_name, role, phone, email)
         `)
@@ -1219,7 +1395,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
       // Create a set of existing assignment keys for comparison
       const existingAssignmentKeys = new Set(
         (existingAssignments || []).map(a => 
-          `${a.staff_id || a.freelancer_id}-${a.role}-${a.day_number}`
+          `${a.staff_id || a.freelancer_id}-${a.role}-${a.day_number}-${a.session_id || ''}`
         )
       );
       
@@ -1251,6 +1427,14 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
         const dayDate = new Date(eventDate);
         dayDate.setDate(eventDate.getDate() + (dayAssignment.day - 1));
 
+        // Session blocks take their day from the session rather than their position
+        const session = getBlockSession(dayAssignment);
+        const dayNumber = session ? getSessionDayNumber(formData.event_date, session.session_date) : dayAssignment.day;
+        const dayDateString = session
+          ? session.session_date
+          : `${dayDate.getFullYear()}-${String(dayDate.getMonth() + 1).padStart(2, '0')}-${String(dayDate.getDate()).padStart(2, '0')}`;
+        const sessionId = session?.id || null;
+
         // Add all photographers for this day (filter out empty strings and validate IDs)
         const validPhotographerIds = dayAssignment.photographer_ids.filter(id => id && id.trim() !== '');
         // Valid photographer IDs processed
@@ -1267,8 +1451,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
               freelancer_id: isFreelancer ? photographerId : null,
               staff_type: isFreelancer ? 'freelancer' : 'staff',
               role: 'Photographer',
-              day_number: dayAssignment.day,
-              day_date: `${dayDate.getFullYear()}-${String(dayDate.getMonth() + 1).padStart(2, '0')}-${String(dayDate.getDate()).padStart(2, '0')}`,
+              day_number: dayNumber,
+              day_date: dayDateString,
+              session_id: sessionId,
               firm_id: currentFirmId,
             });
           } else {
@@ -1292,8 +1477,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
               freelancer_id: isFreelancer ? cinematographerId : null,
               staff_type: isFreelancer ? 'freelancer' : 'staff',
               role: 'Cinematographer',
-              day_number: dayAssignment.day,
-              day_date: `${dayDate.getFullYear()}-${String(dayDate.getMonth() + 1).padStart(2, '0')}-${String(dayDate.getDate()).padStart(2, '0')}`,
+              day_number: dayNumber,
+              day_date: dayDateString,
+              session_id: sessionId,
               firm_id: currentFirmId,
             });
           } else {
@@ -1315,8 +1501,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
               freelancer_id: isFreelancer ? crewId : null,
               staff_type: isFreelancer ? 'freelancer' : 'staff',
               role: 'Other',
-              day_number: dayAssignment.day,
-              day_date: `${dayDate.getFullYear()}-${String(dayDate.getMonth() + 1).padStart(2, '0')}-${String(dayDate.getDate()).padStart(2, '0')}`,
+              day_number: dayNumber,
+              day_date: dayDateString,
+              session_id: sessionId,
               firm_id: currentFirmId,
             });
           }
@@ -1336,8 +1523,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
               freelancer_id: isFreelancer ? dronePilotId : null,
               staff_type: isFreelancer ? 'freelancer' : 'staff',
               role: 'Drone Pilot',
-              day_number: dayAssignment.day,
-              day_date: `${dayDate.getFullYear()}-${String(dayDate.getMonth() + 1).padStart(2, '0')}-${String(dayDate.getDate()).padStart(2, '0')}`,
+              day_number: dayNumber,
+              day_date: dayDateString,
+              session_id: sessionId,
               firm_id: currentFirmId,
             });
           } else {
@@ -1361,8 +1549,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
               freelancer_id: isFreelancer ? editorId : null,
               staff_type: isFreelancer ? 'freelancer' : 'staff',
               role: 'Same Day Editor',
-              day_number: dayAssignment.day,
-              day_date: `${dayDate.getFullYear()}-${String(dayDate.getMonth() + 1).padStart(2, '0')}-${String(dayDate.getDate()).padStart(2, '0')}`,
+              day_number: dayNumber,
+              day_date: dayDateString,
+              session_id: sessionId,
               firm_id: currentFirmId,
             });
           } else {
@@ -1375,17 +1564,17 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
 
       // Track newly added assignments for notifications
       const newAssignments = assignments.filter(assignment => {
-        const assignmentKey = `${assignment.staff_id || assignment.freelancer_id}-${assignment.role}-${assignment.day_number}`;
+        const assignmentKey = `${assignment.staff_id || assignment.freelancer_id}-${assignment.role}-${assignment.day_number}-${assignment.session_id || ''}`;
         return !existingAssignmentKeys.has(assignmentKey);
       });
 
       // Track removed assignments for unassignment notifications
       const newAssignmentKeys = new Set(
-        assignments.map(a => `${a.staff_id || a.freelancer_id}-${a.role}-${a.day_number}`)
+        assignments.map(a => `${a.staff_id || a.freelancer_id}-${a.role}-${a.day_number}-${a.session_id || ''}`)
       );
       
       const removedAssignments = (existingAssignments || []).filter(assignment => {
-        const assignmentKey = `${assignment.staff_id || assignment.freelancer_id}-${assignment.role}-${assignment.day_number}`;
+        const assignmentKey = `${assignment.staff_id || assignment.freelancer_id}-${assignment.role}-${assignment.day_number}-${assignment.session_id || ''}`;
         return !newAssignmentKeys.has(assignmentKey);
       });
 
@@ -1483,16 +1672,29 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
       return;
     }
 
-    // Calculate date for this specific day
+    // Calculate date for this specific day (or the block's session)
+    const targetSession = getBlockSession(multiDayAssignments.find(a => a.day === day) || {});
     const eventStartDate = new Date(formData.event_date);
     const dayDate = new Date(eventStartDate.getTime() + (day - 1) * 24 * 60 * 60 * 1000);
-    const dayDateString = dayDate.toISOString().split('T')[0];
+    const dayDateString = targetSession?.session_date || dayDate.toISOString().split('T')[0];
+    const sessionWindow: SessionWindow | undefined = targetSession
+      ? {
+          date: targetSession.session_date,
+          startTime: targetSession.start_time,
+          endTime: targetSession.end_time,
+          venue: targetSession.venue || formData.venue
+        }
+      : undefined;
 
     // Convert current multiDayAssignments to StaffAssignment format
     const currentAssignments = multiDayAssignments.flatMap(dayAssignment => {
       const assignments = [];
+      const session = getBlockSession(dayAssignment);
       const dayDate = new Date(new Date(formData.event_date).getTime() + (dayAssignment.day - 1) * 24 * 60 * 60 * 1000);
-      const dayDateString = dayDate.toISOString().split('T')[0];
+      const dayDateString = session?.session_date || dayDate.toISOString().split('T')[0];
+      const sessionFields = session
+        ? { session_id: session.id, start_time: session.start_time, end_time: session.end_time, venue: session.venue || formData.venue }
+        : {};
 
       // Add photographer assignments
       dayAssignment.photographer_ids.forEach(id => {
@@ -1503,7 +1705,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             role: 'Photographer',
             day_number: dayAssignment.day,
             day_date: dayDateString,
-            event_id: currentEvent?.id || 'temp'
+            event_id: currentEvent?.id || 'temp',
+            ...sessionFields
           });
         }
       });
@@ -1517,7 +1720,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             role: 'Cinematographer',
             day_number: dayAssignment.day,
             day_date: dayDateString,
-            event_id: currentEvent?.id || 'temp'
+            event_id: currentEvent?.id || 'temp',
+            ...sessionFields
           });
         }
       });
@@ -1531,7 +1735,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             role: 'Drone Pilot',
             day_number: dayAssignment.day,
             day_date: dayDateString,
-            event_id: currentEvent?.id || 'temp'
+            event_id: currentEvent?.id || 'temp',
+            ...sessionFields
           });
         }
       });
@@ -1545,7 +1750,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             role: 'Same Day Editor',
             day_number: dayAssignment.day,
             day_date: dayDateString,
-            event_id: currentEvent?.id || 'temp'
+            event_id: currentEvent?.id || 'temp',
+            ...sessionFields
           });
         }
       });
@@ -1559,7 +1765,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             role: 'Other',
             day_number: dayAssignment.day,
             day_date: dayDateString,
-            event_id: currentEvent?.id || 'temp'
+            event_id: currentEvent?.id || 'temp',
+            ...sessionFields
           });
         }
       });
@@ -1574,7 +1781,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
       dayDateString,
       1, // Single day check
       currentAssignments,
-      onConfirmAssignment
+      onConfirmAssignment,
+      sessionWindow
     );
   };
 
@@ -1622,11 +1830,26 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
 
   const handleTotalDaysChange = (days: number) => {
     setExtendedData(prev => ({ ...prev, total_days: days }));
-    
-    // Generate assignments based on quotation requirements
-    const newAssignments = [];
+
+    if (sessions.length > 0) {
+      // Drop sessions that fall after the shortened event
+      const lastDay = new Date(`${formData.event_date}T00:00:00`);
+      lastDay.setDate(lastDay.getDate() + days - 1);
+      const remaining = sessions.filter(session => new Date(`${session.session_date}T00:00:00`) <= lastDay);
+      if (remaining.length !== sessions.length) {
+        handleSessionsChange(remaining);
+      }
+      return;
+    }
+
+    setMultiDayAssignments(buildDayAssignments(days, multiDayAssignments));
+  };
+
+  // Generate per-day crew blocks based on quotation requirements, keeping existing days
+  const buildDayAssignments = (days: number, existingAssignments: typeof multiDayAssignments) => {
+    const newAssignments: typeof multiDayAssignments = [];
     for (let i = 1; i <= days; i++) {
-      const existing = multiDayAssignments.find(a => a.day === i);
+      const existing = existingAssignments.find(a => a.day === i);
       if (existing) {
         newAssignments.push(existing);
       } else {
@@ -1642,19 +1865,12 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             other_crew_ids: []
           });
         } else {
-          // For manual events (no quotation), ensure minimum 1 slot for each role
-          newAssignments.push({
-          day: i,
-          photographer_ids: [''],
-          cinematographer_ids: [''],
-          drone_pilot_ids: [],
-          same_day_editor_ids: [],
-          other_crew_ids: []
-          });
+          // For manual events (no quotation), size slots from the event type's default crew
+          newAssignments.push(buildManualDaySlots(i, findEventType(eventTypes, formData.event_type)?.default_crew));
         }
       }
     }
-    setMultiDayAssignments(newAssignments);
+    return newAssignments;
   };
 
   // Legacy same day editor functions removed - now handled per-day in multiDayAssignments
@@ -1761,16 +1977,19 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
                   <Label className="text-sm font-medium">Event Type *</Label>
                    <Select 
                      value={formData.event_type} 
-                     onValueChange={(value) => setFormData({ ...formData, event_type: value as EventType })}
+                     onValueChange={(value) => handleEventTypeChange(value as EventType)}
                       disabled={false}
                    >
                      <SelectTrigger className="rounded-full">
                        <SelectValue />
                      </SelectTrigger>
                      <SelectContent>
-                       {EVENT_TYPES.map((type) => (
+                       {getEventTypeOptions(eventTypes, formData.event_type).map((type) => (
                          <SelectItem key={type.value} value={type.value}>
-                           {type.label}
+                           <span className="flex items-center gap-2">
+                             <span className="h-2 w-2 rounded-full" style={{ backgroundColor: type.color }} />
+                             {type.label}
+                           </span>
                          </SelectItem>
                        ))}
                      </SelectContent>
@@ -1784,7 +2003,7 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
                <div className="space-y-2">
                  <Label className="text-sm font-medium">Event Date *</Label>
                    <InlineDatePicker
-                    onSelect={(date) => setFormData({ ...formData, event_date: date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}` : '' })}
+                    onSelect={(date) => handleEventDateChange(date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}` : '')}
                     value={formData.event_date ? new Date(formData.event_date) : undefined}
                     placeholder="DD/MM/YYYY"
                      disabled={false}
@@ -1842,6 +2061,17 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
                   {/* Empty space for layout balance */}
                 </div>
               </div>
+
+              {/* Fifth Row: Sessions */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Sessions</Label>
+                <EventSessionsEditor
+                  sessions={sessions}
+                  onChange={handleSessionsChange}
+                  eventDate={formData.event_date}
+                  totalDays={extendedData.total_days}
+                />
+              </div>
            </div>
 
           {/* Financial Details Section */}
@@ -1896,7 +2126,8 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
                     <SelectValue placeholder="Select method" />
                   </SelectTrigger>
                   <SelectContent>
-                    {getPaymentMethodOptions().map(({ value, label }) => (
+                    {/* Advances are taken as collected, so cheques go through Payment Collection to be cleared */}
+                    {getPaymentMethodOptions({ includeCheque: false }).map(({ value, label }) => (
                       <SelectItem key={value} value={value}>
                         {label}
                       </SelectItem>
@@ -1917,7 +2148,9 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
           {/* Multi-Day Staff Assignment Section */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-seondary-900 border-b pb-2">
-              Staff Assignment by Day ({extendedData.total_days} {extendedData.total_days === 1 ? 'Day' : 'Days'})
+              {sessions.length > 0
+                ? `Staff Assignment by Session (${sessions.length} ${sessions.length === 1 ? 'Session' : 'Sessions'})`
+                : `Staff Assignment by Day (${extendedData.total_days} ${extendedData.total_days === 1 ? 'Day' : 'Days'})`}
             </h3>
             
             {/* Assignment Options */}
@@ -1979,10 +2212,10 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
             
             <div className="space-y-4">
               {(multiDayAssignments || []).map((dayAssignment) => (
-                <div key={dayAssignment.day} className="border rounded-xl p-4 bg-card shadow-sm">
+                <div key={dayAssignment.session_id || dayAssignment.day} className="border rounded-xl p-4 bg-card shadow-sm">
                   <h4 className="text-base font-semibold mb-3 text-primary flex items-center justify-between">
-                    <span>Day {dayAssignment.day}</span>
-                    {extendedData.total_days > 1 && (
+                    <span>{getBlockTitle(dayAssignment)}</span>
+                    {!dayAssignment.session_id && extendedData.total_days > 1 && (
                       <span className="text-xs text-muted-foreground font-normal bg-white/80 px-2 py-1 rounded-full">
                         {new Date(new Date(formData.event_date).getTime() + (dayAssignment.day - 1) * 24 * 60 * 60 * 1000).toLocaleDateString()}
                       </span>
@@ -2819,6 +3052,26 @@ const CleanEventFormDialog = ({ open, onOpenChange, event, editingEvent, onSucce
           description="Update this event? All changes will be saved and staff will be notified if assignments changed."
           confirmText="Confirm Update"
           cancelText="Cancel"
+          details={currentEvent?.series_id ? (
+            <RadioGroup
+              value={seriesEditScope}
+              onValueChange={(value) => setSeriesEditScope(value as SeriesEditScope)}
+              className="space-y-2"
+            >
+              <Label htmlFor="series-scope-occurrence" className="flex items-center gap-3 px-4 py-3 border rounded-full cursor-pointer text-sm">
+                <RadioGroupItem value="occurrence" id="series-scope-occurrence" />
+                <span className="flex-1">This event only</span>
+              </Label>
+              <Label htmlFor="series-scope-following" className="flex items-center gap-3 px-4 py-3 border rounded-full cursor-pointer text-sm">
+                <RadioGroupItem value="following" id="series-scope-following" />
+                <span className="flex-1">This and following events (title, type, venue, description)</span>
+              </Label>
+              <Label htmlFor="series-scope-all" className="flex items-center gap-3 px-4 py-3 border rounded-full cursor-pointer text-sm">
+                <RadioGroupItem value="all" id="series-scope-all" />
+                <span className="flex-1">All events in the series (title, type, venue, description)</span>
+              </Label>
+            </RadioGroup>
+          ) : undefined}
         />
       </DialogContent>
     </Dialog>
@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { InlineDatePicker } from '@/components/ui/inline-date-picker';
+import { Copy01Icon, UserGroupIcon, Task01Icon, MoneyBag02Icon, HardDriveIcon, Calendar03Icon, Alert02Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { Event } from '@/types/studio';
+import {
+  CloneCrewConflict,
+  ClonePreview,
+  cloneEvent,
+  fetchCloneCrewConflicts,
+  fetchClonePreview,
+  shiftCloneDate
+} from '@/lib/event-clone-utils';
+import { hasHardConflict } from '@/lib/staff-availability-utils';
+import { toDateString } from '@/lib/crew-schedule-utils';
+import { formatSessionDate } from '@/lib/event-session-utils';
+
+interface CloneEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: Event | null;
+  onSuccess?: (eventId: string) => void;
+}
+
+/**
+ * Copy an event to a new date with a preview of the crew, tasks and storage that come
+ * along. Crew and task dates move with the event; payments stay on the original.
+ */
+const CloneEventDialog = ({ open, onOpenChange, event, onSuccess }: CloneEventDialogProps) => {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<ClonePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [eventDate, setEventDate] = useState<Date | undefined>();
+  const [includeCrew, setIncludeCrew] = useState(true);
+  const [includeTasks, setIncludeTasks] = useState(true);
+  const [crewConflicts, setCrewConflicts] = useState<CloneCrewConflict[]>([]);
+  const [allowConflicts, setAllowConflicts] = useState(false);
+
+  useEffect(() => {
+    if (!open || !event) return;
+
+    setTitle(event.title);
+    setEventDate(new Date(`${event.event_date}T00:00:00`));
+    setIncludeCrew(true);
+    setIncludeTasks(true);
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchClonePreview(event.id);
+        if (!cancelled) setPreview(result);
+      } catch (error) {
+        toast({
+          title: "Error loading event",
+          description: error instanceof Error ? error.message : 'Failed to load what will be copied',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, event, toast]);
+
+  const sourceDate = event?.event_date;
+  const firmId = event?.firm_id;
+  const targetDate = eventDate ? toDateString(eventDate) : sourceDate;
+
+  // Copied crew must be free on the new dates; clashes need confirmation, leave drops the slot
+  useEffect(() => {
+    let cancelled = false;
+    setAllowConflicts(false);
+
+    if (!open || !preview || !includeCrew || !sourceDate || !targetDate || !firmId) {
+      setCrewConflicts([]);
+      return;
+    }
+
+    fetchCloneCrewConflicts(preview, sourceDate, targetDate, firmId)
+      .then(result => {
+        if (!cancelled) setCrewConflicts(result);
+      })
+      .catch(error => {
+        console.error('Error checking clone crew conflicts:', error);
+        if (!cancelled) setCrewConflicts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, preview, includeCrew, sourceDate, targetDate, firmId]);
+
+  if (!event) return null;
+
+  const bookingClashes = crewConflicts.filter(conflict => !hasHardConflict(conflict.conflicts));
+  const shift = (date: string | null) => shiftCloneDate(date, event.event_date, targetDate);
+
+  const handleClone = async () => {
+    if (!title.trim()) return;
+
+    setSaving(true);
+    try {
+      const newEventId = await cloneEvent({
+        eventId: event.id,
+        eventDate: targetDate,
+        title,
+        includeCrew,
+        includeTasks,
+        allowConflicts
+      });
+
+      toast({
+        title: "Event cloned",
+        description: `${title.trim()} was created for ${formatSessionDate(targetDate)}.`,
+      });
+
+      if (event.firm_id) {
+        const firmId = event.firm_id;
+        import('@/services/syncCoordinator').then(({ syncEvent }) => {
+          syncEvent(newEventId, firmId, 'create', 'event-clone');
+        });
+      }
+
+      onOpenChange(false);
+      onSuccess?.(newEventId);
+    } catch (error) {
+      toast({
+        title: "Error cloning event",
+        description: error instanceof Error ? error.message : 'Failed to clone the event',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatStorage = (size: number) => size >= 1024 ? `${(size / 1024).toFixed(1)} TB` : `${size} GB`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy01Icon className="h-5 w-5 text-primary" />
+            Clone Event
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Event title" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Event Date</Label>
+            <InlineDatePicker value={eventDate} onSelect={setEventDate} placeholder="Same as original" />
+            {targetDate !== event.event_date && (
+              <p className="text-xs text-muted-foreground">
+                Moved from {formatSessionDate(event.event_date)}; crew days, sessions and task due dates shift with it.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="clone-crew" className="flex items-center gap-2">
+                <UserGroupIcon className="h-4 w-4" />
+                Crew and rates
+              </Label>
+              <Switch id="clone-crew" checked={includeCrew} onCheckedChange={setIncludeCrew} />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="clone-tasks" className="flex items-center gap-2">
+                <Task01Icon className="h-4 w-4" />
+                Tasks
+              </Label>
+              <Switch id="clone-tasks" checked={includeTasks} onCheckedChange={setIncludeTasks} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Payments stay on the original event. The copy starts unpaid with a balance
+              of ₹{(event.total_amount || 0).toLocaleString('en-IN')}.
+            </p>
+          </div>
+
+          {loading || !preview ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Loading preview...</p>
+          ) : (
+            <div className="space-y-3 text-sm">
+              <h4 className="font-semibold">What will be copied</h4>
+
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <Calendar03Icon className="h-4 w-4 text-muted-foreground" />
+                  Sessions
+                </span>
+                <Badge variant="secondary">{preview.sessions}</Badge>
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <UserGroupIcon className="h-4 w-4 text-muted-foreground" />
+                    Crew assignments
+                  </span>
+                  <Badge variant={includeCrew ? 'secondary' : 'outline'}>
+                    {includeCrew ? `${preview.crew.length} • ${preview.rates} rates` : 'Skipped'}
+                  </Badge>
+                </div>
+                {includeCrew && preview.crew.length > 0 && (
+                  <ul className="pl-6 text-xs text-muted-foreground space-y-0.5">
+                    {preview.crew.map((member, index) => (
+                      <li key={index}>Day {member.day_number}: {member.name} ({member.role})</li>
+                    ))}
+                  </ul>
+                )}
+                {includeCrew && crewConflicts.length > 0 && (
+                  <div className="ml-6 space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+                    <p className="flex items-center gap-1 font-medium">
+                      <Alert02Icon className="h-3.5 w-3.5" />
+                      Crew clashes on the new dates
+                    </p>
+                    <ul className="space-y-0.5">
+                      {crewConflicts.map((conflict, index) => (
+                        <li key={index}>
+                          {formatSessionDate(conflict.date)}: {conflict.name} ({conflict.role}) •{' '}
+                          {hasHardConflict(conflict.conflicts)
+                            ? 'on approved leave, left off the copy'
+                            : `booked on ${conflict.conflicts.map(item => item.eventTitle || 'another event').join(', ')}`}
+                        </li>
+                      ))}
+                    </ul>
+                    {bookingClashes.length > 0 && (
+                      <Label htmlFor="clone-allow-conflicts" className="flex items-center gap-2 text-xs font-normal cursor-pointer">
+                        <Checkbox
+                          id="clone-allow-conflicts"
+                          checked={allowConflicts}
+                          onCheckedChange={(checked) => setAllowConflicts(checked === true)}
+                        />
+                        Book the crew anyway
+                      </Label>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <Task01Icon className="h-4 w-4 text-muted-foreground" />
+                    Tasks
+                  </span>
+                  <Badge variant={includeTasks ? 'secondary' : 'outline'}>
+                    {includeTasks ? preview.tasks.length : 'Skipped'}
+                  </Badge>
+                </div>
+                {includeTasks && preview.tasks.length > 0 && (
+                  <ul className="pl-6 text-xs text-muted-foreground space-y-0.5">
+                    {preview.tasks.map((task, index) => (
+                      <li key={index}>
+                        {task.title}
+                        {task.due_date && ` • due ${formatSessionDate(shift(task.due_date)!)}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {includeTasks && preview.tasks.length > 0 && (
+                  <p className="pl-6 text-xs text-muted-foreground">Copied tasks start as Pending.</p>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <HardDriveIcon className="h-4 w-4 text-muted-foreground" />
+                  Storage
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {preview.storage.disk || preview.storage.size
+                    ? [preview.storage.disk, preview.storage.size ? formatStorage(preview.storage.size) : null].filter(Boolean).join(' • ')
+                    : 'None recorded'}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <MoneyBag02Icon className="h-4 w-4 text-muted-foreground" />
+                  Payments
+                </span>
+                <Badge variant="outline">Not copied</Badge>
+              </div>
+              {preview.payments.count > 0 && (
+                <p className="pl-6 text-xs text-muted-foreground">
+                  {preview.payments.count} payment{preview.payments.count === 1 ? '' : 's'} • ₹{preview.payments.total.toLocaleString('en-IN')} stay
+                  on the original; record what the client pays for the copy on the copy.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleClone}
+            disabled={saving || loading || !title.trim() || (includeCrew && bookingClashes.length > 0 && !allowConflicts)}
+            className="min-w-[100px]"
+          >
+            <Copy01Icon className="h-4 w-4 mr-2" />
+            {saving ? 'Cloning...' : 'Clone Event'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloneEventDialog;
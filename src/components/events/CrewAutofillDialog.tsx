@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { MagicWand01Icon, CheckmarkCircle01Icon, ArrowDown01Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { Event } from '@/types/studio';
+import {
+  CrewProposal,
+  applyCrewProposals,
+  buildCrewProposals,
+  fetchAutofillPeople
+} from '@/lib/crew-autofill-utils';
+import { formatSessionDate } from '@/lib/event-session-utils';
+
+interface CrewAutofillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firmId: string;
+  event: Event;
+  quotationDetails: unknown;
+  assignments: Array<{ staff_id: string; role: string; day_number: number }>;
+  onSuccess?: () => void;
+}
+
+const CrewAutofillDialog = ({
+  open,
+  onOpenChange,
+  firmId,
+  event,
+  quotationDetails,
+  assignments,
+  onSuccess
+}: CrewAutofillDialogProps) => {
+  const { toast } = useToast();
+  const [proposals, setProposals] = useState<CrewProposal[]>([]);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadProposals = async () => {
+      setLoading(true);
+      try {
+        const people = await fetchAutofillPeople(firmId);
+        const result = await buildCrewProposals({ firmId, event, quotationDetails, assignments, people });
+        if (cancelled) return;
+        setProposals(result);
+        setAccepted(new Set(result.filter(proposal => proposal.pick).map(proposal => proposal.key)));
+      } catch (error) {
+        toast({
+          title: "Error suggesting crew",
+          description: error instanceof Error ? error.message : 'Failed to build crew suggestions',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadProposals();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, firmId, event, quotationDetails, assignments, toast]);
+
+  const toggleAccepted = (key: string, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const count = await applyCrewProposals(firmId, event.id, proposals.filter(proposal => accepted.has(proposal.key)));
+      toast({
+        title: "Crew assigned",
+        description: `${count} crew assignment${count === 1 ? '' : 's'} added to ${event.title}.`,
+      });
+
+      import('@/services/syncCoordinator').then(({ syncEvent }) => {
+        syncEvent(event.id, firmId, 'update', 'crew-autofill');
+      });
+
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error assigning crew",
+        description: error instanceof Error ? error.message : 'Failed to save the crew assignments',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const acceptedCount = proposals.filter(proposal => proposal.pick && accepted.has(proposal.key)).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MagicWand01Icon className="h-5 w-5 text-primary" />
+            Auto-fill Crew
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Finding available crew...</p>
+        ) : proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">All crew requirements are already met.</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Free in-house staff come before freelancers. Within each group picks favour a role
+              match, a lighter month and a lower usual rate. People booked elsewhere or on leave are skipped.
+            </p>
+
+            {proposals.map(proposal => (
+              <Collapsible key={proposal.key} className="border rounded-lg p-3">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={!!proposal.pick && accepted.has(proposal.key)}
+                    disabled={!proposal.pick}
+                    onCheckedChange={(checked) => toggleAccepted(proposal.key, checked === true)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {proposal.pick ? proposal.pick.person.full_name : 'No one available'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {proposal.role} • Day {proposal.day} • {formatSessionDate(proposal.dayDate)}
+                    </p>
+                  </div>
+                  {proposal.pick && <Badge variant="secondary">Score {proposal.pick.score}</Badge>}
+                  <CollapsibleTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-8 px-2 text-xs">
+                      Why
+                      <ArrowDown01Icon className="h-3 w-3 ml-1" />
+                    </Button>
+                  </CollapsibleTrigger>
+                </div>
+
+                <CollapsibleContent className="pt-3 space-y-2 text-xs">
+                  {proposal.pick && (
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {proposal.pick.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  )}
+                  {proposal.alternatives.length > 0 && (
+                    <p className="text-muted-foreground">
+                      Next best: {proposal.alternatives.map(candidate => `${candidate.person.full_name} (${candidate.person.is_freelancer ? 'freelancer, ' : ''}${candidate.score})`).join(', ')}
+                    </p>
+                  )}
+                  {proposal.skipped.length > 0 && (
+                    <p className="text-muted-foreground">Skipped: {proposal.skipped.join(', ')}</p>
+                  )}
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving || loading || acceptedCount === 0} className="min-w-[100px]">
+            <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+            {saving ? 'Assigning...' : `Assign ${acceptedCount}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CrewAutofillDialog;
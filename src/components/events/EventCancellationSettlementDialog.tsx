@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useFirmData } from '@/hooks/useFirmData';
+import { useEventCancellationNotifications } from '@/hooks/useEventCancellationNotifications';
+import { syncEventInBackground } from '@/services/googleSheetsSync';
+import { ClientReceiptAllocation, Event, EventRefund, Payment } from '@/types/studio';
+import { canTransitionEventStatus, getEventLifecycleStatus } from '@/lib/event-status-utils';
+import { PaymentMethod, DEFAULT_PAYMENT_METHOD, getPaymentMethodOptions, getReferenceNumberLabel, requiresReferenceNumber } from '@/lib/payment-method-validator';
+import {
+  CancellationSettlement,
+  calculateCancellationSettlement,
+  fetchEventRefunds,
+  parseCancellationPolicy,
+  settleEventCancellation
+} from '@/lib/refund-utils';
+import { generateCreditNotePDF } from '@/lib/credit-note-pdf-utils';
+
+interface EventCancellationSettlementDialogProps {
+  event: Event;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSettled: () => void;
+}
+
+/**
+ * Cancel an event instead of deleting it: the firm's cancellation policy decides how much of
+ * what the client paid is retained, the rest is refunded with a credit note, and the unpaid
+ * remainder is closed
+ */
+const EventCancellationSettlementDialog = ({ event, open, onOpenChange, onSettled }: EventCancellationSettlementDialogProps) => {
+  const { toast } = useToast();
+  const { currentFirmId } = useAuth();
+  const { firmData } = useFirmData();
+  const { sendCancellationNotifications } = useEventCancellationNotifications();
+  const [settlement, setSettlement] = useState<CancellationSettlement | null>(null);
+  const [settledEvent, setSettledEvent] = useState<Event | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [settling, setSettling] = useState(false);
+  const [refundAmount, setRefundAmount] = useState(0);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadSettlement = async () => {
+      setLoading(true);
+      try {
+        // Work from what is recorded now rather than what the list last loaded
+        const [paymentsResult, allocationsResult, refunds] = await Promise.all([
+          supabase
+            .from('payments')
+            .select('*')
+            .eq('event_id', event.id)
+            .is('deleted_at', null),
+          supabase
+            .from('client_receipt_allocations')
+            .select('*, receipt:client_receipts(payment_method, custom_method, cheque_number, cheque_bank, cheque_status, receipt_number, payment_date)')
+            .eq('event_id', event.id),
+          fetchEventRefunds(event.id)
+        ]);
+        if (paymentsResult.error) throw paymentsResult.error;
+        if (allocationsResult.error) throw allocationsResult.error;
+        if (cancelled) return;
+
+        const current = {
+          ...event,
+          payments: (paymentsResult.data || []) as Payment[],
+          client_receipt_allocations: (allocationsResult.data || []) as ClientReceiptAllocation[],
+          event_refunds: refunds
+        };
+        const result = calculateCancellationSettlement(current, parseCancellationPolicy(firmData?.cancellation_policy));
+        setSettledEvent(current);
+        setSettlement(result);
+        setRefundAmount(result.refund);
+        setReferenceNumber('');
+        setReason('');
+      } catch (error) {
+        toast({
+          title: "Error loading payments",
+          description: error instanceof Error ? error.message : 'Failed to work out the settlement',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSettlement();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, event, firmData?.cancellation_policy, toast]);
+
+  const canCancel = canTransitionEventStatus(getEventLifecycleStatus(event), 'Cancelled');
+  const paid = settlement?.paid || 0;
+
+  const handleSettle = async () => {
+    if (!settlement || !currentFirmId) return;
+    if (refundAmount < 0 || refundAmount > paid) {
+      toast({
+        title: "Invalid refund",
+        description: `Refund must be between ₹0 and the ₹${paid.toLocaleString()} paid for this event`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSettling(true);
+    try {
+      const refund = await settleEventCancellation(event.id, {
+        amount: refundAmount,
+        method: refundMethod,
+        date: new Date().toISOString().split('T')[0],
+        referenceNumber,
+        reason
+      });
+
+      toast({
+        title: "Event cancelled",
+        description: refund
+          ? `₹${(paid - refundAmount).toLocaleString()} retained and ₹${refundAmount.toLocaleString()} refunded under credit note ${refund.credit_note_number}.`
+          : `₹${paid.toLocaleString()} retained with no refund due.`,
+      });
+
+      onOpenChange(false);
+      onSettled();
+
+      if (refund && settledEvent) {
+        const refunds: EventRefund[] = [refund, ...(settledEvent.event_refunds || [])];
+        generateCreditNotePDF(refund, { ...settledEvent, status: 'Cancelled', event_refunds: refunds }, firmData);
+      }
+
+      syncEventInBackground(event.id, currentFirmId, 'update');
+      sendCancellationNotifications({
+        eventId: event.id,
+        eventTitle: event.title,
+        eventDate: event.event_date,
+        venue: event.venue,
+        firmId: currentFirmId
+      });
+    } catch (error) {
+      toast({
+        title: "Cancellation failed",
+        description: error instanceof Error ? error.message : 'Failed to cancel the event',
+        variant: "destructive",
+      });
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(newOpen) => !settling && onOpenChange(newOpen)}>
+      <DialogContent className="w-[95vw] max-w-[520px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cancel {event.title}</DialogTitle>
+        </DialogHeader>
+
+        {!canCancel ? (
+          <p className="text-sm text-muted-foreground">
+            A {getEventLifecycleStatus(event)} event cannot be cancelled.
+          </p>
+        ) : loading || !settlement ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Working out the settlement...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Notice given</span>
+                <span>{settlement.daysBefore >= 0 ? `${settlement.daysBefore} days before the event` : 'After the event date'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Policy retention</span>
+                <span>{settlement.retentionPercent}% of ₹{(event.total_amount || 0).toLocaleString('en-IN')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid so far</span>
+                <span>₹{paid.toLocaleString('en-IN')}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Retained</span>
+                <span>₹{(paid - refundAmount).toLocaleString('en-IN')}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Refund</span>
+                <span>₹{refundAmount.toLocaleString('en-IN')}</span>
+              </div>
+            </div>
+
+            {paid > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="settlementRefund">Refund Amount (₹)</Label>
+                  <Input
+                    id="settlementRefund"
+                    type="number"
+                    value={refundAmount || ''}
+                    onChange={(e) => setRefundAmount(parseFloat(e.target.value) || 0)}
+                    min={0}
+                    max={paid}
+                  />
+                  {refundAmount !== settlement.refund && (
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setRefundAmount(settlement.refund)}>
+                      Use policy amount (₹{settlement.refund.toLocaleString('en-IN')})
+                    </Button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlementMethod">Refund Method</Label>
+                  <Select value={refundMethod} onValueChange={(value: PaymentMethod) => setRefundMethod(value)}>
+                    <SelectTrigger id="settlementMethod">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getPaymentMethodOptions().map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {refundAmount > 0 && requiresReferenceNumber(refundMethod) && (
+              <div className="space-y-2">
+                <Label htmlFor="settlementReference">{getReferenceNumberLabel(refundMethod)}</Label>
+                <Input
+                  id="settlementReference"
+                  placeholder="Transaction ID, UPI Ref#, etc."
+                  value={referenceNumber}
+                  onChange={(e) => setReferenceNumber(e.target.value)}
+                />
+              </div>
+            )}
+
+            <Textarea
+              placeholder="Reason for cancellation (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              The unpaid balance is closed, the crew is released and staff and client are notified.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={settling}>Keep Event</Button>
+          <Button variant="destructive" onClick={handleSettle} disabled={!canCancel || loading || settling || !settlement}>
+            {settling ? 'Cancelling...' : 'Cancel & Settle'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventCancellationSettlementDialog;
@@ -6,6 +6,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/ui/status-badge';
 import { 
   UserGroupIcon,
@@ -17,11 +18,22 @@ import {
   Clock03Icon, 
   Calendar03Icon,
   UserIcon,
-  Loading03Icon
+  Loading03Icon,
+  MagicWand01Icon
 } from 'hugeicons-react';
-import { Event } from '@/types/studio';
+import { Event, EventSession } from '@/types/studio';
 import { supabase } from '@/integrations/supabase/client';
 import { getStatusColors } from '@/lib/status-colors';
+import { checkEventCrewCompleteness } from '@/lib/crew-completeness-utils';
+import { useAuth } from '@/components/auth/AuthProvider';
+import CrewAutofillDialog from './CrewAutofillDialog';
+import {
+  fetchEventSessions,
+  formatSessionDate,
+  formatSessionTimeRange,
+  getSessionDayNumber,
+  sortSessions
+} from '@/lib/event-session-utils';
 
 interface EventCrewDialogProps {
   event: Event | null;
@@ -33,6 +45,7 @@ interface StaffAssignment {
   staff_id: string;
   role: string;
   day_number: number;
+  session_id: string | null;
   staff_type: string;
   profiles: {
     full_name: string;
@@ -59,8 +72,11 @@ interface EventTask {
 const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) => {
   const [staffAssignments, setStaffAssignments] = useState<StaffAssignment[]>([]);
   const [eventTasks, setEventTasks] = useState<EventTask[]>([]);
+  const [sessions, setSessions] = useState<EventSession[]>([]);
   const [quotationDetails, setQuotationDetails] = useState<any>(null);
   const [loading, setLoading] = useState(false);
+  const [autofillOpen, setAutofillOpen] = useState(false);
+  const { profile, currentFirmId } = useAuth();
 
   useEffect(() => {
     if (open && event) {
@@ -118,8 +134,9 @@ const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) =>
         promises.push(quotationPromise);
       }
 
-      const results = await Promise.all(promises);
+      const [results, eventSessions] = await Promise.all([Promise.all(promises), fetchEventSessions(event.id)]);
       const [staffResponse, tasksResponse, quotationResponse] = results;
+      setSessions(sortSessions(eventSessions));
 
       if (staffResponse.error) {
         console.error('Error loading staff assignments:', staffResponse.error);
@@ -134,6 +151,7 @@ const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) =>
             staff_id: assigneeId,
             role: assignment.role,
             day_number: assignment.day_number,
+            session_id: assignment.session_id,
             staff_type: staffType,
             profiles: {
               full_name: staffInfo?.full_name || 'Unknown'
@@ -173,17 +191,40 @@ const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) =>
   const totalDays = eventWithQuotation.total_days || 1;
   const hasQuotation = eventWithQuotation.quotation_source_id || quotationDetails;
 
-  // Group assignments by day and role
+  // Auto-fill is offered while quotation requirements are still open
+  const canAutofill = profile?.role === 'Admin' && !!currentFirmId && !!quotationDetails &&
+    !checkEventCrewCompleteness({
+      quotation_source_id: eventWithQuotation.quotation_source_id,
+      quotation_details: quotationDetails,
+      total_days: totalDays,
+      event_staff_assignments: staffAssignments
+    }).isComplete;
+
+  // Group assignments by session (or by day for events without sessions) and role
   const groupedAssignments = staffAssignments.reduce((acc, assignment) => {
-    const day = assignment.day_number;
+    const key = assignment.session_id || `day-${assignment.day_number}`;
     const role = assignment.role;
     
-    if (!acc[day]) acc[day] = {};
-    if (!acc[day][role]) acc[day][role] = [];
+    if (!acc[key]) acc[key] = {};
+    if (!acc[key][role]) acc[key][role] = [];
     
-    acc[day][role].push(assignment);
+    acc[key][role].push(assignment);
     return acc;
-  }, {} as Record<number, Record<string, StaffAssignment[]>>);
+  }, {} as Record<string, Record<string, StaffAssignment[]>>);
+
+  const crewGroups = sessions.length > 0
+    ? sessions.map(session => ({
+        key: session.id,
+        day: getSessionDayNumber(event.event_date, session.session_date),
+        title: session.name,
+        details: [formatSessionDate(session.session_date), formatSessionTimeRange(session), session.venue].filter(Boolean).join(' • ')
+      }))
+    : Array.from({ length: totalDays }, (_, i) => ({
+        key: `day-${i + 1}`,
+        day: i + 1,
+        title: `Day ${String(i + 1).padStart(2, '0')}`,
+        details: ''
+      }));
 
   if (loading) {
     // Return null during loading - let the parent handle loading state in icon
@@ -262,13 +303,21 @@ const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) =>
           {/* Crew Assignments & Stats - EXACTLY LIKE FINANCIAL SUMMARY */}
           {(staffAssignments.length > 0 || hasQuotation) && (
             <div className="space-y-3 sm:space-y-4">
-              <h3 className="text-xs sm:text-sm font-semibold text-foreground flex items-center gap-2">
-                <UserGroupIcon className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
-                Crew Assignments & Stats
-              </h3>
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-xs sm:text-sm font-semibold text-foreground flex items-center gap-2">
+                  <UserGroupIcon className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
+                  Crew Assignments & Stats
+                </h3>
+                {canAutofill && (
+                  <Button size="sm" variant="outline" className="rounded-full h-8" onClick={() => setAutofillOpen(true)}>
+                    <MagicWand01Icon className="h-4 w-4 mr-1" />
+                    Auto-fill Crew
+                  </Button>
+                )}
+              </div>
               
-              {Array.from({ length: totalDays }, (_, i) => i + 1).map(day => {
-                const dayAssignments = groupedAssignments[day] || {};
+              {crewGroups.map(({ key, day, title, details }) => {
+                const dayAssignments = groupedAssignments[key] || {};
                 const hasAssignments = Object.keys(dayAssignments).length > 0;
                 
                 if (!hasAssignments && !hasQuotation) return null;
@@ -294,11 +343,14 @@ const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) =>
                 };
 
                 return (
-                  <div key={day} className="bg-muted/20 border border-border rounded-lg p-3 sm:p-4">
+                  <div key={key} className="bg-muted/20 border border-border rounded-lg p-3 sm:p-4">
                     <div className="flex items-center justify-between gap-2 mb-2 sm:mb-3">
                       <h4 className="text-sm sm:text-base font-semibold text-foreground">
-                        Day {String(day).padStart(2, '0')}
+                        {title}
                       </h4>
+                      {details && (
+                        <span className="text-xs text-muted-foreground text-right">{details}</span>
+                      )}
                     </div>
                     
                     <div className="space-y-1.5 sm:space-y-2 text-xs sm:text-sm">
@@ -445,6 +497,18 @@ const EventCrewDialog = ({ event, open, onOpenChange }: EventCrewDialogProps) =>
           )}
         </div>
       </DialogContent>
+
+      {canAutofill && currentFirmId && (
+        <CrewAutofillDialog
+          open={autofillOpen}
+          onOpenChange={setAutofillOpen}
+          firmId={currentFirmId}
+          event={event}
+          quotationDetails={quotationDetails}
+          assignments={staffAssignments}
+          onSuccess={loadData}
+        />
+      )}
     </Dialog>
   );
 };
@@ -5,6 +5,10 @@ import { Event } from '@/types/studio';
 import { UnifiedDialog } from '@/components/ui/unified-dialog';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useEventCancellationNotifications } from '@/hooks/useEventCancellationNotifications';
+import { moveToTrash } from '@/lib/trash-utils';
+import { canTransitionEventStatus, getEventLifecycleStatus } from '@/lib/event-status-utils';
+import { Button } from '@/components/ui/button';
+import EventCancellationSettlementDialog from './EventCancellationSettlementDialog';
 
 interface EventDeleteConfirmationProps {
   event: Event | null;
@@ -22,6 +26,8 @@ export const EventDeleteConfirmation = ({
   onOptimisticDelete 
 }: EventDeleteConfirmationProps) => {
   const [deleting, setDeleting] = useState(false);
+  // Kept apart from `event`, which the parent clears once this dialog closes
+  const [eventToSettle, setEventToSettle] = useState<Event | null>(null);
   const { toast } = useToast();
   const { profile, currentFirmId } = useAuth();
   const { sendCancellationNotifications } = useEventCancellationNotifications();
@@ -33,7 +39,7 @@ export const EventDeleteConfirmation = ({
     
     try {
       // Get all related data before deletion for notifications AND Google Sheets cleanup
-      const [staffData, clientData, paymentsData, tasksData, expensesData, freelancerPaymentsData, staffPaymentsData] = await Promise.all([
+      const [staffData, clientData, paymentsData, tasksData, expensesData] = await Promise.all([
         // Get staff assignments
         supabase
           .from('event_staff_assignments')
@@ -67,18 +73,6 @@ export const EventDeleteConfirmation = ({
         supabase
           .from('expenses')
           .select('*')
-          .eq('event_id', event.id),
-
-        // Get freelancer payments for this event
-        supabase
-          .from('freelancer_payments')
-          .select('*')
-          .eq('event_id', event.id),
-
-        // Get staff payments for this event
-        supabase
-          .from('staff_payments')
-          .select('*')
           .eq('event_id', event.id)
       ]);
 
@@ -97,10 +91,15 @@ export const EventDeleteConfirmation = ({
       
       toast({
         title: "Event deletion started",
-        description: `"${event.title}" is being deleted. All related data will be removed and notifications sent.`,
+        description: `"${event.title}" is being moved to Trash and notifications sent.`,
       });
 
-      // Step 3: FIRST DELETE FROM GOOGLE SHEETS (while data still exists in database)
+      // Step 3: Move the event to Trash along with its payments, tasks and expenses.
+      // External cleanup only runs once this succeeds, so a failed delete leaves Sheets,
+      // Calendar and the crew untouched.
+      await moveToTrash('events', event.id);
+
+      // Step 4: Delete from Google Sheets using the rows gathered above
       try {
         // Delete all related data from Google Sheets one by one
         const sheetsPromises = [];
@@ -184,35 +183,7 @@ export const EventDeleteConfirmation = ({
           });
         }
 
-        // Delete freelancer payments from Google Sheets
-        if (freelancerPaymentsData.data && freelancerPaymentsData.data.length > 0) {
-          freelancerPaymentsData.data.forEach(payment => {
-            sheetsPromises.push(
-              supabase.functions.invoke('delete-item-from-google', {
-                body: { 
-                  itemType: 'freelancer_payment', 
-                  itemId: payment.id, 
-                  firmId: currentFirmId
-                }
-              })
-            );
-          });
-        }
-
-        // Delete staff payments from Google Sheets
-        if (staffPaymentsData.data && staffPaymentsData.data.length > 0) {
-          staffPaymentsData.data.forEach(payment => {
-            sheetsPromises.push(
-              supabase.functions.invoke('delete-item-from-google', {
-                body: { 
-                  itemType: 'staff_payment', 
-                  itemId: payment.id, 
-                  firmId: currentFirmId
-                }
-              })
-            );
-          });
-        }
+        // Crew and salary payments stay in place (and in Sheets) until the event is purged from Trash
 
         // Wait for all Google Sheets deletions to complete
         await Promise.allSettled(sheetsPromises);
@@ -220,8 +191,8 @@ export const EventDeleteConfirmation = ({
         // Continue with deletion even if Google Sheets fails
       }
 
-      // Step 4: Send cancellation notifications using the dedicated hook
-      const notificationPromise = sendCancellationNotifications({
+      // Step 5: Send cancellation notifications using the dedicated hook
+      await sendCancellationNotifications({
         eventId: event.id,
         eventTitle: event.title,
         eventDate: event.event_date,
@@ -229,45 +200,10 @@ export const EventDeleteConfirmation = ({
         firmId: currentFirmId
       });
 
-      // Step 5: FINALLY DELETE FROM DATABASE (this will cascade to all related tables)
-      try {
-        // Break quotation FK to avoid constraint error
-        await supabase
-          .from('quotations')
-          .update({ converted_to_event: null })
-          .eq('converted_to_event', event.id);
-        
-        // Delete dependent records explicitly (defensive against missing cascades)
-        await Promise.allSettled([
-          supabase.from('event_assignment_rates').delete().eq('event_id', event.id),
-          supabase.from('event_staff_assignments').delete().eq('event_id', event.id),
-          supabase.from('freelancer_payments').delete().eq('event_id', event.id),
-          supabase.from('staff_payments').delete().eq('event_id', event.id),
-          supabase.from('tasks').delete().eq('event_id', event.id),
-          supabase.from('expenses').delete().eq('event_id', event.id),
-          supabase.from('payments').delete().eq('event_id', event.id),
-        ]);
-        
-        // Finally delete the event
-        const { error: eventDeleteError } = await supabase
-          .from('events')
-          .delete()
-          .eq('id', event.id);
-
-        if (eventDeleteError) {
-          throw eventDeleteError;
-        }
-      } catch (error) {
-        throw error;
-      }
-
-      // Wait for notifications to complete
-      await notificationPromise;
-
       // Final success toast after everything is complete
       toast({
-        title: "Event completely deleted",
-        description: `"${event.title}" and all related data have been removed from both database and Google Sheets. Staff and client have been notified.`,
+        title: "Event moved to Trash",
+        description: `"${event.title}" was removed from Google Sheets and can be restored from Trash. Staff and client have been notified.`,
       });
       
       // Trigger a final refresh to ensure UI is in sync
@@ -287,28 +223,57 @@ export const EventDeleteConfirmation = ({
     }
   };
 
-  if (!event) return null;
+  const settlementDialog = eventToSettle && (
+    <EventCancellationSettlementDialog
+      event={eventToSettle}
+      open={!!eventToSettle}
+      onOpenChange={(newOpen) => !newOpen && setEventToSettle(null)}
+      onSettled={onSuccess}
+    />
+  );
+
+  if (!event) return settlementDialog;
+
+  // Clients who paid are owed a settlement, which deleting would skip
+  const canCancel = canTransitionEventStatus(getEventLifecycleStatus(event), 'Cancelled');
 
   return (
-    <UnifiedDialog
-      open={open}
-      onOpenChange={(newOpen) => !deleting && onOpenChange(newOpen)}
-      onConfirm={handleDelete}
-      title="Delete Event"
-      description={`Are you sure you want to delete "${event.title}"?
+    <>
+      <UnifiedDialog
+        open={open}
+        onOpenChange={(newOpen) => !deleting && onOpenChange(newOpen)}
+        onConfirm={handleDelete}
+        title="Delete Event"
+        description={`Are you sure you want to delete "${event.title}"?
 
-All related data will be removed:
+The event moves to Trash with its:
 • Payments & financial records
-• Staff assignments & rates  
 • Tasks & expenses
-• Google Sheets entries
 
-Staff and client will be notified automatically.
+Its Google Sheets and Calendar entries are removed, and staff and client will be notified automatically.
 
-This action cannot be undone.`}
-      variant="destructive"
-      confirmText={deleting ? "Deleting..." : "Delete Event"}
-      loading={deleting}
-    />
+You can restore it from Trash until it is purged.`}
+        variant="destructive"
+        confirmText={deleting ? "Deleting..." : "Delete Event"}
+        loading={deleting}
+        details={canCancel ? (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-muted-foreground">Client cancelled? Settle retention and refunds instead.</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={deleting}
+              onClick={() => {
+                setEventToSettle(event);
+                onOpenChange(false);
+              }}
+            >
+              Cancel Event
+            </Button>
+          </div>
+        ) : undefined}
+      />
+      {settlementDialog}
+    </>
   );
 };
\ No newline at end of file
@@ -23,6 +23,7 @@ import { formatEventDateRange } from '@/lib/date-utils';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { generateIndividualEventReport } from './IndividualEventReportPDF';
+import { formatPaymentMethodDetails } from '@/lib/payment-method-validator';
 
 interface EventFinancialSummaryDialogProps {
   event: Event | null;
@@ -610,7 +611,7 @@ const EventFinancialSummaryDialog = ({ event, open, onOpenChange }: EventFinanci
                             {new Date(payment.payment_date).toLocaleDateString()}
                           </div>
                           <div className="text-xs text-muted-foreground break-words">
-                            {payment.payment_method} 
+                            {formatPaymentMethodDetails(payment)} 
                             {payment.reference_number && ` • Ref: ${payment.reference_number}`}
                             {payment.invoice_id && ` • Invoice: ${payment.invoice_id}`}
                           </div>
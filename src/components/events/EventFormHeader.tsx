@@ -5,18 +5,9 @@ import { SearchableSelect } from '@/components/ui/searchable-select';
 import { InlineDatePicker } from '@/components/ui/inline-date-picker';
 import { Textarea } from '@/components/ui/textarea';
 import { Calendar01Icon } from 'hugeicons-react';
-import { Event, Client, EventFormData } from '@/types/studio';
-import type { Database } from '@/integrations/supabase/types';
-
-type EventType = Database['public']['Enums']['event_type'];
-
-const EVENT_TYPES: { value: EventType; label: string }[] = [
-  { value: 'Ring-Ceremony', label: 'Ring-Ceremony' },
-  { value: 'Pre-Wedding', label: 'Pre-Wedding' },
-  { value: 'Wedding', label: 'Wedding' },
-  { value: 'Maternity Photography', label: 'Maternity Photography' },
-  { value: 'Others', label: 'Others' }
-];
+import { Event, Client, EventFormData, EventType } from '@/types/studio';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { getEventTypeOptions } from '@/lib/event-type-utils';
 
 interface EventFormHeaderProps {
   formData: EventFormData;
@@ -45,6 +36,8 @@ const EventFormHeader: React.FC<EventFormHeaderProps> = ({
   currentEvent,
   isEventFromQuotation
 }) => {
+  const { eventTypes } = useFirmEventTypes();
+
   return (
     <div className="space-y-6">
       {/* Basic Event Information */}
@@ -86,7 +79,7 @@ const EventFormHeader: React.FC<EventFormHeaderProps> = ({
             <SearchableSelect
               value={formData.event_type}
               onValueChange={(value: EventType) => setFormData({ ...formData, event_type: value })}
-              options={EVENT_TYPES.map(type => ({
+              options={getEventTypeOptions(eventTypes, formData.event_type).map(type => ({
                 value: type.value,
                 label: type.label
               }))}
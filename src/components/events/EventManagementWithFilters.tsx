@@ -1,9 +1,10 @@
 import React, { useState, useMemo } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { Button } from '@/components/ui/button';
-import { Add01Icon, Calendar01Icon } from 'hugeicons-react';
+import { Add01Icon, Calendar01Icon, RepeatIcon } from 'hugeicons-react';
 import EventStats from './EventStats';
 import CleanEventFormDialog from './CleanEventFormDialog';
+import RecurringEventDialog from './RecurringEventDialog';
 import UniversalExportDialog from '@/components/common/UniversalExportDialog';
 import { useEventExportConfig } from '@/hooks/useExportConfigs';
 import { useSubscriptionAccess } from '@/hooks/useSubscriptionAccess';
@@ -15,11 +16,15 @@ import { PageSkeleton } from '@/components/ui/skeleton';
 import { EmptyState } from '@/components/ui/empty-state';
 import EventTableView from './EventTableView';
 import { filterEventsByStaffStatus } from '@/lib/staff-status-utils';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { withEventTypeFilterOptions } from '@/lib/event-type-utils';
 
 const EventManagementWithFilters = () => {
-  const { currentFirmId } = useAuth();
+  const { currentFirmId, profile } = useAuth();
   const { canCreateNew, canExport } = useSubscriptionAccess();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [recurringDialogOpen, setRecurringDialogOpen] = useState(false);
+  const { eventTypes } = useFirmEventTypes();
 
   const filterState = useBackendFilters(FILTER_CONFIGS.events, {
     enableRealtime: true,
@@ -28,6 +33,11 @@ const EventManagementWithFilters = () => {
 
   const eventExportConfig = useEventExportConfig();
 
+  const filterOptions = useMemo(
+    () => withEventTypeFilterOptions(FILTER_CONFIGS.events.filterOptions, eventTypes),
+    [eventTypes]
+  );
+
   // Apply client-side staff status filtering if needed
   const filteredEvents = useMemo(() => {
     let events = filterState.data;
@@ -71,6 +81,18 @@ const EventManagementWithFilters = () => {
               config={eventExportConfig}
             />
           )}
+          {profile?.role === 'Admin' && (
+            <Button
+              onClick={() => setRecurringDialogOpen(true)}
+              size="icon"
+              variant="outline"
+              className="h-10 w-10 rounded-full"
+              disabled={!canCreateNew}
+              title="Recurring events"
+            >
+              <RepeatIcon className="h-5 w-5" />
+            </Button>
+          )}
           <Button
             onClick={() => setCreateDialogOpen(true)}
             size="icon"
@@ -101,7 +123,7 @@ const EventManagementWithFilters = () => {
         onSortReverse={filterState.toggleSortOrder}
         
         activeFilters={filterState.activeFilters}
-        filterOptions={FILTER_CONFIGS.events.filterOptions}
+        filterOptions={filterOptions}
         onFiltersChange={filterState.setActiveFilters}
         
         totalCount={filterState.totalCount}
@@ -150,6 +172,14 @@ const EventManagementWithFilters = () => {
         onOpenChange={setCreateDialogOpen}
         onSuccess={handleCreateSuccess}
       />
+
+      {/* Recurring Events Dialog */}
+      <RecurringEventDialog
+        open={recurringDialogOpen}
+        onOpenChange={setRecurringDialogOpen}
+        firmId={currentFirmId}
+        onSuccess={filterState.refetch}
+      />
     </div>
   );
 };
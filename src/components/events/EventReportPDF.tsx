@@ -7,6 +7,7 @@ import { formatDate } from '@/lib/date-utils';
 import { supabase } from '@/integrations/supabase/client';
 import { calculateEventBalance, calculateTotalPaid } from '@/lib/payment-calculator';
 import { applyUniversalFilter } from '@/components/common/UniversalExportFilterLogic';
+import { parseEventTypeFilterKey } from '@/lib/event-type-utils';
 
 interface EventReportPDFProps {
   events: Event[];
@@ -46,6 +47,8 @@ const EventReportPDF = ({ events, filterType, filterValue, firmData }: EventRepo
         'maternity': 'Maternity Photography Events',
         'others': 'Other Events'
       };
+      const catalogueEventType = parseEventTypeFilterKey(filterValue);
+      if (catalogueEventType !== null) return `${catalogueEventType} Events`;
       return typeLabels[filterValue] || 'All Events';
     }
     
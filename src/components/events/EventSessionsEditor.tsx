@@ -0,0 +1,162 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Add01Icon, Delete02Icon, Clock01Icon } from 'hugeicons-react';
+import {
+  EventSessionDraft,
+  SESSION_NAME_SUGGESTIONS,
+  createSessionDraft,
+  formatSessionDate
+} from '@/lib/event-session-utils';
+
+interface EventSessionsEditorProps {
+  sessions: EventSessionDraft[];
+  onChange: (sessions: EventSessionDraft[]) => void;
+  eventDate: string;
+  totalDays: number;
+}
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const EventSessionsEditor = ({ sessions, onChange, eventDate, totalDays }: EventSessionsEditorProps) => {
+  // Sessions can only fall on one of the event's days
+  const dayOptions = Array.from({ length: Math.max(1, totalDays) }, (_, i) => {
+    const date = new Date(`${eventDate}T00:00:00`);
+    date.setDate(date.getDate() + i);
+    const value = toDateString(date);
+    return { value, label: `Day ${i + 1} • ${formatSessionDate(value)}` };
+  });
+
+  const updateSession = (id: string, updates: Partial<EventSessionDraft>) => {
+    onChange(sessions.map(session => session.id === id ? { ...session, ...updates } : session));
+  };
+
+  const addSession = () => {
+    const lastDate = sessions[sessions.length - 1]?.session_date || dayOptions[0].value;
+    const usedNames = new Set(sessions.map(session => session.name));
+    const suggestion = SESSION_NAME_SUGGESTIONS.find(name => !usedNames.has(name)) || '';
+    onChange([...sessions, createSessionDraft(lastDate, sessions.length + 1, suggestion)]);
+  };
+
+  const removeSession = (id: string) => {
+    onChange(sessions.filter(session => session.id !== id));
+  };
+
+  if (!eventDate) {
+    return (
+      <p className="text-sm text-muted-foreground">Select the event date to plan sessions.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Split the event into sessions (e.g. Haldi in the morning, Sangeet in the evening) to assign crew per session.
+          Crew can then be booked for non-overlapping sessions on the same day.
+        </p>
+      )}
+
+      {sessions.map((session) => (
+        <div key={session.id} className="border rounded-xl p-3 space-y-3 bg-muted/20">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Session Name *</Label>
+              <Input
+                value={session.name}
+                onChange={(e) => updateSession(session.id, { name: e.target.value })}
+                placeholder="e.g. Sangeet"
+                list="event-session-name-suggestions"
+                className="rounded-full"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Day</Label>
+              <Select
+                value={session.session_date}
+                onValueChange={(value) => updateSession(session.id, { session_date: value })}
+              >
+                <SelectTrigger className="rounded-full">
+                  <SelectValue placeholder="Select day" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dayOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock01Icon className="h-3 w-3" />
+                Start
+              </Label>
+              <Input
+                type="time"
+                value={session.start_time?.slice(0, 5) || ''}
+                onChange={(e) => updateSession(session.id, { start_time: e.target.value || null })}
+                className="rounded-full"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock01Icon className="h-3 w-3" />
+                End
+              </Label>
+              <Input
+                type="time"
+                value={session.end_time?.slice(0, 5) || ''}
+                onChange={(e) => updateSession(session.id, { end_time: e.target.value || null })}
+                className="rounded-full"
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs text-muted-foreground">Venue</Label>
+              <Input
+                value={session.venue || ''}
+                onChange={(e) => updateSession(session.id, { venue: e.target.value })}
+                placeholder="Same as event venue"
+                className="rounded-full"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={session.notes || ''}
+              onChange={(e) => updateSession(session.id, { notes: e.target.value })}
+              placeholder="Notes for the crew (optional)"
+              className="rounded-full flex-1"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => removeSession(session.id)}
+              className="rounded-full h-10 w-10 p-0 text-destructive"
+              aria-label="Remove session"
+            >
+              <Delete02Icon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <datalist id="event-session-name-suggestions">
+        {SESSION_NAME_SUGGESTIONS.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <Button type="button" variant="outline" size="sm" onClick={addSession} className="rounded-full">
+        <Add01Icon className="h-4 w-4 mr-2" />
+        Add Session
+      </Button>
+    </div>
+  );
+};
+
+export default EventSessionsEditor;
@@ -10,6 +10,10 @@ import { StaffAssignmentConflictDialog } from '@/components/ui/staff-assignment-
 import { useAuth } from '@/components/auth/AuthProvider';
 import { getQuotationSameDayEditing, parseQuotationDetails } from '@/lib/type-utils';
 import { useRealTimeConflictDetection } from '@/hooks/useRealTimeConflictDetection';
+import { sessionWindowsOverlap, SessionWindow } from '@/lib/staff-availability-utils';
+import { EventSessionDraft, getSessionLabel } from '@/lib/event-session-utils';
+import { useApprovedUnavailability } from '@/hooks/useStaffUnavailability';
+import { coversDate, getUnavailabilityPersonId } from '@/lib/staff-unavailability-utils';
 
 interface Staff {
   id: string;
@@ -21,6 +25,7 @@ interface Staff {
 
 interface MultiDayAssignment {
   day: number;
+  session_id?: string;
   photographer_ids: string[];
   cinematographer_ids: string[];
   drone_pilot_ids: string[];
@@ -44,6 +49,7 @@ interface EventStaffAssignmentProps {
   isEventFromQuotation: boolean;
   eventDate: string;
   eventEndDate?: string;
+  sessions?: EventSessionDraft[];
   onUpdateStaffAssignment: (dayIndex: number, field: string, slotIndex: number | null, value: string) => void;
   onAddStaffSlot: (dayIndex: number, field: 'photographer_ids' | 'cinematographer_ids' | 'drone_pilot_ids' | 'same_day_editor_ids' | 'other_crew_ids') => void;
   onRemoveStaffSlot: (dayIndex: number, field: 'photographer_ids' | 'cinematographer_ids' | 'drone_pilot_ids' | 'same_day_editor_ids' | 'other_crew_ids', slotIndex: number) => void;
@@ -70,6 +76,7 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
   isEventFromQuotation,
   eventDate,
   eventEndDate,
+  sessions = [],
   onUpdateStaffAssignment,
   onAddStaffSlot,
   onRemoveStaffSlot,
@@ -96,6 +103,31 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
     [editors]
   );
 
+  const getSessionWindow = (dayAssignment?: MultiDayAssignment): SessionWindow | undefined => {
+    const session = dayAssignment?.session_id ? sessions.find(s => s.id === dayAssignment.session_id) : undefined;
+    return session
+      ? { date: session.session_date, startTime: session.start_time, endTime: session.end_time, venue: session.venue || currentEvent?.venue }
+      : undefined;
+  };
+
+  const getBlockDate = (dayAssignment: MultiDayAssignment) => {
+    const sessionWindow = getSessionWindow(dayAssignment);
+    if (sessionWindow) return sessionWindow.date;
+    if (!eventDate) return '';
+    const dayDate = new Date(eventDate);
+    dayDate.setDate(dayDate.getDate() + (dayAssignment.day - 1));
+    return dayDate.toISOString().split('T')[0];
+  };
+
+  // Approved leave is a hard conflict: people on leave are left out of the pickers
+  const blockDates = multiDayAssignments.map(getBlockDate).filter(Boolean).sort();
+  const unavailability = useApprovedUnavailability(blockDates[0], blockDates[blockDates.length - 1]);
+
+  const getBlockTitle = (dayAssignment: MultiDayAssignment) => {
+    const session = sessions.find(s => s.id === dayAssignment.session_id);
+    return session ? getSessionLabel(session) : `Day ${dayAssignment.day}`;
+  };
+
   // Check for conflicts when assigning staff with real-time detection
   const handleStaffAssignment = async (dayIndex: number, field: string, slotIndex: number | null, value: string) => {
     if (!value || !eventDate) {
@@ -139,7 +171,11 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
       const eventDateObj = new Date(eventDate);
       const dayDate = new Date(eventDateObj);
       dayDate.setDate(eventDateObj.getDate() + (dayAssignment.day - 1));
-      const dayDateString = dayDate.toISOString().split('T')[0];
+      const blockWindow = getSessionWindow(dayAssignment);
+      const dayDateString = blockWindow?.date || dayDate.toISOString().split('T')[0];
+      const sessionFields = blockWindow
+        ? { session_id: dayAssignment.session_id, start_time: blockWindow.startTime, end_time: blockWindow.endTime, venue: blockWindow.venue }
+        : {};
 
       // Add all current assignments for this day
       dayAssignment.photographer_ids.forEach(id => {
@@ -149,7 +185,8 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
           role: 'Photographer',
           day_number: dayAssignment.day,
           day_date: dayDateString,
-          event_id: currentEvent?.id || 'new-event'
+          event_id: currentEvent?.id || 'new-event',
+          ...sessionFields
         });
       });
 
@@ -160,7 +197,8 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
           role: 'Cinematographer',
           day_number: dayAssignment.day,
           day_date: dayDateString,
-          event_id: currentEvent?.id || 'new-event'
+          event_id: currentEvent?.id || 'new-event',
+          ...sessionFields
         });
       });
 
@@ -171,7 +209,8 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
           role: 'Drone Pilot',
           day_number: dayAssignment.day,
           day_date: dayDateString,
-          event_id: currentEvent?.id || 'new-event'
+          event_id: currentEvent?.id || 'new-event',
+          ...sessionFields
         });
       });
 
@@ -182,7 +221,8 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
           role: 'Same Day Editor',
           day_number: dayAssignment.day,
           day_date: dayDateString,
-          event_id: currentEvent?.id || 'new-event'
+          event_id: currentEvent?.id || 'new-event',
+          ...sessionFields
         });
       });
 
@@ -193,25 +233,30 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
           role: 'Other',
           day_number: dayAssignment.day,
           day_date: dayDateString,
-          event_id: currentEvent?.id || 'new-event'
+          event_id: currentEvent?.id || 'new-event',
+          ...sessionFields
         });
       });
 
       return assignments;
     });
 
+    // Session slots are checked against the session's time window only
+    const sessionWindow = getSessionWindow(multiDayAssignments[dayIndex]);
+
     // Check for conflicts using the real-time detection hook
     await checkForConflicts(
       value,
       selectedPerson.full_name,
       role,
-      eventDate,
-      totalDays,
+      sessionWindow?.date || eventDate,
+      sessionWindow ? 1 : totalDays,
       currentAssignments,
       () => {
         // This callback runs when assignment is confirmed (no conflicts or user accepts conflicts)
         onUpdateStaffAssignment(dayIndex, field, slotIndex, value);
-      }
+      },
+      sessionWindow
     );
   };
 
@@ -237,9 +282,22 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
   };
 
   const isPersonAvailable = (personId: string, currentDayIndex: number, currentRole: string, currentSlotIndex?: number) => {
+    const currentWindow = getSessionWindow(multiDayAssignments[currentDayIndex]);
+
+    const currentDate = multiDayAssignments[currentDayIndex] ? getBlockDate(multiDayAssignments[currentDayIndex]) : '';
+    if (currentDate && unavailability.some(block => getUnavailabilityPersonId(block) === personId && coversDate(block, currentDate))) {
+      return false;
+    }
+
     // Check within current event's multi-day assignments
     for (let i = 0; i < multiDayAssignments.length; i++) {
       const assignment = multiDayAssignments[i];
+
+      // Crew can cover several sessions as long as their times do not overlap
+      const otherWindow = getSessionWindow(assignment);
+      if (i !== currentDayIndex && currentWindow && otherWindow && !sessionWindowsOverlap(currentWindow, otherWindow)) {
+        continue;
+      }
       
       // Skip current assignment slot
       if (i === currentDayIndex && currentRole === 'photographer' && currentSlotIndex !== undefined) {
@@ -337,9 +395,9 @@ const EventStaffAssignment: React.FC<EventStaffAssignmentProps> = ({
         <div className="space-y-6">
           {multiDayAssignments.map((dayAssignment, dayIndex) => {
             return (
-               <div key={dayAssignment.day} className="border rounded-lg p-4 bg-card">
+               <div key={dayAssignment.session_id || dayAssignment.day} className="border rounded-lg p-4 bg-card">
                 <h4 className="text-md font-medium mb-4 flex items-center gap-2">
-                  📅 Day {dayAssignment.day} Staff Assignment
+                  📅 {getBlockTitle(dayAssignment)} Staff Assignment
                 </h4>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loading03Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { syncEventInBackground } from '@/services/googleSheetsSync';
+import { getStatusColors } from '@/lib/status-colors';
+import { cn } from '@/lib/utils';
+import {
+  fetchEventStatusHistory,
+  getAllowedEventStatusTransitions,
+  getEventLifecycleStatus,
+  updateEventLifecycleStatus,
+} from '@/lib/event-status-utils';
+import type { Event, EventLifecycleStatus, EventStatusHistoryEntry } from '@/types/studio';
+
+interface EventStatusMenuProps {
+  event: Event;
+  editable?: boolean;
+  className?: string;
+  onStatusChanged?: (status: EventLifecycleStatus) => void;
+}
+
+const EventStatusMenu = ({ event, editable = true, className, onStatusChanged }: EventStatusMenuProps) => {
+  const { toast } = useToast();
+  const { currentFirmId, profile } = useAuth();
+  const [updating, setUpdating] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<EventLifecycleStatus | null>(null);
+  const [note, setNote] = useState('');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<EventStatusHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const status = getEventLifecycleStatus(event);
+  const transitions = getAllowedEventStatusTransitions(status);
+  const canEdit = editable && profile?.role === 'Admin' && transitions.length > 0;
+
+  const badge = (
+    <Badge
+      variant="outline"
+      className={cn(
+        'px-2 py-0.5 text-xs font-medium uppercase',
+        getStatusColors(status, 'text'),
+        getStatusColors(status, 'background'),
+        getStatusColors(status, 'border'),
+        canEdit && 'cursor-pointer',
+        className
+      )}
+    >
+      {updating ? <Loading03Icon className="h-3 w-3 mr-1 animate-spin" /> : null}
+      {status}
+    </Badge>
+  );
+
+  const applyStatus = async (nextStatus: EventLifecycleStatus, statusNote?: string) => {
+    setUpdating(true);
+    try {
+      const result = await updateEventLifecycleStatus(event, nextStatus, statusNote);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: 'Status updated',
+        description: `${event.title} is now ${nextStatus}`,
+      });
+
+      if (currentFirmId) {
+        syncEventInBackground(event.id, currentFirmId, 'update');
+      }
+      onStatusChanged?.(nextStatus);
+    } catch (error) {
+      toast({
+        title: 'Status update failed',
+        description: error instanceof Error ? error.message : 'Failed to update event status',
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleSelect = (nextStatus: EventLifecycleStatus) => {
+    // Cancellations always ask for a reason so the history explains the drop in revenue
+    if (nextStatus === 'Cancelled') {
+      setNote('');
+      setPendingStatus(nextStatus);
+      return;
+    }
+    applyStatus(nextStatus);
+  };
+
+  const handleConfirmWithNote = async () => {
+    if (!pendingStatus) return;
+    const nextStatus = pendingStatus;
+    setPendingStatus(null);
+    await applyStatus(nextStatus, note);
+  };
+
+  const openHistory = async () => {
+    setHistoryOpen(true);
+    setHistoryLoading(true);
+    setHistory(await fetchEventStatusHistory(event.id));
+    setHistoryLoading(false);
+  };
+
+  if (!canEdit) {
+    return badge;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={updating} onClick={(e) => e.stopPropagation()}>
+          <button type="button" className="inline-flex">{badge}</button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Move to</DropdownMenuLabel>
+          {transitions.map((nextStatus) => (
+            <DropdownMenuItem
+              key={nextStatus}
+              onSelect={() => handleSelect(nextStatus)}
+              className={getStatusColors(nextStatus, 'text')}
+            >
+              {nextStatus}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openHistory}>Status history</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!pendingStatus} onOpenChange={(open) => !open && setPendingStatus(null)}>
+        <DialogContent className="w-[95vw] max-w-[440px]" onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Cancel {event.title}?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Cancelled events no longer count toward revenue and release their crew for other events.
+            </p>
+            <Textarea
+              placeholder="Reason for cancellation (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingStatus(null)}>Keep Event</Button>
+            <Button variant="destructive" onClick={handleConfirmWithNote}>Cancel Event</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+        <DialogContent className="w-[95vw] max-w-[480px]" onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Status History</DialogTitle>
+          </DialogHeader>
+          {historyLoading ? (
+            <div className="flex justify-center py-6">
+              <Loading03Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No status changes recorded yet.</p>
+          ) : (
+            <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+              {history.map((entry) => (
+                <div key={entry.id} className="border-b border-border/50 pb-2 last:border-0">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {entry.from_status ? `${entry.from_status} → ` : ''}
+                      <span className={getStatusColors(entry.to_status, 'text')}>{entry.to_status}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.changed_at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                    </span>
+                  </div>
+                  {entry.changed_by_profile?.full_name && (
+                    <div className="text-xs text-muted-foreground">by {entry.changed_by_profile.full_name}</div>
+                  )}
+                  {entry.notes && <div className="text-xs mt-1">{entry.notes}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default EventStatusMenu;
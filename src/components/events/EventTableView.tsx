@@ -11,8 +11,10 @@ import { EventDeleteConfirmation } from './EventDeleteConfirmation';
 import { useToast } from '@/hooks/use-toast';
 import { generatePaymentInvoicePDF } from '@/components/payments/PaymentInvoicePDFRenderer';
 import { shareEventDetails } from '@/lib/event-share-utils';
+import { getEventInvoiceNumber } from '@/lib/document-number-utils';
 import { useFirmData } from '@/hooks/useFirmData';
 import EventFinancialSummaryDialog from '@/components/events/EventFinancialSummaryDialog';
+import CloneEventDialog from '@/components/events/CloneEventDialog';
 
 import { CardGridSkeleton } from '@/components/ui/skeleton';
 
@@ -40,6 +42,7 @@ const EventTableView: React.FC<EventTableViewProps> = ({
   const [eventToDelete, setEventToDelete] = useState<Event | null>(null);
   const [selectedEventForDetails, setSelectedEventForDetails] = useState<Event | null>(null);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
+  const [eventToClone, setEventToClone] = useState<Event | null>(null);
   // Loading states for individual events
   const [loadingStates, setLoadingStates] = useState<{[key: string]: {
     sharing?: boolean;
@@ -91,13 +94,14 @@ const EventTableView: React.FC<EventTableViewProps> = ({
   const handleDownloadInvoice = async (event: Event) => {
     setLoadingStates(prev => ({ ...prev, [event.id]: { ...prev[event.id], downloading: true } }));
     try {
+      const invoiceId = await getEventInvoiceNumber(event.id);
       const paymentData = {
         id: `event-${event.id}`,
         event_id: event.id,
         amount: event.total_amount || 0,
         payment_method: 'Cash' as const,
         payment_date: new Date().toISOString(),
-        invoice_id: `INV-${event.id}`,
+        invoice_id: invoiceId,
         event: event,
         firm_id: event.firm_id,
         created_at: new Date().toISOString(),
@@ -256,7 +260,9 @@ const EventTableView: React.FC<EventTableViewProps> = ({
           onDownloadInvoice={handleDownloadInvoice}
           onSendInvoice={handleShare}
           onDelete={handleDeleteEvent}
+          onClone={setEventToClone}
           onCrewClick={handleCrewDialog}
+          onStatusChange={onRefetch}
           loadingStates={loadingStates[event.id]}
           />
         ))}
@@ -282,6 +288,13 @@ const EventTableView: React.FC<EventTableViewProps> = ({
         }}
       />
 
+      <CloneEventDialog
+        event={eventToClone}
+        open={!!eventToClone}
+        onOpenChange={(open) => !open && setEventToClone(null)}
+        onSuccess={onRefetch}
+      />
+
       <EventDeleteConfirmation
         event={eventToDelete}
         open={!!eventToDelete}
@@ -0,0 +1,575 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { SearchableGroupedStaffSelect } from '@/components/ui/searchable-grouped-staff-select';
+import { useToast } from '@/hooks/use-toast';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  File01Icon,
+  Add01Icon,
+  Delete02Icon,
+  UserGroupIcon,
+  TaskDaily01Icon,
+  CheckmarkCircle01Icon,
+  Clock01Icon
+} from 'hugeicons-react';
+import { EventTemplate, EventTemplateCrewSlot, EventTemplateTask, TaskPriority, TaskType } from '@/types/studio';
+import { buildTemplateFromEvent, normalizeEventTemplate } from '@/lib/event-series-utils';
+import { CREW_ROLES } from '@/lib/role-utils';
+
+interface EventTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firmId: string;
+  onSuccess?: () => void;
+}
+
+// Draft templates have no id until they are saved
+type EventTemplateDraft = Omit<EventTemplate, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+interface PersonOption {
+  id: string;
+  full_name: string;
+  role?: string;
+  is_freelancer?: boolean;
+}
+
+const NEW_TEMPLATE = 'new';
+const TASK_TYPES: TaskType[] = ['Photo Editing', 'Video Editing', 'Other'];
+const TASK_PRIORITIES: TaskPriority[] = ['Low', 'Medium', 'High', 'Urgent'];
+
+const createTemplateDraft = (firmId: string): EventTemplateDraft => ({
+  firm_id: firmId,
+  name: '',
+  event_type: 'Others',
+  venue: '',
+  description: '',
+  total_days: 1,
+  total_amount: 0,
+  start_time: null,
+  end_time: null,
+  crew: [{ day_number: 1, role: 'Photographer', quantity: 1 }],
+  tasks: [],
+  is_active: true
+});
+
+// Crew slots store staff and freelancers in separate columns; the staff picker uses a prefix
+const toPersonValue = (slot: EventTemplateCrewSlot) =>
+  slot.freelancer_id ? `freelancer_${slot.freelancer_id}` : slot.staff_id || '';
+
+const fromPersonValue = (value: string): Pick<EventTemplateCrewSlot, 'staff_id' | 'freelancer_id'> =>
+  value.startsWith('freelancer_')
+    ? { staff_id: null, freelancer_id: value.replace('freelancer_', '') }
+    : { staff_id: value || null, freelancer_id: null };
+
+const EventTemplatesDialog = ({ open, onOpenChange, firmId, onSuccess }: EventTemplatesDialogProps) => {
+  const { toast } = useToast();
+  const { activeEventTypes } = useFirmEventTypes();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(NEW_TEMPLATE);
+  const [draft, setDraft] = useState<EventTemplateDraft>(createTemplateDraft(firmId));
+  const [people, setPeople] = useState<PersonOption[]>([]);
+  const [recentEvents, setRecentEvents] = useState<{ value: string; label: string }[]>([]);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [templatesResult, staffResult, freelancersResult, eventsResult] = await Promise.all([
+        supabase.from('event_templates').select('*').eq('firm_id', firmId).order('name'),
+        supabase.from('profiles').select('id, full_name, role').eq('firm_id', firmId).order('full_name'),
+        supabase.from('freelancers').select('id, full_name, role').eq('firm_id', firmId).order('full_name'),
+        supabase
+          .from('events')
+          .select('id, title, event_date')
+          .eq('firm_id', firmId)
+          .order('event_date', { ascending: false })
+          .limit(50)
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+
+      const rows = (templatesResult.data || []).map(normalizeEventTemplate);
+      setTemplates(rows);
+      setSelectedId(rows[0]?.id || NEW_TEMPLATE);
+      setDraft(rows[0] ? { ...rows[0] } : createTemplateDraft(firmId));
+      setPeople([
+        ...(staffResult.data || []),
+        ...(freelancersResult.data || []).map(freelancer => ({ ...freelancer, is_freelancer: true }))
+      ]);
+      setRecentEvents((eventsResult.data || []).map(event => ({
+        value: event.id,
+        label: `${event.title} • ${new Date(`${event.event_date}T00:00:00`).toLocaleDateString('en-IN')}`
+      })));
+    } catch (error) {
+      toast({
+        title: "Error loading templates",
+        description: error instanceof Error ? error.message : 'Failed to load event templates',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [firmId, toast]);
+
+  useEffect(() => {
+    if (open && firmId) {
+      loadData();
+    }
+  }, [open, firmId, loadData]);
+
+  const selectTemplate = (id: string, source = templates) => {
+    setSelectedId(id);
+    const template = source.find(t => t.id === id);
+    setDraft(template ? { ...template } : createTemplateDraft(firmId));
+  };
+
+  const updateDraft = (updates: Partial<EventTemplateDraft>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateCrewSlot = (index: number, updates: Partial<EventTemplateCrewSlot>) => {
+    updateDraft({ crew: draft.crew.map((slot, i) => i === index ? { ...slot, ...updates } : slot) });
+  };
+
+  const updateTask = (index: number, updates: Partial<EventTemplateTask>) => {
+    updateDraft({ tasks: draft.tasks.map((task, i) => i === index ? { ...task, ...updates } : task) });
+  };
+
+  const handleStartFromEvent = async (eventId: string) => {
+    try {
+      const fromEvent = await buildTemplateFromEvent(eventId);
+      updateDraft(fromEvent);
+      toast({
+        title: "Copied from event",
+        description: `${fromEvent.crew.length} crew slot${fromEvent.crew.length === 1 ? '' : 's'} and ${fromEvent.tasks.length} task${fromEvent.tasks.length === 1 ? '' : 's'} added`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error copying event",
+        description: error instanceof Error ? error.message : 'Failed to copy event',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name) {
+      toast({ title: "Template name is required", variant: "destructive" });
+      return;
+    }
+    if (templates.some(t => t.id !== draft.id && t.name.trim().toLowerCase() === name.toLowerCase())) {
+      toast({ title: "Template names must be unique", variant: "destructive" });
+      return;
+    }
+    if (draft.tasks.some(task => !task.title.trim())) {
+      toast({ title: "Every task needs a title", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        firm_id: firmId,
+        name,
+        event_type: draft.event_type,
+        venue: draft.venue?.trim() || null,
+        description: draft.description?.trim() || null,
+        total_days: draft.total_days,
+        total_amount: draft.total_amount,
+        // A call time needs both ends; a half-filled one is dropped
+        start_time: draft.start_time && draft.end_time ? draft.start_time : null,
+        end_time: draft.start_time && draft.end_time ? draft.end_time : null,
+        // Slots beyond the template's days would never be materialized
+        crew: draft.crew.filter(slot => slot.day_number <= draft.total_days) as unknown as Json,
+        tasks: draft.tasks.map(task => ({ ...task, title: task.title.trim() })) as unknown as Json,
+        is_active: draft.is_active
+      };
+
+      const { data, error } = draft.id
+        ? await supabase.from('event_templates').update(payload).eq('id', draft.id).select().single()
+        : await supabase.from('event_templates').insert(payload).select().single();
+
+      if (error) throw error;
+
+      const saved = normalizeEventTemplate(data);
+      const next = [...templates.filter(t => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name));
+      setTemplates(next);
+      selectTemplate(saved.id, next);
+
+      toast({
+        title: "Template saved",
+        description: "Use it from Recurring Events to create a series",
+      });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error saving template",
+        description: error instanceof Error ? error.message : 'Failed to save template',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+
+    setSaving(true);
+    try {
+      // Existing series keep their events; they just lose the link to the template
+      const { error } = await supabase.from('event_templates').delete().eq('id', draft.id);
+      if (error) throw error;
+
+      const next = templates.filter(t => t.id !== draft.id);
+      setTemplates(next);
+      selectTemplate(next[0]?.id || NEW_TEMPLATE, next);
+      toast({ title: "Template deleted" });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error deleting template",
+        description: error instanceof Error ? error.message : 'Failed to delete template',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dayOptions = Array.from({ length: Math.max(1, draft.total_days) }, (_, i) => i + 1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <File01Icon className="h-5 w-5 text-primary" />
+            Event Templates
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="text-center">
+              <File01Icon className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+              <p className="text-muted-foreground">Loading templates...</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Template</Label>
+                <Select value={selectedId} onValueChange={(value) => selectTemplate(value)}>
+                  <SelectTrigger className="rounded-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}{template.is_active ? '' : ' (inactive)'}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NEW_TEMPLATE}>+ New template</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Copy crew, rates and tasks from an event</Label>
+                <SearchableSelect
+                  value=""
+                  onValueChange={handleStartFromEvent}
+                  options={recentEvents}
+                  placeholder="Select a past event"
+                  searchPlaceholder="Search events..."
+                  className="rounded-full"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4 p-4 border rounded-xl bg-muted/20">
+              <div className="flex items-center gap-3">
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="Template name, e.g. Monthly product shoot"
+                  className="flex-1"
+                />
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={draft.is_active}
+                    onCheckedChange={(checked) => updateDraft({ is_active: checked })}
+                  />
+                  <span className="text-xs text-muted-foreground w-12">{draft.is_active ? 'Active' : 'Inactive'}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs text-muted-foreground">Event Type</Label>
+                  <Select value={draft.event_type} onValueChange={(value) => updateDraft({ event_type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeEventTypes.map(type => (
+                        <SelectItem key={type.id} value={type.name}>{type.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Days</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={draft.total_days}
+                    onChange={(e) => updateDraft({ total_days: Math.min(30, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Amount per Event</Label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={draft.total_amount}
+                      onChange={(e) => updateDraft({ total_amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="pl-8"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <Label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Clock01Icon className="h-3 w-3" />
+                    Call Time
+                  </Label>
+                  <Input
+                    type="time"
+                    value={draft.start_time?.slice(0, 5) || ''}
+                    onChange={(e) => updateDraft({ start_time: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Clock01Icon className="h-3 w-3" />
+                    Wrap Time
+                  </Label>
+                  <Input
+                    type="time"
+                    value={draft.end_time?.slice(0, 5) || ''}
+                    onChange={(e) => updateDraft({ end_time: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs text-muted-foreground">Venue</Label>
+                  <Input
+                    value={draft.venue || ''}
+                    onChange={(e) => updateDraft({ venue: e.target.value })}
+                    placeholder="Venue"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                With a call time each day becomes a session and crew clashes are checked for those hours only.
+              </p>
+              <Textarea
+                value={draft.description || ''}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder="Description"
+                rows={2}
+              />
+            </div>
+
+            {/* Crew */}
+            <div className="space-y-3">
+              <Label className="flex items-center gap-2 text-sm font-medium">
+                <UserGroupIcon className="h-4 w-4" />
+                Crew
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Slots with a person are assigned on every occurrence; role-only slots are a reminder of the crew still to book.
+              </p>
+              {draft.crew.map((slot, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                  <Select
+                    value={String(slot.day_number)}
+                    onValueChange={(value) => updateCrewSlot(index, { day_number: parseInt(value) })}
+                  >
+                    <SelectTrigger className="md:col-span-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dayOptions.map(day => (
+                        <SelectItem key={day} value={String(day)}>Day {day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={slot.role} onValueChange={(value) => updateCrewSlot(index, { role: value })}>
+                    <SelectTrigger className="md:col-span-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CREW_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <SearchableGroupedStaffSelect
+                    value={toPersonValue(slot)}
+                    onValueChange={(value) => updateCrewSlot(index, fromPersonValue(value))}
+                    staffOptions={people}
+                    placeholder="Anyone"
+                    allowClear
+                    className="md:col-span-4"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={slot.rate ?? ''}
+                    onChange={(e) => updateCrewSlot(index, { rate: parseFloat(e.target.value) || undefined })}
+                    placeholder="Rate ₹"
+                    className="md:col-span-2"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateDraft({ crew: draft.crew.filter((_, i) => i !== index) })}
+                    className="h-10 w-10 p-0 text-destructive md:col-span-1"
+                    aria-label="Remove crew slot"
+                  >
+                    <Delete02Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="rounded-full"
+                onClick={() => updateDraft({ crew: [...draft.crew, { day_number: 1, role: 'Photographer', quantity: 1 }] })}
+              >
+                <Add01Icon className="h-4 w-4 mr-2" />
+                Add Crew Slot
+              </Button>
+            </div>
+
+            <Separator />
+
+            {/* Default tasks */}
+            <div className="space-y-3">
+              <Label className="flex items-center gap-2 text-sm font-medium">
+                <TaskDaily01Icon className="h-4 w-4" />
+                Default Tasks
+              </Label>
+              {draft.tasks.map((task, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                  <Input
+                    value={task.title}
+                    onChange={(e) => updateTask(index, { title: e.target.value })}
+                    placeholder="Task title"
+                    className="col-span-2 md:col-span-4"
+                  />
+                  <Select value={task.task_type} onValueChange={(value) => updateTask(index, { task_type: value as TaskType })}>
+                    <SelectTrigger className="md:col-span-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TASK_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={task.priority} onValueChange={(value) => updateTask(index, { priority: value as TaskPriority })}>
+                    <SelectTrigger className="md:col-span-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TASK_PRIORITIES.map(priority => (
+                        <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={task.due_offset_days ?? ''}
+                    onChange={(e) => updateTask(index, {
+                      due_offset_days: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0)
+                    })}
+                    placeholder="Due +days"
+                    className="md:col-span-2"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateDraft({ tasks: draft.tasks.filter((_, i) => i !== index) })}
+                    className="h-10 w-10 p-0 text-destructive md:col-span-1"
+                    aria-label="Remove task"
+                  >
+                    <Delete02Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="rounded-full"
+                onClick={() => updateDraft({
+                  tasks: [...draft.tasks, { title: '', task_type: 'Photo Editing', priority: 'Medium', due_offset_days: 7 }]
+                })}
+              >
+                <Add01Icon className="h-4 w-4 mr-2" />
+                Add Task
+              </Button>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex justify-between gap-3 pt-6 border-t">
+              <div>
+                {draft.id && (
+                  <Button variant="outline" onClick={handleDelete} disabled={saving} className="text-destructive">
+                    <Delete02Icon className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="min-w-[120px]">
+                  Close
+                </Button>
+                <Button onClick={handleSave} disabled={saving} className="min-w-[120px]">
+                  <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+                  {saving ? "Saving..." : "Save Template"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventTemplatesDialog;
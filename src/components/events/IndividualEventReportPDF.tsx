@@ -5,6 +5,8 @@ import { Event } from '@/types/studio';
 import { formatEventDateRange } from '@/lib/date-utils';
 import { sharedStyles, SharedPDFHeader, SharedPDFFooter } from '@/components/pdf/SharedPDFLayout';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchEventSessions, formatSessionDate, formatSessionTimeRange, getSessionDayNumber, sortSessions } from '@/lib/event-session-utils';
+import { formatPaymentMethodDetails } from '@/lib/payment-method-validator';
 
 // Register Lexend font from local file
 Font.register({
@@ -18,6 +20,7 @@ interface IndividualEventReportProps {
     event_staff_assignments?: Array<{
       role: string;
       day_number: number;
+      session_id?: string | null;
       staff_id?: string;
       freelancer_id?: string;
       profiles?: { full_name: string } | null;
@@ -356,7 +359,17 @@ const IndividualEventReportDocument = ({ event, firmData }: IndividualEventRepor
     (event as any).quotation_source?.[0]?.quotation_details || // Array format quotation_source[0].quotation_details
     (event as any).quotation_details; // Direct quotation_details
 
-  // Group staff assignments by role and day - SEPARATE staff and freelancers
+  // Crew rows are sessions when the event is split into sessions, otherwise days
+  const sessions = sortSessions(event.event_sessions || []);
+  const crewRows = sessions.length > 0
+    ? sessions.map(session => ({
+        key: session.id,
+        day: getSessionDayNumber(event.event_date, session.session_date),
+        label: `${session.name} (${formatSessionTimeRange(session)})`
+      }))
+    : Array.from({ length: totalDays }, (_, i) => ({ key: String(i + 1), day: i + 1, label: `Day ${i + 1}` }));
+
+  // Group staff assignments by role and day/session - SEPARATE staff and freelancers
   const staffByRole = (event.event_staff_assignments || []).reduce((acc, assignment) => {
     const role = assignment.role?.trim();
     
@@ -364,21 +377,22 @@ const IndividualEventReportDocument = ({ event, firmData }: IndividualEventRepor
       return acc;
     }
     
+    const rowKey = assignment.session_id || String(assignment.day_number);
     if (!acc[role]) acc[role] = {};
-    if (!acc[role][assignment.day_number]) acc[role][assignment.day_number] = { staff: [], freelancers: [] };
+    if (!acc[role][rowKey]) acc[role][rowKey] = { staff: [], freelancers: [] };
     
     // Separate staff and freelancers - fixed staff name access
     if (assignment.staff_id) {
       const staffName = assignment.staff?.full_name || assignment.profiles?.full_name || 'Unknown Staff';
-      acc[role][assignment.day_number].staff.push(staffName);
+      acc[role][rowKey].staff.push(staffName);
     }
     if (assignment.freelancer_id) {
       const freelancerName = assignment.freelancer?.full_name || 'Unknown Freelancer';
-      acc[role][assignment.day_number].freelancers.push(freelancerName);
+      acc[role][rowKey].freelancers.push(freelancerName);
     }
     
     return acc;
-  }, {} as Record<string, Record<number, { staff: string[], freelancers: string[] }>>);
+  }, {} as Record<string, Record<string, { staff: string[], freelancers: string[] }>>);
 
   // Get all required roles from quotation, even if no assignments exist
   const getAllRequiredRoles = () => {
@@ -554,7 +568,7 @@ const IndividualEventReportDocument = ({ event, firmData }: IndividualEventRepor
                   <Text style={styles.tableCellAmount}>
                     {formatCurrency(payment.amount)}
                   </Text>
-                  <Text style={styles.tableCell}>{payment.payment_method}</Text>
+                  <Text style={styles.tableCell}>{formatPaymentMethodDetails(payment)}</Text>
                   <Text style={styles.tableCell}>
                     {payment.reference_number || 'N/A'}
                   </Text>
@@ -568,6 +582,28 @@ const IndividualEventReportDocument = ({ event, firmData }: IndividualEventRepor
       {/* Page 2: Staff Assignments - Show all required roles from quotation */}
       <Page size="A4" style={styles.page}>
         <Text style={styles.title}>Crew Assignments</Text>
+
+        {sessions.length > 0 && (
+          <View style={styles.roleSection}>
+            <Text style={styles.sectionTitle}>Sessions</Text>
+            <View style={styles.table}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableCellHeader, { flex: 1.5 }]}>Session</Text>
+                <Text style={[styles.tableCellHeader, { flex: 1.2 }]}>Date</Text>
+                <Text style={[styles.tableCellHeader, { flex: 1.5 }]}>Time</Text>
+                <Text style={[styles.tableCellHeader, { flex: 2 }]}>Venue</Text>
+              </View>
+              {sessions.map((session, index) => (
+                <View key={session.id} style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}>
+                  <Text style={[styles.tableCell, { flex: 1.5 }]}>{session.name}</Text>
+                  <Text style={[styles.tableCell, { flex: 1.2 }]}>{formatSessionDate(session.session_date)}</Text>
+                  <Text style={[styles.tableCell, { flex: 1.5 }]}>{formatSessionTimeRange(session)}</Text>
+                  <Text style={[styles.tableCellCenter, { flex: 2 }]}>{session.venue || event.venue || '~'}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
         
         <Text style={styles.sectionTitle}>Staff Assignments by Role</Text>
         
@@ -575,10 +611,10 @@ const IndividualEventReportDocument = ({ event, firmData }: IndividualEventRepor
           const roleDays = staffByRole[role] || {};
           
           // Get required count for this role from quotation - show actual counts
-          const getRequiredCount = (dayIndex: number) => {
+          const getRequiredCount = (dayIndex: number, rowKey: string) => {
             // If no quotation data, show the assigned count as required (for manual events)
             if (!quotationDetails?.days || !quotationDetails.days[dayIndex - 1]) {
-              const dayAssignments = roleDays[dayIndex] || { staff: [], freelancers: [] };
+              const dayAssignments = roleDays[rowKey] || { staff: [], freelancers: [] };
               return dayAssignments.staff.length + dayAssignments.freelancers.length;
             }
             const dayConfig = quotationDetails.days[dayIndex - 1];
@@ -599,21 +635,21 @@ const IndividualEventReportDocument = ({ event, firmData }: IndividualEventRepor
               
               <View style={styles.table}>
                 <View style={styles.tableHeader}>
-                  <Text style={[styles.tableCellHeader, { flex: 1.2 }]}>Day</Text>
+                  <Text style={[styles.tableCellHeader, { flex: 1.2 }]}>{sessions.length > 0 ? 'Session' : 'Day'}</Text>
                   <Text style={[styles.tableCellHeader, { flex: 0.8 }]}>Required</Text>
                   <Text style={[styles.tableCellHeader, { flex: 0.8 }]}>Assigned</Text>
                   <Text style={[styles.tableCellHeader, { flex: 2 }]}>Staff Members</Text>
                   <Text style={[styles.tableCellHeader, { flex: 2 }]}>Freelancers</Text>
                 </View>
                 
-                {Array.from({ length: totalDays }, (_, i) => i + 1).map(day => {
-                  const dayAssignments = roleDays[day] || { staff: [], freelancers: [] };
-                  const requiredCount = getRequiredCount(day);
+                {crewRows.map(({ key, day, label }, rowIndex) => {
+                  const dayAssignments = roleDays[key] || { staff: [], freelancers: [] };
+                  const requiredCount = getRequiredCount(day, key);
                   const totalAssigned = dayAssignments.staff.length + dayAssignments.freelancers.length;
                   
                   return (
-                    <View key={day} style={day % 2 === 1 ? styles.tableRow : styles.tableRowAlt}>
-                      <Text style={[styles.tableCell, { flex: 1.2 }]}>Day {day}</Text>
+                    <View key={key} style={rowIndex % 2 === 0 ? styles.tableRow : styles.tableRowAlt}>
+                      <Text style={[styles.tableCell, { flex: 1.2 }]}>{label}</Text>
                       <Text style={[styles.tableCell, { flex: 0.8 }]}>{requiredCount}</Text>
                       <Text style={[styles.tableCell, { flex: 0.8 }]}>{totalAssigned}</Text>
                       <Text style={[styles.tableCellCenter, { flex: 2 }]}>
@@ -1159,6 +1195,7 @@ const generateIndividualEventReport = async (event: IndividualEventReportProps['
       enhancedEvent.event_closing_balances = closingBalances || [];
       enhancedEvent.assignment_rates = assignmentRates || [];
       enhancedEvent.event_staff_assignments = eventStaffAssignments || [];
+      enhancedEvent.event_sessions = await fetchEventSessions(event.id);
       enhancedEvent.freelancer_details = freelancerDetails || [];
       enhancedEvent.staff_details = staffDetails || [];
       enhancedEvent.tasks = eventTasks || [];
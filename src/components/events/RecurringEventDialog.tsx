@@ -0,0 +1,441 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { InlineDatePicker } from '@/components/ui/inline-date-picker';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { RepeatIcon, File01Icon, Add01Icon, Cancel01Icon, CheckmarkCircle01Icon, Alert02Icon } from 'hugeicons-react';
+import { EventTemplate, RecurrenceFrequency } from '@/types/studio';
+import {
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCY_LABELS,
+  RecurrenceRule,
+  SeriesCrewConflict,
+  createEventSeries,
+  describeRecurrence,
+  expandRecurrence,
+  fetchSeriesCrewConflicts,
+  normalizeEventTemplate,
+  syncSeriesOccurrences
+} from '@/lib/event-series-utils';
+import EventTemplatesDialog from './EventTemplatesDialog';
+
+interface RecurringEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firmId: string;
+  onSuccess: () => void;
+}
+
+const PREVIEW_LIMIT = 12;
+
+const toDateValue = (date?: Date) => date ? format(date, 'yyyy-MM-dd') : '';
+
+const formatOccurrence = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const RecurringEventDialog = ({ open, onOpenChange, firmId, onSuccess }: RecurringEventDialogProps) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [clients, setClients] = useState<{ value: string; label: string }[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [title, setTitle] = useState('');
+  const [rule, setRule] = useState<RecurrenceRule>({ frequency: 'weekly', startDate: '', endDate: '', intervalCount: 1 });
+  const [customDate, setCustomDate] = useState<Date | undefined>();
+  const [creating, setCreating] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [crewConflicts, setCrewConflicts] = useState<SeriesCrewConflict[]>([]);
+  const [checkingConflicts, setCheckingConflicts] = useState(false);
+  const [allowConflicts, setAllowConflicts] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [templatesResult, clientsResult] = await Promise.all([
+        supabase.from('event_templates').select('*').eq('firm_id', firmId).eq('is_active', true).order('name'),
+        supabase.from('clients').select('id, name').eq('firm_id', firmId).order('name')
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+      if (clientsResult.error) throw clientsResult.error;
+
+      setTemplates((templatesResult.data || []).map(normalizeEventTemplate));
+      setClients((clientsResult.data || []).map(client => ({ value: client.id, label: client.name })));
+    } catch (error) {
+      toast({
+        title: "Error loading templates",
+        description: error instanceof Error ? error.message : 'Failed to load event templates',
+        variant: "destructive",
+      });
+    }
+  }, [firmId, toast]);
+
+  useEffect(() => {
+    if (open && firmId) {
+      loadData();
+    }
+  }, [open, firmId, loadData]);
+
+  const template = templates.find(t => t.id === templateId);
+  const occurrences = useMemo(() => expandRecurrence(rule), [rule]);
+
+  // Check the template's named crew against other bookings and leave on every occurrence
+  useEffect(() => {
+    let cancelled = false;
+    setAllowConflicts(false);
+
+    if (!open || !templateId || occurrences.length === 0) {
+      setCrewConflicts([]);
+      return;
+    }
+
+    setCheckingConflicts(true);
+    fetchSeriesCrewConflicts(templateId, occurrences)
+      .then(rows => {
+        if (!cancelled) setCrewConflicts(rows);
+      })
+      .catch(error => {
+        console.error('Error checking series crew conflicts:', error);
+        if (!cancelled) setCrewConflicts([]);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingConflicts(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, templateId, occurrences]);
+
+  const bookingClashes = crewConflicts.filter(conflict => !conflict.unavailable);
+  const leaveClashes = crewConflicts.filter(conflict => conflict.unavailable);
+  const conflictDates = new Set(crewConflicts.map(conflict => conflict.occurrence_date));
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const next = templates.find(t => t.id === id);
+    if (next && !title.trim()) {
+      setTitle(next.name);
+    }
+  };
+
+  const updateRule = (updates: Partial<RecurrenceRule>) => {
+    setRule(prev => ({ ...prev, ...updates }));
+  };
+
+  const addCustomDate = () => {
+    const value = toDateValue(customDate);
+    if (!value) return;
+    updateRule({ customDates: [...(rule.customDates || []), value] });
+    setCustomDate(undefined);
+  };
+
+  const resetForm = () => {
+    setTemplateId('');
+    setClientId('');
+    setTitle('');
+    setRule({ frequency: 'weekly', startDate: '', endDate: '', intervalCount: 1 });
+    setCustomDate(undefined);
+  };
+
+  const handleCreate = async () => {
+    if (!template || !clientId || !title.trim()) {
+      toast({
+        title: "Missing details",
+        description: "Select a template and client, and enter a title",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (occurrences.length === 0) {
+      toast({
+        title: "No dates in this series",
+        description: "Choose an end date after the start date, or add custom dates",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (bookingClashes.length > 0 && !allowConflicts) {
+      toast({
+        title: "Crew clashes in this series",
+        description: "Review the clashes below and confirm to book the crew anyway",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { eventIds } = await createEventSeries({ templateId: template.id, title, clientId, rule, allowConflicts });
+
+      toast({
+        title: "Recurring events created",
+        description: `${eventIds.length} event${eventIds.length === 1 ? '' : 's'} added from "${template.name}"`,
+      });
+
+      resetForm();
+      onSuccess();
+      onOpenChange(false);
+
+      // Calendar and sheet sync run in the background, one occurrence at a time
+      syncSeriesOccurrences(eventIds, firmId, 'create');
+    } catch (error) {
+      toast({
+        title: "Error creating recurring events",
+        description: error instanceof Error ? error.message : 'Failed to create the series',
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <RepeatIcon className="h-5 w-5 text-primary" />
+              Recurring Events
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Template *</Label>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => setTemplatesOpen(true)}
+                  >
+                    <File01Icon className="h-3 w-3 mr-1" />
+                    Manage templates
+                  </Button>
+                </div>
+                <Select value={templateId} onValueChange={handleTemplateChange}>
+                  <SelectTrigger className="rounded-full">
+                    <SelectValue placeholder={templates.length ? "Select template" : "No templates yet"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {template && (
+                  <p className="text-xs text-muted-foreground">
+                    {template.event_type} • {template.total_days} day{template.total_days === 1 ? '' : 's'} •
+                    {' '}{template.crew.length} crew • {template.tasks.length} task{template.tasks.length === 1 ? '' : 's'} •
+                    {' '}₹{template.total_amount.toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Client *</Label>
+                <SearchableSelect
+                  value={clientId}
+                  onValueChange={setClientId}
+                  options={clients}
+                  placeholder="Select client"
+                  searchPlaceholder="Search clients..."
+                  className="rounded-full"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Event Title *</Label>
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Monthly catalogue shoot"
+                className="rounded-full"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Repeats</Label>
+                <Select
+                  value={rule.frequency}
+                  onValueChange={(value) => updateRule({ frequency: value as RecurrenceFrequency })}
+                >
+                  <SelectTrigger className="rounded-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>{RECURRENCE_FREQUENCY_LABELS[frequency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {rule.frequency !== 'custom' && (
+                <div className="space-y-2">
+                  <Label>Every</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={12}
+                      value={rule.intervalCount || 1}
+                      onChange={(e) => updateRule({ intervalCount: Math.min(12, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      className="rounded-full w-24"
+                    />
+                    <span className="text-sm text-muted-foreground">{rule.frequency === 'weekly' ? 'week(s)' : 'month(s)'}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {rule.frequency === 'custom' ? (
+              <div className="space-y-2">
+                <Label>Dates</Label>
+                <div className="flex gap-2">
+                  <div className="h-10 flex-1">
+                    <InlineDatePicker value={customDate} onSelect={setCustomDate} placeholder="DD/MM/YYYY" />
+                  </div>
+                  <Button type="button" variant="outline" onClick={addCustomDate} disabled={!customDate}>
+                    <Add01Icon className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>First Event *</Label>
+                  <div className="h-10">
+                    <InlineDatePicker
+                      value={rule.startDate ? new Date(`${rule.startDate}T00:00:00`) : undefined}
+                      onSelect={(date) => updateRule({ startDate: toDateValue(date) })}
+                      placeholder="DD/MM/YYYY"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Repeat Until *</Label>
+                  <div className="h-10">
+                    <InlineDatePicker
+                      value={rule.endDate ? new Date(`${rule.endDate}T00:00:00`) : undefined}
+                      onSelect={(date) => updateRule({ endDate: toDateValue(date) })}
+                      placeholder="DD/MM/YYYY"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Preview */}
+            <div className="space-y-2 p-4 border rounded-xl bg-muted/20">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  {occurrences.length} occurrence{occurrences.length === 1 ? '' : 's'}
+                </span>
+                <span className="text-xs text-muted-foreground">{describeRecurrence(rule)}</span>
+              </div>
+              {occurrences.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Pick dates to preview the events that will be created.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {occurrences.slice(0, PREVIEW_LIMIT).map(date => (
+                    <Badge
+                      key={date}
+                      variant="outline"
+                      className={`gap-1 ${conflictDates.has(date) ? 'border-amber-400 text-amber-700' : ''}`}
+                    >
+                      {formatOccurrence(date)}
+                      {rule.frequency === 'custom' && (
+                        <button
+                          type="button"
+                          onClick={() => updateRule({ customDates: (rule.customDates || []).filter(d => d !== date) })}
+                          aria-label="Remove date"
+                        >
+                          <Cancel01Icon className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                  {occurrences.length > PREVIEW_LIMIT && (
+                    <Badge variant="secondary">+{occurrences.length - PREVIEW_LIMIT} more</Badge>
+                  )}
+                </div>
+              )}
+              {occurrences.length >= MAX_SERIES_OCCURRENCES && (
+                <p className="text-xs text-muted-foreground">A series is limited to {MAX_SERIES_OCCURRENCES} events.</p>
+              )}
+            </div>
+
+            {checkingConflicts ? (
+              <p className="text-xs text-muted-foreground">Checking crew availability...</p>
+            ) : crewConflicts.length > 0 && (
+              <div className="space-y-3 p-4 border border-amber-200 rounded-xl bg-amber-50">
+                <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+                  <Alert02Icon className="h-4 w-4" />
+                  {crewConflicts.length} crew clash{crewConflicts.length === 1 ? '' : 'es'} on {conflictDates.size} occurrence{conflictDates.size === 1 ? '' : 's'}
+                </div>
+                <ul className="space-y-1 max-h-40 overflow-y-auto text-xs text-amber-900">
+                  {crewConflicts.map((conflict, index) => (
+                    <li key={`${conflict.slot_date}-${conflict.staff_id || conflict.freelancer_id}-${index}`}>
+                      {formatOccurrence(conflict.slot_date)} • {conflict.person_name || 'Crew member'} ({conflict.role}) •{' '}
+                      {conflict.unavailable ? 'on approved leave' : `booked on ${conflict.conflict_event_title}`}
+                    </li>
+                  ))}
+                </ul>
+                {leaveClashes.length > 0 && (
+                  <p className="text-xs text-amber-800">Crew on leave is left off those occurrences.</p>
+                )}
+                {bookingClashes.length > 0 && (
+                  <Label htmlFor="series-allow-conflicts" className="flex items-center gap-2 text-xs font-normal text-amber-900 cursor-pointer">
+                    <Checkbox
+                      id="series-allow-conflicts"
+                      checked={allowConflicts}
+                      onCheckedChange={(checked) => setAllowConflicts(checked === true)}
+                    />
+                    Book the crew anyway on the clashing dates
+                  </Label>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-6 border-t">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={creating} className="min-w-[120px]">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={creating || checkingConflicts || occurrences.length === 0 || (bookingClashes.length > 0 && !allowConflicts)}
+                className="min-w-[120px]"
+              >
+                <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+                {creating ? "Creating..." : `Create ${occurrences.length || ''} Events`}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <EventTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        firmId={firmId}
+        onSuccess={loadData}
+      />
+    </>
+  );
+};
+
+export default RecurringEventDialog;
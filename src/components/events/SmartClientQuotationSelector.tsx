@@ -5,6 +5,7 @@ import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { Quotation } from '@/types/studio';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
 
 interface SmartClientQuotationSelectorProps {
   selectedClientId: string | null;
@@ -66,9 +67,7 @@ const SmartClientQuotationSelector = ({
           <div className="flex-1 text-left">
             <div className="font-medium text-sm truncate">{existingQuotation.title || 'Untitled Quotation'}</div>
             <div className="text-xs text-muted-foreground truncate">
-              ₹{((existingQuotation.discount_amount && existingQuotation.discount_amount > 0) 
-                ? (existingQuotation.amount - existingQuotation.discount_amount) 
-                : existingQuotation.amount || 0).toLocaleString()} • {new Date(existingQuotation.event_date || Date.now()).toLocaleDateString()}
+              ₹{getQuotationFinalAmount(existingQuotation).toLocaleString()} • {new Date(existingQuotation.event_date || Date.now()).toLocaleDateString()}
             </div>
           </div>
         </div>
@@ -93,9 +92,7 @@ const SmartClientQuotationSelector = ({
           }}
           options={quotations.map(quotation => ({
             value: quotation.id,
-            label: `${quotation.title || 'Untitled Quotation'} - ₹${((quotation.discount_amount && quotation.discount_amount > 0) 
-              ? (quotation.amount - quotation.discount_amount) 
-              : quotation.amount || 0).toLocaleString()} • ${new Date(quotation.event_date || Date.now()).toLocaleDateString()}`
+            label: `${quotation.title || 'Untitled Quotation'} - ₹${getQuotationFinalAmount(quotation).toLocaleString()} • ${new Date(quotation.event_date || Date.now()).toLocaleDateString()}`
           }))}
           placeholder="Select quotation"
           
@@ -2,12 +2,9 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Event, Client, EventFormData, Quotation } from '@/types/studio';
+import { Event, Client, EventFormData, Quotation, EventType } from '@/types/studio';
 import { sanitizeUuidFields } from '@/lib/uuid-utils';
 import { getQuotationEventType, getQuotationVenue, getQuotationTotalAmount, getQuotationAdvanceAmount, getQuotationDays, getQuotationSameDayEditing, parseQuotationDetails } from '@/lib/type-utils';
-import type { Database } from '@/integrations/supabase/types';
-
-type EventType = Database['public']['Enums']['event_type'];
 
 interface Staff {
   id: string;
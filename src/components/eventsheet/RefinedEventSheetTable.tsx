@@ -3,19 +3,21 @@ import { useState } from 'react';
 import { PageTableSkeleton } from '@/components/ui/skeleton';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { getEventTypeColors, getStatusColors } from '@/lib/status-colors';
-import { getEventStatusColor, getEventStatus } from '@/lib/event-status-utils';
+import { getEventLifecycleStatus, isEventCancelled } from '@/lib/event-status-utils';
+import EventStatusMenu from '@/components/events/EventStatusMenu';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar01Icon, Camera01Icon, Video01Icon, DollarCircleIcon, DroneIcon } from 'hugeicons-react';
+import { Calendar01Icon, Camera01Icon, Video01Icon, DollarCircleIcon, DroneIcon, Copy01Icon } from 'hugeicons-react';
 import { Calendar, Edit } from 'lucide-react';
 import { formatEventDateRange } from '@/lib/date-utils';
 import StatsGrid from '@/components/ui/stats-grid';
 import { Event } from '@/types/studio';
 import { EmptyState } from '@/components/ui/empty-state';
 import EventFinancialSummaryDialog from '@/components/events/EventFinancialSummaryDialog';
+import CloneEventDialog from '@/components/events/CloneEventDialog';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { getEventTypeColor } from '@/lib/event-type-utils';
 
 interface RefinedEventSheetTableProps {
   events: Event[];
@@ -31,6 +33,7 @@ const RefinedEventSheetTable = ({
   const { toast } = useToast();
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [reportDialogOpen, setReportDialogOpen] = useState(false);
+  const [eventToClone, setEventToClone] = useState<Event | null>(null);
 
     const isMobile = useIsMobile();
 
@@ -40,8 +43,12 @@ const RefinedEventSheetTable = ({
   };
 
 
-  const getEventTypeColor = (eventType: string) => {
-    return getEventTypeColors(eventType, 'text');
+  const { eventTypes } = useFirmEventTypes();
+
+  const handleCloneClick = (e: React.MouseEvent, event: Event) => {
+    // Keep the row click from opening the financial summary
+    e.stopPropagation();
+    setEventToClone(event);
   };
 
 
@@ -57,9 +64,12 @@ const RefinedEventSheetTable = ({
   const eventsToShow = events;
 
   const totalEvents = eventsToShow.length;
-  const totalRevenue = eventsToShow.reduce((sum, event) => sum + (event.total_amount || 0), 0);
-  const completedEvents = eventsToShow.filter(event => getEventStatus(event).label === 'COMPLETED').length;
-  const inProgressEvents = eventsToShow.filter(event => getEventStatus(event).label === 'IN PROGRESS').length;
+  // Cancelled events stay listed but no longer contribute to revenue
+  const totalRevenue = eventsToShow
+    .filter(event => !isEventCancelled(event))
+    .reduce((sum, event) => sum + (event.total_amount || 0), 0);
+  const completedEvents = eventsToShow.filter(event => getEventLifecycleStatus(event) === 'Delivered').length;
+  const inProgressEvents = eventsToShow.filter(event => ['Shooting', 'Editing'].includes(getEventLifecycleStatus(event))).length;
 
   if (loading) {
     return <PageTableSkeleton />;
@@ -82,13 +92,13 @@ const RefinedEventSheetTable = ({
           colorClass: "bg-primary/20 text-primary"
         },
         {
-          title: "Completed",
+          title: "Delivered",
           value: completedEvents,
           icon: <Camera01Icon className="h-4 w-4" />,
           colorClass: "bg-primary/20 text-primary"
         },
         {
-          title: "In Progress",
+          title: "In Production",
           value: inProgressEvents,
           icon: <Video01Icon className="h-4 w-4" />,
           colorClass: "bg-primary/20 text-primary"
@@ -122,11 +132,11 @@ const RefinedEventSheetTable = ({
                     <TableHead className="text-center">Staff</TableHead>
                     <TableHead className="text-center">Status</TableHead>
                     <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="w-12" />
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {eventsToShow.map((event) => {
-                    const eventStatus = getEventStatusColor(event);
                     return (
                       <TableRow 
                         key={event.id} 
@@ -152,7 +162,7 @@ const RefinedEventSheetTable = ({
                           </div>
                         </TableCell>
                         <TableCell className="text-center">
-                          <span className={`font-medium ${getEventTypeColors(event.event_type)}`}>
+                          <span className="font-medium" style={{ color: getEventTypeColor(eventTypes, event.event_type) }}>
                             {event.event_type}
                           </span>
                         </TableCell>
@@ -240,13 +250,23 @@ const RefinedEventSheetTable = ({
                           </div>
                         </TableCell>
                         <TableCell className="text-center">
-                          <span className={`text-sm font-medium ${eventStatus.color}`}>
-                            {eventStatus.label.toUpperCase()}
-                          </span>
+                          <EventStatusMenu event={event} onStatusChanged={() => onRefresh()} />
                         </TableCell>
                          <TableCell className="text-right font-semibold">
                            {event.total_amount ? `₹${event.total_amount.toLocaleString()}` : '~'}
                          </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={(e) => handleCloneClick(e, event)}
+                            aria-label="Clone event"
+                            title="Clone event"
+                          >
+                            <Copy01Icon className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -258,7 +278,6 @@ const RefinedEventSheetTable = ({
           {/* Mobile Card View */}
           <div className="lg:hidden space-y-4">
             {eventsToShow.map((event) => {
-              const eventStatus = getEventStatusColor(event);
               const staffAssignments = (event as any).event_staff_assignments || [];
               return (
                 <Card 
@@ -273,9 +292,7 @@ const RefinedEventSheetTable = ({
                           <span className="text-lg font-bold text-foreground">
                             {event.title}
                           </span>
-                          <Badge variant="secondary" className={`text-xs ${eventStatus.color}`}>
-                            {eventStatus.label}
-                          </Badge>
+                          <EventStatusMenu event={event} onStatusChanged={() => onRefresh()} />
                         </div>
                         <div className="text-sm text-muted-foreground">
                           {event.client?.name || '~'}
@@ -285,6 +302,15 @@ const RefinedEventSheetTable = ({
                         <div className="text-lg font-bold text-primary">
                           {event.total_amount ? `₹${event.total_amount.toLocaleString()}` : '~'}
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs mt-1"
+                          onClick={(e) => handleCloneClick(e, event)}
+                        >
+                          <Copy01Icon className="h-3.5 w-3.5 mr-1" />
+                          Clone
+                        </Button>
                       </div>
                     </div>
                     
@@ -297,7 +323,7 @@ const RefinedEventSheetTable = ({
                       </div>
                       <div>
                         <div className="text-xs text-muted-foreground">Type</div>
-                        <span className={`font-medium ${getEventTypeColors(event.event_type)}`}>
+                        <span className="font-medium" style={{ color: getEventTypeColor(eventTypes, event.event_type) }}>
                           {event.event_type}
                         </span>
                       </div>
@@ -328,6 +354,13 @@ const RefinedEventSheetTable = ({
           open={reportDialogOpen}
           onOpenChange={setReportDialogOpen}
         />
+
+        <CloneEventDialog
+          event={eventToClone}
+          open={!!eventToClone}
+          onOpenChange={(open) => !open && setEventToClone(null)}
+          onSuccess={() => onRefresh()}
+        />
       </div>
     );
   };
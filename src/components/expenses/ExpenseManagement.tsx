@@ -12,6 +12,7 @@ import { useSubscriptionAccess } from '@/hooks/useSubscriptionAccess';
 import { useToast } from '@/hooks/use-toast';
 import { UnifiedDialog } from '@/components/ui/unified-dialog';
 import { supabase } from '@/integrations/supabase/client';
+import { moveToTrash } from '@/lib/trash-utils';
 import { UniversalPagination } from '@/components/common/UniversalPagination';
 
 const ExpenseManagement = () => {
@@ -48,7 +49,7 @@ const ExpenseManagement = () => {
     setConfirmDialog({
       open: true,
       title: 'Delete Expense',
-      description: `You are about to permanently delete this expense "${expense.description}". This action cannot be undone.`,
+      description: `You are about to delete this expense "${expense.description}". It moves to Trash, where it can be restored.`,
       onConfirm: async () => {
         if (submitting) return;
         
@@ -124,16 +125,11 @@ const ExpenseManagement = () => {
             }
           }
 
-          const { error } = await supabase
-            .from('expenses')
-            .delete()
-            .eq('id', expense.id);
-
-          if (error) throw error;
+          await moveToTrash('expenses', expense.id);
           
           toast({
-            title: "Expense Deleted",
-            description: "Expense has been deleted from both database and Google Sheets",
+            title: "Expense Moved to Trash",
+            description: "Expense was removed from Google Sheets and can be restored from Trash",
           });
           refetch();
         } catch (error: any) {
@@ -7,6 +7,7 @@ import { useFinanceStatsWithAccounting } from './hooks/useFinanceStatsWithAccoun
 import FinanceHeader from './FinanceHeader';
 import FinanceStats from './FinanceStats';
 import RedesignedFinanceCharts from './RedesignedFinanceCharts';
+import FinancialOverviewDonut from './FinancialOverviewDonut';
 
 import { useToast } from '@/hooks/use-toast';
 import { BarChart3, FileText } from 'lucide-react';
@@ -81,7 +82,8 @@ const EnhancedFinanceManagement = () => {
             customStartDate={customStartDate?.toISOString().split('T')[0]}
             customEndDate={customEndDate?.toISOString().split('T')[0]}
           />
-          
+
+          <FinancialOverviewDonut stats={stats} paymentMethodStats={stats.paymentMethodStats} />
           
           <RedesignedFinanceCharts 
             stats={stats} 
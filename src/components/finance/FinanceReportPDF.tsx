@@ -5,6 +5,20 @@ import { SharedPDFHeader, SharedPDFFooter, sharedStyles, SimpleTable } from '@/c
 import { supabase } from '@/integrations/supabase/client';
 import { formatDate } from '@/lib/date-utils';
 import { parsePaymentMethod } from '@/lib/payment-method-validator';
+import { FirmTaxSettings } from '@/types/studio';
+import { getEventTaxBreakdown, scaleTaxBreakdown, toFirmTaxSettings } from '@/lib/gst-utils';
+
+// GST contained in an amount received against an event
+const getReceiptTax = (
+  event: Parameters<typeof getEventTaxBreakdown>[0] | undefined,
+  amount: number,
+  settings: FirmTaxSettings
+) => {
+  const breakdown = event ? getEventTaxBreakdown(event, settings) : null;
+  if (!breakdown) return null;
+  const share = scaleTaxBreakdown(breakdown, amount);
+  return { taxableValue: share.taxableValue, cgst: share.cgst, sgst: share.sgst, igst: share.igst };
+};
 
 interface FinanceReportProps {
   stats: any;
@@ -63,6 +77,16 @@ const FinanceReportDocument: React.FC<FinanceReportProps> = ({
   const cashOut = paymentOutDetails.reduce((sum, p) => sum + (parsePaymentMethod(p.payment_method) === 'Cash' ? (p.amount || 0) : 0), 0);
   const digitalOut = paymentOutDetails.reduce((sum, p) => sum + (parsePaymentMethod(p.payment_method) === 'Cash' ? 0 : (p.amount || 0)), 0);
 
+  // GST on receipts in the period (payments and advances against events)
+  const gstSummary = paymentInDetails.reduce((totals, p) => p.tax ? {
+    taxableValue: totals.taxableValue + p.tax.taxableValue,
+    cgst: totals.cgst + p.tax.cgst,
+    sgst: totals.sgst + p.tax.sgst,
+    igst: totals.igst + p.tax.igst
+  } : totals, { taxableValue: 0, cgst: 0, sgst: 0, igst: 0 });
+  const totalGst = gstSummary.cgst + gstSummary.sgst + gstSummary.igst;
+  const formatTax = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
   // Split data into chunks of 15 for better pagination
   const ROWS_PER_PAGE = 15;
   const paymentInChunks = [];
@@ -149,6 +173,34 @@ const FinanceReportDocument: React.FC<FinanceReportProps> = ({
             </View>
           </View>
         </View>
+
+        {firmData?.gstin && (
+          <View style={sharedStyles.detailsContainer}>
+            <View style={sharedStyles.column}>
+              <Text style={sharedStyles.sectionTitle}>GST Summary (GSTIN {firmData.gstin})</Text>
+              <View style={sharedStyles.detailRow}>
+                <Text style={sharedStyles.detailLabel}>Taxable Value:</Text>
+                <Text style={sharedStyles.detailValue}>{formatTax(gstSummary.taxableValue)}</Text>
+              </View>
+              <View style={sharedStyles.detailRow}>
+                <Text style={sharedStyles.detailLabel}>CGST:</Text>
+                <Text style={sharedStyles.detailValue}>{formatTax(gstSummary.cgst)}</Text>
+              </View>
+              <View style={sharedStyles.detailRow}>
+                <Text style={sharedStyles.detailLabel}>SGST:</Text>
+                <Text style={sharedStyles.detailValue}>{formatTax(gstSummary.sgst)}</Text>
+              </View>
+              <View style={sharedStyles.detailRow}>
+                <Text style={sharedStyles.detailLabel}>IGST:</Text>
+                <Text style={sharedStyles.detailValue}>{formatTax(gstSummary.igst)}</Text>
+              </View>
+              <View style={sharedStyles.detailRow}>
+                <Text style={sharedStyles.detailLabel}>Total GST:</Text>
+                <Text style={sharedStyles.detailValue}>{formatTax(totalGst)}</Text>
+              </View>
+            </View>
+          </View>
+        )}
       </Page>
 
       {/* Payment In Tables - 15 rows per page */}
@@ -287,6 +339,8 @@ export const generateFinanceReportPDF = async (
       firmId: currentFirmId
     });
 
+    const taxSettings = toFirmTaxSettings(firmData);
+
     // Fetch Payment In details (payments + advance amounts)
     const paymentInDetails: any[] = [];
     
@@ -313,7 +367,7 @@ export const generateFinanceReportPDF = async (
     // Get event titles for payments
     const { data: allEvents } = await supabase
       .from('events')
-      .select('id, title')
+      .select('id, title, total_amount, tax_pricing, place_of_supply, tax_breakdown, client:clients(state_code)')
       .eq('firm_id', currentFirmId);
     
     payments?.forEach(payment => {
@@ -323,7 +377,8 @@ export const generateFinanceReportPDF = async (
         source: event?.title || 'General Payment',
         amount: payment.amount,
         payment_method: payment.payment_method,
-        type: 'payment'
+        type: 'payment',
+        tax: getReceiptTax(event, payment.amount, taxSettings)
       });
     });
 
@@ -356,7 +411,8 @@ export const generateFinanceReportPDF = async (
           source: `${event.title} (Advance)`,
           amount: event.advance_amount,
           payment_method: event.advance_payment_method,
-          type: 'advance'
+          type: 'advance',
+          tax: getReceiptTax(allEvents?.find(e => e.id === event.id), event.advance_amount, taxSettings)
         });
       }
     });
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, TooltipProps } from 'recharts';
+import { PaymentMethodStat, getPaymentMethodChartColor } from '@/lib/payment-method-validator';
 
 interface FinancialOverviewDonutProps {
   stats: {
@@ -13,20 +14,32 @@ interface FinancialOverviewDonutProps {
     totalClosedAmount?: number;
     totalAdvanceAmounts?: number;
   };
+  // Collected money by method; when given, it replaces the single Collected slice
+  paymentMethodStats?: PaymentMethodStat[];
 }
 
-const FinancialOverviewDonut = ({ stats }: FinancialOverviewDonutProps) => {
+const FinancialOverviewDonut = ({ stats, paymentMethodStats }: FinancialOverviewDonutProps) => {
   // Calculate total financial flow for proper percentage calculation
   const totalFinancialValue = stats.paymentIn + stats.pendingAmount + stats.totalExpenses;
+  const getPercentage = (value: number) => totalFinancialValue > 0 ? ((value / totalFinancialValue) * 100).toFixed(1) : '0.0';
+
+  const collectedData = paymentMethodStats?.length
+    ? paymentMethodStats.map((item, index) => ({
+        name: item.method,
+        value: item.amount,
+        color: getPaymentMethodChartColor(item.method, index),
+        percentage: getPercentage(item.amount)
+      }))
+    : [{
+        name: 'Collected',
+        value: stats.paymentIn,
+        color: 'hsl(var(--success))',
+        percentage: getPercentage(stats.paymentIn)
+      }];
   
   // Prepare comprehensive financial data showing ALL real categories
   const chartData = [
-    {
-      name: 'Collected',
-      value: stats.paymentIn,
-      color: 'hsl(var(--success))',
-      percentage: totalFinancialValue > 0 ? ((stats.paymentIn / totalFinancialValue) * 100).toFixed(1) : '0.0'
-    },
+    ...collectedData,
     {
       name: 'Pending',
       value: stats.pendingAmount,
@@ -47,7 +60,7 @@ const FinancialOverviewDonut = ({ stats }: FinancialOverviewDonutProps) => {
     }
   ].filter(item => item.value > 0); // Only show categories with positive values
 
-  const CustomTooltip = ({ active, payload }: any) => {
+  const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
     if (active && payload && payload.length) {
       const data = payload[0];
       return (
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, LineChart, Line } from 'recharts';
+import { PaymentMethodStat, getPaymentMethodChartColor } from '@/lib/payment-method-validator';
 
 interface RedesignedFinanceChartsProps {
   stats: any;
@@ -21,9 +22,6 @@ const RedesignedFinanceCharts = ({ stats, timeRange }: RedesignedFinanceChartsPr
     maintenance: 'hsl(var(--category-maintenance))',
     salary: 'hsl(var(--category-salary))',
     other: 'hsl(var(--category-other))',
-    // Payment methods (Cash vs Digital only)
-    cash: 'hsl(var(--success))',
-    digital: 'hsl(var(--primary))',
     // Revenue colors
     revenue: 'hsl(var(--success))',
     expenses: 'hsl(var(--destructive))',
@@ -50,13 +48,11 @@ const RedesignedFinanceCharts = ({ stats, timeRange }: RedesignedFinanceChartsPr
     profit: 0
   }];
 
-  // Payment method distribution (Cash vs Digital only)
-  const paymentMethods = stats?.paymentMethodStats?.filter((item: any) => 
-    item.method === 'Cash' || item.method === 'Digital'
-  ).map((item: any) => ({
+  // Payment method distribution (Cash, UPI, bank transfers, cleared cheques, card and firm methods)
+  const paymentMethods = (stats?.paymentMethodStats as PaymentMethodStat[] | undefined)?.filter(item => item.amount > 0).map((item, index) => ({
     name: item.method,
     value: item.amount,
-    color: item.method === 'Cash' ? CHART_COLORS.cash : CHART_COLORS.digital
+    color: getPaymentMethodChartColor(item.method, index)
   })) || [];
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -156,7 +152,7 @@ const RedesignedFinanceCharts = ({ stats, timeRange }: RedesignedFinanceChartsPr
             Payment Methods Distribution
           </CardTitle>
           <CardDescription>
-            Breakdown of all payments by method (Cash vs Digital)
+            Breakdown of collected payments by method
           </CardDescription>
         </CardHeader>
         <CardContent className="p-2 sm:p-4 md:p-6">
@@ -4,11 +4,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getDateRangeForFinance } from '@/lib/date-utils';
 import { useAccountingEntries } from '@/hooks/useAccountingEntries';
+import { PaymentMethodStat, isPaymentCollected } from '@/lib/payment-method-validator';
 
 interface EnhancedStats {
   totalEvents: number;
   paymentIn: number;
   paymentOut: number;
+  totalRefunds: number;
   netProfit: number;
   totalRevenue: number;
   totalExpenses: number;
@@ -19,7 +21,7 @@ interface EnhancedStats {
   monthlyExpenses: number;
   pendingTasks: number;
   expensesByCategory?: any[];
-  paymentMethodStats?: any[];
+  paymentMethodStats?: PaymentMethodStat[];
   monthlyStats?: any[];
 }
 
@@ -108,7 +110,7 @@ export const useEnhancedFinanceStats = (
       // Fetch payments with date filtering
       let paymentsQuery = supabase
         .from('payments')
-        .select('amount, payment_date, event_id, payment_method')
+        .select('amount, payment_date, event_id, payment_method, cheque_status')
         .eq('firm_id', currentFirmId);
 
       if (!isGlobal) {
@@ -119,8 +121,57 @@ export const useEnhancedFinanceStats = (
           .lte('payment_date', endDateStr);
       }
 
-      const { data: payments, error: paymentsError } = await paymentsQuery;
+      const { data: allPayments, error: paymentsError } = await paymentsQuery;
       if (paymentsError) throw paymentsError;
+      // Cheques only count as collected once cleared
+      const payments = allPayments?.filter(isPaymentCollected);
+
+      // Fetch refunds with date filtering - money returned to clients
+      let refundsQuery = supabase
+        .from('event_refunds')
+        .select('amount, refund_date, refund_method')
+        .eq('firm_id', currentFirmId);
+
+      if (!isGlobal) {
+        const startDateStr = startDate.toISOString().split('T')[0];
+        const endDateStr = endDate.toISOString().split('T')[0];
+        refundsQuery = refundsQuery
+          .gte('refund_date', startDateStr)
+          .lte('refund_date', endDateStr);
+      }
+
+      const { data: refunds, error: refundsError } = await refundsQuery;
+      if (refundsError) throw refundsError;
+
+      // Fetch client receipts with date filtering - one payment split across a client's events
+      let clientReceiptsQuery = supabase
+        .from('client_receipts')
+        .select('amount, payment_date, payment_method, cheque_status')
+        .eq('firm_id', currentFirmId);
+
+      if (!isGlobal) {
+        const startDateStr = startDate.toISOString().split('T')[0];
+        const endDateStr = endDate.toISOString().split('T')[0];
+        clientReceiptsQuery = clientReceiptsQuery
+          .gte('payment_date', startDateStr)
+          .lte('payment_date', endDateStr);
+      }
+
+      const { data: allClientReceipts, error: clientReceiptsError } = await clientReceiptsQuery;
+      if (clientReceiptsError) throw clientReceiptsError;
+      const clientReceipts = allClientReceipts?.filter(isPaymentCollected);
+
+      // Client receipts taken between two dates, added to the money received in that period
+      const sumClientReceiptsBetween = (from: Date, to: Date) => clientReceipts?.filter(receipt => {
+        const receiptDate = new Date(receipt.payment_date);
+        return receiptDate >= from && receiptDate <= to;
+      }).reduce((sum, receipt) => sum + receipt.amount, 0) || 0;
+
+      // Refunds given between two dates, taken off the money received in that period
+      const sumRefundsBetween = (from: Date, to: Date) => refunds?.filter(refund => {
+        const refundDate = new Date(refund.refund_date);
+        return refundDate >= from && refundDate <= to;
+      }).reduce((sum, refund) => sum + refund.amount, 0) || 0;
 
       // Fetch freelancer payments with date filtering
       let freelancerPaymentsQuery = supabase
@@ -208,8 +259,14 @@ export const useEnhancedFinanceStats = (
         return sum + (event.advance_amount || 0);
       }, 0) || 0;
       
+      // Client receipts are collections recorded once for several events
+      const totalClientReceipts = clientReceipts?.reduce((sum, receipt) => sum + receipt.amount, 0) || 0;
+
+      // Refunds given back to clients reduce what was collected
+      const totalRefunds = refunds?.reduce((sum, refund) => sum + refund.amount, 0) || 0;
+
       // Add accounting credits that reflect to company
-      const paymentIn = totalPaymentsFromTable + totalAdvanceAmounts + accountingCredits;
+      const paymentIn = totalPaymentsFromTable + totalAdvanceAmounts + totalClientReceipts + accountingCredits - totalRefunds;
       
       // PENDING AMOUNT = Total Revenue - Total Payments In - Total Closed Amount
       const totalClosedAmount = closingBalances?.reduce((sum, closing) => sum + (closing.closing_amount || 0), 0) || 0;
@@ -279,6 +336,23 @@ export const useEnhancedFinanceStats = (
         }
       });
 
+      clientReceipts?.forEach(receipt => {
+        if (receipt.payment_method === 'Cash') {
+          cashPaymentsIn += receipt.amount;
+        } else {
+          digitalPaymentsIn += receipt.amount;
+        }
+      });
+
+      // Refunds leave through the method they were given in
+      refunds?.forEach(refund => {
+        if (refund.refund_method === 'Cash') {
+          cashPaymentsIn -= refund.amount;
+        } else {
+          digitalPaymentsIn -= refund.amount;
+        }
+      });
+
       // 🔥 PAYMENT OUT BREAKDOWN = EXPENSES + accounting debits that reflect to company
       expenses?.forEach(expense => {
         if (expense.payment_method === 'Cash') {
@@ -333,6 +407,8 @@ export const useEnhancedFinanceStats = (
         monthlyStats = Array.from({ length: 7 }, (_, i) => {
           const date = new Date(startOfWeek);
           date.setDate(startOfWeek.getDate() + i);
+          const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+          const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
           
           // Filter PAYMENT IN data for this specific day (only from payments table)
           const dayPaymentIn = payments?.filter(payment => {
@@ -353,7 +429,7 @@ export const useEnhancedFinanceStats = (
            
            return {
               month: dayNames[i], // Use consistent day names
-              revenue: dayPaymentIn + dayAdvanceAmounts,
+              revenue: dayPaymentIn + dayAdvanceAmounts + sumClientReceiptsBetween(dayStart, dayEnd) - sumRefundsBetween(dayStart, dayEnd),
               expenses: dayTotalExpenses
             };
         });
@@ -393,7 +469,7 @@ export const useEnhancedFinanceStats = (
            
            return {
              month: `Week ${i + 1}`, // Simple week numbering
-             revenue: weekPaymentIn + weekAdditionalPayments,
+             revenue: weekPaymentIn + weekAdditionalPayments + sumClientReceiptsBetween(weekStart, weekEnd) - sumRefundsBetween(weekStart, weekEnd),
              expenses: weekTotalExpenses
            };
         });
@@ -431,7 +507,7 @@ export const useEnhancedFinanceStats = (
            
            return {
              month: monthNames[monthIndex], // Use actual month name
-             revenue: monthPaymentIn + monthAdditionalPayments,
+             revenue: monthPaymentIn + monthAdditionalPayments + sumClientReceiptsBetween(monthStart, monthEnd) - sumRefundsBetween(monthStart, monthEnd),
              expenses: monthTotalExpenses
            };
         });
@@ -464,7 +540,7 @@ export const useEnhancedFinanceStats = (
            
            return {
              month: monthNames[i],
-             revenue: monthPaymentIn + monthAdditionalPayments,
+             revenue: monthPaymentIn + monthAdditionalPayments + sumClientReceiptsBetween(monthStart, monthEnd) - sumRefundsBetween(monthStart, monthEnd),
              expenses: monthTotalExpenses
            };
         });
@@ -521,7 +597,7 @@ export const useEnhancedFinanceStats = (
            
            return {
              month: year.toString(),
-             revenue: yearPaymentIn + yearAdditionalPayments,
+             revenue: yearPaymentIn + yearAdditionalPayments + sumClientReceiptsBetween(yearStart, yearEnd) - sumRefundsBetween(yearStart, yearEnd),
              expenses: yearTotalExpenses
            };
         });
@@ -539,6 +615,7 @@ export const useEnhancedFinanceStats = (
         monthlyExpenses: paymentOut,
         paymentIn,
         paymentOut,
+        totalRefunds,
         netProfit,
         expensesByCategory,
         paymentMethodStats,
@@ -574,7 +651,7 @@ export const useEnhancedFinanceStats = (
 // ========================================
 // CRITICAL FINANCIAL CALCULATION SUMMARY:
 // ========================================
-// PAYMENT IN = Collections table + Event advance amounts + Accounting Credits (reflect_to_company = true)
+// PAYMENT IN = Collections table + Event advance amounts + Client receipts + Accounting Credits (reflect_to_company = true) - Refunds
 // PAYMENT OUT = Expenses + Accounting Debits (reflect_to_company = true)  
 // NET PROFIT = Payment In - Total Expenses (includes salary + accounting debits)
 // REVENUE = Event total amounts
@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getDateRangeForFinance } from '@/lib/date-utils';
 import { useAccountingEntries } from '@/hooks/useAccountingEntries';
+import { PaymentMethodStat, formatPaymentMethod, isPaymentCollected, parsePaymentMethod } from '@/lib/payment-method-validator';
 
 interface EnhancedStats {
   totalEvents: number;
@@ -19,7 +20,7 @@ interface EnhancedStats {
   monthlyExpenses: number;
   pendingTasks: number;
   expensesByCategory?: any[];
-  paymentMethodStats?: any[];
+  paymentMethodStats?: PaymentMethodStat[];
   monthlyStats?: any[];
 }
 
@@ -124,7 +125,7 @@ export const useFinanceStatsWithAccounting = (
       // Fetch payments with date filtering
       let paymentsQuery = supabase
         .from('payments')
-        .select('amount, payment_date, event_id, payment_method')
+        .select('amount, payment_date, event_id, payment_method, custom_method, cheque_status')
         .eq('firm_id', currentFirmId);
 
       if (!isGlobal) {
@@ -138,6 +139,35 @@ export const useFinanceStatsWithAccounting = (
       const { data: payments, error: paymentsError } = await paymentsQuery;
       if (paymentsError) throw paymentsError;
 
+      // Fetch client receipts and refunds with date filtering
+      let clientReceiptsQuery = supabase
+        .from('client_receipts')
+        .select('amount, payment_date, payment_method, custom_method, cheque_status')
+        .eq('firm_id', currentFirmId);
+
+      let refundsQuery = supabase
+        .from('event_refunds')
+        .select('amount, refund_date, refund_method')
+        .eq('firm_id', currentFirmId);
+
+      if (!isGlobal) {
+        const startDateStr = startDate.toISOString().split('T')[0];
+        const endDateStr = endDate.toISOString().split('T')[0];
+        clientReceiptsQuery = clientReceiptsQuery
+          .gte('payment_date', startDateStr)
+          .lte('payment_date', endDateStr);
+        refundsQuery = refundsQuery
+          .gte('refund_date', startDateStr)
+          .lte('refund_date', endDateStr);
+      }
+
+      const [
+        { data: clientReceipts, error: clientReceiptsError },
+        { data: refunds, error: refundsError }
+      ] = await Promise.all([clientReceiptsQuery, refundsQuery]);
+      if (clientReceiptsError) throw clientReceiptsError;
+      if (refundsError) throw refundsError;
+
       // Fetch expenses with date filtering
       let expensesQuery = supabase
         .from('expenses')
@@ -171,10 +201,16 @@ export const useFinanceStatsWithAccounting = (
       
       const totalRevenue = events?.reduce((sum, event) => sum + (event.total_amount || 0), 0) || 0;
       
-      // PAYMENT IN = payments + advance amounts + accounting credits
-      const totalPaymentsFromTable = payments?.reduce((sum, payment) => sum + payment.amount, 0) || 0;
+      // Cheques only count as collected once cleared
+      const collectedPayments = payments?.filter(isPaymentCollected) || [];
+      const collectedClientReceipts = clientReceipts?.filter(isPaymentCollected) || [];
+
+      // PAYMENT IN = payments + advance amounts + client receipts + accounting credits - refunds
+      const totalPaymentsFromTable = collectedPayments.reduce((sum, payment) => sum + payment.amount, 0);
       const totalAdvanceAmounts = events?.reduce((sum, event) => sum + (event.advance_amount || 0), 0) || 0;
-      const paymentIn = totalPaymentsFromTable + totalAdvanceAmounts + accountingCredits;
+      const totalClientReceipts = collectedClientReceipts.reduce((sum, receipt) => sum + receipt.amount, 0);
+      const totalRefunds = refunds?.reduce((sum, refund) => sum + refund.amount, 0) || 0;
+      const paymentIn = totalPaymentsFromTable + totalAdvanceAmounts + totalClientReceipts + accountingCredits - totalRefunds;
       
       // PAYMENT OUT = expenses + accounting debits
       const totalExpensesAmount = expenses?.reduce((sum, expense) => sum + expense.amount, 0) || 0;
@@ -218,45 +254,39 @@ export const useFinanceStatsWithAccounting = (
         return acc;
       }, []);
 
-      // Payment method stats including accounting entries
-      let cashPaymentsIn = 0;
-      let digitalPaymentsIn = 0;
+      // Payment method stats including accounting entries, one entry per method
+      const methodTotals: Record<string, number> = {};
+      const addToMethod = (method: string | null | undefined, customMethod: string | null | undefined, amount: number) => {
+        const label = formatPaymentMethod(parsePaymentMethod(method), customMethod);
+        methodTotals[label] = (methodTotals[label] || 0) + amount;
+      };
       
       // From payments table
-      payments?.forEach(payment => {
-        if (payment.payment_method === 'Cash') {
-          cashPaymentsIn += payment.amount;
-        } else {
-          digitalPaymentsIn += payment.amount;
-        }
-      });
+      collectedPayments.forEach(payment => addToMethod(payment.payment_method, payment.custom_method, payment.amount));
       
       // From advance payments
       events?.forEach(event => {
         if (event.advance_amount > 0) {
-          if (event.advance_payment_method === 'Cash') {
-            cashPaymentsIn += event.advance_amount;
-          } else {
-            digitalPaymentsIn += event.advance_amount;
-          }
+          addToMethod(event.advance_payment_method, null, event.advance_amount);
         }
       });
 
+      // From client receipts
+      collectedClientReceipts.forEach(receipt => addToMethod(receipt.payment_method, receipt.custom_method, receipt.amount));
+
+      // Refunds leave through the method they were given in
+      refunds?.forEach(refund => addToMethod(refund.refund_method, null, -refund.amount));
+
       // From accounting credits - payment_method EXISTS in DB!
       companyAccountingEntries?.forEach(entry => {
         if (entry.entry_type === 'Credit') {
-          if (entry.payment_method === 'Digital') {
-            digitalPaymentsIn += entry.amount;
-          } else {
-            cashPaymentsIn += entry.amount;
-          }
+          addToMethod(entry.payment_method, null, entry.amount);
         }
       });
 
-      const paymentMethodStats = [
-        { method: 'Cash', amount: cashPaymentsIn },
-        { method: 'Digital', amount: digitalPaymentsIn }
-      ];
+      const paymentMethodStats = Object.entries(methodTotals)
+        .filter(([, amount]) => amount !== 0)
+        .map(([method, amount]) => ({ method, amount }));
 
       // 🔥 CRITICAL: Generate complete time period stats for charts
       const generateCompleteTimeStats = () => {
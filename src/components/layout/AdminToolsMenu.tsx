@@ -17,7 +17,8 @@ import {
   Settings02Icon,
   GoogleSheetIcon,
   Calendar01Icon,
-  Building06Icon
+  Building06Icon,
+  Delete02Icon
 } from 'hugeicons-react';
 import { FirmSelectorDialog } from '@/components/layout/FirmSelector';
 import { CalendarSharingDialog } from '@/components/layout/CalendarSharingDialog';
@@ -57,6 +58,11 @@ const AdminToolsMenu = ({ className, onAvailabilityClick }: AdminToolsMenuProps)
       icon: Calculator01Icon,
       href: '/accounts'
     },
+    {
+      label: 'Trash',
+      icon: Delete02Icon,
+      href: '/trash'
+    },
     {
       label: 'Subscription',
       icon: CreditCardIcon,
@@ -9,6 +9,7 @@ import {
   TaskAdd01Icon,
   FileManagementIcon,
   Calendar01Icon,
+  Calendar03Icon,
   CreditCardValidationIcon,
   DashboardSpeed01Icon,
   DashboardSquare01Icon,
@@ -36,6 +37,7 @@ const staffNavigationItems = [
   { name: 'Dashboard', href: '/dashboard', icon: DashboardSquare01Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
   { name: 'Tasks', href: '/tasks', icon: TaskAdd01Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
   { name: 'Assignments', href: '/assignments', icon: Calendar01Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
+  { name: 'Schedule', href: '/schedule', icon: Calendar03Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
 ];
 
 const MobileFloatingDock = () => {
@@ -15,6 +15,7 @@ import {
   UserIcon, 
   Logout04Icon, 
   Calendar01Icon,
+  Calendar03Icon,
   CustomerService02Icon,
   Analytics01Icon,
   FileManagementIcon,
@@ -39,6 +40,7 @@ const adminNavigationItems = [
   { name: 'Clients', href: '/clients', icon: CustomerService02Icon, roles: ['Admin'] },
   { name: 'Quotations', href: '/quotations', icon: FileManagementIcon, roles: ['Admin'] },
   { name: 'Events', href: '/events', icon: Calendar01Icon, roles: ['Admin'] },
+  { name: 'Schedule', href: '/schedule', icon: Calendar03Icon, roles: ['Admin'] },
   { name: 'Tasks', href: '/tasks', icon: TaskAdd01Icon, roles: ['Admin'] },
   { name: 'Freelancers', href: '/freelancers', icon: UserIcon, roles: ['Admin'] },
   
@@ -51,6 +53,7 @@ const staffNavigationItems = [
   { name: 'Dashboard', href: '/dashboard', icon: Analytics01Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
   { name: 'Tasks', href: '/tasks', icon: TaskAdd01Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
   { name: 'Assignments', href: '/assignments', icon: Calendar01Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
+  { name: 'Schedule', href: '/schedule', icon: Calendar03Icon, roles: ['Photographer', 'Cinematographer', 'Editor', 'Drone Pilot', 'Other'] },
 ];
 
 interface TopNavbarProps {
@@ -0,0 +1,323 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Invoice01Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFirmData } from '@/hooks/useFirmData';
+import { Client } from '@/types/studio';
+import { formatSessionDate } from '@/lib/event-session-utils';
+import { PaymentMethod, DEFAULT_PAYMENT_METHOD, getReferenceNumberLabel, requiresReferenceNumber } from '@/lib/payment-method-validator';
+import {
+  AllocationMode,
+  OpenClientEvent,
+  ReceiptAllocations,
+  allocateOldestFirst,
+  fetchClientOpenEvents,
+  fetchClientReceipt,
+  getAllocatedTotal,
+  getAllocationProblem,
+  recordClientReceipt
+} from '@/lib/client-receipt-utils';
+import { generateClientReceiptPDF } from '@/lib/client-receipt-pdf-utils';
+import PaymentMethodSelect from './PaymentMethodSelect';
+
+interface ClientReceiptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clients: Client[];
+  onRecorded?: () => void;
+}
+
+/**
+ * One payment from a client split across their open events, e.g. a lump sum covering the
+ * engagement and the wedding, with a single consolidated receipt
+ */
+const ClientReceiptDialog = ({ open, onOpenChange, clients, onRecorded }: ClientReceiptDialogProps) => {
+  const { toast } = useToast();
+  const { firmData } = useFirmData();
+  const [clientId, setClientId] = useState('');
+  const [openEvents, setOpenEvents] = useState<OpenClientEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [amount, setAmount] = useState<number>(0);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
+  const [customMethod, setCustomMethod] = useState<string | null>(null);
+  const [chequeNumber, setChequeNumber] = useState('');
+  const [chequeBank, setChequeBank] = useState('');
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [mode, setMode] = useState<AllocationMode>('oldest-first');
+  const [manualAllocations, setManualAllocations] = useState<ReceiptAllocations>({});
+
+  useEffect(() => {
+    if (!open || !clientId) {
+      setOpenEvents([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadOpenEvents = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchClientOpenEvents(clientId);
+        if (cancelled) return;
+        setOpenEvents(result);
+        setManualAllocations({});
+      } catch (error) {
+        toast({
+          title: "Error loading events",
+          description: error instanceof Error ? error.message : 'Failed to load the client\'s events',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadOpenEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, clientId, toast]);
+
+  const totalDue = openEvents.reduce((sum, entry) => sum + entry.balance, 0);
+  const allocations = mode === 'oldest-first' ? allocateOldestFirst(openEvents, amount) : manualAllocations;
+  const allocated = getAllocatedTotal(allocations);
+  const isCheque = paymentMethod === 'Cheque';
+
+  const resetForm = () => {
+    setAmount(0);
+    setReferenceNumber('');
+    setChequeNumber('');
+    setChequeBank('');
+    setNotes('');
+    setManualAllocations({});
+  };
+
+  const handleSave = async () => {
+    const problem = getAllocationProblem(amount, allocations, openEvents);
+    if (problem) {
+      toast({ title: "Check the split", description: problem, variant: "destructive" });
+      return;
+    }
+    if (isCheque && !chequeNumber.trim()) {
+      toast({ title: "Cheque number required", description: "Enter the cheque number so it can be tracked until it clears", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const receipt = await recordClientReceipt(clientId, {
+        amount,
+        payment_method: paymentMethod,
+        custom_method: paymentMethod === 'Other' ? customMethod : null,
+        payment_date: paymentDate,
+        reference_number: isCheque ? '' : referenceNumber,
+        cheque_number: isCheque ? chequeNumber : '',
+        cheque_bank: isCheque ? chequeBank : '',
+        notes
+      }, allocations);
+
+      toast({
+        title: "Receipt recorded",
+        description: `${receipt.receipt_number} for ₹${amount.toLocaleString()} was applied to ${Object.values(allocations).filter(share => share > 0).length} events.`,
+      });
+
+      resetForm();
+      onOpenChange(false);
+      onRecorded?.();
+
+      const result = await generateClientReceiptPDF(await fetchClientReceipt(receipt.id), firmData);
+      if (!result.success) {
+        toast({
+          title: "Receipt PDF failed",
+          description: "The payment was saved but the receipt PDF could not be generated.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error recording receipt",
+        description: error instanceof Error ? error.message : 'Failed to record the receipt',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Invoice01Icon className="h-5 w-5 text-primary" />
+            Client Receipt
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId || undefined} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {clientId && (loading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading events...</p>
+          ) : openEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">This client has no events with money due.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="receiptAmount">Amount Received (₹)</Label>
+                  <Input
+                    id="receiptAmount"
+                    type="number"
+                    placeholder="Enter amount"
+                    value={amount || ''}
+                    onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                    max={totalDue}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => setAmount(totalDue)}>
+                    Full (₹{totalDue.toLocaleString()})
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptDate">Payment Date</Label>
+                  <Input
+                    id="receiptDate"
+                    type="date"
+                    value={paymentDate}
+                    onChange={(e) => setPaymentDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptMethod">Payment Method</Label>
+                  <PaymentMethodSelect
+                    id="receiptMethod"
+                    method={paymentMethod}
+                    customMethod={customMethod}
+                    onChange={(method, custom) => {
+                      setPaymentMethod(method);
+                      setCustomMethod(custom);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receiptMode">Split</Label>
+                  <Select value={mode} onValueChange={(value: AllocationMode) => {
+                    if (value === 'manual') setManualAllocations(allocations);
+                    setMode(value);
+                  }}>
+                    <SelectTrigger id="receiptMode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="oldest-first">Oldest event first</SelectItem>
+                      <SelectItem value="manual">Manual</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {isCheque ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="receiptChequeNumber">Cheque Number</Label>
+                    <Input
+                      id="receiptChequeNumber"
+                      placeholder="e.g., 004512"
+                      value={chequeNumber}
+                      onChange={(e) => setChequeNumber(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="receiptChequeBank">Bank</Label>
+                    <Input
+                      id="receiptChequeBank"
+                      placeholder="e.g., HDFC Bank"
+                      value={chequeBank}
+                      onChange={(e) => setChequeBank(e.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : requiresReferenceNumber(paymentMethod) && (
+                <div className="space-y-2">
+                  <Label htmlFor="receiptReference">{getReferenceNumberLabel(paymentMethod)}</Label>
+                  <Input
+                    id="receiptReference"
+                    placeholder="Transaction ID, UPI Ref#, etc."
+                    value={referenceNumber}
+                    onChange={(e) => setReferenceNumber(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <div className="rounded-lg border divide-y text-sm">
+                {openEvents.map(({ event, balance }) => (
+                  <div key={event.id} className="flex items-center justify-between gap-3 p-2">
+                    <span className="min-w-0 truncate">
+                      {event.title}
+                      <span className="text-xs text-muted-foreground">
+                        {' '}• {formatSessionDate(event.event_date)} • ₹{balance.toLocaleString('en-IN')} due
+                      </span>
+                    </span>
+                    {mode === 'manual' ? (
+                      <Input
+                        type="number"
+                        className="w-28 flex-shrink-0"
+                        value={manualAllocations[event.id] || ''}
+                        max={balance}
+                        onChange={(e) => setManualAllocations(current => ({ ...current, [event.id]: parseFloat(e.target.value) || 0 }))}
+                      />
+                    ) : (
+                      <span className="font-medium flex-shrink-0">₹{(allocations[event.id] || 0).toLocaleString('en-IN')}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className={`text-xs ${Math.round(allocated) === Math.round(amount) ? 'text-muted-foreground' : 'text-destructive'}`}>
+                ₹{allocated.toLocaleString('en-IN')} of ₹{amount.toLocaleString('en-IN')} allocated
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="receiptNotes">Notes (Optional)</Label>
+                <Input
+                  id="receiptNotes"
+                  placeholder="e.g., Engagement and wedding together"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || !clientId || amount <= 0} className="min-w-[100px]">
+            {saving ? 'Saving...' : `Record ₹${amount.toLocaleString()}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientReceiptDialog;
@@ -0,0 +1,171 @@
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
+import { ClientReceipt } from '@/types/studio';
+import { formatDate } from '@/lib/date-utils';
+import { SharedPDFHeader, SharedPDFFooter, SimpleTable, sharedStyles } from '../pdf/SharedPDFLayout';
+import { calculateEventBalance } from '@/lib/payment-calculator';
+import { formatPaymentMethodDetails } from '@/lib/payment-method-validator';
+
+const styles = StyleSheet.create({
+  ...sharedStyles,
+  receiptSection: {
+    backgroundColor: '#f8f6f1',
+    padding: 16,
+    marginVertical: 16,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#c4b28d',
+    alignItems: 'center',
+  },
+  receiptAmount: {
+    fontSize: 20,
+    fontWeight: 700,
+    color: '#c4b28d',
+    textAlign: 'center',
+    marginBottom: 6,
+    letterSpacing: 0.5,
+  },
+  receiptNote: {
+    fontSize: 11,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  notesSection: {
+    marginTop: 12,
+    backgroundColor: '#f9f9f9',
+    padding: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  notesText: {
+    fontSize: 10,
+    color: '#666666',
+    lineHeight: 1.5,
+  },
+});
+
+export interface ReceiptFirmData {
+  name: string;
+  description?: string;
+  logo_url?: string;
+  header_left_content?: string;
+  footer_content?: string;
+  gstin?: string | null;
+}
+
+export interface ClientReceiptPDFProps {
+  receipt: ClientReceipt;
+  firmData?: ReceiptFirmData | null;
+}
+
+const ClientReceiptPDFDocument: React.FC<ClientReceiptPDFProps> = ({ receipt, firmData }) => {
+  const allocations = receipt.client_receipt_allocations || [];
+  const remainingBalance = allocations.reduce((sum, allocation) => sum + (allocation.event ? calculateEventBalance(allocation.event) : 0), 0);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <SharedPDFHeader firmData={firmData} />
+
+        <View>
+          <Text style={styles.documentId}>Receipt: {receipt.receipt_number}</Text>
+          <Text style={styles.title}>PAYMENT RECEIPT</Text>
+          {firmData?.gstin && (
+            <Text style={styles.documentId}>GSTIN: {firmData.gstin}</Text>
+          )}
+        </View>
+
+        <View style={styles.detailsContainer}>
+          <View style={styles.column}>
+            <Text style={styles.sectionTitle}>Receipt Information</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Date:</Text>
+              <Text style={styles.detailValue}>{formatDate(new Date(receipt.payment_date))}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Payment Mode:</Text>
+              <Text style={styles.detailValue}>{formatPaymentMethodDetails(receipt)}</Text>
+            </View>
+            {receipt.cheque_bank && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Bank:</Text>
+                <Text style={styles.detailValue}>{receipt.cheque_bank}</Text>
+              </View>
+            )}
+            {receipt.reference_number && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Reference #:</Text>
+                <Text style={styles.detailValue}>{receipt.reference_number}</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.column}>
+            <Text style={styles.sectionTitle}>Client Information</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Client:</Text>
+              <Text style={styles.detailValue}>{receipt.client?.name || '~'}</Text>
+            </View>
+            {receipt.client?.phone && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Phone:</Text>
+                <Text style={styles.detailValue}>{receipt.client.phone}</Text>
+              </View>
+            )}
+            {receipt.client?.gstin && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Client GSTIN:</Text>
+                <Text style={styles.detailValue}>{receipt.client.gstin}</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.column}>
+            <Text style={styles.sectionTitle}>Financial Information</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Events Paid:</Text>
+              <Text style={styles.detailValue}>{allocations.length}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Balance Left:</Text>
+              <Text style={styles.detailValue}>₹{remainingBalance.toLocaleString()}</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.receiptSection}>
+          <Text style={styles.receiptAmount}>Amount Received: ₹{Number(receipt.amount).toLocaleString()}</Text>
+          <Text style={styles.receiptNote}>Thank you! This payment has been applied to the events below.</Text>
+        </View>
+
+        <View>
+          <Text style={styles.sectionTitle}>Applied To</Text>
+          <SimpleTable
+            headers={['Event', 'Event Date', 'Event Amount', 'Applied', 'Balance Left']}
+            rows={allocations.map(allocation => [
+              allocation.event?.title || '~',
+              allocation.event ? formatDate(new Date(allocation.event.event_date)) : '~',
+              `₹${(allocation.event?.total_amount || 0).toLocaleString()}`,
+              `₹${Number(allocation.amount).toLocaleString()}`,
+              `₹${(allocation.event ? calculateEventBalance(allocation.event) : 0).toLocaleString()}`
+            ])}
+          />
+        </View>
+
+        {receipt.notes && (
+          <View style={styles.notesSection}>
+            <Text style={styles.sectionTitle}>Additional Notes</Text>
+            <Text style={styles.notesText}>{receipt.notes}</Text>
+          </View>
+        )}
+
+        {/* Footer */}
+        <SharedPDFFooter firmData={firmData} />
+      </Page>
+    </Document>
+  );
+};
+
+export default ClientReceiptPDFDocument;
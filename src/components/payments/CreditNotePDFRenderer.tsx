@@ -0,0 +1,179 @@
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
+import { Event, EventRefund } from '@/types/studio';
+import { formatDate } from '@/lib/date-utils';
+import { SharedPDFHeader, SharedPDFFooter, SimpleTable, sharedStyles } from '../pdf/SharedPDFLayout';
+import { calculateTotalPaid, calculateTotalRefunded } from '@/lib/payment-calculator';
+import { formatPaymentMethod } from '@/lib/payment-method-validator';
+
+const styles = StyleSheet.create({
+  ...sharedStyles,
+  refundSection: {
+    backgroundColor: '#f8f6f1',
+    padding: 16,
+    marginVertical: 16,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#c4b28d',
+    alignItems: 'center',
+  },
+  refundAmount: {
+    fontSize: 20,
+    fontWeight: 700,
+    color: '#c4b28d',
+    textAlign: 'center',
+    marginBottom: 6,
+    letterSpacing: 0.5,
+  },
+  refundNote: {
+    fontSize: 11,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  notesSection: {
+    marginTop: 12,
+    backgroundColor: '#f9f9f9',
+    padding: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  notesText: {
+    fontSize: 10,
+    color: '#666666',
+    lineHeight: 1.5,
+  },
+});
+
+export interface CreditNoteFirmData {
+  name: string;
+  description?: string;
+  logo_url?: string;
+  header_left_content?: string;
+  footer_content?: string;
+  gstin?: string | null;
+}
+
+export interface CreditNotePDFProps {
+  refund: EventRefund;
+  event: Event;
+  firmData?: CreditNoteFirmData | null;
+}
+
+const CreditNotePDFDocument: React.FC<CreditNotePDFProps> = ({ refund, event, firmData }) => {
+  const refunds = event.event_refunds || [];
+  const totalRefunded = calculateTotalRefunded(event);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <SharedPDFHeader firmData={firmData} />
+
+        <View>
+          <Text style={styles.documentId}>Credit Note: {refund.credit_note_number}</Text>
+          <Text style={styles.title}>CREDIT NOTE</Text>
+          {firmData?.gstin && (
+            <Text style={styles.documentId}>GSTIN: {firmData.gstin}</Text>
+          )}
+        </View>
+
+        <View style={styles.detailsContainer}>
+          <View style={styles.column}>
+            <Text style={styles.sectionTitle}>Credit Note Information</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Date:</Text>
+              <Text style={styles.detailValue}>{formatDate(new Date(refund.refund_date))}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Type:</Text>
+              <Text style={styles.detailValue}>{refund.kind === 'cancellation' ? 'Cancellation Refund' : 'Refund'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Refund Mode:</Text>
+              <Text style={styles.detailValue}>{formatPaymentMethod(refund.refund_method)}</Text>
+            </View>
+            {refund.reference_number && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Reference #:</Text>
+                <Text style={styles.detailValue}>{refund.reference_number}</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.column}>
+            <Text style={styles.sectionTitle}>Event Information</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Event Name:</Text>
+              <Text style={styles.detailValue}>{event.title}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Event Date:</Text>
+              <Text style={styles.detailValue}>{formatDate(new Date(event.event_date))}</Text>
+            </View>
+            {event.client?.name && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Client:</Text>
+                <Text style={styles.detailValue}>{event.client.name}</Text>
+              </View>
+            )}
+            {event.client?.gstin && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Client GSTIN:</Text>
+                <Text style={styles.detailValue}>{event.client.gstin}</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.column}>
+            <Text style={styles.sectionTitle}>Financial Information</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Event Amount:</Text>
+              <Text style={styles.detailValue}>₹{event.total_amount?.toLocaleString() || 0}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Total Refunded:</Text>
+              <Text style={styles.detailValue}>₹{totalRefunded.toLocaleString()}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Net Paid:</Text>
+              <Text style={styles.detailValue}>₹{calculateTotalPaid(event).toLocaleString()}</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.refundSection}>
+          <Text style={styles.refundAmount}>Amount Refunded: ₹{refund.amount.toLocaleString()}</Text>
+          <Text style={styles.refundNote}>This amount has been credited back to the client against the event above.</Text>
+        </View>
+
+        {refunds.length > 1 && (
+          <View>
+            <Text style={styles.sectionTitle}>Refunds for this Event</Text>
+            <SimpleTable
+              headers={['Credit Note', 'Date', 'Mode', 'Amount']}
+              rows={refunds.map(entry => [
+                entry.credit_note_number,
+                formatDate(new Date(entry.refund_date)),
+                formatPaymentMethod(entry.refund_method),
+                `₹${entry.amount.toLocaleString()}`
+              ])}
+            />
+          </View>
+        )}
+
+        {refund.reason && (
+          <View style={styles.notesSection}>
+            <Text style={styles.sectionTitle}>Reason</Text>
+            <Text style={styles.notesText}>{refund.reason}</Text>
+          </View>
+        )}
+
+        {/* Footer */}
+        <SharedPDFFooter firmData={firmData} />
+      </Page>
+    </Document>
+  );
+};
+
+export default CreditNotePDFDocument;
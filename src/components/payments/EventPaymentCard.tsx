@@ -4,9 +4,11 @@ import {
   Download01Icon, 
   Share08Icon, 
   MoneyAdd01Icon,
+  MoneySend01Icon,
   Location01Icon,
   ContactIcon,
   Calendar01Icon,
+  Calendar03Icon,
   KidIcon,
   FavouriteIcon,
   Diamond02Icon,
@@ -19,17 +21,19 @@ import {
   Camera02Icon,
   CheckmarkCircle02Icon,
   HardDriveIcon,
-  Loading03Icon
+  Loading03Icon,
+  Copy01Icon
 } from 'hugeicons-react';
 import { Eye } from 'lucide-react';
 import { Event } from '@/types/studio';
 import CentralizedCard from '@/components/common/CentralizedCard';
 import { formatEventDateRange } from '@/lib/date-utils';
-import { getEventStatus } from '@/lib/event-status-utils';
+import EventStatusMenu from '@/components/events/EventStatusMenu';
 import EventCrewDialog from '@/components/events/EventCrewDialog';
 import { generateIndividualEventReport } from '@/components/events/IndividualEventReportPDF';
 import BalanceDisplay from '@/components/ui/balance-display';
-import { calculateTotalPaid } from '@/lib/payment-calculator';
+import { calculateTotalPaid, getUpcomingMilestones } from '@/lib/payment-calculator';
+import { formatSessionDate } from '@/lib/event-session-utils';
 import { useState, useMemo } from 'react';
 import PDFDownloadOptionsDialog from '@/components/common/PDFDownloadOptionsDialog';
 import { isCrewIncomplete } from '@/lib/crew-completeness-utils';
@@ -42,7 +46,9 @@ interface EventPaymentCardProps {
   onDownloadInvoice?: (event: Event) => void;
   onSendInvoice?: (event: Event) => void;
   onDelete?: (event: Event) => void;
+  onClone?: (event: Event) => void;
   onCrewClick?: (event: Event) => void;
+  onStatusChange?: (event: Event) => void;
   loadingStates?: {
     sharing?: boolean;
     viewing?: boolean;
@@ -54,11 +60,15 @@ interface EventPaymentCardProps {
 }
 
 import DiskManagementDialog from '@/components/events/DiskManagementDialog';
+import EventPaymentScheduleDialog from './EventPaymentScheduleDialog';
+import EventRefundDialog from './EventRefundDialog';
 
-const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDownloadInvoice, onSendInvoice, onDelete, onCrewClick, loadingStates }: EventPaymentCardProps) => {
+const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDownloadInvoice, onSendInvoice, onDelete, onClone, onCrewClick, onStatusChange, loadingStates }: EventPaymentCardProps) => {
   const [crewDialogOpen, setCrewDialogOpen] = useState(false);
   const [diskDialogOpen, setDiskDialogOpen] = useState(false);
   const [pdfDownloadDialogOpen, setPdfDownloadDialogOpen] = useState(false);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [refundDialogOpen, setRefundDialogOpen] = useState(false);
   
   // Use loading states from parent if provided, otherwise maintain local state
   const isSharing = loadingStates?.sharing || false;
@@ -134,16 +144,20 @@ const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDown
 
   const staffAssignments = (event as any).event_staff_assignments || [];
   const totalDays = (event as any).total_days || 1;
+  const nextMilestone = getUpcomingMilestones(event)[0];
 
 
-  const eventStatus = getEventStatus(event);
-
   // Enhanced metadata in specific order: STATUS, CLIENT, DATE, VENUE (always show all)
   const metadata = [
     // Status (always show)
     {
       icon: <CheckmarkCircle02Icon className="h-3.5 w-3.5 text-primary" />,
-      value: eventStatus.label
+      value: (
+        <EventStatusMenu
+          event={event}
+          onStatusChanged={() => onStatusChange?.(event)}
+        />
+      )
     },
     // Client (always show)
     {
@@ -234,6 +248,8 @@ const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDown
     },
     { label: 'Disk', onClick: () => setDiskDialogOpen(true), variant: 'outline' as const, icon: <HardDriveIcon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> },
     { label: 'Collect', onClick: () => onPaymentClick(event), variant: 'outline' as const, icon: <MoneyAdd01Icon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> },
+    { label: 'Schedule', onClick: () => setScheduleDialogOpen(true), variant: 'outline' as const, icon: <Calendar03Icon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> },
+    { label: 'Refund', onClick: () => setRefundDialogOpen(true), variant: 'outline' as const, icon: <MoneySend01Icon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> },
     ...(onDownloadInvoice ? [{ 
       label: 'Download', 
       onClick: () => setPdfDownloadDialogOpen(true), 
@@ -256,6 +272,7 @@ const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDown
       ),
       disabled: isSharing
     }] : []),
+    ...(onClone ? [{ label: 'Clone', onClick: () => onClone(event), variant: 'outline' as const, icon: <Copy01Icon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> }] : []),
     ...(onDelete ? [{ 
       label: 'Delete', 
       onClick: () => onDelete(event), 
@@ -295,6 +312,14 @@ const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDown
             <span className="text-xs font-medium text-muted-foreground">VIDEO</span>
           </div>
         </div>
+
+        {/* Next payment milestone, overdue first */}
+        {nextMilestone && (
+          <div className={`text-xs text-center font-medium pt-2 ${nextMilestone.status === 'Overdue' ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {nextMilestone.status === 'Overdue' ? 'Overdue' : 'Next'}: {nextMilestone.label} ₹{nextMilestone.outstanding.toLocaleString('en-IN')}
+            {nextMilestone.due_date && ` • due ${formatSessionDate(nextMilestone.due_date)}`}
+          </div>
+        )}
         
         {/* Amount section - single row format: Total - Paid = Balance */}
         <div className="absolute bottom-20 left-0 right-0 px-3">
@@ -322,6 +347,18 @@ const EventPaymentCard = ({ event, onEdit, onPaymentClick, onViewDetails, onDown
         open={diskDialogOpen}
         onOpenChange={setDiskDialogOpen}
       />
+      <EventPaymentScheduleDialog
+        event={event}
+        open={scheduleDialogOpen}
+        onOpenChange={setScheduleDialogOpen}
+        onSaved={() => onStatusChange?.(event)}
+      />
+      <EventRefundDialog
+        event={event}
+        open={refundDialogOpen}
+        onOpenChange={setRefundDialogOpen}
+        onSaved={() => onStatusChange?.(event)}
+      />
       <PDFDownloadOptionsDialog
         isOpen={pdfDownloadDialogOpen}
         onOpenChange={setPdfDownloadDialogOpen}
@@ -4,7 +4,6 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { getEventTypeColors } from '@/lib/status-colors';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
 import { 
   Location01Icon, 
   Camera01Icon, 
@@ -26,6 +25,8 @@ import { generatePaymentInvoicePDF } from './PaymentInvoicePDFRenderer';
 import { useFirmData } from '@/hooks/useFirmData';
 import BalanceDisplay from '@/components/ui/balance-display';
 import { calculateEventBalance, calculateTotalPaid } from '@/lib/payment-calculator';
+import { formatPaymentMethodDetails } from '@/lib/payment-method-validator';
+import { getEventInvoiceNumber } from '@/lib/document-number-utils';
 
 interface EventPaymentDialogProps {
   event: Event | null;
@@ -49,8 +50,8 @@ const EventPaymentDialog = ({ event, open, onOpenChange, onPaymentClick }: Event
   const handleDownloadInvoice = async () => {
     try {
       setDownloading(true);
-      // Generate proper invoice ID for this event
-      const { data: invoiceId } = await supabase.rpc('generate_invoice_id', { p_event_id: event.id });
+      // The event keeps the invoice number it was first given
+      const invoiceId = await getEventInvoiceNumber(event.id);
       
       const paymentData = {
         id: `event-${event.id}`,
@@ -88,8 +89,8 @@ const EventPaymentDialog = ({ event, open, onOpenChange, onPaymentClick }: Event
   const handleSendInvoice = async () => {
     try {
       setSharing(true);
-      // Generate proper invoice ID for this event
-      const { data: invoiceId } = await supabase.rpc('generate_invoice_id', { p_event_id: event.id });
+      // The event keeps the invoice number it was first given
+      const invoiceId = await getEventInvoiceNumber(event.id);
       
       const paymentData = {
         id: `event-${event.id}`,
@@ -300,7 +301,7 @@ const EventPaymentDialog = ({ event, open, onOpenChange, onPaymentClick }: Event
                       <div key={payment.id} className="flex justify-between items-center text-xs bg-background/50 rounded p-2">
                         <div>
                           <span className="font-medium">₹{payment.amount.toLocaleString()}</span>
-                          <span className="text-muted-foreground ml-1">({payment.payment_method})</span>
+                          <span className="text-muted-foreground ml-1">({formatPaymentMethodDetails(payment)})</span>
                         </div>
                         <span className="text-muted-foreground">
                           {format(new Date(payment.payment_date), 'MMM dd')}
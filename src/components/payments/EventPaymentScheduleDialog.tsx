@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Calendar03Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { Event, EventPaymentMilestone, PaymentReminder } from '@/types/studio';
+import { formatSessionDate } from '@/lib/event-session-utils';
+import { getMilestoneStatuses } from '@/lib/payment-calculator';
+import {
+  PaymentMilestoneDraft,
+  buildDefaultMilestones,
+  fetchEventPaymentMilestones,
+  getMilestoneScheduleProblem,
+  saveEventPaymentMilestones,
+  toMilestoneDrafts
+} from '@/lib/payment-milestone-utils';
+import { fetchPaymentReminders, setClientPaymentReminderOptOut } from '@/lib/payment-reminder-utils';
+import PaymentMilestonesEditor from './PaymentMilestonesEditor';
+
+interface EventPaymentScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: Event;
+  onSaved?: () => void;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  Paid: 'default',
+  Partial: 'secondary',
+  Pending: 'outline',
+  Overdue: 'destructive'
+};
+
+const REMINDER_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sent: 'default',
+  pending: 'outline',
+  sending: 'outline',
+  skipped: 'secondary',
+  failed: 'destructive'
+};
+
+/**
+ * Payment milestones of an event, e.g. 30% on booking, 40% before the event and 30% on
+ * delivery, with how much of each has been received and the reminders sent for them
+ */
+const EventPaymentScheduleDialog = ({ open, onOpenChange, event, onSaved }: EventPaymentScheduleDialogProps) => {
+  const { toast } = useToast();
+  const [saved, setSaved] = useState<EventPaymentMilestone[]>([]);
+  const [milestones, setMilestones] = useState<PaymentMilestoneDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [reminders, setReminders] = useState<PaymentReminder[]>([]);
+  const [remindersOptOut, setRemindersOptOut] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadMilestones = async () => {
+      setLoading(true);
+      try {
+        const [result, reminderLog] = await Promise.all([
+          fetchEventPaymentMilestones(event.id),
+          fetchPaymentReminders(event.id)
+        ]);
+        if (cancelled) return;
+        setSaved(result);
+        setMilestones(toMilestoneDrafts(result));
+        setReminders(reminderLog);
+        setRemindersOptOut(event.client?.payment_reminders_opt_out ?? false);
+      } catch (error) {
+        toast({
+          title: "Error loading payment schedule",
+          description: error instanceof Error ? error.message : 'Failed to load milestones',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadMilestones();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, event.id, event.client?.payment_reminders_opt_out, toast]);
+
+  const total = event.total_amount || 0;
+  const endDate = event.event_end_date || event.event_date;
+  const statuses = getMilestoneStatuses({ ...event, event_payment_milestones: saved });
+
+  const handleRemindersToggle = async (enabled: boolean) => {
+    if (!event.client_id) return;
+    setRemindersOptOut(!enabled);
+    try {
+      await setClientPaymentReminderOptOut(event.client_id, !enabled);
+      toast({
+        title: enabled ? "Payment reminders on" : "Payment reminders off",
+        description: `${event.client?.name || 'This client'} will ${enabled ? '' : 'no longer '}get automatic payment reminders on WhatsApp.`,
+      });
+      onSaved?.();
+    } catch (error) {
+      setRemindersOptOut(enabled);
+      toast({
+        title: "Error updating payment reminders",
+        description: error instanceof Error ? error.message : 'Failed to update the client',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    const problem = getMilestoneScheduleProblem(milestones, total);
+    if (problem) {
+      toast({ title: "Check the schedule", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveEventPaymentMilestones(event.id, milestones);
+      toast({
+        title: "Payment schedule saved",
+        description: milestones.length > 0
+          ? `${milestones.length} milestone${milestones.length === 1 ? '' : 's'} saved for ${event.title}.`
+          : `The payment schedule for ${event.title} was cleared.`,
+      });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error saving payment schedule",
+        description: error instanceof Error ? error.message : 'Failed to save milestones',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calendar03Icon className="h-5 w-5 text-primary" />
+            Payment Schedule
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading payment schedule...</p>
+        ) : (
+          <div className="space-y-4">
+            {statuses.length > 0 && (
+              <div className="rounded-lg border p-3 space-y-2 text-sm">
+                {statuses.map(milestone => (
+                  <div key={milestone.id} className="flex items-center justify-between gap-2">
+                    <span className="min-w-0 truncate">
+                      {milestone.label}
+                      {milestone.due_date && (
+                        <span className="text-xs text-muted-foreground"> • due {formatSessionDate(milestone.due_date)}</span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2 flex-shrink-0">
+                      <span className="text-xs text-muted-foreground">
+                        ₹{milestone.paid.toLocaleString('en-IN')} / ₹{milestone.amount.toLocaleString('en-IN')}
+                      </span>
+                      <Badge variant={STATUS_VARIANTS[milestone.status]}>{milestone.status}</Badge>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <PaymentMilestonesEditor milestones={milestones} total={total} onChange={setMilestones} />
+
+            {milestones.length === 0 && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setMilestones(buildDefaultMilestones(total, event.event_date, endDate))}
+              >
+                Use 30% booking, 40% before event, 30% on delivery
+              </Button>
+            )}
+
+            <div className="space-y-2 pt-2 border-t">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <Label htmlFor="event-payment-reminders">WhatsApp payment reminders</Label>
+                  <p className="text-xs text-muted-foreground">Applies to every event of {event.client?.name || 'this client'}</p>
+                </div>
+                <Switch
+                  id="event-payment-reminders"
+                  checked={!remindersOptOut}
+                  onCheckedChange={handleRemindersToggle}
+                  disabled={!event.client_id}
+                />
+              </div>
+              {reminders.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No reminders sent yet.</p>
+              ) : (
+                <div className="rounded-lg border divide-y text-sm">
+                  {reminders.map(reminder => (
+                    <div key={reminder.id} className="flex items-center justify-between gap-2 p-2">
+                      <span className="min-w-0 truncate">
+                        ₹{Number(reminder.amount_due).toLocaleString('en-IN')} due {formatSessionDate(reminder.due_date)}
+                        <span className="text-xs text-muted-foreground">
+                          {' '}• {new Date(reminder.sent_at || reminder.created_at).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' })}
+                          {reminder.error && ` • ${reminder.error}`}
+                        </span>
+                      </span>
+                      <Badge variant={REMINDER_STATUS_VARIANTS[reminder.status]} className="capitalize flex-shrink-0">
+                        {reminder.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading} className="min-w-[100px]">
+            {saving ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventPaymentScheduleDialog;
@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download01Icon, MoneySend01Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useFirmData } from '@/hooks/useFirmData';
+import { Event, EventRefund } from '@/types/studio';
+import { formatSessionDate } from '@/lib/event-session-utils';
+import { calculateTotalPaid } from '@/lib/payment-calculator';
+import { PaymentMethod, DEFAULT_PAYMENT_METHOD, formatPaymentMethod, getPaymentMethodOptions, getReferenceNumberLabel, requiresReferenceNumber } from '@/lib/payment-method-validator';
+import { createEventRefund, fetchEventRefunds } from '@/lib/refund-utils';
+import { generateCreditNotePDF } from '@/lib/credit-note-pdf-utils';
+
+interface EventRefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: Event;
+  onSaved?: () => void;
+}
+
+const NO_PAYMENT = 'none';
+
+/**
+ * Refunds given back to the client for an event, e.g. after a downgrade, each with a
+ * downloadable credit note
+ */
+const EventRefundDialog = ({ open, onOpenChange, event, onSaved }: EventRefundDialogProps) => {
+  const { toast } = useToast();
+  const { profile, currentFirmId } = useAuth();
+  const { firmData } = useFirmData();
+  const [refunds, setRefunds] = useState<EventRefund[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [amount, setAmount] = useState<number>(0);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
+  const [refundDate, setRefundDate] = useState(new Date().toISOString().split('T')[0]);
+  const [paymentId, setPaymentId] = useState(NO_PAYMENT);
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadRefunds = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchEventRefunds(event.id);
+        if (!cancelled) setRefunds(result);
+      } catch (error) {
+        toast({
+          title: "Error loading refunds",
+          description: error instanceof Error ? error.message : 'Failed to load refunds',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadRefunds();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, event.id, toast]);
+
+  const eventWithRefunds = { ...event, event_refunds: refunds };
+  const netPaid = Math.max(0, calculateTotalPaid(eventWithRefunds));
+  const payments = event.payments || [];
+
+  const handleDownload = async (refund: EventRefund) => {
+    const result = await generateCreditNotePDF(refund, eventWithRefunds, firmData);
+    if (!result.success) {
+      toast({
+        title: "Error downloading credit note",
+        description: "Failed to generate the credit note PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (amount <= 0) {
+      toast({ title: "Invalid amount", description: "Refund amount must be greater than ₹0", variant: "destructive" });
+      return;
+    }
+    if (amount > netPaid) {
+      toast({
+        title: "Refund exceeds payments",
+        description: `Refund (₹${amount.toLocaleString()}) cannot exceed the ₹${netPaid.toLocaleString()} paid for this event`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!currentFirmId) return;
+
+    setSaving(true);
+    try {
+      const refund = await createEventRefund({
+        eventId: event.id,
+        firmId: currentFirmId,
+        paymentId: paymentId === NO_PAYMENT ? null : paymentId,
+        amount,
+        refundDate,
+        refundMethod,
+        referenceNumber,
+        reason,
+        createdBy: profile?.id
+      });
+      setRefunds(current => [refund, ...current]);
+      setAmount(0);
+      setReferenceNumber('');
+      setReason('');
+      setPaymentId(NO_PAYMENT);
+      toast({
+        title: "Refund recorded",
+        description: `Credit note ${refund.credit_note_number} for ₹${refund.amount.toLocaleString()} was created.`,
+      });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error recording refund",
+        description: error instanceof Error ? error.message : 'Failed to record the refund',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MoneySend01Icon className="h-5 w-5 text-primary" />
+            Refunds & Credit Notes
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading refunds...</p>
+        ) : (
+          <div className="space-y-4">
+            {refunds.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No refunds recorded for this event.</p>
+            ) : (
+              <div className="rounded-lg border divide-y text-sm">
+                {refunds.map(refund => (
+                  <div key={refund.id} className="flex items-center justify-between gap-2 p-2">
+                    <span className="min-w-0 truncate">
+                      {refund.credit_note_number} • ₹{Number(refund.amount).toLocaleString('en-IN')}
+                      <span className="text-xs text-muted-foreground">
+                        {' '}• {formatSessionDate(refund.refund_date)} • {formatPaymentMethod(refund.refund_method)}
+                        {refund.reason && ` • ${refund.reason}`}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-2 flex-shrink-0">
+                      {refund.kind === 'cancellation' && <Badge variant="secondary">Cancellation</Badge>}
+                      <Button variant="ghost" size="sm" onClick={() => handleDownload(refund)}>
+                        <Download01Icon className="h-4 w-4" />
+                      </Button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3 pt-2 border-t">
+              <p className="text-sm text-muted-foreground">
+                ₹{netPaid.toLocaleString('en-IN')} paid for {event.title} can be refunded
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="refundAmount">Refund Amount (₹)</Label>
+                  <Input
+                    id="refundAmount"
+                    type="number"
+                    placeholder="Enter amount"
+                    value={amount || ''}
+                    onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                    max={netPaid}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refundDate">Refund Date</Label>
+                  <Input
+                    id="refundDate"
+                    type="date"
+                    value={refundDate}
+                    onChange={(e) => setRefundDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refundMethod">Refund Method</Label>
+                  <Select value={refundMethod} onValueChange={(value: PaymentMethod) => setRefundMethod(value)}>
+                    <SelectTrigger id="refundMethod">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getPaymentMethodOptions().map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refundPayment">Against Payment</Label>
+                  <Select value={paymentId} onValueChange={setPaymentId}>
+                    <SelectTrigger id="refundPayment">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PAYMENT}>Event as a whole</SelectItem>
+                      {payments.map(payment => (
+                        <SelectItem key={payment.id} value={payment.id}>
+                          ₹{payment.amount.toLocaleString('en-IN')} on {formatSessionDate(payment.payment_date)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {requiresReferenceNumber(refundMethod) && (
+                <div className="space-y-2">
+                  <Label htmlFor="refundReference">{getReferenceNumberLabel(refundMethod)}</Label>
+                  <Input
+                    id="refundReference"
+                    placeholder="Transaction ID, UPI Ref#, etc."
+                    value={referenceNumber}
+                    onChange={(e) => setReferenceNumber(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="refundReason">Reason (Optional)</Label>
+                <Input
+                  id="refundReason"
+                  placeholder="e.g., Package downgraded, second shooter dropped"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || amount <= 0 || netPaid <= 0} className="min-w-[100px]">
+            {saving ? 'Saving...' : `Refund ₹${amount.toLocaleString()}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventRefundDialog;
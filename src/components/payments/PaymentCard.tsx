@@ -8,17 +8,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { 
   CreditCardIcon, 
-  Money02Icon
+  Money02Icon,
+  Invoice03Icon
 } from 'hugeicons-react';
-import { Event } from '@/types/studio';
-import { PaymentMethod, DEFAULT_PAYMENT_METHOD, getPaymentMethodOptions, requiresReferenceNumber } from '@/lib/payment-method-validator';
+import { ChequeStatus, Event } from '@/types/studio';
+import { PaymentMethod, DEFAULT_PAYMENT_METHOD, getReferenceNumberLabel, requiresReferenceNumber } from '@/lib/payment-method-validator';
 import { calculateEventBalance, calculateTotalPaid, calculateTotalClosed } from '@/lib/payment-calculator';
+import { formatSessionDate } from '@/lib/event-session-utils';
 import BalanceDisplay from '@/components/ui/balance-display';
+import PaymentMethodSelect from './PaymentMethodSelect';
 
 
 interface PaymentCardProps {
@@ -33,7 +35,11 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
   const [collectingPayment, setCollectingPayment] = useState(false);
   const [paymentAmount, setPaymentAmount] = useState<number>(0);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(DEFAULT_PAYMENT_METHOD);
+  const [customMethod, setCustomMethod] = useState<string | null>(null);
   const [referenceNumber, setReferenceNumber] = useState('');
+  const [chequeNumber, setChequeNumber] = useState('');
+  const [chequeBank, setChequeBank] = useState('');
+  const [updatingChequeId, setUpdatingChequeId] = useState<string | null>(null);
   const [closingAmount, setClosingAmount] = useState<number>(0);
   const [closingReason, setClosingReason] = useState('');
   const [showClosingForm, setShowClosingForm] = useState(false);
@@ -48,6 +54,32 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
   const totalPaid = calculateTotalPaid(eventWithClosingBalances);
   const totalClosed = calculateTotalClosed(eventWithClosingBalances);
   const balanceAmount = calculateEventBalance(eventWithClosingBalances);
+  // Cheques taken directly for this event and through client receipts covering it
+  const unclearedCheques = [
+    ...(event.payments || [])
+      .filter(payment => payment.cheque_status === 'uncleared')
+      .map(payment => ({
+        id: payment.id,
+        table: 'payments' as const,
+        amount: payment.amount,
+        chequeNumber: payment.cheque_number,
+        chequeBank: payment.cheque_bank,
+        date: payment.payment_date,
+        receiptNumber: null as string | null
+      })),
+    ...(event.client_receipt_allocations || [])
+      .filter(allocation => allocation.receipt?.cheque_status === 'uncleared')
+      .map(allocation => ({
+        id: allocation.receipt_id,
+        table: 'client_receipts' as const,
+        amount: allocation.amount,
+        chequeNumber: allocation.receipt?.cheque_number,
+        chequeBank: allocation.receipt?.cheque_bank,
+        date: allocation.receipt?.payment_date || '',
+        receiptNumber: allocation.receipt?.receipt_number || null
+      }))
+  ];
+  const isCheque = paymentMethod === 'Cheque';
 
   const collectPayment = async () => {
     // Strict validation: Amount must be positive and not exceed balance
@@ -80,30 +112,32 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
       return;
     }
 
+    if (isCheque && !chequeNumber.trim()) {
+      toast({
+        title: "Cheque number required",
+        description: "Enter the cheque number so it can be tracked until it clears",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setCollectingPayment(true);
       
-      // 1. Generate invoice ID first
-      
-      const { data: invoiceIdData, error: invoiceError } = await supabase
-        .rpc('generate_invoice_id', { p_event_id: event.id });
-      
-      if (invoiceError) {
-        
-        throw new Error('Failed to generate invoice ID');
-      }
-
-      // 2. IMMEDIATE DATABASE UPDATE - This should be fast
+      // 1. IMMEDIATE DATABASE UPDATE - the event's invoice number is filled in by the database
       const { data: paymentData, error } = await supabase
         .from('payments')
         .insert({
           event_id: event.id,
           firm_id: currentFirmId,
           amount: paymentAmount,
-          payment_method: paymentMethod as any,
+          payment_method: paymentMethod,
+          custom_method: paymentMethod === 'Other' ? customMethod : null,
           payment_date: new Date().toISOString().split('T')[0],
-          reference_number: referenceNumber.trim() || null,
-          invoice_id: invoiceIdData,
+          reference_number: isCheque ? null : referenceNumber.trim() || null,
+          cheque_number: isCheque ? chequeNumber.trim() : null,
+          cheque_bank: isCheque ? chequeBank.trim() || null : null,
+          cheque_status: isCheque ? 'uncleared' : null,
           created_by: profile?.id
         })
         .select()
@@ -115,11 +149,15 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
       // 2. IMMEDIATE UI UPDATE - Don't wait for background processes
       toast({
         title: "Payment collected successfully!",
-        description: `₹${paymentAmount.toLocaleString()} has been recorded for ${event.title}`,
+        description: isCheque
+          ? `Cheque for ₹${paymentAmount.toLocaleString()} recorded for ${event.title}; it counts as collected once cleared`
+          : `₹${paymentAmount.toLocaleString()} has been recorded for ${event.title}`,
       });
 
       setPaymentAmount(0);
       setReferenceNumber('');
+      setChequeNumber('');
+      setChequeBank('');
       
       // Close dialog first, then trigger refresh
       onOpenChange(false);
@@ -182,6 +220,48 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
     }
   };
 
+  const updateChequeStatus = async (cheque: typeof unclearedCheques[number], status: ChequeStatus) => {
+    try {
+      setUpdatingChequeId(cheque.id);
+      const { error } = await supabase
+        .from(cheque.table)
+        .update({
+          cheque_status: status,
+          cheque_cleared_on: status === 'cleared' ? new Date().toISOString().split('T')[0] : null
+        })
+        .eq('id', cheque.id);
+
+      if (error) throw error;
+
+      const appliesTo = cheque.receiptNumber ? ` for every event on receipt ${cheque.receiptNumber}` : '';
+      toast({
+        title: status === 'cleared' ? "Cheque cleared" : "Cheque marked as bounced",
+        description: status === 'cleared'
+          ? `The payment now counts as collected${appliesTo}`
+          : `The amount has been added back to the balance${appliesTo}`,
+      });
+
+      onPaymentCollected();
+
+      if (currentFirmId) {
+        import('@/services/syncCoordinator').then(({ syncPayment, syncEvent }) => {
+          if (cheque.table === 'payments') syncPayment(cheque.id, currentFirmId, 'update');
+          syncEvent(event.id, currentFirmId, 'update', 'payment-collection');
+        }).catch(syncError => {
+          console.error('Background sync error:', syncError);
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error updating cheque",
+        description: error instanceof Error ? error.message : 'Failed to update the cheque',
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingChequeId(null);
+    }
+  };
+
   const closeBalance = async () => {
     if (closingAmount <= 0) {
       toast({
@@ -343,6 +423,51 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
             )}
           </div>
 
+          {/* Cheques received but not yet cleared by the bank */}
+          {unclearedCheques.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Invoice03Icon className="h-5 w-5" />
+                  Cheques Awaiting Clearance
+                </CardTitle>
+                <CardDescription>
+                  Not counted as collected until cleared
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {unclearedCheques.map(cheque => (
+                  <div key={`${cheque.table}-${cheque.id}`} className="flex items-center justify-between gap-3 rounded-lg border p-2 text-sm">
+                    <span className="min-w-0 truncate">
+                      <span className="font-medium">₹{Number(cheque.amount).toLocaleString('en-IN')}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {' '}• #{cheque.chequeNumber}{cheque.chequeBank ? ` • ${cheque.chequeBank}` : ''} • {formatSessionDate(cheque.date)}
+                        {cheque.receiptNumber ? ` • ${cheque.receiptNumber}` : ''}
+                      </span>
+                    </span>
+                    <span className="flex gap-2 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateChequeStatus(cheque, 'bounced')}
+                        disabled={updatingChequeId === cheque.id}
+                      >
+                        Bounced
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => updateChequeStatus(cheque, 'cleared')}
+                        disabled={updatingChequeId === cheque.id}
+                      >
+                        Cleared
+                      </Button>
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Payment Collection Section */}
           {balanceAmount > 0 && !showClosingForm && (
             <Card>
@@ -387,24 +512,42 @@ const PaymentCard = ({ event, open, onOpenChange, onPaymentCollected }: PaymentC
                   
                   <div className="space-y-2">
                     <Label htmlFor="paymentMethod">Payment Method</Label>
-                    <Select value={paymentMethod} onValueChange={(value: PaymentMethod) => setPaymentMethod(value)}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {getPaymentMethodOptions().map(({ value, label }) => (
-                          <SelectItem key={value} value={value}>
-                            {label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <PaymentMethodSelect
+                      id="paymentMethod"
+                      method={paymentMethod}
+                      customMethod={customMethod}
+                      onChange={(method, custom) => {
+                        setPaymentMethod(method);
+                        setCustomMethod(custom);
+                      }}
+                    />
                   </div>
                 </div>
 
-                {requiresReferenceNumber(paymentMethod) && (
+                {isCheque ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="chequeNumber">Cheque Number</Label>
+                      <Input
+                        id="chequeNumber"
+                        placeholder="e.g., 004512"
+                        value={chequeNumber}
+                        onChange={(e) => setChequeNumber(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="chequeBank">Bank</Label>
+                      <Input
+                        id="chequeBank"
+                        placeholder="e.g., HDFC Bank"
+                        value={chequeBank}
+                        onChange={(e) => setChequeBank(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                ) : requiresReferenceNumber(paymentMethod) && (
                   <div className="space-y-2">
-                    <Label htmlFor="referenceNumber">Reference Number</Label>
+                    <Label htmlFor="referenceNumber">{getReferenceNumberLabel(paymentMethod)}</Label>
                     <Input
                       id="referenceNumber"
                       placeholder="Transaction ID, UPI Ref#, etc."
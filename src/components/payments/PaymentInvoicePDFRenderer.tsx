@@ -1,11 +1,13 @@
 import React from 'react';
-import { Document, Page, Text, View, StyleSheet, pdf } from '@react-pdf/renderer';
+import { Document, Page, Text, View, Image, StyleSheet, pdf } from '@react-pdf/renderer';
 import { saveAs } from 'file-saver';
 import { Payment, Event } from '@/types/studio';
 import { formatDate } from '@/lib/date-utils';
-import { SharedPDFHeader, SharedPDFFooter, StatusBadge, sharedStyles } from '../pdf/SharedPDFLayout';
+import { SharedPDFHeader, SharedPDFFooter, SimpleTable, StatusBadge, sharedStyles } from '../pdf/SharedPDFLayout';
 import { supabase } from '@/integrations/supabase/client';
 import { calculateTotalPaid, calculateTotalClosed, calculateEventBalance, getPaymentStatus } from '@/lib/payment-calculator';
+import { generateUpiQrDataUrl, getEventUpiPayment } from '@/lib/upi-utils';
+import { formatStateLabel, formatTaxAmount, getEventTaxBreakdown, scaleTaxBreakdown, toFirmTaxSettings } from '@/lib/gst-utils';
 
 const styles = StyleSheet.create({
   ...sharedStyles,
@@ -55,6 +57,18 @@ const styles = StyleSheet.create({
     marginBottom: 3,
     lineHeight: 1.4,
   },
+  upiQrSection: {
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#c4b28d',
+  },
+  upiQrImage: {
+    width: 110,
+    height: 110,
+    marginBottom: 6,
+  },
   paidSection: {
     backgroundColor: '#f0f9ff',
     padding: 20,
@@ -121,6 +135,8 @@ const styles = StyleSheet.create({
 interface PaymentInvoicePDFProps {
   payment: Payment & { event?: Event; invoice_id?: string | null };
   firmData?: any;
+  // Scan-to-pay QR for the outstanding balance
+  upiQr?: { dataUrl: string; amount: number } | null;
 }
 
 // Helper function to determine payment status using the standardized payment calculator
@@ -130,8 +146,9 @@ const getEventPaymentStatus = (payment: Payment & { event?: Event }): 'Paid' | '
   }
 
   // Use standardized payment calculator functions
-  const paymentStatus = getPaymentStatus(payment.event);
-  
+  const { status: paymentStatus, isOverdue, milestones } = getPaymentStatus(payment.event);
+  if (paymentStatus !== 'paid' && isOverdue) return 'Overdue';
+
   // Convert to PDF status format
   switch (paymentStatus) {
     case 'paid':
@@ -139,6 +156,9 @@ const getEventPaymentStatus = (payment: Payment & { event?: Event }): 'Paid' | '
     case 'partial':
       return 'Partial';
     case 'unpaid':
+      // A payment schedule decides what is overdue
+      if (milestones.length > 0) return 'Pending';
+
       // Check if payment date is overdue
       const eventDate = new Date(payment.event.event_date);
       const today = new Date();
@@ -153,10 +173,13 @@ const getEventPaymentStatus = (payment: Payment & { event?: Event }): 'Paid' | '
   }
 };
 
-const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment, firmData }) => {
+const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment, firmData, upiQr }) => {
   const paymentStatus = getEventPaymentStatus(payment);
   const totalAmount = payment.amount;
   const isFullyPaid = paymentStatus === 'Paid';
+  // GST on the event, and the share of it received with this payment
+  const eventTax = payment.event ? getEventTaxBreakdown(payment.event, toFirmTaxSettings(firmData)) : null;
+  const paymentTax = eventTax ? scaleTaxBreakdown(eventTax, totalAmount) : null;
   
   return (
     <Document>
@@ -165,8 +188,11 @@ const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment,
         <SharedPDFHeader firmData={firmData} />
 
         <View>
-          <Text style={styles.documentId}>Invoice ID: {payment.event?.id || payment.id || 'INV-PREVIEW'}</Text>
-          <Text style={styles.title}>PAYMENT INVOICE</Text>
+          <Text style={styles.documentId}>Invoice ID: {payment.invoice_id || payment.event?.invoice_number || 'INV-PREVIEW'}</Text>
+          <Text style={styles.title}>{eventTax ? 'TAX INVOICE' : 'PAYMENT INVOICE'}</Text>
+          {eventTax && firmData?.gstin && (
+            <Text style={styles.documentId}>GSTIN: {firmData.gstin}</Text>
+          )}
         </View>
 
         {/* Payment Details - Three Column Layout */}
@@ -183,6 +209,18 @@ const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment,
                 <Text style={styles.detailValue}>{payment.reference_number}</Text>
               </View>
             )}
+            {eventTax && payment.event?.client?.gstin && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Client GSTIN:</Text>
+                <Text style={styles.detailValue}>{payment.event.client.gstin}</Text>
+              </View>
+            )}
+            {eventTax && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Place of Supply:</Text>
+                <Text style={styles.detailValue}>{formatStateLabel(eventTax.placeOfSupply)}</Text>
+              </View>
+            )}
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Status:</Text>
               <View>
@@ -225,6 +263,12 @@ const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment,
                   <Text style={styles.detailLabel}>Event Amount:</Text>
                   <Text style={styles.detailValue}>₹{payment.event.total_amount?.toLocaleString() || 0}</Text>
                 </View>
+                {eventTax && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>GST Included:</Text>
+                    <Text style={styles.detailValue}>{formatTaxAmount(eventTax.totalTax)}</Text>
+                  </View>
+                )}
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>Total Paid:</Text>
                   <Text style={styles.detailValue}>₹{calculateTotalPaid(payment.event).toLocaleString()}</Text>
@@ -282,8 +326,35 @@ const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment,
               </View>
             </View>
           )}
+
+          {!isFullyPaid && upiQr && (
+            <View style={styles.upiQrSection}>
+              <Image src={upiQr.dataUrl} style={styles.upiQrImage} />
+              <Text style={styles.qrText}>Scan with any UPI app to pay ₹{upiQr.amount.toLocaleString('en-IN')}</Text>
+            </View>
+          )}
         </View>
 
+        {/* GST included in this payment */}
+        {paymentTax && paymentTax.rates.length > 0 && (
+          <View>
+            <Text style={styles.sectionTitle}>Tax Details (this payment)</Text>
+            <SimpleTable
+              headers={paymentTax.interState
+                ? ['HSN/SAC', 'Taxable Value', 'Rate', 'IGST']
+                : ['HSN/SAC', 'Taxable Value', 'Rate', 'CGST', 'SGST']}
+              rows={[
+                ...paymentTax.rates.map(entry => paymentTax.interState
+                  ? [entry.hsnSac, formatTaxAmount(entry.taxableValue), `${entry.rate}%`, formatTaxAmount(entry.igst)]
+                  : [entry.hsnSac, formatTaxAmount(entry.taxableValue), `${entry.rate}%`, formatTaxAmount(entry.cgst), formatTaxAmount(entry.sgst)]),
+                paymentTax.interState
+                  ? ['Total', formatTaxAmount(paymentTax.taxableValue), '', formatTaxAmount(paymentTax.igst)]
+                  : ['Total', formatTaxAmount(paymentTax.taxableValue), '', formatTaxAmount(paymentTax.cgst), formatTaxAmount(paymentTax.sgst)]
+              ]}
+            />
+          </View>
+        )}
+
         {/* Notes Section */}
         {payment.notes && (
           <View style={styles.notesSection}>
@@ -302,7 +373,11 @@ const PaymentInvoicePDFDocument: React.FC<PaymentInvoicePDFProps> = ({ payment,
 
 export const generatePaymentInvoicePDF = async (payment: Payment & { event?: Event; invoice_id?: string | null }, firmData?: any, downloadOnly = true) => {
   try {
-    const doc = <PaymentInvoicePDFDocument payment={payment} firmData={firmData} />;
+    const upiPayment = payment.event ? getEventUpiPayment(payment.event, firmData) : null;
+    const upiQr = upiPayment
+      ? { dataUrl: await generateUpiQrDataUrl(upiPayment.link), amount: upiPayment.amount }
+      : null;
+    const doc = <PaymentInvoicePDFDocument payment={payment} firmData={firmData} upiQr={upiQr} />;
     const asPdf = pdf(doc);
     const blob = await asPdf.toBlob();
     
@@ -1,20 +1,24 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar01Icon, Add01Icon, RefreshIcon, ChartLineData02Icon, ChartDecreaseIcon, DollarCircleIcon } from 'hugeicons-react';
+import { Calendar01Icon, Calendar03Icon, Add01Icon, RefreshIcon, ChartLineData02Icon, ChartDecreaseIcon, DollarCircleIcon, Invoice01Icon } from 'hugeicons-react';
 import { CreditCardIcon } from 'hugeicons-react';
-import { Event, TaskFromDB, convertDbTaskToTask } from '@/types/studio';
+import { Client, Event, TaskFromDB, convertDbTaskToTask } from '@/types/studio';
 import PaymentCard from './PaymentCard';
 import EventPaymentCard from './EventPaymentCard';
+import ClientReceiptDialog from './ClientReceiptDialog';
 import StatsGrid from '@/components/ui/stats-grid';
-import { calculatePaymentStats } from '@/lib/payment-calculator';
+import { calculatePaymentStats, getUpcomingMilestones } from '@/lib/payment-calculator';
+import { formatSessionDate } from '@/lib/event-session-utils';
 import { generatePaymentInvoicePDF } from './PaymentInvoicePDFRenderer';
+import { getEventInvoiceNumber } from '@/lib/document-number-utils';
 import CleanEventFormDialog from '@/components/events/CleanEventFormDialog';
 import { useFirmData } from '@/hooks/useFirmData';
 import { EmptyState } from '@/components/ui/empty-state';
+import { usePaymentReminderAutomation } from '@/hooks/usePaymentReminderAutomation';
 
 const PaymentManagement = () => {
   const { currentFirmId } = useAuth();
@@ -25,8 +29,10 @@ const PaymentManagement = () => {
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [selectedEventForPayment, setSelectedEventForPayment] = useState<Event | null>(null);
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
+  const [receiptDialogOpen, setReceiptDialogOpen] = useState(false);
   const { toast } = useToast();
   const { firmData } = useFirmData();
+  usePaymentReminderAutomation();
 
   useEffect(() => {
     if (currentFirmId) {
@@ -63,7 +69,7 @@ const PaymentManagement = () => {
         .eq('firm_id', currentFirmId)
         .order('event_date', { ascending: false });
 
-      const [paymentsResponse, closingBalancesResponse] = await Promise.all([
+      const [paymentsResponse, closingBalancesResponse, milestonesResponse, refundsResponse, allocationsResponse] = await Promise.all([
         supabase
           .from('payments')
           .select('*')
@@ -71,6 +77,18 @@ const PaymentManagement = () => {
         supabase
           .from('event_closing_balances')
           .select('*')
+          .eq('firm_id', currentFirmId),
+        supabase
+          .from('event_payment_milestones')
+          .select('*')
+          .eq('firm_id', currentFirmId),
+        supabase
+          .from('event_refunds')
+          .select('*')
+          .eq('firm_id', currentFirmId),
+        supabase
+          .from('client_receipt_allocations')
+          .select('*, receipt:client_receipts(payment_method, custom_method, cheque_number, cheque_bank, cheque_status, receipt_number, payment_date)')
           .eq('firm_id', currentFirmId)
       ]);
 
@@ -79,10 +97,16 @@ const PaymentManagement = () => {
       const processedEvents = data?.map(event => {
         const eventPayments = paymentsResponse.data?.filter(payment => payment.event_id === event.id) || [];
         const eventClosingBalances = closingBalancesResponse.data?.filter(cb => cb.event_id === event.id) || [];
+        const eventMilestones = milestonesResponse.data?.filter(milestone => milestone.event_id === event.id) || [];
+        const eventRefunds = refundsResponse.data?.filter(refund => refund.event_id === event.id) || [];
+        const eventAllocations = allocationsResponse.data?.filter(allocation => allocation.event_id === event.id) || [];
         return {
           ...event,
           payments: eventPayments,
           event_closing_balances: eventClosingBalances,
+          event_payment_milestones: eventMilestones,
+          event_refunds: eventRefunds,
+          client_receipt_allocations: eventAllocations,
           tasks: event.tasks?.map((task: TaskFromDB) => convertDbTaskToTask(task)) || []
         };
       }) || [];
@@ -132,7 +156,7 @@ const PaymentManagement = () => {
 
   const handleDownloadInvoice = async (event: Event) => {
     try {
-      const { data: invoiceId } = await supabase.rpc('generate_invoice_id', { p_event_id: event.id });
+      const invoiceId = await getEventInvoiceNumber(event.id);
       
       const paymentData = {
         id: `event-${event.id}`,
@@ -168,6 +192,14 @@ const PaymentManagement = () => {
   };
 
   const stats = calculatePaymentStats(events);
+  // Clients with more than one event can pay them together through a client receipt
+  const receiptClients = Array.from(
+    new Map(events.filter(event => event.client).map(event => [event.client!.id, event.client as Client])).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+  const upcomingMilestones = events
+    .filter(event => event.status !== 'Cancelled')
+    .flatMap(event => getUpcomingMilestones(event).map(milestone => ({ ...milestone, event })))
+    .sort((a, b) => (a.daysUntilDue ?? 0) - (b.daysUntilDue ?? 0));
 
   if (loading) {
     return (
@@ -201,6 +233,14 @@ const PaymentManagement = () => {
           <Button onClick={() => setCreateDialogOpen(true)} className="rounded-full p-3">
             <Add01Icon className="h-4 w-4" />
           </Button>
+          <Button
+            onClick={() => setReceiptDialogOpen(true)}
+            variant="outline"
+            className="rounded-full p-3"
+            title="Client receipt across events"
+          >
+            <Invoice01Icon className="h-4 w-4" />
+          </Button>
           <Button 
             onClick={handleRefresh} 
             variant="outline" 
@@ -248,6 +288,44 @@ const PaymentManagement = () => {
         ]} />
       </div>
 
+      {/* Payment milestones that are overdue or due in the next two weeks */}
+      {upcomingMilestones.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Calendar03Icon className="h-4 w-4 text-primary" />
+              Upcoming & Overdue Milestones
+              {stats.overdueEvents > 0 && (
+                <span className="text-sm font-normal text-destructive">
+                  • ₹{stats.overdueAmount.toLocaleString('en-IN')} overdue
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {upcomingMilestones.map(milestone => (
+              <button
+                key={milestone.id}
+                type="button"
+                onClick={() => handlePaymentRecord(milestone.event)}
+                className="w-full flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-left text-sm hover:bg-muted/50"
+              >
+                <span className="min-w-0 truncate">
+                  <span className="font-medium">{milestone.event.title}</span>
+                  <span className="text-muted-foreground"> • {milestone.label}</span>
+                </span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  <span className="font-medium">₹{milestone.outstanding.toLocaleString('en-IN')}</span>
+                  <span className={`text-xs ${milestone.status === 'Overdue' ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                    {milestone.status === 'Overdue' ? 'Overdue since' : 'Due'} {milestone.due_date ? formatSessionDate(milestone.due_date) : ''}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Events */}
       {events.length === 0 ? (
         <EmptyState
@@ -270,6 +348,7 @@ const PaymentManagement = () => {
               onViewDetails={() => {}}
               onDownloadInvoice={handleDownloadInvoice}
               onSendInvoice={handleSendInvoice}
+              onStatusChange={loadEvents}
             />
           ))}
         </div>
@@ -285,6 +364,13 @@ const PaymentManagement = () => {
         />
       )}
 
+      <ClientReceiptDialog
+        open={receiptDialogOpen}
+        onOpenChange={setReceiptDialogOpen}
+        clients={receiptClients}
+        onRecorded={loadEvents}
+      />
+
       <CleanEventFormDialog
         open={createDialogOpen}
         onOpenChange={setCreateDialogOpen}
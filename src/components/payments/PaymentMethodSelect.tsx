@@ -0,0 +1,59 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFirmPaymentMethods } from '@/hooks/useFirmPaymentMethods';
+import {
+  PaymentMethod,
+  fromPaymentMethodValue,
+  getPaymentMethodOptions,
+  toPaymentMethodValue
+} from '@/lib/payment-method-validator';
+
+interface PaymentMethodSelectProps {
+  id?: string;
+  method: PaymentMethod;
+  customMethod?: string | null;
+  onChange: (method: PaymentMethod, customMethod: string | null) => void;
+  // Cheques need clearing, so they are only offered where that is tracked
+  allowCheque?: boolean;
+  allowCustom?: boolean;
+}
+
+/**
+ * Built-in payment methods followed by the firm's own
+ */
+const PaymentMethodSelect = ({
+  id,
+  method,
+  customMethod,
+  onChange,
+  allowCheque = true,
+  allowCustom = true
+}: PaymentMethodSelectProps) => {
+  const { activePaymentMethods } = useFirmPaymentMethods();
+  const options = getPaymentMethodOptions({
+    includeCheque: allowCheque,
+    customMethods: allowCustom ? activePaymentMethods.map(paymentMethod => paymentMethod.name) : []
+  });
+
+  return (
+    <Select
+      value={toPaymentMethodValue(method, customMethod)}
+      onValueChange={(value) => {
+        const choice = fromPaymentMethodValue(value);
+        onChange(choice.method, choice.customMethod);
+      }}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(({ value, label }) => (
+          <SelectItem key={value} value={value}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default PaymentMethodSelect;
@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Add01Icon, Delete02Icon } from 'hugeicons-react';
+import { PaymentMilestoneDraft, getScheduledTotal } from '@/lib/payment-milestone-utils';
+
+interface PaymentMilestonesEditorProps {
+  milestones: PaymentMilestoneDraft[];
+  total: number;
+  onChange: (milestones: PaymentMilestoneDraft[]) => void;
+}
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+/**
+ * Rows of label, percentage, amount and due date. Typing a percentage works out the amount;
+ * typing an amount drops the percentage.
+ */
+const PaymentMilestonesEditor = ({ milestones, total, onChange }: PaymentMilestonesEditorProps) => {
+  const unscheduled = Math.round(total - getScheduledTotal(milestones));
+
+  const updateMilestone = (key: string, updates: Partial<PaymentMilestoneDraft>) => {
+    onChange(milestones.map(milestone => milestone.key === key ? { ...milestone, ...updates } : milestone));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Event total</span>
+        <span className="font-medium">{formatRupees(total)}</span>
+      </div>
+
+      {milestones.length > 0 && (
+        <div className="grid grid-cols-[1fr_70px_110px_140px_32px] gap-2 text-xs text-muted-foreground">
+          <span>Milestone</span>
+          <span>%</span>
+          <span>Amount</span>
+          <span>Due</span>
+          <span />
+        </div>
+      )}
+
+      {milestones.map(milestone => (
+        <div key={milestone.key} className="grid grid-cols-[1fr_70px_110px_140px_32px] gap-2 items-center">
+          <Input
+            value={milestone.label}
+            placeholder="e.g. Booking advance"
+            onChange={(e) => updateMilestone(milestone.key, { label: e.target.value })}
+          />
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            placeholder="%"
+            value={milestone.percentage ?? ''}
+            onChange={(e) => {
+              const percentage = parseFloat(e.target.value) || 0;
+              updateMilestone(milestone.key, {
+                percentage: percentage || null,
+                amount: Math.round(total * percentage / 100)
+              });
+            }}
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Amount"
+            value={milestone.amount || ''}
+            onChange={(e) => updateMilestone(milestone.key, { amount: parseFloat(e.target.value) || 0, percentage: null })}
+          />
+          <Input
+            type="date"
+            value={milestone.due_date || ''}
+            onChange={(e) => updateMilestone(milestone.key, { due_date: e.target.value || null })}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-destructive"
+            onClick={() => onChange(milestones.filter(item => item.key !== milestone.key))}
+          >
+            <Delete02Icon className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => onChange([...milestones, {
+          key: crypto.randomUUID(),
+          label: '',
+          percentage: null,
+          amount: Math.max(unscheduled, 0),
+          due_date: null
+        }])}
+      >
+        <Add01Icon className="h-4 w-4 mr-2" />
+        Add Milestone
+      </Button>
+
+      <p className={`text-xs ${unscheduled === 0 ? 'text-muted-foreground' : 'text-destructive'}`}>
+        {unscheduled === 0
+          ? 'The schedule covers the full event total.'
+          : unscheduled > 0
+            ? `${formatRupees(unscheduled)} is not scheduled yet.`
+            : `The schedule is ${formatRupees(-unscheduled)} over the event total.`}
+      </p>
+    </div>
+  );
+};
+
+export default PaymentMilestonesEditor;
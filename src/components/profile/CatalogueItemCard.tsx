@@ -0,0 +1,132 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Delete02Icon, UserGroupIcon } from 'hugeicons-react';
+import { CatalogueItem, TaxClass } from '@/types/studio';
+import { CATALOGUE_CREW_ROLES, TAX_CLASS_LABELS } from '@/lib/quotation-catalogue-utils';
+
+export type CatalogueItemDraft = Omit<CatalogueItem, 'created_at' | 'updated_at'>;
+
+interface CatalogueItemCardProps {
+  item: CatalogueItemDraft;
+  onChange: (updates: Partial<CatalogueItemDraft>) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Editor for one catalogue line item: name, unit and unit price, tax class and the crew it brings
+ */
+const CatalogueItemCard = ({ item, onChange, onRemove }: CatalogueItemCardProps) => {
+  const crewQuantity = (role: string) => item.crew.find(member => member.role === role)?.quantity || 0;
+
+  const updateCrew = (role: string, quantity: number) => {
+    const others = item.crew.filter(member => member.role !== role);
+    onChange({ crew: quantity > 0 ? [...others, { role, quantity }] : others });
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-xl bg-muted/20">
+      <div className="flex items-center gap-3">
+        <Input
+          value={item.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="Item name"
+          className="flex-1"
+        />
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch checked={item.is_active} onCheckedChange={(checked) => onChange({ is_active: checked })} />
+          <span className="text-xs text-muted-foreground w-12">{item.is_active ? 'Active' : 'Hidden'}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10 shrink-0"
+          aria-label={`Remove ${item.name}`}
+        >
+          <Delete02Icon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Unit Price</Label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+            <Input
+              type="number"
+              min={0}
+              value={item.unit_price}
+              onChange={(e) => onChange({ unit_price: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="pl-8"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Unit</Label>
+          <Input
+            value={item.unit || ''}
+            onChange={(e) => onChange({ unit: e.target.value || null })}
+            placeholder="Flat (e.g. Per Page)"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Tax Class</Label>
+          <Select value={item.tax_class} onValueChange={(value) => onChange({ tax_class: value as TaxClass })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map(taxClass => (
+                <SelectItem key={taxClass} value={taxClass}>{TAX_CLASS_LABELS[taxClass]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">HSN/SAC</Label>
+          <Input
+            value={item.hsn_sac || ''}
+            onChange={(e) => onChange({ hsn_sac: e.target.value.replace(/\D/g, '').slice(0, 8) || null })}
+            placeholder="Firm default"
+            inputMode="numeric"
+          />
+        </div>
+      </div>
+
+      <Input
+        value={item.description || ''}
+        onChange={(e) => onChange({ description: e.target.value || null })}
+        placeholder="Default description on quotations (optional)"
+      />
+
+      {item.kind === 'addon' && (
+        <div className="space-y-1">
+          <Label className="flex items-center gap-1 text-xs text-muted-foreground">
+            <UserGroupIcon className="h-3 w-3" />
+            Crew this adds to the event
+          </Label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {CATALOGUE_CREW_ROLES.map(role => (
+              <div key={role} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={crewQuantity(role)}
+                  onChange={(e) => updateCrew(role, Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-16 h-8 text-xs"
+                  aria-label={role}
+                />
+                <span className="text-xs text-muted-foreground truncate">{role}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogueItemCard;
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Invoice01Icon, CheckmarkCircle01Icon } from 'hugeicons-react';
+import { DocumentType } from '@/types/studio';
+import {
+  DEFAULT_DOCUMENT_SERIES,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  DocumentSeriesSettings,
+  formatDocumentNumber,
+  getFinancialYearLabel
+} from '@/lib/document-number-utils';
+
+interface DocumentNumberingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firmId: string;
+  onSuccess?: () => void;
+}
+
+// Last number given, by document type and period ('all' or a financial year)
+type LastNumbers = Record<string, number>;
+
+const DocumentNumberingDialog = ({ open, onOpenChange, firmId, onSuccess }: DocumentNumberingDialogProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [series, setSeries] = useState<Record<DocumentType, DocumentSeriesSettings>>(DEFAULT_DOCUMENT_SERIES);
+  const [lastNumbers, setLastNumbers] = useState<LastNumbers>({});
+
+  const loadSeries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [seriesResult, countersResult] = await Promise.all([
+        supabase.from('firm_document_series').select('*').eq('firm_id', firmId),
+        supabase.from('firm_document_counters').select('document_type, period, last_number').eq('firm_id', firmId)
+      ]);
+
+      if (seriesResult.error) throw seriesResult.error;
+      if (countersResult.error) throw countersResult.error;
+
+      const saved = { ...DEFAULT_DOCUMENT_SERIES };
+      (seriesResult.data || []).forEach(row => {
+        const type = row.document_type as DocumentType;
+        saved[type] = {
+          document_type: type,
+          prefix: row.prefix,
+          padding: row.padding,
+          reset_financial_year: row.reset_financial_year
+        };
+      });
+
+      setSeries(saved);
+      setLastNumbers(Object.fromEntries(
+        (countersResult.data || []).map(counter => [`${counter.document_type}:${counter.period}`, counter.last_number])
+      ));
+    } catch (error) {
+      toast({
+        title: "Error loading numbering",
+        description: error instanceof Error ? error.message : 'Failed to load document numbering',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [firmId, toast]);
+
+  useEffect(() => {
+    if (open && firmId) {
+      loadSeries();
+    }
+  }, [open, firmId, loadSeries]);
+
+  const updateSeries = (type: DocumentType, updates: Partial<DocumentSeriesSettings>) => {
+    setSeries(prev => ({ ...prev, [type]: { ...prev[type], ...updates } }));
+  };
+
+  const getNextNumber = (settings: DocumentSeriesSettings) => {
+    const period = settings.reset_financial_year ? getFinancialYearLabel() : 'all';
+    return formatDocumentNumber(settings, (lastNumbers[`${settings.document_type}:${period}`] || 0) + 1);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('firm_document_series')
+        .upsert(
+          DOCUMENT_TYPES.map(type => ({
+            firm_id: firmId,
+            document_type: type,
+            prefix: series[type].prefix.trim(),
+            padding: series[type].padding,
+            reset_financial_year: series[type].reset_financial_year
+          })),
+          { onConflict: 'firm_id,document_type' }
+        );
+
+      if (error) throw error;
+
+      toast({
+        title: "Numbering updated successfully",
+        description: "New documents will be numbered with these settings",
+      });
+
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error saving numbering",
+        description: error instanceof Error ? error.message : 'Failed to save document numbering',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Invoice01Icon className="h-5 w-5 text-primary" />
+            Document Numbering
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="text-center">
+              <Invoice01Icon className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+              <p className="text-muted-foreground">Loading numbering...</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Each document type has its own gap-free series. A number is never reused or changed once given,
+              so new settings only apply to documents created from now on.
+            </p>
+
+            {DOCUMENT_TYPES.map(type => {
+              const settings = series[type];
+              return (
+                <div key={type} className="space-y-4 p-4 border rounded-xl bg-muted/20">
+                  <div className="flex items-center justify-between gap-3">
+                    <h4 className="font-medium">{DOCUMENT_TYPE_LABELS[type]}</h4>
+                    <span className="text-xs text-muted-foreground">
+                      Next: <span className="font-mono text-foreground">{getNextNumber(settings)}</span>
+                    </span>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Prefix</Label>
+                      <Input
+                        value={settings.prefix}
+                        maxLength={20}
+                        onChange={(e) => updateSeries(type, { prefix: e.target.value })}
+                        placeholder={DEFAULT_DOCUMENT_SERIES[type].prefix}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Digits</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={settings.padding}
+                        onChange={(e) => updateSeries(type, { padding: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Restart every 1 April</Label>
+                      <div className="flex items-center gap-2 h-10">
+                        <Switch
+                          checked={settings.reset_financial_year}
+                          onCheckedChange={(checked) => updateSeries(type, { reset_financial_year: checked })}
+                        />
+                        <span className="text-xs text-muted-foreground">
+                          {settings.reset_financial_year ? `FY ${getFinancialYearLabel()}` : 'Continuous'}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Action Buttons */}
+            <div className="flex justify-end gap-3 pt-6 border-t">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="min-w-[120px]">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="min-w-[120px]">
+                <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentNumberingDialog;
@@ -0,0 +1,297 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  Tag01Icon,
+  Camera01Icon,
+  Video01Icon,
+  DroneIcon,
+  Edit01Icon,
+  Add01Icon,
+  CheckmarkCircle01Icon
+} from 'hugeicons-react';
+import { EventTypeCrewTemplate, EventTypeRoleRates, FirmEventType } from '@/types/studio';
+import { DEFAULT_EVENT_TYPE_COLOR, normalizeFirmEventType } from '@/lib/event-type-utils';
+
+interface EventTypeCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firmId: string;
+  onSuccess?: () => void;
+}
+
+// Draft rows have no id until they are saved
+type EventTypeDraft = Omit<FirmEventType, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+const CREW_FIELDS: { key: keyof EventTypeCrewTemplate; label: string; icon: typeof Camera01Icon }[] = [
+  { key: 'photographers', label: 'Photographers', icon: Camera01Icon },
+  { key: 'cinematographers', label: 'Cinematographers', icon: Video01Icon },
+  { key: 'drone', label: 'Drone Pilots', icon: DroneIcon },
+  { key: 'sameDayEditors', label: 'Same Day Editors', icon: Edit01Icon }
+];
+
+const RATE_FIELDS: { key: keyof EventTypeRoleRates; label: string }[] = [
+  { key: 'photographer', label: 'Photographer' },
+  { key: 'cinematographer', label: 'Cinematographer' },
+  { key: 'drone', label: 'Drone Pilot' },
+  { key: 'editor', label: 'Editor' }
+];
+
+const EventTypeCatalogDialog = ({ open, onOpenChange, firmId, onSuccess }: EventTypeCatalogDialogProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [eventTypes, setEventTypes] = useState<EventTypeDraft[]>([]);
+  const [originalNames, setOriginalNames] = useState<Record<string, string>>({});
+  const [newTypeName, setNewTypeName] = useState('');
+
+  const loadEventTypes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('firm_event_types')
+        .select('*')
+        .eq('firm_id', firmId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      const rows = (data || []).map(normalizeFirmEventType);
+      setEventTypes(rows);
+      setOriginalNames(Object.fromEntries(rows.map(row => [row.id, row.name])));
+    } catch (error) {
+      toast({
+        title: "Error loading event types",
+        description: error instanceof Error ? error.message : 'Failed to load event types',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [firmId, toast]);
+
+  useEffect(() => {
+    if (open && firmId) {
+      loadEventTypes();
+    }
+  }, [open, firmId, loadEventTypes]);
+
+  const updateEventType = (index: number, updates: Partial<EventTypeDraft>) => {
+    setEventTypes(prev => prev.map((type, i) => i === index ? { ...type, ...updates } : type));
+  };
+
+  const updateCrew = (index: number, key: keyof EventTypeCrewTemplate, value: number) => {
+    const type = eventTypes[index];
+    updateEventType(index, { default_crew: { ...type.default_crew, [key]: value } });
+  };
+
+  const updateRate = (index: number, key: keyof EventTypeRoleRates, value: number) => {
+    const type = eventTypes[index];
+    updateEventType(index, { default_rates: { ...type.default_rates, [key]: value } });
+  };
+
+  const addEventType = () => {
+    const name = newTypeName.trim();
+    if (!name) return;
+
+    setEventTypes(prev => [...prev, {
+      firm_id: firmId,
+      name,
+      color: DEFAULT_EVENT_TYPE_COLOR,
+      default_crew: { photographers: 1 },
+      default_rates: {},
+      sort_order: Math.max(0, ...prev.map(type => type.sort_order)) + 1,
+      is_active: true
+    }]);
+    setNewTypeName('');
+  };
+
+  const handleSave = async () => {
+    const names = eventTypes.map(type => type.name.trim().toLowerCase());
+    if (names.some(name => !name)) {
+      toast({ title: "Event type name is required", variant: "destructive" });
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      toast({ title: "Event type names must be unique", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const type of eventTypes) {
+        const payload = {
+          firm_id: firmId,
+          name: type.name.trim(),
+          color: type.color,
+          default_crew: type.default_crew as Json,
+          default_rates: type.default_rates as Json,
+          sort_order: type.sort_order,
+          is_active: type.is_active
+        };
+
+        // Renames cascade to existing events and quotations through a database trigger
+        const { error } = type.id
+          ? await supabase.from('firm_event_types').update(payload).eq('id', type.id)
+          : await supabase.from('firm_event_types').insert(payload);
+
+        if (error) throw error;
+      }
+
+      const renamed = eventTypes.filter(type => type.id && originalNames[type.id] !== type.name.trim()).length;
+
+      toast({
+        title: "Event types updated successfully",
+        description: renamed > 0
+          ? `${renamed} renamed type${renamed > 1 ? 's were' : ' was'} applied to existing events and quotations`
+          : "New events and quotations will use these defaults",
+      });
+
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error saving event types",
+        description: error instanceof Error ? error.message : 'Failed to save event types',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag01Icon className="h-5 w-5 text-primary" />
+            Event Types
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="text-center">
+              <Tag01Icon className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+              <p className="text-muted-foreground">Loading event types...</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Default crew is pre-filled when creating an event, and default rates override the firm pricing in quotations.
+              Inactive types stay on existing records but are hidden from new events.
+            </p>
+
+            {eventTypes.map((type, index) => (
+              <div key={type.id || `new-${index}`} className="space-y-4 p-4 border rounded-xl bg-muted/20">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={type.color}
+                    onChange={(e) => updateEventType(index, { color: e.target.value })}
+                    className="h-9 w-9 rounded-md border cursor-pointer bg-transparent p-0.5 shrink-0"
+                    aria-label="Event type colour"
+                  />
+                  <Input
+                    value={type.name}
+                    onChange={(e) => updateEventType(index, { name: e.target.value })}
+                    placeholder="Event type name"
+                    className="flex-1"
+                  />
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={type.is_active}
+                      onCheckedChange={(checked) => updateEventType(index, { is_active: checked })}
+                    />
+                    <span className="text-xs text-muted-foreground w-12">{type.is_active ? 'Active' : 'Inactive'}</span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {CREW_FIELDS.map(({ key, label, icon: IconComponent }) => (
+                    <div key={key} className="space-y-1">
+                      <Label className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <IconComponent className="h-3 w-3" />
+                        {label}
+                      </Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={type.default_crew[key] ?? 0}
+                        onChange={(e) => updateCrew(index, key, Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {RATE_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">{label} Rate</Label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={type.default_rates[key] ?? ''}
+                          onChange={(e) => updateRate(index, key, parseInt(e.target.value) || 0)}
+                          className="pl-8"
+                          placeholder="Firm default"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <Separator />
+
+            {/* Add New Event Type */}
+            <div className="border-2 border-dashed border-primary/20 rounded-xl p-4 space-y-3 bg-background">
+              <Label className="flex items-center gap-2 text-sm font-medium text-primary">
+                <Add01Icon className="h-4 w-4" />
+                Add New Event Type
+              </Label>
+              <div className="flex gap-3">
+                <Input
+                  placeholder="e.g. Corporate, Birthday, Product Shoot"
+                  value={newTypeName}
+                  onChange={(e) => setNewTypeName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addEventType()}
+                />
+                <Button onClick={addEventType} disabled={!newTypeName.trim()}>
+                  <Add01Icon className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex justify-end gap-3 pt-6 border-t">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="min-w-[120px]">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="min-w-[120px]">
+                <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventTypeCatalogDialog;
@@ -8,13 +8,20 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Building02Icon, Edit01Icon, Delete01Icon, PaintBoardIcon, MoneyBag02Icon } from 'hugeicons-react';
+import { Building02Icon, Edit01Icon, Delete01Icon, PaintBoardIcon, MoneyBag02Icon, Tag01Icon, CreditCardIcon, Invoice01Icon } from 'hugeicons-react';
 import FirmDetailsDialog from '@/components/FirmDetailsDialog';
 import PricingConfigurationDialog from '@/components/profile/PricingConfigurationDialog';
+import EventTypeCatalogDialog from '@/components/profile/EventTypeCatalogDialog';
+import PaymentMethodCatalogDialog from '@/components/profile/PaymentMethodCatalogDialog';
+import DocumentNumberingDialog from '@/components/profile/DocumentNumberingDialog';
 
 const FirmManagement = () => {
   const { profile, refreshProfile, currentFirmId } = useAuth();
   const { toast } = useToast();
+  // Declared before the admin check so hooks run in the same order on every render
+  const [eventTypesDialogOpen, setEventTypesDialogOpen] = useState(false);
+  const [paymentMethodsDialogOpen, setPaymentMethodsDialogOpen] = useState(false);
+  const [numberingDialogOpen, setNumberingDialogOpen] = useState(false);
   
   // Only allow Admin users to access firm management
   if (profile?.role !== 'Admin') {
@@ -202,10 +209,28 @@ const FirmManagement = () => {
             Firm Details & Branding
           </Button>
 
-          {/* Default Pricing Configuration */}
+          {/* Pricing, catalogue items and packages */}
           <Button variant="outline" className="w-full" onClick={() => setPricingDialogOpen(true)}>
             <MoneyBag02Icon className="h-4 w-4 mr-2" />
-            Default Pricing Configuration
+            Pricing & Packages
+          </Button>
+
+          {/* Event Type Catalogue */}
+          <Button variant="outline" className="w-full" onClick={() => setEventTypesDialogOpen(true)}>
+            <Tag01Icon className="h-4 w-4 mr-2" />
+            Event Types
+          </Button>
+
+          {/* Firm-defined Payment Methods */}
+          <Button variant="outline" className="w-full" onClick={() => setPaymentMethodsDialogOpen(true)}>
+            <CreditCardIcon className="h-4 w-4 mr-2" />
+            Payment Methods
+          </Button>
+
+          {/* Invoice, receipt, credit note and quotation numbering */}
+          <Button variant="outline" className="w-full" onClick={() => setNumberingDialogOpen(true)}>
+            <Invoice01Icon className="h-4 w-4 mr-2" />
+            Document Numbering
           </Button>
 
           {/* Rename Firm */}
@@ -289,6 +314,27 @@ const FirmManagement = () => {
             refreshProfile();
           }}
         />
+
+        {/* Event Type Catalogue Dialog */}
+        <EventTypeCatalogDialog
+          open={eventTypesDialogOpen}
+          onOpenChange={setEventTypesDialogOpen}
+          firmId={currentFirm.id}
+        />
+
+        {/* Payment Method Catalogue Dialog */}
+        <PaymentMethodCatalogDialog
+          open={paymentMethodsDialogOpen}
+          onOpenChange={setPaymentMethodsDialogOpen}
+          firmId={currentFirm.id}
+        />
+
+        {/* Document Numbering Dialog */}
+        <DocumentNumberingDialog
+          open={numberingDialogOpen}
+          onOpenChange={setNumberingDialogOpen}
+          firmId={currentFirm.id}
+        />
       </CardContent>
     </Card>
   );
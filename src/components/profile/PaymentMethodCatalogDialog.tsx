@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CreditCardIcon, Add01Icon, CheckmarkCircle01Icon } from 'hugeicons-react';
+import { FirmPaymentMethod } from '@/types/studio';
+import { getPaymentMethodOptions } from '@/lib/payment-method-validator';
+
+interface PaymentMethodCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  firmId: string;
+  onSuccess?: () => void;
+}
+
+// Draft rows have no id until they are saved
+type PaymentMethodDraft = Omit<FirmPaymentMethod, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+const BUILT_IN_LABELS = getPaymentMethodOptions().map(option => option.label);
+
+const PaymentMethodCatalogDialog = ({ open, onOpenChange, firmId, onSuccess }: PaymentMethodCatalogDialogProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodDraft[]>([]);
+  const [newMethodName, setNewMethodName] = useState('');
+
+  const loadPaymentMethods = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('firm_payment_methods')
+        .select('*')
+        .eq('firm_id', firmId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setPaymentMethods(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading payment methods",
+        description: error instanceof Error ? error.message : 'Failed to load payment methods',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [firmId, toast]);
+
+  useEffect(() => {
+    if (open && firmId) {
+      loadPaymentMethods();
+    }
+  }, [open, firmId, loadPaymentMethods]);
+
+  const updatePaymentMethod = (index: number, updates: Partial<PaymentMethodDraft>) => {
+    setPaymentMethods(prev => prev.map((method, i) => i === index ? { ...method, ...updates } : method));
+  };
+
+  const addPaymentMethod = () => {
+    const name = newMethodName.trim();
+    if (!name) return;
+
+    setPaymentMethods(prev => [...prev, {
+      firm_id: firmId,
+      name,
+      sort_order: Math.max(0, ...prev.map(method => method.sort_order)) + 1,
+      is_active: true
+    }]);
+    setNewMethodName('');
+  };
+
+  const handleSave = async () => {
+    const names = paymentMethods.map(method => method.name.trim().toLowerCase());
+    if (names.some(name => !name)) {
+      toast({ title: "Payment method name is required", variant: "destructive" });
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      toast({ title: "Payment method names must be unique", variant: "destructive" });
+      return;
+    }
+    if (names.some(name => BUILT_IN_LABELS.some(label => label.toLowerCase() === name))) {
+      toast({ title: "That payment method is already built in", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const method of paymentMethods) {
+        const payload = {
+          firm_id: firmId,
+          name: method.name.trim(),
+          sort_order: method.sort_order,
+          is_active: method.is_active
+        };
+
+        const { error } = method.id
+          ? await supabase.from('firm_payment_methods').update(payload).eq('id', method.id)
+          : await supabase.from('firm_payment_methods').insert(payload);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Payment methods updated successfully",
+        description: "New payments and receipts can use these methods",
+      });
+
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error saving payment methods",
+        description: error instanceof Error ? error.message : 'Failed to save payment methods',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CreditCardIcon className="h-5 w-5 text-primary" />
+            Payment Methods
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="text-center">
+              <CreditCardIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+              <p className="text-muted-foreground">Loading payment methods...</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              {BUILT_IN_LABELS.join(', ')} are always available. Add your own methods below.
+              Saved names are kept on the payments recorded with them, so deactivate a method instead of renaming it.
+            </p>
+
+            {paymentMethods.map((method, index) => (
+              <div key={method.id || `new-${index}`} className="flex items-center gap-3 p-4 border rounded-xl bg-muted/20">
+                <Input
+                  value={method.name}
+                  onChange={(e) => updatePaymentMethod(index, { name: e.target.value })}
+                  placeholder="Payment method name"
+                  className="flex-1"
+                  disabled={!!method.id}
+                />
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={method.is_active}
+                    onCheckedChange={(checked) => updatePaymentMethod(index, { is_active: checked })}
+                  />
+                  <span className="text-xs text-muted-foreground w-12">{method.is_active ? 'Active' : 'Inactive'}</span>
+                </div>
+              </div>
+            ))}
+
+            <Separator />
+
+            {/* Add New Payment Method */}
+            <div className="border-2 border-dashed border-primary/20 rounded-xl p-4 space-y-3 bg-background">
+              <Label className="flex items-center gap-2 text-sm font-medium text-primary">
+                <Add01Icon className="h-4 w-4" />
+                Add New Payment Method
+              </Label>
+              <div className="flex gap-3">
+                <Input
+                  placeholder="e.g. Demand Draft, Wallet, Barter"
+                  value={newMethodName}
+                  onChange={(e) => setNewMethodName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addPaymentMethod()}
+                />
+                <Button onClick={addPaymentMethod} disabled={!newMethodName.trim()}>
+                  <Add01Icon className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex justify-end gap-3 pt-6 border-t">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="min-w-[120px]">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="min-w-[120px]">
+                <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentMethodCatalogDialog;
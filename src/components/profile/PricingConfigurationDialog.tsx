@@ -3,23 +3,32 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { 
-  MoneyBag02Icon, 
-  Camera01Icon, 
-  Video01Icon, 
-  DroneIcon, 
+import type { Json } from '@/integrations/supabase/types';
+import {
+  MoneyBag02Icon,
+  Camera01Icon,
+  Video01Icon,
+  DroneIcon,
   Edit01Icon,
-  PlusSignIcon,
   SparklesIcon,
   CheckmarkCircle01Icon,
-  Delete02Icon,
   Add01Icon,
-  FilmRoll01Icon
+  FilmRoll01Icon,
+  PackageIcon
 } from 'hugeicons-react';
+import { CatalogueItemKind } from '@/types/studio';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import {
+  DEFAULT_DELIVERABLES,
+  normalizeCatalogueItem,
+  normalizeQuotationPackage
+} from '@/lib/quotation-catalogue-utils';
+import CatalogueItemCard, { CatalogueItemDraft } from './CatalogueItemCard';
+import QuotationPackageCard, { QuotationPackageDraft } from './QuotationPackageCard';
 
 interface PricingConfigurationDialogProps {
   open: boolean;
@@ -35,21 +44,13 @@ interface RoleRates {
   editor: number;
 }
 
-interface DynamicAddOn {
-  id: string;
-  name: string;
-  price: number;
-  unit?: string;
-}
-
-interface DynamicPostProduction {
-  id: string;
-  name: string;
-  price: number;
-}
-
+/**
+ * Firm product catalogue editor: per-day role rates, priced line items (add-ons and
+ * post-production) and the packages the quotation builder starts from.
+ */
 const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: PricingConfigurationDialogProps) => {
   const { toast } = useToast();
+  const { activeEventTypes } = useFirmEventTypes();
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
 
@@ -60,29 +61,14 @@ const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: P
     editor: 8000
   });
 
-  const [addOns, setAddOns] = useState<DynamicAddOn[]>([
-    { id: '1', name: '1 Day Drone', price: 12000 },
-    { id: '2', name: '2 Days Pre Wedding', price: 65000 },
-    { id: '3', name: '1 Day Pre Wedding', price: 50000 },
-    { id: '4', name: '1 Day Pre Photoshot', price: 22000 },
-    { id: '5', name: 'Live HD Setup', price: 60000 },
-    { id: '6', name: 'Side 10x20 LED Wall', price: 25000 },
-    { id: '7', name: 'Background LED', price: 135, unit: 'Per Fit' },
-    { id: '8', name: 'Album Page', price: 450, unit: 'Per Page' },
-    { id: '9', name: 'Full Length Film', price: 22000 }
-  ]);
-
-  const [postProductions, setPostProductions] = useState<DynamicPostProduction[]>([
-    { id: '1', name: '35K Package', price: 35000 },
-    { id: '2', name: '45K Package', price: 45000 }
-  ]);
-
-  const [newAddOnName, setNewAddOnName] = useState('');
-  const [newAddOnPrice, setNewAddOnPrice] = useState('');
-  const [newAddOnUnit, setNewAddOnUnit] = useState('');
-
-  const [newPostProdName, setNewPostProdName] = useState('');
-  const [newPostProdPrice, setNewPostProdPrice] = useState('');
+  const [items, setItems] = useState<CatalogueItemDraft[]>([]);
+  const [packages, setPackages] = useState<QuotationPackageDraft[]>([]);
+  // Ids as loaded, to tell inserts from updates and find removed rows on save
+  const [savedItemIds, setSavedItemIds] = useState<string[]>([]);
+  const [savedPackageIds, setSavedPackageIds] = useState<string[]>([]);
+
+  const [newItemNames, setNewItemNames] = useState<Record<CatalogueItemKind, string>>({ addon: '', post_production: '' });
+  const [newPackageName, setNewPackageName] = useState('');
 
   // Load current pricing configuration
   useEffect(() => {
@@ -94,43 +80,40 @@ const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: P
   const loadPricingConfiguration = async () => {
     setLoading(true);
     try {
-      const { data: firm, error } = await supabase
-        .from('firms')
-        .select('default_role_rates, default_addon_rates, default_postproduction_rates')
-        .eq('id', firmId)
-        .single();
-
-      if (error) throw error;
-
-      if (firm.default_role_rates) {
-        setRoleRates({ ...roleRates, ...(firm.default_role_rates as any) });
+      const [firmResult, itemsResult, packagesResult] = await Promise.all([
+        supabase.from('firms').select('default_role_rates').eq('id', firmId).single(),
+        supabase
+          .from('firm_catalogue_items')
+          .select('*')
+          .eq('firm_id', firmId)
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true }),
+        supabase
+          .from('quotation_packages')
+          .select('*, items:quotation_package_items(catalogue_item_id, quantity)')
+          .eq('firm_id', firmId)
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true })
+      ]);
+
+      if (firmResult.error) throw firmResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (packagesResult.error) throw packagesResult.error;
+
+      if (firmResult.data.default_role_rates) {
+        setRoleRates(prev => ({ ...prev, ...(firmResult.data.default_role_rates as Partial<RoleRates>) }));
       }
 
-      // Convert old addon format to new dynamic format
-      if (firm.default_addon_rates) {
-        const existingAddOns = Object.entries(firm.default_addon_rates as any).map(([key, value], index) => ({
-          id: (index + 1).toString(),
-          name: formatAddOnName(key),
-          price: value as number,
-          unit: (key === 'background_led_per_fit') ? 'Per Fit' : 
-                (key === 'album_page') ? 'Per Page' : undefined
-        }));
-        setAddOns(existingAddOns);
-      }
-
-      // Load post-production rates
-      if (firm.default_postproduction_rates) {
-        const existingPostProd = Object.entries(firm.default_postproduction_rates as any).map(([key, value], index) => ({
-          id: (index + 1).toString(),
-          name: formatPostProdName(key),
-          price: value as number
-        }));
-        setPostProductions(existingPostProd);
-      }
-    } catch (error: any) {
+      const loadedItems = (itemsResult.data || []).map(normalizeCatalogueItem);
+      const loadedPackages = (packagesResult.data || []).map(normalizeQuotationPackage);
+      setItems(loadedItems);
+      setPackages(loadedPackages);
+      setSavedItemIds(loadedItems.map(item => item.id));
+      setSavedPackageIds(loadedPackages.map(pkg => pkg.id));
+    } catch (error) {
       toast({
         title: "Error loading pricing configuration",
-        description: error.message,
+        description: error instanceof Error ? error.message : 'Failed to load the catalogue',
         variant: "destructive",
       });
     } finally {
@@ -138,45 +121,160 @@ const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: P
     }
   };
 
+  const updateRoleRate = (role: keyof RoleRates, value: number) => {
+    setRoleRates(prev => ({ ...prev, [role]: value }));
+  };
+
+  const updateItem = (id: string, updates: Partial<CatalogueItemDraft>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  const addItem = (kind: CatalogueItemKind) => {
+    const name = newItemNames[kind].trim();
+    if (!name) return;
+
+    setItems(prev => [...prev, {
+      id: crypto.randomUUID(),
+      firm_id: firmId,
+      kind,
+      name,
+      description: null,
+      unit: null,
+      unit_price: 0,
+      tax_class: 'gst_18',
+      hsn_sac: null,
+      crew: [],
+      sort_order: Math.max(0, ...prev.filter(item => item.kind === kind).map(item => item.sort_order)) + 1,
+      is_active: true
+    }]);
+    setNewItemNames(prev => ({ ...prev, [kind]: '' }));
+  };
+
+  // Packages drop removed items straight away so they never point at a deleted row
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    setPackages(prev => prev.map(pkg => ({
+      ...pkg,
+      post_production_item_id: pkg.post_production_item_id === id ? null : pkg.post_production_item_id,
+      items: pkg.items.filter(item => item.catalogue_item_id !== id)
+    })));
+  };
+
+  const updatePackage = (id: string, updates: Partial<QuotationPackageDraft>) => {
+    setPackages(prev => prev.map(pkg => pkg.id === id ? { ...pkg, ...updates } : pkg));
+  };
+
+  const addPackage = () => {
+    const name = newPackageName.trim();
+    if (!name) return;
+
+    setPackages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      firm_id: firmId,
+      name,
+      description: null,
+      event_type: null,
+      days: [{ name: 'Day 1', photographers: 1, cinematographers: 1, drone: 0 }],
+      same_day_editing: false,
+      post_production_item_id: null,
+      deliverables: DEFAULT_DELIVERABLES,
+      items: [],
+      sort_order: Math.max(0, ...prev.map(pkg => pkg.sort_order)) + 1,
+      is_active: true
+    }]);
+    setNewPackageName('');
+  };
+
   const handleSave = async () => {
+    const itemKeys = items.map(item => `${item.kind}:${item.name.trim().toLowerCase()}`);
+    const packageNames = packages.map(pkg => pkg.name.trim().toLowerCase());
+    if (items.some(item => !item.name.trim()) || packages.some(pkg => !pkg.name.trim())) {
+      toast({ title: "Every item and package needs a name", variant: "destructive" });
+      return;
+    }
+    if (new Set(itemKeys).size !== itemKeys.length || new Set(packageNames).size !== packageNames.length) {
+      toast({ title: "Item and package names must be unique", variant: "destructive" });
+      return;
+    }
+
     setSaving(true);
     try {
-      // Convert dynamic addons back to keyed format for database
-      const addonRatesObj = addOns.reduce((acc, addon, index) => {
-        const key = addon.name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-        acc[key] = addon.price;
-        return acc;
-      }, {} as any);
-
-      // Convert dynamic post-production to keyed format
-      const postProdRatesObj = postProductions.reduce((acc, postProd, index) => {
-        const key = postProd.name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-        acc[key] = postProd.price;
-        return acc;
-      }, {} as any);
-
-      const { error } = await supabase
+      const { error: firmError } = await supabase
         .from('firms')
-        .update({
-          default_role_rates: roleRates as any,
-          default_addon_rates: addonRatesObj,
-          default_postproduction_rates: postProdRatesObj
-        })
+        .update({ default_role_rates: roleRates as unknown as Json })
         .eq('id', firmId);
+      if (firmError) throw firmError;
 
-      if (error) throw error;
+      // Deletes go first so a re-added name does not collide with the row it replaces
+      const removedPackageIds = savedPackageIds.filter(id => !packages.some(pkg => pkg.id === id));
+      if (removedPackageIds.length > 0) {
+        const { error } = await supabase.from('quotation_packages').delete().in('id', removedPackageIds);
+        if (error) throw error;
+      }
+
+      const removedItemIds = savedItemIds.filter(id => !items.some(item => item.id === id));
+      if (removedItemIds.length > 0) {
+        const { error } = await supabase.from('firm_catalogue_items').delete().in('id', removedItemIds);
+        if (error) throw error;
+      }
+
+      if (items.length > 0) {
+        const { error } = await supabase.from('firm_catalogue_items').upsert(items.map(item => ({
+          id: item.id,
+          firm_id: firmId,
+          kind: item.kind,
+          name: item.name.trim(),
+          description: item.description?.trim() || null,
+          unit: item.unit?.trim() || null,
+          unit_price: item.unit_price,
+          tax_class: item.tax_class,
+          hsn_sac: item.hsn_sac?.trim() || null,
+          crew: item.crew as unknown as Json,
+          sort_order: item.sort_order,
+          is_active: item.is_active
+        })));
+        if (error) throw error;
+      }
+
+      for (const pkg of packages) {
+        const { error } = await supabase.from('quotation_packages').upsert({
+          id: pkg.id,
+          firm_id: firmId,
+          name: pkg.name.trim(),
+          description: pkg.description?.trim() || null,
+          event_type: pkg.event_type,
+          days: pkg.days as unknown as Json,
+          same_day_editing: pkg.same_day_editing,
+          post_production_item_id: pkg.post_production_item_id,
+          deliverables: pkg.deliverables.map(line => line.trim()).filter(Boolean) as Json,
+          sort_order: pkg.sort_order,
+          is_active: pkg.is_active
+        });
+        if (error) throw error;
+
+        // Included add-ons are replaced wholesale
+        const { error: clearError } = await supabase.from('quotation_package_items').delete().eq('package_id', pkg.id);
+        if (clearError) throw clearError;
+
+        if (pkg.items.length > 0) {
+          const { error: itemsError } = await supabase.from('quotation_package_items').insert(
+            pkg.items.map(item => ({ package_id: pkg.id, catalogue_item_id: item.catalogue_item_id, quantity: item.quantity }))
+          );
+          if (itemsError) throw itemsError;
+        }
+      }
 
       toast({
         title: "Pricing configuration updated successfully",
-        description: "Default rates have been saved and will be used in quotations",
+        description: "Rates, catalogue items and packages will be used in new quotations",
       });
 
       onSuccess?.();
       onOpenChange(false);
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error saving pricing configuration",
-        description: error.message,
+        description: error instanceof Error ? error.message : 'Failed to save the catalogue',
         variant: "destructive",
       });
     } finally {
@@ -184,58 +282,6 @@ const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: P
     }
   };
 
-  const updateRoleRate = (role: keyof RoleRates, value: number) => {
-    setRoleRates(prev => ({ ...prev, [role]: value }));
-  };
-
-  const updateAddOnPrice = (id: string, price: number) => {
-    setAddOns(prev => prev.map(addon => 
-      addon.id === id ? { ...addon, price } : addon
-    ));
-  };
-
-  const updatePostProdPrice = (id: string, price: number) => {
-    setPostProductions(prev => prev.map(postProd => 
-      postProd.id === id ? { ...postProd, price } : postProd
-    ));
-  };
-
-  const addNewAddOn = () => {
-    if (newAddOnName.trim() && newAddOnPrice.trim()) {
-      const newId = (Math.max(0, ...addOns.map(a => parseInt(a.id))) + 1).toString();
-      setAddOns(prev => [...prev, {
-        id: newId,
-        name: newAddOnName.trim(),
-        price: parseInt(newAddOnPrice),
-        unit: newAddOnUnit.trim() || undefined
-      }]);
-      setNewAddOnName('');
-      setNewAddOnPrice('');
-      setNewAddOnUnit('');
-    }
-  };
-
-  const removeAddOn = (id: string) => {
-    setAddOns(prev => prev.filter(addon => addon.id !== id));
-  };
-
-  const addNewPostProduction = () => {
-    if (newPostProdName.trim() && newPostProdPrice.trim()) {
-      const newId = (Math.max(0, ...postProductions.map(p => parseInt(p.id))) + 1).toString();
-      setPostProductions(prev => [...prev, {
-        id: newId,
-        name: newPostProdName.trim(),
-        price: parseInt(newPostProdPrice)
-      }]);
-      setNewPostProdName('');
-      setNewPostProdPrice('');
-    }
-  };
-
-  const removePostProduction = (id: string) => {
-    setPostProductions(prev => prev.filter(postProd => postProd.id !== id));
-  };
-
   const formatRoleName = (role: string) => {
     switch (role) {
       case 'photographer': return 'Photographer';
@@ -256,21 +302,43 @@ const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: P
     }
   };
 
-  const formatAddOnName = (addOn: string) => {
-    return addOn
-      .replace(/_/g, ' ')
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
-
-  const formatPostProdName = (postProd: string) => {
-    return postProd
-      .replace(/_/g, ' ')
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
+  const renderItemSection = (kind: CatalogueItemKind, title: string, Icon: typeof SparklesIcon) => (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Icon className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-semibold">{title}</h3>
+      </div>
+      <div className="space-y-3">
+        {items.filter(item => item.kind === kind).map(item => (
+          <CatalogueItemCard
+            key={item.id}
+            item={item}
+            onChange={(updates) => updateItem(item.id, updates)}
+            onRemove={() => removeItem(item.id)}
+          />
+        ))}
+      </div>
+
+      <div className="border-2 border-dashed border-primary/20 rounded-xl p-4 space-y-3 bg-background">
+        <Label className="flex items-center gap-2 text-sm font-medium text-primary">
+          <Add01Icon className="h-4 w-4" />
+          Add New {kind === 'addon' ? 'Add-On' : 'Post-Production Option'}
+        </Label>
+        <div className="flex gap-3">
+          <Input
+            placeholder={kind === 'addon' ? 'e.g. Album Page, LED Wall' : 'e.g. Premium Edit'}
+            value={newItemNames[kind]}
+            onChange={(e) => setNewItemNames(prev => ({ ...prev, [kind]: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && addItem(kind)}
+          />
+          <Button onClick={() => addItem(kind)} disabled={!newItemNames[kind].trim()}>
+            <Add01Icon className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
 
   if (loading) {
     return (
@@ -289,198 +357,109 @@ const PricingConfigurationDialog = ({ open, onOpenChange, firmId, onSuccess }: P
 
   return (
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="max-w-2xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-3xl max-h-[70vh] md:max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <MoneyBag02Icon className="h-5 w-5 text-primary" />
-            Default Pricing Configuration
+            Pricing & Packages
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-8">
-          {/* Role Rates Section */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 mb-4">
-              <Camera01Icon className="h-5 w-5 text-primary" />
-              <h3 className="text-lg font-semibold">Role Rates (Per Day)</h3>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {Object.entries(roleRates).map(([role, rate]) => {
-                const IconComponent = getRoleIcon(role);
-                return (
-                  <div key={role} className="space-y-2">
-                    <Label className="flex items-center gap-2 text-sm font-medium">
-                      <IconComponent className="h-4 w-4 text-muted-foreground" />
-                      {formatRoleName(role)}
-                    </Label>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
-                      <Input
-                        type="number"
-                        value={rate}
-                        onChange={(e) => updateRoleRate(role as keyof RoleRates, parseInt(e.target.value) || 0)}
-                        className="pl-8"
-                        placeholder="0"
-                      />
+        <Tabs defaultValue="items" className="space-y-6">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="items">Rates & Items</TabsTrigger>
+            <TabsTrigger value="packages">Packages ({packages.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="items" className="space-y-8">
+            {/* Role Rates Section */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 mb-4">
+                <Camera01Icon className="h-5 w-5 text-primary" />
+                <h3 className="text-lg font-semibold">Role Rates (Per Day)</h3>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {Object.entries(roleRates).map(([role, rate]) => {
+                  const IconComponent = getRoleIcon(role);
+                  return (
+                    <div key={role} className="space-y-2">
+                      <Label className="flex items-center gap-2 text-sm font-medium">
+                        <IconComponent className="h-4 w-4 text-muted-foreground" />
+                        {formatRoleName(role)}
+                      </Label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+                        <Input
+                          type="number"
+                          value={rate}
+                          onChange={(e) => updateRoleRate(role as keyof RoleRates, parseInt(e.target.value) || 0)}
+                          className="pl-8"
+                          placeholder="0"
+                        />
+                      </div>
                     </div>
-                  </div>
-                );
-              })}
+                  );
+                })}
+              </div>
             </div>
-          </div>
 
-          <Separator />
+            <Separator />
 
-          {/* Add-On Rates Section */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 mb-4">
-              <SparklesIcon className="h-5 w-5 text-primary" />
-              <h3 className="text-lg font-semibold">Add-On Rates</h3>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {addOns.map((addOn) => (
-                <div key={addOn.id} className="space-y-2 p-4 border rounded-xl relative bg-muted/20">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeAddOn(addOn.id)}
-                    className="absolute top-2 right-2 h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                  >
-                    <Delete02Icon className="h-3 w-3" />
-                  </Button>
-                  <Label className="flex items-center gap-2 text-sm font-medium">
-                    <PlusSignIcon className="h-4 w-4 text-muted-foreground" />
-                    {addOn.name}
-                    {addOn.unit && (
-                      <span className="text-xs text-muted-foreground">({addOn.unit})</span>
-                    )}
-                  </Label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
-                    <Input
-                      type="number"
-                      value={addOn.price}
-                      onChange={(e) => updateAddOnPrice(addOn.id, parseInt(e.target.value) || 0)}
-                      className="pl-8"
-                      placeholder="0"
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
+            {renderItemSection('addon', 'Add-Ons', SparklesIcon)}
 
-            {/* Add New Add-On */}
-            <div className="border-2 border-dashed border-primary/20 rounded-xl p-4 space-y-3 bg-background">
-              <Label className="flex items-center gap-2 text-sm font-medium text-primary">
-                <Add01Icon className="h-4 w-4" />
-                Add New Add-On
-              </Label>
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
-                <Input
-                  placeholder="Add-on name"
-                  value={newAddOnName}
-                  onChange={(e) => setNewAddOnName(e.target.value)}
-                />
-                <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
-                  <Input
-                    type="number"
-                    placeholder="Price"
-                    value={newAddOnPrice}
-                    onChange={(e) => setNewAddOnPrice(e.target.value)}
-                    className="pl-8"
-                  />
-                </div>
-                <Input
-                  placeholder="Unit (optional)"
-                  value={newAddOnUnit}
-                  onChange={(e) => setNewAddOnUnit(e.target.value)}
-                />
-                <Button onClick={addNewAddOn} disabled={!newAddOnName.trim() || !newAddOnPrice.trim()}>
-                  <Add01Icon className="h-4 w-4 mr-2" />
-                  Add
-                </Button>
-              </div>
-            </div>
-          </div>
+            <Separator />
 
-          <Separator />
+            {renderItemSection('post_production', 'Post-Production Options', FilmRoll01Icon)}
+          </TabsContent>
 
-          {/* Post-Production Rates Section */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 mb-4">
-              <FilmRoll01Icon className="h-5 w-5 text-primary" />
-              <h3 className="text-lg font-semibold">Post-Production Rates</h3>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {postProductions.map((postProd) => (
-                <div key={postProd.id} className="space-y-2 p-4 border rounded-xl relative bg-muted/20">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removePostProduction(postProd.id)}
-                    className="absolute top-2 right-2 h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                  >
-                    <Delete02Icon className="h-3 w-3" />
-                  </Button>
-                  <Label className="flex items-center gap-2 text-sm font-medium">
-                    <FilmRoll01Icon className="h-4 w-4 text-muted-foreground" />
-                    {postProd.name}
-                  </Label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
-                    <Input
-                      type="number"
-                      value={postProd.price}
-                      onChange={(e) => updatePostProdPrice(postProd.id, parseInt(e.target.value) || 0)}
-                      className="pl-8"
-                      placeholder="0"
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
+          <TabsContent value="packages" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              New quotations start from the first active package for their event type, and can switch to any other.
+              Prices follow the rates and items above.
+            </p>
+
+            {packages.map(pkg => (
+              <QuotationPackageCard
+                key={pkg.id}
+                pkg={pkg}
+                catalogueItems={items}
+                eventTypes={activeEventTypes}
+                roleRates={roleRates}
+                onChange={(updates) => updatePackage(pkg.id, updates)}
+                onRemove={() => setPackages(prev => prev.filter(candidate => candidate.id !== pkg.id))}
+              />
+            ))}
 
-            {/* Add New Post-Production */}
             <div className="border-2 border-dashed border-primary/20 rounded-xl p-4 space-y-3 bg-background">
               <Label className="flex items-center gap-2 text-sm font-medium text-primary">
-                <Add01Icon className="h-4 w-4" />
-                Add New Post-Production Package
+                <PackageIcon className="h-4 w-4" />
+                Add New Package
               </Label>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="flex gap-3">
                 <Input
-                  placeholder="Package name"
-                  value={newPostProdName}
-                  onChange={(e) => setNewPostProdName(e.target.value)}
+                  placeholder="e.g. Gold Wedding 3-Day"
+                  value={newPackageName}
+                  onChange={(e) => setNewPackageName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addPackage()}
                 />
-                <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
-                  <Input
-                    type="number"
-                    placeholder="Price"
-                    value={newPostProdPrice}
-                    onChange={(e) => setNewPostProdPrice(e.target.value)}
-                    className="pl-8"
-                  />
-                </div>
-                <Button onClick={addNewPostProduction} disabled={!newPostProdName.trim() || !newPostProdPrice.trim()}>
+                <Button onClick={addPackage} disabled={!newPackageName.trim()}>
                   <Add01Icon className="h-4 w-4 mr-2" />
                   Add
                 </Button>
               </div>
             </div>
-          </div>
-
-          {/* Action Buttons */}
-          <div className="flex justify-end gap-3 pt-6 border-t">
-            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="min-w-[120px]">
-              Cancel
-            </Button>
-            <Button onClick={handleSave} disabled={saving} className="min-w-[120px]">
-              <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
-              {saving ? "Saving..." : "Save Changes"}
-            </Button>
-          </div>
+          </TabsContent>
+        </Tabs>
+
+        {/* Action Buttons */}
+        <div className="flex justify-end gap-3 pt-6 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="min-w-[120px]">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="min-w-[120px]">
+            <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
         </div>
       </DialogContent>
     </Dialog>
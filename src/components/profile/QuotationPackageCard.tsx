@@ -0,0 +1,227 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Add01Icon, Camera01Icon, Cancel01Icon, Delete02Icon, DroneIcon, Video01Icon } from 'hugeicons-react';
+import { FirmEventType, QuotationPackage, QuotationPackageDay } from '@/types/studio';
+import { getPackageListPrice } from '@/lib/quotation-catalogue-utils';
+import type { CatalogueItemDraft } from './CatalogueItemCard';
+
+export type QuotationPackageDraft = Omit<QuotationPackage, 'created_at' | 'updated_at'>;
+
+interface QuotationPackageCardProps {
+  pkg: QuotationPackageDraft;
+  catalogueItems: CatalogueItemDraft[];
+  eventTypes: FirmEventType[];
+  roleRates: { photographer: number; cinematographer: number; drone: number; editor: number };
+  onChange: (updates: Partial<QuotationPackageDraft>) => void;
+  onRemove: () => void;
+}
+
+const ANY_EVENT_TYPE = '__any__';
+const NO_POST_PRODUCTION = '__none__';
+
+const DAY_FIELDS: { key: keyof Omit<QuotationPackageDay, 'name'>; label: string; icon: typeof Camera01Icon }[] = [
+  { key: 'photographers', label: 'Photographers', icon: Camera01Icon },
+  { key: 'cinematographers', label: 'Cinematographers', icon: Video01Icon },
+  { key: 'drone', label: 'Drone', icon: DroneIcon }
+];
+
+/**
+ * Editor for one package: crew days, post-production, deliverables and included add-ons
+ */
+const QuotationPackageCard = ({ pkg, catalogueItems, eventTypes, roleRates, onChange, onRemove }: QuotationPackageCardProps) => {
+  const addOnItems = catalogueItems.filter(item => item.kind === 'addon');
+  const postProductionItems = catalogueItems.filter(item => item.kind === 'post_production');
+
+  const updateDay = (index: number, updates: Partial<QuotationPackageDay>) => {
+    onChange({ days: pkg.days.map((day, i) => i === index ? { ...day, ...updates } : day) });
+  };
+
+  const addDay = () => {
+    const previous = pkg.days[pkg.days.length - 1];
+    onChange({
+      days: [...pkg.days, {
+        name: `Day ${pkg.days.length + 1}`,
+        photographers: previous?.photographers ?? 1,
+        cinematographers: previous?.cinematographers ?? 1,
+        drone: previous?.drone ?? 0
+      }]
+    });
+  };
+
+  const includedQuantity = (itemId: string) => pkg.items.find(item => item.catalogue_item_id === itemId)?.quantity;
+
+  const setIncluded = (itemId: string, quantity: number | null) => {
+    const others = pkg.items.filter(item => item.catalogue_item_id !== itemId);
+    onChange({ items: quantity ? [...others, { catalogue_item_id: itemId, quantity }] : others });
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-xl bg-muted/20">
+      <div className="flex items-center gap-3">
+        <Input
+          value={pkg.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="Package name"
+          className="flex-1"
+        />
+        <Badge variant="secondary" className="shrink-0">
+          ₹{getPackageListPrice(pkg, catalogueItems, roleRates).toLocaleString()}
+        </Badge>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch checked={pkg.is_active} onCheckedChange={(checked) => onChange({ is_active: checked })} />
+          <span className="text-xs text-muted-foreground w-12">{pkg.is_active ? 'Active' : 'Hidden'}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10 shrink-0"
+          aria-label={`Remove ${pkg.name}`}
+        >
+          <Delete02Icon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Event Type</Label>
+          <Select
+            value={pkg.event_type || ANY_EVENT_TYPE}
+            onValueChange={(value) => onChange({ event_type: value === ANY_EVENT_TYPE ? null : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_EVENT_TYPE}>Any event type</SelectItem>
+              {eventTypes.map(type => (
+                <SelectItem key={type.id} value={type.name}>{type.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Post-Production</Label>
+          <Select
+            value={pkg.post_production_item_id || NO_POST_PRODUCTION}
+            onValueChange={(value) => onChange({ post_production_item_id: value === NO_POST_PRODUCTION ? null : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_POST_PRODUCTION}>None</SelectItem>
+              {postProductionItems.map(item => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.name} • ₹{item.unit_price.toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Input
+        value={pkg.description || ''}
+        onChange={(e) => onChange({ description: e.target.value || null })}
+        placeholder="Short description shown in the quotation builder (optional)"
+      />
+
+      {/* Crew days */}
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Days & Crew</Label>
+        {pkg.days.map((day, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={day.name}
+              onChange={(e) => updateDay(index, { name: e.target.value })}
+              className="w-28 h-8 text-xs"
+              aria-label="Day name"
+            />
+            {DAY_FIELDS.map(({ key, label, icon: IconComponent }) => (
+              <div key={key} className="flex items-center gap-1">
+                <IconComponent className="h-3 w-3 text-muted-foreground" />
+                <Input
+                  type="number"
+                  min={0}
+                  value={day[key]}
+                  onChange={(e) => updateDay(index, { [key]: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-14 h-8 text-xs"
+                  aria-label={label}
+                />
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ days: pkg.days.filter((_, i) => i !== index) })}
+              disabled={pkg.days.length <= 1}
+              className="h-8 w-8 p-0 text-destructive"
+              aria-label="Remove day"
+            >
+              <Cancel01Icon className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addDay} className="h-8 text-xs">
+          <Add01Icon className="h-3 w-3 mr-1" />
+          Add Day
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">Same Day Editing</Label>
+        <Switch checked={pkg.same_day_editing} onCheckedChange={(checked) => onChange({ same_day_editing: checked })} />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Deliverables (one per line)</Label>
+        <Textarea
+          value={pkg.deliverables.join('\n')}
+          onChange={(e) => onChange({ deliverables: e.target.value.split('\n') })}
+          onBlur={() => onChange({ deliverables: pkg.deliverables.map(line => line.trim()).filter(Boolean) })}
+          className="min-h-[90px] text-sm"
+        />
+      </div>
+
+      {addOnItems.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Included Add-ons</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {addOnItems.map(item => {
+              const quantity = includedQuantity(item.id);
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border bg-background">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Switch
+                      checked={!!quantity}
+                      onCheckedChange={(checked) => setIncluded(item.id, checked ? 1 : null)}
+                    />
+                    <span className="text-sm truncate">{item.name}</span>
+                  </div>
+                  {quantity && item.unit && (
+                    <Input
+                      type="number"
+                      min={1}
+                      value={quantity}
+                      onChange={(e) => setIncluded(item.id, Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-16 h-8 text-xs"
+                      aria-label={`${item.name} quantity`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotationPackageCard;
@@ -1,12 +1,28 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Add01Icon, ArrowDown01Icon, ArrowUp01Icon, Delete02Icon } from 'hugeicons-react';
 import { useToast } from '@/hooks/use-toast';
-import { Quotation } from '@/types/studio';
+import { DiscountRule, DiscountRuleScope, DiscountRuleType, FirmTaxSettings, Quotation } from '@/types/studio';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  calculateQuotationTax,
+  DEFAULT_FIRM_TAX_SETTINGS,
+  fetchFirmTaxSettings,
+  getQuotationDiscountBreakdown,
+  getQuotationTaxFields
+} from '@/lib/gst-utils';
+import {
+  DISCOUNT_RULE_TYPE_LABELS,
+  DISCOUNT_SCOPE_LABELS,
+  getDiscountFields,
+  getQuotationDiscountRules,
+  ROUND_OFF_STEPS
+} from '@/lib/quotation-discount-utils';
 
 interface CleanQuotationDiscountDialogProps {
   open: boolean;
@@ -21,56 +37,98 @@ export interface DiscountData {
   reason?: string;
 }
 
-const CleanQuotationDiscountDialog = ({ 
-  open, 
-  onOpenChange, 
-  quotation, 
-  onDiscountApplied 
+const createRule = (type: DiscountRuleType = 'percentage'): DiscountRule => ({
+  id: crypto.randomUUID(),
+  type,
+  scope: 'all',
+  value: type === 'round_off' ? 100 : 0,
+  ...(type === 'round_off' ? { roundMode: 'down' as const } : {})
+});
+
+const getScopeValue = (rule: DiscountRule) => rule.scope === 'line' ? `line:${rule.lineKey}` : rule.scope;
+
+const formatRs = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const CleanQuotationDiscountDialog = ({
+  open,
+  onOpenChange,
+  quotation,
+  onDiscountApplied
 }: CleanQuotationDiscountDialogProps) => {
-  const [discountType, setDiscountType] = useState<'percentage' | 'fixed'>('percentage');
-  const [discountValue, setDiscountValue] = useState('');
-  const [reason, setReason] = useState('');
+  const [rules, setRules] = useState<DiscountRule[]>([]);
   const [loading, setLoading] = useState(false);
+  const [taxSettings, setTaxSettings] = useState<FirmTaxSettings | null>(null);
   const { toast } = useToast();
 
-  const originalAmount = quotation.amount || 0;
-  const hasExistingDiscount = quotation.discount_type && quotation.discount_value !== null && quotation.discount_value > 0;
+  const existingRules = useMemo(() => getQuotationDiscountRules(quotation), [quotation]);
+  const hasExistingDiscount = existingRules.length > 0;
 
   useEffect(() => {
-    if (hasExistingDiscount) {
-      setDiscountType(quotation.discount_type as 'percentage' | 'fixed');
-      setDiscountValue(quotation.discount_value.toString());
-    } else {
-      setDiscountType('percentage');
-      setDiscountValue('');
-    }
-    setReason('');
-  }, [quotation, hasExistingDiscount]);
-
-  const calculateDiscountedAmount = () => {
-    const discountNum = parseFloat(discountValue);
-    if (!discountNum || discountNum <= 0) return originalAmount;
-    
-    if (discountType === 'percentage') {
-      return originalAmount - (originalAmount * discountNum / 100);
+    setRules(existingRules.length > 0 ? existingRules : [createRule()]);
+  }, [existingRules]);
+
+  // Discounts apply before tax, so GST quotations are re-taxed on every change
+  useEffect(() => {
+    if (!open || !quotation.tax_pricing || !quotation.firm_id) return;
+    fetchFirmTaxSettings(quotation.firm_id)
+      .then(setTaxSettings)
+      .catch(error => console.error('Error loading tax settings:', error));
+  }, [open, quotation.tax_pricing, quotation.firm_id]);
+
+  const defaultSac = (taxSettings || DEFAULT_FIRM_TAX_SETTINGS).default_sac_code;
+  const undiscounted = { ...quotation, discount_rules: [], discount_type: null, discount_value: null };
+  const lines = getQuotationDiscountBreakdown(undiscounted, defaultSac).lines;
+
+  const validRules = rules.filter(rule => rule.value > 0 && (rule.scope !== 'line' || lines.some(line => line.key === rule.lineKey)));
+  const preview = getQuotationDiscountBreakdown({ ...undiscounted, discount_rules: validRules as unknown as Json }, defaultSac);
+  const previewTax = quotation.tax_pricing && taxSettings
+    ? calculateQuotationTax({ ...quotation, ...getDiscountFields(validRules, preview.totalDiscount) }, taxSettings)
+    : null;
+
+  const getTaxFields = async (discount: Pick<Quotation, 'discount_rules' | 'discount_type' | 'discount_value' | 'discount_amount'>) => {
+    if (!quotation.tax_pricing || !quotation.firm_id) return {};
+    const settings = taxSettings || await fetchFirmTaxSettings(quotation.firm_id);
+    return getQuotationTaxFields({ ...quotation, ...discount }, settings);
+  };
+
+  const updateRule = (id: string, updates: Partial<DiscountRule>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+  };
+
+  const changeRuleType = (id: string, type: DiscountRuleType) => {
+    setRules(prev => prev.map(rule => rule.id === id
+      ? { ...createRule(type), id, label: rule.label, ...(type === 'round_off' ? {} : { scope: rule.scope, lineKey: rule.lineKey }) }
+      : rule));
+  };
+
+  const changeRuleScope = (id: string, value: string) => {
+    if (value.startsWith('line:')) {
+      updateRule(id, { scope: 'line', lineKey: value.slice(5) });
     } else {
-      return originalAmount - discountNum;
+      updateRule(id, { scope: value as DiscountRuleScope, lineKey: undefined });
     }
   };
 
+  const moveRule = (index: number, offset: number) => {
+    setRules(prev => {
+      const next = [...prev];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+  };
+
   const handleApplyDiscount = async () => {
-    const discountNum = parseFloat(discountValue);
-    
-    if (!discountValue || discountNum <= 0) {
+    if (validRules.length === 0 || preview.totalDiscount <= 0) {
       toast({
         title: "Invalid discount",
-        description: "Please enter a valid discount value",
+        description: "Please add at least one discount rule with a value",
         variant: "destructive",
       });
       return;
     }
 
-    if (discountType === 'percentage' && discountNum >= 100) {
+    if (rules.some(rule => rule.type === 'percentage' && rule.value >= 100)) {
       toast({
         title: "Invalid percentage",
         description: "Discount percentage cannot be 100% or more",
@@ -79,38 +137,35 @@ const CleanQuotationDiscountDialog = ({
       return;
     }
 
-    if (discountType === 'fixed' && discountNum >= originalAmount) {
+    if (preview.net <= 0) {
       toast({
         title: "Invalid discount",
-        description: "Fixed discount cannot be equal to or greater than total amount",
+        description: "Discounts cannot be equal to or greater than total amount",
         variant: "destructive",
       });
       return;
     }
 
     setLoading(true);
-    
+
     try {
-      const calculatedDiscountAmount = discountType === 'percentage' 
-        ? originalAmount * discountNum / 100 
-        : discountNum;
+      const discountFields = getDiscountFields(validRules, preview.totalDiscount);
 
       const { error } = await supabase
         .from('quotations')
         .update({
-          discount_type: discountType,
-          discount_value: discountNum,
-          discount_amount: calculatedDiscountAmount
+          ...discountFields,
+          ...await getTaxFields(discountFields)
         })
         .eq('id', quotation.id);
 
       if (error) throw error;
 
       onDiscountApplied();
-      
+
       toast({
         title: "Discount applied!",
-        description: `${discountType === 'percentage' ? discountNum + '%' : '₹' + discountNum.toLocaleString('en-IN')} discount applied successfully`,
+        description: `${formatRs(preview.totalDiscount)} discount applied successfully`,
       });
 
       onOpenChange(false);
@@ -127,21 +182,22 @@ const CleanQuotationDiscountDialog = ({
 
   const handleRemoveDiscount = async () => {
     setLoading(true);
-    
+
     try {
+      const discountFields = getDiscountFields([], 0);
+
       const { error } = await supabase
         .from('quotations')
         .update({
-          discount_type: null,
-          discount_value: null,
-          discount_amount: null
+          ...discountFields,
+          ...await getTaxFields(discountFields)
         })
         .eq('id', quotation.id);
 
       if (error) throw error;
 
       onDiscountApplied();
-      
+
       toast({
         title: "Discount removed!",
         description: "Discount has been removed successfully",
@@ -159,109 +215,171 @@ const CleanQuotationDiscountDialog = ({
     }
   };
 
-  const isValidDiscount = discountValue && parseFloat(discountValue) > 0;
-  const previewAmount = isValidDiscount ? calculateDiscountedAmount() : null;
-  const savingsAmount = isValidDiscount ? originalAmount - calculateDiscountedAmount() : null;
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px] max-h-[calc(100vh-6rem)]">
+      <DialogContent className="sm:max-w-[640px] max-h-[calc(100vh-6rem)] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{hasExistingDiscount ? 'Manage Discount' : 'Apply Discount'}</DialogTitle>
           <DialogDescription>
-            {hasExistingDiscount ? 'Update or remove the existing discount' : 'Apply a discount to this quotation'}
+            Discounts apply in the order listed, each on what is left after the ones above it
           </DialogDescription>
         </DialogHeader>
-        
+
         <div className="space-y-4">
-          {hasExistingDiscount && (
-            <div className="bg-muted p-3 rounded-lg">
-              <div className="text-sm font-medium text-muted-foreground mb-2">Current Discount:</div>
-              <div className="space-y-1">
-                <div className="text-sm">
-                  {quotation.discount_type === 'percentage' 
-                    ? `${quotation.discount_value}%` 
-                    : `₹${quotation.discount_value.toLocaleString('en-IN')}`} discount applied
+          {rules.map((rule, index) => (
+            <div key={rule.id} className="border rounded-lg p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Step {index + 1}</span>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                    <ArrowUp01Icon className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                    <ArrowDown01Icon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive"
+                    onClick={() => setRules(prev => prev.filter(item => item.id !== rule.id))}
+                  >
+                    <Delete02Icon className="h-4 w-4" />
+                  </Button>
                 </div>
-                <div className="flex flex-col gap-1 text-sm">
-                  <div className="line-through text-muted-foreground">
-                    Original: ₹{originalAmount.toLocaleString('en-IN')}
-                  </div>
-                  <div className="text-green-600 font-medium">
-                    Current: ₹{(originalAmount - (quotation.discount_amount || 0)).toLocaleString('en-IN')}
-                  </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Type</Label>
+                  <Select value={rule.type} onValueChange={(value: DiscountRuleType) => changeRuleType(rule.id, value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DISCOUNT_RULE_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+
+                {rule.type === 'round_off' ? (
+                  <>
+                    <div>
+                      <Label>Round to</Label>
+                      <Select value={String(rule.value)} onValueChange={(value) => updateRule(rule.id, { value: Number(value) })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROUND_OFF_STEPS.map(step => (
+                            <SelectItem key={step} value={String(step)}>{formatRs(step)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Direction</Label>
+                      <Select
+                        value={rule.roundMode || 'down'}
+                        onValueChange={(value: 'down' | 'nearest') => updateRule(rule.id, { roundMode: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="down">Round down</SelectItem>
+                          <SelectItem value="nearest">Nearest</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <Label>Applies to</Label>
+                      <Select value={getScopeValue(rule)} onValueChange={(value) => changeRuleScope(rule.id, value)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(DISCOUNT_SCOPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                          {lines.map(line => (
+                            <SelectItem key={line.key} value={`line:${line.key}`}>{line.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>{rule.type === 'percentage' ? 'Percentage' : 'Amount'}</Label>
+                      <Input
+                        type="number"
+                        placeholder={rule.type === 'percentage' ? '10' : '1000'}
+                        value={rule.value || ''}
+                        onChange={(e) => updateRule(rule.id, { value: parseFloat(e.target.value) || 0 })}
+                        min="1"
+                        max={rule.type === 'percentage' ? '99' : undefined}
+                      />
+                    </div>
+                  </>
+                )}
               </div>
-            </div>
-          )}
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="discount-type">Discount Type</Label>
-              <Select value={discountType} onValueChange={(value: 'percentage' | 'fixed') => setDiscountType(value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="percentage">Percentage (%)</SelectItem>
-                  <SelectItem value="fixed">Fixed Amount (₹)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div>
-              <Label htmlFor="discount-value">
-                {discountType === 'percentage' ? 'Percentage' : 'Amount'}
-              </Label>
-              <Input
-                id="discount-value"
-                type="number"
-                placeholder={discountType === 'percentage' ? '10' : '1000'}
-                value={discountValue}
-                onChange={(e) => setDiscountValue(e.target.value)}
-                min="1"
-                max={discountType === 'percentage' ? '99' : originalAmount.toString()}
-              />
+              <div>
+                <Label>Label (Optional)</Label>
+                <Input
+                  placeholder="e.g., Early bird discount, Bulk booking"
+                  value={rule.label || ''}
+                  onChange={(e) => updateRule(rule.id, { label: e.target.value || undefined })}
+                />
+              </div>
             </div>
-          </div>
+          ))}
 
-          <div>
-            <Label htmlFor="reason">Reason (Optional)</Label>
-            <Input
-              id="reason"
-              placeholder="e.g., Early bird discount, Bulk booking"
-              value={reason}
-              onChange={(e) => setReason(e.target.value)}
-            />
-          </div>
+          <Button variant="outline" className="w-full" onClick={() => setRules(prev => [...prev, createRule()])}>
+            <Add01Icon className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
 
-          {isValidDiscount && previewAmount !== null && savingsAmount !== null && (
-            <div className="bg-muted p-3 rounded-lg">
-              <div className="text-sm text-muted-foreground">Preview:</div>
-              <div className="flex flex-col gap-1 text-sm">
-                <div className="line-through text-muted-foreground">
-                  ₹{originalAmount.toLocaleString('en-IN')}
-                </div>
-                <div className="text-green-600 font-medium">
-                  ₹{previewAmount.toLocaleString('en-IN')}
-                </div>
+          {preview.steps.length > 0 && (
+            <div className="bg-muted p-3 rounded-lg space-y-1 text-sm">
+              <div className="text-sm text-muted-foreground mb-1">Preview:</div>
+              <div className="flex justify-between">
+                <span>Gross</span>
+                <span>{formatRs(preview.gross)}</span>
               </div>
-              <div className="text-xs text-muted-foreground">
-                You save: ₹{savingsAmount.toLocaleString('en-IN')}
+              {preview.steps.map(step => (
+                <div key={step.ruleId} className="flex justify-between text-muted-foreground">
+                  <span>{step.label}</span>
+                  <span>{step.amount < 0 ? '+' : '-'}{formatRs(Math.abs(step.amount))}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium text-green-600 border-t pt-1">
+                <span>Net</span>
+                <span>{formatRs(preview.net)}</span>
               </div>
+              {previewTax && (
+                <div className="text-xs text-muted-foreground">
+                  {previewTax.pricing === 'exclusive'
+                    ? `+ GST ${formatRs(previewTax.totalTax)} = ${formatRs(previewTax.total)} payable`
+                    : `Includes GST ${formatRs(previewTax.totalTax)}`}
+                </div>
+              )}
             </div>
           )}
 
           <div className="flex gap-2 pt-4">
-            <Button 
-              variant="outline" 
+            <Button
+              variant="outline"
               onClick={() => onOpenChange(false)}
               className="flex-1"
             >
               Cancel
             </Button>
             {hasExistingDiscount && (
-              <Button 
+              <Button
                 variant="destructive"
                 onClick={handleRemoveDiscount}
                 disabled={loading}
@@ -270,9 +388,9 @@ const CleanQuotationDiscountDialog = ({
                 {loading ? 'Removing...' : 'Remove'}
               </Button>
             )}
-            <Button 
+            <Button
               onClick={handleApplyDiscount}
-              disabled={loading || !isValidDiscount}
+              disabled={loading || validRules.length === 0}
               className="flex-1"
             >
               {loading ? 'Applying...' : hasExistingDiscount ? 'Update' : 'Apply'}
@@ -284,4 +402,4 @@ const CleanQuotationDiscountDialog = ({
   );
 };
 
-export default CleanQuotationDiscountDialog;
\ No newline at end of file
+export default CleanQuotationDiscountDialog;
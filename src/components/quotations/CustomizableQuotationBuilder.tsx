@@ -7,8 +7,10 @@ import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { 
@@ -23,9 +25,28 @@ import {
   ArrowLeft01Icon,
   DroneIcon,
   Cancel01Icon,
-  Edit01Icon
+  Edit01Icon,
+  PackageIcon
 } from 'hugeicons-react';
-import { EventType } from '@/types/studio';
+import { CatalogueCrewImplication, EventType, EventTypeCrewTemplate, FirmTaxSettings, QuotationPackage, TaxClass, TaxPricing } from '@/types/studio';
+import { normalizeFirmEventType, parseRoleRates } from '@/lib/event-type-utils';
+import { useQuotationCatalogue } from '@/hooks/useQuotationCatalogue';
+import {
+  DEFAULT_DELIVERABLES,
+  LEGACY_POST_PRODUCTION_AMOUNTS,
+  getPackageListPrice,
+  getPackagesForEventType
+} from '@/lib/quotation-catalogue-utils';
+import {
+  DEFAULT_FIRM_TAX_SETTINGS,
+  GST_STATES,
+  TAX_PRICING_LABELS,
+  calculateQuotationTax,
+  getQuotationDiscountBreakdown,
+  isGstRegistered,
+  toFirmTaxSettings
+} from '@/lib/gst-utils';
+import { getDiscountFields, getQuotationDiscountRules } from '@/lib/quotation-discount-utils';
 
 interface QuotationFormData {
   title: string;
@@ -56,6 +77,9 @@ interface AddOn {
   unit?: string;
   quantity?: number;
   description?: string;
+  taxClass?: TaxClass;
+  hsnSac?: string | null;
+  crew?: CatalogueCrewImplication[];
 }
 
 interface PostProductionItem {
@@ -85,25 +109,17 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
     editor: 8000
   };
 
-  const DEFAULT_ADDON_RATES = {
-    '1_day_drone': 12000,
-    '2_days_pre_wedding': 65000,
-    '1_day_pre_wedding': 50000,
-    '1_day_pre_photoshot': 22000,
-    'live_hd_setup': 60000,
-    'side_10x20_led_wall': 25000,
-    'background_led_per_fit': 135,
-    'album_page': 450,
-    'full_length_film': 22000
-  };
-
-  const DEFAULT_POSTPRODUCTION_RATES = {
-    package_35k: 35000,
-    package_45k: 45000
-  };
-
   const [firmRates, setFirmRates] = useState(DEFAULT_RATES);
-  const [firmPostProductionRates, setFirmPostProductionRates] = useState(DEFAULT_POSTPRODUCTION_RATES);
+  // Crew per day for new days, from the event type's default crew template
+  const [defaultDayCrew, setDefaultDayCrew] = useState({ photographers: 2, cinematographers: 2, drone: 1 });
+
+  // Firm product catalogue: priced add-ons, post-production options and packages
+  const { items: catalogueItems, packages: cataloguePackages, loading: catalogueLoading } = useQuotationCatalogue();
+  const postProductionCatalogue = catalogueItems.filter(item => item.kind === 'post_production' && item.is_active);
+  const availablePackages = getPackagesForEventType(cataloguePackages, formData.event_type);
+  const [selectedPackageId, setSelectedPackageId] = useState<string | null>(
+    editingQuotation?.quotation_details?.packageId || null
+  );
   
   const [numberOfDays, setNumberOfDays] = useState(editingQuotation?.quotation_details?.days?.length || 2);
   const [days, setDays] = useState<DayConfig[]>([]);
@@ -115,128 +131,239 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
 
   // Customizable post-production items instead of fixed packages
   const [postProductionItems, setPostProductionItems] = useState<PostProductionItem[]>(
-    editingQuotation?.quotation_details?.postProductionItems?.map((item: string, index: number) => ({
+    (editingQuotation?.quotation_details?.postProductionItems || DEFAULT_DELIVERABLES).map((item: string, index: number) => ({
       id: (index + 1).toString(),
       name: item,
       enabled: true,
       customizable: false
-    })) || [
-      { id: '1', name: '1 HD Highlights', enabled: true, customizable: false },
-      { id: '2', name: '40/45 Min Short Film', enabled: true, customizable: false },
-      { id: '3', name: '4 Reels', enabled: true, customizable: false },
-      { id: '4', name: '350+ Edited Photos', enabled: true, customizable: false },
-      { id: '5', name: '10 Story & Post', enabled: true, customizable: false },
-      { id: '6', name: 'All Data in 1 TB Hard Disk', enabled: true, customizable: false }
-    ]
+    }))
   );
 
   const [newPostProductionItem, setNewPostProductionItem] = useState('');
 
   const [addOns, setAddOns] = useState<AddOn[]>([]);
 
+  // Post-production option: a catalogue item id, or 'custom'
+  const [postProductionItemId, setPostProductionItemId] = useState<string>('custom');
+  const [customAmount, setCustomAmount] = useState(
+    editingQuotation?.quotation_details?.customPostProductionAmount || 0
+  );
+
+  // GST: 'none' when the quotation carries no tax
+  const [taxSettings, setTaxSettings] = useState<FirmTaxSettings>(DEFAULT_FIRM_TAX_SETTINGS);
+  const [taxPricing, setTaxPricing] = useState<TaxPricing | 'none'>(
+    (editingQuotation?.tax_pricing as TaxPricing | null) || 'none'
+  );
+  const [placeOfSupply, setPlaceOfSupply] = useState<string>(editingQuotation?.place_of_supply || '');
+
+  /**
+   * Fill days, post-production and add-ons from a package. Crew days are priced at the
+   * current rates; add-ons not in the package are switched off.
+   */
+  const applyPackage = (
+    pkg: QuotationPackage,
+    rates: typeof DEFAULT_RATES = firmRates,
+    baseAddOns: AddOn[] = addOns,
+    dayCrew = defaultDayCrew
+  ) => {
+    const packageDays = pkg.days.length > 0 ? pkg.days : [{ name: 'Day 1', ...dayCrew }];
+    setDays(packageDays.map((day, index) => ({
+      id: (index + 1).toString(),
+      name: day.name || `Day ${index + 1}`,
+      photographers: day.photographers || 0,
+      cinematographers: day.cinematographers || 0,
+      drone: day.drone || 0,
+      photographerRate: rates.photographer,
+      cinematographerRate: rates.cinematographer,
+      droneRate: rates.drone
+    })));
+    setNumberOfDays(packageDays.length);
+    setSameDayEditing(pkg.same_day_editing);
+
+    const packagePostProduction = postProductionCatalogue.find(item => item.id === pkg.post_production_item_id);
+    if (packagePostProduction) {
+      setPostProductionItemId(packagePostProduction.id);
+    }
+
+    if (pkg.deliverables.length > 0) {
+      setPostProductionItems(pkg.deliverables.map((name, index) => ({
+        id: (index + 1).toString(),
+        name,
+        enabled: true,
+        customizable: false
+      })));
+    }
+
+    setAddOns(baseAddOns.map(addOn => {
+      const included = pkg.items.find(item => item.catalogue_item_id === addOn.id);
+      return { ...addOn, enabled: !!included, quantity: included ? included.quantity : 1 };
+    }));
+    setSelectedPackageId(pkg.id);
+  };
+
   // Load firm pricing configuration and initialize data
   useEffect(() => {
     const loadFirmRates = async () => {
-      if (!currentFirmId) return;
+      if (!currentFirmId || catalogueLoading) return;
 
       try {
         const { data: firm, error } = await supabase
           .from('firms')
-          .select('default_role_rates, default_addon_rates, default_postproduction_rates')
+          .select('default_role_rates, gstin, gst_state_code, tax_pricing_default, default_sac_code')
           .eq('id', currentFirmId)
           .single();
 
         if (error) throw error;
+        setTaxSettings(toFirmTaxSettings(firm));
+
+        // Event type defaults take precedence over firm-wide rates
+        const { data: eventTypeRow } = await supabase
+          .from('firm_event_types')
+          .select('*')
+          .eq('firm_id', currentFirmId)
+          .eq('name', formData.event_type)
+          .maybeSingle();
+        const eventTypeDefaults = eventTypeRow ? normalizeFirmEventType(eventTypeRow) : null;
+        const typeRates = eventTypeDefaults?.default_rates || {};
+        const typeCrew: EventTypeCrewTemplate = eventTypeDefaults?.default_crew || {};
 
         // Update firm rates with proper typing
+        const firmRates = parseRoleRates(firm.default_role_rates);
         const roleRates = {
-          photographer: (firm.default_role_rates as any)?.photographer || DEFAULT_RATES.photographer,
-          cinematographer: (firm.default_role_rates as any)?.cinematographer || DEFAULT_RATES.cinematographer,
-          drone: (firm.default_role_rates as any)?.drone || DEFAULT_RATES.drone,
-          editor: (firm.default_role_rates as any)?.editor || DEFAULT_RATES.editor
+          photographer: typeRates.photographer || firmRates.photographer || DEFAULT_RATES.photographer,
+          cinematographer: typeRates.cinematographer || firmRates.cinematographer || DEFAULT_RATES.cinematographer,
+          drone: typeRates.drone || firmRates.drone || DEFAULT_RATES.drone,
+          editor: typeRates.editor || firmRates.editor || DEFAULT_RATES.editor
         };
+
+        const dayCrew = eventTypeDefaults && Object.keys(typeCrew).length > 0
+          ? { photographers: typeCrew.photographers || 0, cinematographers: typeCrew.cinematographers || 0, drone: typeCrew.drone || 0 }
+          : { photographers: 2, cinematographers: 2, drone: 1 };
         
-        // Convert database addon rates to dynamic format
-        const dynamicAddOns = firm.default_addon_rates ? 
-          Object.entries(firm.default_addon_rates as any).map(([key, value], index) => ({
-            id: (index + 1).toString(),
-            name: key.replace(/_/g, ' ').split(' ').map(word => 
-              word.charAt(0).toUpperCase() + word.slice(1)
-            ).join(' '),
-            price: value as number,
+        // Add-ons come from the firm catalogue
+        const catalogueAddOns: AddOn[] = catalogueItems
+          .filter(item => item.kind === 'addon' && item.is_active)
+          .map(item => ({
+            id: item.id,
+            name: item.name,
+            price: item.unit_price,
             enabled: false,
-            unit: (key === 'background_led_per_fit') ? 'Per Fit' : 
-                  (key === 'album_page') ? 'Per Page' : undefined,
-            quantity: 1
-          })) : [
-            { id: '1', name: '1 Day Drone', price: DEFAULT_ADDON_RATES['1_day_drone'], enabled: false },
-            { id: '2', name: '2 Days Pre Wedding', price: DEFAULT_ADDON_RATES['2_days_pre_wedding'], enabled: false },
-            { id: '3', name: '1 Day Pre Wedding', price: DEFAULT_ADDON_RATES['1_day_pre_wedding'], enabled: false },
-            { id: '4', name: '1 Day Pre Photoshot', price: DEFAULT_ADDON_RATES['1_day_pre_photoshot'], enabled: false },
-            { id: '5', name: 'Live HD Setup', price: DEFAULT_ADDON_RATES['live_hd_setup'], enabled: false },
-            { id: '6', name: 'Side 10x20 LED Wall', price: DEFAULT_ADDON_RATES['side_10x20_led_wall'], enabled: false },
-            { id: '7', name: 'Background LED', price: DEFAULT_ADDON_RATES['background_led_per_fit'], enabled: false, unit: 'Per Fit', quantity: 1 },
-            { id: '8', name: 'Album Page', price: DEFAULT_ADDON_RATES['album_page'], enabled: false, unit: 'Per Page', quantity: 1 },
-            { id: '9', name: 'Full Length Film 3/4 Hour', price: DEFAULT_ADDON_RATES['full_length_film'], enabled: false }
-          ];
-
-        // Convert database post-production rates to dynamic format
-        const dynamicPostProductionRates = firm.default_postproduction_rates ? 
-          firm.default_postproduction_rates as any : DEFAULT_POSTPRODUCTION_RATES;
+            unit: item.unit || undefined,
+            quantity: 1,
+            description: item.description || undefined,
+            taxClass: item.tax_class,
+            hsnSac: item.hsn_sac,
+            crew: item.crew
+          }));
+
+        // Highest priced option, as the old 45K default was
+        const defaultPostProduction = [...postProductionCatalogue].sort((a, b) => b.unit_price - a.unit_price)[0];
         
         setFirmRates(roleRates);
-        setFirmPostProductionRates(dynamicPostProductionRates);
-
-        // Initialize days with dynamic rates
-        const initialDays = editingQuotation?.quotation_details?.days || [
-          {
-            id: '1',
-            name: 'Day 1',
-            photographers: 2,
-            cinematographers: 2,
-            drone: 1,
-            photographerRate: roleRates.photographer,
-            cinematographerRate: roleRates.cinematographer,
-            droneRate: roleRates.drone
-          },
-          {
-            id: '2',
-            name: 'Day 2',
-            photographers: 2,
-            cinematographers: 2,
-            drone: 1,
+        setDefaultDayCrew(dayCrew);
+
+        if (editingQuotation) {
+          const details = editingQuotation.quotation_details || {};
+
+          setDays(details.days || [1, 2].map(dayNumber => ({
+            id: dayNumber.toString(),
+            name: `Day ${dayNumber}`,
+            ...dayCrew,
             photographerRate: roleRates.photographer,
             cinematographerRate: roleRates.cinematographer,
             droneRate: roleRates.drone
-          }
-        ];
-        setDays(initialDays);
-
-        // Initialize add-ons with existing data if editing
-        if (editingQuotation?.quotation_details?.addOns) {
-          const existingAddOns = editingQuotation.quotation_details.addOns;
-          const mergedAddOns = dynamicAddOns.map(defaultAddon => {
-            const existingAddon = existingAddOns.find((addon: any) => addon.id === defaultAddon.id);
-            if (existingAddon) {
-              return { ...defaultAddon, ...existingAddon };
-            }
-            return defaultAddon;
+          })));
+
+          // Keep quoted prices; add-ons since removed from the catalogue stay on the quotation
+          const savedAddOns: AddOn[] = details.addOns || [];
+          const mergedAddOns = catalogueAddOns.map(catalogueAddOn => {
+            const existingAddon = savedAddOns.find(addon => addon.id === catalogueAddOn.id || addon.name === catalogueAddOn.name);
+            return existingAddon ? { ...catalogueAddOn, ...existingAddon, id: catalogueAddOn.id, enabled: true } : catalogueAddOn;
           });
-          setAddOns(mergedAddOns);
-        } else {
-          setAddOns(dynamicAddOns);
+          const retiredAddOns = savedAddOns
+            .filter(addon => !mergedAddOns.some(merged => merged.enabled && merged.name === addon.name))
+            .map(addon => ({ ...addon, enabled: true }));
+          setAddOns([...mergedAddOns, ...retiredAddOns]);
+
+          // Older quotations saved '35k' / '45k' instead of a catalogue item
+          const savedPackage: string | undefined = details.selectedPostProductionPackage;
+          const legacyAmount = savedPackage ? LEGACY_POST_PRODUCTION_AMOUNTS[savedPackage] : undefined;
+          const savedPostProduction = postProductionCatalogue.find(item =>
+            item.id === details.postProductionItemId
+            || item.name === savedPackage
+            || (legacyAmount !== undefined && item.unit_price === legacyAmount));
+
+          if (savedPackage !== 'custom' && savedPostProduction) {
+            setPostProductionItemId(savedPostProduction.id);
+          } else {
+            setPostProductionItemId('custom');
+            if (savedPackage !== 'custom' && legacyAmount !== undefined) setCustomAmount(legacyAmount);
+          }
+          return;
         }
 
+        setPostProductionItemId(defaultPostProduction?.id || 'custom');
+        if (typeCrew.sameDayEditors) {
+          setSameDayEditing(true);
+        }
+
+        // New quotations start from the best matching package, if the firm has one
+        const suggestedPackage = getPackagesForEventType(cataloguePackages, formData.event_type)[0];
+        if (suggestedPackage) {
+          applyPackage(suggestedPackage, roleRates, catalogueAddOns, dayCrew);
+          return;
+        }
+
+        setDays([1, 2].map(dayNumber => ({
+          id: dayNumber.toString(),
+          name: `Day ${dayNumber}`,
+          ...dayCrew,
+          photographerRate: roleRates.photographer,
+          cinematographerRate: roleRates.cinematographer,
+          droneRate: roleRates.drone
+        })));
+        setAddOns(catalogueAddOns);
+
       } catch (error: any) {
         console.error('Error loading firm rates:', error);
         // Fallback to default rates if loading fails
         setFirmRates(DEFAULT_RATES);
-        setFirmPostProductionRates(DEFAULT_POSTPRODUCTION_RATES);
       }
     };
 
     loadFirmRates();
-  }, [currentFirmId, editingQuotation]);
+  }, [currentFirmId, editingQuotation, formData.event_type, catalogueItems, cataloguePackages, catalogueLoading]);
+
+  // New quotations from a GST registered firm default to its pricing and the client's state
+  useEffect(() => {
+    if (editingQuotation || !isGstRegistered(taxSettings)) return;
+    setTaxPricing(taxSettings.tax_pricing_default);
+
+    const loadClientState = async () => {
+      let clientState: string | null = null;
+      if (formData.client_id) {
+        const { data } = await supabase
+          .from('clients')
+          .select('state_code')
+          .eq('id', formData.client_id)
+          .maybeSingle();
+        clientState = data?.state_code || null;
+      }
+      setPlaceOfSupply(clientState || taxSettings.gst_state_code || '');
+    };
+
+    loadClientState();
+  }, [editingQuotation, taxSettings, formData.client_id]);
+
+  const handlePackageChange = (packageId: string) => {
+    const pkg = availablePackages.find(candidate => candidate.id === packageId);
+    if (!pkg) return;
+    applyPackage(pkg);
+    toast({
+      title: "Package applied",
+      description: `${pkg.name} filled in the days, post-production and add-ons. Adjust anything you need.`,
+    });
+  };
 
   // Handle adding custom post-production items
   const addCustomPostProductionItem = () => {
@@ -274,9 +401,7 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
         newDays.push({
           id: (i + 1).toString(),
           name: `Day ${i + 1}`,
-          photographers: 2,
-          cinematographers: 2,
-          drone: 1,
+          ...defaultDayCrew,
           photographerRate: firmRates.photographer,
           cinematographerRate: firmRates.cinematographer,
           droneRate: firmRates.drone
@@ -314,24 +439,11 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
     ));
   };
 
-  // Post-production cost - selectable packages
-  const [selectedPostProductionPackage, setSelectedPostProductionPackage] = useState(
-    editingQuotation?.quotation_details?.selectedPostProductionPackage || '45k'
-  );
-  
-  const postProductionOptions = {
-    '35k': firmPostProductionRates.package_35k,
-    '45k': firmPostProductionRates.package_45k,
-    'custom': 0
-  };
-
-  const [customAmount, setCustomAmount] = useState(
-    editingQuotation?.quotation_details?.customPostProductionAmount || 0
-  );
-  
-  const postProductionCost = selectedPostProductionPackage === 'custom' 
-    ? customAmount 
-    : postProductionOptions[selectedPostProductionPackage as keyof typeof postProductionOptions];
+  // Post-production cost - catalogue option or a custom amount
+  const selectedPostProduction = postProductionCatalogue.find(item => item.id === postProductionItemId);
+  const postProductionCost = postProductionItemId === 'custom'
+    ? customAmount
+    : selectedPostProduction?.unit_price || 0;
 
   const calculateTotals = () => {
     // Calculate crew costs
@@ -362,41 +474,75 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
     };
   };
 
+  const buildQuotationDetails = (totals: ReturnType<typeof calculateTotals>) => ({
+    days: days.map(day => ({
+      id: day.id,
+      name: day.name,
+      photographers: day.photographers,
+      cinematographers: day.cinematographers,
+      drone: day.drone,
+      photographerRate: day.photographerRate,
+      cinematographerRate: day.cinematographerRate,
+      droneRate: day.droneRate
+    })),
+    postProductionItems: postProductionItems.filter(item => item.enabled).map(item => item.name),
+    selectedPostProductionPackage: selectedPostProduction?.name || 'custom',
+    postProductionItemId: selectedPostProduction?.id || null,
+    customPostProductionAmount: selectedPostProduction ? null : customAmount,
+    postProductionAmount: postProductionCost,
+    postProductionTaxClass: selectedPostProduction?.tax_class || 'gst_18',
+    postProductionHsnSac: selectedPostProduction?.hsn_sac || null,
+    packageId: selectedPackageId,
+    packageName: cataloguePackages.find(pkg => pkg.id === selectedPackageId)?.name || null,
+    sameDayEditing: sameDayEditing,
+    addOns: addOns.filter(addOn => addOn.enabled).map(addOn => ({
+      id: addOn.id,
+      name: addOn.name,
+      price: addOn.price,
+      enabled: addOn.enabled,
+      unit: addOn.unit || null,
+      quantity: addOn.quantity || 1,
+      description: addOn.description || null,
+      taxClass: addOn.taxClass || 'gst_18',
+      hsnSac: addOn.hsnSac || null,
+      crew: addOn.crew || []
+    })),
+    totals: {
+      crewTotal: totals.crewTotal,
+      postProductionCost: totals.postProductionCost,
+      addOnsTotal: totals.addOnsTotal,
+      grandTotal: totals.grandTotal
+    }
+  });
+
+  // Discount rules of the quotation being edited are re-applied to the new lines
+  const discountRules = editingQuotation ? getQuotationDiscountRules(editingQuotation) : [];
+
+  const getDiscountedPricing = (totals: ReturnType<typeof calculateTotals>) => ({
+    amount: totals.grandTotal,
+    quotation_details: buildQuotationDetails(totals),
+    discount_type: editingQuotation?.discount_type || null,
+    discount_value: editingQuotation?.discount_value || null,
+    discount_amount: editingQuotation?.discount_amount || null,
+    discount_rules: discountRules as unknown as Json
+  });
+
+  // GST on the quotation after its discounts
+  const calculateTax = (totals: ReturnType<typeof calculateTotals>) => calculateQuotationTax({
+    ...getDiscountedPricing(totals),
+    tax_pricing: taxPricing === 'none' ? null : taxPricing,
+    place_of_supply: placeOfSupply || null
+  }, taxSettings);
+
   const handleSaveQuotation = async () => {
     const totals = calculateTotals();
     
     try {
-      const quotationDetails = {
-        days: days.map(day => ({
-          id: day.id,
-          name: day.name,
-          photographers: day.photographers,
-          cinematographers: day.cinematographers,
-          drone: day.drone,
-          photographerRate: day.photographerRate,
-          cinematographerRate: day.cinematographerRate,
-          droneRate: day.droneRate
-        })),
-        postProductionItems: postProductionItems.filter(item => item.enabled).map(item => item.name),
-        selectedPostProductionPackage: selectedPostProductionPackage,
-        customPostProductionAmount: selectedPostProductionPackage === 'custom' ? customAmount : null,
-        sameDayEditing: sameDayEditing,
-        addOns: addOns.filter(addOn => addOn.enabled).map(addOn => ({
-          id: addOn.id,
-          name: addOn.name,
-          price: addOn.price,
-          enabled: addOn.enabled,
-          unit: addOn.unit || null,
-          quantity: addOn.quantity || 1,
-          description: addOn.description || null
-        })),
-        totals: {
-          crewTotal: totals.crewTotal,
-          postProductionCost: totals.postProductionCost,
-          addOnsTotal: totals.addOnsTotal,
-          grandTotal: totals.grandTotal
-        }
-      };
+      const quotationDetails = buildQuotationDetails(totals);
+      const taxBreakdown = calculateTax(totals);
+      const discountFields = discountRules.length > 0
+        ? getDiscountFields(discountRules, getQuotationDiscountBreakdown(getDiscountedPricing(totals), taxSettings.default_sac_code).totalDiscount)
+        : {};
 
       const quotationData = {
         title: formData.title,
@@ -409,7 +555,12 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
         amount: totals.grandTotal,
         firm_id: currentFirmId || null,
         created_by: profile?.id || null,
-        quotation_details: quotationDetails as any
+        quotation_details: quotationDetails as unknown as Json,
+        tax_pricing: taxBreakdown ? taxBreakdown.pricing : null,
+        place_of_supply: taxBreakdown ? placeOfSupply || null : null,
+        tax_amount: taxBreakdown?.totalTax || 0,
+        tax_breakdown: taxBreakdown as unknown as Json,
+        ...discountFields
       };
 
       if (editingQuotation) {
@@ -449,9 +600,46 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
   };
 
   const totals = calculateTotals();
+  const taxBreakdown = calculateTax(totals);
+  const gstExtra = taxBreakdown?.pricing === 'exclusive' ? taxBreakdown.totalTax : 0;
 
   return (
     <div className="space-y-6">
+      {/* Package picker */}
+      <Card className="rounded-3xl border-2 border-primary/30">
+        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex items-center space-x-2 shrink-0">
+            <PackageIcon className="h-5 w-5 text-primary" />
+            <span className="font-semibold">Start from a package</span>
+          </div>
+          {availablePackages.length > 0 ? (
+            <>
+              <Select value={selectedPackageId || undefined} onValueChange={handlePackageChange}>
+                <SelectTrigger className="rounded-full h-10 sm:max-w-sm">
+                  <SelectValue placeholder="Choose a package" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePackages.map(pkg => (
+                    <SelectItem key={pkg.id} value={pkg.id}>
+                      {pkg.name} • ₹{getPackageListPrice(pkg, catalogueItems, firmRates).toLocaleString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedPackageId && (
+                <p className="text-xs text-muted-foreground">
+                  {availablePackages.find(pkg => pkg.id === selectedPackageId)?.description || 'Tweak days, post-production and add-ons below.'}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No packages for {formData.event_type} yet. Set them up from Profile → Pricing & Packages.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* 3-Column Layout - Mobile responsive */}
       <div className={`grid ${isMobile ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-3'} gap-4`}>
         
@@ -581,30 +769,26 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3 px-3 pb-3">
-            {/* Package Selection */}
+            {/* Post-production option from the catalogue */}
             <div className="space-y-2">
-              <Label className="text-sm font-medium">Choose Package:</Label>
-              <div className="grid grid-cols-3 gap-2">
-                <Button
-                  variant={selectedPostProductionPackage === '35k' ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedPostProductionPackage('35k')}
-                  className="rounded-full text-xs h-10"
-                >
-                  ₹35K
-                </Button>
-                <Button
-                  variant={selectedPostProductionPackage === '45k' ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedPostProductionPackage('45k')}
-                  className="rounded-full text-xs h-10"
-                >
-                  ₹45K
-                </Button>
+              <Label className="text-sm font-medium">Choose Option:</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {postProductionCatalogue.map(item => (
+                  <Button
+                    key={item.id}
+                    variant={postProductionItemId === item.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setPostProductionItemId(item.id)}
+                    className="rounded-full text-xs h-10"
+                    title={item.name}
+                  >
+                    <span className="truncate">{item.name}</span>
+                  </Button>
+                ))}
                 <Button
-                  variant={selectedPostProductionPackage === 'custom' ? "default" : "outline"}
+                  variant={postProductionItemId === 'custom' ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setSelectedPostProductionPackage('custom')}
+                  onClick={() => setPostProductionItemId('custom')}
                   className="rounded-full text-xs h-10"
                 >
                   Custom
@@ -612,7 +796,7 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
               </div>
               
               {/* Custom Amount Input */}
-              {selectedPostProductionPackage === 'custom' && (
+              {postProductionItemId === 'custom' && (
                 <div className="mt-3">
                   <Label className="text-sm font-medium">Custom Amount (₹):</Label>
                   <Input
@@ -765,6 +949,57 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
               <p className="text-2xl font-bold text-primary">₹{totals.grandTotal.toLocaleString()}</p>
             </div>
           </div>
+
+          {isGstRegistered(taxSettings) && (
+            <div className="rounded-2xl border bg-background/60 p-3 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">GST</Label>
+                  <Select value={taxPricing} onValueChange={(value) => setTaxPricing(value as TaxPricing | 'none')}>
+                    <SelectTrigger className="rounded-full h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="exclusive">{TAX_PRICING_LABELS.exclusive}</SelectItem>
+                      <SelectItem value="inclusive">{TAX_PRICING_LABELS.inclusive}</SelectItem>
+                      <SelectItem value="none">No GST on this quotation</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Place of Supply</Label>
+                  <Select
+                    value={placeOfSupply || undefined}
+                    onValueChange={setPlaceOfSupply}
+                    disabled={taxPricing === 'none'}
+                  >
+                    <SelectTrigger className="rounded-full h-9">
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_STATES.map(state => (
+                        <SelectItem key={state.code} value={state.code}>{state.name} ({state.code})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {taxBreakdown && (
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    Taxable ₹{taxBreakdown.taxableValue.toLocaleString()}
+                    {taxBreakdown.interState
+                      ? ` • IGST ₹${taxBreakdown.igst.toLocaleString()}`
+                      : ` • CGST ₹${taxBreakdown.cgst.toLocaleString()} • SGST ₹${taxBreakdown.sgst.toLocaleString()}`}
+                    {taxBreakdown.discount > 0 && ` • after ₹${taxBreakdown.discount.toLocaleString()} discount`}
+                  </span>
+                  <span className="font-semibold">
+                    {taxBreakdown.pricing === 'exclusive' ? '+' : 'Incl.'} GST ₹{taxBreakdown.totalTax.toLocaleString()}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
           
           <Separator className="my-4" />
           
@@ -785,7 +1020,8 @@ const CustomizableQuotationBuilder = ({ formData, onBack, onComplete, editingQuo
             >
               <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
               <span>{editingQuotation ? 'Update' : 'Create'} - </span>
-              ₹{totals.grandTotal.toLocaleString()}
+              ₹{(totals.grandTotal + gstExtra).toLocaleString()}
+              {gstExtra > 0 && <span className="ml-1 text-xs opacity-80">incl. GST</span>}
             </Button>
           </div>
         </CardContent>
@@ -17,15 +17,22 @@ import {
   Camera02Icon,
   DashboardCircleAddIcon,
   Loading03Icon,
-  ViewIcon
+  ViewIcon,
+  Link01Icon,
+  Invoice01Icon,
+  WorkflowSquare10Icon
 } from 'hugeicons-react';
-import { Quotation } from '@/types/studio';
+import { Quotation, QuotationClientResponse } from '@/types/studio';
 import { useToast } from '@/hooks/use-toast';
 import { shareQuotationDetails } from './QuotationPDFRenderer';
 import ShareOptionsDialog from '@/components/common/ShareOptionsDialog';
 import { downloadQuotationPDF } from './QuotationPDFRenderer';
 import CentralizedCard from '@/components/common/CentralizedCard';
 import CleanQuotationDiscountDialog, { DiscountData } from './CleanQuotationDiscountDialog';
+import QuotationShareLinkDialog from './QuotationShareLinkDialog';
+import QuotationConversionWizard from './QuotationConversionWizard';
+import { CLIENT_RESPONSE_LABELS } from '@/lib/quotation-share-utils';
+import { markQuotationSent } from '@/lib/quotation-status-utils';
 import QuotationDetailsDialog from './QuotationDetailsDialog';
 
 interface QuotationCardGridProps {
@@ -45,6 +52,8 @@ interface QuotationCardGridProps {
 const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }: QuotationCardGridProps) => {
   const { toast } = useToast();
   const [discountDialogOpen, setDiscountDialogOpen] = useState(false);
+  const [linkDialogOpen, setLinkDialogOpen] = useState(false);
+  const [conversionOpen, setConversionOpen] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [selectedQuotationForShare, setSelectedQuotationForShare] = useState<any>(null);
   const [isDownloading, setIsDownloading] = useState(false);
@@ -125,6 +134,8 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
           title: "Sent to Client!",
           description: `Quotation sent to ${selectedQuotationForShare.client.name} via WhatsApp`
         });
+        await markQuotationSent(selectedQuotationForShare.id).catch(error => console.error('Error marking quotation sent:', error));
+        onUpdate();
       } else if ('error' in result) {
         toast({
           title: "WhatsApp Error", 
@@ -150,12 +161,14 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
       if (result.success) {
         let title = "Shared Successfully!";
         let description = "Quotation shared successfully";
+        let downloadedOnly = false;
         
         if ('method' in result) {
           const shareResult = result as any;
           if (shareResult.method === 'download') {
             title = "Download Complete!";
             description = "PDF downloaded successfully";
+            downloadedOnly = true;
           } else if (shareResult.method === 'text_share_with_download') {
             title = "Shared with PDF!";
             description = "Details shared and PDF downloaded for manual sharing";
@@ -166,6 +179,11 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
           title,
           description
         });
+        // A plain download has not reached the client yet
+        if (!downloadedOnly) {
+          await markQuotationSent(selectedQuotationForShare.id).catch(error => console.error('Error marking quotation sent:', error));
+          onUpdate();
+        }
       } else {
         throw new Error('Share failed');
       }
@@ -182,6 +200,7 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
   const originalAmount = quotation.amount || 0;
   const hasDiscount = quotation.discount_type && quotation.discount_value && quotation.discount_value > 0;
   const discountedAmount = hasDiscount ? originalAmount - (quotation.discount_amount || 0) : originalAmount;
+  const gstExtra = quotation.tax_pricing === 'exclusive' ? quotation.tax_amount || 0 : 0;
 
   // Memoize event type icon and styling
   const eventTypeInfo = useMemo(() => {
@@ -307,12 +326,19 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
           </span>
         </div>
       ) : `₹${originalAmount.toLocaleString('en-IN')}`
-    }
-  ], [quotation.client?.name, formattedDateRange, quotation.venue, hasDiscount, originalAmount, discountedAmount]);
+    },
+    // GST charged on top of the quoted price
+    ...(gstExtra > 0 ? [{
+      icon: <Invoice01Icon className="h-3.5 w-3.5 text-primary" />,
+      value: `+ ₹${gstExtra.toLocaleString('en-IN')} GST`
+    }] : [])
+  ], [quotation.client?.name, formattedDateRange, quotation.venue, hasDiscount, originalAmount, discountedAmount, gstExtra]);
 
   // Memoize action handlers
   const handleEdit = useCallback(() => onEdit && onEdit(quotation), [onEdit, quotation]);
   const handleOpenDiscountDialog = useCallback(() => setDiscountDialogOpen(true), []);
+  const handleOpenLinkDialog = useCallback(() => setLinkDialogOpen(true), []);
+  const handleOpenConversion = useCallback(() => setConversionOpen(true), []);
   const handleShareClick = useCallback(() => handleShare(quotation), [handleShare, quotation]);
   const handleViewClick = useCallback(() => handleView(quotation), [handleView, quotation]);
   const handleDelete = useCallback(() => onDelete && onDelete(quotation.id), [onDelete, quotation.id]);
@@ -354,8 +380,10 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
       ),
       disabled: isSharing
     },
+    { label: 'Client Link', onClick: handleOpenLinkDialog, variant: 'outline' as const, icon: <Link01Icon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> },
+    ...(!quotation.converted_to_event ? [{ label: 'Convert', onClick: handleOpenConversion, variant: 'outline' as const, icon: <WorkflowSquare10Icon className="h-3.5 w-3.5 text-foreground" strokeWidth={1.5} /> }] : []),
     ...(onDelete ? [{ label: 'Delete', onClick: handleDelete, variant: 'outline' as const, icon: <Delete02Icon className="h-3.5 w-3.5 text-destructive" strokeWidth={1.5} /> }] : [])
-  ], [handleViewClick, isViewing, handleEdit, handleOpenDiscountDialog, generatePDF, isDownloading, handleShareClick, isSharing, onDelete, handleDelete]);
+  ], [handleViewClick, isViewing, handleEdit, handleOpenDiscountDialog, generatePDF, isDownloading, handleShareClick, isSharing, handleOpenLinkDialog, quotation.converted_to_event, handleOpenConversion, onDelete, handleDelete]);
 
   return (
     <CentralizedCard
@@ -381,6 +409,17 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
             </span>
           </div>
         )}
+        {quotation.client_response && (
+          <div className="flex items-center gap-2">
+            <div className={`w-2.5 h-2.5 rounded-full ${
+              quotation.client_response === 'accepted' ? 'bg-green-500' :
+              quotation.client_response === 'rejected' ? 'bg-destructive' : 'bg-amber-500'
+            }`} />
+            <span className="text-xs font-medium text-muted-foreground uppercase">
+              {CLIENT_RESPONSE_LABELS[quotation.client_response as QuotationClientResponse]}
+            </span>
+          </div>
+        )}
       </div>
       
         <CleanQuotationDiscountDialog
@@ -390,6 +429,20 @@ const QuotationCardGrid = ({ quotation, onUpdate, onEdit, onDelete, firmData }:
         onDiscountApplied={onUpdate}
       />
 
+      <QuotationConversionWizard
+        open={conversionOpen}
+        onOpenChange={setConversionOpen}
+        quotation={quotation}
+        onConverted={onUpdate}
+      />
+
+      <QuotationShareLinkDialog
+        open={linkDialogOpen}
+        onOpenChange={setLinkDialogOpen}
+        quotation={quotation}
+        onUpdate={onUpdate}
+      />
+
       <ShareOptionsDialog
         isOpen={shareDialogOpen}
         onOpenChange={(open) => {
@@ -0,0 +1,540 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InlineDatePicker } from '@/components/ui/inline-date-picker';
+import {
+  Add01Icon,
+  ArrowLeft01Icon,
+  ArrowRight01Icon,
+  Calendar03Icon,
+  Delete02Icon,
+  MoneyBag02Icon,
+  Task01Icon,
+  UserGroupIcon,
+  WorkflowSquare10Icon
+} from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { EventTypeRoleRates, Quotation, TaskType } from '@/types/studio';
+import { AutofillPerson, fetchAutofillPeople } from '@/lib/crew-autofill-utils';
+import { addDays, toDateString } from '@/lib/crew-schedule-utils';
+import { formatSessionDate } from '@/lib/event-session-utils';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import {
+  ConversionPlan,
+  DEFAULT_POST_PRODUCTION_OFFSET_DAYS,
+  buildConversionPlan,
+  buildCrewSlots,
+  convertQuotationWithPlan,
+  fetchFirmRoleRates,
+  getConversionEndDate
+} from '@/lib/quotation-conversion-utils';
+import { getMilestoneScheduleProblem, getScheduledTotal } from '@/lib/payment-milestone-utils';
+import PaymentMilestonesEditor from '@/components/payments/PaymentMilestonesEditor';
+
+interface QuotationConversionWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quotation: Quotation;
+  onConverted?: (eventId: string) => void;
+}
+
+type WizardStep = 'event' | 'crew' | 'tasks' | 'payments' | 'review';
+
+const STEPS: Array<{ id: WizardStep; label: string }> = [
+  { id: 'event', label: 'Event' },
+  { id: 'crew', label: 'Crew' },
+  { id: 'tasks', label: 'Post-production' },
+  { id: 'payments', label: 'Payments' },
+  { id: 'review', label: 'Review' }
+];
+
+const TASK_TYPES: TaskType[] = ['Photo Editing', 'Video Editing', 'Other'];
+
+const OPEN_SLOT = 'open';
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const getPersonValue = (slot: { staff_id: string | null; freelancer_id: string | null }) =>
+  slot.staff_id ? `staff:${slot.staff_id}` : slot.freelancer_id ? `freelancer:${slot.freelancer_id}` : OPEN_SLOT;
+
+/**
+ * Guided conversion of a quotation into an event: days from the quotation, crew slots with
+ * rates, post-production tasks and a payment schedule, all created in one transaction.
+ */
+const QuotationConversionWizard = ({ open, onOpenChange, quotation, onConverted }: QuotationConversionWizardProps) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<WizardStep>('event');
+  const [plan, setPlan] = useState<ConversionPlan | null>(null);
+  const [roleRates, setRoleRates] = useState<EventTypeRoleRates>({});
+  const [people, setPeople] = useState<AutofillPerson[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !quotation.firm_id) return;
+
+    setStep('event');
+    setPlan(null);
+
+    let cancelled = false;
+    const loadPlan = async () => {
+      setLoading(true);
+      try {
+        const [rates, firmPeople] = await Promise.all([
+          fetchFirmRoleRates(quotation.firm_id),
+          fetchAutofillPeople(quotation.firm_id)
+        ]);
+        if (cancelled) return;
+        setRoleRates(rates);
+        setPeople(firmPeople);
+        setPlan(buildConversionPlan(quotation, rates));
+      } catch (error) {
+        toast({
+          title: "Error preparing conversion",
+          description: error instanceof Error ? error.message : 'Failed to load crew and rates',
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPlan();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, quotation, toast]);
+
+  const total = getQuotationFinalAmount(quotation);
+  const stepIndex = STEPS.findIndex(item => item.id === step);
+
+  const updatePlan = (updates: Partial<ConversionPlan>) => {
+    setPlan(prev => prev ? { ...prev, ...updates } : prev);
+  };
+
+  if (!plan) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="w-[95vw] max-w-[720px]">
+          <DialogHeader>
+            <DialogTitle>Convert to Event</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {loading ? 'Preparing event plan...' : 'Could not prepare the event plan.'}
+          </p>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const endDate = getConversionEndDate(plan);
+  const scheduledTotal = getScheduledTotal(plan.milestones);
+  const filledSlots = plan.crew.filter(slot => slot.staff_id || slot.freelancer_id);
+
+  const getPersonName = (slot: { staff_id: string | null; freelancer_id: string | null }) =>
+    people.find(person => person.id === (slot.staff_id || slot.freelancer_id))?.full_name || 'Unknown';
+
+  // Days can be added or removed; crew slots follow the quotation's days that still exist
+  const setDayCount = (count: number) => {
+    const days = Array.from({ length: count }, (_, index) => plan.days[index] || { name: `Day ${index + 1}`, venue: '' });
+    updatePlan({ days, crew: plan.crew.filter(slot => slot.day_number <= count) });
+  };
+
+  const resetCrew = () => updatePlan({ crew: buildCrewSlots(quotation, roleRates).filter(slot => slot.day_number <= plan.days.length) });
+
+  const assignPerson = (key: string, value: string) => {
+    const [kind, id] = value.split(':');
+    updatePlan({
+      crew: plan.crew.map(slot => slot.key === key
+        ? { ...slot, staff_id: kind === 'staff' ? id : null, freelancer_id: kind === 'freelancer' ? id : null }
+        : slot)
+    });
+  };
+
+  const addCrewSlot = (dayNumber: number, role: string) => {
+    const rateKey = role === 'Photographer' ? 'photographer'
+      : role === 'Cinematographer' ? 'cinematographer'
+      : role === 'Drone Pilot' ? 'drone' : 'editor';
+    updatePlan({
+      crew: [...plan.crew, {
+        key: crypto.randomUUID(),
+        day_number: dayNumber,
+        role,
+        staff_id: null,
+        freelancer_id: null,
+        rate: roleRates[rateKey] || 0
+      }]
+    });
+  };
+
+  const validateStep = (): string | null => {
+    if (step === 'event') {
+      if (!plan.title.trim()) return 'Please enter an event title';
+      if (plan.days.some(day => !day.name.trim())) return 'Every day needs a name';
+    }
+    if (step === 'tasks' && plan.tasks.some(task => !task.title.trim())) {
+      return 'Every post-production task needs a title';
+    }
+    if (step === 'payments') return getMilestoneScheduleProblem(plan.milestones, total);
+    return null;
+  };
+
+  const goNext = () => {
+    const problem = validateStep();
+    if (problem) {
+      toast({ title: "Check this step", description: problem, variant: "destructive" });
+      return;
+    }
+    setStep(STEPS[stepIndex + 1].id);
+  };
+
+  const handleConvert = async () => {
+    setSaving(true);
+    try {
+      const eventId = await convertQuotationWithPlan(quotation.id, plan);
+
+      toast({
+        title: "Event created",
+        description: `${plan.title.trim()} was created with ${filledSlots.length} crew, ${plan.tasks.length} tasks and ${plan.milestones.length} payment milestones.`,
+      });
+
+      const firmId = quotation.firm_id;
+      import('@/services/syncCoordinator').then(({ syncEvent }) => {
+        syncEvent(eventId, firmId, 'create', 'quotation-conversion');
+      });
+
+      onOpenChange(false);
+      onConverted?.(eventId);
+    } catch (error) {
+      toast({
+        title: "Conversion failed",
+        description: error instanceof Error ? error.message : 'Nothing was created. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <WorkflowSquare10Icon className="h-5 w-5 text-primary" />
+            Convert to Event
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {STEPS.map((item, index) => (
+            <Badge key={item.id} variant={index === stepIndex ? 'default' : index < stepIndex ? 'secondary' : 'outline'}>
+              {index + 1}. {item.label}
+            </Badge>
+          ))}
+        </div>
+
+        {step === 'event' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Title</Label>
+              <Input value={plan.title} onChange={(e) => updatePlan({ title: e.target.value })} placeholder="Event title" />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Event Date</Label>
+                <InlineDatePicker
+                  value={new Date(`${plan.eventDate}T00:00:00`)}
+                  onSelect={(date) => date && updatePlan({ eventDate: toDateString(date) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Days</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="30"
+                  value={plan.days.length}
+                  onChange={(e) => setDayCount(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 30))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Calendar03Icon className="h-4 w-4" />
+                Event days
+              </Label>
+              {plan.days.map((day, index) => (
+                <div key={index} className="grid grid-cols-[110px_1fr_1fr] gap-2 items-center">
+                  <span className="text-xs text-muted-foreground">{formatSessionDate(addDays(plan.eventDate, index))}</span>
+                  <Input
+                    value={day.name}
+                    placeholder={`Day ${index + 1}`}
+                    onChange={(e) => updatePlan({ days: plan.days.map((item, i) => i === index ? { ...item, name: e.target.value } : item) })}
+                  />
+                  <Input
+                    value={day.venue}
+                    placeholder={quotation.venue || 'Venue'}
+                    onChange={(e) => updatePlan({ days: plan.days.map((item, i) => i === index ? { ...item, venue: e.target.value } : item) })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'crew' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Slots left open are flagged as missing crew on the event. Rates start from the firm's default role rates.
+              </p>
+              <Button variant="outline" size="sm" onClick={resetCrew}>Reset</Button>
+            </div>
+
+            {plan.days.map((day, index) => {
+              const dayNumber = index + 1;
+              const slots = plan.crew.filter(slot => slot.day_number === dayNumber);
+              const taken = new Set(slots.map(slot => slot.staff_id || slot.freelancer_id).filter(Boolean));
+
+              return (
+                <div key={dayNumber} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{day.name}</span>
+                    <Select value="" onValueChange={(role) => addCrewSlot(dayNumber, role)}>
+                      <SelectTrigger className="h-8 w-[140px]">
+                        <SelectValue placeholder="Add slot" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {['Photographer', 'Cinematographer', 'Drone Pilot', 'Same Day Editor'].map(role => (
+                          <SelectItem key={role} value={role}>{role}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {slots.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No crew needed</p>
+                  ) : slots.map(slot => (
+                    <div key={slot.key} className="grid grid-cols-[120px_1fr_100px_32px] gap-2 items-center">
+                      <span className="text-xs">{slot.role}</span>
+                      <Select value={getPersonValue(slot)} onValueChange={(value) => assignPerson(slot.key, value)}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={OPEN_SLOT}>Open slot</SelectItem>
+                          {people
+                            .filter(person => person.id === (slot.staff_id || slot.freelancer_id) || !taken.has(person.id))
+                            .map(person => (
+                              <SelectItem key={person.id} value={`${person.is_freelancer ? 'freelancer' : 'staff'}:${person.id}`}>
+                                {person.full_name}{person.role ? ` (${person.role})` : ''}{person.is_freelancer ? ' • Freelancer' : ''}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="h-8"
+                        value={slot.rate || ''}
+                        placeholder="Rate"
+                        onChange={(e) => updatePlan({
+                          crew: plan.crew.map(item => item.key === slot.key ? { ...item, rate: parseFloat(e.target.value) || 0 } : item)
+                        })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-destructive"
+                        onClick={() => updatePlan({ crew: plan.crew.filter(item => item.key !== slot.key) })}
+                      >
+                        <Delete02Icon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 'tasks' && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Due dates count from the last event day, {formatSessionDate(endDate)}.
+            </p>
+            {plan.tasks.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No post-production items on this quotation</p>
+            )}
+            {plan.tasks.map(task => (
+              <div key={task.key} className="grid grid-cols-[1fr_140px_90px_32px] gap-2 items-center">
+                <Input
+                  value={task.title}
+                  placeholder="Task title"
+                  onChange={(e) => updatePlan({ tasks: plan.tasks.map(item => item.key === task.key ? { ...item, title: e.target.value } : item) })}
+                />
+                <Select
+                  value={task.task_type}
+                  onValueChange={(value: TaskType) => updatePlan({ tasks: plan.tasks.map(item => item.key === task.key ? { ...item, task_type: value } : item) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  title="Days after the event"
+                  value={task.due_offset_days}
+                  onChange={(e) => updatePlan({
+                    tasks: plan.tasks.map(item => item.key === task.key ? { ...item, due_offset_days: parseInt(e.target.value) || 0 } : item)
+                  })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive"
+                  onClick={() => updatePlan({ tasks: plan.tasks.filter(item => item.key !== task.key) })}
+                >
+                  <Delete02Icon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => updatePlan({
+                tasks: [...plan.tasks, {
+                  key: crypto.randomUUID(),
+                  title: '',
+                  task_type: 'Other',
+                  priority: 'Medium',
+                  due_offset_days: DEFAULT_POST_PRODUCTION_OFFSET_DAYS
+                }]
+              })}
+            >
+              <Add01Icon className="h-4 w-4 mr-2" />
+              Add Task
+            </Button>
+          </div>
+        )}
+
+        {step === 'payments' && (
+          <PaymentMilestonesEditor
+            milestones={plan.milestones}
+            total={total}
+            onChange={(milestones) => updatePlan({ milestones })}
+          />
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Calendar03Icon className="h-4 w-4 text-muted-foreground" />
+                {plan.title.trim()}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatSessionDate(plan.eventDate)}{plan.days.length > 1 ? ` – ${formatSessionDate(endDate)}` : ''}
+              </span>
+            </div>
+            <ul className="pl-6 text-xs text-muted-foreground space-y-0.5">
+              {plan.days.map((day, index) => (
+                <li key={index}>Day {index + 1}: {day.name}{day.venue.trim() ? ` • ${day.venue.trim()}` : ''}</li>
+              ))}
+            </ul>
+
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <UserGroupIcon className="h-4 w-4 text-muted-foreground" />
+                Crew
+              </span>
+              <Badge variant="secondary">{filledSlots.length} assigned • {plan.crew.length - filledSlots.length} open</Badge>
+            </div>
+            {filledSlots.length > 0 && (
+              <ul className="pl-6 text-xs text-muted-foreground space-y-0.5">
+                {filledSlots.map(slot => (
+                  <li key={slot.key}>
+                    Day {slot.day_number}: {getPersonName(slot)} ({slot.role}){slot.rate > 0 ? ` • ${formatRupees(slot.rate)}` : ''}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Task01Icon className="h-4 w-4 text-muted-foreground" />
+                Post-production tasks
+              </span>
+              <Badge variant="secondary">{plan.tasks.length}</Badge>
+            </div>
+            {plan.tasks.length > 0 && (
+              <ul className="pl-6 text-xs text-muted-foreground space-y-0.5">
+                {plan.tasks.map(task => (
+                  <li key={task.key}>{task.title} • due {formatSessionDate(addDays(endDate, task.due_offset_days))}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <MoneyBag02Icon className="h-4 w-4 text-muted-foreground" />
+                Payment schedule
+              </span>
+              <Badge variant="secondary">{formatRupees(scheduledTotal)} of {formatRupees(total)}</Badge>
+            </div>
+            {plan.milestones.length > 0 && (
+              <ul className="pl-6 text-xs text-muted-foreground space-y-0.5">
+                {plan.milestones.map(milestone => (
+                  <li key={milestone.key}>
+                    {milestone.label} • {formatRupees(milestone.amount)}
+                    {milestone.due_date && ` • due ${formatSessionDate(milestone.due_date)}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between gap-3 pt-4 border-t">
+          <Button
+            variant="outline"
+            onClick={() => stepIndex === 0 ? onOpenChange(false) : setStep(STEPS[stepIndex - 1].id)}
+            className="min-w-[100px]"
+          >
+            {stepIndex === 0 ? 'Cancel' : (
+              <>
+                <ArrowLeft01Icon className="h-4 w-4 mr-2" />
+                Back
+              </>
+            )}
+          </Button>
+          {step === 'review' ? (
+            <Button onClick={handleConvert} disabled={saving} className="min-w-[100px]">
+              {saving ? 'Creating...' : 'Create Event'}
+            </Button>
+          ) : (
+            <Button onClick={goNext} className="min-w-[100px]">
+              Next
+              <ArrowRight01Icon className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuotationConversionWizard;
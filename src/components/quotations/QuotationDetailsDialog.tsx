@@ -28,10 +28,13 @@ import {
   Edit02Icon,
   Add01Icon
 } from 'hugeicons-react';
-import { Quotation } from '@/types/studio';
+import { Quotation, QuotationRevision } from '@/types/studio';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { downloadQuotationPDF } from './QuotationPDFRenderer';
+import QuotationRevisionHistory from './QuotationRevisionHistory';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import { DEFAULT_SAC_CODE, formatStateLabel, getQuotationDiscountBreakdown, parseTaxBreakdown } from '@/lib/gst-utils';
 
 interface QuotationDetailsDialogProps {
   quotation: Quotation | null;
@@ -80,12 +83,33 @@ const QuotationDetailsDialog = ({ quotation, open, onOpenChange }: QuotationDeta
     }
   };
 
-  const handleDownloadPDF = async () => {
+  const handleDownloadPDF = async (revision?: QuotationRevision) => {
     if (!enhancedQuotation) return;
 
     try {
       setDownloadingPDF(true);
-      const result = await downloadQuotationPDF(enhancedQuotation);
+      // An older revision prints with the quotation's client details and its own snapshot
+      const result = await downloadQuotationPDF(revision ? {
+        ...enhancedQuotation,
+        title: revision.title,
+        event_type: revision.event_type,
+        event_date: revision.event_date,
+        venue: revision.venue,
+        description: revision.description,
+        valid_until: revision.valid_until,
+        amount: revision.amount,
+        discount_type: revision.discount_type,
+        discount_value: revision.discount_value,
+        discount_amount: revision.discount_amount,
+        discount_rules: revision.discount_rules,
+        tax_pricing: revision.tax_pricing,
+        place_of_supply: revision.place_of_supply,
+        tax_amount: revision.tax_amount,
+        tax_breakdown: revision.tax_breakdown,
+        quotation_details: revision.quotation_details,
+        current_revision: revision.revision_number,
+        revised_at: revision.created_at
+      } : enhancedQuotation);
       if (result.success) {
         toast({
           title: "PDF Downloaded",
@@ -112,6 +136,9 @@ const QuotationDetailsDialog = ({ quotation, open, onOpenChange }: QuotationDeta
   const hasDiscount = enhancedQuotation.discount_type && enhancedQuotation.discount_value && enhancedQuotation.discount_value > 0;
   const discountAmount = enhancedQuotation.discount_amount || 0;
   const discountedAmount = hasDiscount ? originalAmount - discountAmount : originalAmount;
+  const discountSteps = hasDiscount ? getQuotationDiscountBreakdown(enhancedQuotation, DEFAULT_SAC_CODE).steps : [];
+  const taxBreakdown = enhancedQuotation.tax_pricing ? parseTaxBreakdown(enhancedQuotation.tax_breakdown) : null;
+  const payableAmount = getQuotationFinalAmount(enhancedQuotation);
 
   // Extract quotation details with better structure
   const quotationDetails = enhancedQuotation.quotation_details as any;
@@ -172,7 +199,7 @@ const QuotationDetailsDialog = ({ quotation, open, onOpenChange }: QuotationDeta
             <Button
               variant="outline"
               size="sm"
-              onClick={handleDownloadPDF}
+              onClick={() => handleDownloadPDF()}
               disabled={downloadingPDF}
               className="gap-1 h-8 text-xs w-full sm:w-auto"
             >
@@ -206,6 +233,9 @@ const QuotationDetailsDialog = ({ quotation, open, onOpenChange }: QuotationDeta
                   {enhancedQuotation.converted_to_event ? 'Converted to Event' : 
                    isExpired ? 'Expired' : 'Active'}
                 </Badge>
+                <Badge variant="outline" className="text-xs">
+                  Revision {enhancedQuotation.current_revision}
+                </Badge>
                 {enhancedQuotation.valid_until && !isExpired && (
                   <span className="text-xs text-muted-foreground">
                     Valid until: {new Date(enhancedQuotation.valid_until).toLocaleDateString('en-IN')}
@@ -214,7 +244,7 @@ const QuotationDetailsDialog = ({ quotation, open, onOpenChange }: QuotationDeta
               </div>
               <div className="text-right">
                 <div className="text-lg font-bold text-foreground">
-                  ₹{discountedAmount.toLocaleString()}
+                  ₹{payableAmount.toLocaleString()}
                 </div>
                 {hasDiscount && (
                   <div className="text-xs text-muted-foreground line-through">
@@ -439,21 +469,53 @@ const QuotationDetailsDialog = ({ quotation, open, onOpenChange }: QuotationDeta
               
               {hasDiscount && (
                 <>
+                  {discountSteps.map((step, index) => (
+                    <div key={step.ruleId} className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-muted-foreground flex-1 min-w-0">
+                        {discountSteps.length > 1 ? `${index + 1}. ` : 'Discount: '}{step.label}
+                      </span>
+                      <span className="text-sm font-medium text-destructive flex-shrink-0">{step.amount < 0 ? '+' : '-'}₹{Math.abs(step.amount).toLocaleString()}</span>
+                    </div>
+                  ))}
+                  <div className="border-t pt-2 flex items-center justify-between gap-2">
+                    <span className="text-sm sm:text-base font-semibold text-foreground flex-1 min-w-0">Final Amount:</span>
+                    <span className="text-sm sm:text-lg font-bold text-foreground flex-shrink-0">₹{discountedAmount.toLocaleString()}</span>
+                  </div>
+                </>
+              )}
+
+              {taxBreakdown && (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-muted-foreground flex-1 min-w-0">Taxable Value:</span>
+                    <span className="text-sm font-medium flex-shrink-0">₹{taxBreakdown.taxableValue.toLocaleString()}</span>
+                  </div>
                   <div className="flex items-center justify-between gap-2">
                     <span className="text-sm text-muted-foreground flex-1 min-w-0">
-                      Discount ({enhancedQuotation.discount_type === 'percentage' ? `${enhancedQuotation.discount_value}%` : '₹' + enhancedQuotation.discount_value}):
+                      {taxBreakdown.interState ? 'IGST' : 'CGST + SGST'}
+                      {taxBreakdown.pricing === 'inclusive' ? ' (included)' : ''}
+                      {` • ${formatStateLabel(taxBreakdown.placeOfSupply)}`}:
                     </span>
-                    <span className="text-sm font-medium text-destructive flex-shrink-0">-₹{discountAmount.toLocaleString()}</span>
+                    <span className="text-sm font-medium flex-shrink-0">₹{taxBreakdown.totalTax.toLocaleString()}</span>
                   </div>
                   <div className="border-t pt-2 flex items-center justify-between gap-2">
-                    <span className="text-sm sm:text-base font-semibold text-foreground flex-1 min-w-0">Final Amount:</span>
-                    <span className="text-sm sm:text-lg font-bold text-foreground flex-shrink-0">₹{discountedAmount.toLocaleString()}</span>
+                    <span className="text-sm sm:text-base font-semibold text-foreground flex-1 min-w-0">Total Payable:</span>
+                    <span className="text-sm sm:text-lg font-bold text-foreground flex-shrink-0">₹{payableAmount.toLocaleString()}</span>
                   </div>
                 </>
               )}
             </div>
           </div>
 
+          {/* Revision History */}
+          <QuotationRevisionHistory
+            quotationId={enhancedQuotation.id}
+            currentRevision={enhancedQuotation.current_revision}
+            readOnly={!!enhancedQuotation.converted_to_event}
+            onRestored={loadQuotationDetails}
+            onDownloadRevision={handleDownloadPDF}
+          />
+
           {/* Description */}
           {enhancedQuotation.description && (
             <div className="bg-muted/20 border border-border rounded-lg p-3 sm:p-4 space-y-2 sm:space-y-3">
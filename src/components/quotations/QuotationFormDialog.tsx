@@ -14,6 +14,8 @@ import { InlineDatePicker } from '@/components/ui/inline-date-picker';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
 import { UnifiedDialog } from '@/components/ui/unified-dialog';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { getEventTypeOptions } from '@/lib/event-type-utils';
 
 interface QuotationFormData {
   title: string;
@@ -44,10 +46,9 @@ interface QuotationFormDialogProps {
   disabled?: boolean;
 }
 
-const eventTypes: EventType[] = ['Ring-Ceremony', 'Pre-Wedding', 'Wedding', 'Maternity Photography', 'Others'];
-
 const QuotationFormDialog = ({ clients, isOpen, onOpenChange, onSubmit, onNewQuotation, editingQuotation, formData: initialFormData, disabled = false }: QuotationFormDialogProps) => {
   const { currentFirmId } = useAuth();
+  const { eventTypes } = useFirmEventTypes();
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [pendingFormData, setPendingFormData] = useState<QuotationFormData | null>(null);
   const [formData, setFormData] = useState<QuotationFormData>({
@@ -221,9 +222,12 @@ const QuotationFormDialog = ({ clients, isOpen, onOpenChange, onSubmit, onNewQuo
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {eventTypes.map((type) => (
-                    <SelectItem key={type} value={type}>
-                      {type}
+                  {getEventTypeOptions(eventTypes, formData.event_type).map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      <span className="flex items-center gap-2">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: type.color }} />
+                        {type.label}
+                      </span>
                     </SelectItem>
                   ))}
                 </SelectContent>
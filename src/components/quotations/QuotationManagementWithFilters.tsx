@@ -11,16 +11,19 @@ import { useQuotationExportConfig } from '@/hooks/useExportConfigs';
 import { useSubscriptionAccess } from '@/hooks/useSubscriptionAccess';
 import QuotationFormDialog from './QuotationFormDialog';
 import QuotationCardGrid from './QuotationCardGrid';
+import QuotationPipelineBoard from './QuotationPipelineBoard';
 import CustomizableQuotationBuilder from './CustomizableQuotationBuilder';
 import { useQuotations } from './hooks/useQuotations';
 import { EnhancedConfirmationDialog } from '@/components/ui/enhanced-confirmation-dialog';
 import { EmptyState } from '@/components/ui/empty-state';
-import { Note01Icon } from 'hugeicons-react';
+import { Note01Icon, GridViewIcon, Layout3ColumnIcon } from 'hugeicons-react';
+import { Button } from '@/components/ui/button';
 import { useFirmData } from '@/hooks/useFirmData';
 import { Quotation, EventType } from '@/types/studio';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useGlobalQuotationStats } from '@/hooks/useGlobalQuotationStats';
+import { useQuotationPipelineAutomation } from '@/hooks/useQuotationPipelineAutomation';
 
 interface QuotationFormData {
   title: string;
@@ -47,7 +50,9 @@ const QuotationManagementWithFilters = () => {
   const [events, setEvents] = useState<any[]>([]);
   const quotationExportConfig = useQuotationExportConfig();
   const { quotations: allQuotations, loading: allQuotationsLoading } = useGlobalQuotationStats();
+  useQuotationPipelineAutomation(filterState.refetch);
   
+  const [viewMode, setViewMode] = useState<'grid' | 'pipeline'>('grid');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [showBuilder, setShowBuilder] = useState(false);
   const [editingQuotation, setEditingQuotation] = useState<Quotation | null>(null);
@@ -211,6 +216,26 @@ const QuotationManagementWithFilters = () => {
         <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Quotations</h1>
         
         <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 rounded-full border p-1">
+            <Button
+              variant={viewMode === 'grid' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setViewMode('grid')}
+              className="h-8 w-8 rounded-full p-0"
+              title="Grid View"
+            >
+              <GridViewIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={viewMode === 'pipeline' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setViewMode('pipeline')}
+              className="h-8 w-8 rounded-full p-0"
+              title="Pipeline View"
+            >
+              <Layout3ColumnIcon className="h-4 w-4" />
+            </Button>
+          </div>
           {(allQuotations.length > 0 || filterState.data.length > 0) && canExport && (
             <UniversalExportDialog 
               data={allQuotations.length > 0 ? allQuotations : filterState.data}
@@ -233,68 +258,75 @@ const QuotationManagementWithFilters = () => {
       {/* Stats - Independent from filters */}
       <QuotationStats />
 
-      {/* Universal Filter Bar */}
-      <UniversalFilterBar
-        searchValue={filterState.searchTerm}
-        onSearchChange={filterState.setSearchTerm}
-        onSearchApply={filterState.handleSearchApply}
-        onSearchClear={filterState.handleSearchClear}
-        isSearchActive={filterState.isSearchActive}
-        searchPlaceholder="Search quotations by title or venue..."
+      {/* Pipeline board works on every quotation, so filters and pagination only apply to the grid */}
+      {viewMode === 'pipeline' ? (
+        <QuotationPipelineBoard quotations={allQuotations} onUpdate={filterState.refetch} />
+      ) : (
+        <>
+          {/* Universal Filter Bar */}
+          <UniversalFilterBar
+            searchValue={filterState.searchTerm}
+            onSearchChange={filterState.setSearchTerm}
+            onSearchApply={filterState.handleSearchApply}
+            onSearchClear={filterState.handleSearchClear}
+            isSearchActive={filterState.isSearchActive}
+            searchPlaceholder="Search quotations by title or venue..."
         
-        sortBy={filterState.sortBy}
-        sortOptions={FILTER_CONFIGS.quotations.sortOptions}
-        onSortChange={filterState.setSortBy}
-        sortOrder={filterState.sortOrder}
-        onSortReverse={filterState.toggleSortOrder}
+            sortBy={filterState.sortBy}
+            sortOptions={FILTER_CONFIGS.quotations.sortOptions}
+            onSortChange={filterState.setSortBy}
+            sortOrder={filterState.sortOrder}
+            onSortReverse={filterState.toggleSortOrder}
         
-        activeFilters={filterState.activeFilters}
-        filterOptions={FILTER_CONFIGS.quotations.filterOptions}
-        onFiltersChange={filterState.setActiveFilters}
+            activeFilters={filterState.activeFilters}
+            filterOptions={FILTER_CONFIGS.quotations.filterOptions}
+            onFiltersChange={filterState.setActiveFilters}
         
-        totalCount={filterState.totalCount}
-        filteredCount={filterState.filteredCount}
-        loading={filterState.loading}
-      />
+            totalCount={filterState.totalCount}
+            filteredCount={filterState.filteredCount}
+            loading={filterState.loading}
+          />
 
-      {/* Quotations Grid */}
-      {filteredQuotations.length === 0 && !filterState.loading ? (
-        <EmptyState
-          icon={Note01Icon}
-          title="No Quotations Found"
-          description="No quotations match your current search and filter criteria. Try adjusting your filters or create a new quotation."
-          action={{
-            label: "Add Quotation",
-            onClick: handleNewQuotation
-          }}
-        />
-      ) : (
-        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-          {filteredQuotations.map((quotation) => (
-            <QuotationCardGrid
-              key={quotation.id}
-              quotation={quotation}
-              onUpdate={filterState.refetch}
-              onEdit={handleEditQuotation}
-              onDelete={deleteQuotation}
-              firmData={firmData}
+          {/* Quotations Grid */}
+          {filteredQuotations.length === 0 && !filterState.loading ? (
+            <EmptyState
+              icon={Note01Icon}
+              title="No Quotations Found"
+              description="No quotations match your current search and filter criteria. Try adjusting your filters or create a new quotation."
+              action={{
+                label: "Add Quotation",
+                onClick: handleNewQuotation
+              }}
             />
-          ))}
-        </div>
-      )}
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {filteredQuotations.map((quotation) => (
+                <QuotationCardGrid
+                  key={quotation.id}
+                  quotation={quotation}
+                  onUpdate={filterState.refetch}
+                  onEdit={handleEditQuotation}
+                  onDelete={deleteQuotation}
+                  firmData={firmData}
+                />
+              ))}
+            </div>
+          )}
 
-      {/* Pagination Controls */}
-      <UniversalPagination
-        currentPage={filterState.currentPage}
-        totalCount={filterState.totalCount}
-        filteredCount={filterState.filteredCount}
-        pageSize={filterState.pageSize}
-        allDataLoaded={filterState.allDataLoaded}
-        loading={filterState.loading || filterState.paginationLoading}
-        onLoadMore={filterState.loadMore}
-        onPageChange={filterState.goToPage}
-        showLoadMore={true}
-      />
+          {/* Pagination Controls */}
+          <UniversalPagination
+            currentPage={filterState.currentPage}
+            totalCount={filterState.totalCount}
+            filteredCount={filterState.filteredCount}
+            pageSize={filterState.pageSize}
+            allDataLoaded={filterState.allDataLoaded}
+            loading={filterState.loading || filterState.paginationLoading}
+            onLoadMore={filterState.loadMore}
+            onPageChange={filterState.goToPage}
+            showLoadMore={true}
+          />
+        </>
+      )}
 
       {/* Confirmation Dialog */}
       <EnhancedConfirmationDialog
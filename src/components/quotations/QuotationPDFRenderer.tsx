@@ -5,6 +5,9 @@ import { shareTextWithFile } from '@/lib/share-utils';
 import { SharedPDFHeader, SharedPDFFooter, sharedStyles, SimpleTable } from '../pdf/SharedPDFLayout';
 import { formatDate } from '@/lib/date-utils';
 import { supabase } from '@/integrations/supabase/client';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import { formatDiscountSummary } from '@/lib/quotation-discount-utils';
+import { DEFAULT_SAC_CODE, formatStateLabel, getQuotationDiscountBreakdown, parseTaxBreakdown } from '@/lib/gst-utils';
 
 const styles = StyleSheet.create({
   ...sharedStyles,
@@ -231,15 +234,26 @@ interface QuotationPDFProps {
     logo_url?: string;
     header_left_content?: string;
     footer_content?: string;
+    gstin?: string | null;
   };
 }
 
+const formatRs = (value: number) => `Rs.${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// The PDF font has no rupee glyph
+const toPdfText = (value: string) => value.replace(/₹/g, 'Rs.');
+
 const QuotationPDFDocument: React.FC<QuotationPDFProps> = ({ quotation, firmData }) => {
   const details = quotation.quotation_details 
     ? (typeof quotation.quotation_details === 'string' 
         ? JSON.parse(quotation.quotation_details) 
         : quotation.quotation_details)
     : null;
+  const taxBreakdown = quotation.tax_pricing ? parseTaxBreakdown(quotation.tax_breakdown) : null;
+  const taxIncluded = taxBreakdown?.pricing === 'inclusive' ? ' (incl.)' : '';
+  const discount = quotation.discount_type && quotation.discount_value
+    ? getQuotationDiscountBreakdown(quotation, DEFAULT_SAC_CODE)
+    : null;
 
   return (
     <Document>
@@ -248,8 +262,11 @@ const QuotationPDFDocument: React.FC<QuotationPDFProps> = ({ quotation, firmData
         <SharedPDFHeader firmData={firmData} />
 
         <View>
-          <Text style={styles.documentId}>Quote ID: {quotation.id || `QT-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`}</Text>
+          <Text style={styles.documentId}>Quote ID: {quotation.quotation_number || quotation.id || 'QT-PREVIEW'}</Text>
           <Text style={styles.title}>QUOTATION</Text>
+          {taxBreakdown && firmData?.gstin && (
+            <Text style={styles.documentId}>GSTIN: {firmData.gstin}</Text>
+          )}
         </View>
 
 
@@ -269,6 +286,18 @@ const QuotationPDFDocument: React.FC<QuotationPDFProps> = ({ quotation, firmData
               <Text style={styles.detailLabel}>Email:</Text>
               <Text style={styles.detailValue}>{quotation.client?.email || 'N/A'}</Text>
             </View>
+            {taxBreakdown && quotation.client?.gstin && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>GSTIN:</Text>
+                <Text style={styles.detailValue}>{quotation.client.gstin}</Text>
+              </View>
+            )}
+            {taxBreakdown && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Place of Supply:</Text>
+                <Text style={styles.detailValue}>{formatStateLabel(taxBreakdown.placeOfSupply)}</Text>
+              </View>
+            )}
           </View>
           
           <View style={styles.column}>
@@ -277,6 +306,15 @@ const QuotationPDFDocument: React.FC<QuotationPDFProps> = ({ quotation, firmData
               <Text style={styles.detailLabel}>Quote Date:</Text>
               <Text style={styles.detailValue}>{formatDate(new Date())}</Text>
             </View>
+            {quotation.current_revision && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Revision:</Text>
+                <Text style={styles.detailValue}>
+                  Revision {quotation.current_revision}
+                  {quotation.revised_at ? ` • ${formatDate(new Date(quotation.revised_at))}` : ''}
+                </Text>
+              </View>
+            )}
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Event Type:</Text>
               <Text style={styles.detailValue}>{quotation.event_type}</Text>
@@ -416,24 +454,79 @@ const QuotationPDFDocument: React.FC<QuotationPDFProps> = ({ quotation, firmData
           </View>
         </View>
 
+        {/* Discounts in the order they were applied */}
+        {discount && discount.steps.length > 0 && (
+          <View>
+            <Text style={styles.tableTitle}>DISCOUNT BREAKDOWN</Text>
+            <SimpleTable
+              headers={['Description', 'Discount', 'Amount']}
+              rows={[
+                ['Gross Amount', '', formatRs(discount.gross)],
+                ...discount.steps.map(step => [toPdfText(step.label), `${step.amount < 0 ? '+' : '-'}${formatRs(Math.abs(step.amount))}`, formatRs(step.totalAfter)]),
+                ['Net Amount', `-${formatRs(discount.totalDiscount)}`, formatRs(discount.net)]
+              ]}
+            />
+          </View>
+        )}
+
+        {/* GST summary by HSN/SAC and rate */}
+        {taxBreakdown && taxBreakdown.rates.length > 0 && (
+          <View>
+            <Text style={styles.tableTitle}>TAX SUMMARY</Text>
+            <SimpleTable
+              headers={taxBreakdown.interState
+                ? ['HSN/SAC', 'Taxable Value', 'Rate', 'IGST']
+                : ['HSN/SAC', 'Taxable Value', 'Rate', 'CGST', 'SGST']}
+              rows={taxBreakdown.rates.map(entry => taxBreakdown.interState
+                ? [entry.hsnSac, formatRs(entry.taxableValue), `${entry.rate}%`, formatRs(entry.igst)]
+                : [entry.hsnSac, formatRs(entry.taxableValue), `${entry.rate}%`, formatRs(entry.cgst), formatRs(entry.sgst)])}
+            />
+          </View>
+        )}
+
         {/* Total Section - AFTER POST-PRODUCTION AND BEFORE TERMS */}
         <View style={styles.totalSection}>
           <View style={styles.totalBox}>
-            {quotation.discount_type && quotation.discount_value && (
+            {discount && (
               <>
                 <View style={styles.totalRow}>
                   <Text style={styles.totalLabel}>Original Amount:</Text>
                   <Text style={[styles.totalValue, { textDecoration: 'line-through', color: '#888888' }]}>Rs.{quotation.amount.toLocaleString()}</Text>
                 </View>
                 <View style={styles.totalRow}>
-                  <Text style={styles.totalLabel}>Discount ({quotation.discount_type === 'percentage' ? `${quotation.discount_value}%` : `Rs.${quotation.discount_value.toLocaleString()}`}):</Text>
+                  <Text style={styles.totalLabel}>Discount ({toPdfText(formatDiscountSummary(quotation))}):</Text>
                   <Text style={[styles.totalValue, { color: '#e74c3c' }]}>-Rs.{quotation.discount_amount.toLocaleString()}</Text>
                 </View>
               </>
             )}
+            {taxBreakdown && (
+              <>
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>Taxable Value:</Text>
+                  <Text style={styles.totalValue}>{formatRs(taxBreakdown.taxableValue)}</Text>
+                </View>
+                {taxBreakdown.interState ? (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>IGST{taxIncluded}:</Text>
+                    <Text style={styles.totalValue}>{formatRs(taxBreakdown.igst)}</Text>
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.totalRow}>
+                      <Text style={styles.totalLabel}>CGST{taxIncluded}:</Text>
+                      <Text style={styles.totalValue}>{formatRs(taxBreakdown.cgst)}</Text>
+                    </View>
+                    <View style={styles.totalRow}>
+                      <Text style={styles.totalLabel}>SGST{taxIncluded}:</Text>
+                      <Text style={styles.totalValue}>{formatRs(taxBreakdown.sgst)}</Text>
+                    </View>
+                  </>
+                )}
+              </>
+            )}
             <View style={styles.grandTotalRow}>
               <Text style={styles.grandTotal}>TOTAL PACKAGE COST:</Text>
-              <Text style={styles.grandTotal}>Rs.{(quotation.discount_type && quotation.discount_value ? quotation.amount - quotation.discount_amount : quotation.amount).toLocaleString()}</Text>
+              <Text style={styles.grandTotal}>{formatRs(getQuotationFinalAmount(quotation))}</Text>
             </View>
           </View>
         </View>
@@ -493,7 +586,7 @@ export const generateQuotationPDF = async (quotation: any) => {
           console.log('Fetching firm data for Quotation PDF with ID:', firmId);
           const { data: firm, error } = await supabase
             .from('firms')
-            .select('name, description, logo_url, header_left_content, footer_content')
+            .select('name, description, logo_url, header_left_content, footer_content, gstin')
             .eq('id', firmId)
             .single();
           
@@ -553,7 +646,7 @@ Client: ${quotation.client?.name || 'N/A'}
 Event Type: ${quotation.event_type}
 Event Date: ${new Date(quotation.event_date).toLocaleDateString()}
 ${quotation.venue ? `Venue: ${quotation.venue}\n` : ''}Amount: ₹${(quotation.amount || 0).toLocaleString()}
-${quotation.discount_amount ? `Discount: ₹${quotation.discount_amount.toLocaleString()}\n` : ''}Valid Until: ${quotation.valid_until ? new Date(quotation.valid_until).toLocaleDateString() : 'Contact us'}
+${quotation.discount_amount ? `Discount: ₹${quotation.discount_amount.toLocaleString()}\n` : ''}${quotation.tax_pricing && quotation.tax_amount ? `GST: ₹${quotation.tax_amount.toLocaleString()}${quotation.tax_pricing === 'inclusive' ? ' (included)' : ''}\nTotal: ₹${getQuotationFinalAmount(quotation).toLocaleString()}\n` : ''}Valid Until: ${quotation.valid_until ? new Date(quotation.valid_until).toLocaleDateString() : 'Contact us'}
 
 ---
 Professional Photography & Videography Services
@@ -0,0 +1,157 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Calendar01Icon, ContactIcon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { Quotation, QuotationStatus } from '@/types/studio';
+import { getStatusColors } from '@/lib/status-colors';
+import {
+  QUOTATION_STATUSES,
+  QUOTATION_STATUS_DESCRIPTIONS,
+  getQuotationFinalAmount,
+  getQuotationStatus,
+  updateQuotationStatus
+} from '@/lib/quotation-status-utils';
+import QuotationDetailsDialog from './QuotationDetailsDialog';
+
+interface QuotationPipelineBoardProps {
+  quotations: Quotation[];
+  onUpdate: () => void;
+}
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short' });
+
+/**
+ * Kanban view of quotations by pipeline status. Cards can be dragged between columns;
+ * converted quotations stay in Accepted.
+ */
+const QuotationPipelineBoard = ({ quotations, onUpdate }: QuotationPipelineBoardProps) => {
+  const { toast } = useToast();
+  // Optimistic moves until the realtime refresh brings the saved status back
+  const [movedStatus, setMovedStatus] = useState<Record<string, QuotationStatus>>({});
+  const [dragOverStatus, setDragOverStatus] = useState<QuotationStatus | null>(null);
+  const [selectedQuotation, setSelectedQuotation] = useState<Quotation | null>(null);
+
+  useEffect(() => {
+    setMovedStatus({});
+  }, [quotations]);
+
+  const columns = useMemo(() => {
+    const grouped = Object.fromEntries(QUOTATION_STATUSES.map(status => [status, [] as Quotation[]])) as Record<QuotationStatus, Quotation[]>;
+    quotations.forEach(quotation => {
+      grouped[movedStatus[quotation.id] || getQuotationStatus(quotation)].push(quotation);
+    });
+    return grouped;
+  }, [quotations, movedStatus]);
+
+  const handleDrop = async (event: React.DragEvent, status: QuotationStatus) => {
+    event.preventDefault();
+    setDragOverStatus(null);
+    const quotation = quotations.find(q => q.id === event.dataTransfer.getData('text/plain'));
+    if (!quotation) return;
+
+    const currentStatus = movedStatus[quotation.id] || getQuotationStatus(quotation);
+    if (currentStatus === status) return;
+    if (quotation.converted_to_event) {
+      toast({
+        title: "Already converted",
+        description: "This quotation has been converted to an event and stays accepted.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setMovedStatus(prev => ({ ...prev, [quotation.id]: status }));
+    try {
+      await updateQuotationStatus(quotation.id, status);
+      onUpdate();
+    } catch (error) {
+      setMovedStatus(prev => {
+        const next = { ...prev };
+        delete next[quotation.id];
+        return next;
+      });
+      toast({
+        title: "Error updating status",
+        description: error instanceof Error ? error.message : 'Failed to move quotation',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {QUOTATION_STATUSES.map(status => {
+          const items = columns[status];
+          const total = items.reduce((sum, quotation) => sum + getQuotationFinalAmount(quotation), 0);
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOverStatus(status);
+              }}
+              onDragLeave={() => setDragOverStatus(prev => prev === status ? null : prev)}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`w-64 shrink-0 rounded-2xl border bg-muted/20 p-2 space-y-2 transition-colors ${
+                dragOverStatus === status ? 'border-primary bg-primary/5' : 'border-border'
+              }`}
+            >
+              <div className="px-1 pt-1" title={QUOTATION_STATUS_DESCRIPTIONS[status]}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-sm font-semibold ${getStatusColors(status)}`}>{status}</span>
+                  <Badge variant="secondary" className="text-xs">{items.length}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">₹{total.toLocaleString('en-IN')}</p>
+              </div>
+
+              <div className="space-y-2 min-h-[80px]">
+                {items.map(quotation => (
+                  <div
+                    key={quotation.id}
+                    draggable={!quotation.converted_to_event}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', quotation.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onClick={() => setSelectedQuotation(quotation)}
+                    className="rounded-xl border bg-card p-3 space-y-1.5 cursor-pointer hover:border-primary/50 transition-colors"
+                  >
+                    <p className="text-sm font-medium leading-tight line-clamp-2">{quotation.title}</p>
+                    {quotation.client?.name && (
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                        <ContactIcon className="h-3 w-3 shrink-0" />
+                        {quotation.client.name}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        <Calendar01Icon className="h-3 w-3" />
+                        {formatShortDate(quotation.event_date)}
+                      </span>
+                      <span className="font-medium">₹{getQuotationFinalAmount(quotation).toLocaleString('en-IN')}</span>
+                    </div>
+                    {quotation.valid_until && status !== 'Accepted' && status !== 'Rejected' && (
+                      <p className={`text-[11px] ${status === 'Expired' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {status === 'Expired' ? 'Expired' : 'Valid until'} {formatShortDate(quotation.valid_until)}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <QuotationDetailsDialog
+        quotation={selectedQuotation}
+        open={!!selectedQuotation}
+        onOpenChange={(open) => !open && setSelectedQuotation(null)}
+      />
+    </>
+  );
+};
+
+export default QuotationPipelineBoard;
@@ -0,0 +1,384 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Alert02Icon,
+  Calendar01Icon,
+  Call02Icon,
+  Camera01Icon,
+  Cancel01Icon,
+  CheckmarkCircle02Icon,
+  DroneIcon,
+  Loading03Icon,
+  Location01Icon,
+  Mail01Icon,
+  MessageEdit01Icon,
+  Video01Icon
+} from 'hugeicons-react';
+import { generateFirmBranding } from '@/config/business-defaults';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import { DEFAULT_SAC_CODE, getQuotationDiscountBreakdown, parseTaxBreakdown } from '@/lib/gst-utils';
+import { QuotationClientResponse } from '@/types/studio';
+import {
+  CLIENT_RESPONSE_LABELS,
+  SharedQuotation,
+  fetchSharedQuotation,
+  respondToSharedQuotation
+} from '@/lib/quotation-share-utils';
+
+interface QuotationPortalViewProps {
+  token: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'long', year: 'numeric' });
+
+const formatAmount = (value: number) => `₹${Number(value || 0).toLocaleString('en-IN')}`;
+
+const RESPONSE_ACTIONS: { response: QuotationClientResponse; label: string; icon: typeof CheckmarkCircle02Icon; variant: 'default' | 'outline' | 'destructive' }[] = [
+  { response: 'accepted', label: 'Accept Quotation', icon: CheckmarkCircle02Icon, variant: 'default' },
+  { response: 'changes_requested', label: 'Request Changes', icon: MessageEdit01Icon, variant: 'outline' },
+  { response: 'rejected', label: 'Decline', icon: Cancel01Icon, variant: 'destructive' }
+];
+
+/**
+ * Public, login-free view of a shared quotation with the firm's branding, where the client
+ * accepts, declines or asks for changes
+ */
+const QuotationPortalView = ({ token }: QuotationPortalViewProps) => {
+  const { toast } = useToast();
+  const [shared, setShared] = useState<SharedQuotation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [responderName, setResponderName] = useState('');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState<QuotationClientResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchSharedQuotation(token)
+      .then(data => {
+        if (cancelled) return;
+        setShared(data);
+        setResponderName(data.client?.name || '');
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'This quotation link is no longer available');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  const handleRespond = async (response: QuotationClientResponse) => {
+    if (!shared) return;
+    if (response === 'changes_requested' && !comment.trim()) {
+      toast({
+        title: "Tell us what to change",
+        description: "Please describe the changes you would like in the comments.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(response);
+    try {
+      const result = await respondToSharedQuotation({
+        token,
+        response,
+        comment: comment.trim(),
+        responderName: responderName.trim()
+      });
+      const respondedAt = new Date().toISOString();
+      setShared({
+        ...shared,
+        quotation: {
+          ...shared.quotation,
+          client_response: response,
+          client_responded_at: respondedAt,
+          is_converted: shared.quotation.is_converted || !!result.event_id
+        },
+        responses: [
+          { response, comment: comment.trim() || null, responder_name: responderName.trim() || null, created_at: respondedAt },
+          ...shared.responses
+        ]
+      });
+      setComment('');
+      toast({
+        title: "Response sent",
+        description: `Thank you. ${shared.firm.name} will get back to you shortly.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could not send your response",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <Loading03Icon className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+            <Alert02Icon className="h-10 w-10 text-muted-foreground" />
+            <p className="font-medium">{loadError || 'This quotation link is no longer available'}</p>
+            <p className="text-sm text-muted-foreground">Please contact the studio for a new link.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { quotation, firm, client } = shared;
+  const branding = generateFirmBranding(firm);
+  const details = quotation.quotation_details || {};
+  const days = details.days || [];
+  const addOns = details.addOns || [];
+  const deliverables = details.postProductionItems || [];
+  const hasDiscount = !!(quotation.discount_type && quotation.discount_value && quotation.discount_amount);
+  const discountSteps = hasDiscount ? getQuotationDiscountBreakdown(quotation, DEFAULT_SAC_CODE).steps : [];
+  const finalAmount = getQuotationFinalAmount(quotation);
+  const taxBreakdown = quotation.tax_pricing ? parseTaxBreakdown(quotation.tax_breakdown) : null;
+  const isExpired = !!quotation.valid_until && new Date(`${quotation.valid_until}T23:59:59`) < new Date();
+  const latestResponse = shared.responses[0];
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Firm branding */}
+        <div className="flex items-center gap-4">
+          {firm.logo_url && (
+            <img src={firm.logo_url} alt={branding.firmName} className="h-14 w-14 rounded-xl object-contain bg-background border" />
+          )}
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold truncate">{branding.firmName}</h1>
+            <p className="text-sm text-muted-foreground">{branding.tagline}</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl">{quotation.title}</CardTitle>
+              <Badge variant="outline">Revision {quotation.current_revision}</Badge>
+            </div>
+            {client && <p className="text-sm text-muted-foreground">Prepared for {client.name}</p>}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+              <div className="flex items-center gap-2">
+                <Calendar01Icon className="h-4 w-4 text-primary" />
+                <span>{quotation.event_type} • {formatDate(quotation.event_date)}</span>
+              </div>
+              {quotation.venue && (
+                <div className="flex items-center gap-2">
+                  <Location01Icon className="h-4 w-4 text-primary" />
+                  <span>{quotation.venue}</span>
+                </div>
+              )}
+              {quotation.valid_until && (
+                <div className={`flex items-center gap-2 ${isExpired ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  <Alert02Icon className="h-4 w-4" />
+                  <span>{isExpired ? 'Expired on' : 'Valid until'} {formatDate(quotation.valid_until)}</span>
+                </div>
+              )}
+            </div>
+
+            {quotation.description && (
+              <p className="text-sm text-muted-foreground whitespace-pre-line">{quotation.description}</p>
+            )}
+
+            {days.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Coverage</h3>
+                {days.map((day, index) => (
+                  <div key={index} className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg border bg-muted/20 text-sm">
+                    <span className="font-medium">{day.name || `Day ${index + 1}`}</span>
+                    <div className="flex items-center gap-4 text-muted-foreground">
+                      <span className="flex items-center gap-1"><Camera01Icon className="h-3.5 w-3.5" />{day.photographers || 0}</span>
+                      <span className="flex items-center gap-1"><Video01Icon className="h-3.5 w-3.5" />{day.cinematographers || 0}</span>
+                      {!!day.drone && <span className="flex items-center gap-1"><DroneIcon className="h-3.5 w-3.5" />{day.drone}</span>}
+                    </div>
+                  </div>
+                ))}
+                {details.sameDayEditing && (
+                  <p className="text-xs text-muted-foreground">Includes same day editing</p>
+                )}
+              </div>
+            )}
+
+            {deliverables.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Deliverables</h3>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm">
+                  {deliverables.map(item => (
+                    <li key={item} className="flex items-center gap-2">
+                      <CheckmarkCircle02Icon className="h-3.5 w-3.5 text-primary" />
+                      {item}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {addOns.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Add-ons</h3>
+                {addOns.map((addOn, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {addOn.name}
+                      {addOn.unit && addOn.quantity ? ` × ${addOn.quantity}` : ''}
+                    </span>
+                    <span className="text-muted-foreground">{formatAmount((addOn.price || 0) * (addOn.quantity || 1))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border-t pt-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Quotation Amount</span>
+                <span>{formatAmount(quotation.amount)}</span>
+              </div>
+              {discountSteps.map(step => (
+                <div key={step.ruleId} className="flex justify-between text-green-600">
+                  <span>{step.label}</span>
+                  <span>{step.amount < 0 ? '+' : '−'}{formatAmount(Math.abs(step.amount))}</span>
+                </div>
+              ))}
+              {taxBreakdown && (taxBreakdown.interState ? (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">IGST{taxBreakdown.pricing === 'inclusive' ? ' (included)' : ''}</span>
+                  <span>{formatAmount(taxBreakdown.igst)}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">CGST{taxBreakdown.pricing === 'inclusive' ? ' (included)' : ''}</span>
+                    <span>{formatAmount(taxBreakdown.cgst)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">SGST{taxBreakdown.pricing === 'inclusive' ? ' (included)' : ''}</span>
+                    <span>{formatAmount(taxBreakdown.sgst)}</span>
+                  </div>
+                </>
+              ))}
+              <div className="flex justify-between text-lg font-bold pt-1">
+                <span>Total</span>
+                <span>{formatAmount(finalAmount)}</span>
+              </div>
+              {taxBreakdown && (
+                <p className="text-xs text-muted-foreground text-right">
+                  Taxable value {formatAmount(taxBreakdown.taxableValue)}
+                  {firm.gstin ? ` • GSTIN ${firm.gstin}` : ''}
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Client response */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Your Response</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {latestResponse && (
+              <div className="p-3 rounded-lg bg-muted/40 text-sm space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={latestResponse.response === 'rejected' ? 'destructive' : 'secondary'}>
+                    {CLIENT_RESPONSE_LABELS[latestResponse.response]}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{formatDate(latestResponse.created_at)}</span>
+                </div>
+                {latestResponse.comment && <p className="text-muted-foreground whitespace-pre-line">{latestResponse.comment}</p>}
+              </div>
+            )}
+
+            {quotation.is_converted ? (
+              <div className="flex items-center gap-2 text-sm text-green-700">
+                <CheckmarkCircle02Icon className="h-5 w-5" />
+                Your booking is confirmed. {branding.firmName} will be in touch with the next steps.
+              </div>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="responder-name">Your Name</Label>
+                  <Input
+                    id="responder-name"
+                    value={responderName}
+                    onChange={(e) => setResponderName(e.target.value)}
+                    placeholder="Name"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="response-comment">Comments</Label>
+                  <Textarea
+                    id="response-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Anything you would like us to know or change"
+                    className="min-h-[90px]"
+                  />
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {RESPONSE_ACTIONS.map(({ response, label, icon: IconComponent, variant }) => (
+                    <Button
+                      key={response}
+                      variant={variant}
+                      className="flex-1"
+                      onClick={() => handleRespond(response)}
+                      disabled={!!submitting || (response === 'accepted' && isExpired)}
+                    >
+                      {submitting === response ? (
+                        <Loading03Icon className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <IconComponent className="h-4 w-4 mr-2" />
+                      )}
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                {isExpired && (
+                  <p className="text-xs text-muted-foreground">
+                    This quotation has expired. You can still request changes and we will send an updated one.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="text-center text-xs text-muted-foreground space-y-1">
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <span className="flex items-center gap-1"><Call02Icon className="h-3.5 w-3.5" />{branding.contactPhone}</span>
+            <span className="flex items-center gap-1"><Mail01Icon className="h-3.5 w-3.5" />{branding.contactEmail}</span>
+          </div>
+          <p>{branding.signature}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotationPortalView;
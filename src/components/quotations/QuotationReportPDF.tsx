@@ -4,6 +4,7 @@ import { formatDate } from '@/lib/date-utils';
 import { SharedPDFHeader, SharedPDFFooter, SimpleTable, sharedStyles } from '@/components/pdf/SharedPDFLayout';
 import { supabase } from '@/integrations/supabase/client';
 import { applyUniversalFilter } from '@/components/common/UniversalExportFilterLogic';
+import { parseEventTypeFilterKey } from '@/lib/event-type-utils';
 
 interface QuotationReportProps {
   quotations: any[];
@@ -51,6 +52,8 @@ const QuotationReportDocument: React.FC<QuotationReportProps> = ({ quotations, f
         'maternity': 'Maternity Quotations',
         'others': 'Other Event Quotations'
       };
+      const catalogueEventType = parseEventTypeFilterKey(filterValue);
+      if (catalogueEventType !== null) return `${catalogueEventType} Quotations`;
       return typeLabels[filterValue] || `Type: ${filterValue}`;
     }
     
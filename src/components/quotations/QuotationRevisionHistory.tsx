@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UnifiedDialog } from '@/components/ui/unified-dialog';
+import { WorkHistoryIcon, GitCompareIcon, ArrowTurnBackwardIcon, Download01Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { QuotationRevision } from '@/types/studio';
+import {
+  diffQuotationRevisions,
+  fetchQuotationRevisions,
+  formatRevisionDate,
+  restoreQuotationRevision
+} from '@/lib/quotation-revision-utils';
+
+interface QuotationRevisionHistoryProps {
+  quotationId: string;
+  currentRevision: number;
+  readOnly?: boolean;
+  onRestored: () => void;
+  onDownloadRevision: (revision: QuotationRevision) => void;
+}
+
+/**
+ * Revision list for a quotation with a side-by-side comparison of any two revisions.
+ * Restoring copies the chosen revision onto the quotation as a new revision.
+ */
+const QuotationRevisionHistory = ({
+  quotationId,
+  currentRevision,
+  readOnly,
+  onRestored,
+  onDownloadRevision
+}: QuotationRevisionHistoryProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<QuotationRevision[]>([]);
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>('');
+  const [revisionToRestore, setRevisionToRestore] = useState<QuotationRevision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const result = await fetchQuotationRevisions(quotationId);
+      setRevisions(result);
+      // Default comparison: previous revision against the latest
+      setCompareId(result[0]?.id || '');
+      setBaseId(result[1]?.id || result[0]?.id || '');
+    } catch (error) {
+      toast({
+        title: "Error loading revisions",
+        description: error instanceof Error ? error.message : 'Failed to load revision history',
+        variant: "destructive",
+      });
+    }
+  }, [quotationId, toast]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, currentRevision]);
+
+  const base = revisions.find(revision => revision.id === baseId);
+  const compare = revisions.find(revision => revision.id === compareId);
+
+  const diffRows = useMemo(
+    () => (base && compare && base.id !== compare.id ? diffQuotationRevisions(base, compare) : []),
+    [base, compare]
+  );
+  const changedRows = diffRows.filter(row => row.changed);
+
+  const handleRestore = async () => {
+    if (!revisionToRestore) return;
+    setRestoring(true);
+    try {
+      const newRevision = await restoreQuotationRevision(revisionToRestore.id);
+      toast({
+        title: "Revision restored",
+        description: `Revision ${revisionToRestore.revision_number} was saved as revision ${newRevision}.`,
+      });
+      setRevisionToRestore(null);
+      onRestored();
+    } catch (error) {
+      toast({
+        title: "Error restoring revision",
+        description: error instanceof Error ? error.message : 'Failed to restore the revision',
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (revisions.length === 0) return null;
+
+  const revisionOptions = revisions.map(revision => (
+    <SelectItem key={revision.id} value={revision.id}>
+      Revision {revision.revision_number} • {formatRevisionDate(revision.created_at)}
+    </SelectItem>
+  ));
+
+  return (
+    <div className="bg-muted/20 border border-border rounded-lg p-3 sm:p-4 space-y-3 sm:space-y-4">
+      <h3 className="text-xs sm:text-sm font-semibold text-foreground flex items-center gap-2">
+        <WorkHistoryIcon className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
+        Revisions ({revisions.length})
+      </h3>
+
+      <div className="space-y-2">
+        {revisions.map(revision => (
+          <div key={revision.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-2 rounded border border-border text-xs sm:text-sm">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Revision {revision.revision_number}</span>
+                {revision.revision_number === currentRevision && (
+                  <Badge variant="secondary" className="text-xs">Current</Badge>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {formatRevisionDate(revision.created_at)}
+                {revision.created_by_name ? ` • ${revision.created_by_name}` : ''}
+                {revision.note ? ` • ${revision.note}` : ''}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className="font-medium">₹{Number(revision.amount).toLocaleString('en-IN')}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onDownloadRevision(revision)}
+                aria-label={`Download revision ${revision.revision_number}`}
+              >
+                <Download01Icon className="h-3 w-3" />
+              </Button>
+              {!readOnly && revision.revision_number !== currentRevision && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => setRevisionToRestore(revision)}
+                >
+                  <ArrowTurnBackwardIcon className="h-3 w-3" />
+                  Restore
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-3">
+          <div className="text-xs font-medium text-muted-foreground flex items-center gap-2">
+            <GitCompareIcon className="h-3 w-3" />
+            Compare
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={baseId} onValueChange={setBaseId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{revisionOptions}</SelectContent>
+            </Select>
+            <Select value={compareId} onValueChange={setCompareId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{revisionOptions}</SelectContent>
+            </Select>
+          </div>
+
+          {base && compare && base.id === compare.id ? (
+            <p className="text-xs text-muted-foreground">Pick two different revisions to compare.</p>
+          ) : changedRows.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No differences between these revisions.</p>
+          ) : (
+            <div className="rounded border border-border overflow-hidden text-xs">
+              {changedRows.map((row, index) => (
+                <div key={`${row.section}-${row.label}-${index}`} className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.3fr)_minmax(0,1.3fr)] gap-2 p-2 border-b border-border last:border-b-0">
+                  <div className="min-w-0">
+                    <div className="font-medium break-words">{row.label}</div>
+                    <div className="text-muted-foreground">{row.section}</div>
+                  </div>
+                  <div className="break-words text-destructive/80 bg-destructive/5 rounded px-1.5 py-0.5">{row.before}</div>
+                  <div className="break-words text-green-600 bg-green-500/5 rounded px-1.5 py-0.5">{row.after}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <UnifiedDialog
+        open={!!revisionToRestore}
+        onOpenChange={(open) => !open && !restoring && setRevisionToRestore(null)}
+        onConfirm={handleRestore}
+        title="Restore Revision"
+        description={revisionToRestore
+          ? `The quotation will go back to what was offered in revision ${revisionToRestore.revision_number}. This is saved as a new revision; the current one stays in the history.`
+          : ''}
+        confirmText={restoring ? "Restoring..." : "Restore"}
+        loading={restoring}
+      />
+    </div>
+  );
+};
+
+export default QuotationRevisionHistory;
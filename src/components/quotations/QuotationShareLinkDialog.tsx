@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { UnifiedDialog } from '@/components/ui/unified-dialog';
+import { Copy01Icon, Link01Icon, Loading03Icon, ViewIcon, WhatsappIcon, Cancel01Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { Quotation, QuotationResponse, QuotationShareLink } from '@/types/studio';
+import {
+  CLIENT_RESPONSE_LABELS,
+  buildQuotationShareMessage,
+  createQuotationShareLink,
+  fetchQuotationResponses,
+  fetchQuotationShareLinks,
+  getQuotationShareUrl,
+  getWhatsAppShareUrl,
+  isShareLinkActive,
+  revokeQuotationShareLink
+} from '@/lib/quotation-share-utils';
+
+interface QuotationShareLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quotation: Quotation;
+  onUpdate?: () => void;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Client links for a quotation: create and revoke tokenized portal links and review
+ * the responses clients sent through them
+ */
+const QuotationShareLinkDialog = ({ open, onOpenChange, quotation, onUpdate }: QuotationShareLinkDialogProps) => {
+  const { toast } = useToast();
+  const { profile, currentFirm } = useAuth();
+  const [links, setLinks] = useState<QuotationShareLink[]>([]);
+  const [responses, setResponses] = useState<QuotationResponse[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [autoConvert, setAutoConvert] = useState(false);
+  const [expiresOn, setExpiresOn] = useState(quotation.valid_until || '');
+  const [linkToRevoke, setLinkToRevoke] = useState<QuotationShareLink | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  const isConverted = !!quotation.converted_to_event;
+
+  const loadLinks = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [linkRows, responseRows] = await Promise.all([
+        fetchQuotationShareLinks(quotation.id),
+        fetchQuotationResponses(quotation.id)
+      ]);
+      setLinks(linkRows);
+      setResponses(responseRows);
+    } catch (error) {
+      toast({
+        title: "Error loading client links",
+        description: error instanceof Error ? error.message : 'Failed to load client links',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [quotation.id, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadLinks();
+      setExpiresOn(quotation.valid_until || '');
+    }
+  }, [open, loadLinks, quotation.valid_until]);
+
+  const handleCreate = async () => {
+    if (!quotation.firm_id) return;
+    setCreating(true);
+    try {
+      const link = await createQuotationShareLink({
+        quotationId: quotation.id,
+        firmId: quotation.firm_id,
+        profileId: profile?.id,
+        autoConvert,
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null
+      });
+      setLinks(prev => [link, ...prev]);
+      await navigator.clipboard.writeText(getQuotationShareUrl(link.token)).catch(() => undefined);
+      toast({
+        title: "Client link created",
+        description: "The link has been copied to your clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error creating link",
+        description: error instanceof Error ? error.message : 'Failed to create client link',
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: QuotationShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getQuotationShareUrl(link.token));
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Could not copy link",
+        description: getQuotationShareUrl(link.token),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleWhatsApp = (link: QuotationShareLink) => {
+    const message = buildQuotationShareMessage({
+      clientName: quotation.client?.name || 'Client',
+      eventType: quotation.event_type,
+      firmName: currentFirm?.name || 'our studio',
+      url: getQuotationShareUrl(link.token)
+    });
+    window.open(getWhatsAppShareUrl(message, quotation.client?.phone), '_blank', 'noopener,noreferrer');
+  };
+
+  const handleRevoke = async () => {
+    if (!linkToRevoke) return;
+    setRevoking(true);
+    try {
+      await revokeQuotationShareLink(linkToRevoke.id);
+      setLinks(prev => prev.map(link =>
+        link.id === linkToRevoke.id ? { ...link, revoked_at: new Date().toISOString() } : link
+      ));
+      toast({
+        title: "Link revoked",
+        description: "The client can no longer open this link.",
+      });
+      setLinkToRevoke(null);
+    } catch (error) {
+      toast({
+        title: "Error revoking link",
+        description: error instanceof Error ? error.message : 'Failed to revoke link',
+        variant: "destructive",
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const linkStatus = (link: QuotationShareLink) => {
+    if (link.revoked_at) return { label: 'Revoked', variant: 'outline' as const };
+    if (!isShareLinkActive(link)) return { label: 'Expired', variant: 'outline' as const };
+    return { label: 'Active', variant: 'secondary' as const };
+  };
+
+  return (
+    <>
+      <Dialog
+        open={open}
+        onOpenChange={(nextOpen) => {
+          onOpenChange(nextOpen);
+          // Responses may have converted or updated the quotation meanwhile
+          if (!nextOpen) onUpdate?.();
+        }}
+      >
+        <DialogContent className="sm:max-w-[600px] max-h-[calc(100vh-6rem)] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Client Link</DialogTitle>
+            <DialogDescription>
+              Share a link where the client can view this quotation and accept, decline or request changes without logging in.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            {!isConverted && (
+              <div className="space-y-3 p-4 border rounded-xl bg-muted/20">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <Label className="text-sm">Create event on acceptance</Label>
+                    <p className="text-xs text-muted-foreground">Converts the quotation to a confirmed event as soon as the client accepts</p>
+                  </div>
+                  <Switch checked={autoConvert} onCheckedChange={setAutoConvert} />
+                </div>
+                <div className="flex items-end gap-3">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor="share-link-expiry" className="text-xs text-muted-foreground">Link expires on (optional)</Label>
+                    <Input
+                      id="share-link-expiry"
+                      type="date"
+                      value={expiresOn}
+                      onChange={(e) => setExpiresOn(e.target.value)}
+                    />
+                  </div>
+                  <Button onClick={handleCreate} disabled={creating}>
+                    {creating ? (
+                      <Loading03Icon className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Link01Icon className="h-4 w-4 mr-2" />
+                    )}
+                    Create Link
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Links</h4>
+              {loading && links.length === 0 ? (
+                <div className="flex justify-center py-4">
+                  <Loading03Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : links.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No client links yet.</p>
+              ) : (
+                links.map(link => {
+                  const status = linkStatus(link);
+                  const active = status.label === 'Active';
+                  return (
+                    <div key={link.id} className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg border text-sm">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          {link.auto_convert && <Badge variant="outline">Auto-convert</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <ViewIcon className="h-3 w-3" />
+                          {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                          {link.last_viewed_at && ` • last ${formatDateTime(link.last_viewed_at)}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Created {formatDateTime(link.created_at)}
+                          {link.expires_at && ` • expires ${formatDateTime(link.expires_at)}`}
+                        </p>
+                      </div>
+                      {active && (
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleCopy(link)} aria-label="Copy link">
+                            <Copy01Icon className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleWhatsApp(link)} aria-label="Share on WhatsApp">
+                            <WhatsappIcon className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                            onClick={() => setLinkToRevoke(link)}
+                            aria-label="Revoke link"
+                          >
+                            <Cancel01Icon className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Client Responses</h4>
+              {responses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The client has not responded yet.</p>
+              ) : (
+                responses.map(response => (
+                  <div key={response.id} className="p-3 rounded-lg border text-sm space-y-1">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={response.response === 'rejected' ? 'destructive' : response.response === 'accepted' ? 'default' : 'secondary'}>
+                          {CLIENT_RESPONSE_LABELS[response.response]}
+                        </Badge>
+                        {response.responder_name && <span className="font-medium">{response.responder_name}</span>}
+                      </div>
+                      <span className="text-xs text-muted-foreground">{formatDateTime(response.created_at)}</span>
+                    </div>
+                    {response.comment && <p className="text-muted-foreground whitespace-pre-line">{response.comment}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {response.revision_number && `Revision ${response.revision_number}`}
+                      {response.ip_address && ` • IP ${response.ip_address}`}
+                      {response.converted_event_id && ' • Event created'}
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <UnifiedDialog
+        open={!!linkToRevoke}
+        onOpenChange={(nextOpen) => !nextOpen && setLinkToRevoke(null)}
+        onConfirm={handleRevoke}
+        title="Revoke client link?"
+        description="The client will no longer be able to open or respond through this link."
+        variant="destructive"
+        confirmText="Revoke"
+        loading={revoking}
+      />
+    </>
+  );
+};
+
+export default QuotationShareLinkDialog;
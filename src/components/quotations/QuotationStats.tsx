@@ -1,20 +1,8 @@
 import React from 'react';
 import StatsGrid from '@/components/ui/stats-grid';
-import { Note01Icon, HourglassIcon, AlertCircleIcon, MoneyBag02Icon } from 'hugeicons-react';
+import { Note01Icon, AlertCircleIcon, MoneyBag02Icon, PercentCircleIcon } from 'hugeicons-react';
 import { useGlobalQuotationStats } from '@/hooks/useGlobalQuotationStats';
-
-// Helper function to check if quotation is expired
-const isExpired = (validUntil: string | null) => {
-  if (!validUntil) return false;
-  const expiryDate = new Date(validUntil);
-  const today = new Date();
-  
-  // Set both dates to midnight for date-only comparison
-  expiryDate.setHours(23, 59, 59, 999);
-  today.setHours(0, 0, 0, 0);
-  
-  return expiryDate < today;
-};
+import { getQuotationConversionStats } from '@/lib/quotation-status-utils';
 
 const QuotationStats = () => {
   const { quotations, loading } = useGlobalQuotationStats();
@@ -39,34 +27,31 @@ const QuotationStats = () => {
     );
   }
 
-  const activeQuotations = quotations.filter(q => !q.converted_to_event);
-  const expiredQuotations = activeQuotations.filter(q => isExpired(q.valid_until));
-  // CRITICAL FIX: Only calculate total value from active quotations, not all quotations
-  const totalQuotationValue = activeQuotations.reduce((sum, q) => sum + (q.amount || 0), 0);
+  const pipelineStats = getQuotationConversionStats(quotations);
 
   return (
     <StatsGrid stats={[
       {
-        title: "Active Quotations",
-        value: activeQuotations.length,
+        title: "Open Quotations",
+        value: pipelineStats.open,
         icon: <Note01Icon className="h-4 w-4" />,
         colorClass: "bg-primary/20 text-primary"
       },
       {
-        title: "Pending",
-        value: activeQuotations.filter(q => !isExpired(q.valid_until)).length,
-        icon: <HourglassIcon className="h-4 w-4" />,
+        title: "Expired",
+        value: pipelineStats.expired,
+        icon: <AlertCircleIcon className="h-4 w-4" />,
         colorClass: "bg-primary/20 text-primary"
       },
       {
-        title: "Expired",
-        value: expiredQuotations.length,
-        icon: <AlertCircleIcon className="h-4 w-4" />,
+        title: "Conversion Rate",
+        value: `${pipelineStats.conversionRate}%`,
+        icon: <PercentCircleIcon className="h-4 w-4" />,
         colorClass: "bg-primary/20 text-primary"
       },
       {
-        title: "Total Value",
-        value: `₹${totalQuotationValue.toLocaleString()}`,
+        title: "Pipeline Value",
+        value: `₹${pipelineStats.openValue.toLocaleString()}`,
         icon: <MoneyBag02Icon className="h-4 w-4" />,
         colorClass: "bg-primary/20 text-primary"
       }
@@ -6,6 +6,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Quotation, Client, EventType } from '@/types/studio';
 import { useDeletionValidation } from '@/hooks/useDeletionValidation';
 import { EnhancedConfirmationDialog } from '@/components/ui/enhanced-confirmation-dialog';
+import { moveToTrash } from '@/lib/trash-utils';
 
 
 export const useQuotations = () => {
@@ -100,7 +101,7 @@ export const useQuotations = () => {
       setConfirmDialog({
         open: true,
         title: validation.title,
-        description: `You are about to permanently delete "${quotation.title}". This action cannot be undone and will permanently remove all quotation details and history.`,
+        description: `You are about to delete "${quotation.title}". It moves to Trash, where it can be restored until it is purged.`,
         variant: 'destructive',
         requireTextConfirmation: false,
         confirmationKeyword: '',
@@ -125,21 +126,14 @@ export const useQuotations = () => {
               }
             }
 
-            // STEP 2: Delete from database
-            const { error: dbError } = await supabase
-              .from('quotations')
-              .delete()
-              .eq('id', id);
-
-            if (dbError) {
-              throw dbError;
-            }
+            // STEP 2: Move to Trash
+            await moveToTrash('quotations', id);
 
             setQuotations(prev => prev.filter(quotation => quotation.id !== id));
             
             toast({
-              title: "Quotation deleted",
-              description: "Quotation has been removed successfully.",
+              title: "Quotation moved to Trash",
+              description: "Quotation can be restored from Trash.",
             });
             
             setConfirmDialog(prev => ({ ...prev, open: false, loading: false }));
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserAdd01Icon, CheckmarkCircle01Icon } from 'hugeicons-react';
+import { formatSessionDate, formatSessionTimeRange } from '@/lib/event-session-utils';
+import { ScheduleSession } from '@/lib/crew-schedule-utils';
+import { CREW_ROLES } from '@/lib/role-utils';
+
+interface CrewAssignmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  personName: string;
+  eventTitle: string;
+  dayDate: string;
+  defaultRole: string;
+  sessions: ScheduleSession[];
+  onConfirm: (role: string, sessionId: string | null) => void;
+}
+
+const FULL_DAY = 'full-day';
+
+const CrewAssignmentDialog = ({
+  open,
+  onOpenChange,
+  personName,
+  eventTitle,
+  dayDate,
+  defaultRole,
+  sessions,
+  onConfirm
+}: CrewAssignmentDialogProps) => {
+  const [role, setRole] = useState(defaultRole);
+  const [sessionId, setSessionId] = useState(FULL_DAY);
+
+  useEffect(() => {
+    if (open) {
+      setRole(defaultRole);
+      // Events split into sessions are crewed per session
+      setSessionId(sessions[0]?.id || FULL_DAY);
+    }
+  }, [open, defaultRole, sessions]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserAdd01Icon className="h-5 w-5 text-primary" />
+            Assign Crew
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Assign <span className="font-medium text-foreground">{personName}</span> to{' '}
+            <span className="font-medium text-foreground">{eventTitle}</span> on {dayDate && formatSessionDate(dayDate)}.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className="rounded-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CREW_ROLES.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {sessions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Session</Label>
+              <Select value={sessionId} onValueChange={setSessionId}>
+                <SelectTrigger className="rounded-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessions.map(session => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {session.name} • {formatSessionTimeRange(session)}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={FULL_DAY}>Full day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+              Cancel
+            </Button>
+            <Button onClick={() => onConfirm(role, sessionId === FULL_DAY ? null : sessionId)} className="min-w-[100px]">
+              <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+              Assign
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CrewAssignmentDialog;
@@ -0,0 +1,133 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PageSkeleton } from '@/components/ui/skeleton';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ArrowLeft01Icon, ArrowRight01Icon, Calendar03Icon, UserBlock01Icon } from 'hugeicons-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useCrewSchedule } from '@/hooks/useCrewSchedule';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { useStaffUnavailability } from '@/hooks/useStaffUnavailability';
+import { ScheduleView, addDays, getMonthGrid, getWeekDays, toDateString } from '@/lib/crew-schedule-utils';
+import ResourceCalendarView from './ResourceCalendarView';
+import EventCalendarView from './EventCalendarView';
+import UnavailabilityManagementDialog from './UnavailabilityManagementDialog';
+
+const CrewScheduleManagement = () => {
+  const { profile, currentFirmId } = useAuth();
+  const { eventTypes } = useFirmEventTypes();
+  const isAdmin = profile?.role === 'Admin';
+  const [view, setView] = useState<ScheduleView>(isAdmin ? 'crew' : 'month');
+  const [anchor, setAnchor] = useState(() => toDateString(new Date()));
+  const [leaveOpen, setLeaveOpen] = useState(false);
+
+  // The profile can load after the first render
+  useEffect(() => {
+    if (!isAdmin && view === 'crew') setView('month');
+  }, [isAdmin, view]);
+
+  const days = useMemo(() => view === 'month' ? getMonthGrid(anchor) : getWeekDays(anchor), [view, anchor]);
+  const { events, people, loading, refetch } = useCrewSchedule(days[0], days[days.length - 1]);
+  const { blocks: leaveBlocks, pendingCount, refetch: refetchLeave } = useStaffUnavailability();
+  const approvedLeave = useMemo(() => leaveBlocks.filter(block => block.approved), [leaveBlocks]);
+
+  const anchorDate = new Date(`${anchor}T00:00:00`);
+  const rangeLabel = view === 'month'
+    ? anchorDate.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })
+    : `${new Date(`${days[0]}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })} – ${new Date(`${days[6]}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+  const shift = (direction: 1 | -1) => {
+    if (view === 'month') {
+      setAnchor(toDateString(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + direction, 1)));
+    } else {
+      setAnchor(addDays(anchor, direction * 7));
+    }
+  };
+
+  if (loading && events.length === 0) {
+    return <PageSkeleton />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Schedule</h1>
+        <div className="flex items-center gap-2">
+          {isAdmin && (
+            <Button variant="outline" size="sm" className="rounded-full" onClick={() => setLeaveOpen(true)}>
+              <UserBlock01Icon className="h-4 w-4 mr-1" />
+              Leave
+              {pendingCount > 0 && <Badge variant="secondary" className="ml-2">{pendingCount}</Badge>}
+            </Button>
+          )}
+          <Tabs value={view} onValueChange={(value) => setView(value as ScheduleView)}>
+            <TabsList>
+              {isAdmin && <TabsTrigger value="crew">Crew</TabsTrigger>}
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="month">Month</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {/* Range navigation */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-9 w-9 rounded-full" onClick={() => shift(-1)} aria-label="Previous">
+            <ArrowLeft01Icon className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9 rounded-full" onClick={() => shift(1)} aria-label="Next">
+            <ArrowRight01Icon className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="rounded-full" onClick={() => setAnchor(toDateString(new Date()))}>
+            Today
+          </Button>
+        </div>
+        <span className="text-sm font-medium">{rangeLabel}</span>
+      </div>
+
+      {view === 'crew' && isAdmin && currentFirmId ? (
+        people.length === 0 ? (
+          <EmptyState
+            icon={Calendar03Icon}
+            title="No Crew"
+            description="Add staff or freelancers to start scheduling crew."
+          />
+        ) : (
+          <ResourceCalendarView
+            days={days}
+            events={events}
+            people={people}
+            eventTypes={eventTypes}
+            firmId={currentFirmId}
+            unavailability={approvedLeave}
+            onChanged={refetch}
+          />
+        )
+      ) : (
+        <EventCalendarView
+          mode={view === 'month' ? 'month' : 'week'}
+          days={days}
+          month={view === 'month' ? anchorDate.getMonth() : undefined}
+          events={events}
+          eventTypes={eventTypes}
+          ownAssignmentsOnly={!isAdmin}
+        />
+      )}
+
+      {isAdmin && (
+        <UnavailabilityManagementDialog
+          open={leaveOpen}
+          onOpenChange={setLeaveOpen}
+          blocks={leaveBlocks}
+          people={people}
+          onChanged={refetchLeave}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CrewScheduleManagement;
@@ -0,0 +1,150 @@
+import { useMemo } from 'react';
+import { Clock01Icon, Location01Icon } from 'hugeicons-react';
+import { getEventTypeBadgeStyle, getEventTypeColor } from '@/lib/event-type-utils';
+import { formatSessionTimeRange, sortSessions } from '@/lib/event-session-utils';
+import {
+  ScheduleAssignment,
+  ScheduleEvent,
+  ScheduleSession,
+  getAssignmentDate,
+  getEventDays,
+  toDateString
+} from '@/lib/crew-schedule-utils';
+import { FirmEventType } from '@/types/studio';
+import { cn } from '@/lib/utils';
+
+interface EventCalendarViewProps {
+  mode: 'month' | 'week';
+  days: string[];
+  // Month being shown, used to fade the padding days of the month grid
+  month?: number;
+  events: ScheduleEvent[];
+  eventTypes: FirmEventType[];
+  // Only show the days the viewer is assigned to (non-admin staff)
+  ownAssignmentsOnly?: boolean;
+}
+
+interface DayEntry {
+  event: ScheduleEvent;
+  sessions: ScheduleSession[];
+  assignments: ScheduleAssignment[];
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MONTH_CELL_LIMIT = 3;
+
+const EventCalendarView = ({ mode, days, month, events, eventTypes, ownAssignmentsOnly = false }: EventCalendarViewProps) => {
+  const today = toDateString(new Date());
+
+  const entriesByDay = useMemo(() => {
+    const map = new Map<string, DayEntry[]>();
+    for (const event of events) {
+      const eventDays = ownAssignmentsOnly
+        ? Array.from(new Set(event.event_staff_assignments.map(a => getAssignmentDate(a, event))))
+        : getEventDays(event);
+
+      for (const day of eventDays) {
+        map.set(day, [...(map.get(day) || []), {
+          event,
+          sessions: sortSessions(event.event_sessions.filter(s => s.session_date === day)),
+          assignments: event.event_staff_assignments.filter(a => getAssignmentDate(a, event) === day)
+        }]);
+      }
+    }
+    return map;
+  }, [events, ownAssignmentsOnly]);
+
+  const chipStyle = (event: ScheduleEvent) => getEventTypeBadgeStyle(getEventTypeColor(eventTypes, event.event_type));
+
+  const describeCrew = (entry: DayEntry) => {
+    if (ownAssignmentsOnly) {
+      return Array.from(new Set(entry.assignments.map(a => a.role))).join(', ');
+    }
+    return `${entry.assignments.length} crew`;
+  };
+
+  if (mode === 'month') {
+    return (
+      <div className="border rounded-xl overflow-hidden">
+        <div className="grid grid-cols-7 bg-muted/50 border-b">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="p-2 text-center text-xs font-medium text-muted-foreground">{day}</div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const date = new Date(`${day}T00:00:00`);
+            const entries = entriesByDay.get(day) || [];
+            return (
+              <div
+                key={day}
+                className={cn(
+                  'min-h-[96px] border-b border-r p-1.5 space-y-1',
+                  month !== undefined && date.getMonth() !== month && 'bg-muted/30 text-muted-foreground',
+                  day === today && 'bg-primary/5'
+                )}
+              >
+                <div className={cn('text-xs font-medium', day === today && 'text-primary')}>{date.getDate()}</div>
+                {entries.slice(0, MONTH_CELL_LIMIT).map(entry => (
+                  <div
+                    key={entry.event.id}
+                    className="rounded-md border px-1.5 py-0.5 text-xs truncate"
+                    style={chipStyle(entry.event)}
+                    title={[entry.event.title, entry.event.event_type, describeCrew(entry)].join(' • ')}
+                  >
+                    {entry.event.title}
+                  </div>
+                ))}
+                {entries.length > MONTH_CELL_LIMIT && (
+                  <div className="text-xs text-muted-foreground">+{entries.length - MONTH_CELL_LIMIT} more</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+      {days.map(day => {
+        const date = new Date(`${day}T00:00:00`);
+        const entries = entriesByDay.get(day) || [];
+        return (
+          <div key={day} className={cn('border rounded-xl p-2 space-y-2 min-h-[160px]', day === today && 'border-primary')}>
+            <div className="text-center">
+              <div className="text-xs text-muted-foreground">{date.toLocaleDateString('en-IN', { weekday: 'short' })}</div>
+              <div className={cn('text-sm font-medium', day === today && 'text-primary')}>
+                {date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+              </div>
+            </div>
+            {entries.length === 0 && (
+              <p className="text-xs text-muted-foreground text-center">No events</p>
+            )}
+            {entries.map(entry => (
+              <div key={entry.event.id} className="rounded-lg border p-2 text-xs space-y-1" style={chipStyle(entry.event)}>
+                <div className="font-medium">{entry.event.title}</div>
+                <div className="opacity-80">{entry.event.event_type} • {describeCrew(entry)}</div>
+                {entry.event.venue && (
+                  <div className="flex items-center gap-1 opacity-80">
+                    <Location01Icon className="h-3 w-3 shrink-0" />
+                    <span className="truncate">{entry.event.venue}</span>
+                  </div>
+                )}
+                {entry.sessions.map(session => (
+                  <div key={session.id} className="flex items-center gap-1 opacity-80">
+                    <Clock01Icon className="h-3 w-3 shrink-0" />
+                    <span className="truncate">{session.name} • {formatSessionTimeRange(session)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EventCalendarView;
@@ -0,0 +1,416 @@
+import { useState, useMemo } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { StaffAssignmentConflictDialog } from '@/components/ui/staff-assignment-conflict-dialog';
+import { ConflictingEventDetail, getPersonConflictDetails } from '@/lib/staff-availability-utils';
+import { getEventTypeBadgeStyle, getEventTypeColor } from '@/lib/event-type-utils';
+import { formatSessionTimeRange } from '@/lib/event-session-utils';
+import {
+  SCHEDULE_DRAG_TYPE,
+  ScheduleAssignment,
+  ScheduleDragItem,
+  ScheduleEvent,
+  SchedulePerson,
+  createCrewAssignment,
+  getAssignmentDate,
+  getDefaultCrewRole,
+  getEventDays,
+  getPersonId,
+  moveCrewAssignment,
+  toDateString
+} from '@/lib/crew-schedule-utils';
+import { coversDate, getUnavailabilityPersonId } from '@/lib/staff-unavailability-utils';
+import { FirmEventType, StaffUnavailability } from '@/types/studio';
+import { cn } from '@/lib/utils';
+import CrewAssignmentDialog from './CrewAssignmentDialog';
+
+interface ResourceCalendarViewProps {
+  days: string[];
+  events: ScheduleEvent[];
+  people: SchedulePerson[];
+  eventTypes: FirmEventType[];
+  firmId: string;
+  // Approved leave shown in the person rows
+  unavailability?: StaffUnavailability[];
+  onChanged: () => void;
+}
+
+interface PendingAssignment {
+  event: ScheduleEvent;
+  dayDate: string;
+  person: SchedulePerson;
+}
+
+interface ConflictPrompt {
+  person: SchedulePerson;
+  role: string;
+  conflictingEvents: ConflictingEventDetail[];
+  onConfirm: () => void;
+}
+
+const readDragItem = (e: React.DragEvent): ScheduleDragItem | null => {
+  try {
+    const raw = e.dataTransfer.getData(SCHEDULE_DRAG_TYPE);
+    return raw ? JSON.parse(raw) as ScheduleDragItem : null;
+  } catch {
+    return null;
+  }
+};
+
+const startDrag = (e: React.DragEvent, item: ScheduleDragItem) => {
+  e.dataTransfer.setData(SCHEDULE_DRAG_TYPE, JSON.stringify(item));
+  e.dataTransfer.effectAllowed = item.kind === 'assignment' ? 'move' : 'copy';
+};
+
+const ResourceCalendarView = ({
+  days,
+  events,
+  people,
+  eventTypes,
+  firmId,
+  unavailability = [],
+  onChanged
+}: ResourceCalendarViewProps) => {
+  const { toast } = useToast();
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAssignment | null>(null);
+  const [conflictPrompt, setConflictPrompt] = useState<ConflictPrompt | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const today = toDateString(new Date());
+  const peopleById = useMemo(() => new Map(people.map(person => [person.id, person])), [people]);
+
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, ScheduleEvent[]>();
+    for (const event of events) {
+      for (const day of getEventDays(event)) {
+        map.set(day, [...(map.get(day) || []), event]);
+      }
+    }
+    return map;
+  }, [events]);
+
+  // "personId|date" -> assignments, with the event each belongs to
+  const assignmentsByCell = useMemo(() => {
+    const map = new Map<string, { assignment: ScheduleAssignment; event: ScheduleEvent }[]>();
+    for (const event of events) {
+      for (const assignment of event.event_staff_assignments) {
+        const key = `${getPersonId(assignment)}|${getAssignmentDate(assignment, event)}`;
+        map.set(key, [...(map.get(key) || []), { assignment, event }]);
+      }
+    }
+    return map;
+  }, [events]);
+
+  const pendingSessions = useMemo(
+    () => pending ? pending.event.event_sessions.filter(s => s.session_date === pending.dayDate) : [],
+    [pending]
+  );
+
+  const findAssignment = (assignmentId: string) => {
+    for (const event of events) {
+      const assignment = event.event_staff_assignments.find(a => a.id === assignmentId);
+      if (assignment) return { assignment, event };
+    }
+    return null;
+  };
+
+  const queueSync = (eventId: string) => {
+    import('@/services/syncCoordinator').then(({ syncEvent }) => {
+      syncEvent(eventId, firmId, 'update', 'crew-schedule');
+    });
+  };
+
+  /**
+   * Check the person's other bookings first; overlapping bookings need confirmation
+   */
+  const withConflictCheck = async (
+    person: SchedulePerson,
+    role: string,
+    event: ScheduleEvent,
+    dayDate: string,
+    sessionId: string | null,
+    save: () => Promise<void>
+  ) => {
+    const session = event.event_sessions.find(s => s.id === sessionId);
+    const { hasConflict, conflictingEvents } = await getPersonConflictDetails(
+      person.id,
+      { startDate: dayDate, endDate: dayDate },
+      undefined,
+      firmId,
+      undefined,
+      session
+        ? { date: session.session_date, startTime: session.start_time, endTime: session.end_time, venue: session.venue || event.venue }
+        : undefined
+    );
+
+    if (hasConflict) {
+      setConflictPrompt({ person, role, conflictingEvents, onConfirm: save });
+      return;
+    }
+
+    await save();
+  };
+
+  const runSave = async (save: () => Promise<void>, successTitle: string, eventId: string) => {
+    setSaving(true);
+    try {
+      await save();
+      toast({ title: successTitle });
+      queueSync(eventId);
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error updating crew",
+        description: error instanceof Error ? error.message : 'Failed to save the assignment',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssignConfirm = async (role: string, sessionId: string | null) => {
+    if (!pending) return;
+    const { event, dayDate, person } = pending;
+    setPending(null);
+
+    const save = () => runSave(
+      () => createCrewAssignment({ firmId, event, dayDate, person, role, sessionId }),
+      `${person.full_name} assigned to ${event.title}`,
+      event.id
+    );
+
+    await withConflictCheck(person, role, event, dayDate, sessionId, save);
+  };
+
+  const handleMove = async (assignmentId: string, person: SchedulePerson, dayDate: string) => {
+    const found = findAssignment(assignmentId);
+    if (!found) return;
+    const { assignment, event } = found;
+
+    if (getPersonId(assignment) === person.id && getAssignmentDate(assignment, event) === dayDate) return;
+
+    if (!getEventDays(event).includes(dayDate)) {
+      toast({
+        title: "Outside the event dates",
+        description: `${event.title} does not run on this day`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const save = () => runSave(
+      () => moveCrewAssignment({ assignment, event, dayDate, person }),
+      `${assignment.role} moved to ${person.full_name}`,
+      event.id
+    );
+
+    const keepsSession = event.event_sessions.some(s => s.id === assignment.session_id && s.session_date === dayDate);
+    await withConflictCheck(person, assignment.role, event, dayDate, keepsSession ? assignment.session_id : null, save);
+  };
+
+  const requestAssignment = (event: ScheduleEvent, dayDate: string, person: SchedulePerson) => {
+    if (!getEventDays(event).includes(dayDate)) {
+      toast({
+        title: "Outside the event dates",
+        description: `${event.title} does not run on this day`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setPending({ event, dayDate, person });
+  };
+
+  const handlePersonCellDrop = (e: React.DragEvent, person: SchedulePerson, dayDate: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const item = readDragItem(e);
+    if (!item || saving) return;
+
+    if (item.kind === 'event') {
+      const event = events.find(ev => ev.id === item.eventId);
+      if (event) requestAssignment(event, dayDate, person);
+    } else if (item.kind === 'assignment') {
+      handleMove(item.assignmentId, person, dayDate);
+    }
+  };
+
+  const handleEventChipDrop = (e: React.DragEvent, event: ScheduleEvent, dayDate: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    const item = readDragItem(e);
+    if (!item || saving || item.kind !== 'person') return;
+
+    const person = peopleById.get(item.personId);
+    if (person) requestAssignment(event, dayDate, person);
+  };
+
+  const allowDrop = (e: React.DragEvent, key: string) => {
+    e.preventDefault();
+    if (dropTarget !== key) setDropTarget(key);
+  };
+
+  const eventChipStyle = (event: ScheduleEvent) => getEventTypeBadgeStyle(getEventTypeColor(eventTypes, event.event_type));
+
+  const formatDayHeader = (day: string) => {
+    const date = new Date(`${day}T00:00:00`);
+    return {
+      weekday: date.toLocaleDateString('en-IN', { weekday: 'short' }),
+      date: date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+    };
+  };
+
+  const gridStyle = { gridTemplateColumns: `180px repeat(${days.length}, minmax(130px, 1fr))` };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Drag a person onto an event, or an event onto a person's day, to assign crew. Drag an assignment to move it to someone else or another day of the event.
+      </p>
+
+      <div className="border rounded-xl overflow-x-auto">
+        <div className="grid min-w-max" style={gridStyle}>
+          {/* Day headers */}
+          <div className="sticky left-0 z-10 bg-muted/50 border-b border-r p-2 text-xs font-medium text-muted-foreground">
+            Crew
+          </div>
+          {days.map(day => {
+            const header = formatDayHeader(day);
+            return (
+              <div
+                key={day}
+                className={cn('border-b border-r p-2 text-center bg-muted/50', day === today && 'bg-primary/10')}
+              >
+                <div className="text-xs text-muted-foreground">{header.weekday}</div>
+                <div className="text-sm font-medium">{header.date}</div>
+              </div>
+            );
+          })}
+
+          {/* Events lane */}
+          <div className="sticky left-0 z-10 bg-background border-b border-r p-2 text-xs font-medium text-muted-foreground">
+            Events
+          </div>
+          {days.map(day => (
+            <div key={day} className="border-b border-r p-1.5 space-y-1 min-h-[56px]">
+              {(eventsByDay.get(day) || []).map(event => {
+                const key = `event|${event.id}|${day}`;
+                const crewCount = event.event_staff_assignments.filter(a => getAssignmentDate(a, event) === day).length;
+                return (
+                  <div
+                    key={event.id}
+                    draggable
+                    onDragStart={(e) => startDrag(e, { kind: 'event', eventId: event.id })}
+                    onDragOver={(e) => allowDrop(e, key)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => handleEventChipDrop(e, event, day)}
+                    className={cn(
+                      'rounded-md border px-2 py-1 text-xs cursor-grab active:cursor-grabbing',
+                      dropTarget === key && 'ring-2 ring-primary'
+                    )}
+                    style={eventChipStyle(event)}
+                    title={[event.title, event.client?.name, event.venue].filter(Boolean).join(' • ')}
+                  >
+                    <div className="font-medium truncate">{event.title}</div>
+                    <div className="opacity-80">{crewCount} crew</div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {/* People */}
+          {people.map(person => (
+            <div key={person.id} className="contents">
+              <div
+                draggable
+                onDragStart={(e) => startDrag(e, { kind: 'person', personId: person.id })}
+                className="sticky left-0 z-10 bg-background border-b border-r p-2 cursor-grab active:cursor-grabbing"
+              >
+                <div className="text-sm font-medium truncate">{person.full_name}</div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <span className="truncate">{person.role || 'Other'}</span>
+                  {person.is_freelancer && (
+                    <Badge variant="outline" className="h-4 px-1 text-[10px]">Freelancer</Badge>
+                  )}
+                </div>
+              </div>
+              {days.map(day => {
+                const key = `${person.id}|${day}`;
+                const cellAssignments = assignmentsByCell.get(key) || [];
+                const leave = unavailability.find(block => getUnavailabilityPersonId(block) === person.id && coversDate(block, day));
+                return (
+                  <div
+                    key={day}
+                    onDragOver={(e) => allowDrop(e, key)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => handlePersonCellDrop(e, person, day)}
+                    className={cn(
+                      'border-b border-r p-1 space-y-1 min-h-[48px]',
+                      day === today && 'bg-primary/5',
+                      leave && 'bg-destructive/5',
+                      dropTarget === key && 'bg-primary/10 ring-2 ring-inset ring-primary'
+                    )}
+                  >
+                    {leave && (
+                      <div className="rounded-md border border-destructive/30 px-2 py-1 text-xs text-destructive truncate" title={leave.reason || undefined}>
+                        On leave
+                      </div>
+                    )}
+                    {cellAssignments.map(({ assignment, event }) => {
+                      const session = event.event_sessions.find(s => s.id === assignment.session_id);
+                      return (
+                        <div
+                          key={assignment.id}
+                          draggable
+                          onDragStart={(e) => startDrag(e, { kind: 'assignment', assignmentId: assignment.id })}
+                          className="rounded-md border px-2 py-1 text-xs cursor-grab active:cursor-grabbing"
+                          style={eventChipStyle(event)}
+                          title={[event.title, assignment.role, session?.name].filter(Boolean).join(' • ')}
+                        >
+                          <div className="font-medium truncate">{event.title}</div>
+                          <div className="opacity-80 truncate">
+                            {assignment.role}{session ? ` • ${session.name} ${formatSessionTimeRange(session)}` : ''}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <CrewAssignmentDialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+        personName={pending?.person.full_name || ''}
+        eventTitle={pending?.event.title || ''}
+        dayDate={pending?.dayDate || ''}
+        defaultRole={getDefaultCrewRole(pending?.person.role)}
+        sessions={pendingSessions}
+        onConfirm={handleAssignConfirm}
+      />
+
+      <StaffAssignmentConflictDialog
+        open={!!conflictPrompt}
+        onOpenChange={(open) => !open && setConflictPrompt(null)}
+        staffName={conflictPrompt?.person.full_name || ''}
+        role={conflictPrompt?.role || ''}
+        conflictingEvents={conflictPrompt?.conflictingEvents || []}
+        onConfirm={() => {
+          const prompt = conflictPrompt;
+          setConflictPrompt(null);
+          prompt?.onConfirm();
+        }}
+        onCancel={() => setConflictPrompt(null)}
+      />
+    </div>
+  );
+};
+
+export default ResourceCalendarView;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Calendar03Icon, Add01Icon, CheckmarkCircle01Icon, Cancel01Icon, Delete02Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { StaffUnavailability } from '@/types/studio';
+import {
+  approveUnavailability,
+  deleteUnavailability,
+  getUnavailabilityPersonName
+} from '@/lib/staff-unavailability-utils';
+import { formatSessionDate } from '@/lib/event-session-utils';
+import { SchedulePerson, toDateString } from '@/lib/crew-schedule-utils';
+import UnavailabilityRequestDialog from '@/components/staff/UnavailabilityRequestDialog';
+
+interface UnavailabilityManagementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  blocks: StaffUnavailability[];
+  people: SchedulePerson[];
+  onChanged: () => void;
+}
+
+const formatRange = (block: StaffUnavailability) =>
+  block.end_date === block.start_date
+    ? formatSessionDate(block.start_date)
+    : `${formatSessionDate(block.start_date)} – ${formatSessionDate(block.end_date)}`;
+
+/**
+ * Admin review of leave requests and approved unavailability blocks
+ */
+const UnavailabilityManagementDialog = ({ open, onOpenChange, blocks, people, onChanged }: UnavailabilityManagementDialogProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [addOpen, setAddOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const approverId = profile?.id;
+  const today = toDateString(new Date());
+  const pending = blocks.filter(block => !block.approved);
+  const approved = blocks.filter(block => block.approved && block.end_date >= today);
+
+  const runAction = async (id: string, action: () => Promise<void>, successTitle: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast({ title: successTitle });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error updating leave",
+        description: error instanceof Error ? error.message : 'Failed to update the request',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderBlock = (block: StaffUnavailability, actions: React.ReactNode) => (
+    <div key={block.id} className="p-3 border rounded-xl flex items-center justify-between gap-2">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{getUnavailabilityPersonName(block)}</p>
+        <p className="text-xs text-muted-foreground">{formatRange(block)}</p>
+        {block.reason && <p className="text-xs text-muted-foreground truncate">{block.reason}</p>}
+      </div>
+      <div className="flex items-center gap-1 shrink-0">{actions}</div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calendar03Icon className="h-5 w-5 text-primary" />
+            Leave & Unavailability
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold flex items-center gap-2">
+              Pending Requests <Badge variant="secondary">{pending.length}</Badge>
+            </h4>
+            <Button size="sm" variant="outline" className="rounded-full" onClick={() => setAddOpen(true)}>
+              <Add01Icon className="h-4 w-4 mr-1" />
+              Add Block
+            </Button>
+          </div>
+
+          {pending.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No pending requests</p>
+          ) : (
+            <div className="space-y-2">
+              {pending.map(block => renderBlock(block, (
+                <>
+                  <Button
+                    size="sm"
+                    className="rounded-full"
+                    disabled={busyId === block.id || !approverId}
+                    onClick={() => approverId && runAction(block.id, () => approveUnavailability(block.id, approverId), 'Leave approved')}
+                  >
+                    <CheckmarkCircle01Icon className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    disabled={busyId === block.id}
+                    onClick={() => runAction(block.id, () => deleteUnavailability(block.id), 'Leave request rejected')}
+                    aria-label="Reject request"
+                  >
+                    <Cancel01Icon className="h-4 w-4" />
+                  </Button>
+                </>
+              )))}
+            </div>
+          )}
+
+          <Separator />
+
+          <h4 className="text-sm font-semibold">Upcoming Approved</h4>
+          {approved.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No upcoming leave</p>
+          ) : (
+            <div className="space-y-2">
+              {approved.map(block => renderBlock(block, (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  disabled={busyId === block.id}
+                  onClick={() => runAction(block.id, () => deleteUnavailability(block.id), 'Unavailability removed')}
+                  aria-label="Remove unavailability"
+                >
+                  <Delete02Icon className="h-4 w-4" />
+                </Button>
+              )))}
+            </div>
+          )}
+        </div>
+
+        <UnavailabilityRequestDialog open={addOpen} onOpenChange={setAddOpen} people={people} onSuccess={onChanged} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnavailabilityManagementDialog;
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckmarkCircle01Icon, Cancel01Icon, MinusSignIcon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import {
+  AvailabilityRequestSummary,
+  fetchAvailabilityResponses,
+  groupAvailabilityResponses,
+  parseAvailabilityReply,
+  recordAvailabilityResponse
+} from '@/lib/staff-unavailability-utils';
+import { cn } from '@/lib/utils';
+
+// Most recent availability checks shown
+const REQUEST_LIMIT = 5;
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+/**
+ * Yes/no answers to recent availability checks, per person and date. Crew reply on
+ * WhatsApp and admins record the answers here by tapping a cell or pasting the reply.
+ */
+const AvailabilityResponsesPanel = () => {
+  const { currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<AvailabilityRequestSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [replyRequestId, setReplyRequestId] = useState<string | null>(null);
+  const [replyPersonId, setReplyPersonId] = useState('');
+  const [replyText, setReplyText] = useState('');
+
+  const loadResponses = useCallback(async () => {
+    if (!currentFirmId) return;
+    try {
+      const responses = await fetchAvailabilityResponses(currentFirmId);
+      setRequests(groupAvailabilityResponses(responses).slice(0, REQUEST_LIMIT));
+    } catch (error) {
+      toast({
+        title: "Error loading responses",
+        description: error instanceof Error ? error.message : 'Failed to load availability responses',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFirmId, toast]);
+
+  useEffect(() => {
+    loadResponses();
+  }, [loadResponses]);
+
+  const replyRequest = useMemo(
+    () => requests.find(request => request.requestId === replyRequestId),
+    [requests, replyRequestId]
+  );
+
+  const save = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      await loadResponses();
+    } catch (error) {
+      toast({
+        title: "Error recording response",
+        description: error instanceof Error ? error.message : 'Failed to record the response',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Unanswered and "no" cells become "yes"; "yes" becomes "no"
+  const toggleAnswer = (requestId: string, personId: string, date: string, current: boolean | null) =>
+    save(() => recordAvailabilityResponse(requestId, personId, current !== true, [date], 'manual'));
+
+  const handleRecordReply = () => {
+    if (!replyRequest || !replyPersonId || !replyText.trim()) return;
+
+    const answers = parseAvailabilityReply(replyText, replyRequest.dates);
+    const yesDates = Object.keys(answers).filter(date => answers[date]);
+    const noDates = Object.keys(answers).filter(date => !answers[date]);
+
+    if (yesDates.length === 0 && noDates.length === 0) {
+      toast({
+        title: "Couldn't read the reply",
+        description: "Look for a yes or no in the message, or tap the dates instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    save(async () => {
+      if (yesDates.length > 0) {
+        await recordAvailabilityResponse(replyRequest.requestId, replyPersonId, true, yesDates, 'manual', replyText.trim());
+      }
+      if (noDates.length > 0) {
+        await recordAvailabilityResponse(replyRequest.requestId, replyPersonId, false, noDates, 'manual', replyText.trim());
+      }
+      setReplyText('');
+      setReplyPersonId('');
+      setReplyRequestId(null);
+    });
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground text-center py-6">Loading responses...</p>;
+  }
+
+  if (requests.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">No availability checks sent yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {requests.map(request => {
+        const answered = request.people.filter(person => Object.values(person.answers).some(answer => answer !== null)).length;
+        return (
+          <div key={request.requestId} className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {request.role}{request.eventType ? ` • ${request.eventType}` : ''}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Sent {new Date(request.createdAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                </p>
+              </div>
+              <Badge variant="secondary">{answered}/{request.people.length} replied</Badge>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr>
+                    <th className="text-left font-medium text-muted-foreground pb-1 pr-2">Person</th>
+                    {request.dates.map(date => (
+                      <th key={date} className="font-medium text-muted-foreground pb-1 px-1 whitespace-nowrap">
+                        {formatShortDate(date)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {request.people.map(person => (
+                    <tr key={person.personId} className="border-t">
+                      <td className="py-1 pr-2 truncate max-w-[120px]">{person.name}</td>
+                      {request.dates.map(date => {
+                        const answer = person.answers[date] ?? null;
+                        return (
+                          <td key={date} className="py-1 px-1 text-center">
+                            <button
+                              type="button"
+                              disabled={saving || !(date in person.answers)}
+                              onClick={() => toggleAnswer(request.requestId, person.personId, date, answer)}
+                              className={cn(
+                                'inline-flex h-6 w-6 items-center justify-center rounded-full border',
+                                answer === true && 'bg-green-500/10 text-green-600 border-green-500/30',
+                                answer === false && 'bg-destructive/10 text-destructive border-destructive/30',
+                                answer === null && 'text-muted-foreground'
+                              )}
+                              aria-label={`${person.name} ${date}`}
+                            >
+                              {answer === true && <CheckmarkCircle01Icon className="h-3.5 w-3.5" />}
+                              {answer === false && <Cancel01Icon className="h-3.5 w-3.5" />}
+                              {answer === null && <MinusSignIcon className="h-3.5 w-3.5" />}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {replyRequestId === request.requestId ? (
+              <div className="space-y-2">
+                <Label className="text-xs">Record a reply</Label>
+                <Select value={replyPersonId} onValueChange={setReplyPersonId}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Who replied?" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {request.people.map(person => (
+                      <SelectItem key={person.personId} value={person.personId}>{person.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  placeholder='e.g. "Yes" or "15/12 yes, 16/12 no"'
+                  rows={2}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setReplyRequestId(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="button" size="sm" disabled={saving || !replyPersonId || !replyText.trim()} onClick={handleRecordReply}>
+                    Record
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => {
+                  setReplyRequestId(request.requestId);
+                  setReplyPersonId('');
+                  setReplyText('');
+                }}
+              >
+                Record a reply
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AvailabilityResponsesPanel;
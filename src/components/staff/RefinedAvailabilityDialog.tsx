@@ -21,22 +21,14 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
 import { useStaffAvailabilityCheck } from './hooks/useStaffAvailabilityCheck';
+import AvailabilityResponsesPanel from './AvailabilityResponsesPanel';
 import { VALID_ROLES } from '@/lib/role-utils';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import type { Database } from '@/integrations/supabase/types';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
 
-type AvailabilityOption = 'staff_availability' | 'event_staff_check';
-type EventType = Database['public']['Enums']['event_type'];
-
-const EVENT_TYPES: { value: EventType; label: string }[] = [
-  { value: 'Ring-Ceremony', label: 'Ring-Ceremony' },
-  { value: 'Pre-Wedding', label: 'Pre-Wedding' },
-  { value: 'Wedding', label: 'Wedding' },
-  { value: 'Maternity Photography', label: 'Maternity Photography' },
-  { value: 'Others', label: 'Others' }
-];
+type AvailabilityOption = 'staff_availability' | 'availability_responses' | 'event_staff_check';
 
 const availabilityFormSchema = z.object({
   role: z.string().min(1, 'Please select a role'),
@@ -81,6 +73,7 @@ const RefinedAvailabilityDialog = ({
   onOpenChange
 }: RefinedAvailabilityDialogProps) => {
   const { currentFirmId } = useAuth();
+  const { activeEventTypes } = useFirmEventTypes();
   const { toast } = useToast();
   const { sendAvailabilityCheck } = useStaffAvailabilityCheck();
   
@@ -276,6 +269,8 @@ const RefinedAvailabilityDialog = ({
       });
       
       resetForm();
+      // Replies are collected against the request just sent
+      setSelectedOption('availability_responses');
     } catch (error: any) {
       const errorMessage = error?.message || 'Failed to send availability check. Please try again.';
       toast({
@@ -424,6 +419,7 @@ const RefinedAvailabilityDialog = ({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="staff_availability">Staff Availability</SelectItem>
+                <SelectItem value="availability_responses">Availability Responses</SelectItem>
                 <SelectItem value="event_staff_check">Event Staff Work Assignment</SelectItem>
               </SelectContent>
             </Select>
@@ -512,9 +508,9 @@ const RefinedAvailabilityDialog = ({
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {EVENT_TYPES.map((type) => (
-                              <SelectItem key={type.value} value={type.value}>
-                                {type.label}
+                            {activeEventTypes.map((type) => (
+                              <SelectItem key={type.id} value={type.name}>
+                                {type.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -555,6 +551,9 @@ const RefinedAvailabilityDialog = ({
             </Form>
           )}
 
+          {/* Replies to availability checks */}
+          {selectedOption === 'availability_responses' && <AvailabilityResponsesPanel />}
+
           {/* Event Staff Notifications UI */}
           {selectedOption === 'event_staff_check' && (
             <div className="space-y-6">
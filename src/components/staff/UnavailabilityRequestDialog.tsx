@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { InlineDatePicker } from '@/components/ui/inline-date-picker';
+import { SearchableGroupedStaffSelect } from '@/components/ui/searchable-grouped-staff-select';
+import { Calendar03Icon, CheckmarkCircle01Icon } from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { requestUnavailability } from '@/lib/staff-unavailability-utils';
+import { SchedulePerson, toDateString } from '@/lib/crew-schedule-utils';
+
+interface UnavailabilityRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When given (admins), the block is for a chosen person and approved straight away
+  people?: SchedulePerson[];
+  onSuccess?: () => void;
+}
+
+const UnavailabilityRequestDialog = ({ open, onOpenChange, people, onSuccess }: UnavailabilityRequestDialogProps) => {
+  const { profile, currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const [personValue, setPersonValue] = useState('');
+  const [startDate, setStartDate] = useState<Date | undefined>();
+  const [endDate, setEndDate] = useState<Date | undefined>();
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isForOthers = !!people;
+
+  useEffect(() => {
+    if (open) {
+      setPersonValue('');
+      setStartDate(undefined);
+      setEndDate(undefined);
+      setReason('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!profile?.id || !currentFirmId) return;
+
+    if (!startDate || (isForOthers && !personValue)) {
+      toast({
+        title: "Missing Information",
+        description: isForOthers ? "Please choose a person and a start date." : "Please choose a start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const isFreelancer = personValue.startsWith('freelancer_');
+    setSaving(true);
+    try {
+      await requestUnavailability({
+        firmId: currentFirmId,
+        staffId: isForOthers ? (isFreelancer ? null : personValue) : profile.id,
+        freelancerId: isForOthers && isFreelancer ? personValue.replace('freelancer_', '') : null,
+        startDate: toDateString(startDate),
+        endDate: toDateString(endDate || startDate),
+        reason,
+        requestedBy: profile.id,
+        approved: isForOthers
+      });
+
+      toast({
+        title: isForOthers ? "Unavailability added" : "Leave requested",
+        description: isForOthers ? undefined : "An admin will review your request.",
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error saving unavailability",
+        description: error instanceof Error ? error.message : 'Failed to save the request',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calendar03Icon className="h-5 w-5 text-primary" />
+            {isForOthers ? 'Add Unavailability' : 'Request Leave'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isForOthers && (
+            <div className="space-y-2">
+              <Label>Person</Label>
+              <SearchableGroupedStaffSelect
+                value={personValue}
+                onValueChange={setPersonValue}
+                staffOptions={people}
+                className="rounded-full"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>From</Label>
+            <InlineDatePicker value={startDate} onSelect={setStartDate} placeholder="Start date" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>To</Label>
+            <InlineDatePicker value={endDate} onSelect={setEndDate} placeholder="Same as start date" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="min-w-[100px]">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saving} className="min-w-[100px]">
+              <CheckmarkCircle01Icon className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : isForOthers ? 'Add' : 'Request'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnavailabilityRequestDialog;
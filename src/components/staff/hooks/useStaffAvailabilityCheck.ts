@@ -1,6 +1,7 @@
 import { useCallback } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
+import { createAvailabilityRequest } from '@/lib/staff-unavailability-utils';
 
 interface StaffAvailabilityCheckParams {
   dates: Date[];
@@ -15,10 +16,11 @@ interface StaffMember {
   role: string;
   mobile_number?: string;
   phone?: string;
+  is_freelancer: boolean;
 }
 
 export const useStaffAvailabilityCheck = () => {
-  const { currentFirmId } = useAuth();
+  const { currentFirmId, profile } = useAuth();
 
   const sendAvailabilityCheck = useCallback(async ({
     dates,
@@ -50,14 +52,19 @@ export const useStaffAvailabilityCheck = () => {
       if (staffResult.error) throw staffResult.error;
       if (freelancersResult.error) throw freelancersResult.error;
 
-      const staff: StaffMember[] = staffResult.data || [];
-      const freelancers: StaffMember[] = freelancersResult.data || [];
+      const staff: StaffMember[] = (staffResult.data || []).map(person => ({ ...person, is_freelancer: false }));
+      const freelancers: StaffMember[] = (freelancersResult.data || []).map(person => ({ ...person, is_freelancer: true }));
       const allPeople = [...staff, ...freelancers];
 
       if (allPeople.length === 0) {
         throw new Error(`No ${role} staff or freelancers found with contact information`);
       }
 
+      const dateStrings = dates.map(d => d.toLocaleDateString('en-CA')); // YYYY-MM-DD format without timezone issues
+
+      // Pending yes/no rows; replies quoting the request id are recorded against them
+      const requestId = await createAvailabilityRequest(currentFirmId, profile?.id, allPeople, dateStrings, eventType);
+
       // Send availability check notification to each person - BACKGROUND Fire and forget
       allPeople.forEach((person) => {
         const phoneNumber = person.mobile_number || person.phone;
@@ -69,11 +76,13 @@ export const useStaffAvailabilityCheck = () => {
             staffName: person.full_name,
             staffPhone: phoneNumber,
             role: person.role,
-            dates: dates.map(d => d.toLocaleDateString('en-CA')), // YYYY-MM-DD format without timezone issues
+            dates: dateStrings,
             eventType,
             customMessage,
             firmId: currentFirmId,
-            notificationType: 'availability_check'
+            notificationType: 'availability_check',
+            requestId,
+            personId: person.id
           }
         }).then(({ error }) => {
           if (error) {
@@ -89,11 +98,13 @@ export const useStaffAvailabilityCheck = () => {
       const dateText = dates.length === 1 ? dates[0].toLocaleDateString() : `${dates.length} dates`;
       console.log(`Availability check sent to ${allPeople.length} ${role} staff and freelancers for ${dateText}`);
 
+      return requestId;
+
     } catch (error) {
       console.error('Error sending availability check:', error);
       throw error;
     }
-  }, [currentFirmId]);
+  }, [currentFirmId, profile?.id]);
 
   return {
     sendAvailabilityCheck
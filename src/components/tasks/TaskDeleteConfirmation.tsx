@@ -5,6 +5,7 @@ import { Task } from '@/types/studio';
 import { UnifiedDialog } from '@/components/ui/unified-dialog';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useDeletionValidation } from '@/hooks/useDeletionValidation';
+import { moveToTrash } from '@/lib/trash-utils';
 
 interface TaskDeleteConfirmationProps {
   task: Task | null;
@@ -50,19 +51,12 @@ export const TaskDeleteConfirmation = ({ task, open, onOpenChange, onSuccess }:
         // Continue with database deletion even if Google Sheets fails
       }
 
-      // STEP 2: Delete from database
-      const { error: dbError } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', task.id);
-
-      if (dbError) {
-        throw dbError;
-      }
+      // STEP 2: Move to Trash
+      await moveToTrash('tasks', task.id);
 
       toast({
-        title: "Task deleted successfully",
-        description: `"${task.title}" has been removed from the system and Google Sheets.`,
+        title: "Task moved to Trash",
+        description: `"${task.title}" was removed from Google Sheets and can be restored from Trash.`,
       });
       
       onSuccess();
@@ -87,7 +81,7 @@ export const TaskDeleteConfirmation = ({ task, open, onOpenChange, onSuccess }:
         onOpenChange={(newOpen) => !deleting && onOpenChange(newOpen)}
         onConfirm={handleDelete}
         title="Delete Task"
-        description={`Are you sure you want to delete "${task.title}"? This action cannot be undone and will remove the task from the system and Google Sheets.`}
+        description={`Are you sure you want to delete "${task.title}"? It will be removed from Google Sheets and moved to Trash, where it can be restored.`}
         variant="destructive"
         confirmText={deleting ? "Deleting..." : "Delete Task"}
         loading={deleting}
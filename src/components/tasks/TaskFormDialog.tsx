@@ -32,6 +32,8 @@ import { Loader2 } from "lucide-react"
 import { Task } from "@/types/studio";
 import { supabase } from '@/integrations/supabase/client';
 import { useTaskUpdateNotifications } from '@/hooks/useTaskUpdateNotifications';
+import { useApprovedUnavailability } from '@/hooks/useStaffUnavailability';
+import { getUnavailabilityPersonId } from '@/lib/staff-unavailability-utils';
 
 const taskFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -103,6 +105,11 @@ export const TaskFormDialog = ({
     },
   });
 
+  // Staff on approved leave on the due date cannot take the task
+  const dueDate = form.watch('due_date');
+  const dueDateString = dueDate ? format(dueDate, 'yyyy-MM-dd') : undefined;
+  const unavailableIds = useApprovedUnavailability(dueDateString).map(getUnavailabilityPersonId);
+
   // Reset form when editingTask changes
   useEffect(() => {
     if (editingTask) {
@@ -494,6 +501,7 @@ export const TaskFormDialog = ({
                         value={field.value}
                         staffOptions={staffMembers}
                         placeholder="Select staff or freelancer"
+                        unavailableIds={unavailableIds}
                         
                       />
                     <FormMessage />
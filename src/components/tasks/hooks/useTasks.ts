@@ -4,6 +4,7 @@ import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Task, Event, TaskStatus } from '@/types/studio';
+import { moveToTrash } from '@/lib/trash-utils';
 
 interface StaffMember {
   id: string;
@@ -284,13 +285,8 @@ export const useTasks = (onRefetch?: () => void) => {
         .eq('id', taskId)
         .single();
 
-      // Delete the task
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
-
-      if (error) throw error;
+      // Move the task to Trash
+      await moveToTrash('tasks', taskId);
 
       // Trigger refetch to update filtered data
       onRefetch?.();
@@ -313,8 +309,8 @@ export const useTasks = (onRefetch?: () => void) => {
       }
 
       toast({
-        title: "Task deleted",
-        description: "Task has been successfully deleted",
+        title: "Task moved to Trash",
+        description: "Task can be restored from Trash",
       });
 
     } catch (error: any) {
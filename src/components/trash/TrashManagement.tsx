@@ -0,0 +1,295 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UnifiedDialog } from '@/components/ui/unified-dialog';
+import { EmptyState } from '@/components/ui/empty-state';
+import { PageTableSkeleton } from '@/components/ui/skeleton';
+import {
+  Delete02Icon,
+  Calendar01Icon,
+  CustomerService02Icon,
+  FileManagementIcon,
+  TaskAdd01Icon,
+  CreditCardValidationIcon,
+  MoneyAdd01Icon,
+  ArrowTurnBackwardIcon
+} from 'hugeicons-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { supabase } from '@/integrations/supabase/client';
+import { TrashItem, TrashItemType } from '@/types/studio';
+import { TRASH_ITEM_LABELS, fetchTrashItems, purgeTrashItem, restoreTrashItem } from '@/lib/trash-utils';
+
+type TrashFilter = 'all' | TrashItemType;
+
+const TYPE_ICONS: Record<TrashItemType, React.ComponentType<{ className?: string }>> = {
+  events: Calendar01Icon,
+  clients: CustomerService02Icon,
+  quotations: FileManagementIcon,
+  tasks: TaskAdd01Icon,
+  expenses: CreditCardValidationIcon,
+  payments: MoneyAdd01Icon
+};
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Firm-wide trash: soft-deleted events, clients, quotations, tasks, expenses and payments.
+ * Payments, tasks and expenses trashed with their event are listed under that event and
+ * come back with it.
+ */
+const TrashManagement = () => {
+  const { currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TrashFilter>('all');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    if (!currentFirmId) return;
+    try {
+      const [trashItems, firmResult] = await Promise.all([
+        fetchTrashItems(currentFirmId),
+        supabase.from('firms').select('trash_retention_days').eq('id', currentFirmId).single()
+      ]);
+      setItems(trashItems);
+      if (firmResult.data) setRetentionDays(firmResult.data.trash_retention_days);
+    } catch (error) {
+      toast({
+        title: "Error loading trash",
+        description: error instanceof Error ? error.message : 'Failed to load deleted items',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFirmId, toast]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const trashedEventIds = useMemo(
+    () => new Set(items.filter(item => item.item_type === 'events').map(item => item.item_id)),
+    [items]
+  );
+
+  // Children of a trashed event, keyed by event id
+  const eventChildren = useMemo(() => {
+    const children = new Map<string, TrashItem[]>();
+    for (const item of items) {
+      if (item.event_id && trashedEventIds.has(item.event_id)) {
+        children.set(item.event_id, [...(children.get(item.event_id) || []), item]);
+      }
+    }
+    return children;
+  }, [items, trashedEventIds]);
+
+  const topLevelItems = items.filter(item => !(item.event_id && trashedEventIds.has(item.event_id)));
+  const visibleItems = filter === 'all' ? topLevelItems : topLevelItems.filter(item => item.item_type === filter);
+
+  const countFor = (type: TrashItemType) => topLevelItems.filter(item => item.item_type === type).length;
+
+  const describeChildren = (children: TrashItem[]) => {
+    const counts = (['payments', 'tasks', 'expenses'] as TrashItemType[])
+      .map(type => ({ type, count: children.filter(child => child.item_type === type).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ type, count }) => `${count} ${TRASH_ITEM_LABELS[type].toLowerCase()}${count === 1 ? '' : 's'}`);
+    return counts.join(', ');
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    if (!currentFirmId) return;
+    setBusyId(item.item_id);
+    try {
+      const count = await restoreTrashItem(item, currentFirmId);
+      toast({
+        title: `${TRASH_ITEM_LABELS[item.item_type]} restored`,
+        description: count > 1
+          ? `"${item.label}" and ${count - 1} related item${count === 2 ? '' : 's'} are back.`
+          : `"${item.label}" is back.`,
+      });
+      await loadTrash();
+    } catch (error) {
+      toast({
+        title: "Error restoring item",
+        description: error instanceof Error ? error.message : 'Failed to restore the item',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!itemToPurge) return;
+    const item = itemToPurge;
+    setBusyId(item.item_id);
+    try {
+      await purgeTrashItem(item);
+      toast({
+        title: "Permanently deleted",
+        description: `"${item.label}" can no longer be restored.`,
+      });
+      setItemToPurge(null);
+      await loadTrash();
+    } catch (error) {
+      toast({
+        title: "Error deleting item",
+        description: error instanceof Error ? error.message : 'Failed to delete the item',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    if (!currentFirmId) return;
+    const days = Number(value);
+    const { error } = await supabase.from('firms').update({ trash_retention_days: days }).eq('id', currentFirmId);
+    if (error) {
+      toast({
+        title: "Error updating retention",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setRetentionDays(days);
+    toast({ title: "Retention updated", description: `Deleted items are kept for ${days} days.` });
+  };
+
+  if (loading) {
+    return <PageTableSkeleton />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Trash</h1>
+          <p className="text-sm text-muted-foreground">
+            Deleted items are kept for {retentionDays ?? 30} days, then removed for good.
+          </p>
+        </div>
+        {retentionDays !== null && (
+          <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className="w-[160px] rounded-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([...RETENTION_OPTIONS, retentionDays])).sort((a, b) => a - b).map(days => (
+                <SelectItem key={days} value={String(days)}>Keep {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as TrashFilter)}>
+        <TabsList className="flex-wrap h-auto">
+          <TabsTrigger value="all">All ({topLevelItems.length})</TabsTrigger>
+          {(Object.keys(TRASH_ITEM_LABELS) as TrashItemType[]).map(type => (
+            <TabsTrigger key={type} value={type}>
+              {TRASH_ITEM_LABELS[type]}s ({countFor(type)})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {visibleItems.length === 0 ? (
+        <EmptyState
+          icon={Delete02Icon}
+          title="Trash is empty"
+          description="Deleted events, clients, quotations, tasks, expenses and payments show up here."
+        />
+      ) : (
+        <div className="space-y-3">
+          {visibleItems.map(item => {
+            const Icon = TYPE_ICONS[item.item_type];
+            const children = eventChildren.get(item.item_id) || [];
+            return (
+              <Card key={`${item.item_type}-${item.item_id}`} className="rounded-2xl">
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <div className="p-2 rounded-full bg-primary/10 shrink-0">
+                      <Icon className="h-4 w-4 text-primary" />
+                    </div>
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-semibold truncate">{item.label}</p>
+                        <Badge variant="secondary" className="text-xs">{TRASH_ITEM_LABELS[item.item_type]}</Badge>
+                      </div>
+                      {item.detail && <p className="text-xs text-muted-foreground truncate">{item.detail}</p>}
+                      {children.length > 0 && (
+                        <p className="text-xs text-muted-foreground">With {describeChildren(children)}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Deleted {formatDate(item.deleted_at)}
+                        {item.deleted_by_name ? ` by ${item.deleted_by_name}` : ''} • Removed on {formatDate(item.purge_after)}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 shrink-0">
+                    {item.amount ? (
+                      <span className="text-sm font-semibold mr-2">₹{Number(item.amount).toLocaleString('en-IN')}</span>
+                    ) : null}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-full"
+                      disabled={busyId === item.item_id}
+                      onClick={() => handleRestore(item)}
+                    >
+                      <ArrowTurnBackwardIcon className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      disabled={busyId === item.item_id}
+                      onClick={() => setItemToPurge(item)}
+                      aria-label="Delete permanently"
+                    >
+                      <Delete02Icon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <UnifiedDialog
+        open={!!itemToPurge}
+        onOpenChange={(open) => !open && busyId === null && setItemToPurge(null)}
+        onConfirm={handlePurge}
+        title="Delete Permanently"
+        description={itemToPurge
+          ? `"${itemToPurge.label}" will be deleted for good${itemToPurge.item_type === 'events'
+            ? ', along with its payments, tasks, expenses, crew and salary records'
+            : ''}. This cannot be undone.`
+          : ''}
+        variant="destructive"
+        confirmText={busyId ? "Deleting..." : "Delete Permanently"}
+        loading={!!busyId}
+      />
+    </div>
+  );
+};
+
+export default TrashManagement;
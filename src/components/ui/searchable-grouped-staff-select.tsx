@@ -22,6 +22,8 @@ interface SearchableGroupedStaffSelectProps {
   disabled?: boolean;
   allowClear?: boolean;
   required?: boolean;
+  // Staff or freelancer ids with approved leave; shown but cannot be picked
+  unavailableIds?: string[];
 }
 
 const getRoleIcon = (role: string) => {
@@ -51,6 +53,7 @@ export const SearchableGroupedStaffSelect = ({
   disabled,
   allowClear = false,
   required = false,
+  unavailableIds = [],
 }: SearchableGroupedStaffSelectProps) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isOpen, setIsOpen] = useState(false);
@@ -154,10 +157,18 @@ export const SearchableGroupedStaffSelect = ({
                 Staff
               </div>
               {staffMembers.map((staff) => (
-                <SelectItem key={staff.id} value={staff.id} className="hover:bg-accent">
+                <SelectItem
+                  key={staff.id}
+                  value={staff.id}
+                  className="hover:bg-accent"
+                  disabled={unavailableIds.includes(staff.id) && staff.id !== value}
+                >
                   <div className="flex items-center gap-2">
                     {getRoleIcon(staff.role || '')}
                     <span>{staff.full_name}</span>
+                    {unavailableIds.includes(staff.id) && (
+                      <span className="text-xs text-destructive">On leave</span>
+                    )}
                   </div>
                 </SelectItem>
               ))}
@@ -171,10 +182,18 @@ export const SearchableGroupedStaffSelect = ({
                 Freelancers
               </div>
               {freelancers.map((freelancer) => (
-                <SelectItem key={freelancer.id} value={getPersonDisplayValue(freelancer)} className="hover:bg-accent">
+                <SelectItem
+                  key={freelancer.id}
+                  value={getPersonDisplayValue(freelancer)}
+                  className="hover:bg-accent"
+                  disabled={unavailableIds.includes(freelancer.id) && getPersonDisplayValue(freelancer) !== value}
+                >
                   <div className="flex items-center gap-2">
                     {getRoleIcon(freelancer.role || '')}
                     <span>{freelancer.full_name}</span>
+                    {unavailableIds.includes(freelancer.id) && (
+                      <span className="text-xs text-destructive">On leave</span>
+                    )}
                   </div>
                 </SelectItem>
               ))}
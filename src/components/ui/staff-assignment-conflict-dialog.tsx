@@ -1,5 +1,6 @@
 import { UnifiedDialog } from "./unified-dialog"
 import { Users } from "lucide-react"
+import { formatSessionTimeRange } from "@/lib/event-session-utils"
 
 interface ConflictingEvent {
   eventId: string;
@@ -9,6 +10,15 @@ interface ConflictingEvent {
     startDate: string;
     endDate: string;
   };
+  sessionName?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  venue?: string | null;
+  overlapMinutes?: number;
+  gapMinutes?: number;
+  bufferMinutes?: number;
+  unavailable?: boolean;
+  reason?: string | null;
 }
 
 interface StaffAssignmentConflictDialogProps {
@@ -38,20 +48,58 @@ export function StaffAssignmentConflictDialog({
     });
   };
 
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours === 0) return `${mins} min`;
+    return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+  };
+
+  // Either a real overlap, or a gap too short to travel between venues
+  const describeClash = (conflict: ConflictingEvent) => {
+    if (conflict.overlapMinutes) {
+      return conflict.startTime ? `Overlaps by ${formatMinutes(conflict.overlapMinutes)}` : 'Booked for the full day';
+    }
+    if (conflict.bufferMinutes) {
+      return `Only ${formatMinutes(conflict.gapMinutes || 0)} to travel from ${conflict.venue || 'another venue'} (needs ${formatMinutes(conflict.bufferMinutes)})`;
+    }
+    return null;
+  };
+
+  // Approved unavailability cannot be assigned over
+  const unavailableBlocks = conflictingEvents.filter(conflict => conflict.unavailable);
+  const eventConflicts = conflictingEvents.filter(conflict => !conflict.unavailable);
+  const isHardConflict = unavailableBlocks.length > 0;
+
   const details = (
     <div className="space-y-2">
-      <p className="font-medium text-foreground">Conflicting Events:</p>
-      {conflictingEvents.slice(0, 3).map((conflict, idx) => (
+      {unavailableBlocks.map((block, idx) => (
+        <div key={`unavailable-${idx}`} className="text-xs space-y-1">
+          <p className="font-medium text-destructive">
+            Unavailable {formatDate(block.dateRange.startDate)} - {formatDate(block.dateRange.endDate)}
+          </p>
+          {block.reason && <p className="text-muted-foreground">{block.reason}</p>}
+        </div>
+      ))}
+      {eventConflicts.length > 0 && <p className="font-medium text-foreground">Conflicting Events:</p>}
+      {eventConflicts.slice(0, 3).map((conflict, idx) => (
         <div key={idx} className="text-xs space-y-1">
-          <p className="font-medium">{conflict.eventTitle || 'Untitled Event'}</p>
+          <p className="font-medium">
+            {conflict.eventTitle || 'Untitled Event'}
+            {conflict.sessionName && <span className="text-muted-foreground"> • {conflict.sessionName}</span>}
+          </p>
           <p className="text-muted-foreground">
             Role: {conflict.role} • {formatDate(conflict.dateRange.startDate)} - {formatDate(conflict.dateRange.endDate)}
+            {(conflict.startTime || conflict.endTime) && ` • ${formatSessionTimeRange({ start_time: conflict.startTime, end_time: conflict.endTime })}`}
           </p>
+          {describeClash(conflict) && (
+            <p className="text-destructive font-medium">{describeClash(conflict)}</p>
+          )}
         </div>
       ))}
-      {conflictingEvents.length > 3 && (
+      {eventConflicts.length > 3 && (
         <p className="text-xs text-muted-foreground">
-          +{conflictingEvents.length - 3} more conflict{conflictingEvents.length - 3 > 1 ? 's' : ''}
+          +{eventConflicts.length - 3} more conflict{eventConflicts.length - 3 > 1 ? 's' : ''}
         </p>
       )}
     </div>
@@ -65,7 +113,12 @@ export function StaffAssignmentConflictDialog({
       onCancel={onCancel}
       variant="conflict"
       title="Staff Assignment Conflict"
-      description={
+      description={isHardConflict ? (
+        <>
+          <span className="font-semibold">{staffName}</span> has approved leave during this time and
+          cannot be assigned as <span className="font-semibold">{role}</span>.
+        </>
+      ) : (
         <>
           <span className="font-semibold">{staffName}</span> is already assigned to{' '}
           <span className="font-semibold">{conflictingEvents.length}</span> other event
@@ -73,10 +126,11 @@ export function StaffAssignmentConflictDialog({
           <br /><br />
           Do you want to assign them as <span className="font-semibold">{role}</span> anyway?
         </>
-      }
+      )}
       details={details}
       confirmText="Assign Anyway"
-      cancelText="Cancel"
+      cancelText={isHardConflict ? "Close" : "Cancel"}
+      hideConfirm={isHardConflict}
     />
   );
 }
\ No newline at end of file
@@ -32,6 +32,8 @@ interface UnifiedDialogProps {
   confirmationKeyword?: string
   loading?: boolean
   details?: React.ReactNode
+  // Leave only the cancel button, for notices the user cannot override
+  hideConfirm?: boolean
 }
 
 const variantConfig: Record<DialogVariant, {
@@ -99,6 +101,7 @@ export function UnifiedDialog({
   confirmationKeyword = "DELETE",
   loading = false,
   details,
+  hideConfirm = false,
 }: UnifiedDialogProps) {
   const [textInput, setTextInput] = useState("")
   
@@ -188,13 +191,15 @@ export function UnifiedDialog({
           >
             {cancelText}
           </AlertDialogCancel>
-          <AlertDialogAction 
-            onClick={handleConfirm}
-            disabled={isConfirmDisabled}
-            className={cn("w-full sm:w-auto", config.buttonClass)}
-          >
-            {loading ? "Processing..." : confirmText}
-          </AlertDialogAction>
+          {!hideConfirm && (
+            <AlertDialogAction 
+              onClick={handleConfirm}
+              disabled={isConfirmDisabled}
+              className={cn("w-full sm:w-auto", config.buttonClass)}
+            >
+              {loading ? "Processing..." : confirmText}
+            </AlertDialogAction>
+          )}
         </AlertDialogFooter>
       </AlertDialogContent>
     </AlertDialog>
@@ -14,7 +14,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useDynamicBranding } from '@/hooks/useDynamicBranding';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { Switch } from '@/components/ui/switch';
 import { Eye, Save, RotateCcw, MessageSquare, Users, FileText } from 'lucide-react';
+import { DEFAULT_FOLLOW_UP_DAYS, DEFAULT_QUIET_HOURS } from '@/lib/quotation-follow-up-utils';
+import { DEFAULT_REMINDER_CADENCE_DAYS, DEFAULT_REMINDER_MAX_ATTEMPTS } from '@/lib/payment-reminder-utils';
 
 interface NotificationSettings {
   firm_name: string;
@@ -107,6 +110,27 @@ interface NotificationSettings {
       content: string;
       footer?: string;
     };
+    // Sent automatically while a shared quotation waits for an answer
+    quotation_follow_up: {
+      title: string;
+      greeting: string;
+      content: string;
+      schedule_days: number[];
+      // HH:MM window (India time) in which follow-ups wait instead of being sent
+      quiet_hours_start: string;
+      quiet_hours_end: string;
+    };
+    // Sent automatically while an event has money due
+    payment_reminder: {
+      title: string;
+      greeting: string;
+      content: string;
+      enabled: boolean;
+      cadence_days: number;
+      max_attempts: number;
+      quiet_hours_start: string;
+      quiet_hours_end: string;
+    };
   };
 }
 
@@ -206,6 +230,24 @@ const UnifiedNotificationTemplates = () => {
       greeting: 'Dear *{clientName}*,',
       content: 'Please find your invoice document for {eventType} event attached. We appreciate your business with us.',
       footer: 'Thank you for choosing our services!'
+    },
+    quotation_follow_up: {
+      title: 'QUOTATION FOLLOW-UP',
+      greeting: 'Dear *{clientName}*,',
+      content: 'Just checking in on the quotation for your {eventType}. It is valid until {validUntil}. Let us know if you have any questions or would like any changes.',
+      schedule_days: DEFAULT_FOLLOW_UP_DAYS,
+      quiet_hours_start: DEFAULT_QUIET_HOURS.start,
+      quiet_hours_end: DEFAULT_QUIET_HOURS.end
+    },
+    payment_reminder: {
+      title: 'PAYMENT REMINDER',
+      greeting: 'Dear *{clientName}*,',
+      content: 'This is a gentle reminder that a payment for your {eventType} was due on {dueDate}. The outstanding balance is {balance}.',
+      enabled: true,
+      cadence_days: DEFAULT_REMINDER_CADENCE_DAYS,
+      max_attempts: DEFAULT_REMINDER_MAX_ATTEMPTS,
+      quiet_hours_start: DEFAULT_QUIET_HOURS.start,
+      quiet_hours_end: DEFAULT_QUIET_HOURS.end
     }
   });
 
@@ -329,20 +371,27 @@ const UnifiedNotificationTemplates = () => {
       payment_received: { clientName: 'Mr. & Mrs. Sharma', eventName: 'Wedding Photography', amountPaid: 25000, paymentMethod: 'Bank Transfer', remainingBalance: 25000 },
       // Document sharing templates
       quotation_share: { clientName: 'Mr. & Mrs. Sharma', eventType: 'Wedding Photography', eventDate: '15/12/2024', venue: 'Grand Palace Hotel' },
-      invoice_share: { clientName: 'Mr. & Mrs. Sharma', eventType: 'Wedding Photography', eventDate: '15/12/2024', venue: 'Grand Palace Hotel' }
+      invoice_share: { clientName: 'Mr. & Mrs. Sharma', eventType: 'Wedding Photography', eventDate: '15/12/2024', venue: 'Grand Palace Hotel' },
+      quotation_follow_up: { clientName: 'Mr. & Mrs. Sharma', eventType: 'Wedding', quotationTitle: 'Sharma Wedding Coverage', eventDate: '15/12/2024', validUntil: '30/11/2024' },
+      payment_reminder: { clientName: 'Mr. & Mrs. Sharma', eventType: 'Wedding', eventName: 'Sharma Wedding', amountDue: 15000, balance: 25000, dueDate: '10/12/2024', upiLink: 'upi://pay?pa=studio@okaxis&pn=Studio&am=15000.00&cu=INR' }
     };
 
     const data = sampleData[type];
     let message = `*${template.title}*\n\n`;
     
     // Handle client vs staff greetings properly
-    if (type === 'event_confirmation' || type === 'payment_received' || type === 'event_cancellation' || type === 'event_update') {
+    if (type === 'event_confirmation' || type === 'payment_received' || type === 'event_cancellation' || type === 'event_update' || type === 'quotation_follow_up' || type === 'payment_reminder') {
       message += `${template.greeting.replace('{clientName}', (data as any).clientName)}\n\n`;
     } else {
       message += `${template.greeting.replace('{staffName}', (data as any).staffName)}\n\n`;
     }
     
-    message += `${template.content}\n\n`;
+    const reminder = sampleData.payment_reminder;
+    message += type === 'quotation_follow_up'
+      ? `${template.content.replace('{eventType}', sampleData.quotation_follow_up.eventType).replace('{validUntil}', sampleData.quotation_follow_up.validUntil).replace('{quotationTitle}', sampleData.quotation_follow_up.quotationTitle)}\n\n`
+      : type === 'payment_reminder'
+        ? `${template.content.replace('{eventType}', reminder.eventType).replace('{eventName}', reminder.eventName).replace('{balance}', `₹${reminder.balance.toLocaleString('en-IN')}`).replace('{dueDate}', reminder.dueDate).replace('{upiLink}', reminder.upiLink)}\n\n`
+        : `${template.content}\n\n`;
     
     // Add sample details based on type 
     switch (type) {
@@ -394,6 +443,13 @@ const UnifiedNotificationTemplates = () => {
       case 'invoice_share':
         message += `*Event:* ${(data as any).eventType}\n*Date:* ${(data as any).eventDate}\n*Venue:* ${(data as any).venue}`;
         break;
+      case 'quotation_follow_up':
+        message += `*Quotation:* ${sampleData.quotation_follow_up.quotationTitle}\n*Event Date:* ${sampleData.quotation_follow_up.eventDate}\n*Valid Until:* ${sampleData.quotation_follow_up.validUntil}`;
+        break;
+      case 'payment_reminder':
+        message += `*Event:* ${reminder.eventName}\n*Amount Due:* ₹${reminder.amountDue.toLocaleString('en-IN')}\n*Due Date:* ${reminder.dueDate}\n*Balance:* ₹${reminder.balance.toLocaleString('en-IN')}`;
+        if (!template.content.includes('{upiLink}')) message += `\n*Pay via UPI:* ${reminder.upiLink}`;
+        break;
     }
     
     // Handle custom footer for document sharing templates
@@ -405,7 +461,7 @@ const UnifiedNotificationTemplates = () => {
       message += `Thank you for choosing *${settings.firm_name}*\n_${settings.firm_tagline}_\n${settings.contact_info}\n${settings.footer_signature}`;
     }
     // Use different branding message for clients vs staff
-    else if (type === 'event_confirmation' || type === 'payment_received' || type === 'event_cancellation' || type === 'event_update') {
+    else if (type === 'event_confirmation' || type === 'payment_received' || type === 'event_cancellation' || type === 'event_update' || type === 'quotation_follow_up' || type === 'payment_reminder') {
       message += `\n\nThank you for choosing *${settings.firm_name}*\n_${settings.firm_tagline}_\n${settings.contact_info}\n${settings.footer_signature}`;
     } else {
       message += `\n\nThank you for being part of *${settings.firm_name}*\n_${settings.firm_tagline}_\n${settings.contact_info}\n${settings.footer_signature}`;
@@ -433,11 +489,130 @@ const UnifiedNotificationTemplates = () => {
     payment_received: 'Client Payment Received',
     // Document sharing templates
     quotation_share: 'Quotation Document Sharing',
-    invoice_share: 'Invoice Document Sharing'
+    invoice_share: 'Invoice Document Sharing',
+    quotation_follow_up: 'Quotation Follow-up',
+    payment_reminder: 'Payment Reminder'
   };
 
   const staffTemplates = ['event_assignment', 'event_unassignment', 'task_assignment', 'task_unassignment', 'task_cancellation', 'salary_payment', 'availability_check', 'task_reported', 'task_update', 'event_staff_notification'];
-  const clientTemplates = ['event_cancellation', 'event_update', 'event_confirmation', 'payment_received', 'quotation_share', 'invoice_share'];
+  const clientTemplates = ['event_cancellation', 'event_update', 'event_confirmation', 'payment_received', 'quotation_share', 'invoice_share', 'quotation_follow_up', 'payment_reminder'];
+
+  // Comma separated days after sending, e.g. "3, 7"
+  const updateFollowUpSchedule = (value: string) => {
+    const scheduleDays = Array.from(new Set(
+      value.split(',').map(day => parseInt(day.trim(), 10)).filter(day => day > 0)
+    )).sort((a, b) => a - b);
+    setSettings(prev => ({
+      ...prev,
+      notification_templates: {
+        ...prev.notification_templates,
+        quotation_follow_up: { ...prev.notification_templates.quotation_follow_up, schedule_days: scheduleDays }
+      }
+    }));
+  };
+
+  const updateFollowUpQuietHours = (changes: Partial<Pick<NotificationSettings['notification_templates']['quotation_follow_up'], 'quiet_hours_start' | 'quiet_hours_end'>>) => {
+    setSettings(prev => ({
+      ...prev,
+      notification_templates: {
+        ...prev.notification_templates,
+        quotation_follow_up: { ...prev.notification_templates.quotation_follow_up, ...changes }
+      }
+    }));
+  };
+
+  // Follow-ups due during these hours are held until the window ends
+  const renderFollowUpQuietHours = (labelClassName?: string) => {
+    const followUp = settings.notification_templates.quotation_follow_up;
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className={labelClassName}>Quiet from</Label>
+          <Input
+            type="time"
+            value={followUp.quiet_hours_start ?? DEFAULT_QUIET_HOURS.start}
+            onChange={(e) => updateFollowUpQuietHours({ quiet_hours_start: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div>
+          <Label className={labelClassName}>Quiet until</Label>
+          <Input
+            type="time"
+            value={followUp.quiet_hours_end ?? DEFAULT_QUIET_HOURS.end}
+            onChange={(e) => updateFollowUpQuietHours({ quiet_hours_end: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const updatePaymentReminder = (changes: Partial<NotificationSettings['notification_templates']['payment_reminder']>) => {
+    setSettings(prev => ({
+      ...prev,
+      notification_templates: {
+        ...prev.notification_templates,
+        payment_reminder: { ...prev.notification_templates.payment_reminder, ...changes }
+      }
+    }));
+  };
+
+  // Cadence, attempt limit and quiet hours of automatic payment reminders
+  const renderPaymentReminderSettings = (labelClassName?: string) => {
+    const reminder = settings.notification_templates.payment_reminder;
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className={labelClassName}>Send automatically</Label>
+          <Switch checked={reminder.enabled} onCheckedChange={(enabled) => updatePaymentReminder({ enabled })} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className={labelClassName}>Every (days)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={reminder.cadence_days}
+              onChange={(e) => updatePaymentReminder({ cadence_days: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="text-sm"
+            />
+          </div>
+          <div>
+            <Label className={labelClassName}>Max reminders</Label>
+            <Input
+              type="number"
+              min={1}
+              value={reminder.max_attempts}
+              onChange={(e) => updatePaymentReminder({ max_attempts: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="text-sm"
+            />
+          </div>
+          <div>
+            <Label className={labelClassName}>Quiet from</Label>
+            <Input
+              type="time"
+              value={reminder.quiet_hours_start}
+              onChange={(e) => updatePaymentReminder({ quiet_hours_start: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <div>
+            <Label className={labelClassName}>Quiet until</Label>
+            <Input
+              type="time"
+              value={reminder.quiet_hours_end}
+              onChange={(e) => updatePaymentReminder({ quiet_hours_end: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Placeholders: {'{clientName}'}, {'{eventType}'}, {'{eventName}'}, {'{balance}'}, {'{dueDate}'}, {'{upiLink}'}. Max reminders applies to each due date; clients can be opted out from their profile.
+        </p>
+      </div>
+    );
+  };
 
   if (isLoading) {
     return <div className="p-6">Loading notification settings...</div>;
@@ -811,6 +986,20 @@ const UnifiedNotificationTemplates = () => {
                             className="text-sm"
                           />
                         </div>
+                        {templateKey === 'quotation_follow_up' && (
+                          <div>
+                            <Label className="text-xs">Send after (days)</Label>
+                            <Input
+                              key={settings.notification_templates.quotation_follow_up.schedule_days.join(',')}
+                              defaultValue={settings.notification_templates.quotation_follow_up.schedule_days.join(', ')}
+                              onBlur={(e) => updateFollowUpSchedule(e.target.value)}
+                              placeholder="3, 7"
+                              className="text-sm"
+                            />
+                          </div>
+                        )}
+                        {templateKey === 'quotation_follow_up' && renderFollowUpQuietHours('text-xs')}
+                        {templateKey === 'payment_reminder' && renderPaymentReminderSettings('text-xs')}
                       </CardContent>
                     </Card>
                   );
@@ -888,6 +1077,23 @@ const UnifiedNotificationTemplates = () => {
                         className="text-sm"
                       />
                     </div>
+                    {templateKey === 'quotation_follow_up' && (
+                      <div>
+                        <Label>Send after (days)</Label>
+                        <Input
+                          key={settings.notification_templates.quotation_follow_up.schedule_days.join(',')}
+                          defaultValue={settings.notification_templates.quotation_follow_up.schedule_days.join(', ')}
+                          onBlur={(e) => updateFollowUpSchedule(e.target.value)}
+                          placeholder="3, 7"
+                          className="text-sm"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Days after the quotation is sent. Stops once the client answers or the quotation expires.
+                        </p>
+                      </div>
+                    )}
+                    {templateKey === 'quotation_follow_up' && renderFollowUpQuietHours()}
+                    {templateKey === 'payment_reminder' && renderPaymentReminderSettings()}
                     </CardContent>
                   </Card>
                 );
@@ -20,6 +20,19 @@ export const EVENTS_FILTER_GROUPS = [
       { key: 'has_balance', label: 'Has Pending Balance' }
     ]
   },
+  {
+    key: 'lifecycle_status',
+    label: 'Lifecycle Status',
+    icon: '🔄',
+    options: [
+      { key: 'status_quotation', label: 'Quotation' },
+      { key: 'status_confirmed', label: 'Confirmed' },
+      { key: 'status_shooting', label: 'Shooting' },
+      { key: 'status_editing', label: 'Editing' },
+      { key: 'status_delivered', label: 'Delivered' },
+      { key: 'status_cancelled', label: 'Cancelled', color: 'destructive' }
+    ]
+  },
   {
     key: 'event_status',
     label: 'Event Status',
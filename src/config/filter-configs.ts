@@ -49,7 +49,8 @@ export const FILTER_CONFIGS: Record<string, FilterConfig> = {
       ),
       quotation_source:quotations(id, quotation_details),
       payments!payments_event_id_fkey(*),
-      event_closing_balances(*)
+      event_closing_balances(*),
+      event_payment_milestones(*)
     `,
     sortOptions: [
       { value: 'event_date', label: 'Event Date' },
@@ -88,6 +89,43 @@ export const FILTER_CONFIGS: Record<string, FilterConfig> = {
         type: 'boolean',
         queryBuilder: (query) => query.eq('event_type', 'Others')
       },
+      // Lifecycle status filters (events.status)
+      {
+        key: 'status_quotation',
+        label: 'Status: Quotation',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Quotation')
+      },
+      {
+        key: 'status_confirmed',
+        label: 'Status: Confirmed',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Confirmed')
+      },
+      {
+        key: 'status_shooting',
+        label: 'Status: Shooting',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Shooting')
+      },
+      {
+        key: 'status_editing',
+        label: 'Status: Editing',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Editing')
+      },
+      {
+        key: 'status_delivered',
+        label: 'Status: Delivered',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Delivered')
+      },
+      {
+        key: 'status_cancelled',
+        label: 'Status: Cancelled',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Cancelled')
+      },
       {
         key: 'this_month',
         label: 'This Month',
@@ -356,6 +394,42 @@ export const FILTER_CONFIGS: Record<string, FilterConfig> = {
           const today = new Date().toISOString().split('T')[0];
           return query.lt('valid_until', today);
         }
+      },
+      {
+        key: 'quotation_status_draft',
+        label: 'Status: Draft',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Draft')
+      },
+      {
+        key: 'quotation_status_sent',
+        label: 'Status: Sent',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Sent')
+      },
+      {
+        key: 'quotation_status_viewed',
+        label: 'Status: Viewed',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Viewed')
+      },
+      {
+        key: 'quotation_status_negotiating',
+        label: 'Status: Negotiating',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Negotiating')
+      },
+      {
+        key: 'quotation_status_accepted',
+        label: 'Status: Accepted',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Accepted')
+      },
+      {
+        key: 'quotation_status_rejected',
+        label: 'Status: Rejected',
+        type: 'boolean',
+        queryBuilder: (query) => query.eq('status', 'Rejected')
       }
     ],
     defaultSort: 'created_at'
@@ -791,8 +865,9 @@ export const FILTER_CONFIGS: Record<string, FilterConfig> = {
     selectQuery: `
       *,
       client:clients(id, name, email, phone, address),
-      payments(id, amount, payment_method, payment_date, invoice_id),
-      event_closing_balances(id, closing_amount, closing_reason, total_bill, collected_amount)
+      payments(id, amount, payment_method, custom_method, cheque_number, cheque_bank, cheque_status, payment_date, invoice_id),
+      event_closing_balances(id, closing_amount, closing_reason, total_bill, collected_amount),
+      event_payment_milestones(id, label, amount, due_date, sort_order)
     `,
     sortOptions: [
       { value: 'event_date', label: 'Event Date' },
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useToast } from '@/hooks/use-toast';
+import { parseEventTypeFilterKey } from '@/lib/event-type-utils';
 
 // Debounce utility
 const useDebounce = (value: string, delay: number) => {
@@ -281,6 +282,22 @@ export const useBackendFilters = (config: FilterConfig, options: UseBackendFilte
         'maternity': { field: 'event_type', value: 'Maternity Photography' },
         'others': { field: 'event_type', value: 'Others' },
         
+        // Event lifecycle status filters
+        'status_quotation': { field: 'status', value: 'Quotation' },
+        'status_confirmed': { field: 'status', value: 'Confirmed' },
+        'status_shooting': { field: 'status', value: 'Shooting' },
+        'status_editing': { field: 'status', value: 'Editing' },
+        'status_delivered': { field: 'status', value: 'Delivered' },
+        'status_cancelled': { field: 'status', value: 'Cancelled' },
+        
+        // Quotation pipeline status filters
+        'quotation_status_draft': { field: 'status', value: 'Draft' },
+        'quotation_status_sent': { field: 'status', value: 'Sent' },
+        'quotation_status_viewed': { field: 'status', value: 'Viewed' },
+        'quotation_status_negotiating': { field: 'status', value: 'Negotiating' },
+        'quotation_status_accepted': { field: 'status', value: 'Accepted' },
+        'quotation_status_rejected': { field: 'status', value: 'Rejected' },
+        
         // Expense category filters
         'equipment': { field: 'category', value: 'Equipment' },
         'travel': { field: 'category', value: 'Travel' },
@@ -300,8 +317,16 @@ export const useBackendFilters = (config: FilterConfig, options: UseBackendFilte
       // Group filters that operate on the same field
       const groupedFilters: string[] = [];
       otherFilters.forEach(filterKey => {
-        const mapping = fieldMappings[filterKey];
-        if (mapping) {
+        // Catalogue event types use 'event_type:<name>' keys
+        const catalogueEventType = parseEventTypeFilterKey(filterKey);
+        const mapping = catalogueEventType !== null
+          ? { field: 'event_type', value: catalogueEventType }
+          : fieldMappings[filterKey];
+        // 'completed' and 'pending' are task status keys; on events they are date-based filters
+        const isEventDateFilter = config.tableName === 'events' && ['completed', 'pending'].includes(filterKey);
+        // Quotations handle 'pending' above as "not converted", not as a status value
+        const isQuotationPendingFilter = config.tableName === 'quotations' && filterKey === 'pending';
+        if (mapping && !isEventDateFilter && !isQuotationPendingFilter) {
           groupedFilters.push(filterKey);
           if (!filterGroups[mapping.field]) {
             filterGroups[mapping.field] = { values: [], filterKeys: [] };
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { ScheduleEvent, SchedulePerson, fetchScheduleEvents } from '@/lib/crew-schedule-utils';
+
+/**
+ * Events, sessions and crew assignments within a date range. Admins get the whole firm and
+ * the people to schedule; other staff only see events they are assigned to.
+ */
+export const useCrewSchedule = (rangeStart: string, rangeEnd: string) => {
+  const { profile, currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const [events, setEvents] = useState<ScheduleEvent[]>([]);
+  const [people, setPeople] = useState<SchedulePerson[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = profile?.role === 'Admin';
+
+  const fetchSchedule = useCallback(async () => {
+    if (!profile?.id || !currentFirmId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const scheduleEvents = await fetchScheduleEvents(currentFirmId, rangeStart, rangeEnd);
+
+      if (isAdmin) {
+        const [staffResult, freelancersResult] = await Promise.all([
+          supabase.from('profiles').select('id, full_name, role').eq('firm_id', currentFirmId).order('full_name'),
+          supabase.from('freelancers').select('id, full_name, role').eq('firm_id', currentFirmId).order('full_name')
+        ]);
+
+        if (staffResult.error) throw staffResult.error;
+        if (freelancersResult.error) throw freelancersResult.error;
+
+        setPeople([
+          ...(staffResult.data || []).map(staff => ({ ...staff, is_freelancer: false })),
+          ...(freelancersResult.data || []).map(freelancer => ({ ...freelancer, is_freelancer: true }))
+        ]);
+        setEvents(scheduleEvents);
+      } else {
+        setEvents(scheduleEvents
+          .map(event => ({
+            ...event,
+            event_staff_assignments: event.event_staff_assignments.filter(a => a.staff_id === profile.id)
+          }))
+          .filter(event => event.event_staff_assignments.length > 0));
+      }
+    } catch (error) {
+      console.error('Error fetching crew schedule:', error);
+      toast({
+        title: "Error loading schedule",
+        description: error instanceof Error ? error.message : 'Failed to load the schedule',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, currentFirmId, isAdmin, rangeStart, rangeEnd, toast]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchSchedule();
+
+    // Keep the calendar in step with edits made elsewhere (event form, crew dialog)
+    const channel = supabase
+      .channel('crew-schedule-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_staff_assignments',
+          filter: `firm_id=eq.${currentFirmId}`,
+        },
+        () => {
+          fetchSchedule();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchSchedule, currentFirmId]);
+
+  return {
+    events,
+    people,
+    loading,
+    isAdmin,
+    refetch: fetchSchedule,
+  };
+};
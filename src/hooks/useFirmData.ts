@@ -18,6 +18,11 @@ interface FirmData {
   bank_account_number?: string;
   bank_ifsc_code?: string;
   bank_name?: string;
+  gstin?: string | null;
+  gst_state_code?: string | null;
+  tax_pricing_default?: string;
+  default_sac_code?: string;
+  cancellation_policy?: unknown; // CancellationPolicyTier[] JSON
 }
 
 export const useFirmData = () => {
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { FirmEventType } from '@/types/studio';
+import { getFallbackEventTypes, normalizeFirmEventType } from '@/lib/event-type-utils';
+
+/**
+ * Firm-scoped event type catalogue (name, colour, default crew and rates)
+ */
+export const useFirmEventTypes = () => {
+  const { currentFirmId } = useAuth();
+  const [eventTypes, setEventTypes] = useState<FirmEventType[]>(getFallbackEventTypes());
+  const [loading, setLoading] = useState(false);
+
+  const fetchEventTypes = useCallback(async () => {
+    if (!currentFirmId) {
+      setEventTypes(getFallbackEventTypes());
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('firm_event_types')
+        .select('*')
+        .eq('firm_id', currentFirmId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setEventTypes(data && data.length > 0
+        ? data.map(normalizeFirmEventType)
+        : getFallbackEventTypes(currentFirmId));
+    } catch (error) {
+      console.error('Error fetching event types:', error);
+      setEventTypes(getFallbackEventTypes(currentFirmId));
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFirmId]);
+
+  useEffect(() => {
+    fetchEventTypes();
+  }, [fetchEventTypes]);
+
+  return {
+    eventTypes,
+    activeEventTypes: eventTypes.filter(type => type.is_active),
+    loading,
+    refetch: fetchEventTypes
+  };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { FirmPaymentMethod } from '@/types/studio';
+
+/**
+ * Payment methods the firm has added on top of the built-in ones
+ */
+export const useFirmPaymentMethods = () => {
+  const { currentFirmId } = useAuth();
+  const [paymentMethods, setPaymentMethods] = useState<FirmPaymentMethod[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPaymentMethods = useCallback(async () => {
+    if (!currentFirmId) {
+      setPaymentMethods([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('firm_payment_methods')
+        .select('*')
+        .eq('firm_id', currentFirmId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setPaymentMethods(data || []);
+    } catch (error) {
+      console.error('Error fetching payment methods:', error);
+      setPaymentMethods([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFirmId]);
+
+  useEffect(() => {
+    fetchPaymentMethods();
+  }, [fetchPaymentMethods]);
+
+  return {
+    paymentMethods,
+    activePaymentMethods: paymentMethods.filter(method => method.is_active),
+    loading,
+    refetch: fetchPaymentMethods
+  };
+};
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { sendDuePaymentReminders } from '@/lib/payment-reminder-utils';
+
+const RUN_INTERVAL_MS = 15 * 60 * 1000;
+const lastRunByFirm = new Map<string, number>();
+
+/**
+ * Sends due WhatsApp payment reminders while an admin has the payments page open, so they go
+ * out promptly even where the scheduled send-payment-reminders job is not set up. Runs at most
+ * every 15 minutes per firm.
+ */
+export const usePaymentReminderAutomation = (onChange?: () => void) => {
+  const { currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!currentFirmId) return;
+    const lastRun = lastRunByFirm.get(currentFirmId);
+    if (lastRun && Date.now() - lastRun < RUN_INTERVAL_MS) return;
+    lastRunByFirm.set(currentFirmId, Date.now());
+
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const reminders = await sendDuePaymentReminders(currentFirmId);
+        if (cancelled) return;
+
+        if (reminders.sent > 0) {
+          onChangeRef.current?.();
+          toast({
+            title: "Payment reminders sent",
+            description: `${reminders.sent} payment reminder${reminders.sent === 1 ? '' : 's'} sent to clients on WhatsApp.`,
+          });
+        }
+        if (reminders.failed > 0) {
+          toast({
+            title: "Some reminders were not sent",
+            description: `${reminders.failed} reminder${reminders.failed === 1 ? '' : 's'} failed. Check that WhatsApp is connected.`,
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error('Error sending payment reminders:', error);
+      }
+    };
+
+    run();
+    return () => { cancelled = true; };
+  }, [currentFirmId, toast]);
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { CatalogueItem, QuotationPackage } from '@/types/studio';
+import { getFallbackCatalogue, normalizeCatalogueItem, normalizeQuotationPackage } from '@/lib/quotation-catalogue-utils';
+
+/**
+ * Firm product catalogue (priced add-ons and post-production) and the packages built from it
+ */
+export const useQuotationCatalogue = () => {
+  const { currentFirmId } = useAuth();
+  const [items, setItems] = useState<CatalogueItem[]>([]);
+  const [packages, setPackages] = useState<QuotationPackage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCatalogue = useCallback(async () => {
+    if (!currentFirmId) {
+      setItems(getFallbackCatalogue());
+      setPackages([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [itemsResult, packagesResult] = await Promise.all([
+        supabase
+          .from('firm_catalogue_items')
+          .select('*')
+          .eq('firm_id', currentFirmId)
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true }),
+        supabase
+          .from('quotation_packages')
+          .select('*, items:quotation_package_items(catalogue_item_id, quantity)')
+          .eq('firm_id', currentFirmId)
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true })
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (packagesResult.error) throw packagesResult.error;
+
+      const catalogue = (itemsResult.data || []).map(normalizeCatalogueItem);
+      setItems(catalogue.length > 0 ? catalogue : getFallbackCatalogue(currentFirmId));
+      setPackages((packagesResult.data || []).map(normalizeQuotationPackage));
+    } catch (error) {
+      console.error('Error fetching quotation catalogue:', error);
+      setItems(getFallbackCatalogue(currentFirmId));
+      setPackages([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFirmId]);
+
+  useEffect(() => {
+    fetchCatalogue();
+  }, [fetchCatalogue]);
+
+  return {
+    items,
+    activeItems: items.filter(item => item.is_active),
+    packages,
+    activePackages: packages.filter(pkg => pkg.is_active),
+    loading,
+    refetch: fetchCatalogue
+  };
+};
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { expireFirmQuotations } from '@/lib/quotation-status-utils';
+import { sendDueQuotationFollowUps } from '@/lib/quotation-follow-up-utils';
+
+const RUN_INTERVAL_MS = 15 * 60 * 1000;
+const lastRunByFirm = new Map<string, number>();
+
+/**
+ * Expires lapsed quotations and sends due WhatsApp follow-ups while an admin has the
+ * quotations page open. Runs at most every 15 minutes per firm; the scheduled jobs and the
+ * send-quotation-follow-ups function cover expiry and sending when nobody is signed in.
+ */
+export const useQuotationPipelineAutomation = (onChange?: () => void) => {
+  const { currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!currentFirmId) return;
+    const lastRun = lastRunByFirm.get(currentFirmId);
+    if (lastRun && Date.now() - lastRun < RUN_INTERVAL_MS) return;
+    lastRunByFirm.set(currentFirmId, Date.now());
+
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const expired = await expireFirmQuotations(currentFirmId);
+        const followUps = await sendDueQuotationFollowUps(currentFirmId);
+        if (cancelled) return;
+
+        if (expired > 0 || followUps.sent > 0) onChangeRef.current?.();
+        if (followUps.sent > 0) {
+          toast({
+            title: "Follow-ups sent",
+            description: `${followUps.sent} quotation follow-up${followUps.sent === 1 ? '' : 's'} sent to clients on WhatsApp.`,
+          });
+        }
+        if (followUps.failed > 0) {
+          toast({
+            title: "Some follow-ups were not sent",
+            description: `${followUps.failed} follow-up${followUps.failed === 1 ? '' : 's'} failed. Check that WhatsApp is connected.`,
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error('Error running quotation follow-ups:', error);
+      }
+    };
+
+    run();
+    return () => { cancelled = true; };
+  }, [currentFirmId, toast]);
+};
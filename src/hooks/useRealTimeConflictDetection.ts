@@ -2,16 +2,13 @@ import { useState, useCallback } from 'react';
 import { 
   getPersonConflictDetails, 
   calculateEventDateRange, 
-  DateRange,
+  ConflictingEventDetail,
+  SessionWindow,
+  hasHardConflict,
   StaffAssignment 
 } from '@/lib/staff-availability-utils';
 
-interface ConflictingEvent {
-  eventId: string;
-  eventTitle?: string;
-  role: string;
-  dateRange: DateRange;
-}
+type ConflictingEvent = ConflictingEventDetail;
 
 interface ConflictState {
   isOpen: boolean;
@@ -40,7 +37,8 @@ export const useRealTimeConflictDetection = (
     eventDate: string,
     totalDays: number = 1,
     currentAssignments: StaffAssignment[] = [],
-    onConfirm: () => void
+    onConfirm: () => void,
+    sessionWindow?: SessionWindow
   ): Promise<boolean> => {
     if (!personId || !eventDate || !currentFirmId) {
       onConfirm();
@@ -60,11 +58,13 @@ export const useRealTimeConflictDetection = (
         eventDateRange,
         currentEventId,
         currentFirmId,
-        currentAssignments
+        currentAssignments,
+        sessionWindow
       );
 
       if (conflictDetails.hasConflict && conflictDetails.conflictingEvents.length > 0) {
-        // Show conflict dialog
+        // Show conflict dialog; approved leave cannot be confirmed past
+        const isHardConflict = hasHardConflict(conflictDetails.conflictingEvents);
         setConflictState({
           isOpen: true,
           staffName: personName,
@@ -72,7 +72,7 @@ export const useRealTimeConflictDetection = (
           conflictingEvents: conflictDetails.conflictingEvents,
           onConfirm: () => {
             setConflictState(prev => ({ ...prev, isOpen: false }));
-            onConfirm();
+            if (!isHardConflict) onConfirm();
           }
         });
         return false; // Assignment blocked until user confirms
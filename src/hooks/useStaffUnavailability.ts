@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { StaffUnavailability } from '@/types/studio';
+import { fetchApprovedUnavailability, fetchUnavailability } from '@/lib/staff-unavailability-utils';
+
+/**
+ * Approved unavailability overlapping a date range, for blocking crew pickers
+ */
+export const useApprovedUnavailability = (startDate?: string, endDate?: string) => {
+  const { currentFirmId } = useAuth();
+  const [blocks, setBlocks] = useState<StaffUnavailability[]>([]);
+
+  useEffect(() => {
+    if (!currentFirmId || !startDate) {
+      setBlocks([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchApprovedUnavailability(currentFirmId, { startDate, endDate: endDate || startDate }).then(result => {
+      if (!cancelled) setBlocks(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentFirmId, startDate, endDate]);
+
+  return blocks;
+};
+
+/**
+ * Leave requests and approved blocks. Admins get the whole firm, staff only their own.
+ */
+export const useStaffUnavailability = () => {
+  const { profile, currentFirmId } = useAuth();
+  const { toast } = useToast();
+  const [blocks, setBlocks] = useState<StaffUnavailability[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = profile?.role === 'Admin';
+
+  const fetchBlocks = useCallback(async () => {
+    if (!profile?.id || !currentFirmId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setBlocks(await fetchUnavailability(currentFirmId, isAdmin ? undefined : profile.id));
+    } catch (error) {
+      console.error('Error fetching unavailability:', error);
+      toast({
+        title: "Error loading leave",
+        description: error instanceof Error ? error.message : 'Failed to load unavailability',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id, currentFirmId, isAdmin, toast]);
+
+  useEffect(() => {
+    fetchBlocks();
+  }, [fetchBlocks]);
+
+  return {
+    blocks,
+    pendingCount: blocks.filter(block => !block.approved).length,
+    loading,
+    isAdmin,
+    refetch: fetchBlocks,
+  };
+};
@@ -1,6 +1,8 @@
 import { useMemo } from 'react';
 import { FILTER_CONFIGS } from '@/config/filter-configs';
 import { ExportConfig } from '@/components/common/UniversalExportDialog';
+import { useFirmEventTypes } from '@/hooks/useFirmEventTypes';
+import { EVENT_TYPE_FILTER_PREFIX, withEventTypeFilterOptions } from '@/lib/event-type-utils';
 
 interface UniversalExportConfigParams {
   entityName: string;
@@ -29,6 +31,8 @@ export const useUniversalExportConfig = ({
   getPreviewData,
   additionalFilterTypes = []
 }: UniversalExportConfigParams): ExportConfig => {
+  const { eventTypes } = useFirmEventTypes();
+
   return useMemo(() => {
     const filterConfig = FILTER_CONFIGS[entityName];
     
@@ -59,17 +63,25 @@ export const useUniversalExportConfig = ({
     const miscFilters: Array<{ value: string; label: string }> = [];
 
     // Categorize filters based on their keys and labels
-    filterConfig.filterOptions?.forEach(option => {
+    const filterOptions = filterConfig.filterOptions
+      ? withEventTypeFilterOptions(filterConfig.filterOptions, eventTypes)
+      : filterConfig.filterOptions;
+
+    filterOptions?.forEach(option => {
       const filterOption = { value: option.key, label: option.label };
       
+      // Catalogue event types (checked first, their names are free text)
+      if (option.key.startsWith(EVENT_TYPE_FILTER_PREFIX)) {
+        typeFilters.push(filterOption);
+      }
       // Status-related filters
-      if (option.key.includes('completed') || option.key.includes('pending') || 
+      else if (option.key.includes('completed') || option.key.includes('pending') || 
           option.key.includes('progress') || option.key.includes('waiting') ||
           option.key.includes('accepted') || option.key.includes('declined') ||
           option.key.includes('hold') || option.key.includes('review') ||
           option.key.includes('reported') || option.key.includes('upcoming') ||
           option.key.includes('converted') || option.key.includes('valid') ||
-          option.key.includes('expired')) {
+          option.key.includes('expired') || option.key.startsWith('status_')) {
         statusFilters.push(filterOption);
       }
       // Event/Task type filters
@@ -218,7 +230,7 @@ export const useUniversalExportConfig = ({
       exportFunction,
       getPreviewData
     };
-  }, [entityName, title, exportFunction, getPreviewData, additionalFilterTypes]);
+  }, [entityName, title, exportFunction, getPreviewData, additionalFilterTypes, eventTypes]);
 };
 
 /**
@@ -68,41 +68,305 @@ export type Database = {
         }
         Relationships: []
       }
+      bank_statement_imports: {
+        Row: {
+          bank_format: string
+          created_at: string
+          created_by: string | null
+          file_name: string
+          firm_id: string
+          id: string
+          period_from: string | null
+          period_to: string | null
+        }
+        Insert: {
+          bank_format: string
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          firm_id: string
+          id?: string
+          period_from?: string | null
+          period_to?: string | null
+        }
+        Update: {
+          bank_format?: string
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          firm_id?: string
+          id?: string
+          period_from?: string | null
+          period_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_imports_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_imports_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_lines: {
+        Row: {
+          amount: number
+          balance: number | null
+          created_at: string
+          description: string
+          direction: string
+          fingerprint: string
+          firm_id: string
+          id: string
+          ignored: boolean
+          import_id: string
+          line_date: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          balance?: number | null
+          created_at?: string
+          description?: string
+          direction: string
+          fingerprint: string
+          firm_id: string
+          id?: string
+          ignored?: boolean
+          import_id: string
+          line_date: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          balance?: number | null
+          created_at?: string
+          description?: string
+          direction?: string
+          fingerprint?: string
+          firm_id?: string
+          id?: string
+          ignored?: boolean
+          import_id?: string
+          line_date?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_receipt_allocations: {
+        Row: {
+          amount: number
+          created_at: string
+          event_id: string
+          firm_id: string
+          id: string
+          receipt_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          event_id: string
+          firm_id: string
+          id?: string
+          receipt_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          event_id?: string
+          firm_id?: string
+          id?: string
+          receipt_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_receipt_allocations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_receipt_allocations_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_receipt_allocations_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "client_receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_receipts: {
+        Row: {
+          amount: number
+          bank_statement_line_id: string | null
+          cheque_bank: string | null
+          cheque_cleared_on: string | null
+          cheque_number: string | null
+          cheque_status: string | null
+          client_id: string
+          created_at: string
+          created_by: string | null
+          custom_method: string | null
+          firm_id: string
+          id: string
+          notes: string | null
+          payment_date: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          receipt_number: string
+          reference_number: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bank_statement_line_id?: string | null
+          cheque_bank?: string | null
+          cheque_cleared_on?: string | null
+          cheque_number?: string | null
+          cheque_status?: string | null
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          custom_method?: string | null
+          firm_id: string
+          id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          receipt_number?: string
+          reference_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bank_statement_line_id?: string | null
+          cheque_bank?: string | null
+          cheque_cleared_on?: string | null
+          cheque_number?: string | null
+          cheque_status?: string | null
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
+          custom_method?: string | null
+          firm_id?: string
+          id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          receipt_number?: string
+          reference_number?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_receipts_bank_statement_line_id_fkey"
+            columns: ["bank_statement_line_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_receipts_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_receipts_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           address: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           email: string | null
           firm_id: string | null
+          gstin: string | null
           id: string
           name: string
           notes: string | null
+          payment_reminders_opt_out: boolean
           phone: string
+          state_code: string | null
           updated_at: string
         }
         Insert: {
           address?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string | null
           firm_id?: string | null
+          gstin?: string | null
           id?: string
           name: string
           notes?: string | null
+          payment_reminders_opt_out?: boolean
           phone: string
+          state_code?: string | null
           updated_at?: string
         }
         Update: {
           address?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string | null
           firm_id?: string | null
+          gstin?: string | null
           id?: string
           name?: string
           notes?: string | null
+          payment_reminders_opt_out?: boolean
           phone?: string
+          state_code?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "clients_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_clients_firm_id"
             columns: ["firm_id"]
@@ -233,70 +497,53 @@ export type Database = {
           },
         ]
       }
-      event_staff_assignments: {
+      event_payment_milestones: {
         Row: {
-          created_at: string | null
-          day_date: string | null
-          day_number: number
+          amount: number
+          created_at: string
+          due_date: string | null
           event_id: string
-          firm_id: string | null
-          freelancer_id: string | null
+          firm_id: string
           id: string
-          role: string
-          staff_id: string | null
-          staff_type: string | null
-          updated_at: string | null
+          label: string
+          percentage: number | null
+          sort_order: number
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          day_date?: string | null
-          day_number?: number
+          amount: number
+          created_at?: string
+          due_date?: string | null
           event_id: string
-          firm_id?: string | null
-          freelancer_id?: string | null
+          firm_id: string
           id?: string
-          role: string
-          staff_id?: string | null
-          staff_type?: string | null
-          updated_at?: string | null
+          label: string
+          percentage?: number | null
+          sort_order?: number
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          day_date?: string | null
-          day_number?: number
+          amount?: number
+          created_at?: string
+          due_date?: string | null
           event_id?: string
-          firm_id?: string | null
-          freelancer_id?: string | null
+          firm_id?: string
           id?: string
-          role?: string
-          staff_id?: string | null
-          staff_type?: string | null
-          updated_at?: string | null
+          label?: string
+          percentage?: number | null
+          sort_order?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "event_staff_assignments_event_id_fkey"
+            foreignKeyName: "event_payment_milestones_event_id_fkey"
             columns: ["event_id"]
             isOneToOne: false
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "event_staff_assignments_freelancer_id_fkey"
-            columns: ["freelancer_id"]
-            isOneToOne: false
-            referencedRelation: "freelancers"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "event_staff_assignments_staff_id_fkey"
-            columns: ["staff_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "fk_event_staff_assignments_firm_id"
+            foreignKeyName: "event_payment_milestones_firm_id_fkey"
             columns: ["firm_id"]
             isOneToOne: false
             referencedRelation: "firms"
@@ -304,282 +551,206 @@ export type Database = {
           },
         ]
       }
-      events: {
+      event_refunds: {
         Row: {
-          advance_amount: number | null
-          advance_payment_method:
-            | Database["public"]["Enums"]["payment_method"]
-            | null
-          balance_amount: number | null
-          calendar_event_id: string | null
-          client_id: string | null
+          amount: number
           created_at: string
           created_by: string | null
-          description: string | null
-          event_date: string
-          event_end_date: string | null
-          event_type: Database["public"]["Enums"]["event_type"]
-          firm_id: string | null
+          credit_note_number: string
+          event_id: string
+          firm_id: string
           id: string
-          other_crew_enabled: boolean | null
-          photo_editing_status: boolean | null
-          quotation_source_id: string | null
-          same_day_editor: boolean | null
-          storage_disk: string | null
-          storage_size: number | null
-          title: string
-          total_amount: number | null
-          total_days: number | null
+          kind: string
+          payment_id: string | null
+          reason: string | null
+          reference_number: string | null
+          refund_date: string
+          refund_method: Database["public"]["Enums"]["payment_method"]
           updated_at: string
-          venue: string | null
-          video_editing_status: boolean | null
         }
         Insert: {
-          advance_amount?: number | null
-          advance_payment_method?:
-            | Database["public"]["Enums"]["payment_method"]
-            | null
-          balance_amount?: number | null
-          calendar_event_id?: string | null
-          client_id?: string | null
+          amount: number
           created_at?: string
           created_by?: string | null
-          description?: string | null
-          event_date: string
-          event_end_date?: string | null
-          event_type: Database["public"]["Enums"]["event_type"]
-          firm_id?: string | null
+          credit_note_number?: string
+          event_id: string
+          firm_id: string
           id?: string
-          other_crew_enabled?: boolean | null
-          photo_editing_status?: boolean | null
-          quotation_source_id?: string | null
-          same_day_editor?: boolean | null
-          storage_disk?: string | null
-          storage_size?: number | null
-          title: string
-          total_amount?: number | null
-          total_days?: number | null
+          kind?: string
+          payment_id?: string | null
+          reason?: string | null
+          reference_number?: string | null
+          refund_date?: string
+          refund_method?: Database["public"]["Enums"]["payment_method"]
           updated_at?: string
-          venue?: string | null
-          video_editing_status?: boolean | null
         }
         Update: {
-          advance_amount?: number | null
-          advance_payment_method?:
-            | Database["public"]["Enums"]["payment_method"]
-            | null
-          balance_amount?: number | null
-          calendar_event_id?: string | null
-          client_id?: string | null
+          amount?: number
           created_at?: string
           created_by?: string | null
-          description?: string | null
-          event_date?: string
-          event_end_date?: string | null
-          event_type?: Database["public"]["Enums"]["event_type"]
-          firm_id?: string | null
+          credit_note_number?: string
+          event_id?: string
+          firm_id?: string
           id?: string
-          other_crew_enabled?: boolean | null
-          photo_editing_status?: boolean | null
-          quotation_source_id?: string | null
-          same_day_editor?: boolean | null
-          storage_disk?: string | null
-          storage_size?: number | null
-          title?: string
-          total_amount?: number | null
-          total_days?: number | null
+          kind?: string
+          payment_id?: string | null
+          reason?: string | null
+          reference_number?: string | null
+          refund_date?: string
+          refund_method?: Database["public"]["Enums"]["payment_method"]
           updated_at?: string
-          venue?: string | null
-          video_editing_status?: boolean | null
         }
         Relationships: [
           {
-            foreignKeyName: "events_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "event_refunds_event_id_fkey"
+            columns: ["event_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_events_client_id"
-            columns: ["client_id"]
+            foreignKeyName: "event_refunds_firm_id_fkey"
+            columns: ["firm_id"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "firms"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_events_firm_id"
-            columns: ["firm_id"]
+            foreignKeyName: "event_refunds_payment_id_fkey"
+            columns: ["payment_id"]
             isOneToOne: false
-            referencedRelation: "firms"
+            referencedRelation: "payments"
             referencedColumns: ["id"]
           },
         ]
       }
-      expenses: {
+      event_series: {
         Row: {
-          amount: number
-          category: Database["public"]["Enums"]["expense_category"]
+          client_id: string | null
           created_at: string
           created_by: string | null
-          description: string
-          event_id: string | null
-          expense_date: string
-          firm_id: string | null
+          ends_on: string
+          firm_id: string
+          frequency: string
           id: string
-          notes: string | null
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          receipt_url: string | null
+          interval_count: number
+          starts_on: string
+          template_id: string | null
+          title: string
           updated_at: string
         }
         Insert: {
-          amount: number
-          category: Database["public"]["Enums"]["expense_category"]
+          client_id?: string | null
           created_at?: string
           created_by?: string | null
-          description: string
-          event_id?: string | null
-          expense_date?: string
-          firm_id?: string | null
+          ends_on: string
+          firm_id: string
+          frequency: string
           id?: string
-          notes?: string | null
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          receipt_url?: string | null
+          interval_count?: number
+          starts_on: string
+          template_id?: string | null
+          title: string
           updated_at?: string
         }
         Update: {
-          amount?: number
-          category?: Database["public"]["Enums"]["expense_category"]
+          client_id?: string | null
           created_at?: string
           created_by?: string | null
-          description?: string
-          event_id?: string | null
-          expense_date?: string
-          firm_id?: string | null
+          ends_on?: string
+          firm_id?: string
+          frequency?: string
           id?: string
-          notes?: string | null
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          receipt_url?: string | null
+          interval_count?: number
+          starts_on?: string
+          template_id?: string | null
+          title?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "expenses_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "event_series_client_id_fkey"
+            columns: ["client_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "clients"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_expenses_event_id"
-            columns: ["event_id"]
+            foreignKeyName: "event_series_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_expenses_firm_id"
+            foreignKeyName: "event_series_firm_id_fkey"
             columns: ["firm_id"]
             isOneToOne: false
             referencedRelation: "firms"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      firm_members: {
-        Row: {
-          firm_id: string
-          id: string
-          joined_at: string
-          role: string
-          user_id: string
-        }
-        Insert: {
-          firm_id: string
-          id?: string
-          joined_at?: string
-          role?: string
-          user_id: string
-        }
-        Update: {
-          firm_id?: string
-          id?: string
-          joined_at?: string
-          role?: string
-          user_id?: string
-        }
-        Relationships: [
           {
-            foreignKeyName: "firm_members_firm_id_fkey"
-            columns: ["firm_id"]
+            foreignKeyName: "event_series_template_id_fkey"
+            columns: ["template_id"]
             isOneToOne: false
-            referencedRelation: "firms"
+            referencedRelation: "event_templates"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "fk_firm_members_user_profile"
-            columns: ["user_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
-          },
         ]
       }
-      firm_payments: {
+      event_sessions: {
         Row: {
-          amount: number
           created_at: string
-          currency: string
+          end_time: string | null
+          event_id: string
           firm_id: string
           id: string
+          name: string
           notes: string | null
-          paid_at: string | null
-          period_months: number
-          plan_type: string
-          razorpay_order_id: string | null
-          razorpay_payment_id: string | null
-          razorpay_signature: string | null
-          receipt_url: string | null
-          status: string
+          session_date: string
+          sort_order: number
+          start_time: string | null
           updated_at: string
+          venue: string | null
         }
         Insert: {
-          amount: number
           created_at?: string
-          currency?: string
+          end_time?: string | null
+          event_id: string
           firm_id: string
           id?: string
+          name: string
           notes?: string | null
-          paid_at?: string | null
-          period_months: number
-          plan_type: string
-          razorpay_order_id?: string | null
-          razorpay_payment_id?: string | null
-          razorpay_signature?: string | null
-          receipt_url?: string | null
-          status: string
+          session_date: string
+          sort_order?: number
+          start_time?: string | null
           updated_at?: string
+          venue?: string | null
         }
         Update: {
-          amount?: number
           created_at?: string
-          currency?: string
+          end_time?: string | null
+          event_id?: string
           firm_id?: string
           id?: string
+          name?: string
           notes?: string | null
-          paid_at?: string | null
-          period_months?: number
-          plan_type?: string
-          razorpay_order_id?: string | null
-          razorpay_payment_id?: string | null
-          razorpay_signature?: string | null
-          receipt_url?: string | null
-          status?: string
+          session_date?: string
+          sort_order?: number
+          start_time?: string | null
           updated_at?: string
+          venue?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "firm_payments_firm_id_fkey"
+            foreignKeyName: "event_sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_sessions_firm_id_fkey"
             columns: ["firm_id"]
             isOneToOne: false
             referencedRelation: "firms"
@@ -587,460 +758,1821 @@ export type Database = {
           },
         ]
       }
-      firm_subscriptions: {
+      event_staff_assignments: {
         Row: {
-          created_at: string
-          firm_id: string
-          grace_until: string | null
-          last_payment_at: string | null
-          plan_type: string | null
-          status: string
-          subscribed_once: boolean
-          subscription_end_at: string | null
-          subscription_start_at: string | null
-          trial_end_at: string
-          trial_start_at: string
-          updated_at: string
+          created_at: string | null
+          day_date: string | null
+          day_number: number
+          event_id: string
+          firm_id: string | null
+          freelancer_id: string | null
+          id: string
+          role: string
+          session_id: string | null
+          staff_id: string | null
+          staff_type: string | null
+          updated_at: string | null
         }
         Insert: {
-          created_at?: string
-          firm_id: string
-          grace_until?: string | null
-          last_payment_at?: string | null
-          plan_type?: string | null
-          status?: string
-          subscribed_once?: boolean
-          subscription_end_at?: string | null
-          subscription_start_at?: string | null
-          trial_end_at: string
-          trial_start_at?: string
-          updated_at?: string
+          created_at?: string | null
+          day_date?: string | null
+          day_number?: number
+          event_id: string
+          firm_id?: string | null
+          freelancer_id?: string | null
+          id?: string
+          role: string
+          session_id?: string | null
+          staff_id?: string | null
+          staff_type?: string | null
+          updated_at?: string | null
         }
         Update: {
-          created_at?: string
-          firm_id?: string
-          grace_until?: string | null
-          last_payment_at?: string | null
-          plan_type?: string | null
-          status?: string
-          subscribed_once?: boolean
-          subscription_end_at?: string | null
-          subscription_start_at?: string | null
-          trial_end_at?: string
-          trial_start_at?: string
-          updated_at?: string
+          created_at?: string | null
+          day_date?: string | null
+          day_number?: number
+          event_id?: string
+          firm_id?: string | null
+          freelancer_id?: string | null
+          id?: string
+          role?: string
+          session_id?: string | null
+          staff_id?: string | null
+          staff_type?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "firm_subscriptions_firm_id_fkey"
+            foreignKeyName: "event_staff_assignments_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_staff_assignments_freelancer_id_fkey"
+            columns: ["freelancer_id"]
+            isOneToOne: false
+            referencedRelation: "freelancers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_staff_assignments_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "event_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_staff_assignments_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_event_staff_assignments_firm_id"
             columns: ["firm_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "firms"
             referencedColumns: ["id"]
           },
         ]
       }
-      firms: {
+      event_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          event_id: string
+          firm_id: string
+          from_status: Database["public"]["Enums"]["event_status"] | null
+          id: string
+          notes: string | null
+          to_status: Database["public"]["Enums"]["event_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          event_id: string
+          firm_id: string
+          from_status?: Database["public"]["Enums"]["event_status"] | null
+          id?: string
+          notes?: string | null
+          to_status: Database["public"]["Enums"]["event_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          event_id?: string
+          firm_id?: string
+          from_status?: Database["public"]["Enums"]["event_status"] | null
+          id?: string
+          notes?: string | null
+          to_status?: Database["public"]["Enums"]["event_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_status_history_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_status_history_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_templates: {
         Row: {
-          bank_account_name: string | null
-          bank_account_number: string | null
-          bank_ifsc_code: string | null
-          bank_name: string | null
-          calendar_id: string | null
-          contact_email: string | null
-          contact_phone: string | null
           created_at: string
           created_by: string | null
-          default_addon_rates: Json | null
-          default_postproduction_rates: Json | null
-          default_role_rates: Json | null
+          crew: Json
           description: string | null
-          footer_content: string | null
-          header_left_content: string | null
+          end_time: string | null
+          event_type: string
+          firm_id: string
           id: string
-          logo_url: string | null
+          is_active: boolean
           name: string
-          spreadsheet_id: string | null
-          tagline: string | null
+          start_time: string | null
+          tasks: Json
+          total_amount: number
+          total_days: number
           updated_at: string
-          upi_id: string | null
+          venue: string | null
         }
         Insert: {
-          bank_account_name?: string | null
-          bank_account_number?: string | null
-          bank_ifsc_code?: string | null
-          bank_name?: string | null
-          calendar_id?: string | null
-          contact_email?: string | null
-          contact_phone?: string | null
           created_at?: string
           created_by?: string | null
-          default_addon_rates?: Json | null
-          default_postproduction_rates?: Json | null
-          default_role_rates?: Json | null
+          crew?: Json
           description?: string | null
-          footer_content?: string | null
-          header_left_content?: string | null
+          end_time?: string | null
+          event_type?: string
+          firm_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          start_time?: string | null
+          tasks?: Json
+          total_amount?: number
+          total_days?: number
+          updated_at?: string
+          venue?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          crew?: Json
+          description?: string | null
+          end_time?: string | null
+          event_type?: string
+          firm_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          start_time?: string | null
+          tasks?: Json
+          total_amount?: number
+          total_days?: number
+          updated_at?: string
+          venue?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_templates_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          advance_amount: number | null
+          advance_payment_method:
+            | Database["public"]["Enums"]["payment_method"]
+            | null
+          balance_amount: number | null
+          calendar_event_id: string | null
+          client_id: string | null
+          created_at: string
+          created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          event_date: string
+          event_end_date: string | null
+          event_type: string
+          firm_id: string | null
+          id: string
+          invoice_number: string | null
+          other_crew_enabled: boolean | null
+          photo_editing_status: boolean | null
+          place_of_supply: string | null
+          quotation_source_id: string | null
+          same_day_editor: boolean | null
+          series_exception: boolean
+          series_id: string | null
+          status: Database["public"]["Enums"]["event_status"]
+          storage_disk: string | null
+          storage_size: number | null
+          tax_amount: number
+          tax_breakdown: Json | null
+          tax_pricing: string | null
+          title: string
+          total_amount: number | null
+          total_days: number | null
+          updated_at: string
+          venue: string | null
+          video_editing_status: boolean | null
+        }
+        Insert: {
+          advance_amount?: number | null
+          advance_payment_method?:
+            | Database["public"]["Enums"]["payment_method"]
+            | null
+          balance_amount?: number | null
+          calendar_event_id?: string | null
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          event_date: string
+          event_end_date?: string | null
+          event_type: string
+          firm_id?: string | null
+          id?: string
+          invoice_number?: string | null
+          other_crew_enabled?: boolean | null
+          photo_editing_status?: boolean | null
+          place_of_supply?: string | null
+          quotation_source_id?: string | null
+          same_day_editor?: boolean | null
+          series_exception?: boolean
+          series_id?: string | null
+          status?: Database["public"]["Enums"]["event_status"]
+          storage_disk?: string | null
+          storage_size?: number | null
+          tax_amount?: number
+          tax_breakdown?: Json | null
+          tax_pricing?: string | null
+          title: string
+          total_amount?: number | null
+          total_days?: number | null
+          updated_at?: string
+          venue?: string | null
+          video_editing_status?: boolean | null
+        }
+        Update: {
+          advance_amount?: number | null
+          advance_payment_method?:
+            | Database["public"]["Enums"]["payment_method"]
+            | null
+          balance_amount?: number | null
+          calendar_event_id?: string | null
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          event_date?: string
+          event_end_date?: string | null
+          event_type?: string
+          firm_id?: string | null
+          id?: string
+          invoice_number?: string | null
+          other_crew_enabled?: boolean | null
+          photo_editing_status?: boolean | null
+          place_of_supply?: string | null
+          quotation_source_id?: string | null
+          same_day_editor?: boolean | null
+          series_exception?: boolean
+          series_id?: string | null
+          status?: Database["public"]["Enums"]["event_status"]
+          storage_disk?: string | null
+          storage_size?: number | null
+          tax_amount?: number
+          tax_breakdown?: Json | null
+          tax_pricing?: string | null
+          title?: string
+          total_amount?: number | null
+          total_days?: number | null
+          updated_at?: string
+          venue?: string | null
+          video_editing_status?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "event_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_events_client_id"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_events_firm_id"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expenses: {
+        Row: {
+          amount: number
+          bank_statement_line_id: string | null
+          category: Database["public"]["Enums"]["expense_category"]
+          created_at: string
+          created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string
+          event_id: string | null
+          expense_date: string
+          firm_id: string | null
+          id: string
+          notes: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          receipt_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bank_statement_line_id?: string | null
+          category: Database["public"]["Enums"]["expense_category"]
+          created_at?: string
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description: string
+          event_id?: string | null
+          expense_date?: string
+          firm_id?: string | null
+          id?: string
+          notes?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          receipt_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bank_statement_line_id?: string | null
+          category?: Database["public"]["Enums"]["expense_category"]
+          created_at?: string
+          created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string
+          event_id?: string | null
+          expense_date?: string
+          firm_id?: string | null
+          id?: string
+          notes?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          receipt_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_bank_statement_line_id_fkey"
+            columns: ["bank_statement_line_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_expenses_event_id"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_expenses_firm_id"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_catalogue_items: {
+        Row: {
+          created_at: string
+          crew: Json
+          description: string | null
+          firm_id: string
+          hsn_sac: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          sort_order: number
+          tax_class: string
+          unit: string | null
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          crew?: Json
+          description?: string | null
+          firm_id: string
+          hsn_sac?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          sort_order?: number
+          tax_class?: string
+          unit?: string | null
+          unit_price?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          crew?: Json
+          description?: string | null
+          firm_id?: string
+          hsn_sac?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          sort_order?: number
+          tax_class?: string
+          unit?: string | null
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_catalogue_items_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_document_counters: {
+        Row: {
+          document_type: string
+          firm_id: string
+          last_number: number
+          period: string
+          updated_at: string
+        }
+        Insert: {
+          document_type: string
+          firm_id: string
+          last_number?: number
+          period: string
+          updated_at?: string
+        }
+        Update: {
+          document_type?: string
+          firm_id?: string
+          last_number?: number
+          period?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_document_counters_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_document_series: {
+        Row: {
+          created_at: string
+          document_type: string
+          firm_id: string
+          id: string
+          padding: number
+          prefix: string
+          reset_financial_year: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          document_type: string
+          firm_id: string
+          id?: string
+          padding?: number
+          prefix?: string
+          reset_financial_year?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          firm_id?: string
+          id?: string
+          padding?: number
+          prefix?: string
+          reset_financial_year?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_document_series_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_event_types: {
+        Row: {
+          color: string
+          created_at: string
+          default_crew: Json
+          default_rates: Json
+          firm_id: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          default_crew?: Json
+          default_rates?: Json
+          firm_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          default_crew?: Json
+          default_rates?: Json
+          firm_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_event_types_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_members: {
+        Row: {
+          firm_id: string
+          id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          firm_id: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          firm_id?: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_members_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_firm_members_user_profile"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      firm_payment_methods: {
+        Row: {
+          created_at: string
+          firm_id: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          firm_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          firm_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_payment_methods_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          firm_id: string
+          id: string
+          notes: string | null
+          paid_at: string | null
+          period_months: number
+          plan_type: string
+          razorpay_order_id: string | null
+          razorpay_payment_id: string | null
+          razorpay_signature: string | null
+          receipt_url: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          firm_id: string
+          id?: string
+          notes?: string | null
+          paid_at?: string | null
+          period_months: number
+          plan_type: string
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          razorpay_signature?: string | null
+          receipt_url?: string | null
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          firm_id?: string
+          id?: string
+          notes?: string | null
+          paid_at?: string | null
+          period_months?: number
+          plan_type?: string
+          razorpay_order_id?: string | null
+          razorpay_payment_id?: string | null
+          razorpay_signature?: string | null
+          receipt_url?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_payments_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firm_subscriptions: {
+        Row: {
+          created_at: string
+          firm_id: string
+          grace_until: string | null
+          last_payment_at: string | null
+          plan_type: string | null
+          status: string
+          subscribed_once: boolean
+          subscription_end_at: string | null
+          subscription_start_at: string | null
+          trial_end_at: string
+          trial_start_at: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          firm_id: string
+          grace_until?: string | null
+          last_payment_at?: string | null
+          plan_type?: string | null
+          status?: string
+          subscribed_once?: boolean
+          subscription_end_at?: string | null
+          subscription_start_at?: string | null
+          trial_end_at: string
+          trial_start_at?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          firm_id?: string
+          grace_until?: string | null
+          last_payment_at?: string | null
+          plan_type?: string | null
+          status?: string
+          subscribed_once?: boolean
+          subscription_end_at?: string | null
+          subscription_start_at?: string | null
+          trial_end_at?: string
+          trial_start_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "firm_subscriptions_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: true
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      firms: {
+        Row: {
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_ifsc_code: string | null
+          bank_name: string | null
+          calendar_id: string | null
+          cancellation_policy: Json
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string
+          created_by: string | null
+          crew_travel_buffer_minutes: number
+          default_addon_rates: Json | null
+          default_postproduction_rates: Json | null
+          default_role_rates: Json | null
+          default_sac_code: string
+          description: string | null
+          footer_content: string | null
+          gst_state_code: string | null
+          gstin: string | null
+          header_left_content: string | null
+          id: string
+          logo_url: string | null
+          name: string
+          spreadsheet_id: string | null
+          tagline: string | null
+          tax_pricing_default: string
+          trash_retention_days: number
+          updated_at: string
+          upi_id: string | null
+        }
+        Insert: {
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_ifsc_code?: string | null
+          bank_name?: string | null
+          calendar_id?: string | null
+          cancellation_policy?: Json
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          created_by?: string | null
+          crew_travel_buffer_minutes?: number
+          default_addon_rates?: Json | null
+          default_postproduction_rates?: Json | null
+          default_role_rates?: Json | null
+          default_sac_code?: string
+          description?: string | null
+          footer_content?: string | null
+          gst_state_code?: string | null
+          gstin?: string | null
+          header_left_content?: string | null
+          id?: string
+          logo_url?: string | null
+          name: string
+          spreadsheet_id?: string | null
+          tagline?: string | null
+          tax_pricing_default?: string
+          trash_retention_days?: number
+          updated_at?: string
+          upi_id?: string | null
+        }
+        Update: {
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_ifsc_code?: string | null
+          bank_name?: string | null
+          calendar_id?: string | null
+          cancellation_policy?: Json
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          created_by?: string | null
+          crew_travel_buffer_minutes?: number
+          default_addon_rates?: Json | null
+          default_postproduction_rates?: Json | null
+          default_role_rates?: Json | null
+          default_sac_code?: string
+          description?: string | null
+          footer_content?: string | null
+          gst_state_code?: string | null
+          gstin?: string | null
+          header_left_content?: string | null
+          id?: string
+          logo_url?: string | null
+          name?: string
+          spreadsheet_id?: string | null
+          tagline?: string | null
+          tax_pricing_default?: string
+          trash_retention_days?: number
+          updated_at?: string
+          upi_id?: string | null
+        }
+        Relationships: []
+      }
+      freelancer_payments: {
+        Row: {
+          amount: number
+          bank_statement_line_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          event_id: string | null
+          firm_id: string
+          freelancer_id: string
+          id: string
+          payment_date: string
+          payment_method: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bank_statement_line_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          event_id?: string | null
+          firm_id: string
+          freelancer_id: string
+          id?: string
+          payment_date: string
+          payment_method?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bank_statement_line_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          event_id?: string | null
+          firm_id?: string
+          freelancer_id?: string
+          id?: string
+          payment_date?: string
+          payment_method?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "freelancer_payments_bank_statement_line_id_fkey"
+            columns: ["bank_statement_line_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "freelancer_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "freelancer_payments_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "freelancer_payments_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "freelancer_payments_freelancer_id_fkey"
+            columns: ["freelancer_id"]
+            isOneToOne: false
+            referencedRelation: "freelancers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      freelancers: {
+        Row: {
+          created_at: string
+          email: string | null
+          firm_id: string
+          full_name: string
+          id: string
+          phone: string | null
+          rate: number | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          firm_id: string
+          full_name: string
+          id?: string
+          phone?: string | null
+          rate?: number | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          firm_id?: string
+          full_name?: string
+          id?: string
+          phone?: string | null
+          rate?: number | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "freelancers_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      otps: {
+        Row: {
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          otp_code: string
+          purpose: string
+          updated_at: string
+          used: boolean
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          otp_code: string
+          purpose?: string
+          updated_at?: string
+          used?: boolean
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          otp_code?: string
+          purpose?: string
+          updated_at?: string
+          used?: boolean
+        }
+        Relationships: []
+      }
+      payment_reminders: {
+        Row: {
+          amount_due: number
+          attempt: number
+          balance: number
+          claimed_at: string | null
+          created_at: string
+          due_date: string
+          error: string | null
+          event_id: string
+          firm_id: string | null
+          id: string
+          message: string
+          phone: string
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          amount_due: number
+          attempt: number
+          balance: number
+          claimed_at?: string | null
+          created_at?: string
+          due_date: string
+          error?: string | null
+          event_id: string
+          firm_id?: string | null
+          id?: string
+          message: string
+          phone: string
+          scheduled_for: string
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          amount_due?: number
+          attempt?: number
+          balance?: number
+          claimed_at?: string | null
+          created_at?: string
+          due_date?: string
+          error?: string | null
+          event_id?: string
+          firm_id?: string | null
+          id?: string
+          message?: string
+          phone?: string
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_reminders_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_reminders_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          bank_statement_line_id: string | null
+          cheque_bank: string | null
+          cheque_cleared_on: string | null
+          cheque_number: string | null
+          cheque_status: string | null
+          created_at: string
+          created_by: string | null
+          custom_method: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          event_id: string | null
+          firm_id: string | null
+          id: string
+          invoice_id: string | null
+          notes: string | null
+          payment_date: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          reference_number: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bank_statement_line_id?: string | null
+          cheque_bank?: string | null
+          cheque_cleared_on?: string | null
+          cheque_number?: string | null
+          cheque_status?: string | null
+          created_at?: string
+          created_by?: string | null
+          custom_method?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          event_id?: string | null
+          firm_id?: string | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          payment_date?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          reference_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bank_statement_line_id?: string | null
+          cheque_bank?: string | null
+          cheque_cleared_on?: string | null
+          cheque_number?: string | null
+          cheque_status?: string | null
+          created_at?: string
+          created_by?: string | null
+          custom_method?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          event_id?: string | null
+          firm_id?: string | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          payment_date?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          reference_number?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_bank_statement_line_id_fkey"
+            columns: ["bank_statement_line_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_payments_event_id"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_payments_firm_id"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          current_firm_id: string | null
+          firm_id: string | null
+          full_name: string
+          id: string
+          mobile_number: string
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_firm_id?: string | null
+          firm_id?: string | null
+          full_name: string
           id?: string
-          logo_url?: string | null
-          name: string
-          spreadsheet_id?: string | null
-          tagline?: string | null
+          mobile_number: string
+          role: Database["public"]["Enums"]["user_role"]
           updated_at?: string
-          upi_id?: string | null
+          user_id: string
         }
         Update: {
-          bank_account_name?: string | null
-          bank_account_number?: string | null
-          bank_ifsc_code?: string | null
-          bank_name?: string | null
-          calendar_id?: string | null
-          contact_email?: string | null
-          contact_phone?: string | null
           created_at?: string
-          created_by?: string | null
-          default_addon_rates?: Json | null
-          default_postproduction_rates?: Json | null
-          default_role_rates?: Json | null
-          description?: string | null
-          footer_content?: string | null
-          header_left_content?: string | null
+          current_firm_id?: string | null
+          firm_id?: string | null
+          full_name?: string
           id?: string
-          logo_url?: string | null
-          name?: string
-          spreadsheet_id?: string | null
-          tagline?: string | null
+          mobile_number?: string
+          role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
-          upi_id?: string | null
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      freelancer_payments: {
+      quotation_follow_ups: {
         Row: {
-          amount: number
+          claimed_at: string | null
           created_at: string
-          created_by: string | null
-          description: string | null
-          event_id: string | null
-          firm_id: string
-          freelancer_id: string
+          cycle_started_at: string
+          error: string | null
+          firm_id: string | null
           id: string
-          payment_date: string
-          payment_method: string
-          updated_at: string
+          message: string
+          phone: string
+          quotation_id: string
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          step: number
         }
         Insert: {
-          amount: number
+          claimed_at?: string | null
           created_at?: string
-          created_by?: string | null
-          description?: string | null
-          event_id?: string | null
-          firm_id: string
-          freelancer_id: string
+          cycle_started_at: string
+          error?: string | null
+          firm_id?: string | null
           id?: string
-          payment_date: string
-          payment_method?: string
-          updated_at?: string
+          message: string
+          phone: string
+          quotation_id: string
+          scheduled_for: string
+          sent_at?: string | null
+          status?: string
+          step: number
         }
         Update: {
-          amount?: number
+          claimed_at?: string | null
           created_at?: string
-          created_by?: string | null
-          description?: string | null
-          event_id?: string | null
-          firm_id?: string
-          freelancer_id?: string
+          cycle_started_at?: string
+          error?: string | null
+          firm_id?: string | null
           id?: string
-          payment_date?: string
-          payment_method?: string
-          updated_at?: string
+          message?: string
+          phone?: string
+          quotation_id?: string
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          step?: number
         }
         Relationships: [
           {
-            foreignKeyName: "freelancer_payments_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "quotation_follow_ups_firm_id_fkey"
+            columns: ["firm_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "firms"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "freelancer_payments_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "quotation_follow_ups_quotation_id_fkey"
+            columns: ["quotation_id"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "quotations"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      quotation_package_items: {
+        Row: {
+          catalogue_item_id: string
+          id: string
+          package_id: string
+          quantity: number
+        }
+        Insert: {
+          catalogue_item_id: string
+          id?: string
+          package_id: string
+          quantity?: number
+        }
+        Update: {
+          catalogue_item_id?: string
+          id?: string
+          package_id?: string
+          quantity?: number
+        }
+        Relationships: [
           {
-            foreignKeyName: "freelancer_payments_firm_id_fkey"
-            columns: ["firm_id"]
+            foreignKeyName: "quotation_package_items_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
             isOneToOne: false
-            referencedRelation: "firms"
+            referencedRelation: "firm_catalogue_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "freelancer_payments_freelancer_id_fkey"
-            columns: ["freelancer_id"]
+            foreignKeyName: "quotation_package_items_package_id_fkey"
+            columns: ["package_id"]
             isOneToOne: false
-            referencedRelation: "freelancers"
+            referencedRelation: "quotation_packages"
             referencedColumns: ["id"]
           },
         ]
       }
-      freelancers: {
+      quotation_packages: {
         Row: {
           created_at: string
-          email: string | null
+          days: Json
+          deliverables: Json
+          description: string | null
+          event_type: string | null
           firm_id: string
-          full_name: string
           id: string
-          phone: string | null
-          rate: number | null
-          role: Database["public"]["Enums"]["user_role"]
+          is_active: boolean
+          name: string
+          post_production_item_id: string | null
+          same_day_editing: boolean
+          sort_order: number
           updated_at: string
         }
         Insert: {
           created_at?: string
-          email?: string | null
+          days?: Json
+          deliverables?: Json
+          description?: string | null
+          event_type?: string | null
           firm_id: string
-          full_name: string
           id?: string
-          phone?: string | null
-          rate?: number | null
-          role: Database["public"]["Enums"]["user_role"]
+          is_active?: boolean
+          name: string
+          post_production_item_id?: string | null
+          same_day_editing?: boolean
+          sort_order?: number
           updated_at?: string
         }
         Update: {
           created_at?: string
-          email?: string | null
+          days?: Json
+          deliverables?: Json
+          description?: string | null
+          event_type?: string | null
           firm_id?: string
-          full_name?: string
           id?: string
-          phone?: string | null
-          rate?: number | null
-          role?: Database["public"]["Enums"]["user_role"]
+          is_active?: boolean
+          name?: string
+          post_production_item_id?: string | null
+          same_day_editing?: boolean
+          sort_order?: number
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "freelancers_firm_id_fkey"
+            foreignKeyName: "quotation_packages_firm_id_fkey"
             columns: ["firm_id"]
             isOneToOne: false
             referencedRelation: "firms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quotation_packages_post_production_item_id_fkey"
+            columns: ["post_production_item_id"]
+            isOneToOne: false
+            referencedRelation: "firm_catalogue_items"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      otps: {
+      quotation_responses: {
         Row: {
+          comment: string | null
+          converted_event_id: string | null
           created_at: string
-          email: string
-          expires_at: string
+          firm_id: string | null
           id: string
-          otp_code: string
-          purpose: string
-          updated_at: string
-          used: boolean
+          ip_address: string | null
+          quotation_id: string
+          responder_name: string | null
+          response: string
+          revision_number: number | null
+          share_link_id: string | null
+          user_agent: string | null
         }
         Insert: {
+          comment?: string | null
+          converted_event_id?: string | null
           created_at?: string
-          email: string
-          expires_at: string
+          firm_id?: string | null
           id?: string
-          otp_code: string
-          purpose?: string
-          updated_at?: string
-          used?: boolean
+          ip_address?: string | null
+          quotation_id: string
+          responder_name?: string | null
+          response: string
+          revision_number?: number | null
+          share_link_id?: string | null
+          user_agent?: string | null
         }
         Update: {
+          comment?: string | null
+          converted_event_id?: string | null
           created_at?: string
-          email?: string
-          expires_at?: string
+          firm_id?: string | null
           id?: string
-          otp_code?: string
-          purpose?: string
-          updated_at?: string
-          used?: boolean
+          ip_address?: string | null
+          quotation_id?: string
+          responder_name?: string | null
+          response?: string
+          revision_number?: number | null
+          share_link_id?: string | null
+          user_agent?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "quotation_responses_converted_event_id_fkey"
+            columns: ["converted_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_responses_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_responses_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_responses_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "quotation_share_links"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      payments: {
+      quotation_revisions: {
         Row: {
           amount: number
           created_at: string
           created_by: string | null
-          event_id: string | null
+          description: string | null
+          discount_amount: number | null
+          discount_rules: Json
+          discount_type: string | null
+          discount_value: number | null
+          event_date: string
+          event_type: string
           firm_id: string | null
           id: string
-          invoice_id: string | null
-          notes: string | null
-          payment_date: string
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          reference_number: string | null
-          updated_at: string
+          note: string | null
+          place_of_supply: string | null
+          quotation_details: Json | null
+          quotation_id: string
+          revision_number: number
+          tax_amount: number
+          tax_breakdown: Json | null
+          tax_pricing: string | null
+          title: string
+          valid_until: string | null
+          venue: string | null
         }
         Insert: {
           amount: number
           created_at?: string
           created_by?: string | null
-          event_id?: string | null
+          description?: string | null
+          discount_amount?: number | null
+          discount_rules?: Json
+          discount_type?: string | null
+          discount_value?: number | null
+          event_date: string
+          event_type: string
           firm_id?: string | null
           id?: string
-          invoice_id?: string | null
-          notes?: string | null
-          payment_date?: string
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          reference_number?: string | null
-          updated_at?: string
+          note?: string | null
+          place_of_supply?: string | null
+          quotation_details?: Json | null
+          quotation_id: string
+          revision_number: number
+          tax_amount?: number
+          tax_breakdown?: Json | null
+          tax_pricing?: string | null
+          title: string
+          valid_until?: string | null
+          venue?: string | null
         }
         Update: {
           amount?: number
           created_at?: string
           created_by?: string | null
-          event_id?: string | null
+          description?: string | null
+          discount_amount?: number | null
+          discount_rules?: Json
+          discount_type?: string | null
+          discount_value?: number | null
+          event_date?: string
+          event_type?: string
           firm_id?: string | null
           id?: string
-          invoice_id?: string | null
-          notes?: string | null
-          payment_date?: string
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          reference_number?: string | null
-          updated_at?: string
+          note?: string | null
+          place_of_supply?: string | null
+          quotation_details?: Json | null
+          quotation_id?: string
+          revision_number?: number
+          tax_amount?: number
+          tax_breakdown?: Json | null
+          tax_pricing?: string | null
+          title?: string
+          valid_until?: string | null
+          venue?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_payments_event_id"
-            columns: ["event_id"]
+            foreignKeyName: "quotation_revisions_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_payments_firm_id"
+            foreignKeyName: "quotation_revisions_firm_id_fkey"
             columns: ["firm_id"]
             isOneToOne: false
             referencedRelation: "firms"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "payments_created_by_fkey"
-            columns: ["created_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "payments_event_id_fkey"
-            columns: ["event_id"]
+          {
+            foreignKeyName: "quotation_revisions_quotation_id_fkey"
+            columns: ["quotation_id"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "quotations"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      quotation_share_links: {
         Row: {
+          auto_convert: boolean
           created_at: string
-          current_firm_id: string | null
+          created_by: string | null
+          expires_at: string | null
           firm_id: string | null
-          full_name: string
           id: string
-          mobile_number: string
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at: string
-          user_id: string
+          last_viewed_at: string | null
+          quotation_id: string
+          revoked_at: string | null
+          token: string
+          view_count: number
         }
         Insert: {
+          auto_convert?: boolean
           created_at?: string
-          current_firm_id?: string | null
+          created_by?: string | null
+          expires_at?: string | null
           firm_id?: string | null
-          full_name: string
           id?: string
-          mobile_number: string
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
-          user_id: string
+          last_viewed_at?: string | null
+          quotation_id: string
+          revoked_at?: string | null
+          token?: string
+          view_count?: number
         }
         Update: {
+          auto_convert?: boolean
           created_at?: string
-          current_firm_id?: string | null
+          created_by?: string | null
+          expires_at?: string | null
           firm_id?: string | null
-          full_name?: string
           id?: string
-          mobile_number?: string
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
-          user_id?: string
+          last_viewed_at?: string | null
+          quotation_id?: string
+          revoked_at?: string | null
+          token?: string
+          view_count?: number
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_firm_id_fkey"
+            foreignKeyName: "quotation_share_links_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_share_links_firm_id_fkey"
             columns: ["firm_id"]
             isOneToOne: false
             referencedRelation: "firms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quotation_share_links_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       quotations: {
         Row: {
           amount: number
           client_id: string | null
+          client_responded_at: string | null
+          client_response: string | null
           converted_to_event: string | null
           created_at: string
           created_by: string | null
+          current_revision: number
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           discount_amount: number | null
+          discount_rules: Json
           discount_type: string | null
           discount_value: number | null
           event_date: string
-          event_type: Database["public"]["Enums"]["event_type"]
+          event_type: string
           firm_id: string | null
           id: string
+          place_of_supply: string | null
           quotation_details: Json | null
+          quotation_number: string | null
+          revised_at: string
+          sent_at: string | null
+          status: string
+          status_changed_at: string
+          tax_amount: number
+          tax_breakdown: Json | null
+          tax_pricing: string | null
           title: string
           updated_at: string
           valid_until: string | null
           venue: string | null
+          viewed_at: string | null
         }
         Insert: {
           amount: number
           client_id?: string | null
+          client_responded_at?: string | null
+          client_response?: string | null
           converted_to_event?: string | null
           created_at?: string
           created_by?: string | null
+          current_revision?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           discount_amount?: number | null
+          discount_rules?: Json
           discount_type?: string | null
           discount_value?: number | null
           event_date: string
-          event_type: Database["public"]["Enums"]["event_type"]
+          event_type: string
           firm_id?: string | null
           id?: string
+          place_of_supply?: string | null
           quotation_details?: Json | null
+          quotation_number?: string | null
+          revised_at?: string
+          sent_at?: string | null
+          status?: string
+          status_changed_at?: string
+          tax_amount?: number
+          tax_breakdown?: Json | null
+          tax_pricing?: string | null
           title: string
           updated_at?: string
           valid_until?: string | null
           venue?: string | null
+          viewed_at?: string | null
         }
         Update: {
           amount?: number
           client_id?: string | null
+          client_responded_at?: string | null
+          client_response?: string | null
           converted_to_event?: string | null
           created_at?: string
           created_by?: string | null
+          current_revision?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           discount_amount?: number | null
+          discount_rules?: Json
           discount_type?: string | null
           discount_value?: number | null
           event_date?: string
-          event_type?: Database["public"]["Enums"]["event_type"]
+          event_type?: string
           firm_id?: string | null
           id?: string
+          place_of_supply?: string | null
           quotation_details?: Json | null
+          quotation_number?: string | null
+          revised_at?: string
+          sent_at?: string | null
+          status?: string
+          status_changed_at?: string
+          tax_amount?: number
+          tax_breakdown?: Json | null
+          tax_pricing?: string | null
           title?: string
           updated_at?: string
           valid_until?: string | null
           venue?: string | null
+          viewed_at?: string | null
         }
         Relationships: [
           {
@@ -1071,11 +2603,102 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quotations_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      staff_availability_responses: {
+        Row: {
+          available_date: string
+          created_at: string
+          created_by: string | null
+          event_type: string | null
+          firm_id: string
+          freelancer_id: string | null
+          id: string
+          is_available: boolean | null
+          reply_text: string | null
+          request_id: string
+          responded_at: string | null
+          role: string
+          source: string | null
+          staff_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          available_date: string
+          created_at?: string
+          created_by?: string | null
+          event_type?: string | null
+          firm_id: string
+          freelancer_id?: string | null
+          id?: string
+          is_available?: boolean | null
+          reply_text?: string | null
+          request_id: string
+          responded_at?: string | null
+          role: string
+          source?: string | null
+          staff_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          available_date?: string
+          created_at?: string
+          created_by?: string | null
+          event_type?: string | null
+          firm_id?: string
+          freelancer_id?: string | null
+          id?: string
+          is_available?: boolean | null
+          reply_text?: string | null
+          request_id?: string
+          responded_at?: string | null
+          role?: string
+          source?: string | null
+          staff_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_availability_responses_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_availability_responses_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_availability_responses_freelancer_id_fkey"
+            columns: ["freelancer_id"]
+            isOneToOne: false
+            referencedRelation: "freelancers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_availability_responses_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       staff_payments: {
         Row: {
           amount: number
+          bank_statement_line_id: string | null
           created_at: string
           created_by: string | null
           description: string | null
@@ -1089,6 +2712,7 @@ export type Database = {
         }
         Insert: {
           amount: number
+          bank_statement_line_id?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
@@ -1102,6 +2726,7 @@ export type Database = {
         }
         Update: {
           amount?: number
+          bank_statement_line_id?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
@@ -1114,6 +2739,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "staff_payments_bank_statement_line_id_fkey"
+            columns: ["bank_statement_line_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_lines"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "staff_payments_created_by_fkey"
             columns: ["created_by"]
@@ -1144,6 +2776,90 @@ export type Database = {
           },
         ]
       }
+      staff_unavailability: {
+        Row: {
+          approved: boolean
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          end_date: string
+          firm_id: string
+          freelancer_id: string | null
+          id: string
+          reason: string | null
+          requested_by: string | null
+          staff_id: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          approved?: boolean
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          end_date: string
+          firm_id: string
+          freelancer_id?: string | null
+          id?: string
+          reason?: string | null
+          requested_by?: string | null
+          staff_id?: string | null
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          approved?: boolean
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          end_date?: string
+          firm_id?: string
+          freelancer_id?: string | null
+          id?: string
+          reason?: string | null
+          requested_by?: string | null
+          staff_id?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_unavailability_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_unavailability_firm_id_fkey"
+            columns: ["firm_id"]
+            isOneToOne: false
+            referencedRelation: "firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_unavailability_freelancer_id_fkey"
+            columns: ["freelancer_id"]
+            isOneToOne: false
+            referencedRelation: "freelancers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_unavailability_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_unavailability_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscription_plans: {
         Row: {
           created_at: string
@@ -1193,6 +2909,8 @@ export type Database = {
           completed_at: string | null
           created_at: string
           created_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           due_date: string | null
           event_id: string | null
@@ -1214,6 +2932,8 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string | null
           event_id?: string | null
@@ -1235,6 +2955,8 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           created_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string | null
           event_id?: string | null
@@ -1265,6 +2987,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_event_id_fkey"
             columns: ["event_id"]
@@ -1349,12 +3078,92 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      build_upi_link: {
+        Args: {
+          p_amount: number
+          p_note: string
+          p_payee: string
+          p_upi_id: string
+        }
+        Returns: string
+      }
+      claim_due_payment_reminders: {
+        Args: { p_firm_id?: string; p_limit?: number }
+        Returns: Database["public"]["Tables"]["payment_reminders"]["Row"][]
+      }
+      claim_due_quotation_follow_ups: {
+        Args: { p_firm_id?: string; p_limit?: number }
+        Returns: Database["public"]["Tables"]["quotation_follow_ups"]["Row"][]
+      }
       cleanup_expired_otps: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      clone_event: {
+        Args: {
+          p_allow_conflicts?: boolean
+          p_event_date: string
+          p_event_id: string
+          p_include_crew?: boolean
+          p_include_tasks?: boolean
+          p_title?: string
+        }
+        Returns: string
+      }
+      convert_quotation_with_plan: {
+        Args: {
+          p_crew?: Json
+          p_days?: Json
+          p_event_date: string
+          p_milestones?: Json
+          p_quotation_id: string
+          p_tasks?: Json
+          p_title: string
+        }
+        Returns: string
+      }
+      create_event_series: {
+        Args: {
+          p_allow_conflicts?: boolean
+          p_client_id: string
+          p_dates: string[]
+          p_frequency: string
+          p_interval_count: number
+          p_template_id: string
+          p_title: string
+        }
+        Returns: string
+      }
+      create_expense_from_statement_line: {
+        Args: {
+          p_category: Database["public"]["Enums"]["expense_category"]
+          p_line_id: string
+          p_payment_method: Database["public"]["Enums"]["payment_method"]
+        }
+        Returns: string
+      }
+      create_payment_from_statement_line: {
+        Args: {
+          p_event_id: string
+          p_line_id: string
+          p_payment_method: Database["public"]["Enums"]["payment_method"]
+        }
+        Returns: string
+      }
+      encode_uri_component: {
+        Args: { p_value: string }
+        Returns: string
+      }
+      expire_quotations: {
+        Args: { p_firm_id?: string }
+        Returns: number
+      }
+      financial_year_label: {
+        Args: { p_date: string }
+        Returns: string
+      }
       generate_invoice_id: {
-        Args: Record<PropertyKey, never> | { p_event_id?: string }
+        Args: { p_event_id: string }
         Returns: string
       }
       get_auth_user_email: {
@@ -1369,6 +3178,14 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      get_event_invoice_number: {
+        Args: { p_event_id: string }
+        Returns: string
+      }
+      get_event_net_paid: {
+        Args: { p_event_id: string }
+        Returns: number
+      }
       get_firm_profile_ids: {
         Args: { target_firm_id: string }
         Returns: {
@@ -1382,6 +3199,67 @@ export type Database = {
           name: string
         }[]
       }
+      get_series_crew_conflicts: {
+        Args: { p_dates: string[]; p_template_id: string }
+        Returns: {
+          conflict_event_title: string | null
+          freelancer_id: string | null
+          occurrence_date: string
+          person_name: string | null
+          role: string
+          slot_date: string
+          staff_id: string | null
+          unavailable: boolean
+        }[]
+      }
+      get_shared_quotation: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      get_staff_conflicts: {
+        Args: {
+          p_ends_at: string
+          p_exclude_event_id?: string
+          p_firm_id: string
+          p_person_id?: string
+          p_starts_at: string
+          p_timed?: boolean
+          p_venue?: string
+        }
+        Returns: {
+          assignment_id: string
+          buffer_minutes: number
+          day_date: string
+          day_number: number
+          ends_at: string
+          event_id: string
+          event_title: string
+          freelancer_id: string | null
+          gap_minutes: number
+          overlap_minutes: number
+          role: string
+          session_id: string | null
+          session_name: string | null
+          staff_id: string | null
+          starts_at: string
+          timed: boolean
+          venue: string | null
+        }[]
+      }
+      get_trash_items: {
+        Args: { p_firm_id: string }
+        Returns: {
+          amount: number | null
+          deleted_at: string
+          deleted_by_name: string | null
+          detail: string | null
+          event_id: string | null
+          item_id: string
+          item_type: string
+          label: string
+          purge_after: string
+        }[]
+      }
       is_firm_owner: {
         Args: { p_firm_id: string }
         Returns: boolean
@@ -1398,6 +3276,21 @@ export type Database = {
         Args: { p_firm_id: string }
         Returns: boolean
       }
+      is_valid_event_status_transition: {
+        Args: {
+          p_from: Database["public"]["Enums"]["event_status"]
+          p_to: Database["public"]["Enums"]["event_status"]
+        }
+        Returns: boolean
+      }
+      is_within_quiet_hours: {
+        Args: { p_end: string; p_start: string; p_time: string }
+        Returns: boolean
+      }
+      next_document_number: {
+        Args: { p_date?: string; p_document_type: string; p_firm_id: string }
+        Returns: string
+      }
       purge_expired_trial_firm: {
         Args: { p_firm_id: string }
         Returns: undefined
@@ -1409,6 +3302,107 @@ export type Database = {
           purged_firms_count: number
         }[]
       }
+      purge_trash_item: {
+        Args: { p_item_id: string; p_item_type: string }
+        Returns: undefined
+      }
+      queue_payment_reminders: {
+        Args: { p_firm_id?: string }
+        Returns: number
+      }
+      queue_quotation_follow_ups: {
+        Args: { p_firm_id?: string }
+        Returns: number
+      }
+      reconcile_bank_statement_line: {
+        Args: { p_line_id: string; p_record_id: string; p_record_table: string }
+        Returns: undefined
+      }
+      record_availability_response: {
+        Args: {
+          p_dates?: string[]
+          p_is_available: boolean
+          p_person_id: string
+          p_reply_text?: string
+          p_request_id: string
+          p_source?: string
+        }
+        Returns: number
+      }
+      record_client_receipt: {
+        Args: {
+          p_allocations?: Json
+          p_amount: number
+          p_cheque_bank?: string
+          p_cheque_number?: string
+          p_client_id: string
+          p_custom_method?: string
+          p_notes?: string
+          p_payment_date?: string
+          p_payment_method: Database["public"]["Enums"]["payment_method"]
+          p_reference_number?: string
+        }
+        Returns: Database["public"]["Tables"]["client_receipts"]["Row"]
+      }
+      respond_to_shared_quotation: {
+        Args: {
+          p_comment?: string
+          p_responder_name?: string
+          p_response: string
+          p_token: string
+        }
+        Returns: Json
+      }
+      restore_quotation_revision: {
+        Args: { p_revision_id: string }
+        Returns: number
+      }
+      restore_trash_item: {
+        Args: { p_item_id: string; p_item_type: string }
+        Returns: {
+          item_id: string
+          item_type: string
+        }[]
+      }
+      seed_firm_catalogue: {
+        Args: { p_firm_id: string }
+        Returns: undefined
+      }
+      seed_firm_event_types: {
+        Args: { p_firm_id: string }
+        Returns: undefined
+      }
+      set_event_payment_milestones: {
+        Args: { p_event_id: string; p_milestones?: Json }
+        Returns: number
+      }
+      set_event_status: {
+        Args: {
+          p_event_id: string
+          p_notes?: string
+          p_status: Database["public"]["Enums"]["event_status"]
+        }
+        Returns: Database["public"]["Tables"]["events"]["Row"]
+      }
+      settle_event_cancellation: {
+        Args: {
+          p_event_id: string
+          p_reason?: string
+          p_reference_number?: string
+          p_refund_amount?: number
+          p_refund_date?: string
+          p_refund_method?: Database["public"]["Enums"]["payment_method"]
+        }
+        Returns: Database["public"]["Tables"]["event_refunds"]["Row"]
+      }
+      trash_item: {
+        Args: { p_item_id: string; p_item_type: string }
+        Returns: number
+      }
+      unreconcile_bank_statement_line: {
+        Args: { p_line_id: string }
+        Returns: undefined
+      }
       verify_firm_id: {
         Args: { p_id: string }
         Returns: boolean
@@ -1469,7 +3463,16 @@ export type Database = {
         | "Maintenance"
         | "Salary"
         | "Other"
-      payment_method: "Cash" | "Digital"
+      payment_method:
+        | "Cash"
+        | "Digital"
+        | "UPI"
+        | "NEFT"
+        | "IMPS"
+        | "RTGS"
+        | "Cheque"
+        | "Card"
+        | "Other"
       payment_status: "Pending" | "Paid" | "Partial" | "Overdue"
       task_priority: "Low" | "Medium" | "High" | "Urgent"
       task_status:
@@ -1671,7 +3674,17 @@ export const Constants = {
         "Salary",
         "Other",
       ],
-      payment_method: ["Cash", "Digital"],
+      payment_method: [
+        "Cash",
+        "Digital",
+        "UPI",
+        "NEFT",
+        "IMPS",
+        "RTGS",
+        "Cheque",
+        "Card",
+        "Other",
+      ],
       payment_status: ["Pending", "Paid", "Partial", "Overdue"],
       task_priority: ["Low", "Medium", "High", "Urgent"],
       task_status: [
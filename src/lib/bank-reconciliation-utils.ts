@@ -0,0 +1,309 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BankStatementDirection,
+  BankStatementImport,
+  BankStatementLine,
+  ExpenseCategory,
+  ReconcilableTable
+} from '@/types/studio';
+import { addDays } from '@/lib/crew-schedule-utils';
+import { formatPaymentMethodDetails } from '@/lib/payment-method-validator';
+import { ParsedStatement, guessPaymentMethod } from '@/lib/bank-statement-utils';
+
+// A record and its bank line may be a few days apart; cheques take longer to clear
+export const MATCH_WINDOW_DAYS = 3;
+export const CHEQUE_MATCH_WINDOW_DAYS = 7;
+// Records this far either side of a statement are offered for manual matching
+const CANDIDATE_RANGE_DAYS = 30;
+
+export const RECONCILABLE_TABLE_LABELS: Record<ReconcilableTable, string> = {
+  payments: 'Payment',
+  client_receipts: 'Client Receipt',
+  expenses: 'Expense',
+  staff_payments: 'Salary',
+  freelancer_payments: 'Freelancer Payment'
+};
+
+// A payment, receipt or outgoing payment that a statement line can be matched to
+export interface ReconciliationCandidate {
+  table: ReconcilableTable;
+  id: string;
+  direction: BankStatementDirection;
+  amount: number;
+  date: string;
+  // Reference and cheque numbers to look for on the statement line
+  references: string[];
+  isCheque: boolean;
+  label: string;
+  detail: string;
+  bank_statement_line_id: string | null;
+}
+
+export interface LineMatch {
+  line: BankStatementLine;
+  candidate: ReconciliationCandidate;
+}
+
+const normalizeReference = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(Math.abs(new Date(`${from}T00:00:00`).getTime() - new Date(`${to}T00:00:00`).getTime()) / 86400000);
+
+/**
+ * Non-cash records around a statement period, with the line each is reconciled with if any
+ */
+export const fetchReconciliationCandidates = async (
+  firmId: string,
+  periodFrom: string,
+  periodTo: string
+): Promise<ReconciliationCandidate[]> => {
+  const from = addDays(periodFrom, -CANDIDATE_RANGE_DAYS);
+  const to = addDays(periodTo, CANDIDATE_RANGE_DAYS);
+
+  const [paymentsResult, receiptsResult, expensesResult, staffResult, freelancerResult] = await Promise.all([
+    supabase
+      .from('payments')
+      .select('id, amount, payment_date, payment_method, custom_method, reference_number, cheque_number, cheque_status, bank_statement_line_id, event:events!payments_event_id_fkey(title, client:clients(name))')
+      .eq('firm_id', firmId)
+      .is('deleted_at', null)
+      .neq('payment_method', 'Cash')
+      .gte('payment_date', from)
+      .lte('payment_date', to),
+    supabase
+      .from('client_receipts')
+      .select('id, amount, payment_date, payment_method, custom_method, reference_number, cheque_number, cheque_status, receipt_number, bank_statement_line_id, client:clients(name)')
+      .eq('firm_id', firmId)
+      .neq('payment_method', 'Cash')
+      .gte('payment_date', from)
+      .lte('payment_date', to),
+    supabase
+      .from('expenses')
+      .select('id, amount, expense_date, description, category, bank_statement_line_id')
+      .eq('firm_id', firmId)
+      .is('deleted_at', null)
+      .neq('payment_method', 'Cash')
+      .gte('expense_date', from)
+      .lte('expense_date', to),
+    supabase
+      .from('staff_payments')
+      .select('id, amount, payment_date, description, bank_statement_line_id, staff:profiles!staff_payments_staff_id_fkey(full_name)')
+      .eq('firm_id', firmId)
+      .neq('payment_method', 'Cash')
+      .gte('payment_date', from)
+      .lte('payment_date', to),
+    supabase
+      .from('freelancer_payments')
+      .select('id, amount, payment_date, description, bank_statement_line_id, freelancer:freelancers(full_name)')
+      .eq('firm_id', firmId)
+      .neq('payment_method', 'Cash')
+      .gte('payment_date', from)
+      .lte('payment_date', to)
+  ]);
+
+  const error = paymentsResult.error || receiptsResult.error || expensesResult.error || staffResult.error || freelancerResult.error;
+  if (error) throw error;
+
+  const references = (...values: (string | null | undefined)[]) =>
+    values.map(value => normalizeReference(value || '')).filter(value => value.length >= 4);
+
+  return [
+    ...(paymentsResult.data || [])
+      // A bounced cheque never reached the account
+      .filter(payment => payment.cheque_status !== 'bounced')
+      .map(payment => ({
+        table: 'payments' as const,
+        id: payment.id,
+        direction: 'credit' as const,
+        amount: Number(payment.amount),
+        date: payment.payment_date,
+        references: references(payment.reference_number, payment.cheque_number),
+        isCheque: !!payment.cheque_status,
+        label: payment.event?.title || 'Event payment',
+        detail: [payment.event?.client?.name, formatPaymentMethodDetails(payment)].filter(Boolean).join(' • '),
+        bank_statement_line_id: payment.bank_statement_line_id
+      })),
+    ...(receiptsResult.data || [])
+      .filter(receipt => receipt.cheque_status !== 'bounced')
+      .map(receipt => ({
+        table: 'client_receipts' as const,
+        id: receipt.id,
+        direction: 'credit' as const,
+        amount: Number(receipt.amount),
+        date: receipt.payment_date,
+        references: references(receipt.reference_number, receipt.cheque_number),
+        isCheque: !!receipt.cheque_status,
+        label: `Receipt ${receipt.receipt_number}`,
+        detail: [receipt.client?.name, formatPaymentMethodDetails(receipt)].filter(Boolean).join(' • '),
+        bank_statement_line_id: receipt.bank_statement_line_id
+      })),
+    ...(expensesResult.data || []).map(expense => ({
+      table: 'expenses' as const,
+      id: expense.id,
+      direction: 'debit' as const,
+      amount: Number(expense.amount),
+      date: expense.expense_date,
+      references: [],
+      isCheque: false,
+      label: expense.description,
+      detail: expense.category,
+      bank_statement_line_id: expense.bank_statement_line_id
+    })),
+    ...(staffResult.data || []).map(payment => ({
+      table: 'staff_payments' as const,
+      id: payment.id,
+      direction: 'debit' as const,
+      amount: Number(payment.amount),
+      date: payment.payment_date,
+      references: [],
+      isCheque: false,
+      label: `Salary • ${payment.staff?.full_name || 'Staff'}`,
+      detail: payment.description || '',
+      bank_statement_line_id: payment.bank_statement_line_id
+    })),
+    ...(freelancerResult.data || []).map(payment => ({
+      table: 'freelancer_payments' as const,
+      id: payment.id,
+      direction: 'debit' as const,
+      amount: Number(payment.amount),
+      date: payment.payment_date,
+      references: [],
+      isCheque: false,
+      label: `Freelancer • ${payment.freelancer?.full_name || 'Freelancer'}`,
+      detail: payment.description || '',
+      bank_statement_line_id: payment.bank_statement_line_id
+    }))
+  ];
+};
+
+/**
+ * Unreconciled records with the line's direction and amount, closest date first
+ */
+export const getLineCandidates = (line: BankStatementLine, candidates: ReconciliationCandidate[]) =>
+  candidates
+    .filter(candidate =>
+      !candidate.bank_statement_line_id
+      && candidate.direction === line.direction
+      && Math.abs(candidate.amount - Number(line.amount)) <= 0.01
+    )
+    .sort((a, b) => daysBetween(a.date, line.line_date) - daysBetween(b.date, line.line_date));
+
+const hasMatchingReference = (line: BankStatementLine, candidate: ReconciliationCandidate) => {
+  const text = normalizeReference(`${line.reference || ''} ${line.description}`);
+  return candidate.references.some(reference => text.includes(reference));
+};
+
+/**
+ * Matches for unreconciled lines, oldest line first. A line is matched when a record with its
+ * amount shares a reference number with it, or when exactly one record with its amount falls
+ * within the date window; anything less certain is left for manual matching.
+ */
+export const autoMatchLines = (
+  lines: BankStatementLine[],
+  candidates: ReconciliationCandidate[],
+  reconciledLineIds: Set<string>
+): LineMatch[] => {
+  const claimed = new Set<string>();
+  const matches: LineMatch[] = [];
+
+  [...lines]
+    .filter(line => !line.ignored && !reconciledLineIds.has(line.id))
+    .sort((a, b) => a.line_date.localeCompare(b.line_date))
+    .forEach(line => {
+      const available = getLineCandidates(line, candidates).filter(candidate => !claimed.has(`${candidate.table}:${candidate.id}`));
+      const inWindow = available.filter(candidate =>
+        daysBetween(candidate.date, line.line_date) <= (candidate.isCheque ? CHEQUE_MATCH_WINDOW_DAYS : MATCH_WINDOW_DAYS)
+      );
+
+      const candidate = available.find(option => hasMatchingReference(line, option))
+        || (inWindow.length === 1 ? inWindow[0] : null);
+
+      if (candidate) {
+        claimed.add(`${candidate.table}:${candidate.id}`);
+        matches.push({ line, candidate });
+      }
+    });
+
+  return matches;
+};
+
+/**
+ * Save a statement and its lines. Lines already imported from an earlier statement are skipped.
+ */
+export const importBankStatement = async (
+  firmId: string,
+  fileName: string,
+  statement: ParsedStatement,
+  createdBy?: string | null
+): Promise<{ statementImport: BankStatementImport; imported: number; duplicates: number }> => {
+  const { data: statementImport, error } = await supabase
+    .from('bank_statement_imports')
+    .insert({
+      firm_id: firmId,
+      file_name: fileName,
+      bank_format: statement.bankFormat,
+      period_from: statement.periodFrom,
+      period_to: statement.periodTo,
+      created_by: createdBy || null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // The same transaction can appear twice in one file, e.g. overlapping exports pasted together
+  const uniqueLines = Array.from(new Map(statement.lines.map(line => [line.fingerprint, line])).values());
+
+  const { data: inserted, error: linesError } = await supabase
+    .from('bank_statement_lines')
+    .upsert(
+      uniqueLines.map(line => ({ ...line, import_id: statementImport.id, firm_id: firmId })),
+      { onConflict: 'firm_id,fingerprint', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (linesError) throw linesError;
+
+  return {
+    statementImport,
+    imported: inserted?.length || 0,
+    duplicates: statement.lines.length - (inserted?.length || 0)
+  };
+};
+
+export const reconcileLine = async (lineId: string, table: ReconcilableTable, recordId: string) => {
+  const { error } = await supabase.rpc('reconcile_bank_statement_line', {
+    p_line_id: lineId,
+    p_record_table: table,
+    p_record_id: recordId
+  });
+  if (error) throw error;
+};
+
+export const unreconcileLine = async (lineId: string) => {
+  const { error } = await supabase.rpc('unreconcile_bank_statement_line', { p_line_id: lineId });
+  if (error) throw error;
+};
+
+/**
+ * Record a bank credit as a payment on an event and reconcile it with the line
+ */
+export const createPaymentFromLine = async (line: BankStatementLine, eventId: string) => {
+  const { error } = await supabase.rpc('create_payment_from_statement_line', {
+    p_line_id: line.id,
+    p_event_id: eventId,
+    p_payment_method: guessPaymentMethod(line.description)
+  });
+  if (error) throw error;
+};
+
+/**
+ * Record a bank debit as an expense and reconcile it with the line
+ */
+export const createExpenseFromLine = async (line: BankStatementLine, category: ExpenseCategory) => {
+  const { error } = await supabase.rpc('create_expense_from_statement_line', {
+    p_line_id: line.id,
+    p_category: category,
+    p_payment_method: guessPaymentMethod(line.description)
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,270 @@
+import { BankStatementDirection } from '@/types/studio';
+import { PaymentMethod } from '@/lib/payment-method-validator';
+
+export interface ParsedStatementLine {
+  line_date: string; // yyyy-MM-dd
+  description: string;
+  reference: string | null;
+  direction: BankStatementDirection;
+  amount: number;
+  balance: number | null;
+  fingerprint: string;
+}
+
+export interface ParsedStatement {
+  bankFormat: string;
+  lines: ParsedStatementLine[];
+  // Rows below the header that were not transactions, e.g. opening balance or totals
+  skippedRows: number;
+  periodFrom: string | null;
+  periodTo: string | null;
+}
+
+interface StatementColumns {
+  date: number;
+  description: number;
+  reference: number;
+  debit: number;
+  credit: number;
+  amount: number;
+  drCr: number;
+  balance: number;
+}
+
+// Header rows of the common Indian bank exports; anything else is read by column names alone
+const BANK_FORMATS: { name: string; headers: string[] }[] = [
+  { name: 'HDFC Bank', headers: ['narration', 'chq ref no', 'withdrawal amt'] },
+  { name: 'ICICI Bank', headers: ['transaction remarks'] },
+  { name: 'State Bank of India', headers: ['txn date', 'ref no cheque no'] },
+  { name: 'Axis Bank', headers: ['tran date', 'particulars'] },
+  { name: 'Kotak Mahindra Bank', headers: ['chq ref no', 'dr cr'] }
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Banks put a few lines of account details above the header row
+const HEADER_SEARCH_ROWS = 40;
+
+/**
+ * Rows of a CSV file, with quoted fields, escaped quotes and line breaks inside quotes
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const findColumn = (headers: string[], pattern: RegExp, exclude?: RegExp) =>
+  headers.findIndex(header => pattern.test(header) && !(exclude && exclude.test(header)));
+
+const detectColumns = (headers: string[]): StatementColumns | null => {
+  // Transaction date over value date, which some banks list first
+  let date = findColumn(headers, /\bdate\b/, /\bvalue\b/);
+  if (date < 0) date = findColumn(headers, /\bdate\b/);
+
+  const columns: StatementColumns = {
+    date,
+    description: findColumn(headers, /narration|description|particulars|remarks|details/),
+    reference: findColumn(headers, /\b(chq|cheque|chqno|ref|reference|utr)\b/),
+    debit: findColumn(headers, /withdrawal|debit|^dr$|^dr amount/, /\bdr cr\b|\bcr dr\b/),
+    credit: findColumn(headers, /deposit|credit|^cr$|^cr amount/, /\bdr cr\b|\bcr dr\b/),
+    amount: findColumn(headers, /^(transaction )?amount\b/),
+    drCr: findColumn(headers, /\bdr cr\b|\bcr dr\b|^type$/),
+    balance: findColumn(headers, /balance|^bal$/)
+  };
+
+  const hasAmounts = (columns.debit >= 0 && columns.credit >= 0) || columns.amount >= 0;
+  return columns.date >= 0 && hasAmounts ? columns : null;
+};
+
+const detectBankFormat = (headers: string[]) =>
+  BANK_FORMATS.find(format => format.headers.every(header => headers.includes(header)))?.name || 'Generic';
+
+/**
+ * Date of a statement row as yyyy-MM-dd. Indian banks write dates day first:
+ * 19/10/2026, 19-10-26, 19.10.2026, 19-Oct-2026 or 19 Oct 26; exports also use 2026-10-19.
+ */
+export const parseStatementDate = (value: string): string | null => {
+  const text = value.trim().split(/\s+\d{1,2}:\d{2}/)[0].trim();
+  let day: number;
+  let month: number;
+  let year: number;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2}|\d{4})$/))) {
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]);
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (!month || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Amount in a statement cell: "1,25,000.00", "₹ 5,000", "Rs.5000", "5000.00 Cr" or "(250.00)"
+ */
+export const parseStatementAmount = (value: string): number => {
+  const text = (value || '').trim();
+  if (!text) return 0;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bdr\.?$/i.test(text);
+  // Take the number itself, so the dot of a prefix like "Rs.5000" is not read as a decimal point
+  const match = text.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  if (!match) return 0;
+  const amount = parseFloat(match[0]);
+
+  return negative ? -amount : amount;
+};
+
+/**
+ * Transaction reference in a narration when the bank has no reference column: the 12 digit
+ * RRN of UPI and IMPS, or the UTR of NEFT and RTGS, which starts with the bank's IFSC code
+ */
+export const extractStatementReference = (description: string): string | null => {
+  const upper = description.toUpperCase();
+  return upper.match(/(?<!\d)\d{12}(?!\d)/)?.[0]
+    || upper.match(/\b[A-Z]{4}[A-Z0-9]{12,18}\b/)?.[0]
+    || null;
+};
+
+/**
+ * Payment method a statement narration points to, for records created from a line
+ */
+export const guessPaymentMethod = (description: string): PaymentMethod => {
+  const upper = description.toUpperCase();
+  if (upper.includes('UPI')) return 'UPI';
+  if (upper.includes('IMPS')) return 'IMPS';
+  if (upper.includes('RTGS')) return 'RTGS';
+  if (upper.includes('NEFT')) return 'NEFT';
+  if (/\b(CHQ|CHEQUE|CLG|CLEARING)\b/.test(upper)) return 'Cheque';
+  if (/\b(POS|CARD)\b/.test(upper)) return 'Card';
+  return 'NEFT';
+};
+
+const buildFingerprint = (line: Omit<ParsedStatementLine, 'fingerprint'>) =>
+  [
+    line.line_date,
+    line.direction,
+    line.amount.toFixed(2),
+    line.balance === null ? '' : line.balance.toFixed(2),
+    line.reference || '',
+    line.description.toLowerCase().replace(/\s+/g, ' ')
+  ].join('|');
+
+/**
+ * Transactions of a bank statement CSV. Throws when no header row with a date and amounts is found.
+ */
+export const parseBankStatement = (text: string): ParsedStatement => {
+  const rows = parseCsv(text);
+
+  let headerIndex = -1;
+  let columns: StatementColumns | null = null;
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+    columns = detectColumns(rows[i].map(normalizeHeader));
+    if (columns) {
+      headerIndex = i;
+      break;
+    }
+  }
+
+  if (!columns) {
+    throw new Error('Could not find the transaction columns. Export the statement as CSV with date, narration and amount columns.');
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+  const lines: ParsedStatementLine[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const lineDate = parseStatementDate(cell(row, columns.date));
+    let signedAmount: number;
+
+    if (columns.debit >= 0 && columns.credit >= 0) {
+      signedAmount = Math.abs(parseStatementAmount(cell(row, columns.credit))) - Math.abs(parseStatementAmount(cell(row, columns.debit)));
+    } else if (columns.drCr >= 0) {
+      const isDebit = /^d/i.test(cell(row, columns.drCr));
+      signedAmount = Math.abs(parseStatementAmount(cell(row, columns.amount))) * (isDebit ? -1 : 1);
+    } else {
+      signedAmount = parseStatementAmount(cell(row, columns.amount));
+    }
+
+    if (!lineDate || !signedAmount) {
+      skippedRows++;
+      continue;
+    }
+
+    const description = cell(row, columns.description);
+    const referenceCell = cell(row, columns.reference);
+    const balanceCell = cell(row, columns.balance);
+    const line = {
+      line_date: lineDate,
+      description,
+      reference: (/[1-9a-z]/i.test(referenceCell) ? referenceCell : null) || extractStatementReference(description),
+      direction: (signedAmount > 0 ? 'credit' : 'debit') as BankStatementDirection,
+      amount: Math.round(Math.abs(signedAmount) * 100) / 100,
+      balance: balanceCell ? parseStatementAmount(balanceCell) : null
+    };
+    lines.push({ ...line, fingerprint: buildFingerprint(line) });
+  }
+
+  const dates = lines.map(line => line.line_date).sort();
+
+  return {
+    bankFormat: detectBankFormat(headers),
+    lines,
+    skippedRows,
+    periodFrom: dates[0] || null,
+    periodTo: dates[dates.length - 1] || null
+  };
+};
@@ -0,0 +1,19 @@
+import { ReactElement, createElement } from 'react';
+import { DocumentProps, pdf } from '@react-pdf/renderer';
+import { saveAs } from 'file-saver';
+import { ClientReceipt } from '@/types/studio';
+import ClientReceiptPDFDocument, { ReceiptFirmData } from '@/components/payments/ClientReceiptPDFRenderer';
+
+export const generateClientReceiptPDF = async (receipt: ClientReceipt, firmData?: ReceiptFirmData | null) => {
+  try {
+    // The component renders a <Document>, which is what pdf() takes
+    const doc = createElement(ClientReceiptPDFDocument, { receipt, firmData }) as unknown as ReactElement<DocumentProps>;
+    const blob = await pdf(doc).toBlob();
+    const clientName = receipt.client?.name || 'Client';
+    saveAs(blob, `Receipt ${receipt.receipt_number} for ${clientName}.pdf`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error generating client receipt PDF:', error);
+    return { success: false, error };
+  }
+};
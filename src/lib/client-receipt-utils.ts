@@ -0,0 +1,137 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ClientReceipt, Event, PaymentFormData } from '@/types/studio';
+import { calculateEventBalance } from '@/lib/payment-calculator';
+
+export type AllocationMode = 'oldest-first' | 'manual';
+
+// Amount of the receipt going to each event, by event id
+export type ReceiptAllocations = Record<string, number>;
+
+export interface OpenClientEvent {
+  event: Event;
+  balance: number;
+}
+
+const EVENT_FINANCIALS_SELECT = `
+  *,
+  client:clients(*),
+  payments(*),
+  event_closing_balances(*),
+  event_refunds(*),
+  client_receipt_allocations(amount, receipt:client_receipts(payment_method, custom_method, cheque_number, cheque_bank, cheque_status, receipt_number, payment_date))
+`;
+
+const withoutDeletedPayments = (event: Event): Event => ({
+  ...event,
+  payments: (event.payments || []).filter(payment => !(payment as { deleted_at?: string | null }).deleted_at)
+});
+
+/**
+ * Events of a client that still have money due, oldest first
+ */
+export const fetchClientOpenEvents = async (clientId: string): Promise<OpenClientEvent[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_FINANCIALS_SELECT)
+    .eq('client_id', clientId)
+    .is('deleted_at', null)
+    .neq('status', 'Cancelled')
+    .order('event_date', { ascending: true });
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as Event[])
+    .map(event => {
+      const withLivePayments = withoutDeletedPayments(event);
+      return { event: withLivePayments, balance: calculateEventBalance(withLivePayments) };
+    })
+    .filter(open => open.balance > 0);
+};
+
+/**
+ * Settle the oldest event first, then the next, until the receipt runs out
+ */
+export const allocateOldestFirst = (openEvents: OpenClientEvent[], amount: number): ReceiptAllocations => {
+  let remaining = amount;
+  const allocations: ReceiptAllocations = {};
+
+  for (const { event, balance } of openEvents) {
+    if (remaining <= 0) break;
+    const share = Math.min(balance, remaining);
+    allocations[event.id] = share;
+    remaining -= share;
+  }
+
+  return allocations;
+};
+
+export const getAllocatedTotal = (allocations: ReceiptAllocations) =>
+  Object.values(allocations).reduce((sum, amount) => sum + (amount || 0), 0);
+
+export const getAllocationProblem = (
+  amount: number,
+  allocations: ReceiptAllocations,
+  openEvents: OpenClientEvent[]
+): string | null => {
+  if (amount <= 0) return 'Receipt amount must be greater than ₹0';
+
+  const over = openEvents.find(({ event, balance }) => (allocations[event.id] || 0) > balance);
+  if (over) return `${over.event.title} only has ₹${over.balance.toLocaleString('en-IN')} left to pay`;
+
+  const unallocated = Math.round(amount - getAllocatedTotal(allocations));
+  if (unallocated > 0) return `₹${unallocated.toLocaleString('en-IN')} of the receipt is not allocated to an event`;
+  if (unallocated < 0) return `Allocations are ₹${(-unallocated).toLocaleString('en-IN')} more than the receipt`;
+  return null;
+};
+
+/**
+ * Record the receipt and its split; the database numbers it and checks every event's balance
+ */
+export const recordClientReceipt = async (
+  clientId: string,
+  payment: PaymentFormData,
+  allocations: ReceiptAllocations
+): Promise<ClientReceipt> => {
+  const { data, error } = await supabase.rpc('record_client_receipt', {
+    p_client_id: clientId,
+    p_amount: payment.amount,
+    p_payment_method: payment.payment_method,
+    p_payment_date: payment.payment_date,
+    p_reference_number: payment.reference_number?.trim() || null,
+    p_notes: payment.notes?.trim() || null,
+    p_custom_method: payment.custom_method || null,
+    p_cheque_number: payment.cheque_number?.trim() || null,
+    p_cheque_bank: payment.cheque_bank?.trim() || null,
+    p_allocations: Object.entries(allocations)
+      .filter(([, amount]) => amount > 0)
+      .map(([event_id, amount]) => ({ event_id, amount }))
+  });
+
+  if (error) throw error;
+  return data as ClientReceipt;
+};
+
+/**
+ * A receipt with its client and the events it paid towards, for the consolidated receipt PDF
+ */
+export const fetchClientReceipt = async (receiptId: string): Promise<ClientReceipt> => {
+  const { data, error } = await supabase
+    .from('client_receipts')
+    .select(`
+      *,
+      client:clients(*),
+      client_receipt_allocations(*, event:events(${EVENT_FINANCIALS_SELECT}))
+    `)
+    .eq('id', receiptId)
+    .single();
+
+  if (error) throw error;
+  const receipt = data as unknown as ClientReceipt;
+  return {
+    ...receipt,
+    client_receipt_allocations: (receipt.client_receipt_allocations || []).map(allocation => ({
+      ...allocation,
+      event: allocation.event ? withoutDeletedPayments(allocation.event) : allocation.event
+    }))
+  };
+};
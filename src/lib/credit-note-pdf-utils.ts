@@ -0,0 +1,19 @@
+import { ReactElement, createElement } from 'react';
+import { DocumentProps, pdf } from '@react-pdf/renderer';
+import { saveAs } from 'file-saver';
+import { Event, EventRefund } from '@/types/studio';
+import CreditNotePDFDocument, { CreditNoteFirmData } from '@/components/payments/CreditNotePDFRenderer';
+
+export const generateCreditNotePDF = async (refund: EventRefund, event: Event, firmData?: CreditNoteFirmData | null) => {
+  try {
+    // The component renders a <Document>, which is what pdf() takes
+    const doc = createElement(CreditNotePDFDocument, { refund, event, firmData }) as unknown as ReactElement<DocumentProps>;
+    const blob = await pdf(doc).toBlob();
+    const clientName = event.client?.name || 'Client';
+    saveAs(blob, `Credit Note ${refund.credit_note_number} for ${clientName}.pdf`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error generating credit note PDF:', error);
+    return { success: false, error };
+  }
+};
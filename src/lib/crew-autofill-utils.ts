@@ -0,0 +1,312 @@
+import { supabase } from '@/integrations/supabase/client';
+import { checkEventCrewCompleteness } from '@/lib/crew-completeness-utils';
+import { getConflictingAssignments } from '@/lib/staff-availability-utils';
+import { SchedulePerson, addDays } from '@/lib/crew-schedule-utils';
+
+/**
+ * Auto-fill crew from quotation requirements. Open slots come from checkEventCrewCompleteness.
+ * Free in-house staff are always ranked before freelancers, since the studio pays them either
+ * way; within each group people are scored on role match, workload over the event's month and
+ * typical cost, and the best candidate fills each slot.
+ */
+
+export interface AutofillPerson extends SchedulePerson {
+  // Average rate for the slot's role, else any role, else the freelancer's listed rate
+  rates: Record<string, number>;
+  defaultRate?: number | null;
+}
+
+export interface AutofillCandidate {
+  person: AutofillPerson;
+  score: number;
+  rate?: number;
+  reasons: string[];
+}
+
+export interface CrewProposal {
+  key: string;
+  day: number;
+  dayDate: string;
+  role: string;
+  pick: AutofillCandidate | null;
+  alternatives: AutofillCandidate[];
+  // Why people were left out of this slot, e.g. "2 busy, 1 on leave"
+  skipped: string[];
+}
+
+interface AutofillEvent {
+  id: string;
+  event_date: string;
+  total_days?: number | null;
+  quotation_source_id?: string | null;
+}
+
+interface ExistingAssignment {
+  staff_id: string;
+  role: string;
+  day_number: number;
+}
+
+const ROLE_MATCH_SCORE = 50;
+const GENERAL_CREW_SCORE = 10;
+const WORKLOAD_PENALTY = 4;
+const COST_SCORE = 15;
+const ALTERNATIVES_SHOWN = 2;
+
+// Person roles that can fill each required role, best first
+const ROLE_FIT: Record<string, string[]> = {
+  'Photographer': ['Photographer'],
+  'Cinematographer': ['Cinematographer'],
+  'Drone Pilot': ['Drone Pilot'],
+  'Same Day Editor': ['Editor']
+};
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const getRoleScore = (requiredRole: string, personRole?: string | null): { score: number; reason: string } | null => {
+  if (!personRole) return null;
+  if ((ROLE_FIT[requiredRole] || [requiredRole]).includes(personRole)) {
+    return { score: ROLE_MATCH_SCORE, reason: `${personRole} by role` };
+  }
+  if (personRole === 'Other') {
+    return { score: GENERAL_CREW_SCORE, reason: 'General crew, not a role match' };
+  }
+  return null;
+};
+
+const getPersonRate = (person: AutofillPerson, role: string): number | undefined =>
+  person.rates[role] ?? person.rates['*'] ?? person.defaultRate ?? undefined;
+
+/**
+ * Staff and freelancers with their usual rates from event_assignment_rates
+ */
+export const fetchAutofillPeople = async (firmId: string): Promise<AutofillPerson[]> => {
+  const [staffResult, freelancersResult, ratesResult] = await Promise.all([
+    supabase.from('profiles').select('id, full_name, role').eq('firm_id', firmId),
+    supabase.from('freelancers').select('id, full_name, role, rate').eq('firm_id', firmId),
+    supabase
+      .from('event_assignment_rates')
+      .select('staff_id, freelancer_id, role, rate')
+      .eq('firm_id', firmId)
+      .order('created_at', { ascending: false })
+      .limit(1000)
+  ]);
+
+  if (staffResult.error) throw staffResult.error;
+  if (freelancersResult.error) throw freelancersResult.error;
+  if (ratesResult.error) throw ratesResult.error;
+
+  // Averages per person and role, plus '*' across all roles
+  const totals = new Map<string, Record<string, { sum: number; count: number }>>();
+  for (const row of ratesResult.data || []) {
+    const personId = row.staff_id || row.freelancer_id;
+    if (!personId || !row.rate) continue;
+    const personTotals = totals.get(personId) || {};
+    for (const key of [row.role, '*']) {
+      const total = personTotals[key] || { sum: 0, count: 0 };
+      personTotals[key] = { sum: total.sum + Number(row.rate), count: total.count + 1 };
+    }
+    totals.set(personId, personTotals);
+  }
+
+  const averages = (personId: string): Record<string, number> =>
+    Object.fromEntries(Object.entries(totals.get(personId) || {}).map(([key, total]) => [key, total.sum / total.count]));
+
+  return [
+    ...(staffResult.data || [])
+      .filter(staff => staff.role !== 'Admin')
+      .map(staff => ({ ...staff, is_freelancer: false, rates: averages(staff.id) })),
+    ...(freelancersResult.data || []).map(freelancer => ({
+      id: freelancer.id,
+      full_name: freelancer.full_name,
+      role: freelancer.role,
+      is_freelancer: true,
+      rates: averages(freelancer.id),
+      defaultRate: freelancer.rate
+    }))
+  ];
+};
+
+/**
+ * Crew assignments per person in the month of a date
+ */
+const fetchMonthlyWorkload = async (firmId: string, date: string): Promise<Map<string, number>> => {
+  const day = new Date(`${date}T00:00:00`);
+  const monthStart = addDays(date, 1 - day.getDate());
+  const monthEnd = addDays(monthStart, new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate() - 1);
+
+  const { data, error } = await supabase
+    .from('event_staff_assignments')
+    .select('staff_id, freelancer_id')
+    .eq('firm_id', firmId)
+    .gte('day_date', monthStart)
+    .lte('day_date', monthEnd);
+
+  if (error) throw error;
+
+  const workload = new Map<string, number>();
+  for (const row of data || []) {
+    const personId = row.staff_id || row.freelancer_id;
+    if (personId) workload.set(personId, (workload.get(personId) || 0) + 1);
+  }
+  return workload;
+};
+
+/**
+ * Propose a person for every open slot of a quotation-backed event
+ */
+export const buildCrewProposals = async ({
+  firmId,
+  event,
+  quotationDetails,
+  assignments,
+  people
+}: {
+  firmId: string;
+  event: AutofillEvent;
+  quotationDetails: unknown;
+  assignments: ExistingAssignment[];
+  people: AutofillPerson[];
+}): Promise<CrewProposal[]> => {
+  const completeness = checkEventCrewCompleteness({
+    quotation_source_id: event.quotation_source_id || 'quotation',
+    quotation_details: quotationDetails,
+    total_days: event.total_days || 1,
+    event_staff_assignments: assignments
+  });
+
+  const missing = completeness.missingCrew || [];
+  if (missing.length === 0) return [];
+
+  const workload = await fetchMonthlyWorkload(firmId, event.event_date);
+  const days = Array.from(new Set(missing.map(slot => slot.day)));
+
+  // People booked elsewhere or on approved leave, per day
+  const blockedByDay = new Map<number, { busy: Set<string>; leave: Set<string> }>();
+  await Promise.all(days.map(async day => {
+    const dayDate = addDays(event.event_date, day - 1);
+    const conflicts = await getConflictingAssignments({ startDate: dayDate, endDate: dayDate }, event.id, firmId);
+    const busy = new Set<string>();
+    const leave = new Set<string>();
+    for (const conflict of conflicts) {
+      const personId = conflict.staff_id || conflict.freelancer_id;
+      if (personId) (conflict.unavailability_id ? leave : busy).add(personId);
+    }
+    // Already on this event that day
+    for (const assignment of assignments.filter(a => a.day_number === day)) {
+      busy.add(assignment.staff_id);
+    }
+    blockedByDay.set(day, { busy, leave });
+  }));
+
+  const proposals: CrewProposal[] = [];
+
+  for (const slot of missing.sort((a, b) => a.day - b.day)) {
+    const dayDate = addDays(event.event_date, slot.day - 1);
+    const blocked = blockedByDay.get(slot.day)!;
+
+    for (let index = slot.assigned; index < slot.required; index++) {
+      let busyCount = 0;
+      let leaveCount = 0;
+      const candidates: AutofillCandidate[] = [];
+      const fits = people
+        .map(person => ({ person, roleScore: getRoleScore(slot.role, person.role) }))
+        .filter((entry): entry is { person: AutofillPerson; roleScore: { score: number; reason: string } } => entry.roleScore !== null);
+      const rates = fits
+        .map(({ person }) => getPersonRate(person, slot.role))
+        .filter((rate): rate is number => rate !== undefined);
+      const minRate = Math.min(...rates);
+      const maxRate = Math.max(...rates);
+
+      for (const { person, roleScore } of fits) {
+        if (blocked.leave.has(person.id)) {
+          leaveCount++;
+          continue;
+        }
+        if (blocked.busy.has(person.id)) {
+          busyCount++;
+          continue;
+        }
+
+        const reasons = [roleScore.reason];
+        let score = roleScore.score;
+
+        const load = workload.get(person.id) || 0;
+        score -= load * WORKLOAD_PENALTY;
+        reasons.push(load === 0 ? 'No other bookings this month' : `${load} booking${load > 1 ? 's' : ''} this month`);
+
+        const rate = getPersonRate(person, slot.role);
+        if (rate !== undefined) {
+          score += maxRate > minRate ? COST_SCORE * (maxRate - rate) / (maxRate - minRate) : COST_SCORE;
+          reasons.push(`Usually ${formatRupees(rate)}`);
+        } else {
+          reasons.push('No rate on record');
+        }
+
+        candidates.push({ person, score: Math.round(score), rate, reasons });
+      }
+
+      candidates.sort((a, b) =>
+        Number(a.person.is_freelancer) - Number(b.person.is_freelancer) ||
+        b.score - a.score ||
+        a.person.full_name.localeCompare(b.person.full_name)
+      );
+      const pick = candidates[0] || null;
+      if (pick) {
+        pick.reasons.unshift(pick.person.is_freelancer ? 'Freelancer, no in-house staff free' : 'In-house staff, ranked before freelancers');
+      }
+
+      const skipped = [
+        busyCount > 0 ? `${busyCount} booked elsewhere` : '',
+        leaveCount > 0 ? `${leaveCount} on leave` : ''
+      ].filter(Boolean);
+
+      proposals.push({
+        key: `${slot.day}-${slot.role}-${index}`,
+        day: slot.day,
+        dayDate,
+        role: slot.role,
+        pick,
+        alternatives: candidates.slice(1, 1 + ALTERNATIVES_SHOWN),
+        skipped
+      });
+
+      // One slot per person per day; count the booking so the next pick spreads the work
+      if (pick) {
+        blocked.busy.add(pick.person.id);
+        workload.set(pick.person.id, (workload.get(pick.person.id) || 0) + 1);
+      }
+    }
+  }
+
+  return proposals;
+};
+
+/**
+ * Save the accepted proposals as full-day crew assignments
+ */
+export const applyCrewProposals = async (
+  firmId: string,
+  eventId: string,
+  proposals: CrewProposal[]
+): Promise<number> => {
+  const rows = proposals
+    .filter((proposal): proposal is CrewProposal & { pick: AutofillCandidate } => proposal.pick !== null)
+    .map(({ pick, role, day, dayDate }) => ({
+      event_id: eventId,
+      firm_id: firmId,
+      staff_id: pick.person.is_freelancer ? null : pick.person.id,
+      freelancer_id: pick.person.is_freelancer ? pick.person.id : null,
+      staff_type: pick.person.is_freelancer ? 'freelancer' : 'staff',
+      role,
+      day_number: day,
+      day_date: dayDate
+    }));
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('event_staff_assignments').insert(rows);
+  if (error) throw error;
+
+  return rows.length;
+};
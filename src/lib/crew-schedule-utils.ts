@@ -0,0 +1,194 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CREW_ROLES, displayRole } from '@/lib/role-utils';
+import { getSessionDayNumber } from '@/lib/event-session-utils';
+import type { EventLifecycleStatus } from '@/types/studio';
+
+export type ScheduleView = 'crew' | 'month' | 'week';
+
+export interface SchedulePerson {
+  id: string;
+  full_name: string;
+  role?: string | null;
+  is_freelancer: boolean;
+}
+
+export interface ScheduleSession {
+  id: string;
+  name: string;
+  session_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  venue: string | null;
+  sort_order: number;
+}
+
+export interface ScheduleAssignment {
+  id: string;
+  event_id: string;
+  staff_id: string | null;
+  freelancer_id: string | null;
+  role: string;
+  day_number: number;
+  day_date: string | null;
+  session_id: string | null;
+}
+
+export interface ScheduleEvent {
+  id: string;
+  title: string;
+  event_type: string;
+  event_date: string;
+  event_end_date: string | null;
+  total_days: number | null;
+  venue: string | null;
+  status: EventLifecycleStatus;
+  client?: { name: string } | null;
+  event_sessions: ScheduleSession[];
+  event_staff_assignments: ScheduleAssignment[];
+}
+
+/**
+ * What is being dragged on the crew calendar (serialized into dataTransfer)
+ */
+export type ScheduleDragItem =
+  | { kind: 'person'; personId: string }
+  | { kind: 'event'; eventId: string }
+  | { kind: 'assignment'; assignmentId: string };
+
+export const SCHEDULE_DRAG_TYPE = 'application/x-crew-schedule';
+
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return toDateString(next);
+};
+
+/**
+ * Monday-based week containing the date
+ */
+export const getWeekDays = (anchor: string): string[] => {
+  const date = new Date(`${anchor}T00:00:00`);
+  const offset = (date.getDay() + 6) % 7;
+  const monday = addDays(anchor, -offset);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+/**
+ * Six Monday-based weeks covering the month of the date, padded with adjacent days
+ */
+export const getMonthGrid = (anchor: string): string[] => {
+  const date = new Date(`${anchor}T00:00:00`);
+  const first = toDateString(new Date(date.getFullYear(), date.getMonth(), 1));
+  const start = getWeekDays(first)[0];
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+};
+
+export const getEventDays = (event: Pick<ScheduleEvent, 'event_date' | 'total_days'>): string[] =>
+  Array.from({ length: Math.max(1, event.total_days || 1) }, (_, i) => addDays(event.event_date, i));
+
+export const getAssignmentDate = (assignment: ScheduleAssignment, event: Pick<ScheduleEvent, 'event_date'>): string =>
+  assignment.day_date || addDays(event.event_date, assignment.day_number - 1);
+
+export const getPersonId = (assignment: Pick<ScheduleAssignment, 'staff_id' | 'freelancer_id'>) =>
+  assignment.staff_id || assignment.freelancer_id || '';
+
+/**
+ * Crew role suggested for a person when they are dropped onto an event
+ */
+export const getDefaultCrewRole = (personRole?: string | null): string => {
+  const role = displayRole(personRole);
+  if (role === 'Editor') return 'Same Day Editor';
+  return CREW_ROLES.includes(role) ? role : 'Other';
+};
+
+export const fetchScheduleEvents = async (firmId: string, rangeStart: string, rangeEnd: string): Promise<ScheduleEvent[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select(`
+      id, title, event_type, event_date, event_end_date, total_days, venue, status,
+      client:clients(name),
+      event_sessions(id, name, session_date, start_time, end_time, venue, sort_order),
+      event_staff_assignments(id, event_id, staff_id, freelancer_id, role, day_number, day_date, session_id)
+    `)
+    .eq('firm_id', firmId)
+    .neq('status', 'Cancelled')
+    .lte('event_date', rangeEnd)
+    // Multi-day events that started before the range still show on their later days
+    .gte('event_date', addDays(rangeStart, -30))
+    .order('event_date', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).filter(event => {
+    const days = getEventDays(event);
+    return days[days.length - 1] >= rangeStart;
+  });
+};
+
+export const createCrewAssignment = async ({
+  firmId,
+  event,
+  dayDate,
+  person,
+  role,
+  sessionId
+}: {
+  firmId: string;
+  event: Pick<ScheduleEvent, 'id' | 'event_date'>;
+  dayDate: string;
+  person: SchedulePerson;
+  role: string;
+  sessionId?: string | null;
+}): Promise<void> => {
+  const dayNumber = getSessionDayNumber(event.event_date, dayDate);
+
+  const { error } = await supabase.from('event_staff_assignments').insert({
+    event_id: event.id,
+    firm_id: firmId,
+    staff_id: person.is_freelancer ? null : person.id,
+    freelancer_id: person.is_freelancer ? person.id : null,
+    staff_type: person.is_freelancer ? 'freelancer' : 'staff',
+    role,
+    day_number: dayNumber,
+    day_date: dayDate,
+    session_id: sessionId || null
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Move an assignment to another person and/or another day of the same event
+ */
+export const moveCrewAssignment = async ({
+  assignment,
+  event,
+  dayDate,
+  person
+}: {
+  assignment: ScheduleAssignment;
+  event: Pick<ScheduleEvent, 'event_date' | 'event_sessions'>;
+  dayDate: string;
+  person: SchedulePerson;
+}): Promise<void> => {
+  const dayNumber = getSessionDayNumber(event.event_date, dayDate);
+  // A session belongs to one day, so it is dropped when the assignment changes day
+  const session = event.event_sessions.find(s => s.id === assignment.session_id);
+
+  const { error } = await supabase
+    .from('event_staff_assignments')
+    .update({
+      staff_id: person.is_freelancer ? null : person.id,
+      freelancer_id: person.is_freelancer ? person.id : null,
+      staff_type: person.is_freelancer ? 'freelancer' : 'staff',
+      day_number: dayNumber,
+      day_date: dayDate,
+      session_id: session && session.session_date === dayDate ? session.id : null
+    })
+    .eq('id', assignment.id);
+
+  if (error) throw error;
+};
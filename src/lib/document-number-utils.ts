@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DocumentType, FirmDocumentSeries } from '@/types/studio';
+
+export type DocumentSeriesSettings = Pick<FirmDocumentSeries, 'document_type' | 'prefix' | 'padding' | 'reset_financial_year'>;
+
+export const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'receipt', 'credit_note', 'quotation'];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: 'Invoices',
+  receipt: 'Receipts',
+  credit_note: 'Credit Notes',
+  quotation: 'Quotations'
+};
+
+// Used until a firm saves its own settings; matches next_document_number in the database
+export const DEFAULT_DOCUMENT_SERIES: Record<DocumentType, DocumentSeriesSettings> = {
+  invoice: { document_type: 'invoice', prefix: 'INV-', padding: 4, reset_financial_year: false },
+  receipt: { document_type: 'receipt', prefix: 'RCPT-', padding: 4, reset_financial_year: false },
+  credit_note: { document_type: 'credit_note', prefix: 'CN-', padding: 4, reset_financial_year: false },
+  quotation: { document_type: 'quotation', prefix: 'QT-', padding: 4, reset_financial_year: false }
+};
+
+/**
+ * Indian financial year (April to March) of a date, e.g. 10 Feb 2027 -> "2026-27"
+ */
+export const getFinancialYearLabel = (date: Date = new Date()): string => {
+  const startYear = date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Number as the database gives it, for previews in settings
+ */
+export const formatDocumentNumber = (series: DocumentSeriesSettings, number: number, date: Date = new Date()): string => {
+  const period = series.reset_financial_year ? `${getFinancialYearLabel(date)}/` : '';
+  return `${series.prefix}${period}${String(number).padStart(series.padding, '0')}`;
+};
+
+/**
+ * The event's invoice number, given from the firm's invoice series the first time and
+ * reused on every later download or share
+ */
+export const getEventInvoiceNumber = async (eventId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('get_event_invoice_number', { p_event_id: eventId });
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,157 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDays } from '@/lib/crew-schedule-utils';
+import { ConflictingEventDetail, SessionWindow, getPersonConflictDetails } from '@/lib/staff-availability-utils';
+
+export interface ClonePreview {
+  sessions: number;
+  // Session crew keeps its session's call time and venue, checked for clashes on the new date
+  crew: Array<{
+    person_id: string | null;
+    name: string;
+    role: string;
+    day_number: number;
+    day_date: string | null;
+    session: SessionWindow | null;
+  }>;
+  rates: number;
+  tasks: Array<{ title: string; due_date: string | null }>;
+  // Payments are never copied; shown so the admin knows what stays on the original
+  payments: { count: number; total: number };
+  storage: { disk: string | null; size: number | null };
+}
+
+export interface CloneEventOptions {
+  eventId: string;
+  eventDate: string;
+  title?: string;
+  includeCrew: boolean;
+  includeTasks: boolean;
+  allowConflicts?: boolean;
+}
+
+// A copied crew member who is booked elsewhere or on approved leave on the new date
+export interface CloneCrewConflict {
+  name: string;
+  role: string;
+  date: string;
+  conflicts: ConflictingEventDetail[];
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * Shift a date by the gap between the source event and the clone, as clone_event does
+ */
+export const shiftCloneDate = (date: string | null, sourceDate: string, targetDate: string): string | null =>
+  date ? addDays(date, daysBetween(sourceDate, targetDate)) : null;
+
+/**
+ * Everything clone_event would copy from an event
+ */
+export const fetchClonePreview = async (eventId: string): Promise<ClonePreview> => {
+  const [eventResult, sessionsResult, crewResult, ratesResult, tasksResult, paymentsResult] = await Promise.all([
+    supabase.from('events').select('event_date, venue, storage_disk, storage_size').eq('id', eventId).single(),
+    supabase.from('event_sessions').select('id', { count: 'exact', head: true }).eq('event_id', eventId),
+    supabase
+      .from('event_staff_assignments')
+      .select(`
+        role, day_number, day_date, staff_id, freelancer_id,
+        session:event_sessions(session_date, start_time, end_time, venue),
+        staff:profiles!event_staff_assignments_staff_id_fkey(full_name),
+        freelancer:freelancers!event_staff_assignments_freelancer_id_fkey(full_name)
+      `)
+      .eq('event_id', eventId)
+      .order('day_number', { ascending: true }),
+    supabase.from('event_assignment_rates').select('id', { count: 'exact', head: true }).eq('event_id', eventId),
+    supabase.from('tasks').select('title, due_date').eq('event_id', eventId).order('due_date', { ascending: true }),
+    supabase.from('payments').select('amount').eq('event_id', eventId).is('deleted_at', null)
+  ]);
+
+  if (eventResult.error) throw eventResult.error;
+  if (crewResult.error) throw crewResult.error;
+  if (tasksResult.error) throw tasksResult.error;
+  if (paymentsResult.error) throw paymentsResult.error;
+
+  const payments = paymentsResult.data || [];
+  const event = eventResult.data;
+
+  return {
+    sessions: sessionsResult.count || 0,
+    crew: (crewResult.data || []).map(assignment => ({
+      person_id: assignment.staff_id || assignment.freelancer_id || null,
+      name: assignment.staff?.full_name || assignment.freelancer?.full_name || 'Unknown',
+      role: assignment.role,
+      day_number: assignment.day_number,
+      day_date: assignment.day_date || addDays(event.event_date, assignment.day_number - 1),
+      session: assignment.session
+        ? {
+            date: assignment.session.session_date,
+            startTime: assignment.session.start_time,
+            endTime: assignment.session.end_time,
+            venue: assignment.session.venue?.trim() || event.venue
+          }
+        : null
+    })),
+    rates: ratesResult.count || 0,
+    tasks: tasksResult.data || [],
+    payments: {
+      count: payments.length,
+      total: payments.reduce((sum, payment) => sum + Number(payment.amount || 0), 0)
+    },
+    storage: { disk: event.storage_disk, size: event.storage_size }
+  };
+};
+
+/**
+ * Bookings and approved leave clashing with the copied crew on the new dates, measured over
+ * each session's hours and venue (or the whole day) as clone_event does
+ */
+export const fetchCloneCrewConflicts = async (
+  preview: ClonePreview,
+  sourceDate: string,
+  targetDate: string,
+  firmId: string
+): Promise<CloneCrewConflict[]> => {
+  const results = await Promise.all(preview.crew
+    .filter(member => member.person_id && member.day_date)
+    .map(async member => {
+      const date = shiftCloneDate(member.session?.date || member.day_date, sourceDate, targetDate)!;
+      const { conflictingEvents } = await getPersonConflictDetails(
+        member.person_id!,
+        { startDate: date, endDate: date },
+        undefined,
+        firmId,
+        undefined,
+        member.session ? { ...member.session, date } : undefined
+      );
+      return { name: member.name, role: member.role, date, conflicts: conflictingEvents };
+    }));
+
+  return results.filter(result => result.conflicts.length > 0);
+};
+
+/**
+ * Copy an event with clone_event and return the new event id. Clashing bookings are rejected
+ * unless allowConflicts is set; crew on approved leave is left off the copy.
+ */
+export const cloneEvent = async ({
+  eventId,
+  eventDate,
+  title,
+  includeCrew,
+  includeTasks,
+  allowConflicts = false
+}: CloneEventOptions): Promise<string> => {
+  const { data, error } = await supabase.rpc('clone_event', {
+    p_event_id: eventId,
+    p_event_date: eventDate,
+    p_title: title?.trim() || undefined,
+    p_include_crew: includeCrew,
+    p_include_tasks: includeTasks,
+    p_allow_conflicts: allowConflicts
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,337 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { syncEventInBackground } from '@/services/googleSheetsSync';
+import {
+  EventTemplate,
+  EventTemplateCrewSlot,
+  EventTemplateTask,
+  RecurrenceFrequency
+} from '@/types/studio';
+
+type EventTemplateRow = Database['public']['Tables']['event_templates']['Row'];
+
+// A named template crew member who is booked elsewhere or on approved leave on an occurrence
+export type SeriesCrewConflict = Database['public']['Functions']['get_series_crew_conflicts']['Returns'][number];
+
+// Upper bound on occurrences per series (two years of weekly events), enforced again in create_event_series
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  custom: 'Custom dates'
+};
+
+// Fields a "this and following" or whole-series edit copies to the other occurrences. Money, crew and
+// lifecycle status stay per occurrence since payments and attendance differ.
+export const SERIES_SHARED_FIELDS = ['title', 'event_type', 'venue', 'description'] as const;
+
+export type SeriesSharedChanges = Partial<Record<typeof SERIES_SHARED_FIELDS[number], string | null>>;
+
+export type SeriesEditScope = 'occurrence' | 'following' | 'all';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  endDate?: string;
+  intervalCount?: number;
+  customDates?: string[];
+}
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Normalize an event_templates row (JSON columns may be null or strings)
+ */
+export const normalizeEventTemplate = (row: EventTemplateRow): EventTemplate => {
+  const parseList = <T,>(value: unknown): T[] => {
+    if (!value) return [];
+    if (typeof value === 'string') {
+      try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed as T[] : [];
+      } catch {
+        return [];
+      }
+    }
+    return Array.isArray(value) ? value as T[] : [];
+  };
+
+  return {
+    ...row,
+    crew: parseList<EventTemplateCrewSlot>(row.crew),
+    tasks: parseList<EventTemplateTask>(row.tasks)
+  };
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * Template draft from an existing event: its crew (with rates from event_assignment_rates),
+ * the call time of its first timed session and tasks, with due dates stored relative to the event date
+ */
+export const buildTemplateFromEvent = async (
+  eventId: string
+): Promise<Omit<EventTemplate, 'id' | 'firm_id' | 'name' | 'is_active' | 'created_at' | 'updated_at'>> => {
+  const [eventResult, assignmentsResult, ratesResult, tasksResult, sessionsResult] = await Promise.all([
+    supabase
+      .from('events')
+      .select('event_type, event_date, venue, description, total_days, total_amount')
+      .eq('id', eventId)
+      .single(),
+    supabase
+      .from('event_staff_assignments')
+      .select('day_number, role, staff_id, freelancer_id')
+      .eq('event_id', eventId)
+      .order('day_number', { ascending: true }),
+    supabase
+      .from('event_assignment_rates')
+      .select('day_number, role, staff_id, freelancer_id, rate, quantity')
+      .eq('event_id', eventId),
+    supabase
+      .from('tasks')
+      .select('title, description, task_type, priority, amount, due_date, assigned_to, freelancer_id')
+      .eq('event_id', eventId),
+    supabase
+      .from('event_sessions')
+      .select('start_time, end_time')
+      .eq('event_id', eventId)
+      .not('start_time', 'is', null)
+      .not('end_time', 'is', null)
+      .order('session_date', { ascending: true })
+      .order('start_time', { ascending: true })
+      .limit(1)
+  ]);
+
+  if (eventResult.error) throw eventResult.error;
+  const event = eventResult.data;
+  const rates = ratesResult.data || [];
+  const callTime = sessionsResult.data?.[0];
+
+  const crew: EventTemplateCrewSlot[] = (assignmentsResult.data || []).map(assignment => {
+    const rate = rates.find(r =>
+      r.day_number === assignment.day_number &&
+      r.role === assignment.role &&
+      (r.staff_id || r.freelancer_id) === (assignment.staff_id || assignment.freelancer_id)
+    );
+    return {
+      day_number: assignment.day_number,
+      role: assignment.role,
+      staff_id: assignment.staff_id,
+      freelancer_id: assignment.freelancer_id,
+      rate: rate ? Number(rate.rate) : undefined,
+      quantity: rate ? Number(rate.quantity) : undefined
+    };
+  });
+
+  const tasks: EventTemplateTask[] = (tasksResult.data || []).map(task => ({
+    title: task.title,
+    description: task.description || undefined,
+    task_type: task.task_type,
+    priority: task.priority || 'Medium',
+    amount: task.amount,
+    due_offset_days: task.due_date ? daysBetween(event.event_date, task.due_date) : null,
+    assigned_to: task.assigned_to,
+    freelancer_id: task.freelancer_id
+  }));
+
+  return {
+    event_type: event.event_type,
+    venue: event.venue,
+    description: event.description,
+    total_days: event.total_days || 1,
+    total_amount: event.total_amount || 0,
+    start_time: callTime?.start_time || null,
+    end_time: callTime?.end_time || null,
+    crew,
+    tasks
+  };
+};
+
+/**
+ * Occurrence dates for a rule, sorted and de-duplicated. Monthly rules keep the day of
+ * the month, falling back to the last day in shorter months (31st -> 30 Apr).
+ */
+export const expandRecurrence = (rule: RecurrenceRule): string[] => {
+  if (rule.frequency === 'custom') {
+    return Array.from(new Set((rule.customDates || []).filter(Boolean)))
+      .sort()
+      .slice(0, MAX_SERIES_OCCURRENCES);
+  }
+
+  if (!rule.startDate || !rule.endDate || rule.endDate < rule.startDate) return [];
+
+  const interval = Math.max(1, rule.intervalCount || 1);
+  const start = new Date(`${rule.startDate}T00:00:00`);
+  const dates: string[] = [];
+
+  for (let i = 0; dates.length < MAX_SERIES_OCCURRENCES; i++) {
+    let next: Date;
+    if (rule.frequency === 'weekly') {
+      next = new Date(start);
+      next.setDate(start.getDate() + i * interval * 7);
+    } else {
+      const monthIndex = start.getMonth() + i * interval;
+      const lastDay = new Date(start.getFullYear(), monthIndex + 1, 0).getDate();
+      next = new Date(start.getFullYear(), monthIndex, Math.min(start.getDate(), lastDay));
+    }
+
+    const value = toDateString(next);
+    if (value > rule.endDate) break;
+    dates.push(value);
+  }
+
+  return dates;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  if (rule.frequency === 'custom') return 'On selected dates';
+  const interval = Math.max(1, rule.intervalCount || 1);
+  const unit = rule.frequency === 'weekly' ? 'week' : 'month';
+  return interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+};
+
+/**
+ * Push occurrences to Google Calendar. Each occurrence is its own calendar entry (with its
+ * own calendar_event_id), so single-event exceptions never disturb the rest of the series.
+ * Runs one at a time to stay within the Calendar API rate limits.
+ */
+export const syncSeriesOccurrences = async (eventIds: string[], firmId: string, operation: 'create' | 'update' = 'update') => {
+  for (const eventId of eventIds) {
+    try {
+      await supabase.functions.invoke('sync-event-to-calendar', { body: { eventId } });
+    } catch (error) {
+      console.error('Calendar sync failed for series occurrence:', eventId, error);
+    }
+    syncEventInBackground(eventId, firmId, operation);
+  }
+};
+
+/**
+ * Clashes for the template's named crew on each occurrence, for the preview before creating
+ */
+export const fetchSeriesCrewConflicts = async (templateId: string, dates: string[]): Promise<SeriesCrewConflict[]> => {
+  if (!templateId || dates.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('get_series_crew_conflicts', {
+    p_template_id: templateId,
+    p_dates: dates
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Materialize a series from a template: events, crew assignments, rates and tasks are
+ * created in one transaction by create_event_series. Clashing bookings are rejected unless
+ * allowConflicts is set; crew on approved leave is left off those occurrences.
+ * Returns the new occurrence ids.
+ */
+export const createEventSeries = async ({
+  templateId,
+  title,
+  clientId,
+  rule,
+  allowConflicts = false
+}: {
+  templateId: string;
+  title: string;
+  clientId: string | null;
+  rule: RecurrenceRule;
+  allowConflicts?: boolean;
+}): Promise<{ seriesId: string; eventIds: string[] }> => {
+  const dates = expandRecurrence(rule);
+  if (dates.length === 0) {
+    throw new Error('The recurrence rule does not produce any dates');
+  }
+
+  const { data: seriesId, error } = await supabase.rpc('create_event_series', {
+    p_template_id: templateId,
+    p_title: title.trim(),
+    p_client_id: clientId,
+    p_frequency: rule.frequency,
+    p_interval_count: Math.max(1, rule.intervalCount || 1),
+    p_dates: dates,
+    p_allow_conflicts: allowConflicts
+  });
+
+  if (error) throw error;
+
+  const { data: events, error: eventsError } = await supabase
+    .from('events')
+    .select('id')
+    .eq('series_id', seriesId)
+    .order('event_date', { ascending: true });
+
+  if (eventsError) throw eventsError;
+
+  return { seriesId, eventIds: (events || []).map(event => event.id) };
+};
+
+/**
+ * Detach an occurrence from whole-series edits after it was changed on its own
+ */
+export const markSeriesException = async (eventId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('events')
+    .update({ series_exception: true })
+    .eq('id', eventId);
+
+  if (error) throw error;
+};
+
+/**
+ * Copy shared fields to occurrences of a series from a date, or to all of them when
+ * fromDate is null (exceptions keep their own values). Returns the ids of the occurrences that changed.
+ */
+export const applySeriesUpdate = async (
+  seriesId: string,
+  fromDate: string | null,
+  changes: SeriesSharedChanges,
+  excludeEventId?: string
+): Promise<string[]> => {
+  if (Object.keys(changes).length === 0) return [];
+
+  let query = supabase
+    .from('events')
+    .update(changes)
+    .eq('series_id', seriesId)
+    .eq('series_exception', false);
+
+  if (fromDate) {
+    query = query.gte('event_date', fromDate);
+  }
+
+  if (excludeEventId) {
+    query = query.neq('id', excludeEventId);
+  }
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+
+  if ('title' in changes && changes.title) {
+    await supabase.from('event_series').update({ title: changes.title }).eq('id', seriesId);
+  }
+
+  return (data || []).map(event => event.id);
+};
+
+/**
+ * Shared fields that differ between the saved occurrence and the edited values
+ */
+export const getSeriesSharedChanges = (
+  before: Partial<Record<typeof SERIES_SHARED_FIELDS[number], string | null | undefined>>,
+  after: Partial<Record<typeof SERIES_SHARED_FIELDS[number], string | null | undefined>>
+): SeriesSharedChanges => {
+  const changes: SeriesSharedChanges = {};
+  for (const field of SERIES_SHARED_FIELDS) {
+    const next = after[field] ?? null;
+    if ((before[field] ?? null) !== next) {
+      changes[field] = next;
+    }
+  }
+  return changes;
+};
@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { EventSession } from '@/types/studio';
+
+// Common ceremony names offered as quick picks when adding a session
+export const SESSION_NAME_SUGGESTIONS = ['Haldi', 'Mehendi', 'Sangeet', 'Wedding', 'Reception', 'Engagement', 'Cocktail'];
+
+/**
+ * A session as edited in the event form - ids are generated client side so crew
+ * blocks can reference a session before it is saved
+ */
+export type EventSessionDraft = Omit<EventSession, 'event_id' | 'firm_id' | 'created_at' | 'updated_at'>;
+
+export const createSessionDraft = (sessionDate: string, sortOrder: number, name = ''): EventSessionDraft => ({
+  id: crypto.randomUUID(),
+  name,
+  session_date: sessionDate,
+  start_time: null,
+  end_time: null,
+  venue: null,
+  notes: null,
+  sort_order: sortOrder
+});
+
+/**
+ * Order sessions by date, then call time, then manual order
+ */
+export const sortSessions = <T extends Pick<EventSession, 'session_date' | 'start_time' | 'sort_order'>>(sessions: T[]): T[] =>
+  [...sessions].sort((a, b) =>
+    a.session_date.localeCompare(b.session_date) ||
+    (a.start_time || '').localeCompare(b.start_time || '') ||
+    a.sort_order - b.sort_order
+  );
+
+/**
+ * Day number of a session within the event (Day 1 = event_date)
+ */
+export const getSessionDayNumber = (eventDate: string, sessionDate: string): number => {
+  const start = new Date(`${eventDate}T00:00:00`);
+  const day = new Date(`${sessionDate}T00:00:00`);
+  return Math.max(1, Math.round((day.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1);
+};
+
+/**
+ * Format a database time ("18:30:00") as "6:30 PM"
+ */
+export const formatSessionTime = (time?: string | null): string => {
+  if (!time) return '';
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 || 12;
+  return `${displayHours}:${String(minutes || 0).padStart(2, '0')} ${period}`;
+};
+
+export const formatSessionTimeRange = (session: Pick<EventSession, 'start_time' | 'end_time'>): string => {
+  if (session.start_time && session.end_time) {
+    return `${formatSessionTime(session.start_time)} – ${formatSessionTime(session.end_time)}`;
+  }
+  if (session.start_time) return `From ${formatSessionTime(session.start_time)}`;
+  if (session.end_time) return `Until ${formatSessionTime(session.end_time)}`;
+  return 'Full day';
+};
+
+export const formatSessionDate = (sessionDate: string): string =>
+  new Date(`${sessionDate}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * One-line summary, e.g. "Sangeet • 12 Dec 2025 • 6:00 PM – 11:00 PM"
+ */
+export const getSessionLabel = (session: Pick<EventSession, 'name' | 'session_date' | 'start_time' | 'end_time'>): string =>
+  [session.name, formatSessionDate(session.session_date), formatSessionTimeRange(session)].join(' • ');
+
+export const fetchEventSessions = async (eventId: string): Promise<EventSession[]> => {
+  const { data, error } = await supabase
+    .from('event_sessions')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('session_date', { ascending: true })
+    .order('start_time', { ascending: true, nullsFirst: true });
+
+  if (error) {
+    console.error('Error fetching event sessions:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Replace an event's sessions with the edited list. Removed sessions cascade to
+ * their crew assignments, so call this before saving staff assignments.
+ */
+export const saveEventSessions = async (
+  eventId: string,
+  firmId: string,
+  sessions: EventSessionDraft[]
+): Promise<void> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('event_sessions')
+    .select('id')
+    .eq('event_id', eventId);
+
+  if (fetchError) throw fetchError;
+
+  const keepIds = new Set(sessions.map(session => session.id));
+  const removedIds = (existing || []).map(row => row.id).filter(id => !keepIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('event_sessions').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  if (sessions.length === 0) return;
+
+  const rows = sortSessions(sessions).map((session, index) => ({
+    id: session.id,
+    event_id: eventId,
+    firm_id: firmId,
+    name: session.name.trim(),
+    session_date: session.session_date,
+    start_time: session.start_time || null,
+    end_time: session.end_time || null,
+    venue: session.venue?.trim() || null,
+    notes: session.notes?.trim() || null,
+    sort_order: index + 1
+  }));
+
+  const { error } = await supabase.from('event_sessions').upsert(rows, { onConflict: 'id' });
+  if (error) throw error;
+};
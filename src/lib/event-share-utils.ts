@@ -3,14 +3,16 @@ import { generatePaymentInvoicePDF } from '@/components/payments/PaymentInvoiceP
 import { Event } from '@/types/studio';
 import { calculateEventBalance, calculateTotalPaid } from '@/lib/payment-calculator';
 import { BUSINESS_DEFAULTS } from '@/config/business-defaults';
+import { getEventUpiPayment } from '@/lib/upi-utils';
+import { getEventInvoiceNumber } from '@/lib/document-number-utils';
 
 export const shareEventDetails = async (event: Event, firmData?: any, shareType: 'direct' | 'custom' = 'custom') => {
   try {
-    // Import supabase client for invoice ID generation
+    // Import supabase client for fetching firm details
     const { supabase } = await import('@/integrations/supabase/client');
     
-    // Generate proper invoice ID for this event
-    const { data: invoiceId } = await supabase.rpc('generate_invoice_id', { p_event_id: event.id });
+    // The event keeps the invoice number it was first given
+    const invoiceId = await getEventInvoiceNumber(event.id);
     
     // Create a payment object from event data for PDF generation
     const paymentData = {
@@ -35,6 +37,7 @@ export const shareEventDetails = async (event: Event, firmData?: any, shareType:
     // Create file name and File object from the generated PDF
     const fileName = `Invoice for ${event.client?.name || 'Client'} ${new Date().toISOString().split('T')[0]}.pdf`;
     const file = new File([pdfResult.blob], fileName, { type: 'application/pdf' });
+    const upiPayment = getEventUpiPayment(event, firmData);
     
     if (shareType === 'direct' && event.client?.phone) {
       // Import WhatsApp share utility
@@ -45,7 +48,7 @@ export const shareEventDetails = async (event: Event, firmData?: any, shareType:
       if (!finalFirmData) {
         const { data: fetchedFirmData } = await supabase
           .from('firms')
-          .select('name, tagline, contact_phone, contact_email')
+          .select('name, tagline, contact_phone, contact_email, upi_id')
           .eq('id', event.firm_id)
           .single();
         finalFirmData = fetchedFirmData || undefined;
@@ -58,7 +61,8 @@ export const shareEventDetails = async (event: Event, firmData?: any, shareType:
         documentType: 'invoice',
         file: file,
         firmId: event.firm_id,
-        firmData: finalFirmData
+        firmData: finalFirmData,
+        upiPayment: upiPayment || getEventUpiPayment(event, finalFirmData)
       });
     } else {
       // Custom share - use existing share functionality
@@ -70,7 +74,7 @@ Event Date: ${new Date(event.event_date).toLocaleDateString()}
 ${event.venue ? `Venue: ${event.venue}\n` : ''}Total Amount: Rs.${(event.total_amount || 0).toLocaleString()}
 Advance Paid: Rs.${calculateTotalPaid(event as any).toLocaleString()}
 Balance Due: Rs.${calculateEventBalance(event as any).toLocaleString()}
-
+${upiPayment ? `Pay via UPI: ${upiPayment.link}\n` : ''}
 Event Status:
 ${event.photo_editing_status ? 'Photo Editing Complete' : 'Photo Editing Pending'}
 ${event.video_editing_status ? 'Video Editing Complete' : 'Video Editing Pending'}
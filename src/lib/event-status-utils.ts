@@ -1,4 +1,5 @@
-import { Event } from '@/types/studio';
+import { supabase } from '@/integrations/supabase/client';
+import { Event, EventLifecycleStatus, EventStatusHistoryEntry } from '@/types/studio';
 
 export type EventStatus = 'PENDING' | 'UPCOMING' | 'IN PROGRESS' | 'COMPLETED';
 
@@ -77,4 +78,99 @@ export const getEventStatusColor = (event: Event) => {
     label: status.label,
     color: status.colorClass
   };
-};
\ No newline at end of file
+};
+
+// ---------------------------------------------------------------------------
+// Persisted lifecycle status (events.status)
+// ---------------------------------------------------------------------------
+
+export const EVENT_LIFECYCLE_STATUSES: EventLifecycleStatus[] = [
+  'Quotation',
+  'Confirmed',
+  'Shooting',
+  'Editing',
+  'Delivered',
+  'Cancelled'
+];
+
+/**
+ * Allowed lifecycle transitions - must stay in sync with
+ * public.is_valid_event_status_transition in the database
+ */
+export const EVENT_STATUS_TRANSITIONS: Record<EventLifecycleStatus, EventLifecycleStatus[]> = {
+  'Quotation': ['Confirmed', 'Cancelled'],
+  'Confirmed': ['Shooting', 'Cancelled', 'Quotation'],
+  'Shooting': ['Editing', 'Cancelled', 'Confirmed'],
+  'Editing': ['Delivered', 'Shooting'],
+  'Delivered': ['Editing'],
+  'Cancelled': ['Confirmed']
+};
+
+/**
+ * Lifecycle status of an event, defaulting rows loaded without the column to Confirmed
+ */
+export const getEventLifecycleStatus = (event: Pick<Event, 'status'> | null | undefined): EventLifecycleStatus => {
+  const status = event?.status;
+  return status && EVENT_LIFECYCLE_STATUSES.includes(status) ? status : 'Confirmed';
+};
+
+export const isEventCancelled = (event: { status?: string | null } | null | undefined): boolean => {
+  return event?.status === 'Cancelled';
+};
+
+export const canTransitionEventStatus = (from: EventLifecycleStatus, to: EventLifecycleStatus): boolean => {
+  return from === to || EVENT_STATUS_TRANSITIONS[from]?.includes(to);
+};
+
+export const getAllowedEventStatusTransitions = (status: EventLifecycleStatus): EventLifecycleStatus[] => {
+  return EVENT_STATUS_TRANSITIONS[status] || [];
+};
+
+/**
+ * Change an event's lifecycle status. The database validates the transition
+ * and writes the event_status_history row (including the optional note).
+ */
+export const updateEventLifecycleStatus = async (
+  event: Pick<Event, 'id' | 'status'>,
+  nextStatus: EventLifecycleStatus,
+  notes?: string
+): Promise<{ success: boolean; error?: string }> => {
+  const currentStatus = getEventLifecycleStatus(event);
+
+  if (!canTransitionEventStatus(currentStatus, nextStatus)) {
+    return {
+      success: false,
+      error: `An event cannot move from ${currentStatus} to ${nextStatus}`
+    };
+  }
+
+  const { error } = await supabase.rpc('set_event_status', {
+    p_event_id: event.id,
+    p_status: nextStatus,
+    p_notes: notes?.trim() || undefined
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+};
+
+/**
+ * Load the status history of an event, newest first
+ */
+export const fetchEventStatusHistory = async (eventId: string): Promise<EventStatusHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('event_status_history')
+    .select('*, changed_by_profile:profiles!event_status_history_changed_by_fkey(full_name)')
+    .eq('event_id', eventId)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching event status history:', error);
+    return [];
+  }
+
+  return (data || []) as EventStatusHistoryEntry[];
+};
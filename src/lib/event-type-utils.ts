@@ -0,0 +1,145 @@
+import type { CSSProperties } from 'react';
+import { BUILT_IN_EVENT_TYPES, FirmEventType, EventTypeCrewTemplate, EventTypeRoleRates } from '@/types/studio';
+import type { FilterOption } from '@/hooks/useBackendFilters';
+import type { Database } from '@/integrations/supabase/types';
+
+type FirmEventTypeRow = Database['public']['Tables']['firm_event_types']['Row'];
+
+export const EVENT_TYPE_FILTER_PREFIX = 'event_type:';
+
+// Colours used for the built-in types before a firm customises its catalogue
+const BUILT_IN_EVENT_TYPE_HEX: Record<string, string> = {
+  'Ring-Ceremony': '#d97706',
+  'Pre-Wedding': '#db2777',
+  'Wedding': '#dc2626',
+  'Maternity Photography': '#7c3aed',
+  'Others': '#64748b'
+};
+
+export const DEFAULT_EVENT_TYPE_COLOR = '#64748b';
+
+/**
+ * Catalogue used when a firm's event types have not loaded (or failed to load)
+ */
+export const getFallbackEventTypes = (firmId = ''): FirmEventType[] =>
+  BUILT_IN_EVENT_TYPES.map((name, index) => ({
+    id: `builtin-${index}`,
+    firm_id: firmId,
+    name,
+    color: BUILT_IN_EVENT_TYPE_HEX[name] || DEFAULT_EVENT_TYPE_COLOR,
+    default_crew: {},
+    default_rates: {},
+    sort_order: index + 1,
+    is_active: true,
+    created_at: '',
+    updated_at: ''
+  }));
+
+const ROLE_RATE_KEYS: Array<keyof EventTypeRoleRates> = ['photographer', 'cinematographer', 'drone', 'editor'];
+
+/**
+ * Read role rates from a JSON column (event type or firm default_role_rates), keeping only
+ * non-negative numbers
+ */
+export const parseRoleRates = (value: unknown): EventTypeRoleRates => {
+  let rates = value;
+  if (typeof rates === 'string') {
+    try {
+      rates = JSON.parse(rates);
+    } catch {
+      return {};
+    }
+  }
+  if (!rates || typeof rates !== 'object' || Array.isArray(rates)) return {};
+
+  return ROLE_RATE_KEYS.reduce<EventTypeRoleRates>((parsed, key) => {
+    const rate = Number((rates as Record<string, unknown>)[key]);
+    if (Number.isFinite(rate) && rate >= 0) parsed[key] = rate;
+    return parsed;
+  }, {});
+};
+
+/**
+ * Normalize a firm_event_types row coming from the database (JSON columns may be null or strings)
+ */
+export const normalizeFirmEventType = (row: FirmEventTypeRow): FirmEventType => {
+  const parseJson = <T,>(value: unknown): T => {
+    if (!value) return {} as T;
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        return {} as T;
+      }
+    }
+    return value as T;
+  };
+
+  return {
+    ...row,
+    color: row.color || DEFAULT_EVENT_TYPE_COLOR,
+    default_crew: parseJson<EventTypeCrewTemplate>(row.default_crew),
+    default_rates: parseRoleRates(row.default_rates)
+  };
+};
+
+export const findEventType = (eventTypes: FirmEventType[], name?: string | null): FirmEventType | undefined => {
+  if (!name) return undefined;
+  return eventTypes.find(type => type.name === name);
+};
+
+export const getEventTypeColor = (eventTypes: FirmEventType[], name?: string | null): string => {
+  return findEventType(eventTypes, name)?.color || BUILT_IN_EVENT_TYPE_HEX[name || ''] || DEFAULT_EVENT_TYPE_COLOR;
+};
+
+/**
+ * Inline badge style for a catalogue colour (tailwind classes cannot be generated at runtime)
+ */
+export const getEventTypeBadgeStyle = (color: string): CSSProperties => ({
+  color,
+  backgroundColor: `${color}1a`,
+  borderColor: `${color}4d`
+});
+
+/**
+ * Options for event type selects - active catalogue entries plus the current value,
+ * so records using a deactivated type still display it
+ */
+export const getEventTypeOptions = (eventTypes: FirmEventType[], currentValue?: string | null) => {
+  const options = eventTypes
+    .filter(type => type.is_active)
+    .map(type => ({ value: type.name, label: type.name, color: type.color }));
+
+  if (currentValue && !options.some(option => option.value === currentValue)) {
+    options.push({ value: currentValue, label: currentValue, color: getEventTypeColor(eventTypes, currentValue) });
+  }
+
+  return options;
+};
+
+export const getEventTypeFilterKey = (name: string) => `${EVENT_TYPE_FILTER_PREFIX}${name}`;
+
+export const parseEventTypeFilterKey = (key: string): string | null => {
+  return key.startsWith(EVENT_TYPE_FILTER_PREFIX) ? key.slice(EVENT_TYPE_FILTER_PREFIX.length) : null;
+};
+
+// Static event type filter keys in FILTER_CONFIGS, superseded by the firm's catalogue
+const BUILT_IN_EVENT_TYPE_FILTER_KEYS = ['wedding', 'pre_wedding', 'ring_ceremony', 'maternity', 'others'];
+
+/**
+ * Replace the static event type filters of a filter config with one option per catalogue entry
+ */
+export const withEventTypeFilterOptions = (filterOptions: FilterOption[], eventTypes: FirmEventType[]): FilterOption[] => {
+  const insertAt = filterOptions.findIndex(option => BUILT_IN_EVENT_TYPE_FILTER_KEYS.includes(option.key));
+  if (insertAt === -1) return filterOptions;
+
+  const catalogueOptions: FilterOption[] = eventTypes.map(type => ({
+    key: getEventTypeFilterKey(type.name),
+    label: type.name,
+    type: 'boolean',
+    queryBuilder: (query) => query.eq('event_type', type.name)
+  }));
+
+  const remaining = filterOptions.filter(option => !BUILT_IN_EVENT_TYPE_FILTER_KEYS.includes(option.key));
+  return [...remaining.slice(0, insertAt), ...catalogueOptions, ...remaining.slice(insertAt)];
+};
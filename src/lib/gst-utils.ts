@@ -0,0 +1,434 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  FirmTaxSettings,
+  Quotation,
+  TaxBreakdown,
+  TaxBreakdownLine,
+  TaxClass,
+  TaxPricing,
+  TaxRateSummary
+} from '@/types/studio';
+import { DiscountableLine, applyDiscountRules, getQuotationDiscountRules } from '@/lib/quotation-discount-utils';
+
+export const GST_RATES: Record<TaxClass, number> = {
+  gst_18: 18,
+  gst_12: 12,
+  gst_5: 5,
+  exempt: 0
+};
+
+// Event photography and videography services
+export const DEFAULT_SAC_CODE = '998383';
+
+export const TAX_PRICING_LABELS: Record<TaxPricing, string> = {
+  exclusive: 'GST extra (prices exclude tax)',
+  inclusive: 'GST included in prices'
+};
+
+// GST state codes, used for the firm's registration and a quotation's place of supply
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' }
+];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string) => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+// The first two digits of a GSTIN are the registration's state code
+export const getStateCodeFromGstin = (gstin: string | null | undefined) =>
+  gstin && isValidGstin(gstin) ? gstin.trim().slice(0, 2) : null;
+
+export const getStateName = (code: string | null | undefined) =>
+  GST_STATES.find(state => state.code === code)?.name || null;
+
+export const formatStateLabel = (code: string | null | undefined) => {
+  const name = getStateName(code);
+  return name ? `${name} (${code})` : '—';
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const DEFAULT_FIRM_TAX_SETTINGS: FirmTaxSettings = {
+  gstin: null,
+  gst_state_code: null,
+  tax_pricing_default: 'exclusive',
+  default_sac_code: DEFAULT_SAC_CODE
+};
+
+/**
+ * Tax settings from a firms row (or the subset a PDF generator already loaded)
+ */
+export const toFirmTaxSettings = (firm?: Partial<Record<keyof FirmTaxSettings, string | null>> | null): FirmTaxSettings => ({
+  gstin: firm?.gstin || null,
+  gst_state_code: firm?.gst_state_code || getStateCodeFromGstin(firm?.gstin),
+  tax_pricing_default: firm?.tax_pricing_default === 'inclusive' ? 'inclusive' : 'exclusive',
+  default_sac_code: firm?.default_sac_code || DEFAULT_SAC_CODE
+});
+
+export const fetchFirmTaxSettings = async (firmId: string): Promise<FirmTaxSettings> => {
+  const { data, error } = await supabase
+    .from('firms')
+    .select('gstin, gst_state_code, tax_pricing_default, default_sac_code')
+    .eq('id', firmId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return toFirmTaxSettings(data);
+};
+
+// Only GST registered firms charge tax
+export const isGstRegistered = (settings: FirmTaxSettings) => !!settings.gstin;
+
+export interface TaxableLine extends DiscountableLine {
+  hsnSac: string;
+  taxClass: TaxClass;
+  // Set when discount rules already apportioned the discount to this line
+  discount?: number;
+}
+
+/**
+ * Work out GST for priced lines. Lines carry their own discount from the discount rules;
+ * otherwise a single discount is spread over them in proportion to their amounts. Inclusive
+ * prices are split back into taxable value and tax.
+ * Same-state supplies split tax into CGST and SGST, other states are charged IGST.
+ */
+export const calculateTaxBreakdown = ({
+  lines,
+  discount,
+  pricing,
+  supplierStateCode,
+  placeOfSupply
+}: {
+  lines: TaxableLine[];
+  discount: number;
+  pricing: TaxPricing;
+  supplierStateCode: string | null;
+  placeOfSupply: string | null;
+}): TaxBreakdown => {
+  const pricedLines = lines.filter(line => line.amount > 0);
+  const subtotal = round2(pricedLines.reduce((sum, line) => sum + line.amount, 0));
+  const hasLineDiscounts = pricedLines.some(line => line.discount !== undefined);
+  const totalDiscount = hasLineDiscounts
+    ? round2(pricedLines.reduce((sum, line) => sum + (line.discount || 0), 0))
+    : round2(Math.min(Math.max(discount, 0), subtotal));
+  const interState = !!supplierStateCode && !!placeOfSupply && supplierStateCode !== placeOfSupply;
+
+  let discountLeft = totalDiscount;
+  const taxedLines: TaxBreakdownLine[] = pricedLines.map((line, index) => {
+    // The last line takes whatever rounding left over so the shares add up exactly
+    const lineDiscount = hasLineDiscounts
+      ? line.discount || 0
+      : index === pricedLines.length - 1
+        ? discountLeft
+        : round2(subtotal > 0 ? totalDiscount * line.amount / subtotal : 0);
+    discountLeft = round2(discountLeft - lineDiscount);
+
+    const rate = GST_RATES[line.taxClass] ?? 0;
+    const net = round2(line.amount - lineDiscount);
+    const taxableValue = pricing === 'inclusive' ? round2(net * 100 / (100 + rate)) : net;
+    const tax = pricing === 'inclusive' ? round2(net - taxableValue) : round2(taxableValue * rate / 100);
+
+    return {
+      name: line.name,
+      hsnSac: line.hsnSac,
+      taxClass: line.taxClass,
+      amount: line.amount,
+      rate,
+      discount: lineDiscount,
+      taxableValue,
+      tax
+    };
+  });
+
+  const rates: TaxRateSummary[] = [];
+  taxedLines.forEach(line => {
+    let summary = rates.find(entry => entry.hsnSac === line.hsnSac && entry.rate === line.rate);
+    if (!summary) {
+      summary = { hsnSac: line.hsnSac, rate: line.rate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0 };
+      rates.push(summary);
+    }
+    summary.taxableValue = round2(summary.taxableValue + line.taxableValue);
+    if (interState) {
+      summary.igst = round2(summary.igst + line.tax);
+    } else {
+      const centralTax = round2(line.tax / 2);
+      summary.cgst = round2(summary.cgst + centralTax);
+      summary.sgst = round2(summary.sgst + line.tax - centralTax);
+    }
+  });
+
+  const sum = (key: 'taxableValue' | 'cgst' | 'sgst' | 'igst') =>
+    round2(rates.reduce((total, entry) => total + entry[key], 0));
+  const taxableValue = sum('taxableValue');
+  const cgst = sum('cgst');
+  const sgst = sum('sgst');
+  const igst = sum('igst');
+  const totalTax = round2(cgst + sgst + igst);
+
+  return {
+    pricing,
+    supplierStateCode,
+    placeOfSupply,
+    interState,
+    lines: taxedLines,
+    rates,
+    subtotal,
+    discount: totalDiscount,
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    total: round2(taxableValue + totalTax)
+  };
+};
+
+interface StoredQuotationDetails {
+  days?: unknown[];
+  postProductionAmount?: number;
+  postProductionTaxClass?: TaxClass;
+  postProductionHsnSac?: string | null;
+  selectedPostProductionPackage?: string;
+  addOns?: { id?: string; name: string; price: number; quantity?: number; taxClass?: TaxClass; hsnSac?: string | null }[];
+}
+
+const parseDetails = (value: unknown): StoredQuotationDetails | null => {
+  if (!value) return null;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as StoredQuotationDetails;
+    } catch {
+      return null;
+    }
+  }
+  return typeof value === 'object' ? value as StoredQuotationDetails : null;
+};
+
+/**
+ * Priced lines of a quotation from its builder details: crew coverage (with same day
+ * editing), the post-production package and each add-on. Quotations without details are
+ * a single coverage line.
+ */
+export const getQuotationTaxLines = (
+  quotation: Pick<Quotation, 'amount' | 'quotation_details'>,
+  defaultSacCode = DEFAULT_SAC_CODE
+): TaxableLine[] => {
+  const details = parseDetails(quotation.quotation_details);
+  const amount = quotation.amount || 0;
+
+  const addOnLines: TaxableLine[] = (details?.addOns || []).map(addOn => ({
+    key: `addon:${addOn.id || addOn.name}`,
+    kind: 'addon',
+    name: addOn.quantity && addOn.quantity > 1 ? `${addOn.name} × ${addOn.quantity}` : addOn.name,
+    hsnSac: addOn.hsnSac || defaultSacCode,
+    taxClass: addOn.taxClass || 'gst_18',
+    amount: round2((addOn.price || 0) * (addOn.quantity || 1))
+  }));
+
+  const postProductionLines: TaxableLine[] = details?.postProductionAmount
+    ? [{
+        key: 'post_production',
+        kind: 'post_production',
+        name: details.selectedPostProductionPackage && details.selectedPostProductionPackage !== 'custom'
+          ? `Post-production: ${details.selectedPostProductionPackage}`
+          : 'Post-production',
+        hsnSac: details.postProductionHsnSac || defaultSacCode,
+        taxClass: details.postProductionTaxClass || 'gst_18',
+        amount: details.postProductionAmount
+      }]
+    : [];
+
+  const itemisedTotal = [...addOnLines, ...postProductionLines].reduce((sum, line) => sum + line.amount, 0);
+  const coverage = round2(Math.max(0, amount - itemisedTotal));
+
+  return [
+    {
+      key: 'coverage',
+      kind: 'coverage',
+      name: 'Photography & videography coverage',
+      hsnSac: defaultSacCode,
+      taxClass: 'gst_18',
+      amount: coverage
+    },
+    ...postProductionLines,
+    ...addOnLines
+  ];
+};
+
+type QuotationPricingFields = Pick<
+  Quotation,
+  'amount' | 'quotation_details' | 'discount_type' | 'discount_value' | 'discount_amount' | 'discount_rules' | 'tax_pricing' | 'place_of_supply'
+>;
+
+/**
+ * Gross, each discount step and net of a quotation, with the discount apportioned per line
+ */
+export const getQuotationDiscountBreakdown = (
+  quotation: Pick<Quotation, 'amount' | 'quotation_details' | 'discount_type' | 'discount_value' | 'discount_rules'>,
+  defaultSacCode = DEFAULT_SAC_CODE
+) => applyDiscountRules(getQuotationTaxLines(quotation, defaultSacCode), getQuotationDiscountRules(quotation));
+
+/**
+ * Tax columns to save on a quotation whenever its price, discount, pricing mode or place of
+ * supply changes. A null pricing mode means no GST.
+ */
+export const getQuotationTaxFields = (
+  quotation: QuotationPricingFields,
+  settings: FirmTaxSettings
+): { tax_amount: number; tax_breakdown: Json | null } => {
+  const breakdown = calculateQuotationTax(quotation, settings);
+  return {
+    tax_amount: breakdown?.totalTax || 0,
+    tax_breakdown: breakdown as unknown as Json
+  };
+};
+
+export const calculateQuotationTax = (
+  quotation: QuotationPricingFields,
+  settings: FirmTaxSettings
+): TaxBreakdown | null => {
+  const pricing = quotation.tax_pricing as TaxPricing | null | undefined;
+  if (!pricing) return null;
+
+  return calculateTaxBreakdown({
+    lines: getQuotationDiscountBreakdown(quotation, settings.default_sac_code).lines,
+    discount: 0,
+    pricing,
+    supplierStateCode: settings.gst_state_code,
+    placeOfSupply: quotation.place_of_supply || settings.gst_state_code
+  });
+};
+
+/**
+ * Tax columns an event inherits from the quotation it is created from
+ */
+export const getEventTaxFieldsFromQuotation = (quotation: Pick<Quotation, 'tax_pricing' | 'place_of_supply' | 'tax_amount' | 'tax_breakdown'>) => ({
+  tax_pricing: quotation.tax_pricing || null,
+  place_of_supply: quotation.place_of_supply || null,
+  tax_amount: quotation.tax_amount || 0,
+  tax_breakdown: (quotation.tax_breakdown ?? null) as Json
+});
+
+export const parseTaxBreakdown = (value: unknown): TaxBreakdown | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const breakdown = value as TaxBreakdown;
+  return Array.isArray(breakdown.rates) && typeof breakdown.totalTax === 'number' ? breakdown : null;
+};
+
+/**
+ * Scale a breakdown to another payable amount, e.g. the share of tax inside one payment or an
+ * event whose total was edited after conversion.
+ */
+export const scaleTaxBreakdown = (breakdown: TaxBreakdown, total: number): TaxBreakdown => {
+  if (breakdown.total <= 0 || round2(total) === breakdown.total) return breakdown;
+  const ratio = total / breakdown.total;
+  const scale = (value: number) => round2(value * ratio);
+
+  const rates = breakdown.rates.map(entry => ({
+    ...entry,
+    taxableValue: scale(entry.taxableValue),
+    cgst: scale(entry.cgst),
+    sgst: scale(entry.sgst),
+    igst: scale(entry.igst)
+  }));
+  const cgst = round2(rates.reduce((sum, entry) => sum + entry.cgst, 0));
+  const sgst = round2(rates.reduce((sum, entry) => sum + entry.sgst, 0));
+  const igst = round2(rates.reduce((sum, entry) => sum + entry.igst, 0));
+  const totalTax = round2(cgst + sgst + igst);
+
+  return {
+    ...breakdown,
+    lines: breakdown.lines.map(line => ({
+      ...line,
+      amount: scale(line.amount),
+      discount: scale(line.discount),
+      taxableValue: scale(line.taxableValue),
+      tax: scale(line.tax)
+    })),
+    rates,
+    subtotal: scale(breakdown.subtotal),
+    discount: scale(breakdown.discount),
+    // Keep taxable value + tax equal to the requested total after rounding
+    taxableValue: round2(total - totalTax),
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    total: round2(total)
+  };
+};
+
+/**
+ * GST on an event for invoices and reports. Events converted from a GST quotation carry its
+ * breakdown; other events of a registered firm are treated as priced GST inclusive at 18%.
+ */
+export const getEventTaxBreakdown = (
+  event: {
+    total_amount?: number | null;
+    tax_pricing?: string | null;
+    place_of_supply?: string | null;
+    tax_breakdown?: unknown;
+    client?: { state_code?: string | null } | null;
+  },
+  settings: FirmTaxSettings
+): TaxBreakdown | null => {
+  const total = event.total_amount || 0;
+  const stored = event.tax_pricing ? parseTaxBreakdown(event.tax_breakdown) : null;
+  if (stored) return scaleTaxBreakdown(stored, total);
+  if (!isGstRegistered(settings) || total <= 0) return null;
+
+  return calculateTaxBreakdown({
+    lines: [{
+      key: 'coverage',
+      kind: 'coverage',
+      name: 'Photography & videography services',
+      hsnSac: settings.default_sac_code,
+      taxClass: 'gst_18',
+      amount: total
+    }],
+    discount: 0,
+    pricing: 'inclusive',
+    supplierStateCode: settings.gst_state_code,
+    placeOfSupply: event.place_of_supply || event.client?.state_code || settings.gst_state_code
+  });
+};
+
+export const formatTaxAmount = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -4,20 +4,60 @@
  */
 
 
-import { parsePaymentMethod } from './payment-method-validator';
+import { formatPaymentMethod, isPaymentCollected, parsePaymentMethod } from './payment-method-validator';
+import { PaymentStatus } from '@/types/studio';
 
 export interface PaymentData {
   amount: number;
   payment_method?: string;
+  custom_method?: string | null;
+  cheque_status?: string | null;
 }
 
 export interface EventFinancials {
   total_amount: number;
+  status?: string | null;
   advance_amount?: number;
   advance_payment_method?: string;
   balance_amount?: number;
   payments?: PaymentData[];
   event_closing_balances?: ClosingBalanceData[];
+  event_payment_milestones?: MilestoneData[];
+  event_refunds?: RefundData[];
+  client_receipt_allocations?: AllocationData[];
+}
+
+// Share of a client receipt allocated to the event
+export interface AllocationData {
+  amount: number;
+  receipt?: { payment_method?: string; custom_method?: string | null; cheque_status?: string | null } | null;
+}
+
+export interface RefundData {
+  amount: number;
+  refund_method?: string;
+}
+
+export interface MilestoneData {
+  id: string;
+  label: string;
+  amount: number;
+  due_date: string | null;
+  sort_order?: number;
+}
+
+export interface MilestoneStatus extends MilestoneData {
+  status: PaymentStatus;
+  paid: number;
+  outstanding: number;
+  // Negative once the due date has passed
+  daysUntilDue: number | null;
+}
+
+export interface PaymentStatusResult {
+  status: 'paid' | 'partial' | 'unpaid';
+  isOverdue: boolean;
+  milestones: MilestoneStatus[];
 }
 
 export interface ClosingBalanceData {
@@ -82,16 +122,52 @@ export function calculateBalanceDisplayInfo(event: EventFinancials): {
   };
 }
 
+/**
+ * Calculate total amount refunded to the client for an event
+ */
+export function calculateTotalRefunded(event: EventFinancials): number {
+  const refunds = Array.isArray(event.event_refunds) ? event.event_refunds : [];
+  return refunds.reduce((sum, refund) => sum + (refund.amount || 0), 0);
+}
+
+/**
+ * Calculate total amount allocated to an event from client receipts
+ */
+export function calculateTotalAllocated(event: EventFinancials): number {
+  const allocations = Array.isArray(event.client_receipt_allocations) ? event.client_receipt_allocations : [];
+  return allocations
+    .filter(allocation => allocation.receipt?.cheque_status !== 'bounced')
+    .reduce((sum, allocation) => sum + (Number(allocation.amount) || 0), 0);
+}
+
 /**
  * Calculate total amount paid for an event
  * Includes advance_amount from event table + all payments from payments table
+ * + shares of client receipts, less refunds. Bounced cheques are not counted.
  */
 export function calculateTotalPaid(event: EventFinancials): number {
   const advanceAmount = event.advance_amount || 0;
   const payments = Array.isArray(event.payments) ? event.payments : [];
-  const paymentsAmount = payments.reduce((sum, payment) => sum + (payment.amount || 0), 0);
+  const paymentsAmount = payments
+    .filter(payment => payment.cheque_status !== 'bounced')
+    .reduce((sum, payment) => sum + (payment.amount || 0), 0);
   
-  return advanceAmount + paymentsAmount;
+  return advanceAmount + paymentsAmount + calculateTotalAllocated(event) - calculateTotalRefunded(event);
+}
+
+/**
+ * Calculate the amount of cheques for an event still waiting to clear
+ */
+export function calculateUnclearedCheques(event: EventFinancials): number {
+  const payments = Array.isArray(event.payments) ? event.payments : [];
+  const allocations = Array.isArray(event.client_receipt_allocations) ? event.client_receipt_allocations : [];
+
+  return payments
+    .filter(payment => payment.cheque_status === 'uncleared')
+    .reduce((sum, payment) => sum + (payment.amount || 0), 0)
+    + allocations
+      .filter(allocation => allocation.receipt?.cheque_status === 'uncleared')
+      .reduce((sum, allocation) => sum + (Number(allocation.amount) || 0), 0);
 }
 
 /**
@@ -137,79 +213,166 @@ export function isEventFullyPaid(event: EventFinancials): boolean {
   return calculateEventBalance(event) <= 0;
 }
 
+const toLocalDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * Status of each payment milestone. Money received and amounts closed settle milestones in
+ * schedule order; an unsettled milestone past its due date is Overdue.
+ */
+export function getMilestoneStatuses(event: EventFinancials, today: Date = new Date()): MilestoneStatus[] {
+  const milestones = Array.isArray(event.event_payment_milestones) ? event.event_payment_milestones : [];
+  const todayString = toLocalDateString(today);
+  let settled = calculateTotalPaid(event) + calculateTotalClosed(event);
+
+  return [...milestones]
+    .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+    .map(milestone => {
+      const amount = Number(milestone.amount) || 0;
+      const paid = Math.min(amount, Math.max(settled, 0));
+      settled -= paid;
+      const outstanding = amount - paid;
+      const daysUntilDue = milestone.due_date ? daysBetween(todayString, milestone.due_date) : null;
+
+      let status: PaymentStatus = 'Pending';
+      if (outstanding <= 0) status = 'Paid';
+      else if (daysUntilDue !== null && daysUntilDue < 0) status = 'Overdue';
+      else if (paid > 0) status = 'Partial';
+
+      return { ...milestone, amount, status, paid, outstanding, daysUntilDue };
+    });
+}
+
 /**
- * Get payment status for an event
+ * Get payment status for an event, with the status of each scheduled milestone
  */
-export function getPaymentStatus(event: EventFinancials): 'paid' | 'partial' | 'unpaid' {
+export function getPaymentStatus(event: EventFinancials): PaymentStatusResult {
   const balance = calculateEventBalance(event);
   const totalPaid = calculateTotalPaid(event);
-  
-  if (balance <= 0) return 'paid';
-  if (totalPaid > 0) return 'partial';
-  return 'unpaid';
+  const milestones = getMilestoneStatuses(event);
+  const isOverdue = balance > 0 && milestones.some(milestone => milestone.status === 'Overdue');
+
+  if (balance <= 0) return { status: 'paid', isOverdue, milestones };
+  if (totalPaid > 0) return { status: 'partial', isOverdue, milestones };
+  return { status: 'unpaid', isOverdue, milestones };
+}
+
+/**
+ * Unsettled milestones that are overdue or due within the given number of days, soonest first
+ */
+export function getUpcomingMilestones(event: EventFinancials, withinDays = 14): MilestoneStatus[] {
+  return getMilestoneStatuses(event)
+    .filter(milestone => milestone.status !== 'Paid' && milestone.daysUntilDue !== null && milestone.daysUntilDue <= withinDays)
+    .sort((a, b) => (a.daysUntilDue ?? 0) - (b.daysUntilDue ?? 0));
 }
 
 /**
  * Calculate payment statistics for multiple events
+ * Cancelled events are excluded from revenue, pending and event counts;
+ * money already collected on them still counts as paid.
+ * Cheques only count as collected (totalPaid, method breakdown) after they
+ * clear; until then they stay in totalPending, and unclearedCheques shows how
+ * much of that is cheques in hand.
  */
 export function calculatePaymentStats(events: EventFinancials[]) {
   const stats = {
-    totalEvents: events.length,
+    totalEvents: 0,
+    cancelledEvents: 0,
     totalRevenue: 0,
     totalPaid: 0,
     totalPending: 0,
     totalClosed: 0,
+    totalRefunded: 0,
+    unclearedCheques: 0,
     paidEvents: 0,
     partialEvents: 0,
     unpaidEvents: 0,
+    overdueEvents: 0,
+    overdueAmount: 0,
     cashPayments: 0,
-    digitalPayments: 0
+    digitalPayments: 0,
+    // Collected amount by method label, e.g. { Cash: 40000, UPI: 25000, 'Bank Transfer (NEFT)': 80000 }
+    methodBreakdown: {} as Record<string, number>
+  };
+
+  const addToMethod = (method: string | undefined, customMethod: string | null | undefined, amount: number) => {
+    const parsedMethod = parsePaymentMethod(method);
+    const label = formatPaymentMethod(parsedMethod, customMethod);
+    stats.methodBreakdown[label] = (stats.methodBreakdown[label] || 0) + amount;
+    if (parsedMethod === 'Cash') {
+      stats.cashPayments += amount;
+    } else {
+      stats.digitalPayments += amount;
+    }
   };
 
   events.forEach(event => {
-    const totalAmount = event.total_amount || 0;
+    const isCancelled = event.status === 'Cancelled';
     const totalPaid = calculateTotalPaid(event);
-    const totalClosed = calculateTotalClosed(event);
-    const balance = calculateEventBalance(event);
-    const status = getPaymentStatus(event);
-
-    stats.totalRevenue += totalAmount;
-    stats.totalPaid += totalPaid;
-    stats.totalClosed += totalClosed;
-    stats.totalPending += balance;
-
-    switch (status) {
-      case 'paid':
-        stats.paidEvents++;
-        break;
-      case 'partial':
-        stats.partialEvents++;
-        break;
-      case 'unpaid':
-        stats.unpaidEvents++;
-        break;
+    const uncleared = calculateUnclearedCheques(event);
+
+    stats.totalPaid += totalPaid - uncleared;
+    stats.unclearedCheques += uncleared;
+    stats.totalRefunded += calculateTotalRefunded(event);
+
+    if (isCancelled) {
+      stats.cancelledEvents++;
+    } else {
+      const totalAmount = event.total_amount || 0;
+      const totalClosed = calculateTotalClosed(event);
+      const balance = calculateEventBalance(event);
+      const { status, isOverdue, milestones } = getPaymentStatus(event);
+
+      stats.totalEvents++;
+      stats.totalRevenue += totalAmount;
+      stats.totalClosed += totalClosed;
+      stats.totalPending += balance + uncleared;
+
+      if (isOverdue) {
+        stats.overdueEvents++;
+        stats.overdueAmount += milestones
+          .filter(milestone => milestone.status === 'Overdue')
+          .reduce((sum, milestone) => sum + milestone.outstanding, 0);
+      }
+
+      switch (status) {
+        case 'paid':
+          stats.paidEvents++;
+          break;
+        case 'partial':
+          stats.partialEvents++;
+          break;
+        case 'unpaid':
+          stats.unpaidEvents++;
+          break;
+      }
     }
 
     // Calculate payment method stats from advance + payments table
     // Include advance payment method
     if (event.advance_amount && event.advance_amount > 0) {
-      const advanceMethod = parsePaymentMethod(event.advance_payment_method);
-      if (advanceMethod === 'Cash') {
-        stats.cashPayments += event.advance_amount;
-      } else {
-        stats.digitalPayments += event.advance_amount;
-      }
+      addToMethod(event.advance_payment_method, null, event.advance_amount);
     }
     
-    // Include payments from payments table
+    // Include payments from payments table, leaving out cheques that have not cleared
     const payments = Array.isArray(event.payments) ? event.payments : [];
-    payments.forEach(payment => {
-      const method = parsePaymentMethod(payment.payment_method);
-      if (method === 'Cash') {
-        stats.cashPayments += payment.amount || 0;
-      } else {
-        stats.digitalPayments += payment.amount || 0;
-      }
+    payments.filter(isPaymentCollected).forEach(payment => {
+      addToMethod(payment.payment_method, payment.custom_method, payment.amount || 0);
+    });
+
+    // Client receipt shares count under the method the receipt was paid with
+    const allocations = Array.isArray(event.client_receipt_allocations) ? event.client_receipt_allocations : [];
+    allocations.filter(allocation => isPaymentCollected(allocation.receipt || {})).forEach(allocation => {
+      addToMethod(allocation.receipt?.payment_method, allocation.receipt?.custom_method, Number(allocation.amount) || 0);
+    });
+
+    // Refunds go back out through the method they were paid with
+    const refunds = Array.isArray(event.event_refunds) ? event.event_refunds : [];
+    refunds.forEach(refund => {
+      addToMethod(refund.refund_method, null, -(refund.amount || 0));
     });
   });
 
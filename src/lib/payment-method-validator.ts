@@ -6,14 +6,34 @@
 
 
 // Centralized payment method types
-export type PaymentMethod = 'Cash' | 'Digital';
+// 'Digital' is kept for payments recorded before UPI, bank transfers and cards were split out;
+// 'Other' is a firm-defined method whose name is stored separately as the custom method
+export type PaymentMethod = 'Cash' | 'UPI' | 'NEFT' | 'IMPS' | 'RTGS' | 'Cheque' | 'Card' | 'Digital' | 'Other';
 
 // All supported payment methods
-export const PAYMENT_METHODS: readonly PaymentMethod[] = ['Cash', 'Digital'] as const;
+export const PAYMENT_METHODS: readonly PaymentMethod[] = ['Cash', 'UPI', 'NEFT', 'IMPS', 'RTGS', 'Cheque', 'Card', 'Digital', 'Other'] as const;
 
 // Default payment method
 export const DEFAULT_PAYMENT_METHOD: PaymentMethod = 'Cash';
 
+// Cheques stay uncleared until the bank clears them
+export type ChequeStatus = 'uncleared' | 'cleared' | 'bounced';
+
+// Select values for firm-defined methods are the method name behind this prefix
+const CUSTOM_METHOD_PREFIX = 'custom:';
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  Cash: 'Cash',
+  UPI: 'UPI',
+  NEFT: 'Bank Transfer (NEFT)',
+  IMPS: 'Bank Transfer (IMPS)',
+  RTGS: 'Bank Transfer (RTGS)',
+  Cheque: 'Cheque',
+  Card: 'Card',
+  Digital: 'Digital',
+  Other: 'Other'
+};
+
 /**
  * Validate if a payment method is supported
  */
@@ -28,19 +48,50 @@ export function parsePaymentMethod(method: unknown): PaymentMethod {
   if (typeof method === 'string' && isValidPaymentMethod(method)) {
     return method;
   }
-  
-  
+
+
   return DEFAULT_PAYMENT_METHOD;
 }
 
 /**
  * Get payment method display options for UI
+ * Cheques are left out where clearing is not tracked (event advances, refunds paid out)
+ * and firm-defined methods are listed after the built-in ones
+ */
+export function getPaymentMethodOptions(
+  options: { includeCheque?: boolean; customMethods?: string[] } = {}
+): Array<{ value: string; label: string }> {
+  const { includeCheque = true, customMethods = [] } = options;
+
+  return [
+    ...PAYMENT_METHODS
+      .filter(method => method !== 'Other' && (includeCheque || method !== 'Cheque'))
+      .map(method => ({
+        value: method as string,
+        label: PAYMENT_METHOD_LABELS[method]
+      })),
+    ...customMethods.map(name => ({
+      value: `${CUSTOM_METHOD_PREFIX}${name}`,
+      label: name
+    }))
+  ];
+}
+
+/**
+ * Select value for a method, pointing at the firm-defined method when there is one
  */
-export function getPaymentMethodOptions(): Array<{ value: PaymentMethod; label: string }> {
-  return PAYMENT_METHODS.map(method => ({
-    value: method,
-    label: method
-  }));
+export function toPaymentMethodValue(method: PaymentMethod, customMethod?: string | null): string {
+  return method === 'Other' && customMethod ? `${CUSTOM_METHOD_PREFIX}${customMethod}` : method;
+}
+
+/**
+ * Method and firm-defined method name behind a select value
+ */
+export function fromPaymentMethodValue(value: string): { method: PaymentMethod; customMethod: string | null } {
+  if (value.startsWith(CUSTOM_METHOD_PREFIX)) {
+    return { method: 'Other', customMethod: value.slice(CUSTOM_METHOD_PREFIX.length) };
+  }
+  return { method: parsePaymentMethod(value), customMethod: null };
 }
 
 /**
@@ -65,10 +116,57 @@ export function validatePaymentMethodInput(method: string): { isValid: boolean;
 }
 
 /**
- * Format payment method for display
+ * Format payment method for display, using the firm's name for its own methods
  */
-export function formatPaymentMethod(method: PaymentMethod): string {
-  return method;
+export function formatPaymentMethod(method: PaymentMethod, customMethod?: string | null): string {
+  if (method === 'Other' && customMethod) return customMethod;
+  return PAYMENT_METHOD_LABELS[method] || method;
+}
+
+/**
+ * Method of a recorded payment for display, with the cheque number and clearing status
+ * e.g. "Cheque #004512 (uncleared)"
+ */
+export function formatPaymentMethodDetails(payment: {
+  payment_method?: string | null;
+  custom_method?: string | null;
+  cheque_number?: string | null;
+  cheque_status?: string | null;
+}): string {
+  const label = formatPaymentMethod(parsePaymentMethod(payment.payment_method), payment.custom_method);
+  if (!payment.cheque_status) return label;
+
+  const number = payment.cheque_number ? ` #${payment.cheque_number}` : '';
+  return payment.cheque_status === 'cleared' ? `${label}${number}` : `${label}${number} (${payment.cheque_status})`;
+}
+
+// Chart colours in PAYMENT_METHODS order; firm-defined methods take the ones after
+const PAYMENT_METHOD_CHART_COLORS = [
+  'hsl(var(--success))',
+  'hsl(var(--primary))',
+  'hsl(var(--category-software))',
+  'hsl(var(--category-accommodation))',
+  'hsl(var(--info))',
+  'hsl(var(--warning))',
+  'hsl(var(--category-food))',
+  'hsl(var(--category-maintenance))',
+  'hsl(var(--category-marketing))'
+];
+
+// Money collected under one method label, as charted on the finance pages
+export interface PaymentMethodStat {
+  method: string;
+  amount: number;
+  outAmount?: number;
+}
+
+/**
+ * Chart colour for a method label as produced by formatPaymentMethod
+ */
+export function getPaymentMethodChartColor(label: string, index = 0): string {
+  const builtIn = PAYMENT_METHODS.findIndex(method => PAYMENT_METHOD_LABELS[method] === label);
+  const position = builtIn >= 0 ? builtIn : PAYMENT_METHODS.length + index;
+  return PAYMENT_METHOD_CHART_COLORS[position % PAYMENT_METHOD_CHART_COLORS.length];
 }
 
 /**
@@ -78,6 +176,15 @@ export function getPaymentMethodIcon(method: PaymentMethod): string {
   switch (method) {
     case 'Cash':
       return '💵';
+    case 'UPI':
+      return '📱';
+    case 'NEFT':
+    case 'IMPS':
+    case 'RTGS':
+      return '🏦';
+    case 'Cheque':
+      return '🧾';
+    case 'Card':
     case 'Digital':
       return '💳';
     default:
@@ -89,5 +196,33 @@ export function getPaymentMethodIcon(method: PaymentMethod): string {
  * Check if payment method requires reference number
  */
 export function requiresReferenceNumber(method: PaymentMethod): boolean {
-  return method === 'Digital';
-}
\ No newline at end of file
+  return method !== 'Cash';
+}
+
+/**
+ * Label for the reference number field of a method
+ */
+export function getReferenceNumberLabel(method: PaymentMethod): string {
+  switch (method) {
+    case 'UPI':
+      return 'UPI Reference';
+    case 'NEFT':
+    case 'IMPS':
+    case 'RTGS':
+      return 'UTR Number';
+    case 'Cheque':
+      return 'Cheque Number';
+    case 'Card':
+      return 'Card Transaction ID';
+    default:
+      return 'Reference Number';
+  }
+}
+
+/**
+ * Whether money received by this method counts as collected; uncleared and bounced
+ * cheques have not reached the bank account yet
+ */
+export function isPaymentCollected(payment: { cheque_status?: string | null }): boolean {
+  return !payment.cheque_status || payment.cheque_status === 'cleared';
+}
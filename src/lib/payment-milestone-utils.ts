@@ -0,0 +1,102 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { EventPaymentMilestone } from '@/types/studio';
+import { addDays, toDateString } from '@/lib/crew-schedule-utils';
+
+// A milestone being edited; percentage is kept when the amount was worked out from one
+export interface PaymentMilestoneDraft {
+  key: string;
+  label: string;
+  percentage: number | null;
+  amount: number;
+  due_date: string | null;
+}
+
+export const DEFAULT_MILESTONE_SPLIT = [
+  { label: 'Booking advance', percentage: 30 },
+  { label: 'Before event', percentage: 40 },
+  { label: 'On delivery', percentage: 30 }
+];
+
+// Delivery is expected this many days after the last event day
+export const DELIVERY_OFFSET_DAYS = 30;
+
+/**
+ * Split a total by percentages in whole rupees; the last milestone takes the rounding remainder
+ */
+export const splitMilestoneAmounts = (total: number, percentages: number[]) => {
+  let left = Math.round(total);
+  return percentages.map((percentage, index) => {
+    const amount = index === percentages.length - 1 ? left : Math.round(total * percentage / 100);
+    left -= amount;
+    return amount;
+  });
+};
+
+/**
+ * Booking now, the next part a week before the event and the rest a month after the last day
+ */
+export const buildDefaultMilestones = (total: number, eventDate: string, endDate: string): PaymentMilestoneDraft[] => {
+  const today = toDateString(new Date());
+  const weekBefore = addDays(eventDate, -7);
+  const dueDates = [today, weekBefore < today ? today : weekBefore, addDays(endDate, DELIVERY_OFFSET_DAYS)];
+  const amounts = splitMilestoneAmounts(total, DEFAULT_MILESTONE_SPLIT.map(split => split.percentage));
+
+  return DEFAULT_MILESTONE_SPLIT.map((split, index) => ({
+    key: crypto.randomUUID(),
+    label: split.label,
+    percentage: split.percentage,
+    amount: amounts[index],
+    due_date: dueDates[index]
+  }));
+};
+
+export const toMilestoneDrafts = (milestones: EventPaymentMilestone[]): PaymentMilestoneDraft[] =>
+  [...milestones]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(milestone => ({
+      key: milestone.id,
+      label: milestone.label,
+      percentage: milestone.percentage,
+      amount: Number(milestone.amount),
+      due_date: milestone.due_date
+    }));
+
+// Milestone payload for convert_quotation_with_plan and set_event_payment_milestones
+export const toMilestonePayload = (milestones: PaymentMilestoneDraft[]) =>
+  milestones.map(({ key: _key, ...milestone }) => milestone) as unknown as Json;
+
+export const getScheduledTotal = (milestones: Pick<PaymentMilestoneDraft, 'amount'>[]) =>
+  milestones.reduce((sum, milestone) => sum + (milestone.amount || 0), 0);
+
+export const fetchEventPaymentMilestones = async (eventId: string): Promise<EventPaymentMilestone[]> => {
+  const { data, error } = await supabase
+    .from('event_payment_milestones')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Replace an event's payment schedule
+ */
+export const saveEventPaymentMilestones = async (eventId: string, milestones: PaymentMilestoneDraft[]) => {
+  const { error } = await supabase.rpc('set_event_payment_milestones', {
+    p_event_id: eventId,
+    p_milestones: toMilestonePayload(milestones)
+  });
+
+  if (error) throw error;
+};
+
+// Why a schedule cannot be saved, if anything
+export const getMilestoneScheduleProblem = (milestones: PaymentMilestoneDraft[], total: number): string | null => {
+  if (milestones.some(milestone => !milestone.label.trim())) return 'Every milestone needs a label';
+  if (milestones.some(milestone => milestone.amount <= 0)) return 'Every milestone needs an amount';
+  const over = Math.round(getScheduledTotal(milestones) - total);
+  if (over > 0) return `The schedule is ₹${over.toLocaleString('en-IN')} more than the event total`;
+  return null;
+};
@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PaymentReminder, PaymentReminderStatus } from '@/types/studio';
+import { sendWhatsAppText } from '@/lib/whatsapp-share-utils';
+
+// Used until the firm saves its own payment_reminder template settings
+export const DEFAULT_REMINDER_CADENCE_DAYS = 3;
+export const DEFAULT_REMINDER_MAX_ATTEMPTS = 3;
+
+export const fetchPaymentReminders = async (eventId: string): Promise<PaymentReminder[]> => {
+  const { data, error } = await supabase
+    .from('payment_reminders')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, status: row.status as PaymentReminderStatus }));
+};
+
+export const setClientPaymentReminderOptOut = async (clientId: string, optOut: boolean) => {
+  const { error } = await supabase
+    .from('clients')
+    .update({ payment_reminders_opt_out: optOut })
+    .eq('id', clientId);
+
+  if (error) throw error;
+};
+
+const setReminderStatus = async (id: string, status: PaymentReminderStatus, error?: string) => {
+  await supabase
+    .from('payment_reminders')
+    .update({
+      status,
+      sent_at: status === 'sent' ? new Date().toISOString() : null,
+      error: error || null
+    })
+    .eq('id', id);
+};
+
+/**
+ * Queue reminders that have come due for the firm and send them over WhatsApp. The scheduled
+ * send-payment-reminders job does the same for every firm; claim_due_payment_reminders keeps
+ * the two from sending a reminder twice, holds reminders through quiet hours and rebuilds each
+ * message with the current balance, skipping clients who have paid since it was queued.
+ */
+export const sendDuePaymentReminders = async (firmId: string) => {
+  const result = { sent: 0, failed: 0 };
+
+  const { error: queueError } = await supabase.rpc('queue_payment_reminders', { p_firm_id: firmId });
+  if (queueError) throw queueError;
+
+  const { data: claimed, error } = await supabase.rpc('claim_due_payment_reminders', { p_firm_id: firmId });
+  if (error) throw error;
+
+  for (const reminder of claimed || []) {
+    try {
+      await sendWhatsAppText({ firmId, phone: reminder.phone, message: reminder.message });
+      await setReminderStatus(reminder.id, 'sent');
+      result.sent += 1;
+    } catch (sendError) {
+      await setReminderStatus(reminder.id, 'failed', sendError instanceof Error ? sendError.message : 'Failed to send');
+      result.failed += 1;
+    }
+  }
+
+  return result;
+};
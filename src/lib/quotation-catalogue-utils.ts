@@ -0,0 +1,143 @@
+import type { Database } from '@/integrations/supabase/types';
+import {
+  CatalogueCrewImplication,
+  CatalogueItem,
+  CatalogueItemKind,
+  QuotationPackage,
+  QuotationPackageDay,
+  TaxClass
+} from '@/types/studio';
+
+type CatalogueItemRow = Database['public']['Tables']['firm_catalogue_items']['Row'];
+type QuotationPackageRow = Database['public']['Tables']['quotation_packages']['Row'];
+type QuotationPackageItemRow = Database['public']['Tables']['quotation_package_items']['Row'];
+
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  gst_18: 'GST 18%',
+  gst_12: 'GST 12%',
+  gst_5: 'GST 5%',
+  exempt: 'Exempt'
+};
+
+export const CATALOGUE_KIND_LABELS: Record<CatalogueItemKind, string> = {
+  addon: 'Add-on',
+  post_production: 'Post-Production'
+};
+
+// Roles a catalogue item can add to an event's crew
+export const CATALOGUE_CREW_ROLES = ['Photographer', 'Cinematographer', 'Drone Pilot', 'Editor'];
+
+export const DEFAULT_DELIVERABLES = [
+  '1 HD Highlights',
+  '40/45 Min Short Film',
+  '4 Reels',
+  '350+ Edited Photos',
+  '10 Story & Post',
+  'All Data in 1 TB Hard Disk'
+];
+
+// Post-production choices saved before the catalogue existed
+export const LEGACY_POST_PRODUCTION_AMOUNTS: Record<string, number> = {
+  '35k': 35000,
+  '45k': 45000
+};
+
+const FALLBACK_ITEMS: Array<Pick<CatalogueItem, 'kind' | 'name' | 'unit' | 'unit_price' | 'crew'>> = [
+  { kind: 'addon', name: '1 Day Drone', unit: null, unit_price: 12000, crew: [{ role: 'Drone Pilot', quantity: 1 }] },
+  { kind: 'addon', name: '2 Days Pre Wedding', unit: null, unit_price: 65000, crew: [] },
+  { kind: 'addon', name: '1 Day Pre Wedding', unit: null, unit_price: 50000, crew: [] },
+  { kind: 'addon', name: '1 Day Pre Photoshot', unit: null, unit_price: 22000, crew: [] },
+  { kind: 'addon', name: 'Live HD Setup', unit: null, unit_price: 60000, crew: [] },
+  { kind: 'addon', name: 'Side 10x20 LED Wall', unit: null, unit_price: 25000, crew: [] },
+  { kind: 'addon', name: 'Background LED', unit: 'Per Fit', unit_price: 135, crew: [] },
+  { kind: 'addon', name: 'Album Page', unit: 'Per Page', unit_price: 450, crew: [] },
+  { kind: 'addon', name: 'Full Length Film 3/4 Hour', unit: null, unit_price: 22000, crew: [] },
+  { kind: 'post_production', name: '35K Package', unit: null, unit_price: 35000, crew: [] },
+  { kind: 'post_production', name: '45K Package', unit: null, unit_price: 45000, crew: [] }
+];
+
+/**
+ * Catalogue used when a firm's catalogue has not loaded (or failed to load)
+ */
+export const getFallbackCatalogue = (firmId = ''): CatalogueItem[] =>
+  FALLBACK_ITEMS.map((item, index) => ({
+    ...item,
+    id: `builtin-${index}`,
+    firm_id: firmId,
+    description: null,
+    tax_class: 'gst_18',
+    hsn_sac: null,
+    sort_order: index + 1,
+    is_active: true,
+    created_at: '',
+    updated_at: ''
+  }));
+
+const parseJsonArray = <T,>(value: unknown): T[] => {
+  if (!value) return [];
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed as T[] : [];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value as T[] : [];
+};
+
+/**
+ * Normalize a firm_catalogue_items row (JSON crew may be null or a string)
+ */
+export const normalizeCatalogueItem = (row: CatalogueItemRow): CatalogueItem => ({
+  ...row,
+  kind: row.kind as CatalogueItemKind,
+  tax_class: row.tax_class as TaxClass,
+  unit_price: Number(row.unit_price) || 0,
+  crew: parseJsonArray<CatalogueCrewImplication>(row.crew).filter(member => member?.role && member.quantity > 0)
+});
+
+export const normalizeQuotationPackage = (
+  row: QuotationPackageRow & { items?: Pick<QuotationPackageItemRow, 'catalogue_item_id' | 'quantity'>[] | null }
+): QuotationPackage => ({
+  id: row.id,
+  firm_id: row.firm_id,
+  name: row.name,
+  description: row.description,
+  event_type: row.event_type,
+  days: parseJsonArray<QuotationPackageDay>(row.days),
+  same_day_editing: row.same_day_editing,
+  post_production_item_id: row.post_production_item_id,
+  deliverables: parseJsonArray<string>(row.deliverables),
+  items: (row.items || []).map(item => ({ catalogue_item_id: item.catalogue_item_id, quantity: item.quantity })),
+  sort_order: row.sort_order,
+  is_active: row.is_active,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+/**
+ * Price of a package at list rates: crew days at the given role rates, the post-production
+ * item, same day editing per day and the included add-ons
+ */
+export const getPackageListPrice = (
+  pkg: Pick<QuotationPackage, 'days' | 'same_day_editing' | 'post_production_item_id' | 'items'>,
+  items: Pick<CatalogueItem, 'id' | 'unit_price'>[],
+  rates: { photographer: number; cinematographer: number; drone: number; editor: number }
+): number => {
+  const crew = pkg.days.reduce((total, day) =>
+    total + day.photographers * rates.photographer + day.cinematographers * rates.cinematographer + day.drone * rates.drone, 0);
+  const postProduction = items.find(item => item.id === pkg.post_production_item_id)?.unit_price || 0;
+  const sameDayEditing = pkg.same_day_editing ? pkg.days.length * rates.editor : 0;
+  const addOns = pkg.items.reduce((total, packageItem) =>
+    total + (items.find(item => item.id === packageItem.catalogue_item_id)?.unit_price || 0) * packageItem.quantity, 0);
+  return crew + postProduction + sameDayEditing + addOns;
+};
+
+/**
+ * Packages to offer for a quotation: those for its event type first, then the general ones
+ */
+export const getPackagesForEventType = (packages: QuotationPackage[], eventType?: string | null) =>
+  packages
+    .filter(pkg => pkg.is_active && (!pkg.event_type || pkg.event_type === eventType))
+    .sort((a, b) => Number(b.event_type === eventType) - Number(a.event_type === eventType) || a.sort_order - b.sort_order);
@@ -0,0 +1,204 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { EventTypeRoleRates, Quotation, TaskPriority, TaskType } from '@/types/studio';
+import { addDays } from '@/lib/crew-schedule-utils';
+import { parseRoleRates } from '@/lib/event-type-utils';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import { DELIVERY_OFFSET_DAYS, PaymentMilestoneDraft, buildDefaultMilestones, toMilestonePayload } from '@/lib/payment-milestone-utils';
+
+/**
+ * Quotation to event conversion plan. Defaults come from the quotation's days, crew counts and
+ * post-production items; convert_quotation_with_plan creates everything in one transaction.
+ */
+
+export interface ConversionDay {
+  name: string;
+  venue: string;
+}
+
+export interface ConversionCrewSlot {
+  key: string;
+  day_number: number;
+  role: string;
+  staff_id: string | null;
+  freelancer_id: string | null;
+  rate: number;
+}
+
+export interface ConversionTask {
+  key: string;
+  title: string;
+  task_type: TaskType;
+  priority: TaskPriority;
+  // Days after the last event day
+  due_offset_days: number;
+}
+
+export interface ConversionPlan {
+  title: string;
+  eventDate: string;
+  days: ConversionDay[];
+  crew: ConversionCrewSlot[];
+  tasks: ConversionTask[];
+  milestones: PaymentMilestoneDraft[];
+}
+
+// Shape of quotation_details as saved by CustomizableQuotationBuilder
+interface ConversionDetails {
+  days?: Array<{
+    name?: string;
+    photographers?: number;
+    cinematographers?: number;
+    drone?: number;
+    sameDayEditors?: number;
+  }>;
+  postProductionItems?: string[];
+  sameDayEditing?: boolean;
+}
+
+// Crew roles a quotation day asks for, as counted by checkEventCrewCompleteness
+const CREW_ROLES: Array<{ role: string; rateKey: keyof EventTypeRoleRates }> = [
+  { role: 'Photographer', rateKey: 'photographer' },
+  { role: 'Cinematographer', rateKey: 'cinematographer' },
+  { role: 'Drone Pilot', rateKey: 'drone' },
+  { role: 'Same Day Editor', rateKey: 'editor' }
+];
+
+// Post-production is due when the delivery payment is
+export const DEFAULT_POST_PRODUCTION_OFFSET_DAYS = DELIVERY_OFFSET_DAYS;
+
+const toCount = (value: unknown) => {
+  const count = Number(value);
+  return Number.isFinite(count) && count > 0 ? Math.floor(count) : 0;
+};
+
+/**
+ * Read quotation_details into the parts conversion uses, dropping malformed days and items
+ */
+const parseConversionDetails = (value: unknown): ConversionDetails => {
+  let details = value;
+  if (typeof details === 'string') {
+    try {
+      details = JSON.parse(details);
+    } catch {
+      return {};
+    }
+  }
+  if (!details || typeof details !== 'object' || Array.isArray(details)) return {};
+
+  const { days, postProductionItems, sameDayEditing } = details as Record<string, unknown>;
+  return {
+    days: Array.isArray(days)
+      ? days
+        .filter(day => day && typeof day === 'object')
+        .map(day => ({
+          name: typeof day.name === 'string' ? day.name : undefined,
+          photographers: toCount(day.photographers),
+          cinematographers: toCount(day.cinematographers),
+          drone: toCount(day.drone),
+          sameDayEditors: toCount(day.sameDayEditors)
+        }))
+      : undefined,
+    postProductionItems: Array.isArray(postProductionItems)
+      ? postProductionItems.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      : undefined,
+    sameDayEditing: sameDayEditing === true
+  };
+};
+
+const parseDetails = (quotation: Pick<Quotation, 'quotation_details'>) =>
+  parseConversionDetails(quotation.quotation_details);
+
+const getRoleCount = (day: NonNullable<ConversionDetails['days']>[number], role: string, sameDayEditing: boolean) => {
+  switch (role) {
+    case 'Photographer':
+      return day.photographers || 0;
+    case 'Cinematographer':
+      return day.cinematographers || 0;
+    case 'Drone Pilot':
+      return day.drone || 0;
+    default:
+      return day.sameDayEditors || (sameDayEditing ? 1 : 0);
+  }
+};
+
+// Video deliverables go to the video editors, everything else that mentions photos to photo editors
+export const getPostProductionTaskType = (name: string): TaskType => {
+  if (/video|film|teaser|reel|highlight|cinematic|trailer/i.test(name)) return 'Video Editing';
+  if (/photo|album|picture|image|print/i.test(name)) return 'Photo Editing';
+  return 'Other';
+};
+
+export const getConversionEndDate = (plan: Pick<ConversionPlan, 'eventDate' | 'days'>) =>
+  addDays(plan.eventDate, Math.max(plan.days.length, 1) - 1);
+
+/**
+ * Empty crew slots per day and role, each seeded with the firm's default rate for the role
+ */
+export const buildCrewSlots = (
+  quotation: Pick<Quotation, 'quotation_details'>,
+  roleRates: EventTypeRoleRates
+): ConversionCrewSlot[] => {
+  const details = parseDetails(quotation);
+  const days = details.days && details.days.length > 0 ? details.days : [{}];
+
+  return days.flatMap((day, index) => CREW_ROLES.flatMap(({ role, rateKey }) =>
+    Array.from({ length: getRoleCount(day, role, !!details.sameDayEditing) }, (_, slot) => ({
+      key: `${index + 1}-${role}-${slot}`,
+      day_number: index + 1,
+      role,
+      staff_id: null,
+      freelancer_id: null,
+      rate: roleRates[rateKey] || 0
+    }))
+  ));
+};
+
+export const buildConversionPlan = (quotation: Quotation, roleRates: EventTypeRoleRates): ConversionPlan => {
+  const details = parseDetails(quotation);
+  const days = (details.days && details.days.length > 0 ? details.days : [{}]).map((day, index) => ({
+    name: day.name?.trim() || `Day ${index + 1}`,
+    venue: ''
+  }));
+  const eventDate = quotation.event_date;
+  const endDate = addDays(eventDate, days.length - 1);
+
+  return {
+    title: quotation.title,
+    eventDate,
+    days,
+    crew: buildCrewSlots(quotation, roleRates),
+    tasks: (details.postProductionItems || []).map(name => ({
+      key: crypto.randomUUID(),
+      title: name,
+      task_type: getPostProductionTaskType(name),
+      priority: 'Medium',
+      due_offset_days: DEFAULT_POST_PRODUCTION_OFFSET_DAYS
+    })),
+    milestones: buildDefaultMilestones(getQuotationFinalAmount(quotation), eventDate, endDate)
+  };
+};
+
+export const fetchFirmRoleRates = async (firmId: string): Promise<EventTypeRoleRates> => {
+  const { data, error } = await supabase.from('firms').select('default_role_rates').eq('id', firmId).single();
+  if (error) throw error;
+  return parseRoleRates(data.default_role_rates);
+};
+
+/**
+ * Create the event, its days, crew, rates, tasks and payment schedule and return the event id
+ */
+export const convertQuotationWithPlan = async (quotationId: string, plan: ConversionPlan): Promise<string> => {
+  const { data, error } = await supabase.rpc('convert_quotation_with_plan', {
+    p_quotation_id: quotationId,
+    p_title: plan.title.trim(),
+    p_event_date: plan.eventDate,
+    p_days: plan.days as unknown as Json,
+    p_crew: plan.crew.map(({ key: _key, ...slot }) => slot) as unknown as Json,
+    p_tasks: plan.tasks.map(({ key: _key, ...task }) => task) as unknown as Json,
+    p_milestones: toMilestonePayload(plan.milestones)
+  });
+
+  if (error) throw error;
+  return data;
+};
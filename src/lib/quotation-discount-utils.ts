@@ -0,0 +1,178 @@
+import { DiscountRule, DiscountRuleScope, DiscountRuleType, DiscountStep, Quotation } from '@/types/studio';
+import type { Json } from '@/integrations/supabase/types';
+
+export type QuotationLineKind = 'coverage' | 'post_production' | 'addon';
+
+// A priced line of a quotation that discounts can target
+export interface DiscountableLine {
+  key: string;
+  kind: QuotationLineKind;
+  name: string;
+  amount: number;
+}
+
+export const DISCOUNT_RULE_TYPE_LABELS: Record<DiscountRuleType, string> = {
+  percentage: 'Percentage (%)',
+  fixed: 'Fixed Amount (₹)',
+  round_off: 'Round-off'
+};
+
+export const DISCOUNT_SCOPE_LABELS: Record<Exclude<DiscountRuleScope, 'line'>, string> = {
+  all: 'Whole quotation',
+  coverage: 'Crew coverage',
+  post_production: 'Post-production',
+  addons: 'All add-ons'
+};
+
+export const ROUND_OFF_STEPS = [100, 1000];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatRupees = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const isInScope = (rule: DiscountRule, line: DiscountableLine) => {
+  switch (rule.scope) {
+    case 'all':
+      return true;
+    case 'addons':
+      return line.kind === 'addon';
+    case 'line':
+      return line.key === rule.lineKey;
+    default:
+      return line.kind === rule.scope;
+  }
+};
+
+export const describeDiscountRule = (rule: DiscountRule, lines: DiscountableLine[] = []) => {
+  if (rule.label) return rule.label;
+  if (rule.type === 'round_off') {
+    return `Round-off ${rule.roundMode === 'nearest' ? 'to nearest' : 'down to'} ${formatRupees(rule.value)}`;
+  }
+  const target = rule.scope === 'line'
+    ? lines.find(line => line.key === rule.lineKey)?.name || 'Removed line'
+    : DISCOUNT_SCOPE_LABELS[rule.scope];
+  const rate = rule.type === 'percentage' ? `${rule.value}%` : formatRupees(rule.value);
+  return `${rate} off ${rule.scope === 'all' ? 'total' : target}`;
+};
+
+/**
+ * Apply discount rules in order. Each percentage or fixed rule works on what is left of its
+ * lines after earlier rules; a round-off brings the running total to a multiple of its step.
+ * Every step is spread over its lines in proportion to their remaining amounts so tax can be
+ * worked out per line. Rounding to the nearest step may round up, which gives back part of
+ * the earlier discounts (a negative step); it never takes a line or the total above gross.
+ */
+export const applyDiscountRules = <T extends DiscountableLine>(lines: T[], rules: DiscountRule[]) => {
+  const discounts = lines.map(() => 0);
+  const remaining = (index: number) => lines[index].amount - discounts[index];
+  const gross = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  const steps: DiscountStep[] = [];
+
+  rules.forEach(rule => {
+    const targets = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => rule.type === 'round_off' || isInScope(rule, line))
+      .map(({ index }) => index)
+      .filter(index => remaining(index) > 0);
+    const base = round2(targets.reduce((sum, index) => sum + remaining(index), 0));
+
+    let amount = 0;
+    if (base > 0) {
+      if (rule.type === 'percentage') {
+        amount = round2(base * Math.min(Math.max(rule.value, 0), 100) / 100);
+      } else if (rule.type === 'fixed') {
+        amount = round2(Math.min(Math.max(rule.value, 0), base));
+      } else {
+        const step = rule.value > 0 ? rule.value : 100;
+        const roundedDown = Math.floor(base / step) * step;
+        const roundedUp = Math.ceil(base / step) * step;
+        const given = round2(targets.reduce((sum, index) => sum + discounts[index], 0));
+        const rounded = rule.roundMode === 'nearest' && roundedUp - base <= base - roundedDown && roundedUp - base <= given
+          ? roundedUp
+          : roundedDown;
+        amount = round2(base - rounded);
+      }
+    }
+
+    // Discounts are taken in proportion to what is left of each line and given back in
+    // proportion to what each line was discounted. The last line takes the rounding
+    // remainder so the shares add up to the step amount.
+    const weight = (index: number) => (amount < 0 ? discounts[index] : remaining(index));
+    const totalWeight = round2(targets.reduce((sum, index) => sum + weight(index), 0));
+    let left = amount;
+    targets.forEach((index, position) => {
+      const share = position === targets.length - 1 ? left : round2(amount * weight(index) / totalWeight);
+      discounts[index] = round2(discounts[index] + share);
+      left = round2(left - share);
+    });
+
+    const totalAfter = round2(lines.reduce((sum, _line, index) => sum + remaining(index), 0));
+    steps.push({ ruleId: rule.id, label: describeDiscountRule(rule, lines), amount, totalAfter });
+  });
+
+  const totalDiscount = round2(discounts.reduce((sum, discount) => sum + discount, 0));
+  return {
+    lines: lines.map((line, index) => ({ ...line, discount: discounts[index] })),
+    steps,
+    gross,
+    totalDiscount,
+    net: round2(gross - totalDiscount)
+  };
+};
+
+export const parseDiscountRules = (value: unknown): DiscountRule[] => {
+  const rules = typeof value === 'string' ? (() => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  })() : value;
+  return Array.isArray(rules)
+    ? rules.filter((rule): rule is DiscountRule => !!rule && typeof rule === 'object' && typeof rule.type === 'string')
+    : [];
+};
+
+/**
+ * Discount rules of a quotation. Quotations discounted before rules existed read as a single
+ * rule on the whole quotation.
+ */
+export const getQuotationDiscountRules = (
+  quotation: Pick<Quotation, 'discount_rules' | 'discount_type' | 'discount_value'>
+): DiscountRule[] => {
+  const rules = parseDiscountRules(quotation.discount_rules);
+  if (rules.length > 0) return rules;
+  if ((quotation.discount_type === 'percentage' || quotation.discount_type === 'fixed') && quotation.discount_value) {
+    return [{ id: 'legacy', type: quotation.discount_type, scope: 'all', value: quotation.discount_value }];
+  }
+  return [];
+};
+
+/**
+ * Discount columns to save with a set of rules. A single percentage or fixed discount on the
+ * whole quotation keeps the simple type and value; anything else is stored as 'rules' with
+ * the total as its value.
+ */
+export const getDiscountFields = (rules: DiscountRule[], totalDiscount: number) => {
+  if (rules.length === 0) {
+    return { discount_rules: [] as Json, discount_type: null, discount_value: null, discount_amount: null };
+  }
+  const [first] = rules;
+  const isSimple = rules.length === 1 && first.scope === 'all' && first.type !== 'round_off';
+  return {
+    discount_rules: rules as unknown as Json,
+    discount_type: isSimple ? first.type : 'rules',
+    discount_value: isSimple ? first.value : totalDiscount,
+    discount_amount: totalDiscount
+  };
+};
+
+// Short label for a quotation's discount, e.g. "10%", "₹5,000" or "3 rules"
+export const formatDiscountSummary = (
+  quotation: Pick<Quotation, 'discount_rules' | 'discount_type' | 'discount_value'>
+) => {
+  if (quotation.discount_type === 'percentage') return `${quotation.discount_value}%`;
+  if (quotation.discount_type === 'fixed') return formatRupees(quotation.discount_value || 0);
+  const count = getQuotationDiscountRules(quotation).length;
+  return `${count} rule${count === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import { QuotationFollowUp, QuotationFollowUpStatus } from '@/types/studio';
+import { sendWhatsAppText } from '@/lib/whatsapp-share-utils';
+
+// Used until the firm saves its own quotation_follow_up template settings
+export const DEFAULT_FOLLOW_UP_DAYS = [3, 7];
+export const DEFAULT_QUIET_HOURS = { start: '21:00', end: '09:00' };
+
+export const fetchQuotationFollowUps = async (quotationId: string): Promise<QuotationFollowUp[]> => {
+  const { data, error } = await supabase
+    .from('quotation_follow_ups')
+    .select('*')
+    .eq('quotation_id', quotationId)
+    .order('scheduled_for', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, status: row.status as QuotationFollowUpStatus }));
+};
+
+const setFollowUpStatus = async (id: string, status: QuotationFollowUpStatus, error?: string) => {
+  await supabase
+    .from('quotation_follow_ups')
+    .update({
+      status,
+      sent_at: status === 'sent' ? new Date().toISOString() : null,
+      error: error || null
+    })
+    .eq('id', id);
+};
+
+/**
+ * Queue follow-ups that have come due for the firm and send them over WhatsApp. The scheduled
+ * send-quotation-follow-ups job does the same for every firm; claim_due_quotation_follow_ups
+ * keeps the two from messaging a client twice, holds follow-ups through quiet hours and skips
+ * quotations the client has answered since they were queued.
+ */
+export const sendDueQuotationFollowUps = async (firmId: string) => {
+  const result = { sent: 0, failed: 0 };
+
+  const { error: queueError } = await supabase.rpc('queue_quotation_follow_ups', { p_firm_id: firmId });
+  if (queueError) throw queueError;
+
+  const { data: claimed, error } = await supabase.rpc('claim_due_quotation_follow_ups', { p_firm_id: firmId });
+  if (error) throw error;
+
+  for (const followUp of claimed || []) {
+    try {
+      await sendWhatsAppText({ firmId, phone: followUp.phone, message: followUp.message });
+      await setFollowUpStatus(followUp.id, 'sent');
+      result.sent += 1;
+    } catch (sendError) {
+      await setFollowUpStatus(followUp.id, 'failed', sendError instanceof Error ? sendError.message : 'Failed to send');
+      result.failed += 1;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,159 @@
+import { supabase } from '@/integrations/supabase/client';
+import { QuotationRevision } from '@/types/studio';
+import { getQuotationFinalAmount } from '@/lib/quotation-status-utils';
+import { formatDiscountSummary } from '@/lib/quotation-discount-utils';
+
+export interface RevisionDiffRow {
+  section: 'Details' | 'Days' | 'Add-ons' | 'Post-Production' | 'Pricing';
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+// Shape of quotation_details as saved by CustomizableQuotationBuilder
+interface RevisionDay {
+  name?: string;
+  photographers?: number;
+  cinematographers?: number;
+  drone?: number;
+  photographerRate?: number;
+  cinematographerRate?: number;
+  droneRate?: number;
+}
+
+interface RevisionAddOn {
+  name: string;
+  price?: number;
+  enabled?: boolean;
+  unit?: string | null;
+  quantity?: number;
+}
+
+interface RevisionDetails {
+  days?: RevisionDay[];
+  addOns?: RevisionAddOn[];
+  postProductionItems?: string[];
+  selectedPostProductionPackage?: string;
+  customPostProductionAmount?: number | null;
+  sameDayEditing?: boolean;
+  packageName?: string | null;
+}
+
+export const fetchQuotationRevisions = async (quotationId: string): Promise<QuotationRevision[]> => {
+  const { data, error } = await supabase
+    .from('quotation_revisions')
+    .select('*, creator:profiles!quotation_revisions_created_by_fkey(full_name)')
+    .eq('quotation_id', quotationId)
+    .order('revision_number', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ creator, ...revision }) => ({
+    ...revision,
+    created_by_name: creator?.full_name || null
+  }));
+};
+
+/**
+ * Copy an older revision back onto the quotation. The restore is saved as a new
+ * revision, so nothing in the history is overwritten. Returns the new revision number.
+ */
+export const restoreQuotationRevision = async (revisionId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('restore_quotation_revision', { p_revision_id: revisionId });
+  if (error) throw error;
+  return data;
+};
+
+export const formatRevisionDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const formatAmount = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `₹${Number(value).toLocaleString('en-IN')}`;
+
+const formatDiscount = (revision: QuotationRevision) => {
+  if (!revision.discount_type || !revision.discount_value) return 'None';
+  const rate = formatDiscountSummary(revision);
+  return `${rate} (−${formatAmount(revision.discount_amount || 0)})`;
+};
+
+const describeTax = (revision: QuotationRevision) =>
+  revision.tax_pricing
+    ? `${revision.tax_pricing === 'inclusive' ? 'Included' : 'Extra'} (${formatAmount(revision.tax_amount || 0)})`
+    : 'No GST';
+
+const describeDay = (day?: RevisionDay) => {
+  if (!day) return '—';
+  const crew = [
+    day.photographers ? `${day.photographers} photo @ ${formatAmount(day.photographerRate)}` : null,
+    day.cinematographers ? `${day.cinematographers} cine @ ${formatAmount(day.cinematographerRate)}` : null,
+    day.drone ? `${day.drone} drone @ ${formatAmount(day.droneRate)}` : null
+  ].filter(Boolean);
+  return crew.length > 0 ? crew.join(', ') : 'No crew';
+};
+
+const describeAddOn = (addOn?: RevisionAddOn) => {
+  if (!addOn) return '—';
+  const quantity = addOn.quantity || 1;
+  const total = formatAmount((addOn.price || 0) * quantity);
+  return quantity > 1 ? `${quantity} ${addOn.unit || '×'} • ${total}` : total;
+};
+
+/**
+ * Side-by-side comparison of two revisions: event details, each day's crew, add-ons,
+ * post-production and pricing. Rows are matched by day / add-on position and name.
+ */
+export const diffQuotationRevisions = (before: QuotationRevision, after: QuotationRevision): RevisionDiffRow[] => {
+  const rows: RevisionDiffRow[] = [];
+  const push = (section: RevisionDiffRow['section'], label: string, a: string, b: string) =>
+    rows.push({ section, label, before: a, after: b, changed: a !== b });
+
+  push('Details', 'Title', before.title, after.title);
+  push('Details', 'Event Date', formatRevisionDate(before.event_date), formatRevisionDate(after.event_date));
+  push('Details', 'Venue', before.venue || '—', after.venue || '—');
+  push('Details', 'Valid Until',
+    before.valid_until ? formatRevisionDate(before.valid_until) : '—',
+    after.valid_until ? formatRevisionDate(after.valid_until) : '—');
+
+  const beforeDetails = (before.quotation_details || {}) as RevisionDetails;
+  const afterDetails = (after.quotation_details || {}) as RevisionDetails;
+
+  push('Details', 'Package', beforeDetails.packageName || '—', afterDetails.packageName || '—');
+
+  const beforeDays = beforeDetails.days || [];
+  const afterDays = afterDetails.days || [];
+  for (let i = 0; i < Math.max(beforeDays.length, afterDays.length); i++) {
+    const label = afterDays[i]?.name || beforeDays[i]?.name || `Day ${i + 1}`;
+    push('Days', label, describeDay(beforeDays[i]), describeDay(afterDays[i]));
+  }
+
+  const beforeAddOns = (beforeDetails.addOns || []).filter(addOn => addOn.enabled !== false);
+  const afterAddOns = (afterDetails.addOns || []).filter(addOn => addOn.enabled !== false);
+  const addOnNames = Array.from(new Set([...beforeAddOns, ...afterAddOns].map(addOn => addOn.name)));
+  for (const name of addOnNames) {
+    push('Add-ons', name,
+      describeAddOn(beforeAddOns.find(addOn => addOn.name === name)),
+      describeAddOn(afterAddOns.find(addOn => addOn.name === name)));
+  }
+
+  const describePackage = (details: RevisionDetails) =>
+    details.selectedPostProductionPackage === 'custom'
+      ? `Custom (${formatAmount(details.customPostProductionAmount)})`
+      : details.selectedPostProductionPackage || '—';
+  push('Post-Production', 'Package', describePackage(beforeDetails), describePackage(afterDetails));
+  push('Post-Production', 'Deliverables',
+    (beforeDetails.postProductionItems || []).join(', ') || 'None',
+    (afterDetails.postProductionItems || []).join(', ') || 'None');
+  push('Post-Production', 'Same Day Editing',
+    beforeDetails.sameDayEditing ? 'Yes' : 'No',
+    afterDetails.sameDayEditing ? 'Yes' : 'No');
+
+  push('Pricing', 'Amount', formatAmount(before.amount), formatAmount(after.amount));
+  push('Pricing', 'Discount', formatDiscount(before), formatDiscount(after));
+  push('Pricing', 'GST', describeTax(before), describeTax(after));
+  push('Pricing', 'Final Amount',
+    formatAmount(getQuotationFinalAmount(before)),
+    formatAmount(getQuotationFinalAmount(after)));
+
+  return rows;
+};
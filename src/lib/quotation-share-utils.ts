@@ -0,0 +1,175 @@
+import { supabase } from '@/integrations/supabase/client';
+import { formatPhoneNumber } from '@/lib/whatsapp-share-utils';
+import { QuotationClientResponse, QuotationResponse, QuotationShareLink } from '@/types/studio';
+
+export const CLIENT_RESPONSE_LABELS: Record<QuotationClientResponse, string> = {
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  changes_requested: 'Changes Requested'
+};
+
+// Shape of quotation_details the portal renders (as saved by CustomizableQuotationBuilder)
+export interface SharedQuotationDay {
+  name?: string;
+  photographers?: number;
+  cinematographers?: number;
+  drone?: number;
+}
+
+export interface SharedQuotationAddOn {
+  name: string;
+  price?: number;
+  unit?: string | null;
+  quantity?: number;
+  description?: string | null;
+}
+
+export interface SharedQuotationDetails {
+  days?: SharedQuotationDay[];
+  addOns?: SharedQuotationAddOn[];
+  postProductionItems?: string[];
+  sameDayEditing?: boolean;
+  packageName?: string | null;
+}
+
+// Payload returned by get_shared_quotation
+export interface SharedQuotation {
+  quotation: {
+    id: string;
+    title: string;
+    event_type: string;
+    event_date: string;
+    venue: string | null;
+    description: string | null;
+    valid_until: string | null;
+    amount: number;
+    discount_type: string | null;
+    discount_value: number | null;
+    discount_amount: number | null;
+    discount_rules: unknown;
+    tax_pricing: string | null;
+    place_of_supply: string | null;
+    tax_amount: number;
+    tax_breakdown: unknown;
+    quotation_details: SharedQuotationDetails | null;
+    current_revision: number;
+    revised_at: string;
+    client_response: QuotationClientResponse | null;
+    client_responded_at: string | null;
+    is_converted: boolean;
+  };
+  client: { name: string } | null;
+  firm: {
+    name: string;
+    tagline: string | null;
+    description: string | null;
+    contact_phone: string | null;
+    contact_email: string | null;
+    logo_url: string | null;
+    gstin: string | null;
+  };
+  responses: Array<Pick<QuotationResponse, 'response' | 'comment' | 'responder_name' | 'created_at'>>;
+}
+
+export const getQuotationShareUrl = (token: string) => `${window.location.origin}/q/${token}`;
+
+export const buildQuotationShareMessage = (params: { clientName: string; eventType: string; firmName: string; url: string }) =>
+  `Dear *${params.clientName}*,
+
+Your quotation for the ${params.eventType} is ready. You can review it and accept, decline or request changes here:
+${params.url}
+
+Thank you for choosing *${params.firmName}*`;
+
+/**
+ * wa.me link that opens WhatsApp with the message ready to send (to the client when a phone is known)
+ */
+export const getWhatsAppShareUrl = (message: string, phone?: string | null) =>
+  `https://wa.me/${phone ? formatPhoneNumber(phone) : ''}?text=${encodeURIComponent(message)}`;
+
+export const fetchQuotationShareLinks = async (quotationId: string): Promise<QuotationShareLink[]> => {
+  const { data, error } = await supabase
+    .from('quotation_share_links')
+    .select('*')
+    .eq('quotation_id', quotationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createQuotationShareLink = async (params: {
+  quotationId: string;
+  firmId: string;
+  profileId?: string | null;
+  autoConvert: boolean;
+  expiresAt: string | null;
+}): Promise<QuotationShareLink> => {
+  const { data, error } = await supabase
+    .from('quotation_share_links')
+    .insert({
+      quotation_id: params.quotationId,
+      firm_id: params.firmId,
+      created_by: params.profileId || null,
+      auto_convert: params.autoConvert,
+      expires_at: params.expiresAt
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const revokeQuotationShareLink = async (linkId: string) => {
+  const { error } = await supabase
+    .from('quotation_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) throw error;
+};
+
+export const isShareLinkActive = (link: Pick<QuotationShareLink, 'revoked_at' | 'expires_at'>) =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date());
+
+export const fetchQuotationResponses = async (quotationId: string): Promise<QuotationResponse[]> => {
+  const { data, error } = await supabase
+    .from('quotation_responses')
+    .select('*')
+    .eq('quotation_id', quotationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, response: row.response as QuotationClientResponse }));
+};
+
+/**
+ * Load a quotation for the public portal. Works without a session; the token is the only key.
+ */
+export const fetchSharedQuotation = async (token: string): Promise<SharedQuotation> => {
+  const { data, error } = await supabase.rpc('get_shared_quotation', { p_token: token });
+  // Surface the function's own message ("link has expired" etc.) to the client
+  if (error) throw new Error(error.message);
+  return data as unknown as SharedQuotation;
+};
+
+/**
+ * Record the client's answer. When the link was created with auto-convert, accepting
+ * also creates the event and the returned event id is set.
+ */
+export const respondToSharedQuotation = async (params: {
+  token: string;
+  response: QuotationClientResponse;
+  comment?: string;
+  responderName?: string;
+}): Promise<{ response_id: string; event_id: string | null }> => {
+  const { data, error } = await supabase.rpc('respond_to_shared_quotation', {
+    p_token: params.token,
+    p_response: params.response,
+    p_comment: params.comment || undefined,
+    p_responder_name: params.responderName || undefined
+  });
+  if (error) throw new Error(error.message);
+  return data as unknown as { response_id: string; event_id: string | null };
+};
@@ -0,0 +1,138 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Quotation, QuotationStatus } from '@/types/studio';
+
+// Pipeline order, left to right on the board
+export const QUOTATION_STATUSES: QuotationStatus[] = [
+  'Draft',
+  'Sent',
+  'Viewed',
+  'Negotiating',
+  'Accepted',
+  'Rejected',
+  'Expired'
+];
+
+// Statuses still waiting on the client or the firm
+export const OPEN_QUOTATION_STATUSES: QuotationStatus[] = ['Draft', 'Sent', 'Viewed', 'Negotiating'];
+
+export const QUOTATION_STATUS_DESCRIPTIONS: Record<QuotationStatus, string> = {
+  Draft: 'Not shared with the client yet',
+  Sent: 'Shared, waiting for the client to open it',
+  Viewed: 'Opened by the client',
+  Negotiating: 'Client asked for changes',
+  Accepted: 'Accepted or converted to an event',
+  Rejected: 'Declined by the client',
+  Expired: 'Validity has passed without an answer'
+};
+
+const isPastValidity = (validUntil: string | null | undefined) => {
+  if (!validUntil) return false;
+  const expiryDate = new Date(validUntil);
+  expiryDate.setHours(23, 59, 59, 999);
+  return expiryDate < new Date();
+};
+
+/**
+ * Pipeline status of a quotation. Rows the nightly expiry job has not reached yet are
+ * reported as Expired once valid_until has passed, and converted ones as Accepted.
+ */
+export const getQuotationStatus = (
+  quotation: Pick<Quotation, 'status' | 'valid_until' | 'converted_to_event'>
+): QuotationStatus => {
+  if (quotation.converted_to_event) return 'Accepted';
+  const status = QUOTATION_STATUSES.includes(quotation.status as QuotationStatus)
+    ? quotation.status as QuotationStatus
+    : 'Draft';
+  if (OPEN_QUOTATION_STATUSES.includes(status) && isPastValidity(quotation.valid_until)) return 'Expired';
+  return status;
+};
+
+/**
+ * What the client pays: amount less any discount, plus GST when prices exclude tax
+ * (mirrors quotation_payable_amount in the database).
+ */
+export const getQuotationFinalAmount = (
+  quotation: Pick<Quotation, 'amount' | 'discount_type' | 'discount_value' | 'discount_amount' | 'tax_pricing' | 'tax_amount'>
+) =>
+  (quotation.amount || 0)
+  - (quotation.discount_type && quotation.discount_value ? quotation.discount_amount || 0 : 0)
+  + (quotation.tax_pricing === 'exclusive' ? quotation.tax_amount || 0 : 0);
+
+export interface QuotationConversionStats {
+  sent: number;
+  accepted: number;
+  rejected: number;
+  expired: number;
+  open: number;
+  // Accepted share of quotations that reached the client, 0-100
+  conversionRate: number;
+  // Accepted share of quotations the client has decided on (accepted, rejected or expired)
+  winRate: number;
+  acceptedValue: number;
+  openValue: number;
+}
+
+export const getQuotationConversionStats = (quotations: Quotation[]): QuotationConversionStats => {
+  const counts = { sent: 0, accepted: 0, rejected: 0, expired: 0, open: 0, acceptedValue: 0, openValue: 0 };
+
+  quotations.forEach(quotation => {
+    const status = getQuotationStatus(quotation);
+    const value = getQuotationFinalAmount(quotation);
+    if (status !== 'Draft') counts.sent += 1;
+    if (status === 'Accepted') {
+      counts.accepted += 1;
+      counts.acceptedValue += value;
+    } else if (status === 'Rejected') {
+      counts.rejected += 1;
+    } else if (status === 'Expired') {
+      counts.expired += 1;
+    } else {
+      counts.open += 1;
+      counts.openValue += value;
+    }
+  });
+
+  const decided = counts.accepted + counts.rejected + counts.expired;
+  return {
+    ...counts,
+    conversionRate: counts.sent > 0 ? Math.round((counts.accepted / counts.sent) * 100) : 0,
+    winRate: decided > 0 ? Math.round((counts.accepted / decided) * 100) : 0
+  };
+};
+
+/**
+ * Move a quotation to another pipeline column. Conversion, client responses and
+ * expiry also set the status from the database side.
+ */
+export const updateQuotationStatus = async (quotationId: string, status: QuotationStatus) => {
+  const { error } = await supabase
+    .from('quotations')
+    .update({ status })
+    .eq('id', quotationId);
+
+  if (error) throw error;
+};
+
+/**
+ * Record that a quotation went out to the client (PDF share). Starts the follow-up
+ * schedule; quotations further along the pipeline are left as they are.
+ */
+export const markQuotationSent = async (quotationId: string) => {
+  const { error } = await supabase
+    .from('quotations')
+    .update({ status: 'Sent' })
+    .eq('id', quotationId)
+    .in('status', ['Draft', 'Negotiating']);
+
+  if (error) throw error;
+};
+
+/**
+ * Expire this firm's open quotations whose validity has passed (the nightly job does the
+ * same for every firm). Returns the number expired.
+ */
+export const expireFirmQuotations = async (firmId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('expire_quotations', { p_firm_id: firmId });
+  if (error) throw error;
+  return data || 0;
+};
@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CancellationPolicyTier, Event, EventRefund, PaymentMethod, RefundKind } from '@/types/studio';
+import { calculateTotalPaid } from '@/lib/payment-calculator';
+
+// Matches the firms.cancellation_policy column default
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyTier[] = [
+  { days_before: 30, retention_percent: 25 },
+  { days_before: 7, retention_percent: 50 },
+  { days_before: 0, retention_percent: 100 }
+];
+
+export interface CancellationSettlement {
+  daysBefore: number;
+  retentionPercent: number;
+  paid: number;
+  retained: number;
+  refund: number;
+}
+
+export interface NewEventRefund {
+  eventId: string;
+  firmId: string;
+  paymentId?: string | null;
+  amount: number;
+  refundDate: string;
+  refundMethod: PaymentMethod;
+  referenceNumber?: string;
+  reason?: string;
+  createdBy?: string;
+}
+
+/**
+ * Read a firm's cancellation_policy JSON, dropping malformed tiers; largest notice first
+ */
+export const parseCancellationPolicy = (value: unknown): CancellationPolicyTier[] => {
+  if (!Array.isArray(value)) return DEFAULT_CANCELLATION_POLICY;
+
+  return value
+    .map(tier => ({
+      days_before: Number(tier?.days_before),
+      retention_percent: Number(tier?.retention_percent)
+    }))
+    .filter(tier => Number.isFinite(tier.days_before) && tier.days_before >= 0
+      && Number.isFinite(tier.retention_percent) && tier.retention_percent >= 0 && tier.retention_percent <= 100)
+    .sort((a, b) => b.days_before - a.days_before);
+};
+
+const daysUntil = (date: string, today: Date) => {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((new Date(`${date.slice(0, 10)}T00:00:00`).getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * Share of the event total the firm keeps when cancelling with the given notice. The tier with
+ * the largest days_before the notice still meets applies; with no tier met the firm keeps it all.
+ */
+export const getRetentionPercent = (policy: CancellationPolicyTier[], daysBefore: number): number => {
+  const tier = [...policy]
+    .sort((a, b) => b.days_before - a.days_before)
+    .find(candidate => daysBefore >= candidate.days_before);
+  return tier ? tier.retention_percent : 100;
+};
+
+/**
+ * What the firm keeps and what goes back to the client if the event is cancelled today.
+ * Retention never exceeds what the client has actually paid.
+ */
+export const calculateCancellationSettlement = (
+  event: Event,
+  policy: CancellationPolicyTier[],
+  today: Date = new Date()
+): CancellationSettlement => {
+  const daysBefore = daysUntil(event.event_date, today);
+  const retentionPercent = getRetentionPercent(policy, daysBefore);
+  const paid = Math.max(0, calculateTotalPaid(event));
+  const retained = Math.min(paid, Math.round(((event.total_amount || 0) * retentionPercent) / 100));
+
+  return { daysBefore, retentionPercent, paid, retained, refund: paid - retained };
+};
+
+export const fetchEventRefunds = async (eventId: string): Promise<EventRefund[]> => {
+  const { data, error } = await supabase
+    .from('event_refunds')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('refund_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, kind: row.kind as RefundKind }));
+};
+
+/**
+ * Record a refund; the database numbers its credit note and refuses more than the client has paid
+ */
+export const createEventRefund = async (refund: NewEventRefund): Promise<EventRefund> => {
+  const { data, error } = await supabase
+    .from('event_refunds')
+    .insert({
+      event_id: refund.eventId,
+      firm_id: refund.firmId,
+      payment_id: refund.paymentId || null,
+      amount: refund.amount,
+      refund_date: refund.refundDate,
+      refund_method: refund.refundMethod,
+      reference_number: refund.referenceNumber?.trim() || null,
+      reason: refund.reason?.trim() || null,
+      created_by: refund.createdBy || null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { ...data, kind: data.kind as RefundKind };
+};
+
+/**
+ * Cancel the event, refund the given amount and close whatever was never paid.
+ * Resolves to the cancellation refund, or null when the firm keeps everything.
+ */
+export const settleEventCancellation = async (
+  eventId: string,
+  refund: { amount: number; method: PaymentMethod; date: string; referenceNumber?: string; reason?: string }
+): Promise<EventRefund | null> => {
+  const { data, error } = await supabase.rpc('settle_event_cancellation', {
+    p_event_id: eventId,
+    p_refund_amount: refund.amount,
+    p_refund_method: refund.method,
+    p_refund_date: refund.date,
+    p_reference_number: refund.referenceNumber?.trim() || null,
+    p_reason: refund.reason?.trim() || null
+  });
+
+  if (error) throw error;
+  return data?.id ? { ...data, kind: data.kind as RefundKind } : null;
+};
@@ -10,6 +10,9 @@ export const VALID_ROLES: UserRole[] = [
   'Other'
 ];
 
+// Roles used for crew in event_staff_assignments
+export const CREW_ROLES = ['Photographer', 'Cinematographer', 'Drone Pilot', 'Same Day Editor', 'Other'];
+
 // Role display mapping for consistent UI
 export const ROLE_DISPLAY_MAP: Record<string, UserRole> = {
   'admin': 'Admin',
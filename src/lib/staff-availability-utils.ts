@@ -1,4 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { fetchApprovedUnavailability } from '@/lib/staff-unavailability-utils';
 
 export interface DateRange {
   startDate: string;
@@ -12,6 +14,22 @@ export interface StaffAssignment {
   day_number: number;
   day_date: string;
   event_id: string;
+  session_id?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  venue?: string | null;
+  // Set when the entry is an approved unavailability block rather than an event
+  unavailability_id?: string | null;
+}
+
+/**
+ * A date with an optional call time window - the slot a session occupies
+ */
+export interface SessionWindow {
+  date: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  venue?: string | null;
 }
 
 export interface EventDateInfo {
@@ -45,6 +63,176 @@ export const datesOverlap = (range1: DateRange, range2: DateRange): boolean => {
   );
 };
 
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * A slot on the wall clock, in minutes since the epoch (time zone free).
+ * Untimed slots cover whole days and never get travel buffers.
+ */
+export interface ConflictWindow {
+  startsAt: number;
+  endsAt: number;
+  timed: boolean;
+  venue?: string | null;
+}
+
+export interface ConflictMeasure {
+  overlapMinutes: number;
+  gapMinutes: number;
+  bufferMinutes: number;
+}
+
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const dateToMinutes = (date: string): number => Date.parse(`${date}T00:00:00Z`) / 60000;
+
+const toTimestamp = (minutes: number): string => new Date(minutes * 60000).toISOString().slice(0, 19);
+
+const fromTimestamp = (timestamp: string): number => Date.parse(`${timestamp.slice(0, 19)}Z`) / 60000;
+
+/**
+ * Convert a session window to a conflict window. Windows without both times cover the
+ * whole day; an end time before the start time runs past midnight.
+ */
+export const toConflictWindow = (window: SessionWindow): ConflictWindow => {
+  const dayStart = dateToMinutes(window.date);
+  if (!window.startTime || !window.endTime) {
+    return { startsAt: dayStart, endsAt: dayStart + MINUTES_PER_DAY, timed: false, venue: window.venue };
+  }
+
+  const start = timeToMinutes(window.startTime);
+  let end = timeToMinutes(window.endTime);
+  if (end <= start) end += MINUTES_PER_DAY;
+  return { startsAt: dayStart + start, endsAt: dayStart + end, timed: true, venue: window.venue };
+};
+
+export const dateRangeToConflictWindow = (range: DateRange): ConflictWindow => ({
+  startsAt: dateToMinutes(range.startDate),
+  endsAt: dateToMinutes(range.endDate) + MINUTES_PER_DAY,
+  timed: false
+});
+
+const normalizeVenue = (venue?: string | null) => venue?.trim().toLowerCase() || '';
+
+/**
+ * Measure how two windows clash, mirroring public.get_staff_conflicts. Travel buffers only
+ * apply between two timed windows at different, known venues.
+ * @returns null when the windows are clear of each other
+ */
+export const measureConflict = (
+  candidate: ConflictWindow,
+  other: ConflictWindow,
+  travelBufferMinutes: number
+): ConflictMeasure | null => {
+  const candidateVenue = normalizeVenue(candidate.venue);
+  const otherVenue = normalizeVenue(other.venue);
+  const bufferMinutes = candidate.timed && other.timed && candidateVenue && otherVenue && candidateVenue !== otherVenue
+    ? travelBufferMinutes
+    : 0;
+
+  if (!(other.startsAt - bufferMinutes < candidate.endsAt && candidate.startsAt < other.endsAt + bufferMinutes)) {
+    return null;
+  }
+
+  return {
+    overlapMinutes: Math.max(0, Math.min(candidate.endsAt, other.endsAt) - Math.max(candidate.startsAt, other.startsAt)),
+    gapMinutes: Math.max(0, other.startsAt - candidate.endsAt, candidate.startsAt - other.endsAt),
+    bufferMinutes
+  };
+};
+
+/**
+ * Check if two session windows overlap in time
+ * @param window1 First session window
+ * @param window2 Second session window
+ * @returns true if the windows overlap (back-to-back sessions do not)
+ */
+export const sessionWindowsOverlap = (window1: SessionWindow, window2: SessionWindow): boolean => {
+  return measureConflict(toConflictWindow(window1), toConflictWindow(window2), 0) !== null;
+};
+
+const getCandidateWindow = (dateRange: DateRange, sessionWindow?: SessionWindow): ConflictWindow =>
+  sessionWindow ? toConflictWindow(sessionWindow) : dateRangeToConflictWindow(dateRange);
+
+const getAssignmentWindow = (assignment: StaffAssignment): ConflictWindow =>
+  toConflictWindow({
+    date: assignment.day_date,
+    startTime: assignment.start_time,
+    endTime: assignment.end_time,
+    venue: assignment.venue
+  });
+
+/**
+ * Travel buffer between venues configured for the firm
+ */
+export const fetchTravelBufferMinutes = async (firmId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('firms')
+    .select('crew_travel_buffer_minutes')
+    .eq('id', firmId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching travel buffer:', error);
+    return 0;
+  }
+
+  return data?.crew_travel_buffer_minutes ?? 0;
+};
+
+type StaffConflictRow = Database['public']['Functions']['get_staff_conflicts']['Returns'][number];
+
+/**
+ * Saved assignments clashing with a window, computed server side within the date window
+ */
+const fetchStaffConflicts = async (
+  candidate: ConflictWindow,
+  firmId: string,
+  excludeEventId?: string,
+  personId?: string
+): Promise<StaffConflictRow[]> => {
+  const { data, error } = await supabase.rpc('get_staff_conflicts', {
+    p_firm_id: firmId,
+    p_starts_at: toTimestamp(candidate.startsAt),
+    p_ends_at: toTimestamp(candidate.endsAt),
+    p_timed: candidate.timed,
+    p_venue: candidate.venue || undefined,
+    p_exclude_event_id: excludeEventId,
+    p_person_id: personId
+  });
+
+  if (error) {
+    console.error('Error fetching staff conflicts:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Unsaved assignments of the event being edited that clash with a window
+ */
+const findCurrentEventConflicts = async (
+  candidate: ConflictWindow,
+  currentEventAssignments: StaffAssignment[],
+  firmId?: string
+): Promise<Array<{ assignment: StaffAssignment; measure: ConflictMeasure }>> => {
+  const assignments = currentEventAssignments.filter(assignment => assignment.day_date);
+  if (assignments.length === 0) return [];
+
+  const travelBufferMinutes = candidate.timed && firmId ? await fetchTravelBufferMinutes(firmId) : 0;
+
+  return assignments
+    .map(assignment => ({ assignment, measure: measureConflict(candidate, getAssignmentWindow(assignment), travelBufferMinutes) }))
+    .filter((item): item is { assignment: StaffAssignment; measure: ConflictMeasure } => item.measure !== null);
+};
+
+const getCandidateDateRange = (dateRange: DateRange, sessionWindow?: SessionWindow): DateRange =>
+  sessionWindow ? { startDate: sessionWindow.date, endDate: sessionWindow.date } : dateRange;
+
 /**
  * Calculate the date range for an event based on event_date, total_days, and optional event_end_date
  * @param eventInfo Event date information
@@ -74,93 +262,59 @@ export const calculateEventDateRange = (eventInfo: EventDateInfo): DateRange =>
  * @param excludeEventId Optional event ID to exclude from the check (for editing existing events)
  * @param firmId The firm ID to filter assignments
  * @param currentEventAssignments Optional current event assignments to check against (for real-time conflict detection)
+ * @param sessionWindow Optional session time window; session assignments outside it are not conflicts
  * @returns Array of conflicting assignments
  */
 export const getConflictingAssignments = async (
   dateRange: DateRange,
   excludeEventId?: string,
   firmId?: string,
-  currentEventAssignments?: StaffAssignment[]
+  currentEventAssignments?: StaffAssignment[],
+  sessionWindow?: SessionWindow
 ): Promise<StaffAssignment[]> => {
   try {
-    let query = supabase
-      .from('event_staff_assignments')
-      .select(`
-        staff_id,
-        freelancer_id,
-        role,
-        day_number,
-        day_date,
-        event_id,
-        events!inner(
-          event_date,
-          event_end_date,
-          total_days,
-          firm_id
-        )
-      `);
-
-    // Filter by firm if provided
-    if (firmId) {
-      query = query.eq('events.firm_id', firmId);
-    }
-
-    // Exclude current event if editing
-    if (excludeEventId) {
-      query = query.neq('event_id', excludeEventId);
-    }
-
-    const { data: assignments, error } = await query;
-
-    if (error) {
-      console.error('Error fetching conflicting assignments:', error);
-      return [];
-    }
-
-    if (!assignments) return [];
-
-    // Filter assignments by date overlap
-    const conflictingAssignments = assignments.filter(assignment => {
-      const event = (assignment as any).events;
-      const eventDateRange = calculateEventDateRange({
-        event_date: event.event_date,
-        event_end_date: event.event_end_date,
-        total_days: event.total_days || 1
-      });
-
-      return datesOverlap(dateRange, eventDateRange);
-    });
-
-    let allConflicts = conflictingAssignments.map(assignment => ({
-      staff_id: assignment.staff_id || '',
-      freelancer_id: assignment.freelancer_id || '',
-      role: assignment.role,
-      day_number: assignment.day_number,
-      day_date: assignment.day_date || '',
-      event_id: assignment.event_id
+    const candidate = getCandidateWindow(dateRange, sessionWindow);
+    const rows = firmId ? await fetchStaffConflicts(candidate, firmId, excludeEventId) : [];
+
+    let allConflicts: StaffAssignment[] = rows.map(row => ({
+      staff_id: row.staff_id || '',
+      freelancer_id: row.freelancer_id || '',
+      role: row.role,
+      day_number: row.day_number,
+      day_date: row.day_date,
+      event_id: row.event_id,
+      session_id: row.session_id,
+      start_time: row.timed ? row.starts_at.slice(11, 16) : null,
+      end_time: row.timed ? row.ends_at.slice(11, 16) : null,
+      venue: row.venue
     }));
 
+    // Approved leave is a hard conflict regardless of call times
+    const blocks = firmId ? await fetchApprovedUnavailability(firmId, getCandidateDateRange(dateRange, sessionWindow)) : [];
+    allConflicts = [
+      ...allConflicts,
+      ...blocks.map(block => ({
+        staff_id: block.staff_id || '',
+        freelancer_id: block.freelancer_id || '',
+        role: 'Unavailable',
+        day_number: 0,
+        day_date: block.start_date,
+        event_id: '',
+        unavailability_id: block.id
+      }))
+    ];
+
     // Add current event assignments if provided (for real-time conflict detection)
     if (currentEventAssignments && currentEventAssignments.length > 0) {
-      const currentEventConflicts = currentEventAssignments.filter(assignment => {
-        // Check if assignment date overlaps with the target date range
-        if (assignment.day_date) {
-          const assignmentDate = new Date(assignment.day_date);
-          const checkStart = new Date(dateRange.startDate);
-          const checkEnd = new Date(dateRange.endDate);
-          return assignmentDate >= checkStart && assignmentDate <= checkEnd;
-        }
-        return false;
-      }).map(assignment => ({
-        staff_id: assignment.staff_id || '',
-        freelancer_id: assignment.freelancer_id || '',
-        role: assignment.role,
-        day_number: assignment.day_number,
-        day_date: assignment.day_date || '',
-        event_id: assignment.event_id
-      }));
-      
-      allConflicts = [...allConflicts, ...currentEventConflicts];
+      const currentEventConflicts = await findCurrentEventConflicts(candidate, currentEventAssignments, firmId);
+      allConflicts = [
+        ...allConflicts,
+        ...currentEventConflicts.map(({ assignment }) => ({
+          ...assignment,
+          staff_id: assignment.staff_id || '',
+          freelancer_id: assignment.freelancer_id || ''
+        }))
+      ];
     }
 
     return allConflicts;
@@ -267,12 +421,33 @@ export const filterAvailablePeople = async <T extends { id: string }>(
   return people.filter(person => !conflictingPersonIds.has(person.id));
 };
 
+export interface ConflictingEventDetail {
+  eventId: string;
+  eventTitle?: string;
+  role: string;
+  dateRange: DateRange;
+  sessionName?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  venue?: string | null;
+  overlapMinutes?: number;
+  gapMinutes?: number;
+  bufferMinutes?: number;
+  // Approved unavailability: a hard conflict that cannot be assigned over
+  unavailable?: boolean;
+  reason?: string | null;
+}
+
+export const hasHardConflict = (conflicts: Array<{ unavailable?: boolean }>) =>
+  conflicts.some(conflict => conflict.unavailable);
+
 /**
  * Get detailed conflict information for a person
  * @param personId Staff or freelancer ID
  * @param dateRange Date range to check
  * @param excludeEventId Optional event ID to exclude
  * @param firmId Firm ID to filter assignments
+ * @param sessionWindow Optional session time window being filled
  * @returns Promise with conflict details
  */
 export const getPersonConflictDetails = async (
@@ -280,111 +455,72 @@ export const getPersonConflictDetails = async (
   dateRange: DateRange,
   excludeEventId?: string,
   firmId?: string,
-  currentEventAssignments?: StaffAssignment[]
+  currentEventAssignments?: StaffAssignment[],
+  sessionWindow?: SessionWindow
 ): Promise<{
   hasConflict: boolean;
-  conflictingEvents: Array<{
-    eventId: string;
-    eventTitle?: string;
-    role: string;
-    dateRange: DateRange;
-  }>;
+  conflictingEvents: ConflictingEventDetail[];
 }> => {
   if (!personId) {
     return { hasConflict: false, conflictingEvents: [] };
   }
 
   try {
-    let query = supabase
-      .from('event_staff_assignments')
-      .select(`
-        staff_id,
-        freelancer_id,
-        role,
-        event_id,
-        events!inner(
-          id,
-          title,
-          event_date,
-          event_end_date,
-          total_days,
-          firm_id
-        )
-      `)
-      .or(`staff_id.eq.${personId},freelancer_id.eq.${personId}`);
-
-    if (firmId) {
-      query = query.eq('events.firm_id', firmId);
-    }
-
-    if (excludeEventId) {
-      query = query.neq('event_id', excludeEventId);
-    }
-
-    const { data: assignments, error } = await query;
-
-    if (error) {
-      console.error('Error fetching person conflicts:', error);
-      return { hasConflict: false, conflictingEvents: [] };
-    }
-
-    if (!assignments) {
-      return { hasConflict: false, conflictingEvents: [] };
-    }
+    const candidate = getCandidateWindow(dateRange, sessionWindow);
+    const rows = firmId ? await fetchStaffConflicts(candidate, firmId, excludeEventId, personId) : [];
+
+    let conflictingEvents: ConflictingEventDetail[] = rows.map(row => ({
+      eventId: row.event_id,
+      eventTitle: row.event_title,
+      role: row.role,
+      dateRange: { startDate: row.day_date, endDate: row.day_date },
+      sessionName: row.session_name || undefined,
+      startTime: row.timed ? row.starts_at.slice(11, 16) : null,
+      endTime: row.timed ? row.ends_at.slice(11, 16) : null,
+      venue: row.venue,
+      overlapMinutes: row.overlap_minutes,
+      gapMinutes: row.gap_minutes,
+      bufferMinutes: row.buffer_minutes
+    }));
 
-    let conflictingEvents = assignments
-      .map(assignment => {
-        const event = (assignment as any).events;
-        const eventDateRange = calculateEventDateRange({
-          event_date: event.event_date,
-          event_end_date: event.event_end_date,
-          total_days: event.total_days || 1
-        });
-
-        const hasOverlap = datesOverlap(dateRange, eventDateRange);
-
-        return {
-          assignment,
-          event,
-          eventDateRange,
-          hasOverlap
-        };
-      })
-      .filter(item => item.hasOverlap)
-      .map(item => ({
-        eventId: item.event.id,
-        eventTitle: item.event.title,
-        role: item.assignment.role,
-        dateRange: item.eventDateRange
-      }));
+    const blocks = firmId
+      ? await fetchApprovedUnavailability(firmId, getCandidateDateRange(dateRange, sessionWindow), personId)
+      : [];
+    conflictingEvents = [
+      ...blocks.map(block => ({
+        eventId: '',
+        eventTitle: 'Unavailable',
+        role: 'Unavailable',
+        dateRange: { startDate: block.start_date, endDate: block.end_date },
+        unavailable: true,
+        reason: block.reason
+      })),
+      ...conflictingEvents
+    ];
 
     // Add current event assignments if provided (for real-time conflict detection)
     if (currentEventAssignments && currentEventAssignments.length > 0) {
-      const currentEventConflicts = currentEventAssignments
-        .filter(assignment => {
-          // Check if this assignment is for the same person
-          const isForThisPerson = assignment.staff_id === personId || assignment.freelancer_id === personId;
-          
-          // Check if assignment date overlaps with the target date range
-          if (isForThisPerson && assignment.day_date) {
-            const assignmentDate = new Date(assignment.day_date);
-            const checkStart = new Date(dateRange.startDate);
-            const checkEnd = new Date(dateRange.endDate);
-            return assignmentDate >= checkStart && assignmentDate <= checkEnd;
-          }
-          return false;
-        })
-        .map(assignment => ({
+      const personAssignments = currentEventAssignments.filter(assignment =>
+        assignment.staff_id === personId || assignment.freelancer_id === personId
+      );
+      const currentEventConflicts = await findCurrentEventConflicts(candidate, personAssignments, firmId);
+
+      conflictingEvents = [
+        ...conflictingEvents,
+        ...currentEventConflicts.map(({ assignment, measure }) => ({
           eventId: assignment.event_id,
           eventTitle: 'Current Event (Unsaved)',
           role: assignment.role,
           dateRange: {
-            startDate: assignment.day_date || dateRange.startDate,
-            endDate: assignment.day_date || dateRange.endDate
-          }
-        }));
-      
-      conflictingEvents = [...conflictingEvents, ...currentEventConflicts];
+            startDate: assignment.day_date,
+            endDate: assignment.day_date
+          },
+          startTime: assignment.start_time,
+          endTime: assignment.end_time,
+          venue: assignment.venue,
+          ...measure
+        }))
+      ];
     }
 
     return {
@@ -395,4 +531,4 @@ export const getPersonConflictDetails = async (
     console.error('Error in getPersonConflictDetails:', error);
     return { hasConflict: false, conflictingEvents: [] };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,316 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AvailabilityResponseSource, StaffAvailabilityResponse, StaffUnavailability } from '@/types/studio';
+import type { DateRange } from '@/lib/staff-availability-utils';
+
+const UNAVAILABILITY_SELECT = `
+  *,
+  staff:profiles!staff_unavailability_staff_id_fkey(full_name),
+  freelancer:freelancers(full_name)
+`;
+
+export const getUnavailabilityPersonId = (block: Pick<StaffUnavailability, 'staff_id' | 'freelancer_id'>) =>
+  block.staff_id || block.freelancer_id || '';
+
+export const getUnavailabilityPersonName = (block: StaffUnavailability) =>
+  block.staff?.full_name || block.freelancer?.full_name || 'Unknown';
+
+/**
+ * Whether a block covers a date (YYYY-MM-DD)
+ */
+export const coversDate = (block: Pick<StaffUnavailability, 'start_date' | 'end_date'>, date: string) =>
+  block.start_date <= date && date <= block.end_date;
+
+/**
+ * People with a block overlapping the range
+ */
+export const getUnavailablePersonIds = (blocks: StaffUnavailability[], range: DateRange): Set<string> =>
+  new Set(blocks
+    .filter(block => block.start_date <= range.endDate && range.startDate <= block.end_date)
+    .map(getUnavailabilityPersonId));
+
+/**
+ * Approved unavailability overlapping a date range, optionally for one person.
+ * Pending requests never block crewing.
+ */
+export const fetchApprovedUnavailability = async (
+  firmId: string,
+  range: DateRange,
+  personId?: string
+): Promise<StaffUnavailability[]> => {
+  let query = supabase
+    .from('staff_unavailability')
+    .select(UNAVAILABILITY_SELECT)
+    .eq('firm_id', firmId)
+    .eq('approved', true)
+    .lte('start_date', range.endDate)
+    .gte('end_date', range.startDate);
+
+  if (personId) {
+    query = query.or(`staff_id.eq.${personId},freelancer_id.eq.${personId}`);
+  }
+
+  const { data, error } = await query.order('start_date');
+
+  if (error) {
+    console.error('Error fetching staff unavailability:', error);
+    return [];
+  }
+
+  return (data || []) as StaffUnavailability[];
+};
+
+/**
+ * All blocks for the firm (admins) or for one staff member, newest first
+ */
+export const fetchUnavailability = async (firmId: string, staffId?: string): Promise<StaffUnavailability[]> => {
+  let query = supabase
+    .from('staff_unavailability')
+    .select(UNAVAILABILITY_SELECT)
+    .eq('firm_id', firmId);
+
+  if (staffId) {
+    query = query.eq('staff_id', staffId);
+  }
+
+  const { data, error } = await query.order('start_date', { ascending: false });
+  if (error) throw error;
+  return (data || []) as StaffUnavailability[];
+};
+
+export interface UnavailabilityRequest {
+  firmId: string;
+  staffId?: string | null;
+  freelancerId?: string | null;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+  requestedBy: string;
+  // Admins can record approved blocks directly
+  approved?: boolean;
+}
+
+export const requestUnavailability = async (request: UnavailabilityRequest) => {
+  if (request.endDate < request.startDate) {
+    throw new Error('End date cannot be before the start date');
+  }
+
+  const { error } = await supabase
+    .from('staff_unavailability')
+    .insert({
+      firm_id: request.firmId,
+      staff_id: request.staffId || null,
+      freelancer_id: request.freelancerId || null,
+      start_date: request.startDate,
+      end_date: request.endDate,
+      reason: request.reason?.trim() || null,
+      requested_by: request.requestedBy,
+      approved: request.approved ?? false,
+      approved_by: request.approved ? request.requestedBy : null,
+      approved_at: request.approved ? new Date().toISOString() : null
+    });
+
+  if (error) throw error;
+};
+
+export const approveUnavailability = async (id: string, approvedBy: string) => {
+  const { error } = await supabase
+    .from('staff_unavailability')
+    .update({ approved: true, approved_by: approvedBy, approved_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Rejecting a request, withdrawing one, and deleting an approved block all remove the row
+ */
+export const deleteUnavailability = async (id: string) => {
+  const { error } = await supabase
+    .from('staff_unavailability')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export interface AvailabilityRecipient {
+  id: string;
+  is_freelancer: boolean;
+  role: string;
+}
+
+/**
+ * Create the pending response rows for an availability check. The returned request id
+ * goes out with the WhatsApp message, and replies are recorded against these rows by hand.
+ */
+export const createAvailabilityRequest = async (
+  firmId: string,
+  createdBy: string | undefined,
+  recipients: AvailabilityRecipient[],
+  dates: string[],
+  eventType?: string
+): Promise<string> => {
+  const requestId = crypto.randomUUID();
+  const rows = recipients.flatMap(recipient => dates.map(date => ({
+    firm_id: firmId,
+    request_id: requestId,
+    staff_id: recipient.is_freelancer ? null : recipient.id,
+    freelancer_id: recipient.is_freelancer ? recipient.id : null,
+    available_date: date,
+    role: recipient.role,
+    event_type: eventType || null,
+    created_by: createdBy || null
+  })));
+
+  const { error } = await supabase.from('staff_availability_responses').insert(rows);
+  if (error) throw error;
+
+  return requestId;
+};
+
+export const fetchAvailabilityResponses = async (firmId: string, limit = 500): Promise<StaffAvailabilityResponse[]> => {
+  const { data, error } = await supabase
+    .from('staff_availability_responses')
+    .select(`
+      *,
+      staff:profiles!staff_availability_responses_staff_id_fkey(full_name),
+      freelancer:freelancers(full_name)
+    `)
+    .eq('firm_id', firmId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as StaffAvailabilityResponse[];
+};
+
+export const recordAvailabilityResponse = async (
+  requestId: string,
+  personId: string,
+  isAvailable: boolean,
+  dates?: string[],
+  source: AvailabilityResponseSource = 'manual',
+  replyText?: string
+) => {
+  const { error } = await supabase.rpc('record_availability_response', {
+    p_request_id: requestId,
+    p_person_id: personId,
+    p_is_available: isAvailable,
+    p_dates: dates,
+    p_source: source,
+    p_reply_text: replyText
+  });
+
+  if (error) throw error;
+};
+
+export interface AvailabilityRequestSummary {
+  requestId: string;
+  role: string;
+  eventType?: string | null;
+  createdAt: string;
+  dates: string[];
+  people: Array<{
+    personId: string;
+    name: string;
+    answers: Record<string, boolean | null>;
+  }>;
+}
+
+/**
+ * Group response rows into one matrix (people x dates) per availability check
+ */
+export const groupAvailabilityResponses = (responses: StaffAvailabilityResponse[]): AvailabilityRequestSummary[] => {
+  const requests = new Map<string, AvailabilityRequestSummary>();
+
+  for (const response of responses) {
+    let request = requests.get(response.request_id);
+    if (!request) {
+      request = {
+        requestId: response.request_id,
+        role: response.role,
+        eventType: response.event_type,
+        createdAt: response.created_at,
+        dates: [],
+        people: []
+      };
+      requests.set(response.request_id, request);
+    }
+
+    if (!request.dates.includes(response.available_date)) {
+      request.dates.push(response.available_date);
+    }
+
+    const personId = response.staff_id || response.freelancer_id || '';
+    let person = request.people.find(p => p.personId === personId);
+    if (!person) {
+      person = { personId, name: response.staff?.full_name || response.freelancer?.full_name || 'Unknown', answers: {} };
+      request.people.push(person);
+    }
+    person.answers[response.available_date] = response.is_available;
+  }
+
+  return Array.from(requests.values()).map(request => ({
+    ...request,
+    dates: request.dates.sort(),
+    people: request.people.sort((a, b) => a.name.localeCompare(b.name))
+  }));
+};
+
+const YES_WORDS = ['yes', 'y', 'available', 'ok', 'okay', 'haan', 'ha', 'confirmed'];
+const NO_WORDS = ['no', 'n', 'not available', 'unavailable', 'busy', 'nahi', 'na', 'sorry'];
+
+const readAnswer = (text: string): boolean | null => {
+  const normalized = ` ${text.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ')} `;
+  // "not available" contains "available", so look for a no first
+  if (NO_WORDS.some(word => normalized.includes(` ${word} `))) return false;
+  if (YES_WORDS.some(word => normalized.includes(` ${word} `))) return true;
+  return null;
+};
+
+// 15/12, 15-12-2024, 15.12.24 (day first) or 2024-12-15
+const DATE_PATTERN = /(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?/;
+
+const matchDate = (segment: string, dates: string[]): string | undefined => {
+  const match = segment.match(DATE_PATTERN);
+  if (!match) return undefined;
+
+  const [day, month] = match[1]
+    ? [Number(match[3]), Number(match[2])]
+    : [Number(match[4]), Number(match[5])];
+
+  return dates.find(date => {
+    const [, dateMonth, dateDay] = date.split('-').map(Number);
+    return dateDay === day && dateMonth === month;
+  });
+};
+
+/**
+ * Read a WhatsApp reply to an availability_check message as yes/no answers per date.
+ * "Yes" answers every date; "15/12 yes, 16/12 no" answers dates one by one, and a bare
+ * yes/no line covers the dates not named elsewhere. Dates without an answer are left out.
+ */
+export const parseAvailabilityReply = (reply: string, dates: string[]): Record<string, boolean> => {
+  const answers: Record<string, boolean> = {};
+  let fallback: boolean | null = null;
+
+  for (const segment of reply.split(/[\n,;]+/)) {
+    const answer = readAnswer(segment);
+    if (answer === null) continue;
+
+    const date = matchDate(segment, dates);
+    if (date) {
+      answers[date] = answer;
+    } else if (fallback === null) {
+      fallback = answer;
+    }
+  }
+
+  if (fallback !== null) {
+    for (const date of dates) {
+      if (!(date in answers)) answers[date] = fallback;
+    }
+  }
+
+  return answers;
+};
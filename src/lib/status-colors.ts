@@ -59,6 +59,53 @@ export const getStatusColors = (status: string, type: 'text' | 'background' | 'b
       background: 'bg-status-pending-bg',
       border: 'border-status-pending-border'
     },
+    // Event lifecycle status
+    'quotation': {
+      text: 'text-status-draft',
+      background: 'bg-status-draft-bg',
+      border: 'border-status-draft-border'
+    },
+    'shooting': {
+      text: 'text-status-in-progress',
+      background: 'bg-status-in-progress-bg',
+      border: 'border-status-in-progress-border'
+    },
+    'editing': {
+      text: 'text-status-active',
+      background: 'bg-status-active-bg',
+      border: 'border-status-active-border'
+    },
+    'delivered': {
+      text: 'text-status-completed',
+      background: 'bg-status-completed-bg',
+      border: 'border-status-completed-border'
+    },
+    // Quotation pipeline status ('draft' and 'expired' above)
+    'sent': {
+      text: 'text-status-pending',
+      background: 'bg-status-pending-bg',
+      border: 'border-status-pending-border'
+    },
+    'viewed': {
+      text: 'text-status-in-progress',
+      background: 'bg-status-in-progress-bg',
+      border: 'border-status-in-progress-border'
+    },
+    'negotiating': {
+      text: 'text-status-active',
+      background: 'bg-status-active-bg',
+      border: 'border-status-active-border'
+    },
+    'accepted': {
+      text: 'text-status-confirmed',
+      background: 'bg-status-confirmed-bg',
+      border: 'border-status-confirmed-border'
+    },
+    'rejected': {
+      text: 'text-status-cancelled',
+      background: 'bg-status-cancelled-bg',
+      border: 'border-status-cancelled-border'
+    },
     // Subscription Status
     'trial': {
       text: 'text-blue-600',
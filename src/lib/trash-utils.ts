@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TrashItem, TrashItemType } from '@/types/studio';
+
+export const TRASH_ITEM_LABELS: Record<TrashItemType, string> = {
+  events: 'Event',
+  clients: 'Client',
+  quotations: 'Quotation',
+  tasks: 'Task',
+  expenses: 'Expense',
+  payments: 'Payment'
+};
+
+/**
+ * Soft-delete a row into the firm trash. Events take their payments, tasks and expenses
+ * with them. Returns the number of rows moved.
+ */
+export const moveToTrash = async (itemType: TrashItemType, itemId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('trash_item', {
+    p_item_type: itemType,
+    p_item_id: itemId
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchTrashItems = async (firmId: string): Promise<TrashItem[]> => {
+  const { data, error } = await supabase.rpc('get_trash_items', { p_firm_id: firmId });
+  if (error) throw error;
+  return (data || []) as TrashItem[];
+};
+
+/**
+ * Re-create Google Sheets rows (and the calendar entry for events) for restored items.
+ * Deleting removed them, so restored rows sync as new.
+ */
+const syncRestoredItems = async (rows: Array<{ item_type: string; item_id: string }>, firmId: string) => {
+  const { syncEvent, syncClient, syncTask, syncExpense, syncPayment } = await import('@/services/syncCoordinator');
+
+  for (const row of rows) {
+    switch (row.item_type as TrashItemType) {
+      case 'events':
+        supabase.functions.invoke('sync-event-to-calendar', { body: { eventId: row.item_id } }).catch(error => {
+          console.error('Calendar sync failed for restored event:', row.item_id, error);
+        });
+        syncEvent(row.item_id, firmId, 'create', 'trash-restore');
+        break;
+      case 'clients':
+        syncClient(row.item_id, firmId, 'create');
+        break;
+      case 'tasks':
+        syncTask(row.item_id, firmId, 'create');
+        break;
+      case 'expenses':
+        syncExpense(row.item_id, firmId, 'create');
+        break;
+      case 'payments':
+        syncPayment(row.item_id, firmId, 'create');
+        break;
+      // Quotations are not mirrored to Sheets
+    }
+  }
+};
+
+/**
+ * Restore an item (and anything trashed along with it). Returns the number of rows restored.
+ */
+export const restoreTrashItem = async (item: TrashItem, firmId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('restore_trash_item', {
+    p_item_type: item.item_type,
+    p_item_id: item.item_id
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  syncRestoredItems(rows, firmId).catch(syncError => {
+    console.error('Sync after restore failed:', syncError);
+  });
+
+  return rows.length;
+};
+
+/**
+ * Permanently delete a trashed item. Purging an event removes its crew, rates and
+ * salary payments as well.
+ */
+export const purgeTrashItem = async (item: TrashItem): Promise<void> => {
+  const { error } = await supabase.rpc('purge_trash_item', {
+    p_item_type: item.item_type,
+    p_item_id: item.item_id
+  });
+
+  if (error) throw error;
+};
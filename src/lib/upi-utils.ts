@@ -0,0 +1,52 @@
+import QRCode from 'qrcode';
+import { Event } from '@/types/studio';
+import { calculateEventBalance } from '@/lib/payment-calculator';
+
+export interface UpiPayment {
+  link: string;
+  amount: number;
+  note: string;
+}
+
+// UPI apps cut transaction notes short; build_upi_link trims to the same length
+const MAX_NOTE_LENGTH = 80;
+
+/**
+ * UPI intent link, e.g. upi://pay?pa=studio@okaxis&pn=Studio&am=25000.00&cu=INR&tn=Sharma%20Wedding.
+ * build_upi_link in the database, which payment reminders use, builds the same link: payee
+ * and note percent-encoded as encodeURIComponent does, and the note cut to the same number
+ * of characters.
+ */
+export const buildUpiLink = (upiId: string | null | undefined, payeeName: string, amount?: number, note?: string): string | null => {
+  const payeeAddress = upiId?.trim();
+  if (!payeeAddress) return null;
+
+  let link = `upi://pay?pa=${payeeAddress}&pn=${encodeURIComponent(payeeName || '')}`;
+  if (amount && amount > 0) link += `&am=${amount.toFixed(2)}`;
+  link += '&cu=INR';
+  // Counted in characters rather than UTF-16 units, as left() does in the database
+  if (note) link += `&tn=${encodeURIComponent(Array.from(note).slice(0, MAX_NOTE_LENGTH).join(''))}`;
+  return link;
+};
+
+/**
+ * UPI payment for an event's outstanding balance, with the event named in the note.
+ * Nothing when the firm has no UPI ID or the event is settled.
+ */
+export const getEventUpiPayment = (
+  event: Event,
+  firmData?: { upi_id?: string | null; name?: string } | null
+): UpiPayment | null => {
+  const amount = calculateEventBalance(event);
+  if (amount <= 0) return null;
+
+  const note = event.title;
+  const link = buildUpiLink(firmData?.upi_id, firmData?.name || '', amount, note);
+  return link ? { link, amount, note } : null;
+};
+
+/**
+ * PNG data URL of a scannable QR code for a UPI link
+ */
+export const generateUpiQrDataUrl = (link: string): Promise<string> =>
+  QRCode.toDataURL(link, { errorCorrectionLevel: 'M', margin: 1, width: 320 });
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { UpiPayment } from '@/lib/upi-utils';
 
 interface WhatsAppShareData {
   clientName: string;
@@ -13,6 +14,8 @@ interface WhatsAppShareData {
     contact_phone?: string;
     contact_email?: string;
   };
+  // Pay-now link added below invoice messages
+  upiPayment?: UpiPayment | null;
 }
 
 export const shareToClientWhatsApp = async (data: WhatsAppShareData) => {
@@ -54,6 +57,10 @@ export const shareToClientWhatsApp = async (data: WhatsAppShareData) => {
       template = sessionResponse.data.notification_templates[templateKey];
     }
 
+    const paymentLines = data.documentType === 'invoice' && data.upiPayment
+      ? `*Balance Due:* ₹${data.upiPayment.amount.toLocaleString('en-IN')}\n*Pay via UPI:* ${data.upiPayment.link}\n\n`
+      : '';
+
     // Build contact info only with available data
     const contactParts = [];
     if (contactPhone) contactParts.push(`Contact: ${contactPhone}`);
@@ -78,7 +85,7 @@ ${replacedGreeting}
 
 ${replacedContent}
 
-${replacedFooter ? `${replacedFooter}\n\n` : ''}Thank you for choosing *${firmName}*
+${paymentLines}${replacedFooter ? `${replacedFooter}\n\n` : ''}Thank you for choosing *${firmName}*
 _${firmTagline}_
 ${contactInfo}`;
     } else {
@@ -90,7 +97,7 @@ Dear *${data.clientName}*,
 
 Please find your ${data.documentType} document for ${data.eventType} event attached.
 
-Thank you for choosing *${firmName}*
+${paymentLines}Thank you for choosing *${firmName}*
 _${firmTagline}_
 ${contactInfo}`;
     }
@@ -148,6 +155,33 @@ ${contactInfo}`;
   }
 };
 
+/**
+ * Send a plain text WhatsApp message from the firm's connected WhatsApp session
+ */
+export const sendWhatsAppText = async (data: { firmId: string; phone: string; message: string }) => {
+  const { data: backendUrlData, error: backendError } = await supabase.functions.invoke('get-backend-url');
+  if (backendError || !backendUrlData?.url) {
+    throw new Error('WhatsApp service is currently unavailable. Please try again later or contact support.');
+  }
+
+  const response = await fetch(`${backendUrlData.url}/api/whatsapp/send-custom-test`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      firmId: data.firmId,
+      message: data.message,
+      phone: formatPhoneNumber(data.phone)
+    }),
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || 'Failed to send WhatsApp message');
+  }
+};
+
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -161,7 +195,7 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-const formatPhoneNumber = (phone: string): string => {
+export const formatPhoneNumber = (phone: string): string => {
   // Remove all non-numeric characters
   let cleaned = phone.replace(/\D/g, '');
   
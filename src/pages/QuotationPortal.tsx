@@ -0,0 +1,10 @@
+import { useParams } from 'react-router-dom';
+import QuotationPortalView from '@/components/quotations/QuotationPortalView';
+
+const QuotationPortal = () => {
+  const { token } = useParams<{ token: string }>();
+
+  return <QuotationPortalView token={token || ''} />;
+};
+
+export default QuotationPortal;
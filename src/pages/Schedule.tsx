@@ -0,0 +1,15 @@
+import FirmRequiredWrapper from '@/components/layout/FirmRequiredWrapper';
+import TopNavbar from '@/components/layout/TopNavbar';
+import CrewScheduleManagement from '@/components/schedule/CrewScheduleManagement';
+
+const Schedule = () => {
+  return (
+    <TopNavbar>
+      <FirmRequiredWrapper>
+        <CrewScheduleManagement />
+      </FirmRequiredWrapper>
+    </TopNavbar>
+  );
+};
+
+export default Schedule;
@@ -0,0 +1,15 @@
+import FirmRequiredWrapper from '@/components/layout/FirmRequiredWrapper';
+import TopNavbar from '@/components/layout/TopNavbar';
+import TrashManagement from '@/components/trash/TrashManagement';
+
+const Trash = () => {
+  return (
+    <TopNavbar>
+      <FirmRequiredWrapper>
+        <TrashManagement />
+      </FirmRequiredWrapper>
+    </TopNavbar>
+  );
+};
+
+export default Trash;
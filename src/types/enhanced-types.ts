@@ -19,6 +19,7 @@ export interface EventStaffAssignment {
   role: string;
   day_number: number;
   day_date?: string;
+  session_id?: string | null;
   staff_type?: string;
   staff?: StaffMember;
   freelancer?: StaffMember;
@@ -6,11 +6,16 @@ import {
   QuotationDetails 
 } from './enhanced-types';
 
-export type EventType = 'Ring-Ceremony' | 'Pre-Wedding' | 'Wedding' | 'Maternity Photography' | 'Others';
+export type BuiltInEventType = 'Ring-Ceremony' | 'Pre-Wedding' | 'Wedding' | 'Maternity Photography' | 'Others';
+// Firms add their own types through the event type catalogue (firm_event_types)
+export type EventType = BuiltInEventType | (string & Record<never, never>);
+export type EventLifecycleStatus = 'Quotation' | 'Confirmed' | 'Shooting' | 'Editing' | 'Delivered' | 'Cancelled';
 export type TaskStatus = 'Waiting for Response' | 'Accepted' | 'Declined' | 'In Progress' | 'Completed' | 'Under Review' | 'On Hold' | 'Reported';
 export type TaskType = 'Photo Editing' | 'Video Editing' | 'Other';
 export type TaskPriority = 'Low' | 'Medium' | 'High' | 'Urgent';
-export type PaymentMethod = 'Cash' | 'Digital';
+// 'Digital' predates the split into UPI, bank transfers and cards; 'Other' is a firm-defined method
+export type PaymentMethod = 'Cash' | 'UPI' | 'NEFT' | 'IMPS' | 'RTGS' | 'Cheque' | 'Card' | 'Digital' | 'Other';
+export type ChequeStatus = 'uncleared' | 'cleared' | 'bounced';
 export type PaymentStatus = 'Pending' | 'Paid' | 'Partial' | 'Overdue';
 export type ExpenseCategory = 'Equipment' | 'Travel' | 'Accommodation' | 'Food' | 'Marketing' | 'Software' | 'Maintenance' | 'Salary' | 'Other';
 
@@ -23,6 +28,9 @@ export interface Client {
   phone: string;
   address?: string;
   notes?: string;
+  gstin?: string | null;
+  state_code?: string | null; // GST state code, the default place of supply
+  payment_reminders_opt_out?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -34,8 +42,10 @@ export interface Event {
   title: string;
   event_type: EventType;
   event_date: string;
+  event_end_date?: string | null;
   venue?: string;
   description?: string;
+  status?: EventLifecycleStatus;
   total_amount: number;
   advance_amount: number;
   balance_amount: number;
@@ -45,6 +55,13 @@ export interface Event {
   storage_disk?: string;
   storage_size?: number;
   calendar_event_id?: string;
+  series_id?: string | null;
+  series_exception?: boolean;
+  tax_pricing?: string | null; // TaxPricing, copied from the quotation
+  place_of_supply?: string | null;
+  tax_amount?: number;
+  tax_breakdown?: unknown; // TaxBreakdown JSON
+  invoice_number?: string | null; // Given on first invoice download, then reused
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -57,9 +74,153 @@ export interface Event {
   tasks?: TaskFromDB[];
   payments?: Payment[];
   event_closing_balances?: EventClosingBalance[];
+  event_payment_milestones?: EventPaymentMilestone[];
+  event_refunds?: EventRefund[];
+  client_receipt_allocations?: ClientReceiptAllocation[];
 
   // Event staff assignments
   event_staff_assignments?: EventStaffAssignment[];
+  event_sessions?: EventSession[];
+}
+
+export interface EventSession {
+  id: string;
+  event_id: string;
+  firm_id: string;
+  name: string;
+  session_date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  venue?: string | null;
+  notes?: string | null;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface EventStatusHistoryEntry {
+  id: string;
+  event_id: string;
+  firm_id: string;
+  from_status: EventLifecycleStatus | null;
+  to_status: EventLifecycleStatus;
+  notes?: string | null;
+  changed_by?: string | null;
+  changed_at: string;
+  // Relations
+  changed_by_profile?: {
+    full_name: string;
+  } | null;
+}
+
+export interface EventTypeCrewTemplate {
+  photographers?: number;
+  cinematographers?: number;
+  drone?: number;
+  sameDayEditors?: number;
+}
+
+export interface EventTypeRoleRates {
+  photographer?: number;
+  cinematographer?: number;
+  drone?: number;
+  editor?: number;
+}
+
+export interface FirmEventType {
+  id: string;
+  firm_id: string;
+  name: string;
+  color: string;
+  default_crew: EventTypeCrewTemplate;
+  default_rates: EventTypeRoleRates;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Payment methods a firm adds on top of the built-in ones (firm_payment_methods)
+export interface FirmPaymentMethod {
+  id: string;
+  firm_id: string;
+  name: string;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Numbered documents, each with its own series (firm_document_series)
+export type DocumentType = 'invoice' | 'receipt' | 'credit_note' | 'quotation';
+
+export interface FirmDocumentSeries {
+  id: string;
+  firm_id: string;
+  document_type: DocumentType;
+  prefix: string;
+  padding: number;
+  reset_financial_year: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EventTemplateCrewSlot {
+  day_number: number;
+  role: string;
+  staff_id?: string | null;
+  freelancer_id?: string | null;
+  rate?: number;
+  quantity?: number;
+}
+
+export interface EventTemplateTask {
+  title: string;
+  description?: string;
+  task_type: TaskType;
+  priority: TaskPriority;
+  amount?: number | null;
+  // Due date relative to the occurrence date
+  due_offset_days?: number | null;
+  assigned_to?: string | null;
+  freelancer_id?: string | null;
+}
+
+export interface EventTemplate {
+  id: string;
+  firm_id: string;
+  name: string;
+  event_type: EventType;
+  venue?: string | null;
+  description?: string | null;
+  total_days: number;
+  total_amount: number;
+  // Call time on each day, e.g. '10:00:00'; crew clashes are checked over the whole day without it
+  start_time?: string | null;
+  end_time?: string | null;
+  crew: EventTemplateCrewSlot[];
+  tasks: EventTemplateTask[];
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'custom';
+
+export interface EventSeries {
+  id: string;
+  firm_id: string;
+  template_id?: string | null;
+  client_id?: string | null;
+  title: string;
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  starts_on: string;
+  ends_on: string;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface EventClosingBalance {
@@ -75,8 +236,106 @@ export interface EventClosingBalance {
   created_by?: string;
 }
 
+export interface EventPaymentMilestone {
+  id: string;
+  event_id: string;
+  firm_id: string;
+  label: string;
+  percentage: number | null;
+  amount: number;
+  due_date: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// One payment from a client, split across several of their events
+export interface ClientReceipt {
+  id: string;
+  firm_id: string;
+  client_id: string;
+  receipt_number: string;
+  amount: number;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  custom_method: string | null;
+  reference_number: string | null;
+  cheque_number: string | null;
+  cheque_bank: string | null;
+  cheque_status: ChequeStatus | null;
+  cheque_cleared_on: string | null;
+  bank_statement_line_id?: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Relations
+  client?: Client;
+  client_receipt_allocations?: ClientReceiptAllocation[];
+}
+
+export interface ClientReceiptAllocation {
+  id: string;
+  receipt_id: string;
+  event_id: string;
+  firm_id: string;
+  amount: number;
+  created_at: string;
+  // Relations
+  receipt?: Pick<ClientReceipt, 'payment_method' | 'custom_method' | 'cheque_number' | 'cheque_bank' | 'cheque_status' | 'receipt_number' | 'payment_date'> | null;
+  event?: Event;
+}
+
+export type RefundKind = 'refund' | 'cancellation';
+
+// Money returned to a client, documented by a credit note
+export interface EventRefund {
+  id: string;
+  event_id: string;
+  firm_id: string;
+  payment_id: string | null;
+  credit_note_number: string;
+  kind: RefundKind;
+  amount: number;
+  refund_date: string;
+  refund_method: PaymentMethod;
+  reference_number: string | null;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Cancelling at least days_before days ahead of the event keeps retention_percent of the total
+export interface CancellationPolicyTier {
+  days_before: number;
+  retention_percent: number;
+}
+
+export type PaymentReminderStatus = 'pending' | 'sending' | 'sent' | 'skipped' | 'failed';
+
+// A WhatsApp reminder for money due on an event
+export interface PaymentReminder {
+  id: string;
+  event_id: string;
+  firm_id: string | null;
+  due_date: string;
+  attempt: number;
+  amount_due: number;
+  balance: number;
+  scheduled_for: string;
+  status: PaymentReminderStatus;
+  phone: string;
+  message: string;
+  claimed_at: string | null;
+  sent_at: string | null;
+  error: string | null;
+  created_at: string;
+}
+
 export interface Quotation {
   id: string;
+  quotation_number?: string | null;
   title: string;
   client_id: string | null;
   client?: Client;
@@ -95,6 +354,223 @@ export interface Quotation {
   discount_type?: string | null;
   discount_value?: number | null;
   discount_amount?: number | null;
+  discount_rules?: unknown; // DiscountRule[] JSON, applied in order
+  current_revision?: number;
+  revised_at?: string;
+  client_response?: string | null; // QuotationClientResponse, set from the client portal
+  client_responded_at?: string | null;
+  status?: string; // QuotationStatus
+  status_changed_at?: string;
+  sent_at?: string | null;
+  viewed_at?: string | null;
+  tax_pricing?: string | null; // TaxPricing; null when no GST is charged
+  place_of_supply?: string | null;
+  tax_amount?: number;
+  tax_breakdown?: unknown; // TaxBreakdown JSON
+}
+
+// Quotation discounts, applied in order to the running total of their scope
+export type DiscountRuleType = 'percentage' | 'fixed' | 'round_off';
+export type DiscountRuleScope = 'all' | 'coverage' | 'post_production' | 'addons' | 'line';
+
+export interface DiscountRule {
+  id: string;
+  type: DiscountRuleType;
+  scope: DiscountRuleScope;
+  lineKey?: string | null; // QuotationLine key when scope is 'line'
+  value: number; // percent, rupees, or the round-off step (100 / 1000)
+  roundMode?: 'down' | 'nearest'; // round_off only
+  label?: string | null;
+}
+
+export interface DiscountStep {
+  ruleId: string;
+  label: string;
+  amount: number; // negative when a round-off rounds up
+  totalAfter: number;
+}
+
+// Sales pipeline position of a quotation
+export type QuotationStatus = 'Draft' | 'Sent' | 'Viewed' | 'Negotiating' | 'Accepted' | 'Rejected' | 'Expired';
+
+// Firm product catalogue used by the quotation builder
+export type CatalogueItemKind = 'addon' | 'post_production';
+export type TaxClass = 'gst_18' | 'gst_12' | 'gst_5' | 'exempt';
+
+// GST: whether quoted prices exclude or already include tax
+export type TaxPricing = 'exclusive' | 'inclusive';
+
+export interface FirmTaxSettings {
+  gstin: string | null;
+  gst_state_code: string | null;
+  tax_pricing_default: TaxPricing;
+  default_sac_code: string;
+}
+
+export interface TaxBreakdownLine {
+  name: string;
+  hsnSac: string;
+  taxClass: TaxClass;
+  rate: number;
+  amount: number; // as priced, before discount
+  discount: number;
+  taxableValue: number;
+  tax: number;
+}
+
+export interface TaxRateSummary {
+  hsnSac: string;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface TaxBreakdown {
+  pricing: TaxPricing;
+  supplierStateCode: string | null;
+  placeOfSupply: string | null;
+  interState: boolean;
+  lines: TaxBreakdownLine[];
+  rates: TaxRateSummary[];
+  subtotal: number;
+  discount: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number; // payable by the client
+}
+
+export interface CatalogueCrewImplication {
+  role: string;
+  quantity: number;
+}
+
+export interface CatalogueItem {
+  id: string;
+  firm_id: string;
+  kind: CatalogueItemKind;
+  name: string;
+  description: string | null;
+  unit: string | null;
+  unit_price: number;
+  tax_class: TaxClass;
+  hsn_sac: string | null;
+  crew: CatalogueCrewImplication[];
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuotationPackageDay {
+  name: string;
+  photographers: number;
+  cinematographers: number;
+  drone: number;
+}
+
+export interface QuotationPackageItem {
+  catalogue_item_id: string;
+  quantity: number;
+}
+
+export interface QuotationPackage {
+  id: string;
+  firm_id: string;
+  name: string;
+  description: string | null;
+  event_type: string | null;
+  days: QuotationPackageDay[];
+  same_day_editing: boolean;
+  post_production_item_id: string | null;
+  deliverables: string[];
+  items: QuotationPackageItem[];
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Immutable snapshot written on every quotation save that changes what is offered
+export interface QuotationRevision {
+  id: string;
+  quotation_id: string;
+  firm_id: string | null;
+  revision_number: number;
+  title: string;
+  event_type: string;
+  event_date: string;
+  venue: string | null;
+  description: string | null;
+  valid_until: string | null;
+  amount: number;
+  discount_type: string | null;
+  discount_value: number | null;
+  discount_amount: number | null;
+  tax_pricing: string | null;
+  place_of_supply: string | null;
+  tax_amount: number;
+  tax_breakdown: unknown;
+  discount_rules: unknown;
+  quotation_details: unknown;
+  note: string | null;
+  created_by: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+// Client answers given through a shared quotation link
+export type QuotationClientResponse = 'accepted' | 'rejected' | 'changes_requested';
+
+export interface QuotationShareLink {
+  id: string;
+  quotation_id: string;
+  firm_id: string | null;
+  token: string;
+  auto_convert: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type QuotationFollowUpStatus = 'pending' | 'sending' | 'sent' | 'skipped' | 'failed';
+
+export interface QuotationFollowUp {
+  id: string;
+  quotation_id: string;
+  firm_id: string | null;
+  step: number;
+  cycle_started_at: string;
+  scheduled_for: string;
+  status: QuotationFollowUpStatus;
+  phone: string;
+  message: string;
+  claimed_at: string | null;
+  sent_at: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface QuotationResponse {
+  id: string;
+  quotation_id: string;
+  share_link_id: string | null;
+  firm_id: string | null;
+  response: QuotationClientResponse;
+  comment: string | null;
+  responder_name: string | null;
+  revision_number: number | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  converted_event_id: string | null;
+  created_at: string;
 }
 
 // Database representation of Task (with Json types and legacy support)
@@ -190,8 +666,14 @@ export interface Payment {
   event_id: string;
   amount: number;
   payment_method: PaymentMethod;
+  custom_method?: string | null;
   payment_date: string;
   reference_number?: string;
+  cheque_number?: string | null;
+  cheque_bank?: string | null;
+  cheque_status?: ChequeStatus | null;
+  cheque_cleared_on?: string | null;
+  bank_statement_line_id?: string | null; // Set once reconciled with a bank statement
   notes?: string;
   created_by?: string;
   created_at: string;
@@ -209,6 +691,7 @@ export interface Expense {
   description: string;
   expense_date: string;
   receipt_url?: string;
+  bank_statement_line_id?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -225,6 +708,7 @@ export interface StaffPayment {
   payment_date: string;
   payment_method: PaymentMethod;
   description?: string;
+  bank_statement_line_id?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -233,6 +717,95 @@ export interface StaffPayment {
   event?: Event;
 }
 
+// Tables whose records a bank statement line can be matched to
+export type ReconcilableTable = 'payments' | 'client_receipts' | 'expenses' | 'staff_payments' | 'freelancer_payments';
+export type BankStatementDirection = 'credit' | 'debit';
+
+export interface BankStatementImport {
+  id: string;
+  firm_id: string;
+  file_name: string;
+  bank_format: string;
+  period_from: string | null;
+  period_to: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface BankStatementLine {
+  id: string;
+  import_id: string;
+  firm_id: string;
+  line_date: string;
+  description: string;
+  reference: string | null;
+  direction: BankStatementDirection;
+  amount: number;
+  balance: number | null;
+  fingerprint: string;
+  ignored: boolean;
+  created_at: string;
+}
+
+export interface StaffUnavailability {
+  id: string;
+  firm_id: string;
+  staff_id?: string | null;
+  freelancer_id?: string | null;
+  start_date: string;
+  end_date: string;
+  reason?: string | null;
+  approved: boolean;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  requested_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Relations
+  staff?: { full_name: string } | null;
+  freelancer?: { full_name: string } | null;
+}
+
+export type AvailabilityResponseSource = 'whatsapp' | 'manual';
+
+export interface StaffAvailabilityResponse {
+  id: string;
+  firm_id: string;
+  request_id: string;
+  staff_id?: string | null;
+  freelancer_id?: string | null;
+  available_date: string;
+  role: string;
+  event_type?: string | null;
+  // null until the person replies
+  is_available: boolean | null;
+  source?: AvailabilityResponseSource | null;
+  reply_text?: string | null;
+  responded_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Relations
+  staff?: { full_name: string } | null;
+  freelancer?: { full_name: string } | null;
+}
+
+// Tables that soft-delete into the firm trash (table names, as the trash RPCs take them)
+export type TrashItemType = 'events' | 'clients' | 'quotations' | 'tasks' | 'expenses' | 'payments';
+
+export interface TrashItem {
+  item_type: TrashItemType;
+  item_id: string;
+  label: string;
+  detail?: string | null;
+  amount?: number | null;
+  // Set for payments, tasks and expenses that belong to an event
+  event_id?: string | null;
+  deleted_at: string;
+  deleted_by_name?: string | null;
+  purge_after: string;
+}
+
 
 // Re-export auth types inline to remove file dependency - matches database enum exactly
 export type UserRole = 'Admin' | 'Photographer' | 'Cinematographer' | 'Editor' | 'Drone Pilot' | 'Other';
@@ -335,8 +908,11 @@ export interface TaskFormData {
 export interface PaymentFormData {
   amount: number;
   payment_method: PaymentMethod;
+  custom_method?: string | null;
   payment_date: string;
   reference_number?: string;
+  cheque_number?: string;
+  cheque_bank?: string;
   notes?: string;
 }
 
@@ -348,7 +924,9 @@ export interface ExpenseFormData {
   event_id?: string;
 }
 
-// Enhanced event type with color mapping
+export const BUILT_IN_EVENT_TYPES: BuiltInEventType[] = ['Ring-Ceremony', 'Pre-Wedding', 'Wedding', 'Maternity Photography', 'Others'];
+
+// Enhanced event type with color mapping (built-in types; catalogue types carry their own colour)
 export const EVENT_TYPE_COLORS = {
   'Ring-Ceremony': 'bg-eventTypes-ring-ceremony-bg text-eventTypes-ring-ceremony-color border-eventTypes-ring-ceremony-border',
   'Pre-Wedding': 'bg-eventTypes-pre-wedding-bg text-eventTypes-pre-wedding-color border-eventTypes-pre-wedding-border', 
@@ -0,0 +1,72 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Sends due WhatsApp payment reminders for every firm. Called every 15 minutes by the
+ * send-payment-reminders cron job; claim_due_payment_reminders skips reminders that no longer
+ * apply and rebuilds the rest with the balance as it stands when they are sent.
+ */
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Same rules as formatPhoneNumber in the app: Indian numbers with the 91 prefix
+const formatPhoneNumber = (phone: string) => {
+  let cleaned = phone.replace(/\D/g, '');
+  if (cleaned.startsWith('91') && cleaned.length > 10) cleaned = cleaned.substring(2);
+  if (cleaned.startsWith('0')) cleaned = cleaned.substring(1);
+  return cleaned.length === 10 ? `91${cleaned}` : cleaned;
+};
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  // Nothing is claimed while WhatsApp is unreachable, so reminders wait for the next run
+  const { data: backend, error: backendError } = await supabase.functions.invoke('get-backend-url');
+  if (backendError || !backend?.url) {
+    return jsonResponse({ error: 'WhatsApp service is unavailable' }, 503);
+  }
+
+  const { data: reminders, error } = await supabase.rpc('claim_due_payment_reminders');
+  if (error) {
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  const result = { sent: 0, failed: 0 };
+
+  for (const reminder of reminders ?? []) {
+    try {
+      const response = await fetch(`${backend.url}/api/whatsapp/send-custom-test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          firmId: reminder.firm_id,
+          message: reminder.message,
+          phone: formatPhoneNumber(reminder.phone)
+        })
+      });
+      const sendResult = await response.json().catch(() => null);
+      if (!response.ok || !sendResult?.success) {
+        throw new Error(sendResult?.message || 'Failed to send WhatsApp message');
+      }
+
+      await supabase
+        .from('payment_reminders')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), error: null })
+        .eq('id', reminder.id);
+      result.sent += 1;
+    } catch (sendError) {
+      await supabase
+        .from('payment_reminders')
+        .update({ status: 'failed', error: sendError instanceof Error ? sendError.message : 'Failed to send' })
+        .eq('id', reminder.id);
+      result.failed += 1;
+    }
+  }
+
+  return jsonResponse(result);
+});
@@ -0,0 +1,123 @@
+-- Persisted event lifecycle using the existing event_status enum
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS status public.event_status NOT NULL DEFAULT 'Confirmed';
+
+-- Backfill existing rows from their dates and editing progress
+UPDATE public.events
+SET status = CASE
+  WHEN COALESCE(event_end_date, event_date) < CURRENT_DATE
+       AND COALESCE(photo_editing_status, false)
+       AND COALESCE(video_editing_status, false) THEN 'Delivered'::public.event_status
+  WHEN COALESCE(event_end_date, event_date) < CURRENT_DATE THEN 'Editing'::public.event_status
+  WHEN event_date <= CURRENT_DATE THEN 'Shooting'::public.event_status
+  ELSE 'Confirmed'::public.event_status
+END;
+
+CREATE INDEX IF NOT EXISTS idx_events_firm_status ON public.events (firm_id, status);
+
+CREATE TABLE IF NOT EXISTS public.event_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  from_status public.event_status,
+  to_status public.event_status NOT NULL,
+  notes text,
+  changed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_status_history_event ON public.event_status_history (event_id, changed_at DESC);
+
+ALTER TABLE public.event_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view event status history"
+  ON public.event_status_history FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Firm members can add event status history"
+  ON public.event_status_history FOR INSERT
+  WITH CHECK (public.is_member_or_owner(firm_id) AND public.is_firm_writable(firm_id));
+
+-- Allowed transitions, mirrored in src/lib/event-status-utils.ts
+CREATE OR REPLACE FUNCTION public.is_valid_event_status_transition(
+  p_from public.event_status,
+  p_to public.event_status
+) RETURNS boolean
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'Quotation' THEN p_to IN ('Confirmed', 'Cancelled')
+    WHEN 'Confirmed' THEN p_to IN ('Shooting', 'Cancelled', 'Quotation')
+    WHEN 'Shooting'  THEN p_to IN ('Editing', 'Cancelled', 'Confirmed')
+    WHEN 'Editing'   THEN p_to IN ('Delivered', 'Shooting')
+    WHEN 'Delivered' THEN p_to IN ('Editing')
+    WHEN 'Cancelled' THEN p_to IN ('Confirmed')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_event_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT public.is_valid_event_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid event status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.event_status_history (event_id, firm_id, from_status, to_status, notes, changed_by)
+  VALUES (
+    NEW.id,
+    NEW.firm_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END,
+    NEW.status,
+    NULLIF(current_setting('app.event_status_note', true), ''),
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_track_event_status_change ON public.events;
+CREATE TRIGGER trg_track_event_status_change
+  AFTER INSERT OR UPDATE OF status ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_event_status_change();
+
+-- Status change with an optional note recorded in the history row
+CREATE OR REPLACE FUNCTION public.set_event_status(
+  p_event_id uuid,
+  p_status public.event_status,
+  p_notes text DEFAULT NULL
+) RETURNS public.events
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+BEGIN
+  PERFORM set_config('app.event_status_note', COALESCE(p_notes, ''), true);
+
+  UPDATE public.events
+  SET status = p_status, updated_at = now()
+  WHERE id = p_event_id
+  RETURNING * INTO v_event;
+
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.event_status_note', '', true);
+  RETURN v_event;
+END;
+$$;
@@ -0,0 +1,104 @@
+-- Firm-scoped event type catalogue replacing the hard-coded event_type enum
+
+CREATE TABLE IF NOT EXISTS public.firm_event_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  color text NOT NULL DEFAULT '#64748b',
+  -- { "photographers": 2, "cinematographers": 1, "drone": 0, "sameDayEditors": 0 }
+  default_crew jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- { "photographer": 14000, "cinematographer": 16000, "drone": 12000, "editor": 8000 }
+  default_rates jsonb NOT NULL DEFAULT '{}'::jsonb,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT firm_event_types_firm_name_key UNIQUE (firm_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_firm_event_types_firm ON public.firm_event_types (firm_id, sort_order);
+
+ALTER TABLE public.firm_event_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view event types"
+  ON public.firm_event_types FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage event types"
+  ON public.firm_event_types FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+-- Event types become free text so firms can add their own
+ALTER TABLE public.events ALTER COLUMN event_type TYPE text USING event_type::text;
+ALTER TABLE public.quotations ALTER COLUMN event_type TYPE text USING event_type::text;
+
+CREATE OR REPLACE FUNCTION public.seed_firm_event_types(p_firm_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.firm_event_types (firm_id, name, color, default_crew, sort_order)
+  VALUES
+    (p_firm_id, 'Ring-Ceremony', '#d97706', '{"photographers": 1, "cinematographers": 1}', 1),
+    (p_firm_id, 'Pre-Wedding', '#db2777', '{"photographers": 1, "cinematographers": 1}', 2),
+    (p_firm_id, 'Wedding', '#dc2626', '{"photographers": 2, "cinematographers": 2, "drone": 1}', 3),
+    (p_firm_id, 'Maternity Photography', '#7c3aed', '{"photographers": 1}', 4),
+    (p_firm_id, 'Others', '#64748b', '{"photographers": 1}', 5)
+  ON CONFLICT (firm_id, name) DO NOTHING;
+$$;
+
+SELECT public.seed_firm_event_types(id) FROM public.firms;
+
+-- Keep custom types that are already in use
+INSERT INTO public.firm_event_types (firm_id, name, sort_order)
+SELECT DISTINCT e.firm_id, e.event_type, 100
+FROM public.events e
+WHERE e.firm_id IS NOT NULL
+ON CONFLICT (firm_id, name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.handle_new_firm_event_types()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_firm_event_types(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_seed_firm_event_types ON public.firms;
+CREATE TRIGGER trg_seed_firm_event_types
+  AFTER INSERT ON public.firms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_firm_event_types();
+
+-- Renaming a type carries its events and quotations along
+CREATE OR REPLACE FUNCTION public.cascade_firm_event_type_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.events SET event_type = NEW.name WHERE firm_id = NEW.firm_id AND event_type = OLD.name;
+    UPDATE public.quotations SET event_type = NEW.name WHERE firm_id = NEW.firm_id AND event_type = OLD.name;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_cascade_firm_event_type_rename ON public.firm_event_types;
+CREATE TRIGGER trg_cascade_firm_event_type_rename
+  BEFORE UPDATE ON public.firm_event_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cascade_firm_event_type_rename();
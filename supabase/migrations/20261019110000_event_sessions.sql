@@ -0,0 +1,57 @@
+-- Sessions within an event (haldi, mehendi, sangeet, reception...) each with their own date, call time and venue
+
+CREATE TABLE IF NOT EXISTS public.event_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  session_date date NOT NULL,
+  start_time time,
+  end_time time,
+  venue text,
+  notes text,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- Sessions may run past midnight (end_time < start_time), so only reject zero-length windows
+  CONSTRAINT event_sessions_time_window CHECK (start_time IS NULL OR end_time IS NULL OR start_time <> end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_sessions_event ON public.event_sessions (event_id, session_date, start_time);
+CREATE INDEX IF NOT EXISTS idx_event_sessions_firm_date ON public.event_sessions (firm_id, session_date);
+
+ALTER TABLE public.event_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view event sessions"
+  ON public.event_sessions FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage event sessions"
+  ON public.event_sessions FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.touch_event_sessions_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_event_sessions_updated_at ON public.event_sessions;
+CREATE TRIGGER trg_event_sessions_updated_at
+  BEFORE UPDATE ON public.event_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_event_sessions_updated_at();
+
+-- Crew can be assigned to a specific session; day-level assignments keep session_id NULL
+ALTER TABLE public.event_staff_assignments
+  ADD COLUMN IF NOT EXISTS session_id uuid REFERENCES public.event_sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_event_staff_assignments_session ON public.event_staff_assignments (session_id);
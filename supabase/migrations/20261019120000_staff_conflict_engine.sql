@@ -0,0 +1,118 @@
+-- Time-aware crew conflict detection with travel buffers between venues
+
+ALTER TABLE public.firms
+  ADD COLUMN IF NOT EXISTS crew_travel_buffer_minutes integer NOT NULL DEFAULT 60
+  CHECK (crew_travel_buffer_minutes >= 0 AND crew_travel_buffer_minutes <= 720);
+
+CREATE INDEX IF NOT EXISTS idx_event_staff_assignments_day_date ON public.event_staff_assignments (day_date);
+CREATE INDEX IF NOT EXISTS idx_event_sessions_date ON public.event_sessions (session_date);
+
+-- Conflicting assignments for a candidate window (wall-clock time, no time zone).
+-- Assignments without session times occupy their whole day. Travel buffers only apply
+-- between two timed windows at different venues. Rules mirrored in src/lib/staff-availability-utils.ts
+CREATE OR REPLACE FUNCTION public.get_staff_conflicts(
+  p_firm_id uuid,
+  p_starts_at timestamp,
+  p_ends_at timestamp,
+  p_timed boolean DEFAULT false,
+  p_venue text DEFAULT NULL,
+  p_exclude_event_id uuid DEFAULT NULL,
+  p_person_id uuid DEFAULT NULL
+) RETURNS TABLE (
+  assignment_id uuid,
+  staff_id uuid,
+  freelancer_id uuid,
+  role text,
+  day_number integer,
+  day_date date,
+  event_id uuid,
+  event_title text,
+  session_id uuid,
+  session_name text,
+  venue text,
+  starts_at timestamp,
+  ends_at timestamp,
+  timed boolean,
+  buffer_minutes integer,
+  overlap_minutes integer,
+  gap_minutes integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT COALESCE((SELECT f.crew_travel_buffer_minutes FROM public.firms f WHERE f.id = p_firm_id), 0) AS travel_buffer
+  ),
+  windows AS (
+    SELECT
+      a.id AS assignment_id,
+      a.staff_id,
+      a.freelancer_id,
+      a.role::text AS role,
+      a.day_number,
+      COALESCE(s.session_date, a.day_date, e.event_date + (a.day_number - 1)) AS slot_date,
+      a.event_id,
+      e.title AS event_title,
+      a.session_id,
+      s.name AS session_name,
+      COALESCE(NULLIF(btrim(s.venue), ''), e.venue) AS venue,
+      s.start_time,
+      s.end_time,
+      (s.start_time IS NOT NULL AND s.end_time IS NOT NULL) AS timed
+    FROM public.event_staff_assignments a
+    JOIN public.events e ON e.id = a.event_id
+    LEFT JOIN public.event_sessions s ON s.id = a.session_id
+    WHERE e.firm_id = p_firm_id
+      AND e.status IS DISTINCT FROM 'Cancelled'
+      AND (p_exclude_event_id IS NULL OR a.event_id <> p_exclude_event_id)
+      AND (p_person_id IS NULL OR a.staff_id = p_person_id OR a.freelancer_id = p_person_id)
+      -- Only slots within the candidate window (a day either side covers overnight sessions)
+      AND COALESCE(s.session_date, a.day_date, e.event_date + (a.day_number - 1))
+          BETWEEN (p_starts_at - interval '1 day')::date AND p_ends_at::date
+  ),
+  measured AS (
+    SELECT
+      w.*,
+      CASE WHEN w.timed THEN w.slot_date + w.start_time ELSE w.slot_date::timestamp END AS slot_starts_at,
+      CASE
+        WHEN w.timed AND w.end_time <= w.start_time THEN w.slot_date + w.end_time + interval '1 day'
+        WHEN w.timed THEN w.slot_date + w.end_time
+        ELSE w.slot_date::timestamp + interval '1 day'
+      END AS slot_ends_at,
+      CASE
+        WHEN p_timed AND w.timed
+             AND NULLIF(btrim(p_venue), '') IS NOT NULL
+             AND NULLIF(btrim(w.venue), '') IS NOT NULL
+             AND lower(btrim(p_venue)) <> lower(btrim(w.venue))
+          THEN (SELECT travel_buffer FROM settings)
+        ELSE 0
+      END AS buffer_minutes
+    FROM windows w
+  )
+  SELECT
+    m.assignment_id,
+    m.staff_id,
+    m.freelancer_id,
+    m.role,
+    m.day_number,
+    m.slot_date AS day_date,
+    m.event_id,
+    m.event_title,
+    m.session_id,
+    m.session_name,
+    m.venue,
+    m.slot_starts_at AS starts_at,
+    m.slot_ends_at AS ends_at,
+    m.timed,
+    m.buffer_minutes,
+    GREATEST(0, EXTRACT(EPOCH FROM (LEAST(m.slot_ends_at, p_ends_at) - GREATEST(m.slot_starts_at, p_starts_at))) / 60)::integer AS overlap_minutes,
+    GREATEST(0, EXTRACT(EPOCH FROM GREATEST(m.slot_starts_at - p_ends_at, p_starts_at - m.slot_ends_at)) / 60)::integer AS gap_minutes
+  FROM measured m
+  WHERE m.slot_starts_at - make_interval(mins => m.buffer_minutes) < p_ends_at
+    AND p_starts_at < m.slot_ends_at + make_interval(mins => m.buffer_minutes)
+  ORDER BY m.slot_starts_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_staff_conflicts(uuid, timestamp, timestamp, boolean, text, uuid, uuid) TO authenticated;
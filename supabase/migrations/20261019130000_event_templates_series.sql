@@ -0,0 +1,305 @@
+-- Reusable event templates and recurring event series
+
+CREATE TABLE IF NOT EXISTS public.event_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  event_type text NOT NULL DEFAULT 'Others',
+  venue text,
+  description text,
+  total_days integer NOT NULL DEFAULT 1 CHECK (total_days BETWEEN 1 AND 30),
+  total_amount numeric NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  -- Call time on each day; occurrences of a timed template get a session per day
+  start_time time,
+  end_time time,
+  -- [{ "day_number": 1, "role": "Photographer", "staff_id": null, "freelancer_id": null, "rate": 5000, "quantity": 1 }]
+  crew jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ "title": "Deliver edited photos", "task_type": "Photo Editing", "priority": "Medium", "due_offset_days": 7 }]
+  tasks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT event_templates_firm_name_key UNIQUE (firm_id, name),
+  CONSTRAINT event_templates_time_window CHECK (start_time IS NULL OR end_time IS NULL OR start_time <> end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_templates_firm ON public.event_templates (firm_id, name);
+
+ALTER TABLE public.event_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view event templates"
+  ON public.event_templates FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage event templates"
+  ON public.event_templates FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+CREATE TABLE IF NOT EXISTS public.event_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  template_id uuid REFERENCES public.event_templates(id) ON DELETE SET NULL,
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'custom')),
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 12),
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_series_firm ON public.event_series (firm_id, starts_on);
+
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view event series"
+  ON public.event_series FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage event series"
+  ON public.event_series FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+-- Occurrences are ordinary events; an exception has been edited on its own and
+-- is skipped by whole-series edits
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES public.event_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_exception boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_events_series ON public.events (series_id, event_date) WHERE series_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_event_templates_updated_at ON public.event_templates;
+CREATE TRIGGER update_event_templates_updated_at
+  BEFORE UPDATE ON public.event_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_event_series_updated_at ON public.event_series;
+CREATE TRIGGER update_event_series_updated_at
+  BEFORE UPDATE ON public.event_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Other bookings of the template's named crew on each occurrence, for the preview in
+-- RecurringEventDialog and the check in create_event_series. Each slot is checked over the
+-- template's call time and venue, or its whole day when the template has no call time.
+CREATE OR REPLACE FUNCTION public.get_series_crew_conflicts(p_template_id uuid, p_dates date[])
+RETURNS TABLE (
+  occurrence_date date,
+  slot_date date,
+  staff_id uuid,
+  freelancer_id uuid,
+  person_name text,
+  role text,
+  conflict_event_title text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH slots AS (
+    SELECT DISTINCT
+      d AS occurrence_date,
+      d + (COALESCE((slot->>'day_number')::integer, 1) - 1) AS slot_date,
+      NULLIF(slot->>'staff_id', '')::uuid AS staff_id,
+      NULLIF(slot->>'freelancer_id', '')::uuid AS freelancer_id,
+      COALESCE(p.full_name, f.full_name) AS person_name,
+      slot->>'role' AS role,
+      t.firm_id,
+      t.venue,
+      t.start_time,
+      t.end_time,
+      (t.start_time IS NOT NULL AND t.end_time IS NOT NULL) AS timed
+    FROM public.event_templates t
+    CROSS JOIN unnest(p_dates) AS d
+    CROSS JOIN jsonb_array_elements(t.crew) AS slot
+    LEFT JOIN public.profiles p ON p.id = NULLIF(slot->>'staff_id', '')::uuid
+    LEFT JOIN public.freelancers f ON f.id = NULLIF(slot->>'freelancer_id', '')::uuid
+    WHERE t.id = p_template_id
+      AND (NULLIF(slot->>'staff_id', '') IS NOT NULL OR NULLIF(slot->>'freelancer_id', '') IS NOT NULL)
+  )
+  SELECT s.occurrence_date, s.slot_date, s.staff_id, s.freelancer_id, s.person_name, s.role, c.event_title
+  FROM slots s
+  CROSS JOIN LATERAL public.get_staff_conflicts(
+    s.firm_id,
+    CASE WHEN s.timed THEN s.slot_date + s.start_time ELSE s.slot_date::timestamp END,
+    CASE
+      WHEN s.timed AND s.end_time <= s.start_time THEN s.slot_date + s.end_time + interval '1 day'
+      WHEN s.timed THEN s.slot_date + s.end_time
+      ELSE s.slot_date::timestamp + interval '1 day'
+    END,
+    s.timed,
+    s.venue,
+    NULL,
+    COALESCE(s.staff_id, s.freelancer_id)
+  ) c
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_series_crew_conflicts(uuid, date[]) TO authenticated;
+
+-- Materialize a series from a template in one transaction: one event per date with
+-- the template's crew, rates and tasks. Dates are expanded by the client
+-- (src/lib/event-series-utils.ts) so the preview and the result always match.
+-- Clashing bookings stop the series unless the admin confirms them.
+CREATE OR REPLACE FUNCTION public.create_event_series(
+  p_template_id uuid,
+  p_title text,
+  p_client_id uuid,
+  p_frequency text,
+  p_interval_count integer,
+  p_dates date[],
+  p_allow_conflicts boolean DEFAULT false
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.event_templates;
+  v_series_id uuid;
+  v_event_id uuid;
+  v_profile_id uuid;
+  v_date date;
+  v_slot jsonb;
+  v_task jsonb;
+  v_clashes integer;
+  v_day integer;
+  v_session_id uuid;
+  v_session_ids uuid[];
+BEGIN
+  SELECT * INTO v_template FROM public.event_templates WHERE id = p_template_id;
+  IF v_template.id IS NULL THEN
+    RAISE EXCEPTION 'Event template % not found', p_template_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_dates IS NULL OR array_length(p_dates, 1) IS NULL THEN
+    RAISE EXCEPTION 'A series needs at least one date' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF array_length(p_dates, 1) > 104 THEN
+    RAISE EXCEPTION 'A series can have at most 104 occurrences' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT COALESCE(p_allow_conflicts, false) THEN
+    SELECT count(*) INTO v_clashes FROM public.get_series_crew_conflicts(p_template_id, p_dates);
+
+    IF v_clashes > 0 THEN
+      RAISE EXCEPTION 'The template crew has % clashing booking(s) on these dates', v_clashes
+        USING ERRCODE = 'exclusion_violation';
+    END IF;
+  END IF;
+
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.event_series (firm_id, template_id, client_id, title, frequency, interval_count, starts_on, ends_on, created_by)
+  SELECT v_template.firm_id, v_template.id, p_client_id, p_title, p_frequency, COALESCE(p_interval_count, 1),
+         min(d), max(d), v_profile_id
+  FROM unnest(p_dates) AS d
+  RETURNING id INTO v_series_id;
+
+  FOR v_date IN SELECT DISTINCT d FROM unnest(p_dates) AS d ORDER BY d LOOP
+    INSERT INTO public.events (
+      firm_id, client_id, title, event_type, event_date, event_end_date, total_days, venue, description,
+      total_amount, advance_amount, balance_amount, created_by, series_id
+    ) VALUES (
+      v_template.firm_id, p_client_id, p_title, v_template.event_type, v_date,
+      CASE WHEN v_template.total_days > 1 THEN v_date + (v_template.total_days - 1) ELSE NULL END,
+      v_template.total_days, v_template.venue, v_template.description,
+      v_template.total_amount, 0, v_template.total_amount, v_profile_id, v_series_id
+    )
+    RETURNING id INTO v_event_id;
+
+    -- A timed template gets a session per day so the crew is booked for the call time only
+    v_session_ids := ARRAY[]::uuid[];
+    IF v_template.start_time IS NOT NULL AND v_template.end_time IS NOT NULL THEN
+      FOR v_day IN 1..v_template.total_days LOOP
+        INSERT INTO public.event_sessions (event_id, firm_id, name, session_date, start_time, end_time, sort_order)
+        VALUES (
+          v_event_id,
+          v_template.firm_id,
+          CASE WHEN v_template.total_days > 1 THEN 'Day ' || v_day ELSE v_template.name END,
+          v_date + (v_day - 1),
+          v_template.start_time,
+          v_template.end_time,
+          v_day
+        )
+        RETURNING id INTO v_session_id;
+
+        v_session_ids := v_session_ids || v_session_id;
+      END LOOP;
+    END IF;
+
+    FOR v_slot IN SELECT * FROM jsonb_array_elements(v_template.crew) LOOP
+      -- Role-only slots describe the crew needed; only named people become assignments
+      CONTINUE WHEN NULLIF(v_slot->>'staff_id', '') IS NULL AND NULLIF(v_slot->>'freelancer_id', '') IS NULL;
+
+      INSERT INTO public.event_staff_assignments (
+        event_id, firm_id, staff_id, freelancer_id, staff_type, role, day_number, day_date, session_id
+      ) VALUES (
+        v_event_id,
+        v_template.firm_id,
+        NULLIF(v_slot->>'staff_id', '')::uuid,
+        NULLIF(v_slot->>'freelancer_id', '')::uuid,
+        CASE WHEN NULLIF(v_slot->>'freelancer_id', '') IS NOT NULL THEN 'freelancer' ELSE 'staff' END,
+        v_slot->>'role',
+        COALESCE((v_slot->>'day_number')::integer, 1),
+        v_date + (COALESCE((v_slot->>'day_number')::integer, 1) - 1),
+        v_session_ids[COALESCE((v_slot->>'day_number')::integer, 1)]
+      );
+
+      IF COALESCE((v_slot->>'rate')::numeric, 0) > 0 THEN
+        INSERT INTO public.event_assignment_rates (
+          event_id, firm_id, staff_id, freelancer_id, role, day_number, rate, quantity
+        ) VALUES (
+          v_event_id,
+          v_template.firm_id,
+          NULLIF(v_slot->>'staff_id', '')::uuid,
+          NULLIF(v_slot->>'freelancer_id', '')::uuid,
+          v_slot->>'role',
+          COALESCE((v_slot->>'day_number')::integer, 1),
+          (v_slot->>'rate')::numeric,
+          COALESCE((v_slot->>'quantity')::numeric, 1)
+        );
+      END IF;
+    END LOOP;
+
+    FOR v_task IN SELECT * FROM jsonb_array_elements(v_template.tasks) LOOP
+      INSERT INTO public.tasks (
+        firm_id, event_id, title, description, task_type, priority, amount, due_date,
+        assigned_to, freelancer_id, created_by
+      ) VALUES (
+        v_template.firm_id,
+        v_event_id,
+        v_task->>'title',
+        NULLIF(v_task->>'description', ''),
+        COALESCE(NULLIF(v_task->>'task_type', ''), 'Other')::public.task_type,
+        COALESCE(NULLIF(v_task->>'priority', ''), 'Medium')::public.task_priority,
+        NULLIF(v_task->>'amount', '')::numeric,
+        CASE WHEN v_task ? 'due_offset_days' THEN v_date + (v_task->>'due_offset_days')::integer ELSE NULL END,
+        NULLIF(v_task->>'assigned_to', '')::uuid,
+        NULLIF(v_task->>'freelancer_id', '')::uuid,
+        v_profile_id
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN v_series_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_event_series(uuid, text, uuid, text, integer, date[], boolean) TO authenticated;
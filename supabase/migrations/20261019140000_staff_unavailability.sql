@@ -0,0 +1,372 @@
+-- Staff leave / unavailability blocks and structured replies to availability checks
+
+CREATE TABLE IF NOT EXISTS public.staff_unavailability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  staff_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE,
+  freelancer_id uuid REFERENCES public.freelancers(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  -- Only approved blocks count as hard conflicts when crewing events
+  approved boolean NOT NULL DEFAULT false,
+  approved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  requested_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT staff_unavailability_person_check CHECK ((staff_id IS NULL) <> (freelancer_id IS NULL)),
+  CONSTRAINT staff_unavailability_dates_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_unavailability_firm_dates
+  ON public.staff_unavailability (firm_id, start_date, end_date);
+
+ALTER TABLE public.staff_unavailability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view staff unavailability"
+  ON public.staff_unavailability FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+-- Staff submit their own blocks; approval is left to admins
+CREATE POLICY "Staff can request their own unavailability"
+  ON public.staff_unavailability FOR INSERT
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.is_firm_writable(firm_id)
+    AND approved = false
+    AND staff_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Staff can withdraw their pending unavailability"
+  ON public.staff_unavailability FOR DELETE
+  USING (
+    approved = false
+    AND staff_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage staff unavailability"
+  ON public.staff_unavailability FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_staff_unavailability_updated_at ON public.staff_unavailability;
+CREATE TRIGGER update_staff_unavailability_updated_at
+  BEFORE UPDATE ON public.staff_unavailability
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per person and date asked about in an availability_check message.
+-- is_available stays null until the person replies.
+CREATE TABLE IF NOT EXISTS public.staff_availability_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  request_id uuid NOT NULL,
+  staff_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE,
+  freelancer_id uuid REFERENCES public.freelancers(id) ON DELETE CASCADE,
+  available_date date NOT NULL,
+  role text NOT NULL,
+  event_type text,
+  is_available boolean,
+  source text CHECK (source IN ('whatsapp', 'manual')),
+  reply_text text,
+  responded_at timestamptz,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT staff_availability_responses_person_check CHECK ((staff_id IS NULL) <> (freelancer_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_availability_responses_unique
+  ON public.staff_availability_responses (request_id, COALESCE(staff_id, freelancer_id), available_date);
+
+CREATE INDEX IF NOT EXISTS idx_staff_availability_responses_firm
+  ON public.staff_availability_responses (firm_id, created_at DESC);
+
+ALTER TABLE public.staff_availability_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view availability responses"
+  ON public.staff_availability_responses FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage availability responses"
+  ON public.staff_availability_responses FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_staff_availability_responses_updated_at ON public.staff_availability_responses;
+CREATE TRIGGER update_staff_availability_responses_updated_at
+  BEFORE UPDATE ON public.staff_availability_responses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record a yes/no reply to an availability check. Replies are entered by hand for now
+-- (AvailabilityResponsesPanel); nothing reads WhatsApp replies automatically. A null p_dates
+-- answers every date of the request.
+CREATE OR REPLACE FUNCTION public.record_availability_response(
+  p_request_id uuid,
+  p_person_id uuid,
+  p_is_available boolean,
+  p_dates date[] DEFAULT NULL,
+  p_source text DEFAULT 'manual',
+  p_reply_text text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE public.staff_availability_responses
+  SET is_available = p_is_available,
+      source = p_source,
+      reply_text = COALESCE(p_reply_text, reply_text),
+      responded_at = now()
+  WHERE request_id = p_request_id
+    AND COALESCE(staff_id, freelancer_id) = p_person_id
+    AND (p_dates IS NULL OR available_date = ANY (p_dates));
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_availability_response(uuid, uuid, boolean, date[], text, text) TO authenticated, service_role;
+
+-- Series crew checks also report approved leave. The template crew is left off an
+-- occurrence where they are on leave instead of blocking the series.
+DROP FUNCTION IF EXISTS public.get_series_crew_conflicts(uuid, date[]);
+
+CREATE OR REPLACE FUNCTION public.get_series_crew_conflicts(p_template_id uuid, p_dates date[])
+RETURNS TABLE (
+  occurrence_date date,
+  slot_date date,
+  staff_id uuid,
+  freelancer_id uuid,
+  person_name text,
+  role text,
+  conflict_event_title text,
+  unavailable boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH slots AS (
+    SELECT DISTINCT
+      d AS occurrence_date,
+      d + (COALESCE((slot->>'day_number')::integer, 1) - 1) AS slot_date,
+      NULLIF(slot->>'staff_id', '')::uuid AS staff_id,
+      NULLIF(slot->>'freelancer_id', '')::uuid AS freelancer_id,
+      COALESCE(p.full_name, f.full_name) AS person_name,
+      slot->>'role' AS role,
+      t.firm_id,
+      t.venue,
+      t.start_time,
+      t.end_time,
+      (t.start_time IS NOT NULL AND t.end_time IS NOT NULL) AS timed
+    FROM public.event_templates t
+    CROSS JOIN unnest(p_dates) AS d
+    CROSS JOIN jsonb_array_elements(t.crew) AS slot
+    LEFT JOIN public.profiles p ON p.id = NULLIF(slot->>'staff_id', '')::uuid
+    LEFT JOIN public.freelancers f ON f.id = NULLIF(slot->>'freelancer_id', '')::uuid
+    WHERE t.id = p_template_id
+      AND (NULLIF(slot->>'staff_id', '') IS NOT NULL OR NULLIF(slot->>'freelancer_id', '') IS NOT NULL)
+  )
+  SELECT s.occurrence_date, s.slot_date, s.staff_id, s.freelancer_id, s.person_name, s.role, c.event_title, false
+  FROM slots s
+  CROSS JOIN LATERAL public.get_staff_conflicts(
+    s.firm_id,
+    CASE WHEN s.timed THEN s.slot_date + s.start_time ELSE s.slot_date::timestamp END,
+    CASE
+      WHEN s.timed AND s.end_time <= s.start_time THEN s.slot_date + s.end_time + interval '1 day'
+      WHEN s.timed THEN s.slot_date + s.end_time
+      ELSE s.slot_date::timestamp + interval '1 day'
+    END,
+    s.timed,
+    s.venue,
+    NULL,
+    COALESCE(s.staff_id, s.freelancer_id)
+  ) c
+  UNION ALL
+  SELECT s.occurrence_date, s.slot_date, s.staff_id, s.freelancer_id, s.person_name, s.role, NULL, true
+  FROM slots s
+  WHERE EXISTS (
+    SELECT 1 FROM public.staff_unavailability u
+    WHERE u.firm_id = s.firm_id
+      AND u.approved
+      AND (u.staff_id = s.staff_id OR u.freelancer_id = s.freelancer_id)
+      AND s.slot_date BETWEEN u.start_date AND u.end_date
+  )
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_series_crew_conflicts(uuid, date[]) TO authenticated;
+
+-- Leave does not count as a clash for p_allow_conflicts; those slots are simply not assigned
+CREATE OR REPLACE FUNCTION public.create_event_series(
+  p_template_id uuid,
+  p_title text,
+  p_client_id uuid,
+  p_frequency text,
+  p_interval_count integer,
+  p_dates date[],
+  p_allow_conflicts boolean DEFAULT false
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.event_templates;
+  v_series_id uuid;
+  v_event_id uuid;
+  v_profile_id uuid;
+  v_date date;
+  v_slot jsonb;
+  v_task jsonb;
+  v_clashes integer;
+  v_day integer;
+  v_session_id uuid;
+  v_session_ids uuid[];
+BEGIN
+  SELECT * INTO v_template FROM public.event_templates WHERE id = p_template_id;
+  IF v_template.id IS NULL THEN
+    RAISE EXCEPTION 'Event template % not found', p_template_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_dates IS NULL OR array_length(p_dates, 1) IS NULL THEN
+    RAISE EXCEPTION 'A series needs at least one date' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF array_length(p_dates, 1) > 104 THEN
+    RAISE EXCEPTION 'A series can have at most 104 occurrences' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT COALESCE(p_allow_conflicts, false) THEN
+    SELECT count(*) INTO v_clashes
+    FROM public.get_series_crew_conflicts(p_template_id, p_dates)
+    WHERE NOT unavailable;
+
+    IF v_clashes > 0 THEN
+      RAISE EXCEPTION 'The template crew has % clashing booking(s) on these dates', v_clashes
+        USING ERRCODE = 'exclusion_violation';
+    END IF;
+  END IF;
+
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.event_series (firm_id, template_id, client_id, title, frequency, interval_count, starts_on, ends_on, created_by)
+  SELECT v_template.firm_id, v_template.id, p_client_id, p_title, p_frequency, COALESCE(p_interval_count, 1),
+         min(d), max(d), v_profile_id
+  FROM unnest(p_dates) AS d
+  RETURNING id INTO v_series_id;
+
+  FOR v_date IN SELECT DISTINCT d FROM unnest(p_dates) AS d ORDER BY d LOOP
+    INSERT INTO public.events (
+      firm_id, client_id, title, event_type, event_date, event_end_date, total_days, venue, description,
+      total_amount, advance_amount, balance_amount, created_by, series_id
+    ) VALUES (
+      v_template.firm_id, p_client_id, p_title, v_template.event_type, v_date,
+      CASE WHEN v_template.total_days > 1 THEN v_date + (v_template.total_days - 1) ELSE NULL END,
+      v_template.total_days, v_template.venue, v_template.description,
+      v_template.total_amount, 0, v_template.total_amount, v_profile_id, v_series_id
+    )
+    RETURNING id INTO v_event_id;
+
+    -- A timed template gets a session per day so the crew is booked for the call time only
+    v_session_ids := ARRAY[]::uuid[];
+    IF v_template.start_time IS NOT NULL AND v_template.end_time IS NOT NULL THEN
+      FOR v_day IN 1..v_template.total_days LOOP
+        INSERT INTO public.event_sessions (event_id, firm_id, name, session_date, start_time, end_time, sort_order)
+        VALUES (
+          v_event_id,
+          v_template.firm_id,
+          CASE WHEN v_template.total_days > 1 THEN 'Day ' || v_day ELSE v_template.name END,
+          v_date + (v_day - 1),
+          v_template.start_time,
+          v_template.end_time,
+          v_day
+        )
+        RETURNING id INTO v_session_id;
+
+        v_session_ids := v_session_ids || v_session_id;
+      END LOOP;
+    END IF;
+
+    FOR v_slot IN SELECT * FROM jsonb_array_elements(v_template.crew) LOOP
+      -- Role-only slots describe the crew needed; only named people become assignments
+      CONTINUE WHEN NULLIF(v_slot->>'staff_id', '') IS NULL AND NULLIF(v_slot->>'freelancer_id', '') IS NULL;
+
+      -- Approved leave is a hard conflict: the slot stays open on that occurrence
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM public.staff_unavailability u
+        WHERE u.firm_id = v_template.firm_id
+          AND u.approved
+          AND (u.staff_id = NULLIF(v_slot->>'staff_id', '')::uuid OR u.freelancer_id = NULLIF(v_slot->>'freelancer_id', '')::uuid)
+          AND v_date + (COALESCE((v_slot->>'day_number')::integer, 1) - 1) BETWEEN u.start_date AND u.end_date
+      );
+
+      INSERT INTO public.event_staff_assignments (
+        event_id, firm_id, staff_id, freelancer_id, staff_type, role, day_number, day_date, session_id
+      ) VALUES (
+        v_event_id,
+        v_template.firm_id,
+        NULLIF(v_slot->>'staff_id', '')::uuid,
+        NULLIF(v_slot->>'freelancer_id', '')::uuid,
+        CASE WHEN NULLIF(v_slot->>'freelancer_id', '') IS NOT NULL THEN 'freelancer' ELSE 'staff' END,
+        v_slot->>'role',
+        COALESCE((v_slot->>'day_number')::integer, 1),
+        v_date + (COALESCE((v_slot->>'day_number')::integer, 1) - 1),
+        v_session_ids[COALESCE((v_slot->>'day_number')::integer, 1)]
+      );
+
+      IF COALESCE((v_slot->>'rate')::numeric, 0) > 0 THEN
+        INSERT INTO public.event_assignment_rates (
+          event_id, firm_id, staff_id, freelancer_id, role, day_number, rate, quantity
+        ) VALUES (
+          v_event_id,
+          v_template.firm_id,
+          NULLIF(v_slot->>'staff_id', '')::uuid,
+          NULLIF(v_slot->>'freelancer_id', '')::uuid,
+          v_slot->>'role',
+          COALESCE((v_slot->>'day_number')::integer, 1),
+          (v_slot->>'rate')::numeric,
+          COALESCE((v_slot->>'quantity')::numeric, 1)
+        );
+      END IF;
+    END LOOP;
+
+    FOR v_task IN SELECT * FROM jsonb_array_elements(v_template.tasks) LOOP
+      INSERT INTO public.tasks (
+        firm_id, event_id, title, description, task_type, priority, amount, due_date,
+        assigned_to, freelancer_id, created_by
+      ) VALUES (
+        v_template.firm_id,
+        v_event_id,
+        v_task->>'title',
+        NULLIF(v_task->>'description', ''),
+        COALESCE(NULLIF(v_task->>'task_type', ''), 'Other')::public.task_type,
+        COALESCE(NULLIF(v_task->>'priority', ''), 'Medium')::public.task_priority,
+        NULLIF(v_task->>'amount', '')::numeric,
+        CASE WHEN v_task ? 'due_offset_days' THEN v_date + (v_task->>'due_offset_days')::integer ELSE NULL END,
+        NULLIF(v_task->>'assigned_to', '')::uuid,
+        NULLIF(v_task->>'freelancer_id', '')::uuid,
+        v_profile_id
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN v_series_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_event_series(uuid, text, uuid, text, integer, date[], boolean) TO authenticated;
@@ -0,0 +1,161 @@
+-- Clone an event with its sessions, crew, crew rates, tasks and storage metadata in one
+-- transaction. Dates shift by the gap between the source and the new event date. Payments
+-- stay with the source event; the copy starts unpaid. Copied crew is checked against other
+-- bookings over each session's hours and venue, and left off days they are on approved leave.
+
+CREATE OR REPLACE FUNCTION public.clone_event(
+  p_event_id uuid,
+  p_event_date date,
+  p_title text DEFAULT NULL,
+  p_include_crew boolean DEFAULT true,
+  p_include_tasks boolean DEFAULT true,
+  p_allow_conflicts boolean DEFAULT false
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_source public.events;
+  v_event_id uuid;
+  v_profile_id uuid;
+  v_shift integer;
+  v_session public.event_sessions;
+  v_session_id uuid;
+  v_clashes integer;
+BEGIN
+  SELECT * INTO v_source FROM public.events WHERE id = p_event_id;
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_source.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_shift := COALESCE(p_event_date, v_source.event_date) - v_source.event_date;
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.events (
+    firm_id, client_id, title, event_type, event_date, event_end_date, total_days, venue, description,
+    total_amount, advance_amount, advance_payment_method, balance_amount, quotation_source_id,
+    same_day_editor, other_crew_enabled, storage_disk, storage_size, status, created_by
+  ) VALUES (
+    v_source.firm_id,
+    v_source.client_id,
+    COALESCE(NULLIF(trim(p_title), ''), v_source.title),
+    v_source.event_type,
+    v_source.event_date + v_shift,
+    v_source.event_end_date + v_shift,
+    v_source.total_days,
+    v_source.venue,
+    v_source.description,
+    v_source.total_amount,
+    0,
+    NULL,
+    v_source.total_amount,
+    v_source.quotation_source_id,
+    v_source.same_day_editor,
+    v_source.other_crew_enabled,
+    v_source.storage_disk,
+    v_source.storage_size,
+    CASE WHEN v_source.status = 'Quotation' THEN 'Quotation'::public.event_status ELSE 'Confirmed'::public.event_status END,
+    v_profile_id
+  )
+  RETURNING id INTO v_event_id;
+
+  -- Sessions first so session-level crew can point at the copies
+  CREATE TEMP TABLE IF NOT EXISTS clone_event_session_map (old_id uuid PRIMARY KEY, new_id uuid NOT NULL) ON COMMIT DROP;
+  DELETE FROM clone_event_session_map;
+
+  FOR v_session IN SELECT * FROM public.event_sessions WHERE event_id = p_event_id ORDER BY sort_order LOOP
+    INSERT INTO public.event_sessions (event_id, firm_id, name, session_date, start_time, end_time, venue, notes, sort_order)
+    VALUES (v_event_id, v_session.firm_id, v_session.name, v_session.session_date + v_shift, v_session.start_time,
+            v_session.end_time, v_session.venue, v_session.notes, v_session.sort_order)
+    RETURNING id INTO v_session_id;
+
+    INSERT INTO clone_event_session_map VALUES (v_session.id, v_session_id);
+  END LOOP;
+
+  IF p_include_crew THEN
+    INSERT INTO public.event_staff_assignments (
+      event_id, firm_id, staff_id, freelancer_id, staff_type, role, day_number, day_date, session_id
+    )
+    SELECT v_event_id, a.firm_id, a.staff_id, a.freelancer_id, a.staff_type, a.role, a.day_number,
+           a.day_date + v_shift, m.new_id
+    FROM public.event_staff_assignments a
+    LEFT JOIN clone_event_session_map m ON m.old_id = a.session_id
+    WHERE a.event_id = p_event_id
+      -- Approved leave on the new date is a hard conflict: that slot is left open
+      AND NOT EXISTS (
+        SELECT 1 FROM public.staff_unavailability u
+        WHERE u.firm_id = a.firm_id
+          AND u.approved
+          AND (u.staff_id = a.staff_id OR u.freelancer_id = a.freelancer_id)
+          AND COALESCE(a.day_date, v_source.event_date + (a.day_number - 1)) + v_shift BETWEEN u.start_date AND u.end_date
+      );
+
+    -- Each copied slot is checked the way get_staff_conflicts measures saved ones: over its
+    -- session's hours and venue, or the whole day for day-level crew
+    IF NOT COALESCE(p_allow_conflicts, false) THEN
+      SELECT count(*) INTO v_clashes
+      FROM public.event_staff_assignments a
+      LEFT JOIN public.event_sessions s ON s.id = a.session_id
+      CROSS JOIN LATERAL (
+        SELECT
+          COALESCE(s.session_date, a.day_date, v_source.event_date + v_shift + (a.day_number - 1)) AS slot_date,
+          (s.start_time IS NOT NULL AND s.end_time IS NOT NULL) AS timed
+      ) w
+      CROSS JOIN LATERAL public.get_staff_conflicts(
+        a.firm_id,
+        CASE WHEN w.timed THEN w.slot_date + s.start_time ELSE w.slot_date::timestamp END,
+        CASE
+          WHEN w.timed AND s.end_time <= s.start_time THEN w.slot_date + s.end_time + interval '1 day'
+          WHEN w.timed THEN w.slot_date + s.end_time
+          ELSE w.slot_date::timestamp + interval '1 day'
+        END,
+        w.timed,
+        COALESCE(NULLIF(btrim(s.venue), ''), v_source.venue),
+        v_event_id,
+        COALESCE(a.staff_id, a.freelancer_id)
+      ) c
+      WHERE a.event_id = v_event_id;
+
+      IF v_clashes > 0 THEN
+        RAISE EXCEPTION 'The copied crew has % clashing booking(s) on the new dates', v_clashes
+          USING ERRCODE = 'exclusion_violation';
+      END IF;
+    END IF;
+
+    INSERT INTO public.event_assignment_rates (
+      event_id, firm_id, staff_id, freelancer_id, role, day_number, rate, quantity, notes
+    )
+    SELECT v_event_id, r.firm_id, r.staff_id, r.freelancer_id, r.role, r.day_number, r.rate, r.quantity, r.notes
+    FROM public.event_assignment_rates r
+    WHERE r.event_id = p_event_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.staff_unavailability u
+        WHERE u.firm_id = r.firm_id
+          AND u.approved
+          AND (u.staff_id = r.staff_id OR u.freelancer_id = r.freelancer_id)
+          AND v_source.event_date + v_shift + (r.day_number - 1) BETWEEN u.start_date AND u.end_date
+      );
+  END IF;
+
+  -- Tasks start over; only the brief, assignee, amount and shifted due date carry across
+  IF p_include_tasks THEN
+    INSERT INTO public.tasks (
+      firm_id, event_id, title, description, task_type, priority, amount, due_date,
+      assigned_to, freelancer_id, is_salary_based, salary_details, status, created_by
+    )
+    SELECT t.firm_id, v_event_id, t.title, t.description, t.task_type, t.priority, t.amount, t.due_date + v_shift,
+           t.assigned_to, t.freelancer_id, t.is_salary_based, t.salary_details, 'Pending', v_profile_id
+    FROM public.tasks t
+    WHERE t.event_id = p_event_id;
+  END IF;
+
+  RETURN v_event_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clone_event(uuid, date, text, boolean, boolean, boolean) TO authenticated;
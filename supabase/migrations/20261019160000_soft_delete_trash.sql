@@ -0,0 +1,308 @@
+-- Soft deletion with a firm-wide trash bin. Trashed rows keep deleted_at and are hidden from
+-- regular reads by restrictive RLS policies; the trash RPCs below are the only way to list,
+-- restore or purge them.
+
+ALTER TABLE public.firms
+  ADD COLUMN IF NOT EXISTS trash_retention_days integer NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['events', 'clients', 'quotations', 'tasks', 'expenses', 'payments'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS deleted_at timestamptz', v_table);
+    EXECUTE format(
+      'ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL',
+      v_table
+    );
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON public.%I (firm_id, deleted_at) WHERE deleted_at IS NOT NULL',
+      'idx_' || v_table || '_trash', v_table
+    );
+    EXECUTE format('DROP POLICY IF EXISTS "Hide trashed rows" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Hide trashed rows" ON public.%I AS RESTRICTIVE FOR SELECT USING (deleted_at IS NULL)',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Admin of the firm that owns a trash row, with the firm still writable
+CREATE OR REPLACE FUNCTION public.assert_trash_access(p_firm_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_firm_id IS NULL
+     OR NOT public.is_member_or_owner(p_firm_id)
+     OR public.get_current_user_role() IS DISTINCT FROM 'Admin' THEN
+    RAISE EXCEPTION 'Only firm admins can manage the trash' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT public.is_firm_writable(p_firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trash_row_firm(p_item_type text, p_item_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_firm_id uuid;
+BEGIN
+  IF p_item_type NOT IN ('events', 'clients', 'quotations', 'tasks', 'expenses', 'payments') THEN
+    RAISE EXCEPTION 'Unknown trash item type %', p_item_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  EXECUTE format('SELECT firm_id FROM public.%I WHERE id = $1', p_item_type) INTO v_firm_id USING p_item_id;
+  IF v_firm_id IS NULL THEN
+    RAISE EXCEPTION 'Item % not found', p_item_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_firm_id;
+END;
+$$;
+
+-- Move a row to the trash. Events take their payments, tasks and expenses along under the
+-- same deleted_at so a restore brings back exactly that set. Returns the number of rows trashed.
+CREATE OR REPLACE FUNCTION public.trash_item(p_item_type text, p_item_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_profile_id uuid;
+  v_count integer;
+  v_children integer;
+  v_child text;
+BEGIN
+  PERFORM public.assert_trash_access(public.trash_row_firm(p_item_type, p_item_id));
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  EXECUTE format(
+    'UPDATE public.%I SET deleted_at = $1, deleted_by = $2 WHERE id = $3 AND deleted_at IS NULL',
+    p_item_type
+  ) USING v_now, v_profile_id, p_item_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF p_item_type = 'events' AND v_count > 0 THEN
+    -- The calendar entry is removed on delete; a restore creates a fresh one
+    UPDATE public.events SET calendar_event_id = NULL WHERE id = p_item_id;
+
+    FOREACH v_child IN ARRAY ARRAY['payments', 'tasks', 'expenses'] LOOP
+      EXECUTE format(
+        'UPDATE public.%I SET deleted_at = $1, deleted_by = $2 WHERE event_id = $3 AND deleted_at IS NULL',
+        v_child
+      ) USING v_now, v_profile_id, p_item_id;
+      GET DIAGNOSTICS v_children = ROW_COUNT;
+      v_count := v_count + v_children;
+    END LOOP;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Bring a row back from the trash, with the event children trashed alongside it.
+-- Returns every restored row so the client can re-create its sheet and calendar entries.
+CREATE OR REPLACE FUNCTION public.restore_trash_item(p_item_type text, p_item_id uuid)
+RETURNS TABLE (item_type text, item_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted_at timestamptz;
+  v_event_id uuid;
+  v_child text;
+BEGIN
+  PERFORM public.assert_trash_access(public.trash_row_firm(p_item_type, p_item_id));
+
+  EXECUTE format('SELECT deleted_at FROM public.%I WHERE id = $1', p_item_type) INTO v_deleted_at USING p_item_id;
+  IF v_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'This item is not in the trash' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_item_type IN ('payments', 'tasks', 'expenses') THEN
+    EXECUTE format('SELECT event_id FROM public.%I WHERE id = $1', p_item_type) INTO v_event_id USING p_item_id;
+    IF EXISTS (SELECT 1 FROM public.events e WHERE e.id = v_event_id AND e.deleted_at IS NOT NULL) THEN
+      RAISE EXCEPTION 'Restore the event this item belongs to first' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  EXECUTE format('UPDATE public.%I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1', p_item_type) USING p_item_id;
+  item_type := p_item_type;
+  item_id := p_item_id;
+  RETURN NEXT;
+
+  IF p_item_type = 'events' THEN
+    FOREACH v_child IN ARRAY ARRAY['payments', 'tasks', 'expenses'] LOOP
+      FOR item_id IN EXECUTE format(
+        'UPDATE public.%I SET deleted_at = NULL, deleted_by = NULL WHERE event_id = $1 AND deleted_at = $2 RETURNING id',
+        v_child
+      ) USING p_item_id, v_deleted_at LOOP
+        item_type := v_child;
+        RETURN NEXT;
+      END LOOP;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- Permanently delete a trashed row and, for events, everything that hangs off it
+CREATE OR REPLACE FUNCTION public.purge_trash_row(p_item_type text, p_item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_item_type = 'events' AND EXISTS (
+    SELECT 1 FROM public.events WHERE id = p_item_id AND deleted_at IS NOT NULL
+  ) THEN
+    UPDATE public.quotations SET converted_to_event = NULL WHERE converted_to_event = p_item_id;
+    DELETE FROM public.event_assignment_rates WHERE event_id = p_item_id;
+    DELETE FROM public.event_staff_assignments WHERE event_id = p_item_id;
+    DELETE FROM public.freelancer_payments WHERE event_id = p_item_id;
+    DELETE FROM public.staff_payments WHERE event_id = p_item_id;
+    DELETE FROM public.tasks WHERE event_id = p_item_id;
+    DELETE FROM public.expenses WHERE event_id = p_item_id;
+    DELETE FROM public.payments WHERE event_id = p_item_id;
+  END IF;
+
+  EXECUTE format('DELETE FROM public.%I WHERE id = $1 AND deleted_at IS NOT NULL', p_item_type) USING p_item_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_trash_row(text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.purge_trash_item(p_item_type text, p_item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_trash_access(public.trash_row_firm(p_item_type, p_item_id));
+  PERFORM public.purge_trash_row(p_item_type, p_item_id);
+END;
+$$;
+
+-- Everything in a firm's trash, newest first. Event children are listed with their event
+-- (event_id set) so the page can group them.
+CREATE OR REPLACE FUNCTION public.get_trash_items(p_firm_id uuid)
+RETURNS TABLE (
+  item_type text,
+  item_id uuid,
+  label text,
+  detail text,
+  amount numeric,
+  event_id uuid,
+  deleted_at timestamptz,
+  deleted_by_name text,
+  purge_after timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_retention integer;
+BEGIN
+  IF NOT public.is_member_or_owner(p_firm_id) OR public.get_current_user_role() IS DISTINCT FROM 'Admin' THEN
+    RAISE EXCEPTION 'Only firm admins can view the trash' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT f.trash_retention_days INTO v_retention FROM public.firms f WHERE f.id = p_firm_id;
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT 'events'::text AS item_type, e.id AS item_id, e.title AS label,
+           concat_ws(' • ', e.event_type, to_char(e.event_date, 'DD Mon YYYY')) AS detail,
+           e.total_amount::numeric AS amount, NULL::uuid AS event_id, e.deleted_at, e.deleted_by
+    FROM public.events e WHERE e.firm_id = p_firm_id AND e.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'clients', c.id, c.name, c.phone, NULL::numeric, NULL::uuid, c.deleted_at, c.deleted_by
+    FROM public.clients c WHERE c.firm_id = p_firm_id AND c.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'quotations', q.id, q.title, concat_ws(' • ', q.event_type, to_char(q.event_date, 'DD Mon YYYY')),
+           q.amount::numeric, NULL::uuid, q.deleted_at, q.deleted_by
+    FROM public.quotations q WHERE q.firm_id = p_firm_id AND q.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'tasks', t.id, t.title, t.status::text, t.amount::numeric, t.event_id, t.deleted_at, t.deleted_by
+    FROM public.tasks t WHERE t.firm_id = p_firm_id AND t.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'expenses', x.id, x.description, concat_ws(' • ', x.category::text, to_char(x.expense_date, 'DD Mon YYYY')),
+           x.amount::numeric, x.event_id, x.deleted_at, x.deleted_by
+    FROM public.expenses x WHERE x.firm_id = p_firm_id AND x.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'payments', p.id, 'Payment', concat_ws(' • ', p.payment_method::text, to_char(p.payment_date, 'DD Mon YYYY')),
+           p.amount::numeric, p.event_id, p.deleted_at, p.deleted_by
+    FROM public.payments p WHERE p.firm_id = p_firm_id AND p.deleted_at IS NOT NULL
+  )
+  SELECT i.item_type, i.item_id, i.label, i.detail, i.amount, i.event_id, i.deleted_at,
+         pr.full_name, i.deleted_at + make_interval(days => COALESCE(v_retention, 30))
+  FROM items i
+  LEFT JOIN public.profiles pr ON pr.id = i.deleted_by
+  ORDER BY i.deleted_at DESC;
+END;
+$$;
+
+-- Daily clean-up of rows past their firm's retention period. Children go before events so
+-- an event purge never finds them still trashed.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table text;
+  v_row record;
+  v_count integer := 0;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['payments', 'tasks', 'expenses', 'quotations', 'events', 'clients'] LOOP
+    FOR v_row IN EXECUTE format(
+      'SELECT t.id FROM public.%I t JOIN public.firms f ON f.id = t.firm_id
+       WHERE t.deleted_at IS NOT NULL AND t.deleted_at < now() - make_interval(days => f.trash_retention_days)',
+      v_table
+    ) LOOP
+      PERFORM public.purge_trash_row(v_table, v_row.id);
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule('purge-expired-trash')
+    WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-expired-trash');
+    PERFORM cron.schedule('purge-expired-trash', '30 3 * * *', 'SELECT public.purge_expired_trash()');
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.trash_row_firm(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.trash_item(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_trash_item(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_trash_item(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trash_items(uuid) TO authenticated;
@@ -0,0 +1,155 @@
+-- Immutable quotation revisions. Every save that changes what is offered bumps
+-- quotations.current_revision and snapshots the quotation into quotation_revisions.
+
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS current_revision integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS revised_at timestamptz NOT NULL DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS public.quotation_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+  firm_id uuid REFERENCES public.firms(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  title text NOT NULL,
+  event_type text NOT NULL,
+  event_date date NOT NULL,
+  venue text,
+  description text,
+  valid_until date,
+  amount numeric NOT NULL,
+  discount_type text,
+  discount_value numeric,
+  discount_amount numeric,
+  quotation_details jsonb,
+  -- e.g. "Restored from revision 2"
+  note text,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT quotation_revisions_number_unique UNIQUE (quotation_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_revisions_quotation
+  ON public.quotation_revisions (quotation_id, revision_number DESC);
+
+ALTER TABLE public.quotation_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; rows are written by the trigger below and never edited
+CREATE POLICY "Firm members can view quotation revisions"
+  ON public.quotation_revisions FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE OR REPLACE FUNCTION public.bump_quotation_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.title, NEW.event_type, NEW.event_date, NEW.venue, NEW.description, NEW.valid_until,
+      NEW.amount, NEW.discount_type, NEW.discount_value, NEW.discount_amount, NEW.quotation_details::jsonb)
+     IS DISTINCT FROM
+     (OLD.title, OLD.event_type, OLD.event_date, OLD.venue, OLD.description, OLD.valid_until,
+      OLD.amount, OLD.discount_type, OLD.discount_value, OLD.discount_amount, OLD.quotation_details::jsonb) THEN
+    NEW.current_revision := OLD.current_revision + 1;
+    NEW.revised_at := now();
+  ELSE
+    -- Status-only updates (conversion, trash) keep the revision as is
+    NEW.current_revision := OLD.current_revision;
+    NEW.revised_at := OLD.revised_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_quotation_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.current_revision = OLD.current_revision THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.quotation_revisions (
+    quotation_id, firm_id, revision_number, title, event_type, event_date, venue, description,
+    valid_until, amount, discount_type, discount_value, discount_amount, quotation_details, note, created_by
+  ) VALUES (
+    NEW.id, NEW.firm_id, NEW.current_revision, NEW.title, NEW.event_type, NEW.event_date, NEW.venue,
+    NEW.description, NEW.valid_until, NEW.amount, NEW.discount_type, NEW.discount_value,
+    NEW.discount_amount, NEW.quotation_details::jsonb,
+    NULLIF(current_setting('app.quotation_revision_note', true), ''),
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  )
+  ON CONFLICT (quotation_id, revision_number) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_quotation_revision ON public.quotations;
+CREATE TRIGGER bump_quotation_revision
+  BEFORE UPDATE ON public.quotations
+  FOR EACH ROW EXECUTE FUNCTION public.bump_quotation_revision();
+
+DROP TRIGGER IF EXISTS snapshot_quotation_revision ON public.quotations;
+CREATE TRIGGER snapshot_quotation_revision
+  AFTER INSERT OR UPDATE ON public.quotations
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_quotation_revision();
+
+-- Existing quotations start at revision 1
+INSERT INTO public.quotation_revisions (
+  quotation_id, firm_id, revision_number, title, event_type, event_date, venue, description,
+  valid_until, amount, discount_type, discount_value, discount_amount, quotation_details, created_by, created_at
+)
+SELECT q.id, q.firm_id, q.current_revision, q.title, q.event_type, q.event_date, q.venue, q.description,
+       q.valid_until, q.amount, q.discount_type, q.discount_value, q.discount_amount, q.quotation_details::jsonb,
+       q.created_by, q.updated_at
+FROM public.quotations q
+ON CONFLICT (quotation_id, revision_number) DO NOTHING;
+
+-- Copy an older revision back onto its quotation. This is itself a save, so it becomes
+-- the newest revision (noted as restored) rather than rewriting history.
+CREATE OR REPLACE FUNCTION public.restore_quotation_revision(p_revision_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision public.quotation_revisions;
+  v_current integer;
+BEGIN
+  SELECT * INTO v_revision FROM public.quotation_revisions WHERE id = p_revision_id;
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.quotation_revision_note', format('Restored from revision %s', v_revision.revision_number), true);
+
+  UPDATE public.quotations SET
+    title = v_revision.title,
+    event_type = v_revision.event_type,
+    event_date = v_revision.event_date,
+    venue = v_revision.venue,
+    description = v_revision.description,
+    valid_until = v_revision.valid_until,
+    amount = v_revision.amount,
+    discount_type = v_revision.discount_type,
+    discount_value = v_revision.discount_value,
+    discount_amount = v_revision.discount_amount,
+    quotation_details = v_revision.quotation_details
+  WHERE id = v_revision.quotation_id
+  RETURNING current_revision INTO v_current;
+
+  PERFORM set_config('app.quotation_revision_note', '', true);
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Quotation not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_current;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_quotation_revision(uuid) TO authenticated;
@@ -0,0 +1,234 @@
+-- Firm product catalogue for quotations: priced line items (add-ons and post-production)
+-- and named packages that pre-fill the quotation builder. Replaces the keyed
+-- firms.default_addon_rates / default_postproduction_rates JSON.
+
+CREATE TABLE IF NOT EXISTS public.firm_catalogue_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'addon' CHECK (kind IN ('addon', 'post_production')),
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  description text,
+  -- e.g. 'Per Page'; NULL for flat-priced items
+  unit text,
+  unit_price numeric NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  tax_class text NOT NULL DEFAULT 'gst_18' CHECK (tax_class IN ('gst_18', 'gst_12', 'gst_5', 'exempt')),
+  -- Crew the item adds to the event: [{ "role": "Drone Pilot", "quantity": 1 }]
+  crew jsonb NOT NULL DEFAULT '[]'::jsonb,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT firm_catalogue_items_firm_kind_name_key UNIQUE (firm_id, kind, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_firm_catalogue_items_firm ON public.firm_catalogue_items (firm_id, kind, sort_order);
+
+CREATE TABLE IF NOT EXISTS public.quotation_packages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  description text,
+  -- Suggested first for quotations of this type; NULL fits any type
+  event_type text,
+  -- [{ "name": "Day 1", "photographers": 2, "cinematographers": 2, "drone": 1 }]
+  days jsonb NOT NULL DEFAULT '[]'::jsonb,
+  same_day_editing boolean NOT NULL DEFAULT false,
+  post_production_item_id uuid REFERENCES public.firm_catalogue_items(id) ON DELETE SET NULL,
+  -- ["1 HD Highlights", "4 Reels", ...]
+  deliverables jsonb NOT NULL DEFAULT '[]'::jsonb,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT quotation_packages_firm_name_key UNIQUE (firm_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_packages_firm ON public.quotation_packages (firm_id, sort_order);
+
+-- Add-ons included in a package
+CREATE TABLE IF NOT EXISTS public.quotation_package_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id uuid NOT NULL REFERENCES public.quotation_packages(id) ON DELETE CASCADE,
+  catalogue_item_id uuid NOT NULL REFERENCES public.firm_catalogue_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  CONSTRAINT quotation_package_items_package_item_key UNIQUE (package_id, catalogue_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_package_items_package ON public.quotation_package_items (package_id);
+
+ALTER TABLE public.firm_catalogue_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_package_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view catalogue items"
+  ON public.firm_catalogue_items FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage catalogue items"
+  ON public.firm_catalogue_items FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+CREATE POLICY "Firm members can view quotation packages"
+  ON public.quotation_packages FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage quotation packages"
+  ON public.quotation_packages FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+CREATE POLICY "Firm members can view package items"
+  ON public.quotation_package_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.quotation_packages p
+    WHERE p.id = package_id AND public.is_member_or_owner(p.firm_id)
+  ));
+
+CREATE POLICY "Admins can manage package items"
+  ON public.quotation_package_items FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.quotation_packages p
+    WHERE p.id = package_id
+      AND public.is_member_or_owner(p.firm_id)
+      AND public.get_current_user_role() = 'Admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.quotation_packages p
+    JOIN public.firm_catalogue_items i ON i.id = catalogue_item_id AND i.firm_id = p.firm_id
+    WHERE p.id = package_id
+      AND public.is_member_or_owner(p.firm_id)
+      AND public.get_current_user_role() = 'Admin'
+      AND public.is_firm_writable(p.firm_id)
+  ));
+
+DROP TRIGGER IF EXISTS update_firm_catalogue_items_updated_at ON public.firm_catalogue_items;
+CREATE TRIGGER update_firm_catalogue_items_updated_at
+  BEFORE UPDATE ON public.firm_catalogue_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_quotation_packages_updated_at ON public.quotation_packages;
+CREATE TRIGGER update_quotation_packages_updated_at
+  BEFORE UPDATE ON public.quotation_packages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed a firm's catalogue from its old rate JSON (or the built-in defaults) plus a starter package
+CREATE OR REPLACE FUNCTION public.seed_firm_catalogue(p_firm_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_addon_rates jsonb;
+  v_postproduction_rates jsonb;
+  v_package_id uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.firm_catalogue_items WHERE firm_id = p_firm_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT default_addon_rates::jsonb, default_postproduction_rates::jsonb
+  INTO v_addon_rates, v_postproduction_rates
+  FROM public.firms WHERE id = p_firm_id;
+
+  IF v_addon_rates IS NULL OR jsonb_typeof(v_addon_rates) <> 'object' OR v_addon_rates = '{}'::jsonb THEN
+    v_addon_rates := '{
+      "1_day_drone": 12000,
+      "2_days_pre_wedding": 65000,
+      "1_day_pre_wedding": 50000,
+      "1_day_pre_photoshot": 22000,
+      "live_hd_setup": 60000,
+      "side_10x20_led_wall": 25000,
+      "background_led_per_fit": 135,
+      "album_page": 450,
+      "full_length_film": 22000
+    }'::jsonb;
+  END IF;
+
+  IF v_postproduction_rates IS NULL OR jsonb_typeof(v_postproduction_rates) <> 'object' OR v_postproduction_rates = '{}'::jsonb THEN
+    v_postproduction_rates := '{"package_35k": 35000, "package_45k": 45000}'::jsonb;
+  END IF;
+
+  INSERT INTO public.firm_catalogue_items (firm_id, kind, name, unit, unit_price, crew, sort_order)
+  SELECT
+    p_firm_id,
+    'addon',
+    initcap(replace(replace(rate.key, '_per_fit', ''), '_', ' ')),
+    CASE rate.key WHEN 'background_led_per_fit' THEN 'Per Fit' WHEN 'album_page' THEN 'Per Page' END,
+    COALESCE((rate.value #>> '{}')::numeric, 0),
+    CASE WHEN rate.key LIKE '%drone%' THEN '[{"role": "Drone Pilot", "quantity": 1}]'::jsonb ELSE '[]'::jsonb END,
+    rate.ordinality
+  FROM jsonb_each(v_addon_rates) WITH ORDINALITY AS rate(key, value, ordinality)
+  WHERE jsonb_typeof(rate.value) = 'number'
+  ON CONFLICT (firm_id, kind, name) DO NOTHING;
+
+  INSERT INTO public.firm_catalogue_items (firm_id, kind, name, unit_price, sort_order)
+  SELECT
+    p_firm_id,
+    'post_production',
+    initcap(replace(rate.key, '_', ' ')),
+    COALESCE((rate.value #>> '{}')::numeric, 0),
+    rate.ordinality
+  FROM jsonb_each(v_postproduction_rates) WITH ORDINALITY AS rate(key, value, ordinality)
+  WHERE jsonb_typeof(rate.value) = 'number'
+  ON CONFLICT (firm_id, kind, name) DO NOTHING;
+
+  INSERT INTO public.quotation_packages (
+    firm_id, name, description, event_type, days, post_production_item_id, deliverables, sort_order
+  )
+  VALUES (
+    p_firm_id,
+    'Classic Wedding 2-Day',
+    'Two wedding days with full photo, film and drone coverage',
+    'Wedding',
+    '[
+      {"name": "Day 1", "photographers": 2, "cinematographers": 2, "drone": 1},
+      {"name": "Day 2", "photographers": 2, "cinematographers": 2, "drone": 1}
+    ]'::jsonb,
+    (SELECT id FROM public.firm_catalogue_items
+     WHERE firm_id = p_firm_id AND kind = 'post_production'
+     ORDER BY unit_price DESC LIMIT 1),
+    '["1 HD Highlights", "40/45 Min Short Film", "4 Reels", "350+ Edited Photos", "10 Story & Post", "All Data in 1 TB Hard Disk"]'::jsonb,
+    1
+  )
+  ON CONFLICT (firm_id, name) DO NOTHING
+  RETURNING id INTO v_package_id;
+
+  IF v_package_id IS NOT NULL THEN
+    INSERT INTO public.quotation_package_items (package_id, catalogue_item_id, quantity)
+    SELECT v_package_id, i.id, 1
+    FROM public.firm_catalogue_items i
+    WHERE i.firm_id = p_firm_id AND i.kind = 'addon' AND i.name ILIKE 'album page'
+    ON CONFLICT (package_id, catalogue_item_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+SELECT public.seed_firm_catalogue(id) FROM public.firms;
+
+CREATE OR REPLACE FUNCTION public.handle_new_firm_catalogue()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_firm_catalogue(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_seed_firm_catalogue ON public.firms;
+CREATE TRIGGER trg_seed_firm_catalogue
+  AFTER INSERT ON public.firms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_firm_catalogue();
@@ -0,0 +1,288 @@
+-- Client-facing quotation portal. A firm shares a tokenized link; the client opens it without
+-- logging in and accepts, rejects or asks for changes. Anonymous access only goes through the
+-- SECURITY DEFINER functions below, never through the tables themselves.
+
+CREATE TABLE IF NOT EXISTS public.quotation_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+  firm_id uuid REFERENCES public.firms(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  -- Create the event as soon as the client accepts
+  auto_convert boolean NOT NULL DEFAULT false,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_share_links_quotation
+  ON public.quotation_share_links (quotation_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.quotation_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+  share_link_id uuid REFERENCES public.quotation_share_links(id) ON DELETE SET NULL,
+  firm_id uuid REFERENCES public.firms(id) ON DELETE CASCADE,
+  response text NOT NULL CHECK (response IN ('accepted', 'rejected', 'changes_requested')),
+  comment text,
+  responder_name text,
+  -- Revision the client was looking at when responding
+  revision_number integer,
+  ip_address text,
+  user_agent text,
+  converted_event_id uuid REFERENCES public.events(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_responses_quotation
+  ON public.quotation_responses (quotation_id, created_at DESC);
+
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS client_response text
+    CHECK (client_response IN ('accepted', 'rejected', 'changes_requested')),
+  ADD COLUMN IF NOT EXISTS client_responded_at timestamptz;
+
+ALTER TABLE public.quotation_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view quotation share links"
+  ON public.quotation_share_links FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage quotation share links"
+  ON public.quotation_share_links FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+-- Responses are written only by respond_to_shared_quotation
+CREATE POLICY "Firm members can view quotation responses"
+  ON public.quotation_responses FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+-- Same conversion the event form performs: create the event from the quotation, link it back
+-- through quotation_source_id and mark the quotation converted. Returns the new event id.
+CREATE OR REPLACE FUNCTION public.convert_quotation_to_event(p_quotation_id uuid, p_note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quotation public.quotations;
+  v_details jsonb;
+  v_days integer;
+  v_total numeric;
+  v_event_id uuid;
+BEGIN
+  SELECT * INTO v_quotation FROM public.quotations WHERE id = p_quotation_id AND deleted_at IS NULL;
+  IF v_quotation.id IS NULL THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_quotation.converted_to_event IS NOT NULL THEN
+    RETURN v_quotation.converted_to_event;
+  END IF;
+
+  v_details := COALESCE(v_quotation.quotation_details::jsonb, '{}'::jsonb);
+  v_days := CASE WHEN jsonb_typeof(v_details->'days') = 'array'
+                 THEN LEAST(GREATEST(jsonb_array_length(v_details->'days'), 1), 10)
+                 ELSE 1 END;
+  v_total := v_quotation.amount - COALESCE(NULLIF(v_quotation.discount_amount, 0), 0);
+
+  PERFORM set_config('app.event_status_note', COALESCE(p_note, 'Converted from quotation'), true);
+
+  INSERT INTO public.events (
+    firm_id, client_id, title, event_type, event_date, event_end_date, venue, description,
+    total_amount, advance_amount, balance_amount, total_days, same_day_editor, status,
+    quotation_source_id, created_by
+  ) VALUES (
+    v_quotation.firm_id, v_quotation.client_id, v_quotation.title, v_quotation.event_type,
+    v_quotation.event_date, v_quotation.event_date + (v_days - 1), v_quotation.venue,
+    v_quotation.description, v_total, 0, v_total, v_days,
+    COALESCE((v_details->>'sameDayEditing')::boolean, false), 'Confirmed',
+    v_quotation.id, v_quotation.created_by
+  )
+  RETURNING id INTO v_event_id;
+
+  PERFORM set_config('app.event_status_note', '', true);
+
+  UPDATE public.quotations SET converted_to_event = v_event_id WHERE id = v_quotation.id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.convert_quotation_to_event(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Resolve a share token to the link row, rejecting revoked and expired links
+CREATE OR REPLACE FUNCTION public.resolve_quotation_share_link(p_token text)
+RETURNS public.quotation_share_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.quotation_share_links;
+BEGIN
+  SELECT * INTO v_link FROM public.quotation_share_links WHERE token = p_token;
+  IF v_link.id IS NULL OR v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This quotation link is no longer available' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_link.expires_at IS NOT NULL AND v_link.expires_at < now() THEN
+    RAISE EXCEPTION 'This quotation link has expired' USING ERRCODE = 'no_data_found';
+  END IF;
+  RETURN v_link;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_quotation_share_link(text) FROM PUBLIC, anon, authenticated;
+
+-- Everything the public portal renders, in one payload. Counts the view.
+CREATE OR REPLACE FUNCTION public.get_shared_quotation(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.quotation_share_links;
+  v_result jsonb;
+BEGIN
+  v_link := public.resolve_quotation_share_link(p_token);
+
+  SELECT jsonb_build_object(
+    'quotation', jsonb_build_object(
+      'id', q.id,
+      'title', q.title,
+      'event_type', q.event_type,
+      'event_date', q.event_date,
+      'venue', q.venue,
+      'description', q.description,
+      'valid_until', q.valid_until,
+      'amount', q.amount,
+      'discount_type', q.discount_type,
+      'discount_value', q.discount_value,
+      'discount_amount', q.discount_amount,
+      'quotation_details', q.quotation_details,
+      'current_revision', q.current_revision,
+      'revised_at', q.revised_at,
+      'client_response', q.client_response,
+      'client_responded_at', q.client_responded_at,
+      'is_converted', q.converted_to_event IS NOT NULL
+    ),
+    'client', CASE WHEN c.id IS NULL THEN NULL ELSE jsonb_build_object('name', c.name) END,
+    'firm', jsonb_build_object(
+      'name', f.name,
+      'tagline', f.tagline,
+      'description', f.description,
+      'contact_phone', f.contact_phone,
+      'contact_email', f.contact_email,
+      'logo_url', f.logo_url
+    ),
+    'responses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'response', r.response,
+        'comment', r.comment,
+        'responder_name', r.responder_name,
+        'created_at', r.created_at
+      ) ORDER BY r.created_at DESC)
+      FROM public.quotation_responses r
+      WHERE r.quotation_id = q.id
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.quotations q
+  JOIN public.firms f ON f.id = q.firm_id
+  LEFT JOIN public.clients c ON c.id = q.client_id AND c.deleted_at IS NULL
+  WHERE q.id = v_link.quotation_id AND q.deleted_at IS NULL;
+
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'This quotation link is no longer available' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.quotation_share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = v_link.id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Record the client's answer with timestamp, IP and user agent. Accepting through a link with
+-- auto_convert creates the event straight away. Returns the response id and any event id.
+CREATE OR REPLACE FUNCTION public.respond_to_shared_quotation(
+  p_token text,
+  p_response text,
+  p_comment text DEFAULT NULL,
+  p_responder_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.quotation_share_links;
+  v_quotation public.quotations;
+  v_headers json;
+  v_ip text;
+  v_response_id uuid;
+  v_event_id uuid;
+BEGIN
+  IF p_response NOT IN ('accepted', 'rejected', 'changes_requested') THEN
+    RAISE EXCEPTION 'Unknown response %', p_response USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF p_response = 'changes_requested' AND NULLIF(btrim(COALESCE(p_comment, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Please describe the changes you would like' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_link := public.resolve_quotation_share_link(p_token);
+
+  SELECT * INTO v_quotation FROM public.quotations
+  WHERE id = v_link.quotation_id AND deleted_at IS NULL
+  FOR UPDATE;
+  IF v_quotation.id IS NULL THEN
+    RAISE EXCEPTION 'This quotation link is no longer available' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_quotation.converted_to_event IS NOT NULL THEN
+    RAISE EXCEPTION 'This quotation has already been confirmed' USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_response = 'accepted' AND v_quotation.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This quotation has expired' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- PostgREST exposes the request headers; the first forwarded address is the client
+  v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+  v_ip := NULLIF(btrim(split_part(COALESCE(v_headers->>'x-forwarded-for', ''), ',', 1)), '');
+  v_ip := COALESCE(v_ip, NULLIF(v_headers->>'x-real-ip', ''));
+
+  INSERT INTO public.quotation_responses (
+    quotation_id, share_link_id, firm_id, response, comment, responder_name,
+    revision_number, ip_address, user_agent
+  ) VALUES (
+    v_quotation.id, v_link.id, v_quotation.firm_id, p_response,
+    NULLIF(btrim(COALESCE(p_comment, '')), ''), NULLIF(btrim(COALESCE(p_responder_name, '')), ''),
+    v_quotation.current_revision, v_ip, left(v_headers->>'user-agent', 500)
+  )
+  RETURNING id INTO v_response_id;
+
+  UPDATE public.quotations
+  SET client_response = p_response, client_responded_at = now()
+  WHERE id = v_quotation.id;
+
+  IF p_response = 'accepted' AND v_link.auto_convert THEN
+    v_event_id := public.convert_quotation_to_event(v_quotation.id, 'Accepted by client online');
+    UPDATE public.quotation_responses SET converted_event_id = v_event_id WHERE id = v_response_id;
+  END IF;
+
+  RETURN jsonb_build_object('response_id', v_response_id, 'event_id', v_event_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_quotation(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_shared_quotation(text, text, text, text) TO anon, authenticated;
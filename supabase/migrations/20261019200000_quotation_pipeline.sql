@@ -0,0 +1,398 @@
+-- Quotation pipeline: a persisted status per quotation, automatic expiry once valid_until
+-- passes and scheduled WhatsApp follow-ups for quotations the client has not answered.
+
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'Draft'
+    CHECK (status IN ('Draft', 'Sent', 'Viewed', 'Negotiating', 'Accepted', 'Rejected', 'Expired')),
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz NOT NULL DEFAULT now(),
+  -- Start of the current follow-up cycle; reset whenever the quotation is (re)sent
+  ADD COLUMN IF NOT EXISTS sent_at timestamptz,
+  ADD COLUMN IF NOT EXISTS viewed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_quotations_firm_status ON public.quotations (firm_id, status);
+
+-- Backfill from what is already known about each quotation
+UPDATE public.quotations q SET
+  sent_at = l.first_shared_at,
+  viewed_at = l.last_viewed_at
+FROM (
+  SELECT quotation_id, min(created_at) AS first_shared_at, max(last_viewed_at) AS last_viewed_at
+  FROM public.quotation_share_links
+  GROUP BY quotation_id
+) l
+WHERE l.quotation_id = q.id;
+
+UPDATE public.quotations SET status = CASE
+  WHEN converted_to_event IS NOT NULL OR client_response = 'accepted' THEN 'Accepted'
+  WHEN client_response = 'rejected' THEN 'Rejected'
+  WHEN client_response = 'changes_requested' THEN 'Negotiating'
+  WHEN valid_until < CURRENT_DATE THEN 'Expired'
+  WHEN viewed_at IS NOT NULL THEN 'Viewed'
+  WHEN sent_at IS NOT NULL THEN 'Sent'
+  ELSE 'Draft'
+END;
+
+-- Keep status in step with conversion, client responses and renewed validity
+CREATE OR REPLACE FUNCTION public.track_quotation_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.converted_to_event IS NOT NULL AND OLD.converted_to_event IS NULL THEN
+    NEW.status := 'Accepted';
+  ELSIF NEW.client_response IS NOT NULL
+     AND NEW.client_responded_at IS DISTINCT FROM OLD.client_responded_at THEN
+    NEW.status := CASE NEW.client_response
+      WHEN 'accepted' THEN 'Accepted'
+      WHEN 'rejected' THEN 'Rejected'
+      ELSE 'Negotiating'
+    END;
+  ELSIF OLD.status = 'Expired' AND NEW.status = 'Expired'
+     AND NEW.valid_until IS DISTINCT FROM OLD.valid_until
+     AND (NEW.valid_until IS NULL OR NEW.valid_until >= CURRENT_DATE) THEN
+    NEW.status := CASE
+      WHEN NEW.viewed_at IS NOT NULL THEN 'Viewed'
+      WHEN NEW.sent_at IS NOT NULL THEN 'Sent'
+      ELSE 'Draft'
+    END;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+    IF NEW.status = 'Sent' AND OLD.status IN ('Draft', 'Negotiating') THEN
+      NEW.sent_at := now();
+    ELSIF NEW.status = 'Viewed' THEN
+      NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+      NEW.sent_at := COALESCE(NEW.sent_at, now());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_track_quotation_status ON public.quotations;
+CREATE TRIGGER trg_track_quotation_status
+  BEFORE UPDATE ON public.quotations
+  FOR EACH ROW EXECUTE FUNCTION public.track_quotation_status();
+
+-- Sharing a client link sends the quotation; opening it marks it viewed
+CREATE OR REPLACE FUNCTION public.track_quotation_share_link_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.quotations SET status = 'Sent'
+    WHERE id = NEW.quotation_id AND status IN ('Draft', 'Negotiating');
+  ELSIF NEW.view_count > OLD.view_count THEN
+    UPDATE public.quotations SET status = 'Viewed', viewed_at = now()
+    WHERE id = NEW.quotation_id AND status IN ('Draft', 'Sent');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_track_quotation_share_link_status ON public.quotation_share_links;
+CREATE TRIGGER trg_track_quotation_share_link_status
+  AFTER INSERT OR UPDATE OF view_count ON public.quotation_share_links
+  FOR EACH ROW EXECUTE FUNCTION public.track_quotation_share_link_status();
+
+-- Expire open quotations whose validity has passed. Without a firm this runs for every firm
+-- and is reserved for the scheduled job; with one it is limited to that firm and its admins.
+CREATE OR REPLACE FUNCTION public.expire_quotations(p_firm_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF p_firm_id IS NULL THEN
+    -- Only the scheduled job (no request role) and service_role run this across firms
+    IF COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+      RAISE EXCEPTION 'A firm is required' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT (public.is_member_or_owner(p_firm_id) AND public.get_current_user_role() = 'Admin') THEN
+    RAISE EXCEPTION 'Only firm admins can update quotations' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.quotations SET status = 'Expired'
+  WHERE (p_firm_id IS NULL OR firm_id = p_firm_id)
+    AND status IN ('Draft', 'Sent', 'Viewed', 'Negotiating')
+    AND valid_until < CURRENT_DATE
+    AND converted_to_event IS NULL
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.quotation_follow_ups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+  firm_id uuid REFERENCES public.firms(id) ON DELETE CASCADE,
+  -- 1-based position in the firm's follow-up schedule
+  step integer NOT NULL,
+  cycle_started_at timestamptz NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  phone text NOT NULL,
+  message text NOT NULL,
+  -- When a sender claimed the row; a claim left in 'sending' past this is released again
+  claimed_at timestamptz,
+  sent_at timestamptz,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT quotation_follow_ups_step_unique UNIQUE (quotation_id, cycle_started_at, step)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_follow_ups_due
+  ON public.quotation_follow_ups (firm_id, scheduled_for) WHERE status = 'pending';
+
+ALTER TABLE public.quotation_follow_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view quotation follow-ups"
+  ON public.quotation_follow_ups FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage quotation follow-ups"
+  ON public.quotation_follow_ups FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+-- Whether a HH:MM time of day falls in a quiet window; the window may run past midnight
+CREATE OR REPLACE FUNCTION public.is_within_quiet_hours(p_time time, p_start text, p_end text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NULLIF(p_start, '') IS NULL OR NULLIF(p_end, '') IS NULL OR p_start = p_end THEN false
+    WHEN p_start::time < p_end::time THEN p_time >= p_start::time AND p_time < p_end::time
+    ELSE p_time >= p_start::time OR p_time < p_end::time
+  END;
+$$;
+
+-- Queue the next due follow-up for every sent or viewed quotation that is still open. The
+-- schedule (days after sending) and wording come from the firm's quotation_follow_up
+-- WhatsApp template. Returns the number of follow-ups queued.
+CREATE OR REPLACE FUNCTION public.queue_quotation_follow_ups(p_firm_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_template jsonb;
+  v_due_step integer;
+  v_valid_until text;
+  v_content text;
+  v_count integer := 0;
+BEGIN
+  IF p_firm_id IS NULL THEN
+    -- Only the scheduled job (no request role) and service_role run this across firms
+    IF COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+      RAISE EXCEPTION 'A firm is required' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT (public.is_member_or_owner(p_firm_id) AND public.get_current_user_role() = 'Admin') THEN
+    RAISE EXCEPTION 'Only firm admins can send follow-ups' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_row IN
+    SELECT q.id, q.firm_id, q.title, q.event_type, q.event_date, q.valid_until, q.sent_at,
+           c.name AS client_name, c.phone AS client_phone,
+           COALESCE(ws.notification_templates::jsonb -> 'quotation_follow_up', '{}'::jsonb) AS template,
+           COALESCE(ws.firm_name, f.name) AS firm_name,
+           COALESCE(ws.firm_tagline, f.tagline) AS firm_tagline,
+           ws.contact_info, ws.footer_signature
+    FROM public.quotations q
+    JOIN public.firms f ON f.id = q.firm_id
+    JOIN public.clients c ON c.id = q.client_id AND c.deleted_at IS NULL
+    LEFT JOIN LATERAL (
+      SELECT s.* FROM public.wa_sessions s WHERE s.firm_id = q.firm_id LIMIT 1
+    ) ws ON true
+    WHERE (p_firm_id IS NULL OR q.firm_id = p_firm_id)
+      AND q.status IN ('Sent', 'Viewed')
+      AND q.converted_to_event IS NULL
+      AND q.deleted_at IS NULL
+      AND q.sent_at IS NOT NULL
+      AND (q.valid_until IS NULL OR q.valid_until >= CURRENT_DATE)
+      AND NULLIF(btrim(c.phone), '') IS NOT NULL
+  LOOP
+    v_template := v_row.template;
+
+    -- Latest step whose delay has passed; earlier missed steps are not sent late
+    SELECT max(s.ordinality) INTO v_due_step
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(v_template -> 'schedule_days') = 'array'
+           THEN v_template -> 'schedule_days' ELSE '[3, 7]'::jsonb END
+    ) WITH ORDINALITY AS s(days, ordinality)
+    WHERE s.days ~ '^\d+$' AND v_row.sent_at + make_interval(days => s.days::integer) <= now();
+
+    CONTINUE WHEN v_due_step IS NULL;
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.quotation_follow_ups fu
+      WHERE fu.quotation_id = v_row.id AND fu.cycle_started_at = v_row.sent_at AND fu.step >= v_due_step
+    );
+
+    v_valid_until := COALESCE(to_char(v_row.valid_until, 'DD/MM/YYYY'), 'further notice');
+    v_content := COALESCE(v_template ->> 'content',
+      'Just checking in on the quotation for your {eventType}. It is valid until {validUntil}. Let us know if you have any questions or would like any changes.');
+    v_content := replace(replace(replace(replace(v_content,
+      '{clientName}', v_row.client_name),
+      '{eventType}', v_row.event_type),
+      '{quotationTitle}', v_row.title),
+      '{validUntil}', v_valid_until);
+
+    INSERT INTO public.quotation_follow_ups (
+      quotation_id, firm_id, step, cycle_started_at, scheduled_for, phone, message
+    ) VALUES (
+      v_row.id, v_row.firm_id, v_due_step, v_row.sent_at, now(), v_row.client_phone,
+      format(E'*%s*\n\n%s\n\n%s\n\n*Quotation:* %s\n*Event Date:* %s\n*Valid Until:* %s\n\nThank you for choosing *%s*%s%s%s',
+        COALESCE(v_template ->> 'title', 'QUOTATION FOLLOW-UP'),
+        replace(COALESCE(v_template ->> 'greeting', 'Dear *{clientName}*,'), '{clientName}', v_row.client_name),
+        v_content,
+        v_row.title,
+        to_char(v_row.event_date, 'DD/MM/YYYY'),
+        v_valid_until,
+        v_row.firm_name,
+        E'\n_' || NULLIF(v_row.firm_tagline, '') || '_',
+        E'\n' || NULLIF(v_row.contact_info, ''),
+        E'\n' || NULLIF(v_row.footer_signature, ''))
+    )
+    ON CONFLICT (quotation_id, cycle_started_at, step) DO NOTHING;
+
+    IF FOUND THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Claim due follow-ups for sending and return them. Claims older than 15 minutes were left by
+-- a sender that stopped mid-send and are released first. Follow-ups wait in the queue through
+-- the firm's quiet hours. Each one is checked again and skipped if the client has answered,
+-- the quotation was re-sent, expired or trashed since it was queued.
+CREATE OR REPLACE FUNCTION public.claim_due_quotation_follow_ups(p_firm_id uuid DEFAULT NULL, p_limit integer DEFAULT 50)
+RETURNS SETOF public.quotation_follow_ups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_follow_up public.quotation_follow_ups;
+BEGIN
+  IF p_firm_id IS NULL THEN
+    IF COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+      RAISE EXCEPTION 'A firm is required' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT (public.is_member_or_owner(p_firm_id) AND public.get_current_user_role() = 'Admin') THEN
+    RAISE EXCEPTION 'Only firm admins can send follow-ups' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.quotation_follow_ups
+  SET status = 'pending', claimed_at = NULL
+  WHERE status = 'sending'
+    AND claimed_at < now() - interval '15 minutes'
+    AND (p_firm_id IS NULL OR firm_id = p_firm_id);
+
+  FOR v_row IN
+    SELECT fu.id,
+           (q.deleted_at IS NOT NULL
+             OR q.converted_to_event IS NOT NULL
+             OR q.status NOT IN ('Sent', 'Viewed')
+             OR q.sent_at IS DISTINCT FROM fu.cycle_started_at
+             OR q.valid_until < CURRENT_DATE
+             OR c.deleted_at IS NOT NULL) AS withdrawn
+    FROM public.quotation_follow_ups fu
+    JOIN public.quotations q ON q.id = fu.quotation_id
+    LEFT JOIN public.clients c ON c.id = q.client_id
+    LEFT JOIN LATERAL (
+      SELECT s.notification_templates::jsonb -> 'quotation_follow_up' AS template
+      FROM public.wa_sessions s WHERE s.firm_id = fu.firm_id LIMIT 1
+    ) ws ON true
+    WHERE fu.status = 'pending'
+      AND fu.scheduled_for <= now()
+      AND (p_firm_id IS NULL OR fu.firm_id = p_firm_id)
+      AND NOT public.is_within_quiet_hours(
+        (now() AT TIME ZONE 'Asia/Kolkata')::time,
+        COALESCE(ws.template ->> 'quiet_hours_start', '21:00'),
+        COALESCE(ws.template ->> 'quiet_hours_end', '09:00')
+      )
+    ORDER BY fu.scheduled_for
+    LIMIT greatest(1, p_limit)
+    FOR UPDATE OF fu SKIP LOCKED
+  LOOP
+    IF v_row.withdrawn THEN
+      UPDATE public.quotation_follow_ups SET status = 'skipped' WHERE id = v_row.id;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.quotation_follow_ups
+    SET status = 'sending', claimed_at = now()
+    WHERE id = v_row.id
+    RETURNING * INTO v_follow_up;
+
+    RETURN NEXT v_follow_up;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.expire_quotations(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.queue_quotation_follow_ups(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.claim_due_quotation_follow_ups(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.expire_quotations(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_quotation_follow_ups(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_quotation_follow_ups(uuid, integer) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule('expire-quotations')
+    WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-quotations');
+    PERFORM cron.schedule('expire-quotations', '5 0 * * *', 'SELECT public.expire_quotations()');
+
+    PERFORM cron.unschedule('queue-quotation-follow-ups')
+    WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'queue-quotation-follow-ups');
+    PERFORM cron.schedule('queue-quotation-follow-ups', '0 * * * *', 'SELECT public.queue_quotation_follow_ups()');
+  END IF;
+END;
+$$;
+
+-- Call the sender every 15 minutes. It needs pg_net and the project_url and service_role_key
+-- Vault secrets; without them follow-ups are still sent while an admin has the quotations page open.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.unschedule('send-quotation-follow-ups')
+    WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-quotation-follow-ups');
+    PERFORM cron.schedule('send-quotation-follow-ups', '*/15 * * * *', $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/send-quotation-follow-ups',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      )
+    $job$);
+  END IF;
+END;
+$$;
@@ -0,0 +1,442 @@
+-- GST on quotations and invoices. The firm's GSTIN and state decide CGST+SGST (same state)
+-- versus IGST (other state) against each quotation's place of supply. Tax is worked out in
+-- the app from the quotation lines after any discount, and stored with the quotation so
+-- conversion, the client portal and revisions all carry the same figures.
+
+ALTER TABLE public.firms
+  ADD COLUMN IF NOT EXISTS gstin text,
+  -- Two digit GST state code, e.g. '27' for Maharashtra
+  ADD COLUMN IF NOT EXISTS gst_state_code text,
+  ADD COLUMN IF NOT EXISTS tax_pricing_default text NOT NULL DEFAULT 'exclusive'
+    CHECK (tax_pricing_default IN ('exclusive', 'inclusive')),
+  -- 998383: event photography and videography services
+  ADD COLUMN IF NOT EXISTS default_sac_code text NOT NULL DEFAULT '998383';
+
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS gstin text,
+  ADD COLUMN IF NOT EXISTS state_code text;
+
+ALTER TABLE public.firm_catalogue_items
+  ADD COLUMN IF NOT EXISTS hsn_sac text;
+
+-- tax_pricing NULL means no GST is charged (unregistered firm, or quotations from before GST)
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS tax_pricing text CHECK (tax_pricing IN ('exclusive', 'inclusive')),
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS tax_pricing text CHECK (tax_pricing IN ('exclusive', 'inclusive')),
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
+
+ALTER TABLE public.quotation_revisions
+  ADD COLUMN IF NOT EXISTS tax_pricing text,
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
+
+-- Amount the client pays: exclusive tax goes on top, inclusive tax is already in the price
+CREATE OR REPLACE FUNCTION public.quotation_payable_amount(q public.quotations)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT q.amount
+    - CASE WHEN q.discount_type IS NOT NULL AND q.discount_value IS NOT NULL THEN COALESCE(q.discount_amount, 0) ELSE 0 END
+    + CASE WHEN q.tax_pricing = 'exclusive' THEN COALESCE(q.tax_amount, 0) ELSE 0 END;
+$$;
+
+-- A change of tax treatment is a new revision, like a change of price
+CREATE OR REPLACE FUNCTION public.bump_quotation_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.title, NEW.event_type, NEW.event_date, NEW.venue, NEW.description, NEW.valid_until,
+      NEW.amount, NEW.discount_type, NEW.discount_value, NEW.discount_amount, NEW.quotation_details::jsonb,
+      NEW.tax_pricing, NEW.place_of_supply, NEW.tax_amount)
+     IS DISTINCT FROM
+     (OLD.title, OLD.event_type, OLD.event_date, OLD.venue, OLD.description, OLD.valid_until,
+      OLD.amount, OLD.discount_type, OLD.discount_value, OLD.discount_amount, OLD.quotation_details::jsonb,
+      OLD.tax_pricing, OLD.place_of_supply, OLD.tax_amount) THEN
+    NEW.current_revision := OLD.current_revision + 1;
+    NEW.revised_at := now();
+  ELSE
+    -- Status-only updates (conversion, trash) keep the revision as is
+    NEW.current_revision := OLD.current_revision;
+    NEW.revised_at := OLD.revised_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_quotation_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.current_revision = OLD.current_revision THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.quotation_revisions (
+    quotation_id, firm_id, revision_number, title, event_type, event_date, venue, description,
+    valid_until, amount, discount_type, discount_value, discount_amount, quotation_details,
+    tax_pricing, place_of_supply, tax_amount, tax_breakdown, note, created_by
+  ) VALUES (
+    NEW.id, NEW.firm_id, NEW.current_revision, NEW.title, NEW.event_type, NEW.event_date, NEW.venue,
+    NEW.description, NEW.valid_until, NEW.amount, NEW.discount_type, NEW.discount_value,
+    NEW.discount_amount, NEW.quotation_details::jsonb,
+    NEW.tax_pricing, NEW.place_of_supply, NEW.tax_amount, NEW.tax_breakdown,
+    NULLIF(current_setting('app.quotation_revision_note', true), ''),
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  )
+  ON CONFLICT (quotation_id, revision_number) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_quotation_revision(p_revision_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision public.quotation_revisions;
+  v_current integer;
+BEGIN
+  SELECT * INTO v_revision FROM public.quotation_revisions WHERE id = p_revision_id;
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.quotation_revision_note', format('Restored from revision %s', v_revision.revision_number), true);
+
+  UPDATE public.quotations SET
+    title = v_revision.title,
+    event_type = v_revision.event_type,
+    event_date = v_revision.event_date,
+    venue = v_revision.venue,
+    description = v_revision.description,
+    valid_until = v_revision.valid_until,
+    amount = v_revision.amount,
+    discount_type = v_revision.discount_type,
+    discount_value = v_revision.discount_value,
+    discount_amount = v_revision.discount_amount,
+    quotation_details = v_revision.quotation_details,
+    tax_pricing = v_revision.tax_pricing,
+    place_of_supply = v_revision.place_of_supply,
+    tax_amount = v_revision.tax_amount,
+    tax_breakdown = v_revision.tax_breakdown
+  WHERE id = v_revision.quotation_id
+  RETURNING current_revision INTO v_current;
+
+  PERFORM set_config('app.quotation_revision_note', '', true);
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Quotation not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_current;
+END;
+$$;
+
+-- Converted events are billed the quotation's payable amount and keep its tax split for invoices
+CREATE OR REPLACE FUNCTION public.convert_quotation_to_event(p_quotation_id uuid, p_note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quotation public.quotations;
+  v_details jsonb;
+  v_days integer;
+  v_total numeric;
+  v_event_id uuid;
+BEGIN
+  SELECT * INTO v_quotation FROM public.quotations WHERE id = p_quotation_id AND deleted_at IS NULL;
+  IF v_quotation.id IS NULL THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_quotation.converted_to_event IS NOT NULL THEN
+    RETURN v_quotation.converted_to_event;
+  END IF;
+
+  v_details := COALESCE(v_quotation.quotation_details::jsonb, '{}'::jsonb);
+  v_days := CASE WHEN jsonb_typeof(v_details->'days') = 'array'
+                 THEN LEAST(GREATEST(jsonb_array_length(v_details->'days'), 1), 10)
+                 ELSE 1 END;
+  v_total := public.quotation_payable_amount(v_quotation);
+
+  PERFORM set_config('app.event_status_note', COALESCE(p_note, 'Converted from quotation'), true);
+
+  INSERT INTO public.events (
+    firm_id, client_id, title, event_type, event_date, event_end_date, venue, description,
+    total_amount, advance_amount, balance_amount, total_days, same_day_editor, status,
+    quotation_source_id, created_by, tax_pricing, place_of_supply, tax_amount, tax_breakdown
+  ) VALUES (
+    v_quotation.firm_id, v_quotation.client_id, v_quotation.title, v_quotation.event_type,
+    v_quotation.event_date, v_quotation.event_date + (v_days - 1), v_quotation.venue,
+    v_quotation.description, v_total, 0, v_total, v_days,
+    COALESCE((v_details->>'sameDayEditing')::boolean, false), 'Confirmed',
+    v_quotation.id, v_quotation.created_by, v_quotation.tax_pricing, v_quotation.place_of_supply,
+    v_quotation.tax_amount, v_quotation.tax_breakdown
+  )
+  RETURNING id INTO v_event_id;
+
+  PERFORM set_config('app.event_status_note', '', true);
+
+  UPDATE public.quotations SET converted_to_event = v_event_id WHERE id = v_quotation.id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.convert_quotation_to_event(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_shared_quotation(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.quotation_share_links;
+  v_result jsonb;
+BEGIN
+  v_link := public.resolve_quotation_share_link(p_token);
+
+  SELECT jsonb_build_object(
+    'quotation', jsonb_build_object(
+      'id', q.id,
+      'title', q.title,
+      'event_type', q.event_type,
+      'event_date', q.event_date,
+      'venue', q.venue,
+      'description', q.description,
+      'valid_until', q.valid_until,
+      'amount', q.amount,
+      'discount_type', q.discount_type,
+      'discount_value', q.discount_value,
+      'discount_amount', q.discount_amount,
+      'tax_pricing', q.tax_pricing,
+      'place_of_supply', q.place_of_supply,
+      'tax_amount', q.tax_amount,
+      'tax_breakdown', q.tax_breakdown,
+      'quotation_details', q.quotation_details,
+      'current_revision', q.current_revision,
+      'revised_at', q.revised_at,
+      'client_response', q.client_response,
+      'client_responded_at', q.client_responded_at,
+      'is_converted', q.converted_to_event IS NOT NULL
+    ),
+    'client', CASE WHEN c.id IS NULL THEN NULL ELSE jsonb_build_object('name', c.name) END,
+    'firm', jsonb_build_object(
+      'name', f.name,
+      'tagline', f.tagline,
+      'description', f.description,
+      'contact_phone', f.contact_phone,
+      'contact_email', f.contact_email,
+      'logo_url', f.logo_url,
+      'gstin', f.gstin
+    ),
+    'responses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'response', r.response,
+        'comment', r.comment,
+        'responder_name', r.responder_name,
+        'created_at', r.created_at
+      ) ORDER BY r.created_at DESC)
+      FROM public.quotation_responses r
+      WHERE r.quotation_id = q.id
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.quotations q
+  JOIN public.firms f ON f.id = q.firm_id
+  LEFT JOIN public.clients c ON c.id = q.client_id AND c.deleted_at IS NULL
+  WHERE q.id = v_link.quotation_id AND q.deleted_at IS NULL;
+
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'This quotation link is no longer available' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.quotation_share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = v_link.id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Clones keep the source event's tax split
+CREATE OR REPLACE FUNCTION public.clone_event(
+  p_event_id uuid,
+  p_event_date date,
+  p_title text DEFAULT NULL,
+  p_include_crew boolean DEFAULT true,
+  p_include_tasks boolean DEFAULT true,
+  p_allow_conflicts boolean DEFAULT false
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_source public.events;
+  v_event_id uuid;
+  v_profile_id uuid;
+  v_shift integer;
+  v_session public.event_sessions;
+  v_session_id uuid;
+  v_clashes integer;
+BEGIN
+  SELECT * INTO v_source FROM public.events WHERE id = p_event_id;
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_source.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_shift := COALESCE(p_event_date, v_source.event_date) - v_source.event_date;
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.events (
+    firm_id, client_id, title, event_type, event_date, event_end_date, total_days, venue, description,
+    total_amount, advance_amount, advance_payment_method, balance_amount, quotation_source_id,
+    same_day_editor, other_crew_enabled, storage_disk, storage_size, status, created_by,
+    tax_pricing, place_of_supply, tax_amount, tax_breakdown
+  ) VALUES (
+    v_source.firm_id,
+    v_source.client_id,
+    COALESCE(NULLIF(trim(p_title), ''), v_source.title),
+    v_source.event_type,
+    v_source.event_date + v_shift,
+    v_source.event_end_date + v_shift,
+    v_source.total_days,
+    v_source.venue,
+    v_source.description,
+    v_source.total_amount,
+    0,
+    NULL,
+    v_source.total_amount,
+    v_source.quotation_source_id,
+    v_source.same_day_editor,
+    v_source.other_crew_enabled,
+    v_source.storage_disk,
+    v_source.storage_size,
+    CASE WHEN v_source.status = 'Quotation' THEN 'Quotation'::public.event_status ELSE 'Confirmed'::public.event_status END,
+    v_profile_id,
+    v_source.tax_pricing,
+    v_source.place_of_supply,
+    v_source.tax_amount,
+    v_source.tax_breakdown
+  )
+  RETURNING id INTO v_event_id;
+
+  -- Sessions first so session-level crew can point at the copies
+  CREATE TEMP TABLE IF NOT EXISTS clone_event_session_map (old_id uuid PRIMARY KEY, new_id uuid NOT NULL) ON COMMIT DROP;
+  DELETE FROM clone_event_session_map;
+
+  FOR v_session IN SELECT * FROM public.event_sessions WHERE event_id = p_event_id ORDER BY sort_order LOOP
+    INSERT INTO public.event_sessions (event_id, firm_id, name, session_date, start_time, end_time, venue, notes, sort_order)
+    VALUES (v_event_id, v_session.firm_id, v_session.name, v_session.session_date + v_shift, v_session.start_time,
+            v_session.end_time, v_session.venue, v_session.notes, v_session.sort_order)
+    RETURNING id INTO v_session_id;
+
+    INSERT INTO clone_event_session_map VALUES (v_session.id, v_session_id);
+  END LOOP;
+
+  IF p_include_crew THEN
+    INSERT INTO public.event_staff_assignments (
+      event_id, firm_id, staff_id, freelancer_id, staff_type, role, day_number, day_date, session_id
+    )
+    SELECT v_event_id, a.firm_id, a.staff_id, a.freelancer_id, a.staff_type, a.role, a.day_number,
+           a.day_date + v_shift, m.new_id
+    FROM public.event_staff_assignments a
+    LEFT JOIN clone_event_session_map m ON m.old_id = a.session_id
+    WHERE a.event_id = p_event_id
+      -- Approved leave on the new date is a hard conflict: that slot is left open
+      AND NOT EXISTS (
+        SELECT 1 FROM public.staff_unavailability u
+        WHERE u.firm_id = a.firm_id
+          AND u.approved
+          AND (u.staff_id = a.staff_id OR u.freelancer_id = a.freelancer_id)
+          AND COALESCE(a.day_date, v_source.event_date + (a.day_number - 1)) + v_shift BETWEEN u.start_date AND u.end_date
+      );
+
+    -- Each copied slot is checked the way get_staff_conflicts measures saved ones: over its
+    -- session's hours and venue, or the whole day for day-level crew
+    IF NOT COALESCE(p_allow_conflicts, false) THEN
+      SELECT count(*) INTO v_clashes
+      FROM public.event_staff_assignments a
+      LEFT JOIN public.event_sessions s ON s.id = a.session_id
+      CROSS JOIN LATERAL (
+        SELECT
+          COALESCE(s.session_date, a.day_date, v_source.event_date + v_shift + (a.day_number - 1)) AS slot_date,
+          (s.start_time IS NOT NULL AND s.end_time IS NOT NULL) AS timed
+      ) w
+      CROSS JOIN LATERAL public.get_staff_conflicts(
+        a.firm_id,
+        CASE WHEN w.timed THEN w.slot_date + s.start_time ELSE w.slot_date::timestamp END,
+        CASE
+          WHEN w.timed AND s.end_time <= s.start_time THEN w.slot_date + s.end_time + interval '1 day'
+          WHEN w.timed THEN w.slot_date + s.end_time
+          ELSE w.slot_date::timestamp + interval '1 day'
+        END,
+        w.timed,
+        COALESCE(NULLIF(btrim(s.venue), ''), v_source.venue),
+        v_event_id,
+        COALESCE(a.staff_id, a.freelancer_id)
+      ) c
+      WHERE a.event_id = v_event_id;
+
+      IF v_clashes > 0 THEN
+        RAISE EXCEPTION 'The copied crew has % clashing booking(s) on the new dates', v_clashes
+          USING ERRCODE = 'exclusion_violation';
+      END IF;
+    END IF;
+
+    INSERT INTO public.event_assignment_rates (
+      event_id, firm_id, staff_id, freelancer_id, role, day_number, rate, quantity, notes
+    )
+    SELECT v_event_id, r.firm_id, r.staff_id, r.freelancer_id, r.role, r.day_number, r.rate, r.quantity, r.notes
+    FROM public.event_assignment_rates r
+    WHERE r.event_id = p_event_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.staff_unavailability u
+        WHERE u.firm_id = r.firm_id
+          AND u.approved
+          AND (u.staff_id = r.staff_id OR u.freelancer_id = r.freelancer_id)
+          AND v_source.event_date + v_shift + (r.day_number - 1) BETWEEN u.start_date AND u.end_date
+      );
+  END IF;
+
+  -- Tasks start over; only the brief, assignee, amount and shifted due date carry across
+  IF p_include_tasks THEN
+    INSERT INTO public.tasks (
+      firm_id, event_id, title, description, task_type, priority, amount, due_date,
+      assigned_to, freelancer_id, is_salary_based, salary_details, status, created_by
+    )
+    SELECT t.firm_id, v_event_id, t.title, t.description, t.task_type, t.priority, t.amount, t.due_date + v_shift,
+           t.assigned_to, t.freelancer_id, t.is_salary_based, t.salary_details, 'Pending', v_profile_id
+    FROM public.tasks t
+    WHERE t.event_id = p_event_id AND t.deleted_at IS NULL;
+  END IF;
+
+  RETURN v_event_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clone_event(uuid, date, text, boolean, boolean, boolean) TO authenticated;
@@ -0,0 +1,188 @@
+-- Stacked quotation discounts. Rules are applied in order: percentage or fixed discounts on
+-- the whole quotation, on coverage, post-production, all add-ons or a single line, and a
+-- round-off on the running total. The app works out the result and keeps the summary in
+-- discount_type / discount_value / discount_amount ('rules' when more than one simple
+-- discount is used), so payable amounts and conversion are unchanged.
+
+ALTER TABLE public.quotations
+  ADD COLUMN IF NOT EXISTS discount_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.quotation_revisions
+  ADD COLUMN IF NOT EXISTS discount_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Changing the discount rules is a new revision
+CREATE OR REPLACE FUNCTION public.bump_quotation_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.title, NEW.event_type, NEW.event_date, NEW.venue, NEW.description, NEW.valid_until,
+      NEW.amount, NEW.discount_type, NEW.discount_value, NEW.discount_amount, NEW.quotation_details::jsonb,
+      NEW.tax_pricing, NEW.place_of_supply, NEW.tax_amount, NEW.discount_rules)
+     IS DISTINCT FROM
+     (OLD.title, OLD.event_type, OLD.event_date, OLD.venue, OLD.description, OLD.valid_until,
+      OLD.amount, OLD.discount_type, OLD.discount_value, OLD.discount_amount, OLD.quotation_details::jsonb,
+      OLD.tax_pricing, OLD.place_of_supply, OLD.tax_amount, OLD.discount_rules) THEN
+    NEW.current_revision := OLD.current_revision + 1;
+    NEW.revised_at := now();
+  ELSE
+    -- Status-only updates (conversion, trash) keep the revision as is
+    NEW.current_revision := OLD.current_revision;
+    NEW.revised_at := OLD.revised_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_quotation_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.current_revision = OLD.current_revision THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.quotation_revisions (
+    quotation_id, firm_id, revision_number, title, event_type, event_date, venue, description,
+    valid_until, amount, discount_type, discount_value, discount_amount, quotation_details,
+    tax_pricing, place_of_supply, tax_amount, tax_breakdown, discount_rules, note, created_by
+  ) VALUES (
+    NEW.id, NEW.firm_id, NEW.current_revision, NEW.title, NEW.event_type, NEW.event_date, NEW.venue,
+    NEW.description, NEW.valid_until, NEW.amount, NEW.discount_type, NEW.discount_value,
+    NEW.discount_amount, NEW.quotation_details::jsonb,
+    NEW.tax_pricing, NEW.place_of_supply, NEW.tax_amount, NEW.tax_breakdown, NEW.discount_rules,
+    NULLIF(current_setting('app.quotation_revision_note', true), ''),
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  )
+  ON CONFLICT (quotation_id, revision_number) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_quotation_revision(p_revision_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision public.quotation_revisions;
+  v_current integer;
+BEGIN
+  SELECT * INTO v_revision FROM public.quotation_revisions WHERE id = p_revision_id;
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.quotation_revision_note', format('Restored from revision %s', v_revision.revision_number), true);
+
+  UPDATE public.quotations SET
+    title = v_revision.title,
+    event_type = v_revision.event_type,
+    event_date = v_revision.event_date,
+    venue = v_revision.venue,
+    description = v_revision.description,
+    valid_until = v_revision.valid_until,
+    amount = v_revision.amount,
+    discount_type = v_revision.discount_type,
+    discount_value = v_revision.discount_value,
+    discount_amount = v_revision.discount_amount,
+    discount_rules = COALESCE(v_revision.discount_rules, '[]'::jsonb),
+    quotation_details = v_revision.quotation_details,
+    tax_pricing = v_revision.tax_pricing,
+    place_of_supply = v_revision.place_of_supply,
+    tax_amount = v_revision.tax_amount,
+    tax_breakdown = v_revision.tax_breakdown
+  WHERE id = v_revision.quotation_id
+  RETURNING current_revision INTO v_current;
+
+  PERFORM set_config('app.quotation_revision_note', '', true);
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Quotation not found or not editable' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_current;
+END;
+$$;
+
+-- The client portal lists each discount step
+CREATE OR REPLACE FUNCTION public.get_shared_quotation(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.quotation_share_links;
+  v_result jsonb;
+BEGIN
+  v_link := public.resolve_quotation_share_link(p_token);
+
+  SELECT jsonb_build_object(
+    'quotation', jsonb_build_object(
+      'id', q.id,
+      'title', q.title,
+      'event_type', q.event_type,
+      'event_date', q.event_date,
+      'venue', q.venue,
+      'description', q.description,
+      'valid_until', q.valid_until,
+      'amount', q.amount,
+      'discount_type', q.discount_type,
+      'discount_value', q.discount_value,
+      'discount_amount', q.discount_amount,
+      'discount_rules', q.discount_rules,
+      'tax_pricing', q.tax_pricing,
+      'place_of_supply', q.place_of_supply,
+      'tax_amount', q.tax_amount,
+      'tax_breakdown', q.tax_breakdown,
+      'quotation_details', q.quotation_details,
+      'current_revision', q.current_revision,
+      'revised_at', q.revised_at,
+      'client_response', q.client_response,
+      'client_responded_at', q.client_responded_at,
+      'is_converted', q.converted_to_event IS NOT NULL
+    ),
+    'client', CASE WHEN c.id IS NULL THEN NULL ELSE jsonb_build_object('name', c.name) END,
+    'firm', jsonb_build_object(
+      'name', f.name,
+      'tagline', f.tagline,
+      'description', f.description,
+      'contact_phone', f.contact_phone,
+      'contact_email', f.contact_email,
+      'logo_url', f.logo_url,
+      'gstin', f.gstin
+    ),
+    'responses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'response', r.response,
+        'comment', r.comment,
+        'responder_name', r.responder_name,
+        'created_at', r.created_at
+      ) ORDER BY r.created_at DESC)
+      FROM public.quotation_responses r
+      WHERE r.quotation_id = q.id
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM public.quotations q
+  JOIN public.firms f ON f.id = q.firm_id
+  LEFT JOIN public.clients c ON c.id = q.client_id AND c.deleted_at IS NULL
+  WHERE q.id = v_link.quotation_id AND q.deleted_at IS NULL;
+
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'This quotation link is no longer available' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.quotation_share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = v_link.id;
+
+  RETURN v_result;
+END;
+$$;
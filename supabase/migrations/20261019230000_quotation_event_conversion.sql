@@ -0,0 +1,220 @@
+-- Guided quotation to event conversion: event days, crew, rates, post-production tasks and a
+-- payment schedule are created together, so a failure anywhere leaves nothing behind
+
+CREATE TABLE IF NOT EXISTS public.event_payment_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (length(btrim(label)) > 0),
+  -- Share of the event total the amount was worked out from, when it was set as a percentage
+  percentage numeric CHECK (percentage IS NULL OR (percentage > 0 AND percentage <= 100)),
+  amount numeric NOT NULL CHECK (amount >= 0),
+  due_date date,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_payment_milestones_event ON public.event_payment_milestones (event_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_event_payment_milestones_firm_due ON public.event_payment_milestones (firm_id, due_date);
+
+ALTER TABLE public.event_payment_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view payment milestones"
+  ON public.event_payment_milestones FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage payment milestones"
+  ON public.event_payment_milestones FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_event_payment_milestones_updated_at ON public.event_payment_milestones;
+CREATE TRIGGER update_event_payment_milestones_updated_at
+  BEFORE UPDATE ON public.event_payment_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Convert a quotation with the plan reviewed in the conversion wizard
+-- (src/components/quotations/QuotationConversionWizard.tsx):
+--   p_days       [{ "name": "Haldi", "venue": null }]                      one session per day
+--   p_crew       [{ "day_number": 1, "role": "Photographer", "staff_id": null, "freelancer_id": null, "rate": 5000 }]
+--   p_tasks      [{ "title": "Album", "task_type": "Photo Editing", "priority": "Medium", "due_offset_days": 30 }]
+--   p_milestones [{ "label": "Booking", "percentage": 30, "amount": 30000, "due_date": "2026-11-01" }]
+-- Role-only crew slots stay open for checkEventCrewCompleteness to report.
+CREATE OR REPLACE FUNCTION public.convert_quotation_with_plan(
+  p_quotation_id uuid,
+  p_title text,
+  p_event_date date,
+  p_days jsonb DEFAULT '[]'::jsonb,
+  p_crew jsonb DEFAULT '[]'::jsonb,
+  p_tasks jsonb DEFAULT '[]'::jsonb,
+  p_milestones jsonb DEFAULT '[]'::jsonb
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_quotation public.quotations;
+  v_details jsonb;
+  v_days integer;
+  v_event_date date;
+  v_total numeric;
+  v_scheduled numeric;
+  v_event_id uuid;
+  v_profile_id uuid;
+  v_day jsonb;
+  v_day_index integer := 0;
+  v_slot jsonb;
+  v_day_number integer;
+  v_task jsonb;
+  v_milestone jsonb;
+  v_milestone_index integer := 0;
+BEGIN
+  SELECT * INTO v_quotation FROM public.quotations WHERE id = p_quotation_id AND deleted_at IS NULL FOR UPDATE;
+  IF v_quotation.id IS NULL THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_quotation.converted_to_event IS NOT NULL THEN
+    RAISE EXCEPTION 'This quotation has already been converted to an event' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_quotation.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_details := COALESCE(v_quotation.quotation_details::jsonb, '{}'::jsonb);
+  v_days := CASE WHEN jsonb_typeof(p_days) = 'array' AND jsonb_array_length(p_days) > 0
+                 THEN jsonb_array_length(p_days)
+                 ELSE 1 END;
+
+  IF v_days > 30 THEN
+    RAISE EXCEPTION 'An event can have at most 30 days' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_event_date := COALESCE(p_event_date, v_quotation.event_date);
+  v_total := public.quotation_payable_amount(v_quotation);
+
+  SELECT COALESCE(sum((m->>'amount')::numeric), 0) INTO v_scheduled
+  FROM jsonb_array_elements(COALESCE(p_milestones, '[]'::jsonb)) AS m;
+
+  IF v_scheduled > v_total + 1 THEN
+    RAISE EXCEPTION 'Payment schedule of % is more than the event total of %', v_scheduled, v_total
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  PERFORM set_config('app.event_status_note', 'Converted from quotation', true);
+
+  INSERT INTO public.events (
+    firm_id, client_id, title, event_type, event_date, event_end_date, venue, description,
+    total_amount, advance_amount, balance_amount, total_days, same_day_editor, status,
+    quotation_source_id, created_by, tax_pricing, place_of_supply, tax_amount, tax_breakdown
+  ) VALUES (
+    v_quotation.firm_id, v_quotation.client_id, COALESCE(NULLIF(trim(p_title), ''), v_quotation.title),
+    v_quotation.event_type, v_event_date,
+    CASE WHEN v_days > 1 THEN v_event_date + (v_days - 1) ELSE NULL END,
+    v_quotation.venue, v_quotation.description, v_total, 0, v_total, v_days,
+    COALESCE((v_details->>'sameDayEditing')::boolean, false), 'Confirmed',
+    v_quotation.id, v_profile_id, v_quotation.tax_pricing, v_quotation.place_of_supply,
+    v_quotation.tax_amount, v_quotation.tax_breakdown
+  )
+  RETURNING id INTO v_event_id;
+
+  PERFORM set_config('app.event_status_note', '', true);
+
+  FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_days, '[]'::jsonb)) LOOP
+    INSERT INTO public.event_sessions (event_id, firm_id, name, session_date, venue, sort_order)
+    VALUES (
+      v_event_id,
+      v_quotation.firm_id,
+      COALESCE(NULLIF(trim(v_day->>'name'), ''), 'Day ' || (v_day_index + 1)),
+      v_event_date + v_day_index,
+      COALESCE(NULLIF(trim(v_day->>'venue'), ''), v_quotation.venue),
+      v_day_index
+    );
+    v_day_index := v_day_index + 1;
+  END LOOP;
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(COALESCE(p_crew, '[]'::jsonb)) LOOP
+    CONTINUE WHEN NULLIF(v_slot->>'staff_id', '') IS NULL AND NULLIF(v_slot->>'freelancer_id', '') IS NULL;
+
+    v_day_number := LEAST(GREATEST(COALESCE((v_slot->>'day_number')::integer, 1), 1), v_days);
+
+    INSERT INTO public.event_staff_assignments (
+      event_id, firm_id, staff_id, freelancer_id, staff_type, role, day_number, day_date
+    ) VALUES (
+      v_event_id,
+      v_quotation.firm_id,
+      NULLIF(v_slot->>'staff_id', '')::uuid,
+      NULLIF(v_slot->>'freelancer_id', '')::uuid,
+      CASE WHEN NULLIF(v_slot->>'freelancer_id', '') IS NOT NULL THEN 'freelancer' ELSE 'staff' END,
+      v_slot->>'role',
+      v_day_number,
+      v_event_date + (v_day_number - 1)
+    );
+
+    IF COALESCE((v_slot->>'rate')::numeric, 0) > 0 THEN
+      INSERT INTO public.event_assignment_rates (
+        event_id, firm_id, staff_id, freelancer_id, role, day_number, rate, quantity
+      ) VALUES (
+        v_event_id,
+        v_quotation.firm_id,
+        NULLIF(v_slot->>'staff_id', '')::uuid,
+        NULLIF(v_slot->>'freelancer_id', '')::uuid,
+        v_slot->>'role',
+        v_day_number,
+        (v_slot->>'rate')::numeric,
+        1
+      );
+    END IF;
+  END LOOP;
+
+  -- Post-production is due relative to the last day of the event
+  FOR v_task IN SELECT * FROM jsonb_array_elements(COALESCE(p_tasks, '[]'::jsonb)) LOOP
+    INSERT INTO public.tasks (
+      firm_id, event_id, title, description, task_type, priority, amount, due_date,
+      assigned_to, freelancer_id, created_by
+    ) VALUES (
+      v_quotation.firm_id,
+      v_event_id,
+      v_task->>'title',
+      NULLIF(v_task->>'description', ''),
+      COALESCE(NULLIF(v_task->>'task_type', ''), 'Other')::public.task_type,
+      COALESCE(NULLIF(v_task->>'priority', ''), 'Medium')::public.task_priority,
+      NULLIF(v_task->>'amount', '')::numeric,
+      CASE WHEN v_task ? 'due_offset_days' THEN v_event_date + (v_days - 1) + (v_task->>'due_offset_days')::integer ELSE NULL END,
+      NULLIF(v_task->>'assigned_to', '')::uuid,
+      NULLIF(v_task->>'freelancer_id', '')::uuid,
+      v_profile_id
+    );
+  END LOOP;
+
+  FOR v_milestone IN SELECT * FROM jsonb_array_elements(COALESCE(p_milestones, '[]'::jsonb)) LOOP
+    INSERT INTO public.event_payment_milestones (event_id, firm_id, label, percentage, amount, due_date, sort_order)
+    VALUES (
+      v_event_id,
+      v_quotation.firm_id,
+      v_milestone->>'label',
+      NULLIF(v_milestone->>'percentage', '')::numeric,
+      (v_milestone->>'amount')::numeric,
+      NULLIF(v_milestone->>'due_date', '')::date,
+      v_milestone_index
+    );
+    v_milestone_index := v_milestone_index + 1;
+  END LOOP;
+
+  UPDATE public.quotations SET converted_to_event = v_event_id WHERE id = v_quotation.id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.convert_quotation_with_plan(uuid, text, date, jsonb, jsonb, jsonb, jsonb) TO authenticated;
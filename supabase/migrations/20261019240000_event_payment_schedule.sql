@@ -0,0 +1,56 @@
+-- Edit an event's payment milestone schedule as a whole. The schedule is replaced in one
+-- transaction so a failed save never leaves half a schedule behind.
+--   p_milestones [{ "label": "Booking", "percentage": 30, "amount": 30000, "due_date": "2026-11-01" }]
+
+CREATE OR REPLACE FUNCTION public.set_event_payment_milestones(
+  p_event_id uuid,
+  p_milestones jsonb DEFAULT '[]'::jsonb
+) RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_scheduled numeric;
+  v_milestone jsonb;
+  v_index integer := 0;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id AND deleted_at IS NULL;
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_event.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT COALESCE(sum((m->>'amount')::numeric), 0) INTO v_scheduled
+  FROM jsonb_array_elements(COALESCE(p_milestones, '[]'::jsonb)) AS m;
+
+  IF v_scheduled > COALESCE(v_event.total_amount, 0) + 1 THEN
+    RAISE EXCEPTION 'Payment schedule of % is more than the event total of %', v_scheduled, COALESCE(v_event.total_amount, 0)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.event_payment_milestones WHERE event_id = p_event_id;
+
+  FOR v_milestone IN SELECT * FROM jsonb_array_elements(COALESCE(p_milestones, '[]'::jsonb)) LOOP
+    INSERT INTO public.event_payment_milestones (event_id, firm_id, label, percentage, amount, due_date, sort_order)
+    VALUES (
+      p_event_id,
+      v_event.firm_id,
+      v_milestone->>'label',
+      NULLIF(v_milestone->>'percentage', '')::numeric,
+      (v_milestone->>'amount')::numeric,
+      NULLIF(v_milestone->>'due_date', '')::date,
+      v_index
+    );
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_event_payment_milestones(uuid, jsonb) TO authenticated;
@@ -0,0 +1,430 @@
+-- Automated WhatsApp payment reminders for events with money due: a reminder log per event,
+-- a per-client opt-out and a queue filled from the firm's payment_reminder template. Reminders
+-- are sent by the send-payment-reminders edge function on a schedule, and from an admin's open
+-- payments page. A reminder is claimed just before it is sent; the claim checks it again and
+-- rebuilds its wording with the balance as it stands then.
+
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS payment_reminders_opt_out boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.payment_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  firm_id uuid REFERENCES public.firms(id) ON DELETE CASCADE,
+  -- The due date being chased; attempts are counted per due date
+  due_date date NOT NULL,
+  -- 1-based attempt for this due date
+  attempt integer NOT NULL,
+  amount_due numeric NOT NULL,
+  balance numeric NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  phone text NOT NULL,
+  message text NOT NULL,
+  -- When a sender claimed the row; a claim left in 'sending' past this is released again
+  claimed_at timestamptz,
+  sent_at timestamptz,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT payment_reminders_attempt_unique UNIQUE (event_id, due_date, attempt)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_event ON public.payment_reminders (event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_due
+  ON public.payment_reminders (firm_id, scheduled_for) WHERE status = 'pending';
+
+ALTER TABLE public.payment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view payment reminders"
+  ON public.payment_reminders FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage payment reminders"
+  ON public.payment_reminders FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+-- Percent-encode text the way JavaScript's encodeURIComponent does: UTF-8 bytes, with only
+-- letters, digits and - _ . ! ~ * ' ( ) left as they are
+CREATE OR REPLACE FUNCTION public.encode_uri_component(p_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(
+    CASE WHEN b.byte < 128 AND chr(b.byte) ~ '^[A-Za-z0-9_.!~*''()-]$'
+         THEN chr(b.byte)
+         ELSE '%' || upper(lpad(to_hex(b.byte), 2, '0'))
+    END, '' ORDER BY b.position), '')
+  FROM (
+    SELECT get_byte(v.bytes, n) AS byte, n AS position
+    FROM (SELECT convert_to(COALESCE(p_value, ''), 'UTF8') AS bytes) v,
+         generate_series(0, length(v.bytes) - 1) AS n
+  ) b;
+$$;
+
+-- UPI intent link for paying a firm, e.g. upi://pay?pa=studio@okbank&pn=Studio&am=25000.00&cu=INR&tn=...
+-- Built the same way as buildUpiLink in the app, so reminders and invoices carry the same link.
+CREATE OR REPLACE FUNCTION public.build_upi_link(p_upi_id text, p_payee text, p_amount numeric, p_note text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN NULLIF(btrim(p_upi_id), '') IS NULL THEN NULL ELSE
+    'upi://pay?pa=' || btrim(p_upi_id)
+    || '&pn=' || public.encode_uri_component(p_payee)
+    || CASE WHEN p_amount > 0 THEN '&am=' || to_char(round(p_amount, 2), 'FM999999999990.00') ELSE '' END
+    || '&cu=INR'
+    || CASE WHEN NULLIF(p_note, '') IS NOT NULL
+         THEN '&tn=' || public.encode_uri_component(left(p_note, 80))
+         ELSE '' END
+  END;
+$$;
+
+-- What an event owes a reminder for right now: the earliest due milestone left unsettled, or,
+-- without a schedule, the balance once the event date has passed. No row when nothing is due.
+CREATE OR REPLACE FUNCTION public.get_payment_reminder_due(p_event_id uuid)
+RETURNS TABLE (due_date date, amount_due numeric, balance numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event record;
+  v_settled numeric;
+  v_balance numeric;
+  v_amount_due numeric;
+  v_due_date date;
+BEGIN
+  SELECT e.event_date,
+         COALESCE(e.total_amount, 0) AS total_amount,
+         COALESCE(e.advance_amount, 0)
+           + COALESCE((SELECT sum(p.amount) FROM public.payments p WHERE p.event_id = e.id AND p.deleted_at IS NULL), 0) AS paid,
+         COALESCE((SELECT sum(cb.closing_amount) FROM public.event_closing_balances cb WHERE cb.event_id = e.id), 0) AS closed
+  INTO v_event
+  FROM public.events e
+  WHERE e.id = p_event_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_settled := v_event.paid + v_event.closed;
+  v_balance := greatest(0, v_event.total_amount - v_settled);
+  IF v_balance <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.event_payment_milestones pm WHERE pm.event_id = p_event_id) THEN
+    -- Money settles milestones in schedule order; chase the first due one left unsettled
+    SELECT m.milestone_due, greatest(0, m.due_total - v_settled)
+    INTO v_due_date, v_amount_due
+    FROM (
+      SELECT pm.due_date AS milestone_due,
+             sum(pm.amount) OVER (ORDER BY pm.sort_order, pm.created_at) AS running_total,
+             sum(pm.amount) FILTER (WHERE pm.due_date <= CURRENT_DATE) OVER () AS due_total
+      FROM public.event_payment_milestones pm
+      WHERE pm.event_id = p_event_id
+    ) m
+    WHERE m.milestone_due <= CURRENT_DATE AND m.running_total > v_settled
+    ORDER BY m.running_total
+    LIMIT 1;
+  ELSE
+    v_due_date := CASE WHEN v_event.event_date <= CURRENT_DATE THEN v_event.event_date END;
+    v_amount_due := v_balance;
+  END IF;
+
+  IF v_due_date IS NULL OR COALESCE(v_amount_due, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  due_date := v_due_date;
+  amount_due := least(v_amount_due, v_balance);
+  balance := v_balance;
+  RETURN NEXT;
+END;
+$$;
+
+-- Reminder wording for an event from the firm's payment_reminder WhatsApp template
+CREATE OR REPLACE FUNCTION public.build_payment_reminder_message(
+  p_event_id uuid,
+  p_due_date date,
+  p_amount_due numeric,
+  p_balance numeric
+) RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_template jsonb;
+  v_upi_link text;
+  v_amount_text text;
+  v_balance_text text;
+  v_content text;
+BEGIN
+  SELECT e.title, e.event_type, c.name AS client_name, f.upi_id,
+         COALESCE(ws.notification_templates::jsonb -> 'payment_reminder', '{}'::jsonb) AS template,
+         COALESCE(ws.firm_name, f.name) AS firm_name,
+         COALESCE(ws.firm_tagline, f.tagline) AS firm_tagline,
+         ws.contact_info, ws.footer_signature
+  INTO v_row
+  FROM public.events e
+  JOIN public.firms f ON f.id = e.firm_id
+  JOIN public.clients c ON c.id = e.client_id
+  LEFT JOIN LATERAL (
+    SELECT s.* FROM public.wa_sessions s WHERE s.firm_id = e.firm_id LIMIT 1
+  ) ws ON true
+  WHERE e.id = p_event_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_template := v_row.template;
+  v_amount_text := '₹' || to_char(p_amount_due, 'FM99,99,99,99,990');
+  v_balance_text := '₹' || to_char(p_balance, 'FM99,99,99,99,990');
+  v_upi_link := public.build_upi_link(v_row.upi_id, v_row.firm_name, p_amount_due, v_row.title);
+  v_content := COALESCE(v_template ->> 'content',
+    'This is a gentle reminder that a payment for your {eventType} was due on {dueDate}. The outstanding balance is {balance}.');
+  v_content := replace(replace(replace(replace(replace(replace(v_content,
+    '{clientName}', v_row.client_name),
+    '{eventType}', v_row.event_type),
+    '{eventName}', v_row.title),
+    '{balance}', v_balance_text),
+    '{dueDate}', to_char(p_due_date, 'DD/MM/YYYY')),
+    '{upiLink}', COALESCE(v_upi_link, ''));
+
+  RETURN format(E'*%s*\n\n%s\n\n%s\n\n*Event:* %s\n*Amount Due:* %s\n*Due Date:* %s\n*Balance:* %s%s\n\nThank you for choosing *%s*%s%s%s',
+    COALESCE(v_template ->> 'title', 'PAYMENT REMINDER'),
+    replace(COALESCE(v_template ->> 'greeting', 'Dear *{clientName}*,'), '{clientName}', v_row.client_name),
+    v_content,
+    v_row.title,
+    v_amount_text,
+    to_char(p_due_date, 'DD/MM/YYYY'),
+    v_balance_text,
+    CASE WHEN v_upi_link IS NOT NULL AND position('{upiLink}' IN COALESCE(v_template ->> 'content', '')) = 0
+         THEN E'\n*Pay via UPI:* ' || v_upi_link ELSE '' END,
+    v_row.firm_name,
+    E'\n_' || NULLIF(v_row.firm_tagline, '') || '_',
+    E'\n' || NULLIF(v_row.contact_info, ''),
+    E'\n' || NULLIF(v_row.footer_signature, ''));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_payment_reminder_due(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.build_payment_reminder_message(uuid, date, numeric, numeric) FROM PUBLIC, anon, authenticated;
+
+-- Queue the next payment reminder for every event with money due. An event is due once an
+-- unsettled milestone's due date has arrived, or, without a schedule, once the event date has
+-- passed with a balance left. Cadence, attempts per due date and quiet hours come from the
+-- firm's payment_reminder WhatsApp template. Returns the number of reminders queued.
+CREATE OR REPLACE FUNCTION public.queue_payment_reminders(p_firm_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_template jsonb;
+  v_due record;
+  v_cadence_days integer;
+  v_max_attempts integer;
+  v_attempt integer;
+  v_attempts_made integer;
+  v_count integer := 0;
+BEGIN
+  IF p_firm_id IS NULL THEN
+    -- Only the scheduled job (no request role) and service_role run this across firms
+    IF COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+      RAISE EXCEPTION 'A firm is required' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT (public.is_member_or_owner(p_firm_id) AND public.get_current_user_role() = 'Admin') THEN
+    RAISE EXCEPTION 'Only firm admins can send payment reminders' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_row IN
+    SELECT e.id, e.firm_id, c.phone AS client_phone,
+           COALESCE(ws.notification_templates::jsonb -> 'payment_reminder', '{}'::jsonb) AS template
+    FROM public.events e
+    JOIN public.clients c ON c.id = e.client_id AND c.deleted_at IS NULL
+    LEFT JOIN LATERAL (
+      SELECT s.* FROM public.wa_sessions s WHERE s.firm_id = e.firm_id LIMIT 1
+    ) ws ON true
+    WHERE (p_firm_id IS NULL OR e.firm_id = p_firm_id)
+      AND e.deleted_at IS NULL
+      AND e.status IS DISTINCT FROM 'Cancelled'
+      AND NOT c.payment_reminders_opt_out
+      AND NULLIF(btrim(c.phone), '') IS NOT NULL
+  LOOP
+    v_template := v_row.template;
+
+    CONTINUE WHEN COALESCE((v_template ->> 'enabled')::boolean, true) = false;
+    CONTINUE WHEN public.is_within_quiet_hours(
+      (now() AT TIME ZONE 'Asia/Kolkata')::time,
+      COALESCE(v_template ->> 'quiet_hours_start', '21:00'),
+      COALESCE(v_template ->> 'quiet_hours_end', '09:00')
+    );
+
+    SELECT * INTO v_due FROM public.get_payment_reminder_due(v_row.id);
+    CONTINUE WHEN v_due.due_date IS NULL;
+
+    v_cadence_days := greatest(1, COALESCE(NULLIF(v_template ->> 'cadence_days', '')::integer, 3));
+    v_max_attempts := greatest(1, COALESCE(NULLIF(v_template ->> 'max_attempts', '')::integer, 3));
+
+    -- Skipped reminders keep their attempt number but do not count towards the limit
+    SELECT COALESCE(max(r.attempt), 0) + 1, count(*) FILTER (WHERE r.status <> 'skipped')
+    INTO v_attempt, v_attempts_made
+    FROM public.payment_reminders r
+    WHERE r.event_id = v_row.id AND r.due_date = v_due.due_date;
+
+    CONTINUE WHEN v_attempts_made >= v_max_attempts;
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.payment_reminders r
+      WHERE r.event_id = v_row.id
+        AND r.status <> 'skipped'
+        AND r.created_at > now() - make_interval(days => v_cadence_days)
+    );
+
+    INSERT INTO public.payment_reminders (
+      event_id, firm_id, due_date, attempt, amount_due, balance, scheduled_for, phone, message
+    ) VALUES (
+      v_row.id, v_row.firm_id, v_due.due_date, v_attempt, v_due.amount_due, v_due.balance, now(), v_row.client_phone,
+      public.build_payment_reminder_message(v_row.id, v_due.due_date, v_due.amount_due, v_due.balance)
+    )
+    ON CONFLICT (event_id, due_date, attempt) DO NOTHING;
+
+    IF FOUND THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.queue_payment_reminders(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.queue_payment_reminders(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule('queue-payment-reminders')
+    WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'queue-payment-reminders');
+    PERFORM cron.schedule('queue-payment-reminders', '30 * * * *', 'SELECT public.queue_payment_reminders()');
+  END IF;
+END;
+$$;
+
+-- Claim due reminders for sending and return them. Claims older than 15 minutes were left by
+-- a sender that stopped mid-send and are released first. Reminders wait in the queue through
+-- the firm's quiet hours or while reminders are turned off. Each one is checked again: if the
+-- client has paid, opted out or the event been cancelled since it was queued it is skipped,
+-- otherwise its amounts and wording are rebuilt from the balance as it stands now.
+CREATE OR REPLACE FUNCTION public.claim_due_payment_reminders(p_firm_id uuid DEFAULT NULL, p_limit integer DEFAULT 50)
+RETURNS SETOF public.payment_reminders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_due record;
+  v_reminder public.payment_reminders;
+BEGIN
+  IF p_firm_id IS NULL THEN
+    IF COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+      RAISE EXCEPTION 'A firm is required' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT (public.is_member_or_owner(p_firm_id) AND public.get_current_user_role() = 'Admin') THEN
+    RAISE EXCEPTION 'Only firm admins can send payment reminders' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.payment_reminders
+  SET status = 'pending', claimed_at = NULL
+  WHERE status = 'sending'
+    AND claimed_at < now() - interval '15 minutes'
+    AND (p_firm_id IS NULL OR firm_id = p_firm_id);
+
+  FOR v_row IN
+    SELECT r.id, r.event_id, r.due_date,
+           (e.deleted_at IS NOT NULL
+             OR e.status = 'Cancelled'
+             OR c.deleted_at IS NOT NULL
+             OR COALESCE(c.payment_reminders_opt_out, false)) AS withdrawn
+    FROM public.payment_reminders r
+    JOIN public.events e ON e.id = r.event_id
+    LEFT JOIN public.clients c ON c.id = e.client_id
+    LEFT JOIN LATERAL (
+      SELECT s.notification_templates::jsonb -> 'payment_reminder' AS template
+      FROM public.wa_sessions s WHERE s.firm_id = r.firm_id LIMIT 1
+    ) ws ON true
+    WHERE r.status = 'pending'
+      AND r.scheduled_for <= now()
+      AND (p_firm_id IS NULL OR r.firm_id = p_firm_id)
+      AND COALESCE((ws.template ->> 'enabled')::boolean, true)
+      AND NOT public.is_within_quiet_hours(
+        (now() AT TIME ZONE 'Asia/Kolkata')::time,
+        COALESCE(ws.template ->> 'quiet_hours_start', '21:00'),
+        COALESCE(ws.template ->> 'quiet_hours_end', '09:00')
+      )
+    ORDER BY r.scheduled_for
+    LIMIT greatest(1, p_limit)
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    SELECT * INTO v_due FROM public.get_payment_reminder_due(v_row.event_id);
+
+    -- A different due date means the milestone this reminder chased has been settled
+    IF v_row.withdrawn OR v_due.due_date IS DISTINCT FROM v_row.due_date THEN
+      UPDATE public.payment_reminders SET status = 'skipped' WHERE id = v_row.id;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.payment_reminders
+    SET status = 'sending',
+        claimed_at = now(),
+        amount_due = v_due.amount_due,
+        balance = v_due.balance,
+        message = public.build_payment_reminder_message(v_row.event_id, v_due.due_date, v_due.amount_due, v_due.balance)
+    WHERE id = v_row.id
+    RETURNING * INTO v_reminder;
+
+    RETURN NEXT v_reminder;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_due_payment_reminders(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_due_payment_reminders(uuid, integer) TO authenticated;
+
+-- Call the sender every 15 minutes. It needs pg_net and the project_url and service_role_key
+-- Vault secrets; without them reminders are still sent while an admin has the payments page open.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.unschedule('send-payment-reminders')
+    WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-payment-reminders');
+    PERFORM cron.schedule('send-payment-reminders', '*/15 * * * *', $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/send-payment-reminders',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      )
+    $job$);
+  END IF;
+END;
+$$;
@@ -0,0 +1,256 @@
+-- Money going back to a client: refunds against an event (and optionally the payment they
+-- reverse), each with a numbered credit note. Cancelling an event settles what the firm keeps
+-- under its cancellation policy and refunds the rest in one step.
+
+-- Retention tiers, checked from the largest days_before down: cancelling at least
+-- days_before days ahead of the event keeps retention_percent of the event total.
+-- Inside every tier the firm keeps everything paid.
+ALTER TABLE public.firms
+  ADD COLUMN IF NOT EXISTS cancellation_policy jsonb NOT NULL DEFAULT
+    '[{"days_before": 30, "retention_percent": 25}, {"days_before": 7, "retention_percent": 50}, {"days_before": 0, "retention_percent": 100}]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.event_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  -- The payment being reversed, when the refund is for one payment
+  payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+  -- Assigned on insert, e.g. CN-0007
+  credit_note_number text NOT NULL,
+  kind text NOT NULL DEFAULT 'refund' CHECK (kind IN ('refund', 'cancellation')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  refund_date date NOT NULL DEFAULT CURRENT_DATE,
+  refund_method public.payment_method NOT NULL DEFAULT 'Cash',
+  reference_number text,
+  reason text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT event_refunds_credit_note_unique UNIQUE (firm_id, credit_note_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_refunds_event ON public.event_refunds (event_id, refund_date);
+CREATE INDEX IF NOT EXISTS idx_event_refunds_firm_date ON public.event_refunds (firm_id, refund_date);
+
+ALTER TABLE public.event_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view refunds"
+  ON public.event_refunds FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage refunds"
+  ON public.event_refunds FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_event_refunds_updated_at ON public.event_refunds;
+CREATE TRIGGER update_event_refunds_updated_at
+  BEFORE UPDATE ON public.event_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Money the client has paid for an event and not had back
+CREATE OR REPLACE FUNCTION public.get_event_net_paid(p_event_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(e.advance_amount, 0)
+    + COALESCE((SELECT sum(p.amount) FROM public.payments p WHERE p.event_id = e.id AND p.deleted_at IS NULL), 0)
+    - COALESCE((SELECT sum(r.amount) FROM public.event_refunds r WHERE r.event_id = e.id), 0)
+  FROM public.events e
+  WHERE e.id = p_event_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_net_paid(uuid) TO authenticated;
+
+-- Number the credit note and refuse to refund more than the client has paid. Numbers run per
+-- firm; the lock keeps two refunds saved at once from taking the same number.
+CREATE OR REPLACE FUNCTION public.prepare_event_refund()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_net_paid numeric;
+  v_next integer;
+BEGIN
+  v_net_paid := COALESCE(public.get_event_net_paid(NEW.event_id), 0);
+  IF NEW.amount > v_net_paid THEN
+    RAISE EXCEPTION 'Refund of % is more than the % paid for this event', NEW.amount, v_net_paid
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('event_refunds:' || NEW.firm_id::text));
+
+  SELECT COALESCE(max(NULLIF(regexp_replace(credit_note_number, '\D', '', 'g'), '')::integer), 0) + 1
+  INTO v_next
+  FROM public.event_refunds
+  WHERE firm_id = NEW.firm_id;
+
+  NEW.credit_note_number := 'CN-' || lpad(v_next::text, 4, '0');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prepare_event_refund ON public.event_refunds;
+CREATE TRIGGER trg_prepare_event_refund
+  BEFORE INSERT ON public.event_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_event_refund();
+
+-- Cancel an event and settle its money: refund what the firm does not keep, close the unpaid
+-- remainder so the cancelled event carries no balance, and record the settlement in the status
+-- history. Retention is worked out in the app from the firm's cancellation policy
+-- (src/lib/refund-utils.ts); p_refund_amount may be 0 when the firm keeps everything.
+CREATE OR REPLACE FUNCTION public.settle_event_cancellation(
+  p_event_id uuid,
+  p_refund_amount numeric DEFAULT 0,
+  p_refund_method public.payment_method DEFAULT 'Cash',
+  p_refund_date date DEFAULT CURRENT_DATE,
+  p_reference_number text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+) RETURNS public.event_refunds
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_refund public.event_refunds;
+  v_net_paid numeric;
+  v_retained numeric;
+  v_note text;
+  v_profile_id uuid;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id AND deleted_at IS NULL;
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_event.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_event.status = 'Cancelled' THEN
+    RAISE EXCEPTION 'Event is already cancelled' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Events in editing or delivered are past cancelling; refuse before any refund is recorded
+  IF NOT public.is_valid_event_status_transition(v_event.status, 'Cancelled') THEN
+    RAISE EXCEPTION 'A % event cannot be cancelled', v_event.status USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- created_by holds profile ids, like refunds and closing balances saved from the app
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  v_net_paid := COALESCE(public.get_event_net_paid(p_event_id), 0);
+  IF COALESCE(p_refund_amount, 0) < 0 OR COALESCE(p_refund_amount, 0) > v_net_paid THEN
+    RAISE EXCEPTION 'Refund must be between 0 and the % paid for this event', v_net_paid
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_refund_amount, 0) > 0 THEN
+    INSERT INTO public.event_refunds (
+      event_id, firm_id, kind, amount, refund_date, refund_method, reference_number, reason, created_by
+    ) VALUES (
+      p_event_id, v_event.firm_id, 'cancellation', p_refund_amount, COALESCE(p_refund_date, CURRENT_DATE),
+      COALESCE(p_refund_method, 'Cash'), NULLIF(btrim(p_reference_number), ''), NULLIF(btrim(p_reason), ''), v_profile_id
+    )
+    RETURNING * INTO v_refund;
+  END IF;
+
+  v_retained := v_net_paid - COALESCE(p_refund_amount, 0);
+  v_note := 'Cancellation settled: retained ₹' || to_char(v_retained, 'FM99,99,99,99,990')
+    || ', refunded ₹' || to_char(COALESCE(p_refund_amount, 0), 'FM99,99,99,99,990')
+    || COALESCE(' (' || v_refund.credit_note_number || ')', '')
+    || COALESCE('. ' || NULLIF(btrim(p_reason), ''), '');
+
+  INSERT INTO public.event_closing_balances (
+    event_id, firm_id, total_bill, collected_amount, closing_amount, closing_reason, created_by
+  ) VALUES (
+    p_event_id, v_event.firm_id, COALESCE(v_event.total_amount, 0), v_retained,
+    greatest(0, COALESCE(v_event.total_amount, 0) - v_retained), v_note, v_profile_id
+  )
+  ON CONFLICT (event_id) DO UPDATE SET
+    total_bill = EXCLUDED.total_bill,
+    collected_amount = EXCLUDED.collected_amount,
+    closing_amount = EXCLUDED.closing_amount,
+    closing_reason = EXCLUDED.closing_reason,
+    updated_at = now();
+
+  PERFORM public.set_event_status(p_event_id, 'Cancelled', v_note);
+
+  RETURN v_refund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_event_cancellation(uuid, numeric, public.payment_method, date, text, text) TO authenticated;
+
+-- Payment reminders count money refunded to the client as unpaid again
+CREATE OR REPLACE FUNCTION public.get_payment_reminder_due(p_event_id uuid)
+RETURNS TABLE (due_date date, amount_due numeric, balance numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event record;
+  v_settled numeric;
+  v_balance numeric;
+  v_amount_due numeric;
+  v_due_date date;
+BEGIN
+  SELECT e.event_date,
+         COALESCE(e.total_amount, 0) AS total_amount,
+         COALESCE(public.get_event_net_paid(e.id), 0) AS paid,
+         COALESCE((SELECT sum(cb.closing_amount) FROM public.event_closing_balances cb WHERE cb.event_id = e.id), 0) AS closed
+  INTO v_event
+  FROM public.events e
+  WHERE e.id = p_event_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_settled := v_event.paid + v_event.closed;
+  v_balance := greatest(0, v_event.total_amount - v_settled);
+  IF v_balance <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.event_payment_milestones pm WHERE pm.event_id = p_event_id) THEN
+    -- Money settles milestones in schedule order; chase the first due one left unsettled
+    SELECT m.milestone_due, greatest(0, m.due_total - v_settled)
+    INTO v_due_date, v_amount_due
+    FROM (
+      SELECT pm.due_date AS milestone_due,
+             sum(pm.amount) OVER (ORDER BY pm.sort_order, pm.created_at) AS running_total,
+             sum(pm.amount) FILTER (WHERE pm.due_date <= CURRENT_DATE) OVER () AS due_total
+      FROM public.event_payment_milestones pm
+      WHERE pm.event_id = p_event_id
+    ) m
+    WHERE m.milestone_due <= CURRENT_DATE AND m.running_total > v_settled
+    ORDER BY m.running_total
+    LIMIT 1;
+  ELSE
+    v_due_date := CASE WHEN v_event.event_date <= CURRENT_DATE THEN v_event.event_date END;
+    v_amount_due := v_balance;
+  END IF;
+
+  IF v_due_date IS NULL OR COALESCE(v_amount_due, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  due_date := v_due_date;
+  amount_due := least(v_amount_due, v_balance);
+  balance := v_balance;
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,203 @@
+-- Client-level receipts: one lump sum from a client, e.g. covering both the engagement and the
+-- wedding, split across that client's open events. Each split is an allocation row that counts
+-- towards the event's paid amount alongside its own payments.
+
+CREATE TABLE IF NOT EXISTS public.client_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  -- Assigned on insert, e.g. RCPT-0012
+  receipt_number text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_method public.payment_method NOT NULL DEFAULT 'Cash',
+  reference_number text,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT client_receipts_number_unique UNIQUE (firm_id, receipt_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.client_receipt_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES public.client_receipts(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT client_receipt_allocations_event_unique UNIQUE (receipt_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_receipts_client ON public.client_receipts (client_id, payment_date DESC);
+CREATE INDEX IF NOT EXISTS idx_client_receipts_firm_date ON public.client_receipts (firm_id, payment_date);
+CREATE INDEX IF NOT EXISTS idx_client_receipt_allocations_event ON public.client_receipt_allocations (event_id);
+CREATE INDEX IF NOT EXISTS idx_client_receipt_allocations_receipt ON public.client_receipt_allocations (receipt_id);
+
+ALTER TABLE public.client_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_receipt_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view client receipts"
+  ON public.client_receipts FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage client receipts"
+  ON public.client_receipts FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+CREATE POLICY "Firm members can view receipt allocations"
+  ON public.client_receipt_allocations FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage receipt allocations"
+  ON public.client_receipt_allocations FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_client_receipts_updated_at ON public.client_receipts;
+CREATE TRIGGER update_client_receipts_updated_at
+  BEFORE UPDATE ON public.client_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Receipt numbers run per firm; the lock keeps two receipts saved at once from sharing one
+CREATE OR REPLACE FUNCTION public.number_client_receipt()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_next integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('client_receipts:' || NEW.firm_id::text));
+
+  SELECT COALESCE(max(NULLIF(regexp_replace(receipt_number, '\D', '', 'g'), '')::integer), 0) + 1
+  INTO v_next
+  FROM public.client_receipts
+  WHERE firm_id = NEW.firm_id;
+
+  NEW.receipt_number := 'RCPT-' || lpad(v_next::text, 4, '0');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_number_client_receipt ON public.client_receipts;
+CREATE TRIGGER trg_number_client_receipt
+  BEFORE INSERT ON public.client_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_client_receipt();
+
+-- Money the client has paid for an event and not had back, now including receipt allocations
+CREATE OR REPLACE FUNCTION public.get_event_net_paid(p_event_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(e.advance_amount, 0)
+    + COALESCE((SELECT sum(p.amount) FROM public.payments p WHERE p.event_id = e.id AND p.deleted_at IS NULL), 0)
+    + COALESCE((SELECT sum(a.amount) FROM public.client_receipt_allocations a WHERE a.event_id = e.id), 0)
+    - COALESCE((SELECT sum(r.amount) FROM public.event_refunds r WHERE r.event_id = e.id), 0)
+  FROM public.events e
+  WHERE e.id = p_event_id;
+$$;
+
+-- Record a client receipt and its split in one transaction. Every allocation must go to one of
+-- the client's events and stay within that event's balance; the split must add up to the receipt.
+--   p_allocations [{ "event_id": "...", "amount": 40000 }]
+CREATE OR REPLACE FUNCTION public.record_client_receipt(
+  p_client_id uuid,
+  p_amount numeric,
+  p_payment_method public.payment_method,
+  p_payment_date date DEFAULT CURRENT_DATE,
+  p_reference_number text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_allocations jsonb DEFAULT '[]'::jsonb
+) RETURNS public.client_receipts
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_client public.clients;
+  v_receipt public.client_receipts;
+  v_allocation jsonb;
+  v_event public.events;
+  v_amount numeric;
+  v_allocated numeric := 0;
+  v_balance numeric;
+  v_profile_id uuid;
+BEGIN
+  SELECT * INTO v_client FROM public.clients WHERE id = p_client_id AND deleted_at IS NULL;
+  IF v_client.id IS NULL THEN
+    RAISE EXCEPTION 'Client % not found', p_client_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_client.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Receipt amount must be greater than 0' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(sum((a->>'amount')::numeric), 0) INTO v_allocated
+  FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb)) AS a;
+
+  IF abs(v_allocated - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'Allocations of % do not add up to the receipt of %', v_allocated, p_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- created_by holds profile ids, like payments recorded from the app
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.client_receipts (
+    firm_id, client_id, amount, payment_date, payment_method, reference_number, notes, created_by
+  ) VALUES (
+    v_client.firm_id, p_client_id, p_amount, COALESCE(p_payment_date, CURRENT_DATE), p_payment_method,
+    NULLIF(btrim(p_reference_number), ''), NULLIF(btrim(p_notes), ''), v_profile_id
+  )
+  RETURNING * INTO v_receipt;
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb)) LOOP
+    v_amount := (v_allocation->>'amount')::numeric;
+    CONTINUE WHEN COALESCE(v_amount, 0) <= 0;
+
+    SELECT * INTO v_event
+    FROM public.events
+    WHERE id = (v_allocation->>'event_id')::uuid
+      AND client_id = p_client_id
+      AND deleted_at IS NULL;
+
+    IF v_event.id IS NULL THEN
+      RAISE EXCEPTION 'Event % does not belong to this client', v_allocation->>'event_id' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_balance := COALESCE(v_event.total_amount, 0)
+      - COALESCE(public.get_event_net_paid(v_event.id), 0)
+      - COALESCE((SELECT sum(cb.closing_amount) FROM public.event_closing_balances cb WHERE cb.event_id = v_event.id), 0);
+
+    IF v_amount > v_balance + 0.01 THEN
+      RAISE EXCEPTION '% allocated to % is more than its balance of %', v_amount, v_event.title, greatest(v_balance, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.client_receipt_allocations (receipt_id, event_id, firm_id, amount)
+    VALUES (v_receipt.id, v_event.id, v_client.firm_id, v_amount);
+  END LOOP;
+
+  RETURN v_receipt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_client_receipt(uuid, numeric, public.payment_method, date, text, text, jsonb) TO authenticated;
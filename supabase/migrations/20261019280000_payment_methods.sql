@@ -0,0 +1,200 @@
+-- Richer payment methods: UPI, bank transfers (NEFT/IMPS/RTGS), cheques that clear later, cards
+-- and methods a firm defines itself. 'Digital' stays for payments recorded before the split.
+-- New enum values cannot be used in the transaction that adds them, so checks below compare
+-- payment_method as text.
+
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'UPI';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'NEFT';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'IMPS';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'RTGS';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'Cheque';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'Card';
+-- A firm-defined method; its name is kept in custom_method
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'Other';
+
+CREATE TABLE IF NOT EXISTS public.firm_payment_methods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT firm_payment_methods_firm_name_key UNIQUE (firm_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_firm_payment_methods_firm ON public.firm_payment_methods (firm_id, sort_order);
+
+ALTER TABLE public.firm_payment_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view payment methods"
+  ON public.firm_payment_methods FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage payment methods"
+  ON public.firm_payment_methods FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_firm_payment_methods_updated_at ON public.firm_payment_methods;
+CREATE TRIGGER update_firm_payment_methods_updated_at
+  BEFORE UPDATE ON public.firm_payment_methods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Cheques are recorded as uncleared and only count as collected once cleared; a bounced
+-- cheque no longer counts towards what the client has paid
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS custom_method text,
+  ADD COLUMN IF NOT EXISTS cheque_number text,
+  ADD COLUMN IF NOT EXISTS cheque_bank text,
+  ADD COLUMN IF NOT EXISTS cheque_status text CHECK (cheque_status IN ('uncleared', 'cleared', 'bounced')),
+  ADD COLUMN IF NOT EXISTS cheque_cleared_on date;
+
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_cheque_method_check
+    CHECK ((payment_method::text = 'Cheque') = (cheque_status IS NOT NULL)),
+  ADD CONSTRAINT payments_custom_method_check
+    CHECK ((payment_method::text = 'Other') = (NULLIF(btrim(custom_method), '') IS NOT NULL));
+
+ALTER TABLE public.client_receipts
+  ADD COLUMN IF NOT EXISTS custom_method text,
+  ADD COLUMN IF NOT EXISTS cheque_number text,
+  ADD COLUMN IF NOT EXISTS cheque_bank text,
+  ADD COLUMN IF NOT EXISTS cheque_status text CHECK (cheque_status IN ('uncleared', 'cleared', 'bounced')),
+  ADD COLUMN IF NOT EXISTS cheque_cleared_on date;
+
+ALTER TABLE public.client_receipts
+  ADD CONSTRAINT client_receipts_cheque_method_check
+    CHECK ((payment_method::text = 'Cheque') = (cheque_status IS NOT NULL)),
+  ADD CONSTRAINT client_receipts_custom_method_check
+    CHECK ((payment_method::text = 'Other') = (NULLIF(btrim(custom_method), '') IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_payments_uncleared_cheques
+  ON public.payments (firm_id, payment_date)
+  WHERE cheque_status = 'uncleared';
+
+-- Money the client has paid for an event and not had back; bounced cheques never arrived
+CREATE OR REPLACE FUNCTION public.get_event_net_paid(p_event_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(e.advance_amount, 0)
+    + COALESCE((
+        SELECT sum(p.amount) FROM public.payments p
+        WHERE p.event_id = e.id AND p.deleted_at IS NULL AND p.cheque_status IS DISTINCT FROM 'bounced'
+      ), 0)
+    + COALESCE((
+        SELECT sum(a.amount) FROM public.client_receipt_allocations a
+        JOIN public.client_receipts r ON r.id = a.receipt_id
+        WHERE a.event_id = e.id AND r.cheque_status IS DISTINCT FROM 'bounced'
+      ), 0)
+    - COALESCE((SELECT sum(r.amount) FROM public.event_refunds r WHERE r.event_id = e.id), 0)
+  FROM public.events e
+  WHERE e.id = p_event_id;
+$$;
+
+-- record_client_receipt gains the custom method name and cheque details
+DROP FUNCTION IF EXISTS public.record_client_receipt(uuid, numeric, public.payment_method, date, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.record_client_receipt(
+  p_client_id uuid,
+  p_amount numeric,
+  p_payment_method public.payment_method,
+  p_payment_date date DEFAULT CURRENT_DATE,
+  p_reference_number text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_allocations jsonb DEFAULT '[]'::jsonb,
+  p_custom_method text DEFAULT NULL,
+  p_cheque_number text DEFAULT NULL,
+  p_cheque_bank text DEFAULT NULL
+) RETURNS public.client_receipts
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_client public.clients;
+  v_receipt public.client_receipts;
+  v_allocation jsonb;
+  v_event public.events;
+  v_amount numeric;
+  v_allocated numeric := 0;
+  v_balance numeric;
+  v_is_cheque boolean := p_payment_method::text = 'Cheque';
+  v_profile_id uuid;
+BEGIN
+  SELECT * INTO v_client FROM public.clients WHERE id = p_client_id AND deleted_at IS NULL;
+  IF v_client.id IS NULL THEN
+    RAISE EXCEPTION 'Client % not found', p_client_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_client.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Receipt amount must be greater than 0' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(sum((a->>'amount')::numeric), 0) INTO v_allocated
+  FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb)) AS a;
+
+  IF abs(v_allocated - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'Allocations of % do not add up to the receipt of %', v_allocated, p_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.client_receipts (
+    firm_id, client_id, amount, payment_date, payment_method, reference_number, notes, created_by,
+    custom_method, cheque_number, cheque_bank, cheque_status
+  ) VALUES (
+    v_client.firm_id, p_client_id, p_amount, COALESCE(p_payment_date, CURRENT_DATE), p_payment_method,
+    NULLIF(btrim(p_reference_number), ''), NULLIF(btrim(p_notes), ''), v_profile_id,
+    CASE WHEN p_payment_method::text = 'Other' THEN NULLIF(btrim(p_custom_method), '') END,
+    CASE WHEN v_is_cheque THEN NULLIF(btrim(p_cheque_number), '') END,
+    CASE WHEN v_is_cheque THEN NULLIF(btrim(p_cheque_bank), '') END,
+    CASE WHEN v_is_cheque THEN 'uncleared' END
+  )
+  RETURNING * INTO v_receipt;
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb)) LOOP
+    v_amount := (v_allocation->>'amount')::numeric;
+    CONTINUE WHEN COALESCE(v_amount, 0) <= 0;
+
+    SELECT * INTO v_event
+    FROM public.events
+    WHERE id = (v_allocation->>'event_id')::uuid
+      AND client_id = p_client_id
+      AND deleted_at IS NULL;
+
+    IF v_event.id IS NULL THEN
+      RAISE EXCEPTION 'Event % does not belong to this client', v_allocation->>'event_id' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_balance := COALESCE(v_event.total_amount, 0)
+      - COALESCE(public.get_event_net_paid(v_event.id), 0)
+      - COALESCE((SELECT sum(cb.closing_amount) FROM public.event_closing_balances cb WHERE cb.event_id = v_event.id), 0);
+
+    IF v_amount > v_balance + 0.01 THEN
+      RAISE EXCEPTION '% allocated to % is more than its balance of %', v_amount, v_event.title, greatest(v_balance, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.client_receipt_allocations (receipt_id, event_id, firm_id, amount)
+    VALUES (v_receipt.id, v_event.id, v_client.firm_id, v_amount);
+  END LOOP;
+
+  RETURN v_receipt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_client_receipt(uuid, numeric, public.payment_method, date, text, text, jsonb, text, text, text) TO authenticated;
@@ -0,0 +1,298 @@
+-- Firm-configurable numbering for invoices, receipts, credit notes and quotations. Each series
+-- has its own prefix and padding and can restart every financial year (1 April). Numbers come
+-- from a counter row updated in the same transaction as the document, so a rolled back save
+-- hands its number back and the series stays gap-free. Once given, a number is stored on the
+-- document and never generated again.
+
+CREATE TABLE IF NOT EXISTS public.firm_document_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'receipt', 'credit_note', 'quotation')),
+  prefix text NOT NULL DEFAULT '' CHECK (length(prefix) <= 20),
+  padding integer NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  -- Restart at 1 every 1 April, with the financial year (e.g. 2026-27) in the number
+  reset_financial_year boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT firm_document_series_firm_type_key UNIQUE (firm_id, document_type)
+);
+
+ALTER TABLE public.firm_document_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view document series"
+  ON public.firm_document_series FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage document series"
+  ON public.firm_document_series FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+DROP TRIGGER IF EXISTS update_firm_document_series_updated_at ON public.firm_document_series;
+CREATE TRIGGER update_firm_document_series_updated_at
+  BEFORE UPDATE ON public.firm_document_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Last number given per series and period ('all', or a financial year such as '2026-27').
+-- Only next_document_number writes here.
+CREATE TABLE IF NOT EXISTS public.firm_document_counters (
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'receipt', 'credit_note', 'quotation')),
+  period text NOT NULL,
+  last_number integer NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (firm_id, document_type, period)
+);
+
+ALTER TABLE public.firm_document_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view document counters"
+  ON public.firm_document_counters FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+-- Indian financial year of a date, e.g. 2027-02-10 -> '2026-27'
+CREATE OR REPLACE FUNCTION public.financial_year_label(p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (extract(year FROM p_date)::integer - CASE WHEN extract(month FROM p_date) < 4 THEN 1 ELSE 0 END)::text
+    || '-'
+    || lpad(((extract(year FROM p_date)::integer - CASE WHEN extract(month FROM p_date) < 4 THEN 1 ELSE 0 END + 1) % 100)::text, 2, '0');
+$$;
+
+-- Take the next number of a series. Firms without settings keep the prefixes used so far.
+-- The counter row stays locked until the caller's transaction ends, so concurrent documents
+-- queue up instead of sharing or skipping a number.
+CREATE OR REPLACE FUNCTION public.next_document_number(p_firm_id uuid, p_document_type text, p_date date DEFAULT CURRENT_DATE)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series public.firm_document_series;
+  v_prefix text;
+  v_padding integer;
+  v_period text;
+  v_next integer;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.firm_document_series
+  WHERE firm_id = p_firm_id AND document_type = p_document_type;
+
+  v_prefix := COALESCE(v_series.prefix, CASE p_document_type
+    WHEN 'invoice' THEN 'INV-'
+    WHEN 'receipt' THEN 'RCPT-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'quotation' THEN 'QT-'
+  END);
+  v_padding := COALESCE(v_series.padding, 4);
+  v_period := CASE WHEN COALESCE(v_series.reset_financial_year, false)
+    THEN public.financial_year_label(COALESCE(p_date, CURRENT_DATE))
+    ELSE 'all'
+  END;
+
+  INSERT INTO public.firm_document_counters AS c (firm_id, document_type, period, last_number)
+  VALUES (p_firm_id, p_document_type, v_period, 1)
+  ON CONFLICT (firm_id, document_type, period)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING last_number INTO v_next;
+
+  RETURN v_prefix
+    || CASE WHEN v_period = 'all' THEN '' ELSE v_period || '/' END
+    || lpad(v_next::text, greatest(v_padding, length(v_next::text)), '0');
+END;
+$$;
+
+-- Called from the numbering triggers and get_event_invoice_number only; a direct call would
+-- use up a number without a document and leave a gap
+REVOKE ALL ON FUNCTION public.next_document_number(uuid, text, date) FROM PUBLIC, anon, authenticated;
+
+-- Carry on from the numbers already given, so existing receipts and credit notes are not reused
+INSERT INTO public.firm_document_counters (firm_id, document_type, period, last_number)
+SELECT firm_id, 'receipt', 'all', max(NULLIF(regexp_replace(receipt_number, '\D', '', 'g'), '')::integer)
+FROM public.client_receipts
+GROUP BY firm_id
+HAVING max(NULLIF(regexp_replace(receipt_number, '\D', '', 'g'), '')::integer) IS NOT NULL
+ON CONFLICT (firm_id, document_type, period) DO NOTHING;
+
+INSERT INTO public.firm_document_counters (firm_id, document_type, period, last_number)
+SELECT firm_id, 'credit_note', 'all', max(NULLIF(regexp_replace(credit_note_number, '\D', '', 'g'), '')::integer)
+FROM public.event_refunds
+GROUP BY firm_id
+HAVING max(NULLIF(regexp_replace(credit_note_number, '\D', '', 'g'), '')::integer) IS NOT NULL
+ON CONFLICT (firm_id, document_type, period) DO NOTHING;
+
+-- Invoice numbers were given per payment before; carry on from the last one. Older numbers
+-- may hold a year as well, so only the trailing run of digits is the sequence.
+INSERT INTO public.firm_document_counters (firm_id, document_type, period, last_number)
+SELECT firm_id, 'invoice', 'all', max(substring(invoice_id FROM '(\d{1,9})\D*$')::integer)
+FROM public.payments
+WHERE firm_id IS NOT NULL AND invoice_id IS NOT NULL
+GROUP BY firm_id
+HAVING max(substring(invoice_id FROM '(\d{1,9})\D*$')::integer) IS NOT NULL
+ON CONFLICT (firm_id, document_type, period) DO NOTHING;
+
+-- Receipts take the next receipt number of their firm
+CREATE OR REPLACE FUNCTION public.number_client_receipt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.receipt_number := public.next_document_number(NEW.firm_id, 'receipt', NEW.payment_date);
+  RETURN NEW;
+END;
+$$;
+
+-- Number the credit note and refuse to refund more than the client has paid
+CREATE OR REPLACE FUNCTION public.prepare_event_refund()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_net_paid numeric;
+BEGIN
+  v_net_paid := COALESCE(public.get_event_net_paid(NEW.event_id), 0);
+  IF NEW.amount > v_net_paid THEN
+    RAISE EXCEPTION 'Refund of % is more than the % paid for this event', NEW.amount, v_net_paid
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.credit_note_number := public.next_document_number(NEW.firm_id, 'credit_note', NEW.refund_date);
+  RETURN NEW;
+END;
+$$;
+
+-- Quotations are numbered when created; revisions keep the number of their quotation
+ALTER TABLE public.quotations ADD COLUMN IF NOT EXISTS quotation_number text;
+
+WITH numbered AS (
+  SELECT id, firm_id, row_number() OVER (PARTITION BY firm_id ORDER BY created_at, id) AS n
+  FROM public.quotations
+  WHERE quotation_number IS NULL AND firm_id IS NOT NULL
+)
+UPDATE public.quotations q
+SET quotation_number = 'QT-' || lpad(numbered.n::text, 4, '0')
+FROM numbered
+WHERE q.id = numbered.id;
+
+INSERT INTO public.firm_document_counters (firm_id, document_type, period, last_number)
+SELECT firm_id, 'quotation', 'all', count(*)
+FROM public.quotations
+WHERE firm_id IS NOT NULL
+GROUP BY firm_id
+ON CONFLICT (firm_id, document_type, period) DO NOTHING;
+
+ALTER TABLE public.quotations
+  ADD CONSTRAINT quotations_number_unique UNIQUE (firm_id, quotation_number);
+
+CREATE OR REPLACE FUNCTION public.number_quotation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.firm_id IS NOT NULL THEN
+    NEW.quotation_number := public.next_document_number(NEW.firm_id, 'quotation', CURRENT_DATE);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_number_quotation ON public.quotations;
+CREATE TRIGGER trg_number_quotation
+  BEFORE INSERT ON public.quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_quotation();
+
+-- An event's invoice number is given the first time its invoice is generated and reused on
+-- every later download or share; its payments carry the same number
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS invoice_number text;
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_invoice_number_unique UNIQUE (firm_id, invoice_number);
+
+CREATE OR REPLACE FUNCTION public.get_event_invoice_number(p_event_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+BEGIN
+  -- The row lock makes a second caller wait and then read the number the first one stored
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT public.is_member_or_owner(v_event.firm_id) THEN
+    RAISE EXCEPTION 'Not a member of this firm' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_event.invoice_number IS NOT NULL THEN
+    RETURN v_event.invoice_number;
+  END IF;
+
+  IF NOT public.is_firm_writable(v_event.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_event.invoice_number := public.next_document_number(v_event.firm_id, 'invoice', CURRENT_DATE);
+  UPDATE public.events SET invoice_number = v_event.invoice_number WHERE id = v_event.id;
+
+  RETURN v_event.invoice_number;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_event_invoice_number(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_event_invoice_number(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.number_payment_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_id IS NULL AND NEW.event_id IS NOT NULL THEN
+    NEW.invoice_id := public.get_event_invoice_number(NEW.event_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_number_payment_invoice ON public.payments;
+CREATE TRIGGER trg_number_payment_invoice
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_payment_invoice();
+
+-- generate_invoice_id(p_event_id) now returns the event's stored number instead of a new one.
+-- The old no-argument version handed out a fresh number on every call, so it goes.
+DROP FUNCTION IF EXISTS public.generate_invoice_id();
+DROP FUNCTION IF EXISTS public.generate_invoice_id(uuid);
+
+CREATE FUNCTION public.generate_invoice_id(p_event_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT public.get_event_invoice_number(p_event_id);
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_invoice_id(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_invoice_id(uuid) TO authenticated, service_role;
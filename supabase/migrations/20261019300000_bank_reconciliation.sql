@@ -0,0 +1,277 @@
+-- Bank statement import and reconciliation. Statement lines are imported from a bank's CSV;
+-- a credit is matched to the payment or client receipt it settles and a debit to the expense,
+-- salary or freelancer payment it paid for. The match lives on the record as
+-- bank_statement_line_id, so a reconciled record is one with a statement line, and deleting
+-- the record or the import frees the other side.
+
+CREATE TABLE IF NOT EXISTS public.bank_statement_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  -- Bank the columns were recognised as, e.g. 'HDFC Bank'; 'Generic' when only the headers matched
+  bank_format text NOT NULL,
+  period_from date,
+  period_to date,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_imports_firm ON public.bank_statement_imports (firm_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.bank_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id uuid NOT NULL REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE,
+  firm_id uuid NOT NULL REFERENCES public.firms(id) ON DELETE CASCADE,
+  line_date date NOT NULL,
+  description text NOT NULL DEFAULT '',
+  reference text,
+  direction text NOT NULL CHECK (direction IN ('credit', 'debit')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  balance numeric,
+  -- Date, direction, amount, balance and narration; the same line in a later statement is skipped
+  fingerprint text NOT NULL,
+  -- Lines with nothing to match, such as transfers between the firm's own accounts
+  ignored boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT bank_statement_lines_fingerprint_key UNIQUE (firm_id, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_import ON public.bank_statement_lines (import_id, line_date);
+
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Firm members can view bank statement imports"
+  ON public.bank_statement_imports FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage bank statement imports"
+  ON public.bank_statement_imports FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+CREATE POLICY "Firm members can view bank statement lines"
+  ON public.bank_statement_lines FOR SELECT
+  USING (public.is_member_or_owner(firm_id));
+
+CREATE POLICY "Admins can manage bank statement lines"
+  ON public.bank_statement_lines FOR ALL
+  USING (public.is_member_or_owner(firm_id) AND public.get_current_user_role() = 'Admin')
+  WITH CHECK (
+    public.is_member_or_owner(firm_id)
+    AND public.get_current_user_role() = 'Admin'
+    AND public.is_firm_writable(firm_id)
+  );
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS bank_statement_line_id uuid REFERENCES public.bank_statement_lines(id) ON DELETE SET NULL;
+ALTER TABLE public.client_receipts
+  ADD COLUMN IF NOT EXISTS bank_statement_line_id uuid REFERENCES public.bank_statement_lines(id) ON DELETE SET NULL;
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS bank_statement_line_id uuid REFERENCES public.bank_statement_lines(id) ON DELETE SET NULL;
+ALTER TABLE public.staff_payments
+  ADD COLUMN IF NOT EXISTS bank_statement_line_id uuid REFERENCES public.bank_statement_lines(id) ON DELETE SET NULL;
+ALTER TABLE public.freelancer_payments
+  ADD COLUMN IF NOT EXISTS bank_statement_line_id uuid REFERENCES public.bank_statement_lines(id) ON DELETE SET NULL;
+
+-- One record per statement line within a table; reconcile_bank_statement_line checks across tables
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_bank_statement_line
+  ON public.payments (bank_statement_line_id) WHERE bank_statement_line_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_client_receipts_bank_statement_line
+  ON public.client_receipts (bank_statement_line_id) WHERE bank_statement_line_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_bank_statement_line
+  ON public.expenses (bank_statement_line_id) WHERE bank_statement_line_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_payments_bank_statement_line
+  ON public.staff_payments (bank_statement_line_id) WHERE bank_statement_line_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_freelancer_payments_bank_statement_line
+  ON public.freelancer_payments (bank_statement_line_id) WHERE bank_statement_line_id IS NOT NULL;
+
+-- Match a statement line to the record it is for. Credits go to payments and client receipts,
+-- debits to expenses, salary and freelancer payments, and the amounts must agree.
+CREATE OR REPLACE FUNCTION public.reconcile_bank_statement_line(p_line_id uuid, p_record_table text, p_record_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.bank_statement_lines;
+  v_record_firm uuid;
+  v_record_amount numeric;
+  v_record_line uuid;
+BEGIN
+  SELECT * INTO v_line FROM public.bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+  IF v_line.id IS NULL THEN
+    RAISE EXCEPTION 'Statement line % not found', p_line_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_line.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_line.ignored THEN
+    RAISE EXCEPTION 'This statement line is ignored' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (v_line.direction = 'credit' AND p_record_table NOT IN ('payments', 'client_receipts'))
+     OR (v_line.direction = 'debit' AND p_record_table NOT IN ('expenses', 'staff_payments', 'freelancer_payments')) THEN
+    RAISE EXCEPTION 'A % cannot be matched to %', v_line.direction, p_record_table USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payments WHERE bank_statement_line_id = p_line_id)
+     OR EXISTS (SELECT 1 FROM public.client_receipts WHERE bank_statement_line_id = p_line_id)
+     OR EXISTS (SELECT 1 FROM public.expenses WHERE bank_statement_line_id = p_line_id)
+     OR EXISTS (SELECT 1 FROM public.staff_payments WHERE bank_statement_line_id = p_line_id)
+     OR EXISTS (SELECT 1 FROM public.freelancer_payments WHERE bank_statement_line_id = p_line_id) THEN
+    RAISE EXCEPTION 'This statement line is already reconciled' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  EXECUTE format('SELECT firm_id, amount, bank_statement_line_id FROM public.%I WHERE id = $1 FOR UPDATE', p_record_table)
+    INTO v_record_firm, v_record_amount, v_record_line
+    USING p_record_id;
+
+  IF v_record_firm IS DISTINCT FROM v_line.firm_id THEN
+    RAISE EXCEPTION 'Record % not found', p_record_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_record_line IS NOT NULL THEN
+    RAISE EXCEPTION 'This record is already reconciled' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF abs(v_record_amount - v_line.amount) > 0.01 THEN
+    RAISE EXCEPTION 'Record amount % does not match the statement amount %', v_record_amount, v_line.amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  EXECUTE format('UPDATE public.%I SET bank_statement_line_id = $1 WHERE id = $2', p_record_table)
+    USING p_line_id, p_record_id;
+
+  -- A cheque seen on the statement has cleared
+  IF p_record_table IN ('payments', 'client_receipts') THEN
+    EXECUTE format(
+      'UPDATE public.%I SET cheque_status = ''cleared'', cheque_cleared_on = $1 WHERE id = $2 AND cheque_status = ''uncleared''',
+      p_record_table
+    ) USING v_line.line_date, p_record_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unreconcile_bank_statement_line(p_line_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.bank_statement_lines;
+BEGIN
+  SELECT * INTO v_line FROM public.bank_statement_lines WHERE id = p_line_id FOR UPDATE;
+  IF v_line.id IS NULL THEN
+    RAISE EXCEPTION 'Statement line % not found', p_line_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.is_firm_writable(v_line.firm_id) THEN
+    RAISE EXCEPTION 'This firm is read-only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.payments SET bank_statement_line_id = NULL WHERE bank_statement_line_id = p_line_id;
+  UPDATE public.client_receipts SET bank_statement_line_id = NULL WHERE bank_statement_line_id = p_line_id;
+  UPDATE public.expenses SET bank_statement_line_id = NULL WHERE bank_statement_line_id = p_line_id;
+  UPDATE public.staff_payments SET bank_statement_line_id = NULL WHERE bank_statement_line_id = p_line_id;
+  UPDATE public.freelancer_payments SET bank_statement_line_id = NULL WHERE bank_statement_line_id = p_line_id;
+END;
+$$;
+
+-- Record a bank credit as a payment on an event, or a debit as an expense, and reconcile it
+-- with the line in the same transaction, so a failed match leaves no unreconciled record behind
+CREATE OR REPLACE FUNCTION public.create_payment_from_statement_line(
+  p_line_id uuid,
+  p_event_id uuid,
+  p_payment_method public.payment_method
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.bank_statement_lines;
+  v_is_cheque boolean := p_payment_method::text = 'Cheque';
+  v_profile_id uuid;
+  v_payment_id uuid;
+BEGIN
+  SELECT * INTO v_line FROM public.bank_statement_lines WHERE id = p_line_id;
+  IF v_line.id IS NULL THEN
+    RAISE EXCEPTION 'Statement line % not found', p_line_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.events WHERE id = p_event_id AND firm_id = v_line.firm_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Event % not found', p_event_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  -- The money is already in the account, so a cheque has cleared
+  INSERT INTO public.payments (
+    event_id, firm_id, amount, payment_method, payment_date, reference_number,
+    cheque_number, cheque_status, cheque_cleared_on, notes, created_by
+  ) VALUES (
+    p_event_id, v_line.firm_id, v_line.amount, p_payment_method, v_line.line_date,
+    CASE WHEN v_is_cheque THEN NULL ELSE v_line.reference END,
+    CASE WHEN v_is_cheque THEN v_line.reference END,
+    CASE WHEN v_is_cheque THEN 'cleared' END,
+    CASE WHEN v_is_cheque THEN v_line.line_date END,
+    NULLIF(btrim(v_line.description), ''), v_profile_id
+  )
+  RETURNING id INTO v_payment_id;
+
+  PERFORM public.reconcile_bank_statement_line(p_line_id, 'payments', v_payment_id);
+
+  RETURN v_payment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_expense_from_statement_line(
+  p_line_id uuid,
+  p_category public.expense_category,
+  p_payment_method public.payment_method
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.bank_statement_lines;
+  v_profile_id uuid;
+  v_expense_id uuid;
+BEGIN
+  SELECT * INTO v_line FROM public.bank_statement_lines WHERE id = p_line_id;
+  IF v_line.id IS NULL THEN
+    RAISE EXCEPTION 'Statement line % not found', p_line_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT id INTO v_profile_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+
+  INSERT INTO public.expenses (
+    firm_id, amount, category, description, expense_date, payment_method, created_by
+  ) VALUES (
+    v_line.firm_id, v_line.amount, p_category, COALESCE(NULLIF(btrim(v_line.description), ''), 'Bank debit'),
+    v_line.line_date, p_payment_method, v_profile_id
+  )
+  RETURNING id INTO v_expense_id;
+
+  PERFORM public.reconcile_bank_statement_line(p_line_id, 'expenses', v_expense_id);
+
+  RETURN v_expense_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reconcile_bank_statement_line(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unreconcile_bank_statement_line(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_payment_from_statement_line(uuid, uuid, public.payment_method) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_expense_from_statement_line(uuid, public.expense_category, public.payment_method) TO authenticated;